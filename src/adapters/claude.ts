@@ -1,7 +1,484 @@
+import * as path from "node:path";
 import { createStructuredPrefixAdapter } from "./structured-prefix.js";
+import type {
+  AdapterContext,
+  AdapterEventEnvelope,
+  AdapterParseResult,
+  HostAdapter,
+} from "./types.js";
 
-export const claudeAdapter = createStructuredPrefixAdapter({
-  host: "claude",
-  name: "claude-adapter",
-  prefix: "FOOTPRINT_CLAUDE_EVENT ",
-});
+const ADAPTER_NAME = "claude-adapter";
+const MAX_TOOL_OUTPUT_LENGTH = 4000;
+const FILE_TOOLS = new Set(["Edit", "MultiEdit", "Write", "NotebookEdit"]);
+const SUBAGENT_TOOLS = new Set(["Task", "Agent"]);
+
+type StreamJsonBlock = Record<string, unknown> & { type?: unknown };
+
+interface StreamJsonLine {
+  type: string;
+  subtype?: unknown;
+  message?: {
+    id?: unknown;
+    model?: unknown;
+    content?: unknown;
+    usage?: unknown;
+  };
+  parent_tool_use_id?: unknown;
+  session_id?: unknown;
+  [key: string]: unknown;
+}
+
+interface PendingToolUse {
+  name: string;
+  input: Record<string, unknown>;
+  startedAt: string;
+  parentToolUseId: string | null;
+}
+
+function getString(value: unknown): string | null {
+  return typeof value === "string" && value.length > 0 ? value : null;
+}
+
+function getNumber(value: unknown): number | null {
+  return typeof value === "number" && Number.isFinite(value) ? value : null;
+}
+
+function getRecord(value: unknown): Record<string, unknown> {
+  return value && typeof value === "object" && !Array.isArray(value)
+    ? (value as Record<string, unknown>)
+    : {};
+}
+
+function getBlocks(content: unknown): StreamJsonBlock[] {
+  if (typeof content === "string") {
+    return [{ type: "text", text: content }];
+  }
+
+  return Array.isArray(content)
+    ? content.filter(
+        (block): block is StreamJsonBlock =>
+          Boolean(block) && typeof block === "object",
+      )
+    : [];
+}
+
+function truncate(value: string, maxLength: number): string {
+  return value.length > maxLength
+    ? `${value.slice(0, maxLength - 3)}...`
+    : value;
+}
+
+function parseStreamJsonLine(line: string): StreamJsonLine | null {
+  const trimmed = line.trim();
+  if (!trimmed.startsWith("{")) {
+    return null;
+  }
+
+  try {
+    const parsed = JSON.parse(trimmed) as unknown;
+    const record = getRecord(parsed);
+    return typeof record.type === "string" ? (record as StreamJsonLine) : null;
+  } catch {
+    return null;
+  }
+}
+
+function toolResultText(content: unknown): string {
+  if (typeof content === "string") {
+    return content;
+  }
+
+  return getBlocks(content)
+    .map((block) => (typeof block.text === "string" ? block.text : ""))
+    .filter(Boolean)
+    .join("\n");
+}
+
+function toProjectPath(filePath: string, cwd: string): string {
+  if (!path.isAbsolute(filePath)) {
+    return filePath;
+  }
+
+  const relative = path.relative(cwd, filePath);
+  return relative && !relative.startsWith("..") && !path.isAbsolute(relative)
+    ? relative
+    : filePath;
+}
+
+function describeToolUse(
+  name: string,
+  input: Record<string, unknown>,
+  cwd: string,
+): string {
+  const target =
+    getString(input.command) ??
+    getString(input.description) ??
+    (getString(input.file_path)
+      ? toProjectPath(input.file_path as string, cwd)
+      : null) ??
+    getString(input.pattern) ??
+    getString(input.url);
+  return target ? `${name}: ${truncate(target, 120)}` : name;
+}
+
+function formatCost(costUsd: number | null): string | null {
+  return costUsd === null ? null : `$${costUsd.toFixed(4)}`;
+}
+
+/**
+ * Parses Claude Code `--output-format stream-json` output into timeline
+ * envelopes. Tool uses are paired with their results by `tool_use_id`, so
+ * Bash, file-editing, and subagent tools also produce `command.*`,
+ * `file.changed`, and `subagent.*` events. Lines that are not stream-json
+ * fall through to the `FOOTPRINT_CLAUDE_EVENT` prefix protocol.
+ */
+export function createClaudeStreamAdapter(
+  options: { now?: () => string } = {},
+): HostAdapter {
+  const now = options.now ?? (() => new Date().toISOString());
+  const prefixAdapter = createStructuredPrefixAdapter({
+    host: "claude",
+    name: ADAPTER_NAME,
+    prefix: "FOOTPRINT_CLAUDE_EVENT ",
+  });
+  const pendingToolUses = new Map<string, PendingToolUse>();
+  const reportedUsageMessageIds = new Set<string>();
+
+  const fromSystem = (
+    line: StreamJsonLine,
+    stream: "stdout" | "stderr",
+  ): AdapterEventEnvelope[] => {
+    if (line.subtype !== "init") {
+      return [];
+    }
+
+    const model = getString(line.model);
+    return [
+      {
+        eventType: "session.host.initialized",
+        eventSubType: "claude",
+        summary: model
+          ? `Claude session initialized (${model})`
+          : "Claude session initialized",
+        payload: {
+          hostSessionId: getString(line.session_id),
+          model,
+          cwd: getString(line.cwd),
+          permissionMode: getString(line.permissionMode),
+          tools: Array.isArray(line.tools) ? line.tools : [],
+          mcpServers: Array.isArray(line.mcp_servers) ? line.mcp_servers : [],
+          stream,
+        },
+        status: "captured",
+      },
+    ];
+  };
+
+  const fromAssistant = (
+    line: StreamJsonLine,
+    stream: "stdout" | "stderr",
+    context: AdapterContext,
+  ): AdapterEventEnvelope[] => {
+    const envelopes: AdapterEventEnvelope[] = [];
+    const parentToolUseId = getString(line.parent_tool_use_id);
+    const startedAt = now();
+    const hostMessageId = getString(line.message?.id);
+    let usage: Record<string, unknown> | null = getRecord(line.message?.usage);
+    if (
+      Object.keys(usage).length === 0 ||
+      (hostMessageId && reportedUsageMessageIds.has(hostMessageId))
+    ) {
+      usage = null;
+    } else if (hostMessageId) {
+      reportedUsageMessageIds.add(hostMessageId);
+    }
+    // Usage is reported per API message, which may span several lines; attach
+    // it to the first envelope only so totals are not double-counted.
+    const takeUsage = () => {
+      const current = usage;
+      usage = null;
+      return current ? { usage: current } : {};
+    };
+    const turn = {
+      hostMessageId,
+      model: getString(line.message?.model),
+      parentToolUseId,
+      stream,
+    };
+
+    for (const block of getBlocks(line.message?.content)) {
+      if (block.type === "text" && getString(block.text)?.trim()) {
+        envelopes.push({
+          eventType: "message.assistant.completed",
+          relatedMessageRole: "assistant",
+          content: block.text as string,
+          payload: { ...turn, ...takeUsage() },
+          status: "captured",
+        });
+        continue;
+      }
+
+      if (block.type !== "tool_use") {
+        continue;
+      }
+
+      const toolUseId = getString(block.id);
+      const name = getString(block.name) ?? "unknown";
+      const input = getRecord(block.input);
+      if (toolUseId) {
+        pendingToolUses.set(toolUseId, {
+          name,
+          input,
+          startedAt,
+          parentToolUseId,
+        });
+      }
+
+      envelopes.push({
+        eventType: "tool.started",
+        eventSubType: name,
+        summary: describeToolUse(name, input, context.cwd),
+        payload: { ...turn, toolUseId, name, input, ...takeUsage() },
+        startedAt,
+        status: "running",
+      });
+
+      if (name === "Bash" && getString(input.command)) {
+        envelopes.push({
+          eventType: "command.started",
+          eventSubType: "claude",
+          summary: truncate(input.command as string, 200),
+          payload: {
+            command: input.command,
+            description: getString(input.description),
+            toolUseId,
+            parentToolUseId,
+            stream,
+          },
+          startedAt,
+          status: "running",
+        });
+      } else if (SUBAGENT_TOOLS.has(name)) {
+        envelopes.push({
+          eventType: "subagent.started",
+          eventSubType: getString(input.subagent_type) ?? "general-purpose",
+          summary: `Subagent started: ${getString(input.description) ?? name}`,
+          payload: {
+            toolUseId,
+            description: getString(input.description),
+            subagentType: getString(input.subagent_type),
+            prompt: getString(input.prompt),
+            parentToolUseId,
+            stream,
+          },
+          startedAt,
+          status: "running",
+        });
+      }
+    }
+
+    return envelopes;
+  };
+
+  const fromToolResult = (
+    block: StreamJsonBlock,
+    stream: "stdout" | "stderr",
+    context: AdapterContext,
+  ): AdapterEventEnvelope[] => {
+    const toolUseId = getString(block.tool_use_id);
+    const pending = toolUseId ? pendingToolUses.get(toolUseId) : undefined;
+    if (toolUseId) {
+      pendingToolUses.delete(toolUseId);
+    }
+
+    const name = pending?.name ?? "unknown";
+    const input = pending?.input ?? {};
+    const isError = block.is_error === true;
+    const output = truncate(
+      toolResultText(block.content),
+      MAX_TOOL_OUTPUT_LENGTH,
+    );
+    const startedAt = pending?.startedAt ?? null;
+    const endedAt = now();
+    const status = isError ? "failed" : "completed";
+    const envelopes: AdapterEventEnvelope[] = [
+      {
+        eventType: isError ? "tool.failed" : "tool.completed",
+        eventSubType: name,
+        summary: `${describeToolUse(name, input, context.cwd)} ${isError ? "failed" : "completed"}`,
+        payload: {
+          toolUseId,
+          name,
+          isError,
+          output,
+          parentToolUseId: pending?.parentToolUseId ?? null,
+          stream,
+        },
+        startedAt,
+        endedAt,
+        status,
+      },
+    ];
+
+    if (name === "Bash" && getString(input.command)) {
+      const exitCodeMatch = output.match(/^Exit code (\d+)/m);
+      envelopes.push({
+        eventType: "command.completed",
+        eventSubType: "claude",
+        summary: truncate(input.command as string, 200),
+        payload: {
+          command: input.command,
+          description: getString(input.description),
+          exitCode: exitCodeMatch ? Number(exitCodeMatch[1]) : isError ? 1 : 0,
+          output,
+          toolUseId,
+          stream,
+        },
+        startedAt,
+        endedAt,
+        status,
+      });
+    } else if (FILE_TOOLS.has(name) && !isError) {
+      const filePath =
+        getString(input.file_path) ?? getString(input.notebook_path);
+      if (filePath) {
+        const projectPath = toProjectPath(filePath, context.cwd);
+        envelopes.push({
+          eventType: "file.changed",
+          summary: `${projectPath} changed`,
+          payload: {
+            path: projectPath,
+            tool: name,
+            toolUseId,
+            stream,
+          },
+          startedAt,
+          endedAt,
+          status: name === "Write" ? "written" : "edited",
+        });
+      }
+    } else if (SUBAGENT_TOOLS.has(name)) {
+      envelopes.push({
+        eventType: "subagent.completed",
+        eventSubType: getString(input.subagent_type) ?? "general-purpose",
+        summary: `Subagent ${isError ? "failed" : "completed"}: ${getString(input.description) ?? name}`,
+        payload: {
+          toolUseId,
+          description: getString(input.description),
+          subagentType: getString(input.subagent_type),
+          output,
+          stream,
+        },
+        startedAt,
+        endedAt,
+        status,
+      });
+    }
+
+    return envelopes;
+  };
+
+  const fromUser = (
+    line: StreamJsonLine,
+    stream: "stdout" | "stderr",
+    context: AdapterContext,
+  ): AdapterEventEnvelope[] => {
+    const parentToolUseId = getString(line.parent_tool_use_id);
+    const envelopes: AdapterEventEnvelope[] = [];
+
+    for (const block of getBlocks(line.message?.content)) {
+      if (block.type === "tool_result") {
+        envelopes.push(...fromToolResult(block, stream, context));
+      } else if (
+        block.type === "text" &&
+        !parentToolUseId &&
+        getString(block.text)?.trim()
+      ) {
+        envelopes.push({
+          eventType: "message.user.submitted",
+          relatedMessageRole: "user",
+          content: block.text as string,
+          payload: { stream },
+          status: "captured",
+        });
+      }
+    }
+
+    return envelopes;
+  };
+
+  const fromResult = (
+    line: StreamJsonLine,
+    stream: "stdout" | "stderr",
+  ): AdapterEventEnvelope[] => {
+    const isError = line.is_error === true;
+    const costUsd = getNumber(line.total_cost_usd);
+    const numTurns = getNumber(line.num_turns);
+    const details = [
+      numTurns === null ? null : `${numTurns} turns`,
+      formatCost(costUsd),
+    ].filter(Boolean);
+
+    return [
+      {
+        eventType: "session.host.result",
+        eventSubType: getString(line.subtype),
+        summary: `Claude ${isError ? "failed" : "finished"}${details.length > 0 ? ` (${details.join(", ")})` : ""}`,
+        payload: {
+          hostSessionId: getString(line.session_id),
+          isError,
+          totalCostUsd: costUsd,
+          durationMs: getNumber(line.duration_ms),
+          durationApiMs: getNumber(line.duration_api_ms),
+          numTurns,
+          usage: getRecord(line.usage),
+          modelUsage: getRecord(line.modelUsage),
+          stream,
+        },
+        status: isError ? "failed" : "completed",
+      },
+    ];
+  };
+
+  return {
+    host: "claude",
+    name: ADAPTER_NAME,
+    parseLine(line, stream, context): AdapterParseResult | null {
+      const parsed = parseStreamJsonLine(line);
+      if (!parsed) {
+        return prefixAdapter.parseLine(line, stream, context);
+      }
+
+      let events: AdapterEventEnvelope[];
+      switch (parsed.type) {
+        case "system":
+          events = fromSystem(parsed, stream);
+          break;
+        case "assistant":
+          events = fromAssistant(parsed, stream, context);
+          break;
+        case "user":
+          events = fromUser(parsed, stream, context);
+          break;
+        case "result":
+          events = fromResult(parsed, stream);
+          break;
+        case "stream_event":
+          // Partial deltas duplicate the final assistant message.
+          events = [];
+          break;
+        default:
+          return null;
+      }
+
+      return { handled: true, suppressTranscript: true, events };
+    },
+    onSessionStart() {
+      pendingToolUses.clear();
+      reportedUsageMessageIds.clear();
+      return [];
+    },
+  };
+}
+
+export const claudeAdapter = createClaudeStreamAdapter();
@@ -0,0 +1,288 @@
+/* global process */
+import * as fs from "node:fs";
+import { isDeepStrictEqual } from "node:util";
+import * as z from "zod";
+import type {
+  AdapterContext,
+  AdapterEventEnvelope,
+  HostAdapter,
+} from "./types.js";
+import { SESSION_HOST_LABEL_PATTERN } from "../lib/session-hosts.js";
+
+/**
+ * Conformance harness for host adapters. Replays sample logs through an
+ * adapter the way the recorder does and reports anything the recorder would
+ * reject or silently lose.
+ */
+
+export interface AdapterSample {
+  /** Shown in issues; usually the sample file path */
+  name: string;
+  lines: string[];
+  stream: "stdout" | "stderr";
+  /** Envelopes parseLine must produce for the sample, in order */
+  expected?: AdapterEventEnvelope[];
+}
+
+export interface AdapterConformanceIssue {
+  sample: string | null;
+  /** 1-based line number, or null for adapter-level issues */
+  line: number | null;
+  message: string;
+}
+
+export interface AdapterConformanceReport {
+  adapter: string;
+  host: string;
+  passed: boolean;
+  samples: number;
+  lines: number;
+  handledLines: number;
+  events: number;
+  parseErrors: number;
+  eventTypes: Record<string, number>;
+  issues: AdapterConformanceIssue[];
+}
+
+const nullableString = z.string().nullable().optional();
+const timestampSchema = z
+  .string()
+  .refine((value) => !Number.isNaN(Date.parse(value)), "Invalid timestamp")
+  .nullable()
+  .optional();
+
+const envelopeSchema = z.object({
+  eventType: z.string().min(1),
+  eventSubType: nullableString,
+  summary: nullableString,
+  payload: z.record(z.string(), z.unknown()).nullable().optional(),
+  status: nullableString,
+  startedAt: timestampSchema,
+  endedAt: timestampSchema,
+  relatedMessageRole: z
+    .enum(["user", "assistant", "system"])
+    .nullable()
+    .optional(),
+  content: nullableString,
+});
+
+const parseResultSchema = z.object({
+  handled: z.boolean(),
+  suppressTranscript: z.boolean().optional(),
+  events: z.array(z.unknown()).optional(),
+});
+
+function describeIssues(error: z.ZodError): string {
+  return error.issues
+    .map((issue) => `${issue.path.join(".") || "<root>"}: ${issue.message}`)
+    .join("; ");
+}
+
+/**
+ * Load a sample log for the harness. `<file>.expected.json`, when present,
+ * holds the envelopes the adapter must produce.
+ *
+ * @param filePath - Sample log, one output line per line
+ * @param stream - Stream the lines are replayed on
+ */
+export function loadAdapterSample(
+  filePath: string,
+  stream: "stdout" | "stderr" = "stdout",
+): AdapterSample {
+  const lines = fs.readFileSync(filePath, "utf8").split(/\r?\n/);
+  if (lines.at(-1) === "") {
+    lines.pop();
+  }
+  const expectedPath = `${filePath}.expected.json`;
+
+  let expected: AdapterEventEnvelope[] | undefined;
+  if (fs.existsSync(expectedPath)) {
+    const parsed = JSON.parse(fs.readFileSync(expectedPath, "utf8")) as unknown;
+    if (!Array.isArray(parsed)) {
+      throw new Error(
+        `Expected events at ${expectedPath} must be a JSON array of envelopes`,
+      );
+    }
+    expected = parsed as AdapterEventEnvelope[];
+  }
+
+  return { name: filePath, lines, stream, expected };
+}
+
+/**
+ * Replay samples through an adapter and check every result it returns
+ *
+ * @param adapter - Adapter under test
+ * @param samples - Sample logs to replay
+ * @param context - Overrides for the adapter context passed to each call
+ * @returns Report; `passed` is false when any issue was found
+ */
+export function checkAdapterConformance(
+  adapter: HostAdapter,
+  samples: AdapterSample[],
+  context?: Partial<AdapterContext>,
+): AdapterConformanceReport {
+  const report: AdapterConformanceReport = {
+    adapter: adapter.name,
+    host: adapter.host,
+    passed: true,
+    samples: samples.length,
+    lines: 0,
+    handledLines: 0,
+    events: 0,
+    parseErrors: 0,
+    eventTypes: {},
+    issues: [],
+  };
+  const adapterContext: AdapterContext = {
+    host: adapter.host,
+    cwd: process.cwd(),
+    args: [],
+    ...context,
+  };
+
+  if (!adapter.name) {
+    report.issues.push({
+      sample: null,
+      line: null,
+      message: "Adapter name must be a non-empty string",
+    });
+  }
+  if (!SESSION_HOST_LABEL_PATTERN.test(adapter.host)) {
+    report.issues.push({
+      sample: null,
+      line: null,
+      message: `Adapter host "${adapter.host}" is not a valid session host label`,
+    });
+  }
+
+  const checkEnvelopes = (
+    envelopes: unknown[],
+    sample: string,
+    line: number | null,
+  ): AdapterEventEnvelope[] => {
+    const valid: AdapterEventEnvelope[] = [];
+    envelopes.forEach((envelope, index) => {
+      const parsed = envelopeSchema.safeParse(envelope);
+      if (!parsed.success) {
+        report.issues.push({
+          sample,
+          line,
+          message: `Event ${index + 1} is not a valid envelope: ${describeIssues(parsed.error)}`,
+        });
+        return;
+      }
+      try {
+        JSON.stringify(parsed.data.payload ?? null);
+      } catch (error) {
+        report.issues.push({
+          sample,
+          line,
+          message: `Event ${index + 1} payload cannot be serialized: ${error instanceof Error ? error.message : String(error)}`,
+        });
+        return;
+      }
+
+      const event = envelope as AdapterEventEnvelope;
+      report.events += 1;
+      report.eventTypes[event.eventType] =
+        (report.eventTypes[event.eventType] ?? 0) + 1;
+      if (event.status === "parse-error") {
+        report.parseErrors += 1;
+      }
+      valid.push(event);
+    });
+    return valid;
+  };
+
+  const runHook = (
+    hook: "onSessionStart" | "onSessionEnd",
+    sample: string,
+  ): void => {
+    try {
+      const envelopes =
+        hook === "onSessionStart"
+          ? adapter.onSessionStart?.(adapterContext)
+          : adapter.onSessionEnd?.(adapterContext, {
+              exitCode: 0,
+              status: "completed",
+            });
+      if (envelopes === undefined) return;
+      if (!Array.isArray(envelopes)) {
+        report.issues.push({
+          sample,
+          line: null,
+          message: `${hook} must return an array of envelopes`,
+        });
+        return;
+      }
+      checkEnvelopes(envelopes, sample, null);
+    } catch (error) {
+      report.issues.push({
+        sample,
+        line: null,
+        message: `${hook} threw: ${error instanceof Error ? error.message : String(error)}`,
+      });
+    }
+  };
+
+  for (const sample of samples) {
+    const produced: AdapterEventEnvelope[] = [];
+    runHook("onSessionStart", sample.name);
+
+    sample.lines.forEach((line, index) => {
+      const lineNumber = index + 1;
+      report.lines += 1;
+
+      let result: unknown;
+      try {
+        result = adapter.parseLine(line, sample.stream, adapterContext);
+      } catch (error) {
+        report.issues.push({
+          sample: sample.name,
+          line: lineNumber,
+          message: `parseLine threw: ${error instanceof Error ? error.message : String(error)}`,
+        });
+        return;
+      }
+      if (result === null || result === undefined) return;
+
+      const parsed = parseResultSchema.safeParse(result);
+      if (!parsed.success) {
+        report.issues.push({
+          sample: sample.name,
+          line: lineNumber,
+          message: `parseLine returned an invalid result: ${describeIssues(parsed.error)}`,
+        });
+        return;
+      }
+      if (parsed.data.handled) {
+        report.handledLines += 1;
+      }
+      produced.push(
+        ...checkEnvelopes(parsed.data.events ?? [], sample.name, lineNumber),
+      );
+    });
+
+    runHook("onSessionEnd", sample.name);
+
+    if (sample.expected) {
+      const actual = JSON.parse(JSON.stringify(produced)) as unknown[];
+      const expected = JSON.parse(JSON.stringify(sample.expected)) as unknown[];
+      const count = Math.max(actual.length, expected.length);
+      for (let index = 0; index < count; index += 1) {
+        if (!isDeepStrictEqual(actual[index], expected[index])) {
+          report.issues.push({
+            sample: sample.name,
+            line: null,
+            message: `Event ${index + 1} differs from the expected events: expected ${JSON.stringify(expected[index] ?? null)}, got ${JSON.stringify(actual[index] ?? null)}`,
+          });
+          break;
+        }
+      }
+    }
+  }
+
+  report.passed = report.issues.length === 0;
+  return report;
+}
@@ -0,0 +1,15 @@
+import { createStructuredPrefixAdapter } from "./structured-prefix.js";
+import type { HostAdapter } from "./types.js";
+import type { SessionHost } from "../lib/storage/index.js";
+
+/**
+ * Pass-through adapter for generic commands: output stays in the transcript
+ * unchanged, and lines prefixed with `FOOTPRINT_EVENT ` become timeline events.
+ */
+export function createGenericAdapter(host: SessionHost): HostAdapter {
+  return createStructuredPrefixAdapter({
+    host,
+    name: "generic-adapter",
+    prefix: "FOOTPRINT_EVENT ",
+  });
+}
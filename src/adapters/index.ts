@@ -1,10 +1,12 @@
 import { claudeAdapter } from "./claude.js";
 import { codexAdapter } from "./codex.js";
+import { createGenericAdapter } from "./generic.js";
 import { geminiAdapter } from "./gemini.js";
 import type { HostAdapter } from "./types.js";
-import type { SessionHost } from "../lib/storage/index.js";
+import type { BuiltInSessionHost, SessionHost } from "../lib/storage/index.js";
 
-const adapters = new Map<SessionHost, HostAdapter>([
+/** Host adapters that ship with Footprint; plugins come from adapters.json */
+const adapters = new Map<BuiltInSessionHost, HostAdapter>([
   ["claude", claudeAdapter],
   ["gemini", geminiAdapter],
   ["codex", codexAdapter],
@@ -17,6 +19,30 @@ export type {
   HostAdapter,
 } from "./types.js";
 
-export function getHostAdapter(host: SessionHost): HostAdapter | null {
-  return adapters.get(host) ?? null;
+export { createGenericAdapter };
+export { createRuleAdapter, type AdapterRule } from "./rules.js";
+export {
+  ADAPTER_CONFIG_FILE,
+  findAdapterPlugin,
+  loadAdapterConfig,
+  loadAdapterPlugin,
+  parseAdapterConfig,
+  resolveAdapterConfigPath,
+  type AdapterConfig,
+  type AdapterPlugin,
+} from "./plugins.js";
+export {
+  checkAdapterConformance,
+  loadAdapterSample,
+  type AdapterConformanceIssue,
+  type AdapterConformanceReport,
+  type AdapterSample,
+} from "./conformance.js";
+
+/**
+ * Returns the adapter for a built-in host, or the pass-through adapter for a
+ * generic host label.
+ */
+export function getHostAdapter(host: SessionHost): HostAdapter {
+  return adapters.get(host as BuiltInSessionHost) ?? createGenericAdapter(host);
 }
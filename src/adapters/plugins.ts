@@ -0,0 +1,225 @@
+/* global process */
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { pathToFileURL } from "node:url";
+import * as z from "zod";
+import { adapterRuleSchema, createRuleAdapter } from "./rules.js";
+import type { HostAdapter } from "./types.js";
+import {
+  isBuiltInSessionHost,
+  SESSION_HOST_LABEL_PATTERN,
+} from "../lib/session-hosts.js";
+import type { SessionHost } from "../lib/storage/index.js";
+
+/**
+ * Third-party host adapters declared in `adapters.json`.
+ *
+ * A plugin is either an ESM module exporting a `HostAdapter` (or a factory
+ * taking the host label) or a list of declarative rules. Plugins are recorded
+ * with `footprint run <name> -- <args...>` under their name as the host.
+ */
+
+export const ADAPTER_CONFIG_FILE = "adapters.json";
+
+const adapterPluginSchema = z
+  .object({
+    name: z
+      .string()
+      .regex(
+        SESSION_HOST_LABEL_PATTERN,
+        "Adapter names use lowercase letters, digits, '.', '_', or '-'",
+      )
+      .refine((name) => !isBuiltInSessionHost(name), {
+        message: "Adapter names cannot shadow built-in hosts",
+      }),
+    /** Executable to launch; defaults to the adapter name */
+    command: z.string().min(1).optional(),
+    /** Arguments placed before the ones given after `--` */
+    args: z.array(z.string()).default([]),
+    /** ESM module path, relative to the config file */
+    module: z.string().min(1).optional(),
+    rules: z.array(adapterRuleSchema).optional(),
+  })
+  .refine((plugin) => (plugin.module === undefined) !== !plugin.rules, {
+    message: "Each adapter needs exactly one of module or rules",
+  });
+
+export const adapterConfigSchema = z
+  .object({
+    adapters: z.array(adapterPluginSchema).default([]),
+  })
+  .superRefine((config, context) => {
+    const seen = new Set<string>();
+    config.adapters.forEach((plugin, index) => {
+      if (seen.has(plugin.name)) {
+        context.addIssue({
+          code: "custom",
+          path: ["adapters", index, "name"],
+          message: `Duplicate adapter name "${plugin.name}"`,
+        });
+      }
+      seen.add(plugin.name);
+    });
+  });
+
+export type AdapterConfig = z.output<typeof adapterConfigSchema>;
+export type AdapterConfigInput = z.input<typeof adapterConfigSchema>;
+export type AdapterPluginConfig = AdapterConfig["adapters"][number];
+
+export interface AdapterPlugin {
+  name: string;
+  kind: "module" | "rules";
+  command: string;
+  args: string[];
+  adapter: HostAdapter;
+}
+
+/**
+ * Parse an adapter config, applying defaults for anything left out
+ *
+ * @param input - Raw config object (for example the parsed adapters.json)
+ * @returns Normalized adapter config
+ * @throws Error if the config is malformed
+ */
+export function parseAdapterConfig(input: unknown): AdapterConfig {
+  const result = adapterConfigSchema.safeParse(input ?? {});
+  if (!result.success) {
+    throw new Error(
+      `Invalid adapter config: ${result.error.issues
+        .map((issue) => `${issue.path.join(".") || "<root>"}: ${issue.message}`)
+        .join("; ")}`,
+    );
+  }
+
+  return result.data;
+}
+
+/**
+ * Resolve where the adapter config lives for a database.
+ * FOOTPRINT_ADAPTERS_CONFIG wins; otherwise adapters.json sits next to the
+ * database file.
+ */
+export function resolveAdapterConfigPath(
+  dbPath: string,
+  env: NodeJS.ProcessEnv = process.env,
+): string {
+  return (
+    env.FOOTPRINT_ADAPTERS_CONFIG ||
+    path.join(path.dirname(path.resolve(dbPath)), ADAPTER_CONFIG_FILE)
+  );
+}
+
+/**
+ * Load an adapter config file. A missing file declares no plugins.
+ *
+ * @param filePath - Path to a JSON adapter config
+ * @returns Normalized adapter config
+ * @throws Error if the file is not valid JSON or fails validation
+ */
+export function loadAdapterConfig(filePath: string): AdapterConfig {
+  let raw: string;
+  try {
+    raw = fs.readFileSync(filePath, "utf8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return parseAdapterConfig({});
+    }
+    throw error;
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch (error) {
+    throw new Error(
+      `Invalid adapter config at ${filePath}: ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+
+  try {
+    return parseAdapterConfig(parsed);
+  } catch (error) {
+    throw new Error(
+      `${error instanceof Error ? error.message : String(error)} (${filePath})`,
+    );
+  }
+}
+
+function isHostAdapter(value: unknown): value is HostAdapter {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    typeof (value as HostAdapter).name === "string" &&
+    (value as HostAdapter).name.length > 0 &&
+    typeof (value as HostAdapter).parseLine === "function"
+  );
+}
+
+async function importModuleAdapter(
+  plugin: AdapterPluginConfig,
+  modulePath: string,
+): Promise<HostAdapter> {
+  const exports = (await import(pathToFileURL(modulePath).href)) as Record<
+    string,
+    unknown
+  >;
+  const exported = exports.default ?? exports.adapter;
+  const adapter =
+    typeof exported === "function"
+      ? (exported as (host: SessionHost) => unknown)(plugin.name)
+      : exported;
+  if (!isHostAdapter(adapter)) {
+    throw new Error(
+      `Adapter plugin "${plugin.name}" (${modulePath}) must export a HostAdapter or a factory returning one as its default or "adapter" export`,
+    );
+  }
+
+  return adapter;
+}
+
+/**
+ * Instantiate one configured plugin. Module plugins are imported on demand so
+ * unrelated plugins never load.
+ *
+ * @param plugin - Validated plugin entry
+ * @param configPath - Config file the entry came from; module paths resolve
+ * relative to it
+ */
+export async function loadAdapterPlugin(
+  plugin: AdapterPluginConfig,
+  configPath: string,
+): Promise<AdapterPlugin> {
+  const adapter = plugin.module
+    ? await importModuleAdapter(
+        plugin,
+        path.resolve(path.dirname(configPath), plugin.module),
+      )
+    : createRuleAdapter({
+        host: plugin.name,
+        name: `${plugin.name}-adapter`,
+        rules: plugin.rules ?? [],
+      });
+
+  return {
+    name: plugin.name,
+    kind: plugin.module ? "module" : "rules",
+    command: plugin.command ?? plugin.name,
+    args: plugin.args,
+    adapter,
+  };
+}
+
+/**
+ * Find and instantiate a plugin by name
+ *
+ * @returns The plugin, or null when the config does not declare it
+ */
+export async function findAdapterPlugin(
+  configPath: string,
+  name: string,
+): Promise<AdapterPlugin | null> {
+  const plugin = loadAdapterConfig(configPath).adapters.find(
+    (entry) => entry.name === name,
+  );
+  return plugin ? loadAdapterPlugin(plugin, configPath) : null;
+}
@@ -0,0 +1,221 @@
+import * as z from "zod";
+import type {
+  AdapterEventEnvelope,
+  AdapterParseResult,
+  HostAdapter,
+} from "./types.js";
+import type { SessionHost } from "../lib/storage/index.js";
+
+/**
+ * Declarative adapters: ordered rules that map output lines to adapter event
+ * envelopes without writing code.
+ *
+ * Each rule matches a line with a regular expression. Envelope fields are
+ * templates where `{name}` reads a named capture group, `{json.path}` reads a
+ * field of the parsed JSON line, and `{line}` / `{stream}` read the raw line
+ * and its stream. The first matching rule wins.
+ */
+
+const templateSchema = z.string();
+
+export const adapterRuleSchema = z
+  .object({
+    /** Regular expression tested against each output line */
+    match: z.string().min(1),
+    stream: z.enum(["stdout", "stderr"]).optional(),
+    /** Parse the `json` capture group (or the whole line) as JSON */
+    json: z.boolean().default(false),
+    /** Field values that must all equal the given scalars for the rule to apply */
+    when: z
+      .record(
+        z.string(),
+        z.union([z.string(), z.number(), z.boolean(), z.null()]),
+      )
+      .optional(),
+    suppressTranscript: z.boolean().default(true),
+    event: z.object({
+      eventType: templateSchema.min(1),
+      eventSubType: templateSchema.optional(),
+      summary: templateSchema.optional(),
+      status: templateSchema.optional(),
+      content: templateSchema.optional(),
+      relatedMessageRole: z.enum(["user", "assistant", "system"]).optional(),
+      payload: z.record(z.string(), templateSchema).optional(),
+    }),
+  })
+  .superRefine((rule, context) => {
+    try {
+      new RegExp(rule.match);
+    } catch (error) {
+      context.addIssue({
+        code: "custom",
+        path: ["match"],
+        message: error instanceof Error ? error.message : String(error),
+      });
+    }
+  });
+
+export type AdapterRule = z.output<typeof adapterRuleSchema>;
+export type AdapterRuleInput = z.input<typeof adapterRuleSchema>;
+
+interface CompiledRule {
+  rule: AdapterRule;
+  pattern: RegExp;
+}
+
+interface RuleScope {
+  line: string;
+  stream: "stdout" | "stderr";
+  groups: Record<string, string | undefined>;
+  json: unknown;
+}
+
+const PLACEHOLDER_PATTERN = /\{([A-Za-z0-9_$.-]+)\}/g;
+const SINGLE_PLACEHOLDER_PATTERN = /^\{([A-Za-z0-9_$.-]+)\}$/;
+
+function resolveReference(scope: RuleScope, reference: string): unknown {
+  if (reference === "line") return scope.line;
+  if (reference === "stream") return scope.stream;
+  if (reference === "json") return scope.json;
+  if (reference.startsWith("json.")) {
+    let value: unknown = scope.json;
+    for (const key of reference.slice("json.".length).split(".")) {
+      if (value === null || typeof value !== "object") {
+        return undefined;
+      }
+      value = (value as Record<string, unknown>)[key];
+    }
+    return value;
+  }
+
+  return scope.groups[reference];
+}
+
+function stringifyValue(value: unknown): string {
+  if (value === undefined || value === null) return "";
+  return typeof value === "string" ? value : JSON.stringify(value);
+}
+
+function renderTemplate(template: string, scope: RuleScope): string {
+  return template.replace(PLACEHOLDER_PATTERN, (_match, reference: string) =>
+    stringifyValue(resolveReference(scope, reference)),
+  );
+}
+
+/** Optional envelope fields that render empty are left unset */
+function renderOptional(
+  template: string | undefined,
+  scope: RuleScope,
+): string | null {
+  if (template === undefined) return null;
+  const rendered = renderTemplate(template, scope);
+  return rendered.length > 0 ? rendered : null;
+}
+
+/** A payload value that is a single placeholder keeps the referenced value's type */
+function renderPayloadValue(template: string, scope: RuleScope): unknown {
+  const single = SINGLE_PLACEHOLDER_PATTERN.exec(template);
+  if (single) {
+    return resolveReference(scope, single[1]) ?? null;
+  }
+
+  return renderTemplate(template, scope);
+}
+
+function buildEnvelope(
+  rule: AdapterRule,
+  scope: RuleScope,
+): AdapterEventEnvelope | null {
+  const eventType = renderTemplate(rule.event.eventType, scope);
+  if (!eventType) {
+    return null;
+  }
+
+  const payload: Record<string, unknown> = {};
+  for (const [key, template] of Object.entries(rule.event.payload ?? {})) {
+    payload[key] = renderPayloadValue(template, scope);
+  }
+
+  return {
+    eventType,
+    eventSubType: renderOptional(rule.event.eventSubType, scope),
+    summary: renderOptional(rule.event.summary, scope),
+    status: renderOptional(rule.event.status, scope),
+    content: renderOptional(rule.event.content, scope),
+    relatedMessageRole: rule.event.relatedMessageRole ?? null,
+    payload: { ...payload, stream: scope.stream },
+  };
+}
+
+/**
+ * Build a host adapter from declarative rules
+ *
+ * @param config - Host label, adapter name, and validated rules
+ * @returns Adapter that records the first matching rule's envelope per line
+ */
+export function createRuleAdapter(config: {
+  host: SessionHost;
+  name: string;
+  rules: AdapterRule[];
+}): HostAdapter {
+  const compiled: CompiledRule[] = config.rules.map((rule) => ({
+    rule,
+    pattern: new RegExp(rule.match),
+  }));
+
+  return {
+    host: config.host,
+    name: config.name,
+    parseLine(line, stream, _context): AdapterParseResult | null {
+      for (const { rule, pattern } of compiled) {
+        if (rule.stream && rule.stream !== stream) continue;
+
+        const match = pattern.exec(line);
+        if (!match) continue;
+
+        const groups = match.groups ?? {};
+        let json: unknown = null;
+        if (rule.json) {
+          try {
+            json = JSON.parse(groups.json ?? line);
+          } catch {
+            return {
+              handled: true,
+              suppressTranscript: false,
+              events: [
+                {
+                  eventType: "error.observed",
+                  summary: `${config.name} failed to parse host event`,
+                  payload: { line, stream },
+                  status: "parse-error",
+                },
+              ],
+            };
+          }
+        }
+
+        const scope: RuleScope = { line, stream, groups, json };
+        if (
+          rule.when &&
+          !Object.entries(rule.when).every(
+            ([reference, expected]) =>
+              (resolveReference(scope, reference) ?? null) === expected,
+          )
+        ) {
+          continue;
+        }
+
+        const envelope = buildEnvelope(rule, scope);
+        if (!envelope) continue;
+
+        return {
+          handled: true,
+          suppressTranscript: rule.suppressTranscript,
+          events: [envelope],
+        };
+      }
+
+      return null;
+    },
+  };
+}
@@ -1,4 +1,8 @@
-import type { SessionHost, SessionStatus } from "../lib/storage/index.js";
+import type {
+  SessionHost,
+  SessionMessageRole,
+  SessionStatus,
+} from "../lib/storage/index.js";
 
 export interface AdapterContext {
   host: SessionHost;
@@ -14,7 +18,9 @@ export interface AdapterEventEnvelope {
   status?: string | null;
   startedAt?: string | null;
   endedAt?: string | null;
-  relatedMessageRole?: "user" | "assistant" | "system" | null;
+  relatedMessageRole?: SessionMessageRole | null;
+  /** Transcript text; recorded as a message of relatedMessageRole */
+  content?: string | null;
 }
 
 export interface AdapterParseResult {
@@ -0,0 +1,101 @@
+/* global process */
+
+import {
+  checkAdapterConformance,
+  findAdapterPlugin,
+  getHostAdapter,
+  loadAdapterConfig,
+  loadAdapterSample,
+  resolveAdapterConfigPath,
+  type HostAdapter,
+} from "../adapters/index.js";
+import {
+  BUILT_IN_SESSION_HOSTS,
+  isBuiltInSessionHost,
+} from "../lib/session-hosts.js";
+import { printJson } from "./session-display.js";
+import { resolveDbPath } from "./session-execution.js";
+
+export function listAdaptersCli(options?: { json?: boolean }): void {
+  const configPath = resolveAdapterConfigPath(resolveDbPath());
+  const config = loadAdapterConfig(configPath);
+  const adapters = [
+    ...BUILT_IN_SESSION_HOSTS.map((host) => ({
+      name: host,
+      kind: "built-in" as const,
+      command: null,
+    })),
+    ...config.adapters.map((plugin) => ({
+      name: plugin.name,
+      kind: plugin.module ? ("module" as const) : ("rules" as const),
+      command: [plugin.command ?? plugin.name, ...plugin.args].join(" "),
+    })),
+  ];
+
+  if (options?.json) {
+    printJson({ configPath, adapters });
+    return;
+  }
+
+  console.log(`Adapter config: ${configPath}`);
+  for (const adapter of adapters) {
+    console.log(
+      `- ${adapter.name} | ${adapter.kind}${adapter.command ? ` | ${adapter.command}` : ""}`,
+    );
+  }
+}
+
+/**
+ * Replays sample logs through a built-in adapter or plugin and sets a failing
+ * exit code when the adapter does not conform.
+ */
+export async function checkAdapterCli(
+  name: string,
+  samplePaths: string[],
+  options?: { json?: boolean; stream?: "stdout" | "stderr" },
+): Promise<void> {
+  let adapter: HostAdapter;
+  if (isBuiltInSessionHost(name)) {
+    adapter = getHostAdapter(name);
+  } else {
+    const plugin = await findAdapterPlugin(
+      resolveAdapterConfigPath(resolveDbPath()),
+      name,
+    );
+    if (!plugin) {
+      throw new Error(`Adapter not found: ${name}`);
+    }
+    adapter = plugin.adapter;
+  }
+
+  const report = checkAdapterConformance(
+    adapter,
+    samplePaths.map((samplePath) =>
+      loadAdapterSample(samplePath, options?.stream),
+    ),
+  );
+  if (!report.passed) {
+    process.exitCode = 1;
+  }
+
+  if (options?.json) {
+    printJson(report);
+    return;
+  }
+
+  console.log(
+    `${report.passed ? "PASS" : "FAIL"} ${report.adapter} (${report.host})`,
+  );
+  console.log(`Samples: ${report.samples}`);
+  console.log(`Lines: ${report.lines} (${report.handledLines} handled)`);
+  console.log(`Events: ${report.events} (${report.parseErrors} parse errors)`);
+  for (const [eventType, count] of Object.entries(report.eventTypes)) {
+    console.log(`- ${eventType}: ${count}`);
+  }
+  for (const issue of report.issues) {
+    const location = issue.sample
+      ? `${issue.sample}${issue.line === null ? "" : `:${issue.line}`}`
+      : "adapter";
+    console.log(`! ${location} ${issue.message}`);
+  }
+}
@@ -13,14 +13,15 @@ import {
   splitContext,
 } from "../lib/context-memory.js";
 import { truncateSummary } from "../lib/session-history.js";
-import {
+import type {
+  ContextLinkSource,
   EvidenceDatabase,
-  type ContextLinkSource,
-  type SessionHost,
+  SessionHost,
 } from "../lib/storage/index.js";
 import {
   appendTimelineEvent,
   ensureParentDir,
+  openEvidenceDatabase,
   resolveDbPath,
 } from "./session-execution.js";
 import {
@@ -102,7 +103,7 @@ async function promptOptionalText(
 export function listContextsCli(options?: { json?: boolean }): void {
   const dbPath = resolveDbPath();
   ensureParentDir(dbPath);
-  const db = new EvidenceDatabase(dbPath);
+  const db = openEvidenceDatabase(dbPath);
 
   try {
     const result = listContexts(db);
@@ -125,7 +126,7 @@ export function listContextsCli(options?: { json?: boolean }): void {
 export function showContextCli(id: string, options?: { json?: boolean }): void {
   const dbPath = resolveDbPath();
   ensureParentDir(dbPath);
-  const db = new EvidenceDatabase(dbPath);
+  const db = openEvidenceDatabase(dbPath);
 
   try {
     const report = getContextReport(db, id);
@@ -834,7 +835,7 @@ export function resolveContextCli(options: {
 }): void {
   const dbPath = resolveDbPath();
   ensureParentDir(dbPath);
-  const db = new EvidenceDatabase(dbPath);
+  const db = openEvidenceDatabase(dbPath);
 
   try {
     const result = resolveContext(db, options);
@@ -880,7 +881,7 @@ export async function prepareContextCli(options: {
 }): Promise<void> {
   const dbPath = resolveDbPath();
   ensureParentDir(dbPath);
-  const db = new EvidenceDatabase(dbPath);
+  const db = openEvidenceDatabase(dbPath);
 
   try {
     const prepared = await prepareContextFlow(db, {
@@ -916,7 +917,7 @@ export function confirmContextLinkCli(options: {
 }): void {
   const dbPath = resolveDbPath();
   ensureParentDir(dbPath);
-  const db = new EvidenceDatabase(dbPath);
+  const db = openEvidenceDatabase(dbPath);
 
   try {
     const result = confirmContextLink(db, options);
@@ -942,7 +943,7 @@ export function rejectContextLinkCli(options: {
 }): void {
   const dbPath = resolveDbPath();
   ensureParentDir(dbPath);
-  const db = new EvidenceDatabase(dbPath);
+  const db = openEvidenceDatabase(dbPath);
 
   try {
     const result = rejectContextLink(db, options.sessionId, options.contextId);
@@ -968,7 +969,7 @@ export function moveSessionContextCli(options: {
 }): void {
   const dbPath = resolveDbPath();
   ensureParentDir(dbPath);
-  const db = new EvidenceDatabase(dbPath);
+  const db = openEvidenceDatabase(dbPath);
 
   try {
     const result = moveSessionContext(db, options);
@@ -994,7 +995,7 @@ export function mergeContextsCli(options: {
 }): void {
   const dbPath = resolveDbPath();
   ensureParentDir(dbPath);
-  const db = new EvidenceDatabase(dbPath);
+  const db = openEvidenceDatabase(dbPath);
 
   try {
     const result = mergeContexts(
@@ -1026,7 +1027,7 @@ export function splitContextCli(options: {
 }): void {
   const dbPath = resolveDbPath();
   ensureParentDir(dbPath);
-  const db = new EvidenceDatabase(dbPath);
+  const db = openEvidenceDatabase(dbPath);
 
   try {
     const result = splitContext(db, options);
@@ -1053,7 +1054,7 @@ export function setActiveContextCli(options: {
 }): void {
   const dbPath = resolveDbPath();
   ensureParentDir(dbPath);
-  const db = new EvidenceDatabase(dbPath);
+  const db = openEvidenceDatabase(dbPath);
 
   try {
     const result = setActiveContext(db, options.contextId, options.cwd);
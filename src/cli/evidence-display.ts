@@ -0,0 +1,293 @@
+/* global process */
+
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { getSigningKeyId, signingPublicKeyToPem } from "../lib/crypto/index.js";
+import {
+  EvidenceDatabase,
+  importBundle,
+  rekeyEvidenceStore,
+  resolveStorageKeySync,
+  retrieveSigningPublicKey,
+  verifyEvidenceBundle,
+} from "../lib/storage/index.js";
+import {
+  flushTimestampQueue,
+  loadTimestampConfig,
+  resolveTimestampConfigPath,
+} from "../lib/trusted-timestamp.js";
+import type { BundleConflictMode } from "../lib/storage/index.js";
+import { printJson } from "./session-display.js";
+import { validatePassword } from "./utils/validation.js";
+import {
+  ensureParentDir,
+  openEvidenceDatabase,
+  resolveDbPath,
+} from "./session-execution.js";
+
+/**
+ * Walks the evidence ledger and sets a failing exit code when the chain shows
+ * gaps, reordering, edits, or rows inserted outside Footprint.
+ */
+export function verifyLedgerCli(options?: { json?: boolean }): void {
+  const dbPath = resolveDbPath();
+  ensureParentDir(dbPath);
+  const db = openEvidenceDatabase(dbPath);
+
+  try {
+    const report = db.verifyLedger();
+    if (!report.verified) {
+      process.exitCode = 1;
+    }
+    if (options?.json) {
+      printJson(report);
+      return;
+    }
+
+    console.log(
+      report.verified
+        ? "Evidence ledger verified"
+        : "Evidence ledger verification failed",
+    );
+    console.log(`Entries: ${report.entries}`);
+    console.log(`Deleted through Footprint: ${report.deleted}`);
+    console.log(
+      `Head: ${report.head ? `${report.head.seq} ${report.head.hash}` : "none"}`,
+    );
+    for (const issue of report.issues) {
+      console.log(`- ${issue.kind} | ${issue.message}`);
+    }
+  } finally {
+    db.close();
+  }
+}
+
+/**
+ * Prints the signing public key as PEM so third parties can verify signed
+ * footprints and export bundles without the passphrase.
+ */
+export function exportSigningKeyCli(options?: { json?: boolean }): void {
+  const dbPath = resolveDbPath();
+  ensureParentDir(dbPath);
+  const db = openEvidenceDatabase(dbPath);
+
+  try {
+    const publicKey = retrieveSigningPublicKey(db.getDb());
+    if (!publicKey) {
+      throw new Error(
+        "No signing identity found. Run footprint setup or capture a footprint first.",
+      );
+    }
+    const keyId = getSigningKeyId(publicKey);
+    const pem = signingPublicKeyToPem(publicKey);
+    if (options?.json) {
+      printJson({ keyId, algorithm: "Ed25519", publicKey: pem });
+      return;
+    }
+
+    process.stdout.write(pem);
+  } finally {
+    db.close();
+  }
+}
+
+/**
+ * Retries RFC 3161 timestamping for evidence queued while the timestamp
+ * authority was unreachable. Sets a failing exit code if any entry failed.
+ */
+export async function flushTimestampQueueCli(options?: {
+  json?: boolean;
+  limit?: number;
+}): Promise<void> {
+  const dbPath = resolveDbPath();
+  ensureParentDir(dbPath);
+  const config = loadTimestampConfig(resolveTimestampConfigPath(dbPath));
+  const db = openEvidenceDatabase(dbPath);
+
+  try {
+    const report = await flushTimestampQueue(db, config, {
+      limit: options?.limit,
+    });
+    if (report.failed > 0) {
+      process.exitCode = 1;
+    }
+    if (options?.json) {
+      printJson(report);
+      return;
+    }
+
+    console.log(
+      `Stamped: ${report.stamped} | Failed: ${report.failed} | Still queued: ${report.remaining}`,
+    );
+    for (const entry of report.entries) {
+      console.log(
+        entry.status === "stamped"
+          ? `- ${entry.evidenceId} | stamped ${entry.genTime}`
+          : `- ${entry.evidenceId} | failed ${entry.error}`,
+      );
+    }
+  } finally {
+    db.close();
+  }
+}
+
+/**
+ * Rotates the evidence passphrase: FOOTPRINT_PASSPHRASE is the current one
+ * and FOOTPRINT_NEW_PASSPHRASE the replacement. Re-running after a crash
+ * resumes the interrupted rotation.
+ */
+export function rekeyCli(options?: { json?: boolean }): void {
+  const oldPassphrase =
+    process.env.FOOTPRINT_PASSPHRASE || process.env.FOOTPRINT_PASSWORD || "";
+  const newPassphrase = process.env.FOOTPRINT_NEW_PASSPHRASE || "";
+  if (!oldPassphrase || !newPassphrase) {
+    throw new Error(
+      "FOOTPRINT_PASSPHRASE (current) and FOOTPRINT_NEW_PASSPHRASE are required to rekey",
+    );
+  }
+  const validation = validatePassword(newPassphrase);
+  if (!validation.valid) {
+    throw new Error(`New passphrase rejected: ${validation.message}`);
+  }
+
+  const dbPath = resolveDbPath();
+  ensureParentDir(dbPath);
+  // Opened without unlocking session history: the rekey moves sealed rows
+  // itself and must not cache them under the old key
+  const db = new EvidenceDatabase(dbPath);
+
+  try {
+    const result = rekeyEvidenceStore(
+      db.getDb(),
+      oldPassphrase,
+      newPassphrase,
+      {
+        onProgress: options?.json
+          ? undefined
+          : ({ processed, total }) =>
+              console.log(`Re-encrypted evidence ${processed}/${total}`),
+      },
+    );
+    if (options?.json) {
+      printJson(result);
+      return;
+    }
+
+    console.log(
+      result.resumed
+        ? "Resumed and finished the interrupted passphrase rotation"
+        : "Passphrase rotated",
+    );
+    console.log(
+      `Evidence re-encrypted: ${result.evidences} | Already rotated: ${result.skipped} | Session history rows: ${result.sessionHistoryRows}`,
+    );
+    console.log(
+      "Update FOOTPRINT_PASSPHRASE in your MCP client configs and restart running Footprint servers.",
+    );
+  } finally {
+    db.close();
+  }
+}
+
+/**
+ * Verifies an exported evidence ZIP offline. FOOTPRINT_PASSPHRASE, when set,
+ * decrypts and re-hashes every record. Sets a failing exit code when any
+ * check fails.
+ */
+export async function verifyBundleCli(
+  zipPath: string,
+  options?: { json?: boolean; checksum?: string; gitRepo?: string },
+): Promise<void> {
+  const zipData = new Uint8Array(fs.readFileSync(path.resolve(zipPath)));
+  const timestampConfig = loadTimestampConfig(
+    resolveTimestampConfigPath(resolveDbPath()),
+  );
+  const report = await verifyEvidenceBundle(zipData, {
+    passphrase:
+      process.env.FOOTPRINT_PASSPHRASE ||
+      process.env.FOOTPRINT_PASSWORD ||
+      undefined,
+    expectedSha256: options?.checksum,
+    gitRepo: options?.gitRepo,
+    trustedCertificates: timestampConfig.trustedCertificates,
+  });
+  if (!report.verified) {
+    process.exitCode = 1;
+  }
+  if (options?.json) {
+    printJson(report);
+    return;
+  }
+
+  console.log(
+    report.verified
+      ? "Evidence bundle verified"
+      : "Evidence bundle verification failed",
+  );
+  console.log(`SHA-256: ${report.bundle.sha256}`);
+  console.log(
+    `Evidences: ${report.manifest.actualEvidenceCount} | Files checked: ${report.files.checked} | Manifest signature: ${report.manifest.signature} | Decryption: ${report.decryption}`,
+  );
+  for (const error of report.errors) {
+    console.log(`- ${error}`);
+  }
+  for (const evidence of report.evidences) {
+    console.log(
+      evidence.verified
+        ? `- ${evidence.id} | verified`
+        : `- ${evidence.id} | failed ${evidence.errors.join("; ")}`,
+    );
+  }
+}
+
+/**
+ * Imports an exported evidence or session ZIP into the local database.
+ * Evidence is decrypted with FOOTPRINT_BUNDLE_PASSPHRASE (or the local
+ * FOOTPRINT_PASSPHRASE when the bundle came from the same passphrase) and
+ * re-encrypted with the local key.
+ */
+export async function importBundleCli(
+  zipPath: string,
+  options?: { json?: boolean; conflict?: BundleConflictMode },
+): Promise<void> {
+  const zipData = new Uint8Array(fs.readFileSync(path.resolve(zipPath)));
+  const passphrase =
+    process.env.FOOTPRINT_PASSPHRASE || process.env.FOOTPRINT_PASSWORD || "";
+  const dbPath = resolveDbPath();
+  ensureParentDir(dbPath);
+  const db = openEvidenceDatabase(dbPath);
+
+  try {
+    const result = await importBundle(db, zipData, {
+      conflict: options?.conflict,
+      key: passphrase
+        ? resolveStorageKeySync(db.getDb(), passphrase)
+        : undefined,
+      bundlePassphrase:
+        process.env.FOOTPRINT_BUNDLE_PASSPHRASE || passphrase || undefined,
+    });
+    if (options?.json) {
+      printJson(result);
+      return;
+    }
+
+    console.log(
+      `Imported ${result.kind} bundle (format ${result.formatVersion}, conflict: ${result.conflict})`,
+    );
+    console.log(
+      `Imported: ${result.imported} | Replaced: ${result.replaced} | Re-assigned: ${result.reassigned} | Skipped: ${result.skipped}`,
+    );
+    for (const entry of result.entries) {
+      const provenance = entry.provenance
+        ? ` | re-signed with ${entry.provenance.signingKeyId}, lost: ${entry.provenance.lost.join(", ")}${entry.provenance.originalSigningKeyId ? ` (was signed by ${entry.provenance.originalSigningKeyId})` : ""}`
+        : "";
+      console.log(
+        entry.id === entry.sourceId || entry.id === null
+          ? `- ${entry.sourceId} | ${entry.status}${provenance}`
+          : `- ${entry.sourceId} -> ${entry.id} | ${entry.status}${provenance}`,
+      );
+    }
+  } finally {
+    db.close();
+  }
+}
@@ -1,31 +1,17 @@
 /* global process */
 
-import {
-  collectSessionSearchableText,
-  filterSessionsByHistory,
-} from "../lib/session-filters.js";
+import { filterSessionsByHistory } from "../lib/session-filters.js";
 import { buildHistoryTrendReport } from "../lib/session-trends.js";
 import { buildHistoryHandoffReport } from "../lib/history-handoff.js";
 import { getSessionLabel } from "../lib/session-history.js";
+import type { SessionHost, SessionStatus } from "../lib/storage/index.js";
 import {
-  EvidenceDatabase,
-  type SessionHost,
-  type SessionStatus,
-} from "../lib/storage/index.js";
-import { ensureParentDir, resolveDbPath } from "./session-execution.js";
+  ensureParentDir,
+  openEvidenceDatabase,
+  resolveDbPath,
+} from "./session-execution.js";
 import { printJson } from "./session-display.js";
 
-function collectSnippets(
-  textNeedle: string,
-  haystack: string[],
-  limit: number = 3,
-): string[] {
-  const loweredNeedle = textNeedle.toLowerCase();
-  return haystack
-    .filter((item) => item.toLowerCase().includes(loweredNeedle))
-    .slice(0, limit);
-}
-
 export function searchHistoryCli(
   query: string,
   options?: {
@@ -38,7 +24,7 @@ export function searchHistoryCli(
 ): void {
   const dbPath = resolveDbPath();
   ensureParentDir(dbPath);
-  const db = new EvidenceDatabase(dbPath);
+  const db = openEvidenceDatabase(dbPath);
 
   try {
     const trimmedQuery = query.trim();
@@ -58,34 +44,22 @@ export function searchHistoryCli(
       throw new Error("Offset must be a non-negative integer");
     }
 
-    const offset = options?.offset ?? 0;
-    const allMatches = filterSessionsByHistory(db, {
+    const matches = db.searchSessionHistory({
       host: options?.host,
       status: options?.status,
       query: trimmedQuery,
-    })
-      .map((session) => {
-        const searchable = collectSessionSearchableText(db, session);
-        const snippets = collectSnippets(trimmedQuery, searchable);
-        return snippets.length > 0
-          ? {
-              sessionId: session.id,
-              host: session.host,
-              label: getSessionLabel(session),
-              status: session.status,
-              startedAt: session.startedAt,
-              snippets,
-            }
-          : null;
-      })
-      .filter((result): result is NonNullable<typeof result> =>
-        Boolean(result),
-      );
-
-    const results = allMatches.slice(
-      offset,
-      options?.limit ? offset + options.limit : undefined,
-    );
+      limit: options?.limit,
+      offset: options?.offset,
+    });
+    const results = matches.results.map(({ session, score, snippets }) => ({
+      sessionId: session.id,
+      host: session.host,
+      label: getSessionLabel(session),
+      status: session.status,
+      startedAt: session.startedAt,
+      score,
+      snippets,
+    }));
 
     if (options?.json) {
       printJson({
@@ -94,14 +68,14 @@ export function searchHistoryCli(
           host: options.host,
           status: options.status,
         },
-        total: allMatches.length,
+        total: matches.total,
         results,
       });
       return;
     }
 
     console.log(`History search: ${trimmedQuery}`);
-    console.log(`Matches: ${results.length} shown, ${allMatches.length} total`);
+    console.log(`Matches: ${results.length} shown, ${matches.total} total`);
     for (const result of results) {
       console.log(
         `${result.sessionId} | ${result.host} | ${result.status} | ${result.label}`,
@@ -127,7 +101,7 @@ export function showHistoryTrendsCli(options?: {
 }): void {
   const dbPath = resolveDbPath();
   ensureParentDir(dbPath);
-  const db = new EvidenceDatabase(dbPath);
+  const db = openEvidenceDatabase(dbPath);
 
   try {
     const report = buildHistoryTrendReport(db, {
@@ -195,7 +169,7 @@ export function showHistoryHandoffCli(options?: {
 }): void {
   const dbPath = resolveDbPath();
   ensureParentDir(dbPath);
-  const db = new EvidenceDatabase(dbPath);
+  const db = openEvidenceDatabase(dbPath);
 
   try {
     const report = buildHistoryHandoffReport(db, {
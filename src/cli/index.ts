@@ -3,13 +3,28 @@
 
 import { runSetup } from "./setup.js";
 import { runLiveDemoCli } from "./live-demo.js";
+import { checkAdapterCli, listAdaptersCli } from "./adapter-display.js";
 import {
+  exportSigningKeyCli,
+  flushTimestampQueueCli,
+  importBundleCli,
+  rekeyCli,
+  verifyBundleCli,
+  verifyLedgerCli,
+} from "./evidence-display.js";
+import {
+  captureSessionEvidenceCli,
+  collectGarbageCli,
   confirmContextLinkCli,
   exportSessionsCli,
+  exportSessionCastCli,
+  importSessionLogsCli,
+  ingestAllSessionsCli,
   ingestSessionCli,
   listSessionsCli,
   listContextsCli,
   mergeContextsCli,
+  replaySessionCli,
   moveSessionContextCli,
   prepareContextCli,
   rejectContextLinkCli,
@@ -17,6 +32,8 @@ import {
   runClaudeSession,
   runCodexSession,
   runGeminiSession,
+  runGenericSession,
+  runPluginSession,
   searchHistoryCli,
   setActiveContextCli,
   showContextCli,
@@ -30,9 +47,20 @@ import {
   showSessionCli,
   showSessionTimelineCli,
   splitContextCli,
+  syncSessionHistoryCli,
 } from "./session-runtime.js";
+import {
+  BUNDLE_CONFLICT_MODES,
+  type BundleConflictMode,
+} from "../lib/storage/index.js";
+import {
+  BUILT_IN_SESSION_HOSTS,
+  SESSION_HOST_LABEL_PATTERN,
+} from "../lib/session-hosts.js";
+import type { ReplaySpeed } from "./session-replay.js";
 import type {
   ArtifactType,
+  BuiltInSessionHost,
   NarrativeKind,
   SessionHost,
   SessionStatus,
@@ -40,7 +68,7 @@ import type {
 
 const args = process.argv.slice(2);
 const command = args[0];
-const sessionHosts = new Set<SessionHost>(["claude", "gemini", "codex"]);
+const builtInSessionHosts = new Set<BuiltInSessionHost>(BUILT_IN_SESSION_HOSTS);
 const sessionStatuses = new Set<SessionStatus>([
   "running",
   "completed",
@@ -52,6 +80,11 @@ const artifactTypes = new Set<ArtifactType>([
   "command-output",
   "test-result",
   "git-commit",
+  "lint-result",
+  "build-result",
+  "dependency-change",
+  "http-request",
+  "migration",
 ]);
 const narrativeKinds = new Set<NarrativeKind>([
   "journal",
@@ -63,7 +96,11 @@ const exportOutputModes = new Set<"file" | "base64" | "both">([
   "base64",
   "both",
 ]);
+const sessionExportFormats = new Set<"zip" | "cast">(["zip", "cast"]);
 const historyTrendGroups = new Set<"issue" | "family">(["issue", "family"]);
+const outputStreams = new Set<"stdout" | "stderr">(["stdout", "stderr"]);
+const replaySpeeds = new Set<ReplaySpeed>(["1x", "2x", "max"]);
+const bundleConflictModes = new Set<BundleConflictMode>(BUNDLE_CONFLICT_MODES);
 
 function consumeFlag(
   values: string[],
@@ -140,6 +177,18 @@ function parseEnumValue<T extends string>(
   return value as T;
 }
 
+function parseHostOption(value: string | undefined): SessionHost | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+
+  if (!SESSION_HOST_LABEL_PATTERN.test(value)) {
+    throw new Error(`Invalid value for --host: ${value}`);
+  }
+
+  return value;
+}
+
 function parseIntegerOption(
   value: string | undefined,
   flag: string,
@@ -180,10 +229,15 @@ async function main() {
     }
 
     case "run": {
-      const host = args[1];
+      // `footprint run [options] -- <command>` records any command generically.
+      const generic = args[1] === undefined || args[1].startsWith("--");
+      const host = generic ? null : args[1];
       const separatorIndex = args.indexOf("--");
+      const optionStart = generic ? 1 : 2;
       const runOptionArgs =
-        separatorIndex >= 0 ? args.slice(2, separatorIndex) : args.slice(2);
+        separatorIndex >= 0
+          ? args.slice(optionStart, separatorIndex)
+          : args.slice(optionStart);
       let commandArgs =
         separatorIndex >= 0 ? args.slice(separatorIndex + 1) : [];
       const prepareParse = consumeFlag(runOptionArgs, "--prepare-context");
@@ -199,13 +253,20 @@ async function main() {
         interactiveParse.rest,
         "--context-title",
       );
+      const labelParse = consumeOption(contextTitleParse.rest, "--label");
+      const runUsage =
+        'Usage: "footprint run <claude|gemini|codex> [--prepare-context] [--no-context-prepare] [--interactive-context] [--context-title <text>] -- <args...>" or "footprint run [--label <label>] [--prepare-context] [--no-context-prepare] [--interactive-context] [--context-title <text>] -- <command> [args...]"';
       if (separatorIndex >= 0) {
-        assertNoExtraArgs(
-          contextTitleParse.rest,
-          'Usage: "footprint run <claude|gemini|codex> [--prepare-context] [--no-context-prepare] [--interactive-context] [--context-title <text>] -- <args...>"',
-        );
+        assertNoExtraArgs(labelParse.rest, runUsage);
+      } else if (generic) {
+        throw new Error(runUsage);
       } else {
-        commandArgs = contextTitleParse.rest;
+        commandArgs = labelParse.rest;
+      }
+      if (!generic && labelParse.value !== undefined) {
+        throw new Error(
+          "--label only applies to generic commands recorded with footprint run -- <command>",
+        );
       }
       const prepareContext = skipPrepareParse.present
         ? false
@@ -216,34 +277,194 @@ async function main() {
         (prepareContext &&
           Boolean(process.stdin.isTTY) &&
           Boolean(process.stderr.isTTY));
+      const runOptions = {
+        prepareContext,
+        interactiveContext,
+        contextTitle: contextTitleParse.value,
+      };
 
       switch (host) {
-        case "claude":
-          process.exitCode = await runClaudeSession(commandArgs, {
-            prepareContext,
-            interactiveContext,
-            contextTitle: contextTitleParse.value,
+        case null:
+          process.exitCode = await runGenericSession(commandArgs, {
+            ...runOptions,
+            label: labelParse.value,
           });
           break;
+        case "claude":
+          process.exitCode = await runClaudeSession(commandArgs, runOptions);
+          break;
         case "gemini":
-          process.exitCode = await runGeminiSession(commandArgs, {
-            prepareContext,
-            interactiveContext,
-            contextTitle: contextTitleParse.value,
-          });
+          process.exitCode = await runGeminiSession(commandArgs, runOptions);
           break;
         case "codex":
-          process.exitCode = await runCodexSession(commandArgs, {
-            prepareContext,
-            interactiveContext,
-            contextTitle: contextTitleParse.value,
-          });
+          process.exitCode = await runCodexSession(commandArgs, runOptions);
           break;
         default:
+          process.exitCode = await runPluginSession(
+            host,
+            commandArgs,
+            runOptions,
+          );
+      }
+      break;
+    }
+
+    case "import": {
+      const host = parseEnumValue(args[1], builtInSessionHosts, "host");
+      if (!host) {
+        throw new Error(
+          'Usage: "footprint import <claude|gemini|codex> [paths...] [--json]"',
+        );
+      }
+      const jsonParse = parseJsonOption(args.slice(2));
+      importSessionLogsCli(host, jsonParse.rest, { json: jsonParse.json });
+      break;
+    }
+
+    case "adapters": {
+      const jsonParse = parseJsonOption(args.slice(2));
+      if (args[1] === "list") {
+        assertNoExtraArgs(
+          jsonParse.rest,
+          'Usage: "footprint adapters list [--json]"',
+        );
+        listAdaptersCli({ json: jsonParse.json });
+        break;
+      }
+      if (args[1] === "check") {
+        const streamParse = consumeOption(jsonParse.rest, "--stream");
+        const [name, ...samplePaths] = streamParse.rest;
+        if (!name || samplePaths.length === 0) {
           throw new Error(
-            `Unsupported host "${host}". Supported hosts: claude, gemini, codex.`,
+            'Usage: "footprint adapters check <adapter> <sample-log...> [--stream <stdout|stderr>] [--json]"',
           );
+        }
+        await checkAdapterCli(name, samplePaths, {
+          json: jsonParse.json,
+          stream: parseEnumValue(streamParse.value, outputStreams, "--stream"),
+        });
+        break;
       }
+      throw new Error(
+        'Supported commands: "footprint adapters list", "footprint adapters check <adapter> <sample-log...>"',
+      );
+    }
+
+    case "gc": {
+      const jsonParse = parseJsonOption(args.slice(1));
+      const dryRunParse = consumeFlag(jsonParse.rest, "--dry-run");
+      assertNoExtraArgs(
+        dryRunParse.rest,
+        'Usage: "footprint gc [--dry-run] [--json]"',
+      );
+      collectGarbageCli({
+        json: jsonParse.json,
+        dryRun: dryRunParse.present,
+      });
+      break;
+    }
+
+    case "sync": {
+      const jsonParse = parseJsonOption(args.slice(1));
+      const dirParse = consumeOption(jsonParse.rest, "--dir");
+      assertNoExtraArgs(
+        dirParse.rest,
+        'Usage: "footprint sync [--dir <directory>] [--json]"',
+      );
+      syncSessionHistoryCli({
+        json: jsonParse.json,
+        directory: dirParse.value,
+      });
+      break;
+    }
+
+    case "ledger": {
+      if (args[1] !== "verify") {
+        throw new Error('Supported command: "footprint ledger verify"');
+      }
+      const jsonParse = parseJsonOption(args.slice(2));
+      assertNoExtraArgs(
+        jsonParse.rest,
+        'Usage: "footprint ledger verify [--json]"',
+      );
+      verifyLedgerCli({ json: jsonParse.json });
+      break;
+    }
+
+    case "signing-key": {
+      if (args[1] !== "export") {
+        throw new Error('Supported command: "footprint signing-key export"');
+      }
+      const jsonParse = parseJsonOption(args.slice(2));
+      assertNoExtraArgs(
+        jsonParse.rest,
+        'Usage: "footprint signing-key export [--json]"',
+      );
+      exportSigningKeyCli({ json: jsonParse.json });
+      break;
+    }
+
+    case "timestamp": {
+      if (args[1] !== "flush") {
+        throw new Error('Supported command: "footprint timestamp flush"');
+      }
+      const jsonParse = parseJsonOption(args.slice(2));
+      const limitParse = consumeOption(jsonParse.rest, "--limit");
+      assertNoExtraArgs(
+        limitParse.rest,
+        'Usage: "footprint timestamp flush [--limit <n>] [--json]"',
+      );
+      await flushTimestampQueueCli({
+        json: jsonParse.json,
+        limit: parseIntegerOption(limitParse.value, "--limit"),
+      });
+      break;
+    }
+
+    case "verify-bundle": {
+      const zipPath = args[1];
+      const usage =
+        'Usage: "footprint verify-bundle <zip> [--checksum <sha256>] [--git-repo <dir>] [--json]"';
+      if (!zipPath || zipPath.startsWith("--")) {
+        throw new Error(usage);
+      }
+      const jsonParse = parseJsonOption(args.slice(2));
+      const checksumParse = consumeOption(jsonParse.rest, "--checksum");
+      const gitRepoParse = consumeOption(checksumParse.rest, "--git-repo");
+      assertNoExtraArgs(gitRepoParse.rest, usage);
+      await verifyBundleCli(zipPath, {
+        json: jsonParse.json,
+        checksum: checksumParse.value,
+        gitRepo: gitRepoParse.value,
+      });
+      break;
+    }
+
+    case "import-bundle": {
+      const zipPath = args[1];
+      const usage =
+        'Usage: "footprint import-bundle <zip> [--conflict skip|replace|re-id] [--json]"';
+      if (!zipPath || zipPath.startsWith("--")) {
+        throw new Error(usage);
+      }
+      const jsonParse = parseJsonOption(args.slice(2));
+      const conflictParse = consumeOption(jsonParse.rest, "--conflict");
+      assertNoExtraArgs(conflictParse.rest, usage);
+      await importBundleCli(zipPath, {
+        json: jsonParse.json,
+        conflict: parseEnumValue(
+          conflictParse.value,
+          bundleConflictModes,
+          "--conflict",
+        ),
+      });
+      break;
+    }
+
+    case "rekey": {
+      const jsonParse = parseJsonOption(args.slice(1));
+      assertNoExtraArgs(jsonParse.rest, 'Usage: "footprint rekey [--json]"');
+      rekeyCli({ json: jsonParse.json });
       break;
     }
 
@@ -258,13 +479,13 @@ async function main() {
       const statusParse = consumeOption(hostParse.rest, "--status");
       assertNoExtraArgs(
         statusParse.rest,
-        'Usage: "footprint sessions list [--query <text>] [--issue-key <issue-key>] [--host <claude|gemini|codex>] [--status <running|completed|failed|interrupted>] [--json]"',
+        'Usage: "footprint sessions list [--query <text>] [--issue-key <issue-key>] [--host <claude|gemini|codex|label>] [--status <running|completed|failed|interrupted>] [--json]"',
       );
       listSessionsCli({
         json: jsonParse.json,
         query: queryParse.value,
         issueKey: issueKeyParse.value,
-        host: parseEnumValue(hostParse.value, sessionHosts, "--host"),
+        host: parseHostOption(hostParse.value),
         status: parseEnumValue(statusParse.value, sessionStatuses, "--status"),
       });
       break;
@@ -288,7 +509,7 @@ async function main() {
       const sessionId = args[2];
       if (!sessionId) {
         throw new Error(
-          'Usage: "footprint session <show|ingest|export|messages|trends|timeline|artifacts|narratives|decisions> <id> [options]".',
+          'Usage: "footprint session <show|ingest|export|capture|replay|messages|trends|timeline|artifacts|narratives|decisions> <id> [options]".',
         );
       }
 
@@ -404,8 +625,12 @@ async function main() {
         const { json, rest } = parseJsonOption(args.slice(3));
         assertNoExtraArgs(
           rest,
-          'Usage: "footprint session ingest <id> [--json]"',
+          'Usage: "footprint session ingest <id|--all> [--json]"',
         );
+        if (sessionId === "--all") {
+          ingestAllSessionsCli({ json });
+          break;
+        }
         ingestSessionCli(sessionId, { json });
         break;
       }
@@ -417,10 +642,31 @@ async function main() {
           groupByParse.rest,
           "--output-mode",
         );
+        const formatParse = consumeOption(outputModeParse.rest, "--format");
         assertNoExtraArgs(
-          outputModeParse.rest,
-          'Usage: "footprint session export <id> [--group-by <issue|family>] [--output-mode <file|base64|both>] [--json]"',
+          formatParse.rest,
+          'Usage: "footprint session export <id> [--format <zip|cast>] [--group-by <issue|family>] [--output-mode <file|base64|both>] [--json]"',
         );
+        const outputMode = parseEnumValue(
+          outputModeParse.value,
+          exportOutputModes,
+          "--output-mode",
+        );
+        const format = parseEnumValue(
+          formatParse.value,
+          sessionExportFormats,
+          "--format",
+        );
+        if (format === "cast") {
+          if (groupByParse.value !== undefined) {
+            throw new Error("--group-by only applies to ZIP exports");
+          }
+          exportSessionCastCli(sessionId, {
+            json: jsonParse.json,
+            outputMode,
+          });
+          break;
+        }
         await exportSessionsCli([sessionId], {
           json: jsonParse.json,
           groupBy: parseEnumValue(
@@ -428,11 +674,44 @@ async function main() {
             historyTrendGroups,
             "--group-by",
           ),
-          outputMode: parseEnumValue(
-            outputModeParse.value,
-            exportOutputModes,
-            "--output-mode",
-          ),
+          outputMode,
+        });
+        break;
+      }
+
+      if (subcommand === "capture") {
+        const jsonParse = parseJsonOption(args.slice(3));
+        const fromSeqParse = consumeOption(jsonParse.rest, "--from-seq");
+        const toSeqParse = consumeOption(fromSeqParse.rest, "--to-seq");
+        const tagsParse = consumeOption(toSeqParse.rest, "--tags");
+        assertNoExtraArgs(
+          tagsParse.rest,
+          'Usage: "footprint session capture <id> [--from-seq <n>] [--to-seq <n>] [--tags <tags>] [--json]"',
+        );
+        await captureSessionEvidenceCli(sessionId, {
+          json: jsonParse.json,
+          fromSeq: parseIntegerOption(fromSeqParse.value, "--from-seq"),
+          toSeq: parseIntegerOption(toSeqParse.value, "--to-seq"),
+          tags: tagsParse.value,
+        });
+        break;
+      }
+
+      if (subcommand === "replay") {
+        const speedParse = consumeOption(args.slice(3), "--speed");
+        const eventParse = consumeOption(speedParse.rest, "--event");
+        const failureParse = consumeFlag(eventParse.rest, "--next-failure");
+        assertNoExtraArgs(
+          failureParse.rest,
+          'Usage: "footprint session replay <id> [--speed <1x|2x|max>] [--event <seq> | --next-failure]"',
+        );
+        if (eventParse.value !== undefined && failureParse.present) {
+          throw new Error("Use either --event or --next-failure, not both");
+        }
+        await replaySessionCli(sessionId, {
+          speed: parseEnumValue(speedParse.value, replaySpeeds, "--speed"),
+          eventSeq: parseIntegerOption(eventParse.value, "--event"),
+          nextFailure: failureParse.present,
         });
         break;
       }
@@ -492,7 +771,7 @@ async function main() {
         const offsetParse = consumeOption(limitParse.rest, "--offset");
         assertNoExtraArgs(
           offsetParse.rest,
-          'Usage: "footprint session artifacts <id> [--type <file-change|command-output|test-result|git-commit>] [--limit <n>] [--offset <n>] [--json]"',
+          'Usage: "footprint session artifacts <id> [--type <file-change|command-output|test-result|git-commit|lint-result|build-result|dependency-change|http-request|migration>] [--limit <n>] [--offset <n>] [--json]"',
         );
         showSessionArtifactsCli(sessionId, {
           json: jsonParse.json,
@@ -542,7 +821,7 @@ async function main() {
       }
 
       throw new Error(
-        'Usage: "footprint session <show|ingest|export|messages|trends|timeline|artifacts|narratives|decisions> <id> [options]".',
+        'Usage: "footprint session <show|ingest|export|capture|replay|messages|trends|timeline|artifacts|narratives|decisions> <id> [options]".',
       );
     }
 
@@ -573,14 +852,14 @@ async function main() {
         const hostParse = consumeOption(titleParse.rest, "--host");
         assertNoExtraArgs(
           hostParse.rest,
-          'Usage: "footprint context resolve [--session <id>] [--cwd <path>] [--title <text>] [--host <claude|gemini|codex>] [--json]"',
+          'Usage: "footprint context resolve [--session <id>] [--cwd <path>] [--title <text>] [--host <claude|gemini|codex|label>] [--json]"',
         );
         resolveContextCli({
           json: jsonParse.json,
           sessionId: sessionParse.value,
           cwd: cwdParse.value,
           title: titleParse.value,
-          host: parseEnumValue(hostParse.value, sessionHosts, "--host"),
+          host: parseHostOption(hostParse.value),
         });
         break;
       }
@@ -594,7 +873,7 @@ async function main() {
         const hostParse = consumeOption(titleParse.rest, "--host");
         assertNoExtraArgs(
           hostParse.rest,
-          'Usage: "footprint context prepare [--session <id>] [--cwd <path>] [--title <text>] [--host <claude|gemini|codex>] [--interactive] [--json]"',
+          'Usage: "footprint context prepare [--session <id>] [--cwd <path>] [--title <text>] [--host <claude|gemini|codex|label>] [--interactive] [--json]"',
         );
         await prepareContextCli({
           json: jsonParse.json,
@@ -602,7 +881,7 @@ async function main() {
           sessionId: sessionParse.value,
           cwd: cwdParse.value,
           title: titleParse.value,
-          host: parseEnumValue(hostParse.value, sessionHosts, "--host"),
+          host: parseHostOption(hostParse.value),
         });
         break;
       }
@@ -761,7 +1040,7 @@ async function main() {
     case "history": {
       if (args[1] === "search" && !args[2]) {
         throw new Error(
-          'Usage: "footprint history search <query> [--host <claude|gemini|codex>] [--status <running|completed|failed|interrupted>] [--limit <n>] [--offset <n>] [--json]"',
+          'Usage: "footprint history search <query> [--host <claude|gemini|codex|label>] [--status <running|completed|failed|interrupted>] [--limit <n>] [--offset <n>] [--json]"',
         );
       }
 
@@ -773,12 +1052,12 @@ async function main() {
         const offsetParse = consumeOption(limitParse.rest, "--offset");
         assertNoExtraArgs(
           offsetParse.rest,
-          'Usage: "footprint history search <query> [--host <claude|gemini|codex>] [--status <running|completed|failed|interrupted>] [--limit <n>] [--offset <n>] [--json]"',
+          'Usage: "footprint history search <query> [--host <claude|gemini|codex|label>] [--status <running|completed|failed|interrupted>] [--limit <n>] [--offset <n>] [--json]"',
         );
 
         searchHistoryCli(args[2], {
           json: jsonParse.json,
-          host: parseEnumValue(hostParse.value, sessionHosts, "--host"),
+          host: parseHostOption(hostParse.value),
           status: parseEnumValue(
             statusParse.value,
             sessionStatuses,
@@ -803,14 +1082,14 @@ async function main() {
         const groupByParse = consumeOption(statusParse.rest, "--group-by");
         assertNoExtraArgs(
           groupByParse.rest,
-          'Usage: "footprint history handoff [--query <text>] [--issue-key <issue-key>] [--host <claude|gemini|codex>] [--status <running|completed|failed|interrupted>] [--group-by <issue|family>] [--json]"',
+          'Usage: "footprint history handoff [--query <text>] [--issue-key <issue-key>] [--host <claude|gemini|codex|label>] [--status <running|completed|failed|interrupted>] [--group-by <issue|family>] [--json]"',
         );
 
         showHistoryHandoffCli({
           json: jsonParse.json,
           query: queryParse.value,
           issueKey: issueKeyParse.value,
-          host: parseEnumValue(hostParse.value, sessionHosts, "--host"),
+          host: parseHostOption(hostParse.value),
           status: parseEnumValue(
             statusParse.value,
             sessionStatuses,
@@ -841,14 +1120,14 @@ async function main() {
       const offsetParse = consumeOption(limitParse.rest, "--offset");
       assertNoExtraArgs(
         offsetParse.rest,
-        'Usage: "footprint history trends [--query <text>] [--issue-key <issue-key>] [--host <claude|gemini|codex>] [--status <running|completed|failed|interrupted>] [--group-by <issue|family>] [--limit <n>] [--offset <n>] [--json]"',
+        'Usage: "footprint history trends [--query <text>] [--issue-key <issue-key>] [--host <claude|gemini|codex|label>] [--status <running|completed|failed|interrupted>] [--group-by <issue|family>] [--limit <n>] [--offset <n>] [--json]"',
       );
 
       showHistoryTrendsCli({
         json: jsonParse.json,
         query: queryParse.value,
         issueKey: issueKeyParse.value,
-        host: parseEnumValue(hostParse.value, sessionHosts, "--host"),
+        host: parseHostOption(hostParse.value),
         status: parseEnumValue(statusParse.value, sessionStatuses, "--status"),
         groupBy: parseEnumValue(
           groupByParse.value,
@@ -873,13 +1152,13 @@ async function main() {
       const statusParse = consumeOption(hostParse.rest, "--status");
       assertNoExtraArgs(
         statusParse.rest,
-        'Usage: "footprint list-sessions [--query <text>] [--issue-key <issue-key>] [--host <claude|gemini|codex>] [--status <running|completed|failed|interrupted>] [--json]"',
+        'Usage: "footprint list-sessions [--query <text>] [--issue-key <issue-key>] [--host <claude|gemini|codex|label>] [--status <running|completed|failed|interrupted>] [--json]"',
       );
       listSessionsCli({
         json: jsonParse.json,
         query: queryParse.value,
         issueKey: issueKeyParse.value,
-        host: parseEnumValue(hostParse.value, sessionHosts, "--host"),
+        host: parseHostOption(hostParse.value),
         status: parseEnumValue(statusParse.value, sessionStatuses, "--status"),
       });
       break;
@@ -917,14 +1196,14 @@ async function main() {
       const hostParse = consumeOption(titleParse.rest, "--host");
       assertNoExtraArgs(
         hostParse.rest,
-        'Usage: "footprint resolve-context [--session <id>] [--cwd <path>] [--title <text>] [--host <claude|gemini|codex>] [--json]"',
+        'Usage: "footprint resolve-context [--session <id>] [--cwd <path>] [--title <text>] [--host <claude|gemini|codex|label>] [--json]"',
       );
       resolveContextCli({
         json: jsonParse.json,
         sessionId: sessionParse.value,
         cwd: cwdParse.value,
         title: titleParse.value,
-        host: parseEnumValue(hostParse.value, sessionHosts, "--host"),
+        host: parseHostOption(hostParse.value),
       });
       break;
     }
@@ -938,7 +1217,7 @@ async function main() {
       const hostParse = consumeOption(titleParse.rest, "--host");
       assertNoExtraArgs(
         hostParse.rest,
-        'Usage: "footprint prepare-context [--session <id>] [--cwd <path>] [--title <text>] [--host <claude|gemini|codex>] [--interactive] [--json]"',
+        'Usage: "footprint prepare-context [--session <id>] [--cwd <path>] [--title <text>] [--host <claude|gemini|codex|label>] [--interactive] [--json]"',
       );
       await prepareContextCli({
         json: jsonParse.json,
@@ -946,7 +1225,7 @@ async function main() {
         sessionId: sessionParse.value,
         cwd: cwdParse.value,
         title: titleParse.value,
-        host: parseEnumValue(hostParse.value, sessionHosts, "--host"),
+        host: parseHostOption(hostParse.value),
       });
       break;
     }
@@ -1217,7 +1496,7 @@ async function main() {
         json: jsonParse.json,
         query: queryParse.value,
         issueKey: issueKeyParse.value,
-        host: parseEnumValue(hostParse.value, sessionHosts, "--host"),
+        host: parseHostOption(hostParse.value),
         status: parseEnumValue(statusParse.value, sessionStatuses, "--status"),
         groupBy: parseEnumValue(
           groupByParse.value,
@@ -1299,7 +1578,7 @@ async function main() {
     case "get-session-artifacts": {
       if (!args[1]) {
         throw new Error(
-          'Usage: "footprint get-session-artifacts <id> [--type <file-change|command-output|test-result|git-commit>] [--limit <n>] [--offset <n>] [--json]"',
+          'Usage: "footprint get-session-artifacts <id> [--type <file-change|command-output|test-result|git-commit|lint-result|build-result|dependency-change|http-request|migration>] [--limit <n>] [--offset <n>] [--json]"',
         );
       }
       const jsonParse = parseJsonOption(args.slice(2));
@@ -1308,7 +1587,7 @@ async function main() {
       const offsetParse = consumeOption(limitParse.rest, "--offset");
       assertNoExtraArgs(
         offsetParse.rest,
-        'Usage: "footprint get-session-artifacts <id> [--type <file-change|command-output|test-result|git-commit>] [--limit <n>] [--offset <n>] [--json]"',
+        'Usage: "footprint get-session-artifacts <id> [--type <file-change|command-output|test-result|git-commit|lint-result|build-result|dependency-change|http-request|migration>] [--limit <n>] [--offset <n>] [--json]"',
       );
       showSessionArtifactsCli(args[1], {
         json: jsonParse.json,
@@ -1366,7 +1645,7 @@ async function main() {
     case "search-history": {
       if (!args[1]) {
         throw new Error(
-          'Usage: "footprint search-history <query> [--host <claude|gemini|codex>] [--status <running|completed|failed|interrupted>] [--limit <n>] [--offset <n>] [--json]"',
+          'Usage: "footprint search-history <query> [--host <claude|gemini|codex|label>] [--status <running|completed|failed|interrupted>] [--limit <n>] [--offset <n>] [--json]"',
         );
       }
       const jsonParse = parseJsonOption(args.slice(2));
@@ -1376,12 +1655,12 @@ async function main() {
       const offsetParse = consumeOption(limitParse.rest, "--offset");
       assertNoExtraArgs(
         offsetParse.rest,
-        'Usage: "footprint search-history <query> [--host <claude|gemini|codex>] [--status <running|completed|failed|interrupted>] [--limit <n>] [--offset <n>] [--json]"',
+        'Usage: "footprint search-history <query> [--host <claude|gemini|codex|label>] [--status <running|completed|failed|interrupted>] [--limit <n>] [--offset <n>] [--json]"',
       );
 
       searchHistoryCli(args[1], {
         json: jsonParse.json,
-        host: parseEnumValue(hostParse.value, sessionHosts, "--host"),
+        host: parseHostOption(hostParse.value),
         status: parseEnumValue(statusParse.value, sessionStatuses, "--status"),
         limit: limitParse.value
           ? Number.parseInt(limitParse.value, 10)
@@ -1404,14 +1683,14 @@ async function main() {
       const offsetParse = consumeOption(limitParse.rest, "--offset");
       assertNoExtraArgs(
         offsetParse.rest,
-        'Usage: "footprint get-history-trends [--query <text>] [--issue-key <issue-key>] [--host <claude|gemini|codex>] [--status <running|completed|failed|interrupted>] [--group-by <issue|family>] [--limit <n>] [--offset <n>] [--json]"',
+        'Usage: "footprint get-history-trends [--query <text>] [--issue-key <issue-key>] [--host <claude|gemini|codex|label>] [--status <running|completed|failed|interrupted>] [--group-by <issue|family>] [--limit <n>] [--offset <n>] [--json]"',
       );
 
       showHistoryTrendsCli({
         json: jsonParse.json,
         query: queryParse.value,
         issueKey: issueKeyParse.value,
-        host: parseEnumValue(hostParse.value, sessionHosts, "--host"),
+        host: parseHostOption(hostParse.value),
         status: parseEnumValue(statusParse.value, sessionStatuses, "--status"),
         groupBy: parseEnumValue(
           groupByParse.value,
@@ -1437,14 +1716,14 @@ async function main() {
       const groupByParse = consumeOption(statusParse.rest, "--group-by");
       assertNoExtraArgs(
         groupByParse.rest,
-        'Usage: "footprint get-history-handoff [--query <text>] [--issue-key <issue-key>] [--host <claude|gemini|codex>] [--status <running|completed|failed|interrupted>] [--group-by <issue|family>] [--json]"',
+        'Usage: "footprint get-history-handoff [--query <text>] [--issue-key <issue-key>] [--host <claude|gemini|codex|label>] [--status <running|completed|failed|interrupted>] [--group-by <issue|family>] [--json]"',
       );
 
       showHistoryHandoffCli({
         json: jsonParse.json,
         query: queryParse.value,
         issueKey: issueKeyParse.value,
-        host: parseEnumValue(hostParse.value, sessionHosts, "--host"),
+        host: parseHostOption(hostParse.value),
         status: parseEnumValue(statusParse.value, sessionStatuses, "--status"),
         groupBy: parseEnumValue(
           groupByParse.value,
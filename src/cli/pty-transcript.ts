@@ -1,3 +1,5 @@
+import { StringDecoder } from "node:string_decoder";
+
 const SCRIPT_RECORD_HEADER_BYTES = 24;
 
 export type ScriptTranscriptDirection = "s" | "i" | "o" | "e";
@@ -256,3 +258,133 @@ export function controlEchoTokens(payload: Buffer): string[] {
 
   return tokens;
 }
+
+export interface TimedTranscriptRecord {
+  /** Milliseconds since the first record */
+  offsetMs: number;
+  direction: "i" | "o";
+  payload: Buffer;
+}
+
+export interface TranscriptFrame {
+  offsetMs: number;
+  direction: "i" | "o";
+  data: string;
+}
+
+/** Chunks closer together than this are merged into one replay frame */
+const FRAME_MERGE_WINDOW_MS = 100;
+
+/**
+ * Attach offsets to BSD `script -r` records. BSD records carry absolute
+ * timestamps, so offsets are measured from the first record.
+ */
+export function timeScriptTranscriptRecords(
+  records: ScriptTranscriptRecord[],
+): TimedTranscriptRecord[] {
+  const first = records[0];
+  if (!first) {
+    return [];
+  }
+
+  const originMicros = first.seconds * 1_000_000 + first.micros;
+  return records.flatMap((record) =>
+    record.direction === "i" || record.direction === "o"
+      ? [
+          {
+            offsetMs: Math.max(
+              0,
+              Math.round(
+                (record.seconds * 1_000_000 + record.micros - originMicros) /
+                  1000,
+              ),
+            ),
+            direction: record.direction,
+            payload: record.payload,
+          },
+        ]
+      : [],
+  );
+}
+
+/**
+ * Attach offsets to util-linux advanced timing records, whose delays are
+ * relative to the previous record.
+ */
+export function timeUtilLinuxTranscriptRecords(
+  records: UtilLinuxTranscriptRecord[],
+): TimedTranscriptRecord[] {
+  let elapsedSeconds = 0;
+  return records.map((record) => {
+    elapsedSeconds += record.delaySeconds;
+    return {
+      offsetMs: Math.round(elapsedSeconds * 1000),
+      direction: record.direction,
+      payload: record.payload,
+    };
+  });
+}
+
+/**
+ * Merge timed records into replay frames. Raw bytes, escape sequences
+ * included, are kept so the terminal can be redrawn as it was. A frame closes
+ * at a line end, on a direction change, or before a pause, which keeps frames
+ * line-sized for redaction without flattening the original pacing.
+ *
+ * @param records - Timed transcript records in order
+ * @param redact - Applied to each finished frame
+ */
+export function buildTranscriptFrames(
+  records: TimedTranscriptRecord[],
+  redact: (text: string) => string = (text) => text,
+): TranscriptFrame[] {
+  const frames: TranscriptFrame[] = [];
+  const decoders = {
+    i: new StringDecoder("utf8"),
+    o: new StringDecoder("utf8"),
+  };
+  let pending: TranscriptFrame | null = null;
+  let lastOffsetMs = 0;
+
+  const flush = () => {
+    if (pending && pending.data.length > 0) {
+      frames.push({ ...pending, data: redact(pending.data) });
+    }
+    pending = null;
+  };
+
+  for (const record of records) {
+    const text = decoders[record.direction].write(record.payload);
+    if (
+      pending &&
+      (pending.direction !== record.direction ||
+        record.offsetMs - lastOffsetMs >= FRAME_MERGE_WINDOW_MS)
+    ) {
+      flush();
+    }
+    lastOffsetMs = record.offsetMs;
+    if (text.length === 0) {
+      continue;
+    }
+
+    pending ??= {
+      offsetMs: record.offsetMs,
+      direction: record.direction,
+      data: "",
+    };
+    pending.data += text;
+    if (/[\r\n]$/.test(text)) {
+      flush();
+    }
+  }
+
+  flush();
+  for (const direction of ["i", "o"] as const) {
+    const rest = decoders[direction].end();
+    if (rest.length > 0) {
+      frames.push({ offsetMs: lastOffsetMs, direction, data: redact(rest) });
+    }
+  }
+
+  return frames;
+}
@@ -3,12 +3,37 @@
 import * as fs from "node:fs";
 import * as path from "node:path";
 import { tmpdir } from "node:os";
+import { importSessionLogs } from "../importers/index.js";
 import { reingestSessionHistory } from "../ingestion/index.js";
+import {
+  loadIngestionRulesConfig,
+  resolveIngestionRulesPath,
+} from "../ingestion/rules.js";
+import {
+  createRedactor,
+  loadRedactionConfig,
+  resolveRedactionConfigPath,
+} from "../lib/redaction.js";
+import {
+  collectSessionGarbage,
+  loadRetentionConfig,
+  resolveRetentionConfigPath,
+} from "../lib/retention.js";
 import { parseArtifactMetadata } from "../lib/session-artifacts.js";
+import { captureSessionEvidence } from "../lib/session-evidence.js";
 import { filterSessionsByHistory } from "../lib/session-filters.js";
+import {
+  loadTimestampConfig,
+  resolveTimestampConfigPath,
+} from "../lib/trusted-timestamp.js";
 import { getContextReport } from "../lib/context-memory.js";
 import { buildSessionTrendContext } from "../lib/session-trends.js";
 import { buildHistoryHandoffReport } from "../lib/history-handoff.js";
+import {
+  loadSyncConfig,
+  resolveSyncConfigPath,
+  syncSessionHistory,
+} from "../sync/index.js";
 import {
   buildPageInfo,
   DEFAULT_SESSION_DETAIL_PAGE_LIMIT,
@@ -18,14 +43,21 @@ import {
   truncateSummary,
 } from "../lib/session-history.js";
 import {
-  EvidenceDatabase,
   type ArtifactType,
+  type BuiltInSessionHost,
+  type EvidenceDatabase,
   type NarrativeKind,
   type SessionHost,
   type SessionStatus,
+  exportSessionCast,
   exportSessions,
+  resolveStorageKeySync,
 } from "../lib/storage/index.js";
-import { ensureParentDir, resolveDbPath } from "./session-execution.js";
+import {
+  ensureParentDir,
+  openEvidenceDatabase,
+  resolveDbPath,
+} from "./session-execution.js";
 
 type LineWriter = (line: string) => void;
 
@@ -318,6 +350,30 @@ function buildSessionShowData(
         lintRuleId: metadata.lintRuleId,
         testSuite: metadata.testSuite,
         testCase: metadata.testCase,
+        testId: metadata.testId,
+        durationMs: metadata.durationMs,
+        failureMessage: metadata.failureMessage,
+        diagnosticSource: metadata.diagnosticSource,
+        diagnosticFile: metadata.diagnosticFile,
+        diagnosticLine: metadata.diagnosticLine,
+        diagnosticSymbol: metadata.diagnosticSymbol,
+        topFrame: metadata.topFrame,
+        linter: metadata.linter,
+        errorCount: metadata.errorCount,
+        warningCount: metadata.warningCount,
+        lintRuleIds: metadata.lintRuleIds,
+        lintFiles: metadata.lintFiles,
+        buildTool: metadata.buildTool,
+        outputFiles: metadata.outputFiles,
+        dependencyVersions: metadata.dependencyVersions,
+        httpClient: metadata.httpClient,
+        httpMethod: metadata.httpMethod,
+        url: metadata.url,
+        host: metadata.host,
+        statusCode: metadata.statusCode,
+        migrationTool: metadata.migrationTool,
+        migrationAction: metadata.migrationAction,
+        migrationNames: metadata.migrationNames,
         issueKey: metadata.issueKey,
         issueLabel: metadata.issueLabel,
         issueFamilyKey: metadata.issueFamilyKey,
@@ -507,7 +563,7 @@ function listSessionsCliWithOptions(options?: {
 }): void {
   const dbPath = resolveDbPath();
   ensureParentDir(dbPath);
-  const db = new EvidenceDatabase(dbPath);
+  const db = openEvidenceDatabase(dbPath);
 
   try {
     if (options?.query !== undefined && !options.query.trim()) {
@@ -609,7 +665,7 @@ function showSessionCliWithOptions(
 ): void {
   const dbPath = resolveDbPath();
   ensureParentDir(dbPath);
-  const db = new EvidenceDatabase(dbPath);
+  const db = openEvidenceDatabase(dbPath);
 
   try {
     const data = buildSessionShowData(db, id, options);
@@ -628,7 +684,7 @@ function showSessionCliWithOptions(
     console.log(`CWD: ${data.session.cwd}`);
     console.log(`Narratives: ${data.hasNarratives ? "yes" : "no"}`);
     console.log(
-      `Artifacts: ${data.artifactSummary.total} (file ${data.artifactSummary.byType.fileChange}, command ${data.artifactSummary.byType.commandOutput}, test ${data.artifactSummary.byType.testResult}, git ${data.artifactSummary.byType.gitCommit})`,
+      `Artifacts: ${data.artifactSummary.total} (file ${data.artifactSummary.byType.fileChange}, command ${data.artifactSummary.byType.commandOutput}, test ${data.artifactSummary.byType.testResult}, lint ${data.artifactSummary.byType.lintResult}, build ${data.artifactSummary.byType.buildResult}, dependency ${data.artifactSummary.byType.dependencyChange}, http ${data.artifactSummary.byType.httpRequest}, migration ${data.artifactSummary.byType.migration}, git ${data.artifactSummary.byType.gitCommit})`,
     );
     console.log(`Decisions: ${data.decisionPage.total}`);
     console.log(`Ingestion runs: ${data.ingestionRuns.length}`);
@@ -745,7 +801,7 @@ export async function exportSessionsCli(
 ): Promise<void> {
   const dbPath = resolveDbPath();
   ensureParentDir(dbPath);
-  const db = new EvidenceDatabase(dbPath);
+  const db = openEvidenceDatabase(dbPath);
 
   try {
     const outputMode = options?.outputMode ?? (options?.json ? "both" : "file");
@@ -823,6 +879,122 @@ export async function exportSessionsCli(
   }
 }
 
+export function exportSessionCastCli(
+  id: string,
+  options?: {
+    json?: boolean;
+    outputMode?: "file" | "base64" | "both";
+  },
+): void {
+  const dbPath = resolveDbPath();
+  ensureParentDir(dbPath);
+  const db = openEvidenceDatabase(dbPath);
+
+  try {
+    const outputMode = options?.outputMode ?? (options?.json ? "both" : "file");
+    const result = exportSessionCast(db, id);
+
+    let filename: string | undefined;
+    let base64Data: string | undefined;
+
+    if (outputMode === "file" || outputMode === "both") {
+      const outputDir =
+        process.env.FOOTPRINT_DATA_DIR ||
+        process.env.FOOTPRINT_EXPORT_DIR ||
+        tmpdir();
+      filename = path.join(outputDir, result.filename);
+      fs.writeFileSync(filename, result.castData);
+    }
+
+    if (outputMode === "base64" || outputMode === "both") {
+      base64Data = Buffer.from(result.castData).toString("base64");
+    }
+
+    if (options?.json) {
+      printJson({
+        ...(filename && { filename }),
+        ...(base64Data && { base64Data }),
+        format: "cast",
+        checksum: result.checksum,
+        sessionId: result.sessionId,
+        frameCount: result.frameCount,
+        markerCount: result.markerCount,
+        durationMs: result.durationMs,
+        success: true,
+      });
+      return;
+    }
+
+    console.log(`Exported session cast: ${result.sessionId}`);
+    console.log(`Output mode: ${outputMode}`);
+    console.log(`Checksum: ${result.checksum}`);
+    console.log(
+      `Frames: ${result.frameCount} | Markers: ${result.markerCount} | Duration: ${(result.durationMs / 1000).toFixed(1)}s`,
+    );
+    if (filename) {
+      console.log(`Filename: ${filename}`);
+    }
+    if (base64Data) {
+      console.log(`Base64 size: ${Math.round(base64Data.length / 1024)}KB`);
+    }
+  } finally {
+    db.close();
+  }
+}
+
+export async function captureSessionEvidenceCli(
+  id: string,
+  options?: {
+    json?: boolean;
+    fromSeq?: number;
+    toSeq?: number;
+    tags?: string;
+  },
+): Promise<void> {
+  const passphrase =
+    process.env.FOOTPRINT_PASSPHRASE || process.env.FOOTPRINT_PASSWORD || "";
+  if (!passphrase) {
+    throw new Error("FOOTPRINT_PASSPHRASE is required to capture evidence");
+  }
+
+  const dbPath = resolveDbPath();
+  ensureParentDir(dbPath);
+  const db = openEvidenceDatabase(dbPath);
+
+  try {
+    const result = await captureSessionEvidence(
+      db,
+      resolveStorageKeySync(db.getDb(), passphrase),
+      id,
+      {
+        fromSeq: options?.fromSeq,
+        toSeq: options?.toSeq,
+        tags: options?.tags ?? null,
+        timestampConfig: loadTimestampConfig(
+          resolveTimestampConfigPath(dbPath),
+        ),
+      },
+    );
+
+    if (options?.json) {
+      printJson({ ...result, success: true });
+      return;
+    }
+
+    console.log(`Captured session evidence: ${result.evidenceId}`);
+    console.log(`Session: ${result.sessionId}`);
+    console.log(`Message range: ${result.fromSeq}-${result.toSeq}`);
+    console.log(
+      `Messages: ${result.messageCount} | Timeline events: ${result.timelineCount} | Artifacts: ${result.artifactCount}`,
+    );
+    console.log(`Content hash: ${result.contentHash}`);
+    console.log(`Git commit: ${result.gitCommitHash ?? "N/A"}`);
+    console.log(`Trusted timestamp: ${result.timestampStatus}`);
+  } finally {
+    db.close();
+  }
+}
+
 export function ingestSessionCli(
   id: string,
   options?: { json?: boolean },
@@ -836,7 +1008,7 @@ function ingestSessionCliWithOptions(
 ): void {
   const dbPath = resolveDbPath();
   ensureParentDir(dbPath);
-  const db = new EvidenceDatabase(dbPath);
+  const db = openEvidenceDatabase(dbPath);
 
   try {
     const session = db.findSessionById(id);
@@ -850,7 +1022,12 @@ function ingestSessionCliWithOptions(
       );
     }
 
-    const summary = reingestSessionHistory(db, id);
+    const summary = reingestSessionHistory(db, id, {
+      redactor: createRedactor(
+        loadRedactionConfig(resolveRedactionConfigPath(dbPath)),
+      ),
+      rules: loadIngestionRulesConfig(resolveIngestionRulesPath(dbPath)),
+    });
     if (options?.json) {
       printJson({
         sessionId: id,
@@ -870,13 +1047,226 @@ function ingestSessionCliWithOptions(
   }
 }
 
+/**
+ * Re-derive every finished session, for example after the ingestion rules
+ * changed. Running sessions are skipped, and one failing session does not
+ * stop the rest.
+ */
+export function ingestAllSessionsCli(options?: { json?: boolean }): void {
+  const dbPath = resolveDbPath();
+  ensureParentDir(dbPath);
+  const db = openEvidenceDatabase(dbPath);
+
+  try {
+    const redactor = createRedactor(
+      loadRedactionConfig(resolveRedactionConfigPath(dbPath)),
+    );
+    const rules = loadIngestionRulesConfig(resolveIngestionRulesPath(dbPath));
+    const sessions = db.listSessions().map((session) => {
+      if (session.status === "running") {
+        return {
+          sessionId: session.id,
+          status: "skipped" as const,
+          artifactsCreated: 0,
+          narrativesCreated: 0,
+          decisionsCreated: 0,
+          reason: "still running",
+        };
+      }
+
+      try {
+        return {
+          sessionId: session.id,
+          status: "reingested" as const,
+          ...reingestSessionHistory(db, session.id, { redactor, rules }),
+          reason: null,
+        };
+      } catch (error) {
+        return {
+          sessionId: session.id,
+          status: "failed" as const,
+          artifactsCreated: 0,
+          narrativesCreated: 0,
+          decisionsCreated: 0,
+          reason: error instanceof Error ? error.message : String(error),
+        };
+      }
+    });
+    const count = (status: (typeof sessions)[number]["status"]) =>
+      sessions.filter((session) => session.status === status).length;
+    const summary = {
+      scanned: sessions.length,
+      reingested: count("reingested"),
+      skipped: count("skipped"),
+      failed: count("failed"),
+      sessions,
+    };
+    if (summary.failed > 0) {
+      process.exitCode = 1;
+    }
+
+    if (options?.json) {
+      printJson(summary);
+      return;
+    }
+
+    console.log(
+      `Reingested ${summary.reingested} of ${summary.scanned} session(s)`,
+    );
+    console.log(`Skipped (running): ${summary.skipped}`);
+    console.log(`Failed: ${summary.failed}`);
+    for (const session of sessions) {
+      if (session.status === "reingested") {
+        continue;
+      }
+      console.log(
+        `- ${session.status} ${session.sessionId} (${session.reason})`,
+      );
+    }
+  } finally {
+    db.close();
+  }
+}
+
+export function importSessionLogsCli(
+  host: BuiltInSessionHost,
+  paths: string[],
+  options?: { json?: boolean },
+): void {
+  const dbPath = resolveDbPath();
+  ensureParentDir(dbPath);
+  const db = openEvidenceDatabase(dbPath);
+
+  try {
+    const summary = importSessionLogs(db, {
+      host,
+      paths,
+      redactor: createRedactor(
+        loadRedactionConfig(resolveRedactionConfigPath(dbPath)),
+      ),
+      rules: loadIngestionRulesConfig(resolveIngestionRulesPath(dbPath)),
+    });
+    if (options?.json) {
+      printJson(summary);
+      return;
+    }
+
+    console.log(`Scanned ${summary.scanned} ${host} session log(s)`);
+    console.log(`Imported: ${summary.imported}`);
+    console.log(`Updated: ${summary.updated}`);
+    console.log(`Skipped: ${summary.skipped}`);
+    console.log(`Failed: ${summary.failed}`);
+    for (const file of summary.files) {
+      if (file.status === "skipped") {
+        continue;
+      }
+      console.log(
+        `- ${file.status} ${file.sourcePath}${
+          file.sessionId ? ` -> ${file.sessionId}` : ""
+        }${file.reason ? ` (${file.reason})` : ""}`,
+      );
+    }
+    if (summary.failed > 0) {
+      process.exitCode = 1;
+    }
+  } finally {
+    db.close();
+  }
+}
+
+export function collectGarbageCli(options?: {
+  json?: boolean;
+  dryRun?: boolean;
+}): void {
+  const dbPath = resolveDbPath();
+  ensureParentDir(dbPath);
+  const db = openEvidenceDatabase(dbPath);
+
+  try {
+    const report = collectSessionGarbage(
+      db,
+      loadRetentionConfig(resolveRetentionConfigPath(dbPath)),
+      { dryRun: options?.dryRun },
+    );
+    if (options?.json) {
+      printJson(report);
+      return;
+    }
+
+    console.log(
+      `${report.dryRun ? "Would prune" : "Pruned"} ${report.pruned} of ${report.scanned} session(s)`,
+    );
+    console.log(`Expired: ${report.expired}`);
+    console.log(`Kept (context-linked): ${report.kept["context-linked"]}`);
+    console.log(
+      `Kept (evidence-referenced): ${report.kept["evidence-referenced"]}`,
+    );
+    console.log(
+      `Kept (recent in workspace): ${report.kept["recent-in-workspace"]}`,
+    );
+    for (const session of report.sessions) {
+      console.log(
+        `- ${session.sessionId} | ${session.host} | ${session.status} | ${session.startedAt} | ${session.label}`,
+      );
+    }
+    if (report.vacuum) {
+      console.log(
+        `Database size: ${(report.vacuum.bytesBefore / (1024 * 1024)).toFixed(1)}MB -> ${(report.vacuum.bytesAfter / (1024 * 1024)).toFixed(1)}MB`,
+      );
+    }
+  } finally {
+    db.close();
+  }
+}
+
+export function syncSessionHistoryCli(options?: {
+  json?: boolean;
+  directory?: string;
+}): void {
+  const dbPath = resolveDbPath();
+  ensureParentDir(dbPath);
+  const configPath = resolveSyncConfigPath(dbPath);
+  const directory = options?.directory
+    ? path.resolve(options.directory)
+    : loadSyncConfig(configPath).directory;
+  if (!directory) {
+    throw new Error(
+      `No sync directory configured; pass --dir <directory> or set "directory" in ${configPath}`,
+    );
+  }
+  const db = openEvidenceDatabase(dbPath);
+
+  try {
+    const report = syncSessionHistory(db, {
+      directory,
+      rules: loadIngestionRulesConfig(resolveIngestionRulesPath(dbPath)),
+      redactor: createRedactor(
+        loadRedactionConfig(resolveRedactionConfigPath(dbPath)),
+      ),
+    });
+    if (options?.json) {
+      printJson(report);
+      return;
+    }
+
+    console.log(`Synced ${report.directory} as machine ${report.machineId}`);
+    console.log(`Pushed: ${report.pushed}`);
+    console.log(
+      `Replayed from ${report.machines} machine(s): ${report.applied} applied | ${report.superseded} superseded | ${report.skipped} skipped`,
+    );
+    console.log(`Re-ingested sessions: ${report.reingestedSessions}`);
+  } finally {
+    db.close();
+  }
+}
+
 export function showSessionMessagesCli(
   id: string,
   options?: { json?: boolean; limit?: number; offset?: number },
 ): void {
   const dbPath = resolveDbPath();
   ensureParentDir(dbPath);
-  const db = new EvidenceDatabase(dbPath);
+  const db = openEvidenceDatabase(dbPath);
 
   try {
     if (!db.findSessionById(id)) {
@@ -939,7 +1329,7 @@ export function showSessionTrendsCli(
 ): void {
   const dbPath = resolveDbPath();
   ensureParentDir(dbPath);
-  const db = new EvidenceDatabase(dbPath);
+  const db = openEvidenceDatabase(dbPath);
 
   try {
     if (!db.findSessionById(id)) {
@@ -1011,7 +1401,7 @@ export function showSessionTimelineCli(
 ): void {
   const dbPath = resolveDbPath();
   ensureParentDir(dbPath);
-  const db = new EvidenceDatabase(dbPath);
+  const db = openEvidenceDatabase(dbPath);
 
   try {
     if (!db.findSessionById(id)) {
@@ -1083,7 +1473,7 @@ export function showSessionArtifactsCli(
 ): void {
   const dbPath = resolveDbPath();
   ensureParentDir(dbPath);
-  const db = new EvidenceDatabase(dbPath);
+  const db = openEvidenceDatabase(dbPath);
 
   try {
     if (!db.findSessionById(id)) {
@@ -1137,6 +1527,30 @@ export function showSessionArtifactsCli(
           lintRuleId: metadata.lintRuleId,
           testSuite: metadata.testSuite,
           testCase: metadata.testCase,
+          testId: metadata.testId,
+          durationMs: metadata.durationMs,
+          failureMessage: metadata.failureMessage,
+          diagnosticSource: metadata.diagnosticSource,
+          diagnosticFile: metadata.diagnosticFile,
+          diagnosticLine: metadata.diagnosticLine,
+          diagnosticSymbol: metadata.diagnosticSymbol,
+          topFrame: metadata.topFrame,
+          linter: metadata.linter,
+          errorCount: metadata.errorCount,
+          warningCount: metadata.warningCount,
+          lintRuleIds: metadata.lintRuleIds,
+          lintFiles: metadata.lintFiles,
+          buildTool: metadata.buildTool,
+          outputFiles: metadata.outputFiles,
+          dependencyVersions: metadata.dependencyVersions,
+          httpClient: metadata.httpClient,
+          httpMethod: metadata.httpMethod,
+          url: metadata.url,
+          host: metadata.host,
+          statusCode: metadata.statusCode,
+          migrationTool: metadata.migrationTool,
+          migrationAction: metadata.migrationAction,
+          migrationNames: metadata.migrationNames,
           issueKey: metadata.issueKey,
           issueLabel: metadata.issueLabel,
           issueFamilyKey: metadata.issueFamilyKey,
@@ -1170,7 +1584,7 @@ export function showSessionArtifactsCli(
       `Total: ${artifacts.length} shown, ${page.total} matching current filter, ${artifactSummary.total} overall`,
     );
     console.log(
-      `By type: file ${artifactSummary.byType.fileChange}, command ${artifactSummary.byType.commandOutput}, test ${artifactSummary.byType.testResult}, git ${artifactSummary.byType.gitCommit}`,
+      `By type: file ${artifactSummary.byType.fileChange}, command ${artifactSummary.byType.commandOutput}, test ${artifactSummary.byType.testResult}, lint ${artifactSummary.byType.lintResult}, build ${artifactSummary.byType.buildResult}, dependency ${artifactSummary.byType.dependencyChange}, http ${artifactSummary.byType.httpRequest}, migration ${artifactSummary.byType.migration}, git ${artifactSummary.byType.gitCommit}`,
     );
     console.log(
       `Page: offset ${page.offset}, limit ${page.limit}, returned ${page.returned}`,
@@ -1180,11 +1594,13 @@ export function showSessionArtifactsCli(
         artifact.failureSignatureLabel ??
         (artifact.testSuite
           ? `${artifact.testSuite}${artifact.testCase ? ` > ${artifact.testCase}` : ""}`
-          : artifact.dependencyNames.length > 0
-            ? `${artifact.dependencyAction ?? "deps"} ${artifact.dependencyNames.join(", ")}`
-            : artifact.changeScope
-              ? `${artifact.changeScope}${artifact.manifestKind ? ` ${artifact.manifestKind}` : ""}`
-              : null);
+          : artifact.httpMethod && artifact.url
+            ? `${artifact.httpMethod} ${artifact.url}${artifact.statusCode ? ` ${artifact.statusCode}` : ""}`
+            : artifact.dependencyNames.length > 0
+              ? `${artifact.dependencyAction ?? "deps"} ${artifact.dependencyNames.join(", ")}`
+              : artifact.changeScope
+                ? `${artifact.changeScope}${artifact.manifestKind ? ` ${artifact.manifestKind}` : ""}`
+                : null);
       console.log(
         `artifact#${index + 1} ${artifact.artifactType}${artifact.category ? ` ${artifact.category}` : ""}${artifact.status ? ` ${artifact.status}` : ""} ${artifact.summary}${artifact.path ? ` [${artifact.path}]` : ""}${detail ? ` | ${detail}` : ""}`,
       );
@@ -1208,7 +1624,7 @@ export function showSessionNarrativesCli(
 ): void {
   const dbPath = resolveDbPath();
   ensureParentDir(dbPath);
-  const db = new EvidenceDatabase(dbPath);
+  const db = openEvidenceDatabase(dbPath);
 
   try {
     if (!db.findSessionById(id)) {
@@ -1278,7 +1694,7 @@ export function showSessionDecisionsCli(
 ): void {
   const dbPath = resolveDbPath();
   ensureParentDir(dbPath);
-  const db = new EvidenceDatabase(dbPath);
+  const db = openEvidenceDatabase(dbPath);
 
   try {
     if (!db.findSessionById(id)) {
@@ -6,21 +6,51 @@ import * as fs from "node:fs";
 import { tmpdir } from "node:os";
 import * as path from "node:path";
 import { createInterface } from "node:readline/promises";
-import { getHostAdapter } from "../adapters/index.js";
+import {
+  findAdapterPlugin,
+  getHostAdapter,
+  resolveAdapterConfigPath,
+  type AdapterEventEnvelope,
+  type HostAdapter,
+} from "../adapters/index.js";
 import { resolveHostLaunchSpec } from "./launch-spec.js";
 import {
+  buildTranscriptFrames,
   controlEchoTokens,
   decodeTranscriptInputText,
   decodeTranscriptOutputText,
   parseUtilLinuxTranscript,
   parseScriptTranscript,
+  timeScriptTranscriptRecords,
+  timeUtilLinuxTranscriptRecords,
+  type TimedTranscriptRecord,
 } from "./pty-transcript.js";
+import {
+  detectTestReportFormat,
+  getTestReportOutputPaths,
+  isTestReportPath,
+  TEST_REPORT_MAX_BYTES,
+  type TestReportFormat,
+} from "../ingestion/test-reports.js";
 import { confirmContextLink } from "../lib/context-memory.js";
+import {
+  createRedactor,
+  loadRedactionConfig,
+  resolveRedactionConfigPath,
+} from "../lib/redaction.js";
 import { truncateSummary } from "../lib/session-history.js";
+import {
+  appendTimelineEvent,
+  findProjectRoot,
+  recordMessageAndEvent,
+  serializeJson,
+} from "../lib/session-recording.js";
+import { resolveGenericHostLabel } from "../lib/session-hosts.js";
 import {
   EvidenceDatabase,
+  resolveStorageKeySync,
+  type BuiltInSessionHost,
   type SessionHost,
-  type SessionMessageRole,
   type SessionStatus,
 } from "../lib/storage/index.js";
 import {
@@ -29,6 +59,13 @@ import {
   type PreparedContextSelection,
 } from "./context-flow.js";
 
+export {
+  appendTimelineEvent,
+  findProjectRoot,
+  recordMessageAndEvent,
+  serializeJson,
+} from "../lib/session-recording.js";
+
 export type LineWriter = (line: string) => void;
 export type PromptReader = ReturnType<typeof createInterface>;
 
@@ -54,20 +91,37 @@ export function ensureParentDir(filePath: string): void {
   fs.mkdirSync(path.dirname(filePath), { recursive: true });
 }
 
-export function findProjectRoot(startDir: string): string {
-  let current = path.resolve(startDir);
+/**
+ * Opens the evidence database and unlocks encrypted session history.
+ * Setting FOOTPRINT_ENCRYPT_SESSIONS=1 opts the database into encryption and
+ * seals existing rows; once enabled, every open needs FOOTPRINT_PASSPHRASE.
+ */
+export function openEvidenceDatabase(dbPath: string): EvidenceDatabase {
+  const db = new EvidenceDatabase(dbPath);
+  const enableEncryption = process.env.FOOTPRINT_ENCRYPT_SESSIONS === "1";
+  if (!enableEncryption && !db.isSessionHistoryEncrypted()) {
+    return db;
+  }
 
-  while (true) {
-    if (fs.existsSync(path.join(current, ".git"))) {
-      return current;
+  try {
+    const passphrase =
+      process.env.FOOTPRINT_PASSPHRASE || process.env.FOOTPRINT_PASSWORD || "";
+    if (!passphrase) {
+      throw new Error(
+        "FOOTPRINT_PASSPHRASE is required to access encrypted session history",
+      );
     }
 
-    const parent = path.dirname(current);
-    if (parent === current) {
-      return path.resolve(startDir);
+    const key = resolveStorageKeySync(db.getDb(), passphrase);
+    if (db.isSessionHistoryEncrypted()) {
+      db.unlockSessionHistory(key);
+    } else {
+      db.enableSessionHistoryEncryption(key);
     }
-
-    current = parent;
+    return db;
+  } catch (error) {
+    db.close();
+    throw error;
   }
 }
 
@@ -110,6 +164,92 @@ function buildPathFingerprint(targetPath: string): string | null {
   }
 }
 
+interface CapturedTestReport {
+  path: string;
+  format: TestReportFormat;
+  content: string;
+}
+
+/**
+ * Read test reports written during a session: changed report files from git
+ * status (untracked directories are searched a few levels deep) and the
+ * output files named on the command line, if they were written after the
+ * session started
+ */
+function collectTestReports(options: {
+  projectRoot: string;
+  cwd: string;
+  startedAt: string;
+  changedPaths: string[];
+  args: string[];
+}): CapturedTestReport[] {
+  const candidates = new Map<string, boolean>();
+  const addDirectory = (directory: string, depth: number): void => {
+    if (depth > 3) {
+      return;
+    }
+    try {
+      for (const entry of fs.readdirSync(directory, { withFileTypes: true })) {
+        const entryPath = path.join(directory, entry.name);
+        if (entry.isDirectory()) {
+          addDirectory(entryPath, depth + 1);
+        } else if (entry.isFile() && isTestReportPath(entry.name)) {
+          candidates.set(entryPath, false);
+        }
+      }
+    } catch {
+      // Directory vanished before the scan.
+    }
+  };
+
+  for (const changedPath of options.changedPaths) {
+    const absolutePath = path.join(options.projectRoot, changedPath);
+    if (changedPath.endsWith("/")) {
+      addDirectory(absolutePath, 0);
+    } else if (isTestReportPath(changedPath)) {
+      candidates.set(absolutePath, false);
+    }
+  }
+  for (const outputPath of getTestReportOutputPaths(options.args)) {
+    const absolutePath = path.resolve(options.cwd, outputPath);
+    if (!candidates.has(absolutePath)) {
+      candidates.set(absolutePath, true);
+    }
+  }
+
+  const startedAtMs = Date.parse(options.startedAt);
+  const reports: CapturedTestReport[] = [];
+  for (const [absolutePath, checkWrittenAt] of candidates) {
+    try {
+      const stats = fs.statSync(absolutePath);
+      if (
+        !stats.isFile() ||
+        stats.size > TEST_REPORT_MAX_BYTES ||
+        (checkWrittenAt && stats.mtimeMs < startedAtMs - 1000)
+      ) {
+        continue;
+      }
+
+      const content = fs.readFileSync(absolutePath, "utf8");
+      const format = detectTestReportFormat(content);
+      if (format) {
+        reports.push({
+          path: path
+            .relative(options.projectRoot, absolutePath)
+            .split(path.sep)
+            .join("/"),
+          format,
+          content,
+        });
+      }
+    } catch {
+      // Unreadable or already removed; nothing to capture.
+    }
+  }
+
+  return reports;
+}
+
 function parseDiffNameStatusLine(line: string): {
   statusCode: string;
   changedPath: string | null;
@@ -174,10 +314,6 @@ export function getGitSnapshot(projectRoot: string): GitSnapshot | null {
   }
 }
 
-export function serializeJson(value: unknown): string | null {
-  return value === undefined ? null : JSON.stringify(value);
-}
-
 export function createLineCapture(onLine: (line: string) => void): {
   write: (chunk: string) => void;
   flush: () => void;
@@ -205,28 +341,21 @@ export function createLineCapture(onLine: (line: string) => void): {
   };
 }
 
-interface PtyReplayRecord {
-  direction: "i" | "o";
-  payload: Buffer;
-}
-
 function readPtyReplayRecords(options: {
   transcriptFormat: "script-bsd" | "util-linux-advanced";
   transcriptPath?: string | null;
   inputPath?: string | null;
   outputPath?: string | null;
   timingPath?: string | null;
-}): PtyReplayRecord[] {
+}): TimedTranscriptRecord[] {
   if (options.transcriptFormat === "script-bsd") {
     if (!options.transcriptPath || !fs.existsSync(options.transcriptPath)) {
       return [];
     }
 
     const transcript = fs.readFileSync(options.transcriptPath);
-    return parseScriptTranscript(transcript).records.flatMap((record) =>
-      record.direction === "i" || record.direction === "o"
-        ? [{ direction: record.direction, payload: record.payload }]
-        : [],
+    return timeScriptTranscriptRecords(
+      parseScriptTranscript(transcript).records,
     );
   }
 
@@ -241,98 +370,16 @@ function readPtyReplayRecords(options: {
     return [];
   }
 
-  return parseUtilLinuxTranscript({
-    timing: fs.readFileSync(options.timingPath),
-    input: fs.readFileSync(options.inputPath),
-    output: fs.readFileSync(options.outputPath),
-  }).records.map((record) => ({
-    direction: record.direction,
-    payload: record.payload,
-  }));
+  return timeUtilLinuxTranscriptRecords(
+    parseUtilLinuxTranscript({
+      timing: fs.readFileSync(options.timingPath),
+      input: fs.readFileSync(options.inputPath),
+      output: fs.readFileSync(options.outputPath),
+    }).records,
+  );
 }
 
-export function recordMessageAndEvent(
-  db: EvidenceDatabase,
-  options: {
-    sessionId: string;
-    messageSeq: number;
-    eventSeq: number;
-    role: SessionMessageRole;
-    source: string;
-    content: string;
-    eventType: string;
-    eventStatus?: string | null;
-    payload?: Record<string, unknown>;
-  },
-): { messageSeq: number; eventSeq: number; messageId: string } {
-  const timestamp = new Date().toISOString();
-  const messageId = db.appendMessage({
-    sessionId: options.sessionId,
-    seq: options.messageSeq,
-    role: options.role,
-    source: options.source,
-    content: options.content,
-    capturedAt: timestamp,
-    metadata: serializeJson(options.payload),
-  });
-
-  db.appendTimelineEvent({
-    sessionId: options.sessionId,
-    seq: options.eventSeq,
-    eventType: options.eventType,
-    eventSubType: null,
-    source: options.source,
-    summary: truncateSummary(options.content),
-    payload: serializeJson(options.payload),
-    startedAt: timestamp,
-    endedAt: timestamp,
-    status: options.eventStatus ?? null,
-    relatedMessageId: messageId,
-  });
-
-  return {
-    messageSeq: options.messageSeq + 1,
-    eventSeq: options.eventSeq + 1,
-    messageId,
-  };
-}
-
-export function appendTimelineEvent(
-  db: EvidenceDatabase,
-  options: {
-    sessionId: string;
-    eventSeq: number;
-    eventType: string;
-    eventSubType?: string | null;
-    source: string;
-    summary?: string | null;
-    payload?: unknown;
-    startedAt?: string | null;
-    endedAt?: string | null;
-    status?: string | null;
-    relatedMessageId?: string | null;
-  },
-): number {
-  const now = new Date().toISOString();
-
-  db.appendTimelineEvent({
-    sessionId: options.sessionId,
-    seq: options.eventSeq,
-    eventType: options.eventType,
-    eventSubType: options.eventSubType ?? null,
-    source: options.source,
-    summary: options.summary ?? null,
-    payload: serializeJson(options.payload),
-    startedAt: options.startedAt ?? now,
-    endedAt: options.endedAt ?? options.startedAt ?? now,
-    status: options.status ?? null,
-    relatedMessageId: options.relatedMessageId ?? null,
-  });
-
-  return options.eventSeq + 1;
-}
-
-function getHostCommand(host: SessionHost): string {
+function getHostCommand(host: BuiltInSessionHost): string {
   switch (host) {
     case "claude":
       return process.env.FOOTPRINT_CLAUDE_COMMAND || "claude";
@@ -345,17 +392,22 @@ function getHostCommand(host: SessionHost): string {
 
 async function runRecordedSession(
   host: SessionHost,
+  command: string,
   commandArgs: string[],
   options?: RunContextOptions,
+  adapter: HostAdapter = getHostAdapter(host),
 ): Promise<number> {
   const dbPath = resolveDbPath();
   ensureParentDir(dbPath);
 
-  const db = new EvidenceDatabase(dbPath);
+  const redactionConfig = loadRedactionConfig(
+    resolveRedactionConfigPath(dbPath),
+  );
+  const redactor = createRedactor(redactionConfig);
+  const db = openEvidenceDatabase(dbPath);
   const cwd = process.cwd();
   const projectRoot = findProjectRoot(cwd);
   const startedAt = new Date().toISOString();
-  const command = getHostCommand(host);
   const supportsPtyTranscript =
     process.platform === "linux" ||
     process.platform === "darwin" ||
@@ -403,8 +455,7 @@ async function runRecordedSession(
   const suppressesPtyEcho =
     launchSpec.transport === "pty" &&
     launchSpec.ptyTranscriptFormat !== "util-linux-advanced";
-  const adapter = getHostAdapter(host);
-  const adapterName = adapter?.name ?? `${host}-adapter`;
+  const adapterName = adapter.name;
   const adapterContext = { host, cwd, args: commandArgs };
   const childEnv: NodeJS.ProcessEnv = {
     ...process.env,
@@ -415,6 +466,8 @@ async function runRecordedSession(
   let messageSeq = 1;
   let titleCaptured = false;
   let settled = false;
+  // While the PTY transcript is replayed, messages take the record's time.
+  let replayCapturedAt: string | undefined;
   const preparedContext = options?.prepareContext
     ? await preparePendingRunContextFlow(db, {
         cwd,
@@ -437,7 +490,7 @@ async function runRecordedSession(
     endedAt: null,
     metadata: serializeJson({
       command,
-      args: commandArgs,
+      args: redactor.redactValue(commandArgs).value,
       transport: launchSpec.transport,
       ptyDriver: launchSpec.ptyDriver,
       ptyTranscriptFormat: launchSpec.ptyTranscriptFormat,
@@ -445,6 +498,8 @@ async function runRecordedSession(
       fallbackReason: launchSpec.fallbackReason,
     }),
   });
+  // Lets the agent's MCP server write decisions and notes into this session.
+  childEnv.FOOTPRINT_SESSION_ID = sessionId;
 
   if (preparedContext) {
     let appliedContextId: string | null = null;
@@ -482,6 +537,7 @@ async function runRecordedSession(
 
     eventSeq = appendTimelineEvent(db, {
       sessionId,
+      redactor,
       eventSeq,
       eventType: "context.resolved",
       source: "wrapper",
@@ -505,6 +561,7 @@ async function runRecordedSession(
     if (appliedContextId) {
       eventSeq = appendTimelineEvent(db, {
         sessionId,
+        redactor,
         eventSeq,
         eventType: "context.updated",
         source: "wrapper",
@@ -523,6 +580,7 @@ async function runRecordedSession(
 
   eventSeq = appendTimelineEvent(db, {
     sessionId,
+    redactor,
     eventSeq,
     eventType: "session.start",
     source: "wrapper",
@@ -543,6 +601,7 @@ async function runRecordedSession(
   });
   eventSeq = appendTimelineEvent(db, {
     sessionId,
+    redactor,
     eventSeq,
     eventType: "command.started",
     eventSubType: host,
@@ -562,19 +621,43 @@ async function runRecordedSession(
     status: "running",
   });
 
-  for (const event of adapter?.onSessionStart?.(adapterContext) ?? []) {
+  const recordAdapterEvent = (event: AdapterEventEnvelope) => {
+    if (event.relatedMessageRole && event.content) {
+      const result = recordMessageAndEvent(db, {
+        sessionId,
+        redactor,
+        messageSeq,
+        eventSeq,
+        role: event.relatedMessageRole,
+        source: adapterName,
+        content: event.content,
+        eventType: event.eventType,
+        eventStatus: event.status,
+        payload: event.payload ?? undefined,
+        capturedAt: event.startedAt ?? replayCapturedAt,
+      });
+      messageSeq = result.messageSeq;
+      eventSeq = result.eventSeq;
+      return;
+    }
+
     eventSeq = appendTimelineEvent(db, {
       sessionId,
+      redactor,
       eventSeq,
       eventType: event.eventType,
       eventSubType: event.eventSubType,
       source: adapterName,
       summary: event.summary,
       payload: event.payload,
-      startedAt: event.startedAt,
+      startedAt: event.startedAt ?? replayCapturedAt,
       endedAt: event.endedAt,
       status: event.status,
     });
+  };
+
+  for (const event of adapter.onSessionStart?.(adapterContext) ?? []) {
+    recordAdapterEvent(event);
   }
 
   const child = spawn(launchSpec.command, launchSpec.args, {
@@ -596,13 +679,18 @@ async function runRecordedSession(
 
     settled = true;
     if (replaysPtyTranscript && launchSpec.ptyTranscriptFormat) {
-      for (const record of readPtyReplayRecords({
+      const records = readPtyReplayRecords({
         transcriptFormat: launchSpec.ptyTranscriptFormat,
         transcriptPath: ptyTranscriptPath,
         inputPath: ptyInputPath,
         outputPath: ptyOutputPath,
         timingPath: ptyTimingPath,
-      })) {
+      });
+      const startedAtMs = Date.parse(startedAt);
+      for (const record of records) {
+        replayCapturedAt = new Date(
+          startedAtMs + record.offsetMs,
+        ).toISOString();
         if (record.direction === "i") {
           if (suppressesPtyEcho) {
             for (const token of controlEchoTokens(record.payload)) {
@@ -624,6 +712,29 @@ async function runRecordedSession(
           }
         }
       }
+
+      stdinCapture.flush();
+      stdoutCapture.flush();
+      replayCapturedAt = undefined;
+
+      if (records.length > 0) {
+        // A separate redactor keeps private-key state from the message pass
+        // out of the raw frames.
+        const frameRedactor = createRedactor(redactionConfig);
+        const frames = buildTranscriptFrames(
+          records,
+          (text) => frameRedactor.redactText(text).value,
+        );
+        db.saveSessionRecording({
+          sessionId,
+          format: launchSpec.ptyTranscriptFormat,
+          startedAt,
+          durationMs: records.at(-1)?.offsetMs ?? 0,
+          columns: process.stdout.columns ?? null,
+          rows: process.stdout.rows ?? null,
+          frames,
+        });
+      }
     }
 
     stdinCapture.flush();
@@ -634,6 +745,7 @@ async function runRecordedSession(
     const afterGitSnapshot = getGitSnapshot(projectRoot);
     eventSeq = appendTimelineEvent(db, {
       sessionId,
+      redactor,
       eventSeq,
       eventType: "command.completed",
       eventSubType: host,
@@ -645,6 +757,7 @@ async function runRecordedSession(
       status,
     });
 
+    const writtenPaths: string[] = [];
     if (beforeGitSnapshot && afterGitSnapshot) {
       const changedPaths = new Set([
         ...beforeGitSnapshot.statusByPath.keys(),
@@ -671,6 +784,7 @@ async function runRecordedSession(
 
         eventSeq = appendTimelineEvent(db, {
           sessionId,
+          redactor,
           eventSeq,
           eventType: "file.changed",
           source: "wrapper",
@@ -687,6 +801,9 @@ async function runRecordedSession(
           status: afterStatus ?? "removed",
         });
         emittedFileChanges.add(changedPath);
+        if (afterStatus) {
+          writtenPaths.push(changedPath);
+        }
       }
 
       if (
@@ -722,6 +839,7 @@ async function runRecordedSession(
 
               eventSeq = appendTimelineEvent(db, {
                 sessionId,
+                redactor,
                 eventSeq,
                 eventType: "file.changed",
                 source: "wrapper",
@@ -749,6 +867,7 @@ async function runRecordedSession(
 
         eventSeq = appendTimelineEvent(db, {
           sessionId,
+          redactor,
           eventSeq,
           eventType: "git.commit",
           source: "wrapper",
@@ -764,26 +883,38 @@ async function runRecordedSession(
       }
     }
 
-    for (const event of adapter?.onSessionEnd?.(adapterContext, {
-      exitCode,
-      status,
-    }) ?? []) {
+    for (const report of collectTestReports({
+      projectRoot,
+      cwd,
+      startedAt,
+      changedPaths: writtenPaths,
+      args: commandArgs,
+    })) {
       eventSeq = appendTimelineEvent(db, {
         sessionId,
+        redactor,
         eventSeq,
-        eventType: event.eventType,
-        eventSubType: event.eventSubType,
-        source: adapterName,
-        summary: event.summary,
-        payload: event.payload,
-        startedAt: event.startedAt,
-        endedAt: event.endedAt,
-        status: event.status,
+        eventType: "test.report",
+        eventSubType: report.format,
+        source: "wrapper",
+        summary: `${report.format} report ${report.path}`,
+        payload: { ...report, command, args: commandArgs },
+        startedAt: endedAt,
+        endedAt,
+        status: "captured",
       });
     }
 
+    for (const event of adapter.onSessionEnd?.(adapterContext, {
+      exitCode,
+      status,
+    }) ?? []) {
+      recordAdapterEvent(event);
+    }
+
     eventSeq = appendTimelineEvent(db, {
       sessionId,
+      redactor,
       eventSeq,
       eventType: "session.end",
       source: "wrapper",
@@ -811,6 +942,7 @@ async function runRecordedSession(
   const stdinCapture = createLineCapture((line) => {
     const result = recordMessageAndEvent(db, {
       sessionId,
+      redactor,
       messageSeq,
       eventSeq,
       role: "user",
@@ -819,6 +951,7 @@ async function runRecordedSession(
       eventType: "message.user.submitted",
       eventStatus: "captured",
       payload: { stream: "stdin" },
+      capturedAt: replayCapturedAt,
     });
     messageSeq = result.messageSeq;
     eventSeq = result.eventSeq;
@@ -826,8 +959,8 @@ async function runRecordedSession(
       pendingEchoLines.push(line);
     }
 
-    if (!titleCaptured && line.trim()) {
-      db.updateSessionTitle(sessionId, truncateSummary(line.trim()));
+    if (!titleCaptured && result.content.trim()) {
+      db.updateSessionTitle(sessionId, truncateSummary(result.content.trim()));
       titleCaptured = true;
     }
   });
@@ -838,21 +971,10 @@ async function runRecordedSession(
       return;
     }
 
-    const adapterResult = adapter?.parseLine(line, "stdout", adapterContext);
+    const adapterResult = adapter.parseLine(line, "stdout", adapterContext);
     if (adapterResult?.events?.length) {
       for (const event of adapterResult.events) {
-        eventSeq = appendTimelineEvent(db, {
-          sessionId,
-          eventSeq,
-          eventType: event.eventType,
-          eventSubType: event.eventSubType,
-          source: adapterName,
-          summary: event.summary,
-          payload: event.payload,
-          startedAt: event.startedAt,
-          endedAt: event.endedAt,
-          status: event.status,
-        });
+        recordAdapterEvent(event);
       }
     }
 
@@ -862,6 +984,7 @@ async function runRecordedSession(
 
     const result = recordMessageAndEvent(db, {
       sessionId,
+      redactor,
       messageSeq,
       eventSeq,
       role: "assistant",
@@ -870,27 +993,17 @@ async function runRecordedSession(
       eventType: "message.assistant.completed",
       eventStatus: "captured",
       payload: { stream: "stdout" },
+      capturedAt: replayCapturedAt,
     });
     messageSeq = result.messageSeq;
     eventSeq = result.eventSeq;
   });
 
   const stderrCapture = createLineCapture((line) => {
-    const adapterResult = adapter?.parseLine(line, "stderr", adapterContext);
+    const adapterResult = adapter.parseLine(line, "stderr", adapterContext);
     if (adapterResult?.events?.length) {
       for (const event of adapterResult.events) {
-        eventSeq = appendTimelineEvent(db, {
-          sessionId,
-          eventSeq,
-          eventType: event.eventType,
-          eventSubType: event.eventSubType,
-          source: adapterName,
-          summary: event.summary,
-          payload: event.payload,
-          startedAt: event.startedAt,
-          endedAt: event.endedAt,
-          status: event.status,
-        });
+        recordAdapterEvent(event);
       }
     }
 
@@ -900,6 +1013,7 @@ async function runRecordedSession(
 
     const result = recordMessageAndEvent(db, {
       sessionId,
+      redactor,
       messageSeq,
       eventSeq,
       role: "system",
@@ -1004,19 +1118,88 @@ export async function runClaudeSession(
   commandArgs: string[],
   options?: RunContextOptions,
 ): Promise<number> {
-  return runRecordedSession("claude", commandArgs, options);
+  return runRecordedSession(
+    "claude",
+    getHostCommand("claude"),
+    commandArgs,
+    options,
+  );
 }
 
 export async function runGeminiSession(
   commandArgs: string[],
   options?: RunContextOptions,
 ): Promise<number> {
-  return runRecordedSession("gemini", commandArgs, options);
+  return runRecordedSession(
+    "gemini",
+    getHostCommand("gemini"),
+    commandArgs,
+    options,
+  );
 }
 
 export async function runCodexSession(
   commandArgs: string[],
   options?: RunContextOptions,
 ): Promise<number> {
-  return runRecordedSession("codex", commandArgs, options);
+  return runRecordedSession(
+    "codex",
+    getHostCommand("codex"),
+    commandArgs,
+    options,
+  );
+}
+
+/**
+ * Records any command (aider, a shell, a CI reproduction script) with the
+ * same transcript, git snapshot, and ingestion pipeline as the AI hosts.
+ * @param commandLine - Command followed by its arguments
+ * @param options - `label` overrides the host label derived from the command
+ */
+export async function runGenericSession(
+  commandLine: string[],
+  options?: RunContextOptions & { label?: string },
+): Promise<number> {
+  const [command, ...commandArgs] = commandLine;
+  if (!command) {
+    throw new Error(
+      'Usage: "footprint run [--label <label>] -- <command> [args...]"',
+    );
+  }
+
+  return runRecordedSession(
+    resolveGenericHostLabel(command, options?.label),
+    command,
+    commandArgs,
+    options,
+  );
+}
+
+/**
+ * Records a session for an adapter plugin declared in adapters.json. The
+ * plugin name is the session host and its adapter parses the output.
+ * @param name - Plugin name given to `footprint run <name>`
+ * @param commandArgs - Arguments appended after the plugin's configured args
+ * @throws Error if no plugin with that name is configured
+ */
+export async function runPluginSession(
+  name: string,
+  commandArgs: string[],
+  options?: RunContextOptions,
+): Promise<number> {
+  const configPath = resolveAdapterConfigPath(resolveDbPath());
+  const plugin = await findAdapterPlugin(configPath, name);
+  if (!plugin) {
+    throw new Error(
+      `Unsupported host "${name}". Supported hosts: claude, gemini, codex, or an adapter declared in ${configPath}. Record any other command with "footprint run [--label <label>] -- <command> [args...]".`,
+    );
+  }
+
+  return runRecordedSession(
+    plugin.name,
+    plugin.command,
+    [...plugin.args, ...commandArgs],
+    options,
+    plugin.adapter,
+  );
 }
@@ -0,0 +1,310 @@
+/* global process */
+
+import type {
+  SessionRecording,
+  TimelineEventRecord,
+} from "../lib/storage/index.js";
+import {
+  buildRecordingMarkers,
+  type RecordingMarker,
+} from "../lib/terminal-recording.js";
+import {
+  ensureParentDir,
+  openEvidenceDatabase,
+  resolveDbPath,
+} from "./session-execution.js";
+
+export type ReplaySpeed = "1x" | "2x" | "max";
+
+export interface SessionReplay {
+  /** Plays until the end of the recording or until stopped */
+  play(): Promise<void>;
+  /** @returns Whether playback is now paused */
+  togglePause(): boolean;
+  /** Redraws the terminal as it was at the offset and continues from there */
+  seek(offsetMs: number): void;
+  nextEvent(): RecordingMarker | null;
+  previousEvent(): RecordingMarker | null;
+  nextFailure(): RecordingMarker | null;
+  setSpeed(speed: ReplaySpeed): void;
+  stop(): void;
+  readonly positionMs: number;
+}
+
+const SPEED_FACTORS: Record<ReplaySpeed, number> = {
+  "1x": 1,
+  "2x": 2,
+  max: Number.POSITIVE_INFINITY,
+};
+
+const CLEAR_SCREEN = "\u001b[0m\u001b[H\u001b[2J";
+
+/**
+ * Create a player for a recording. Only terminal output is written; typed
+ * input already reaches the output stream through the PTY echo.
+ *
+ * @param options.write - Receives raw terminal output
+ * @param options.now - Clock used to account for interrupted waits
+ */
+export function createSessionReplay(options: {
+  recording: SessionRecording;
+  markers?: RecordingMarker[];
+  write: (data: string) => void;
+  speed?: ReplaySpeed;
+  now?: () => number;
+}): SessionReplay {
+  const frames = options.recording.frames.filter(
+    (frame) => frame.direction === "o",
+  );
+  const markers = options.markers ?? [];
+  const now = options.now ?? (() => Date.now());
+  let speed = options.speed ?? "1x";
+  let index = 0;
+  let positionMs = 0;
+  let paused = false;
+  let stopped = false;
+  let wake: (() => void) | null = null;
+
+  const interrupt = () => {
+    const current = wake;
+    wake = null;
+    current?.();
+  };
+
+  // Resolves true when the full delay elapsed, false when interrupted.
+  const wait = (delayMs: number | null): Promise<boolean> =>
+    new Promise((resolve) => {
+      const timer =
+        delayMs === null
+          ? null
+          : setTimeout(() => {
+              wake = null;
+              resolve(true);
+            }, delayMs);
+      wake = () => {
+        if (timer) clearTimeout(timer);
+        resolve(false);
+      };
+    });
+
+  const seek = (offsetMs: number) => {
+    const target = Math.min(
+      options.recording.durationMs,
+      Math.max(0, offsetMs),
+    );
+    let nextIndex = 0;
+    let screen = "";
+    while (
+      nextIndex < frames.length &&
+      (frames[nextIndex]?.offsetMs ?? 0) <= target
+    ) {
+      screen += frames[nextIndex]?.data ?? "";
+      nextIndex += 1;
+    }
+
+    options.write(`${CLEAR_SCREEN}${screen}`);
+    index = nextIndex;
+    positionMs = target;
+    interrupt();
+  };
+
+  const jumpTo = (
+    marker: RecordingMarker | undefined,
+  ): RecordingMarker | null => {
+    if (!marker) {
+      return null;
+    }
+
+    seek(marker.offsetMs);
+    return marker;
+  };
+
+  return {
+    async play() {
+      while (!stopped && index < frames.length) {
+        if (paused) {
+          await wait(null);
+          continue;
+        }
+
+        const frame = frames[index];
+        if (!frame) break;
+        const factor = SPEED_FACTORS[speed];
+        const delayMs = (frame.offsetMs - positionMs) / factor;
+        if (delayMs >= 1) {
+          const waitStartedAt = now();
+          const frameIndex = index;
+          if (!(await wait(delayMs))) {
+            // Keep the progress made before a pause or speed change.
+            if (index === frameIndex) {
+              positionMs = Math.min(
+                frame.offsetMs,
+                positionMs + (now() - waitStartedAt) * factor,
+              );
+            }
+            continue;
+          }
+        }
+
+        options.write(frame.data);
+        positionMs = Math.max(positionMs, frame.offsetMs);
+        index += 1;
+      }
+    },
+    togglePause() {
+      paused = !paused;
+      interrupt();
+      return paused;
+    },
+    seek,
+    nextEvent() {
+      return jumpTo(markers.find((marker) => marker.offsetMs > positionMs));
+    },
+    previousEvent() {
+      return jumpTo(
+        markers.filter((marker) => marker.offsetMs < positionMs).at(-1),
+      );
+    },
+    nextFailure() {
+      return jumpTo(
+        markers.find((marker) => marker.failed && marker.offsetMs > positionMs),
+      );
+    },
+    setSpeed(nextSpeed) {
+      speed = nextSpeed;
+      interrupt();
+    },
+    stop() {
+      stopped = true;
+      interrupt();
+    },
+    get positionMs() {
+      return positionMs;
+    },
+  };
+}
+
+/**
+ * Play a session's PTY recording in the terminal. When stdin is a TTY the
+ * player takes single-key commands; otherwise it plays straight through.
+ */
+export async function replaySessionCli(
+  id: string,
+  options?: {
+    speed?: ReplaySpeed;
+    eventSeq?: number;
+    nextFailure?: boolean;
+  },
+): Promise<void> {
+  const dbPath = resolveDbPath();
+  ensureParentDir(dbPath);
+  const db = openEvidenceDatabase(dbPath);
+
+  let recording: SessionRecording | null;
+  let timeline: TimelineEventRecord[];
+  try {
+    if (!db.findSessionById(id)) {
+      throw new Error(`Session not found: ${id}`);
+    }
+
+    recording = db.getSessionRecording(id);
+    timeline = db.getSessionTimeline(id);
+  } finally {
+    db.close();
+  }
+
+  if (!recording) {
+    throw new Error(
+      `Session has no terminal recording: ${id}. Only sessions recorded through a PTY can be replayed.`,
+    );
+  }
+
+  const markers = buildRecordingMarkers(recording, timeline);
+  let startMarker: RecordingMarker | undefined;
+  if (options?.eventSeq !== undefined) {
+    startMarker = markers.find((marker) => marker.seq === options.eventSeq);
+    if (!startMarker) {
+      throw new Error(`Timeline event not found: ${options.eventSeq}`);
+    }
+  } else if (options?.nextFailure) {
+    startMarker = markers.find((marker) => marker.failed);
+    if (!startMarker) {
+      throw new Error(`Session has no failed commands: ${id}`);
+    }
+  }
+
+  const replay = createSessionReplay({
+    recording,
+    markers,
+    speed: options?.speed,
+    write: (data) => {
+      process.stdout.write(data);
+    },
+  });
+  if (startMarker) {
+    replay.seek(startMarker.offsetMs);
+  }
+
+  const stdin = process.stdin;
+  const interactive = Boolean(stdin.isTTY && process.stdout.isTTY);
+  const onKey = (chunk: Buffer | string) => {
+    const key = typeof chunk === "string" ? chunk : chunk.toString("utf8");
+    switch (key) {
+      case " ":
+        replay.togglePause();
+        break;
+      case "]":
+        replay.nextEvent();
+        break;
+      case "[":
+        replay.previousEvent();
+        break;
+      case "n":
+        replay.nextFailure();
+        break;
+      case "1":
+        replay.setSpeed("1x");
+        break;
+      case "2":
+        replay.setSpeed("2x");
+        break;
+      case "m":
+        replay.setSpeed("max");
+        break;
+      case "q":
+      case "\u0003":
+        replay.stop();
+        break;
+    }
+  };
+
+  if (interactive) {
+    if (
+      recording.columns &&
+      recording.rows &&
+      (recording.columns !== process.stdout.columns ||
+        recording.rows !== process.stdout.rows)
+    ) {
+      process.stderr.write(
+        `Recorded at ${recording.columns}x${recording.rows}; resize the terminal to match for a faithful replay.\n`,
+      );
+    }
+    process.stderr.write(
+      "space pause · ] next event · [ previous event · n next failed command · 1/2/m speed · q quit\n",
+    );
+    stdin.setRawMode(true);
+    stdin.on("data", onKey);
+    stdin.resume();
+  }
+
+  try {
+    await replay.play();
+  } finally {
+    if (interactive) {
+      stdin.off("data", onKey);
+      stdin.setRawMode(false);
+      stdin.pause();
+      process.stdout.write("\u001b[0m\n");
+    }
+  }
+}
@@ -4,18 +4,27 @@
 //   - session-display.ts    (session data display & formatting)
 //   - context-flow.ts       (context resolution & management)
 //   - history-display.ts    (history search & trends display)
+//   - session-replay.ts     (terminal replay of PTY recordings)
 
 export {
   runClaudeSession,
   runGeminiSession,
   runCodexSession,
+  runGenericSession,
+  runPluginSession,
 } from "./session-execution.js";
 
 export {
   listSessionsCli,
   showSessionCli,
   exportSessionsCli,
+  exportSessionCastCli,
+  captureSessionEvidenceCli,
   ingestSessionCli,
+  ingestAllSessionsCli,
+  importSessionLogsCli,
+  collectGarbageCli,
+  syncSessionHistoryCli,
   showSessionMessagesCli,
   showSessionTrendsCli,
   showSessionTimelineCli,
@@ -42,3 +51,5 @@ export {
   showHistoryTrendsCli,
   showHistoryHandoffCli,
 } from "./history-display.js";
+
+export { replaySessionCli } from "./session-replay.js";
@@ -20,6 +20,11 @@ import {
   removeFootprintFromRc,
 } from "./utils/env.js";
 import { DEFAULT_DATA_DIR } from "./constants.js";
+import {
+  EvidenceDatabase,
+  ensureSigningIdentity,
+  resolveStorageKeySync,
+} from "../lib/storage/index.js";
 import type { SetupConfig } from "./types.js";
 import * as fs from "fs";
 
@@ -272,6 +277,38 @@ async function createDataDirectory(dataDir: string): Promise<void> {
   }
 }
 
+/**
+ * Generate the local Ed25519 signing identity next to the master salt
+ */
+async function createSigningIdentity(config: SetupConfig): Promise<void> {
+  const spinner = ora("Generating signing identity...").start();
+  const dbPath = path.join(
+    validatePath(config.dataDir).normalizedPath!,
+    "footprint.db",
+  );
+  let db: EvidenceDatabase | null = null;
+
+  try {
+    db = new EvidenceDatabase(dbPath);
+    const identity = ensureSigningIdentity(
+      db.getDb(),
+      resolveStorageKeySync(db.getDb(), config.passphrase),
+    );
+    spinner.succeed(
+      chalk.green(`Signing identity ready (key ${identity.keyId})`),
+    );
+  } catch (error: unknown) {
+    spinner.fail(
+      chalk.red(
+        `Failed to generate signing identity: ${getErrorMessage(error)}`,
+      ),
+    );
+    throw error;
+  } finally {
+    db?.close();
+  }
+}
+
 /**
  * Print manual configuration instructions when Claude Desktop not found
  */
@@ -436,6 +473,8 @@ export async function runSetup(): Promise<void> {
       rollbackActions.push(createDirectoryRollback(normalized));
     }
 
+    await createSigningIdentity(config);
+
     // Configure Claude Desktop if requested (tracked for rollback)
     if (config.autoConfig && system.claudeConfigPath) {
       await configureClaudeDesktop(system.claudeConfigPath, config);
@@ -0,0 +1,113 @@
+import * as path from "node:path";
+import { createClaudeStreamAdapter } from "../adapters/claude.js";
+import type { AdapterEventEnvelope } from "../adapters/index.js";
+import type { ParsedSessionLog, SessionLogImporter } from "./types.js";
+
+const COMMAND_MARKUP_PATTERN =
+  /^\s*<(?:command-name|command-message|command-args|local-command-stdout)>/;
+
+function getString(value: unknown): string | null {
+  return typeof value === "string" && value.length > 0 ? value : null;
+}
+
+/**
+ * Imports Claude Code project logs (`~/.claude/projects/<project>/<id>.jsonl`).
+ * Log lines share the stream-json message shape, so they are replayed through
+ * the Claude adapter with the log timestamps as the clock.
+ */
+export const claudeImporter: SessionLogImporter = {
+  host: "claude",
+  defaultRoots(env, homeDir) {
+    return [
+      path.join(
+        env.CLAUDE_CONFIG_DIR || path.join(homeDir, ".claude"),
+        "projects",
+      ),
+    ];
+  },
+  matches(filePath) {
+    return filePath.endsWith(".jsonl");
+  },
+  parse(content, file): ParsedSessionLog | null {
+    let currentTimestamp = file.modifiedAt;
+    const adapter = createClaudeStreamAdapter({ now: () => currentTimestamp });
+    const entries: AdapterEventEnvelope[] = [];
+    let hostSessionId: string | null = null;
+    let cwd: string | null = null;
+    let summaryTitle: string | null = null;
+    let firstTimestamp: string | null = null;
+    let lastTimestamp: string | null = null;
+    let version: string | null = null;
+    let gitBranch: string | null = null;
+
+    for (const rawLine of content.split(/\r?\n/)) {
+      if (!rawLine.trim()) {
+        continue;
+      }
+
+      let line: Record<string, unknown>;
+      try {
+        line = JSON.parse(rawLine) as Record<string, unknown>;
+      } catch {
+        continue;
+      }
+      if (!line || typeof line !== "object") {
+        continue;
+      }
+
+      if (line.type === "summary") {
+        summaryTitle ??= getString(line.summary);
+        continue;
+      }
+      if (line.type !== "user" && line.type !== "assistant") {
+        continue;
+      }
+
+      hostSessionId ??= getString(line.sessionId);
+      cwd ??= getString(line.cwd);
+      version ??= getString(line.version);
+      gitBranch ??= getString(line.gitBranch);
+      currentTimestamp = getString(line.timestamp) ?? currentTimestamp;
+      firstTimestamp ??= currentTimestamp;
+      lastTimestamp = currentTimestamp;
+
+      if (line.isMeta === true) {
+        continue;
+      }
+
+      const result = adapter.parseLine(rawLine, "stdout", {
+        host: "claude",
+        cwd: cwd ?? "",
+        args: [],
+      });
+      for (const envelope of result?.events ?? []) {
+        if (
+          envelope.relatedMessageRole === "user" &&
+          COMMAND_MARKUP_PATTERN.test(envelope.content ?? "")
+        ) {
+          continue;
+        }
+
+        entries.push({
+          ...envelope,
+          startedAt: envelope.startedAt ?? currentTimestamp,
+          endedAt: envelope.endedAt ?? envelope.startedAt ?? currentTimestamp,
+        });
+      }
+    }
+
+    if (entries.length === 0 || !firstTimestamp || !lastTimestamp) {
+      return null;
+    }
+
+    return {
+      hostSessionId,
+      cwd,
+      title: summaryTitle,
+      startedAt: firstTimestamp,
+      endedAt: lastTimestamp,
+      metadata: { version, gitBranch },
+      entries,
+    };
+  },
+};
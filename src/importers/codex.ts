@@ -0,0 +1,359 @@
+import * as path from "node:path";
+import type { AdapterEventEnvelope } from "../adapters/index.js";
+import type { ParsedSessionLog, SessionLogImporter } from "./types.js";
+
+const MAX_TOOL_OUTPUT_LENGTH = 4000;
+const SHELL_TOOLS = new Set([
+  "shell",
+  "container.exec",
+  "shell_command",
+  "exec_command",
+  "local_shell",
+]);
+const INJECTED_CONTEXT_PATTERN =
+  /^\s*<(?:environment_context|user_instructions|user_shell_command)>/;
+const PATCH_FILE_PATTERN = /^\*\*\* (Add|Update|Delete) File: (.+)$/gm;
+
+interface PendingCall {
+  name: string;
+  command: string | null;
+  patch: string | null;
+  startedAt: string;
+}
+
+function getString(value: unknown): string | null {
+  return typeof value === "string" && value.length > 0 ? value : null;
+}
+
+function getRecord(value: unknown): Record<string, unknown> {
+  return value && typeof value === "object" && !Array.isArray(value)
+    ? (value as Record<string, unknown>)
+    : {};
+}
+
+function truncate(value: string, maxLength: number): string {
+  return value.length > maxLength
+    ? `${value.slice(0, maxLength - 3)}...`
+    : value;
+}
+
+function parseArguments(value: unknown): Record<string, unknown> {
+  if (typeof value !== "string") {
+    return getRecord(value);
+  }
+
+  try {
+    return getRecord(JSON.parse(value));
+  } catch {
+    return { input: value };
+  }
+}
+
+function messageText(content: unknown): string {
+  if (typeof content === "string") {
+    return content;
+  }
+  if (!Array.isArray(content)) {
+    return "";
+  }
+
+  return content
+    .map((part) => getString(getRecord(part).text) ?? "")
+    .filter(Boolean)
+    .join("\n");
+}
+
+function shellCommand(args: Record<string, unknown>): string | null {
+  const command = args.command ?? args.cmd;
+  if (typeof command === "string") {
+    return command;
+  }
+  if (!Array.isArray(command)) {
+    return null;
+  }
+
+  const parts = command.filter(
+    (part): part is string => typeof part === "string",
+  );
+  // Codex wraps most commands as ["bash", "-lc", "<script>"].
+  if (parts.length === 3 && /^-\w*c$/.test(parts[1] ?? "")) {
+    return parts[2] ?? null;
+  }
+  return parts.length > 0 ? parts.join(" ") : null;
+}
+
+function parseToolOutput(value: unknown): {
+  output: string;
+  exitCode: number | null;
+} {
+  const raw =
+    typeof value === "string" ? value : messageText(getRecord(value).content);
+  try {
+    const parsed = getRecord(JSON.parse(raw));
+    const metadata = getRecord(parsed.metadata);
+    if (typeof parsed.output === "string") {
+      return {
+        output: parsed.output,
+        exitCode:
+          typeof metadata.exit_code === "number" ? metadata.exit_code : null,
+      };
+    }
+  } catch {
+    // Newer rollouts store plain text output.
+  }
+
+  const exitCodeMatch = raw.match(
+    /^(?:Exit code:?|Process exited with code) (\d+)/m,
+  );
+  return {
+    output: raw,
+    exitCode: exitCodeMatch ? Number(exitCodeMatch[1]) : null,
+  };
+}
+
+/**
+ * Imports Codex CLI rollouts (`~/.codex/sessions/YYYY/MM/DD/rollout-*.jsonl`).
+ * Handles both the wrapped `{ type, payload }` line format and the older
+ * format where response items are written directly.
+ */
+export const codexImporter: SessionLogImporter = {
+  host: "codex",
+  defaultRoots(env, homeDir) {
+    return [
+      path.join(env.CODEX_HOME || path.join(homeDir, ".codex"), "sessions"),
+    ];
+  },
+  matches(filePath) {
+    return /^rollout-.*\.jsonl$/.test(path.basename(filePath));
+  },
+  parse(content, file): ParsedSessionLog | null {
+    const entries: AdapterEventEnvelope[] = [];
+    const pendingCalls = new Map<string, PendingCall>();
+    let hostSessionId: string | null = null;
+    let cwd: string | null = null;
+    let model: string | null = null;
+    let cliVersion: string | null = null;
+    let tokenUsage: Record<string, unknown> | null = null;
+    let firstTimestamp: string | null = null;
+    let lastTimestamp = file.modifiedAt;
+
+    const pushCallResult = (
+      callId: string | null,
+      rawOutput: unknown,
+      timestamp: string,
+    ) => {
+      const pending = callId ? pendingCalls.get(callId) : undefined;
+      if (!pending) {
+        return;
+      }
+      pendingCalls.delete(callId as string);
+
+      const { output, exitCode } = parseToolOutput(rawOutput);
+      const failed = exitCode !== null ? exitCode !== 0 : false;
+      const status = failed ? "failed" : "completed";
+      const truncatedOutput = truncate(output, MAX_TOOL_OUTPUT_LENGTH);
+      entries.push({
+        eventType: failed ? "tool.failed" : "tool.completed",
+        eventSubType: pending.name,
+        summary: `${pending.name} ${status}`,
+        payload: { callId, name: pending.name, output: truncatedOutput },
+        startedAt: pending.startedAt,
+        endedAt: timestamp,
+        status,
+      });
+
+      if (pending.command) {
+        entries.push({
+          eventType: "command.completed",
+          eventSubType: "codex",
+          summary: truncate(pending.command, 200),
+          payload: {
+            command: pending.command,
+            exitCode: exitCode ?? 0,
+            output: truncatedOutput,
+            callId,
+          },
+          startedAt: pending.startedAt,
+          endedAt: timestamp,
+          status,
+        });
+      }
+
+      if (pending.patch && !failed) {
+        for (const match of pending.patch.matchAll(PATCH_FILE_PATTERN)) {
+          const [, action, filePath] = match;
+          entries.push({
+            eventType: "file.changed",
+            summary: `${filePath.trim()} changed`,
+            payload: { path: filePath.trim(), tool: "apply_patch", callId },
+            startedAt: pending.startedAt,
+            endedAt: timestamp,
+            status:
+              action === "Add"
+                ? "added"
+                : action === "Delete"
+                  ? "deleted"
+                  : "edited",
+          });
+        }
+      }
+    };
+
+    for (const rawLine of content.split(/\r?\n/)) {
+      if (!rawLine.trim()) {
+        continue;
+      }
+
+      let line: Record<string, unknown>;
+      try {
+        line = getRecord(JSON.parse(rawLine));
+      } catch {
+        continue;
+      }
+
+      const timestamp = getString(line.timestamp) ?? lastTimestamp;
+      const wrapped = "payload" in line && typeof line.type === "string";
+      const lineType = wrapped ? line.type : null;
+      const item = wrapped ? getRecord(line.payload) : line;
+
+      if (lineType === "session_meta" || (!wrapped && "instructions" in line)) {
+        hostSessionId ??= getString(item.id);
+        cwd ??= getString(item.cwd);
+        cliVersion ??= getString(item.cli_version);
+        firstTimestamp ??= getString(item.timestamp) ?? timestamp;
+        continue;
+      }
+      if (lineType === "turn_context") {
+        cwd ??= getString(item.cwd);
+        model ??= getString(item.model);
+        continue;
+      }
+      if (lineType === "event_msg") {
+        if (item.type === "token_count") {
+          const info = getRecord(item.info);
+          const total = getRecord(info.total_token_usage);
+          if (Object.keys(total).length > 0) {
+            tokenUsage = total;
+          }
+        }
+        continue;
+      }
+      if (wrapped && lineType !== "response_item") {
+        continue;
+      }
+
+      firstTimestamp ??= timestamp;
+      lastTimestamp = timestamp;
+
+      switch (item.type) {
+        case "message": {
+          const text = messageText(item.content);
+          if (!text.trim() || INJECTED_CONTEXT_PATTERN.test(text)) {
+            break;
+          }
+          if (item.role === "user") {
+            entries.push({
+              eventType: "message.user.submitted",
+              relatedMessageRole: "user",
+              content: text,
+              payload: { role: "user" },
+              startedAt: timestamp,
+              endedAt: timestamp,
+              status: "captured",
+            });
+          } else if (item.role === "assistant") {
+            entries.push({
+              eventType: "message.assistant.completed",
+              relatedMessageRole: "assistant",
+              content: text,
+              payload: { role: "assistant" },
+              startedAt: timestamp,
+              endedAt: timestamp,
+              status: "captured",
+            });
+          }
+          break;
+        }
+        case "function_call":
+        case "custom_tool_call":
+        case "local_shell_call": {
+          const callId = getString(item.call_id) ?? getString(item.id);
+          const name =
+            getString(item.name) ??
+            (item.type === "local_shell_call" ? "local_shell" : "unknown");
+          const args =
+            item.type === "local_shell_call"
+              ? getRecord(item.action)
+              : parseArguments(item.arguments ?? item.input);
+          const command = SHELL_TOOLS.has(name) ? shellCommand(args) : null;
+          const patch =
+            name === "apply_patch"
+              ? (getString(args.input) ?? getString(args.patch))
+              : null;
+
+          if (callId) {
+            pendingCalls.set(callId, {
+              name,
+              command,
+              patch,
+              startedAt: timestamp,
+            });
+          }
+          entries.push({
+            eventType: "tool.started",
+            eventSubType: name,
+            summary: command
+              ? `${name}: ${truncate(command, 120)}`
+              : `${name} started`,
+            payload: { callId, name, arguments: args },
+            startedAt: timestamp,
+            endedAt: timestamp,
+            status: "running",
+          });
+          if (command) {
+            entries.push({
+              eventType: "command.started",
+              eventSubType: "codex",
+              summary: truncate(command, 200),
+              payload: { command, callId },
+              startedAt: timestamp,
+              endedAt: timestamp,
+              status: "running",
+            });
+          }
+          break;
+        }
+        case "function_call_output":
+        case "custom_tool_call_output":
+          pushCallResult(getString(item.call_id), item.output, timestamp);
+          break;
+      }
+    }
+
+    if (!entries.some((entry) => entry.relatedMessageRole) || !firstTimestamp) {
+      return null;
+    }
+
+    if (tokenUsage) {
+      entries.push({
+        eventType: "session.host.result",
+        eventSubType: "codex",
+        summary: "Codex session usage",
+        payload: { hostSessionId, usage: tokenUsage },
+        startedAt: lastTimestamp,
+        endedAt: lastTimestamp,
+        status: "completed",
+      });
+    }
+
+    return {
+      hostSessionId,
+      cwd,
+      title: null,
+      startedAt: firstTimestamp,
+      endedAt: lastTimestamp,
+      metadata: { model, cliVersion },
+      entries,
+    };
+  },
+};
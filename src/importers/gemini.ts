@@ -0,0 +1,368 @@
+import * as path from "node:path";
+import type { AdapterEventEnvelope } from "../adapters/index.js";
+import type { ParsedSessionLog, SessionLogImporter } from "./types.js";
+
+const MAX_TOOL_OUTPUT_LENGTH = 4000;
+const SHELL_TOOLS = new Set(["run_shell_command", "shell"]);
+const FILE_TOOLS = new Set(["write_file", "replace", "edit"]);
+
+interface ToolCall {
+  id: string | null;
+  name: string;
+  args: Record<string, unknown>;
+}
+
+function getString(value: unknown): string | null {
+  return typeof value === "string" && value.length > 0 ? value : null;
+}
+
+function getRecord(value: unknown): Record<string, unknown> {
+  return value && typeof value === "object" && !Array.isArray(value)
+    ? (value as Record<string, unknown>)
+    : {};
+}
+
+function truncate(value: string, maxLength: number): string {
+  return value.length > maxLength
+    ? `${value.slice(0, maxLength - 3)}...`
+    : value;
+}
+
+function stringifyOutput(value: unknown): string {
+  if (typeof value === "string") {
+    return value;
+  }
+
+  const record = getRecord(value);
+  const output =
+    getString(record.output) ??
+    getString(record.llmContent) ??
+    getString(record.error);
+  return output ?? JSON.stringify(value ?? null);
+}
+
+function toolStartEntries(
+  call: ToolCall,
+  timestamp: string,
+): AdapterEventEnvelope[] {
+  const command = SHELL_TOOLS.has(call.name)
+    ? getString(call.args.command)
+    : null;
+  const entries: AdapterEventEnvelope[] = [
+    {
+      eventType: "tool.started",
+      eventSubType: call.name,
+      summary: command
+        ? `${call.name}: ${truncate(command, 120)}`
+        : `${call.name} started`,
+      payload: { callId: call.id, name: call.name, args: call.args },
+      startedAt: timestamp,
+      endedAt: timestamp,
+      status: "running",
+    },
+  ];
+
+  if (command) {
+    entries.push({
+      eventType: "command.started",
+      eventSubType: "gemini",
+      summary: truncate(command, 200),
+      payload: { command, callId: call.id },
+      startedAt: timestamp,
+      endedAt: timestamp,
+      status: "running",
+    });
+  }
+
+  return entries;
+}
+
+function toolResultEntries(
+  call: ToolCall,
+  result: { output: string; failed: boolean },
+  timing: { startedAt: string; endedAt: string },
+): AdapterEventEnvelope[] {
+  const status = result.failed ? "failed" : "completed";
+  const output = truncate(result.output, MAX_TOOL_OUTPUT_LENGTH);
+  const entries: AdapterEventEnvelope[] = [
+    {
+      eventType: result.failed ? "tool.failed" : "tool.completed",
+      eventSubType: call.name,
+      summary: `${call.name} ${status}`,
+      payload: { callId: call.id, name: call.name, output },
+      ...timing,
+      status,
+    },
+  ];
+
+  const command = SHELL_TOOLS.has(call.name)
+    ? getString(call.args.command)
+    : null;
+  if (command) {
+    const exitCodeMatch = output.match(/^Exit Code: (-?\d+)/m);
+    entries.push({
+      eventType: "command.completed",
+      eventSubType: "gemini",
+      summary: truncate(command, 200),
+      payload: {
+        command,
+        exitCode: exitCodeMatch
+          ? Number(exitCodeMatch[1])
+          : result.failed
+            ? 1
+            : 0,
+        output,
+        callId: call.id,
+      },
+      ...timing,
+      status,
+    });
+  }
+
+  const filePath =
+    getString(call.args.file_path) ?? getString(call.args.absolute_path);
+  if (FILE_TOOLS.has(call.name) && filePath && !result.failed) {
+    entries.push({
+      eventType: "file.changed",
+      summary: `${filePath} changed`,
+      payload: { path: filePath, tool: call.name, callId: call.id },
+      ...timing,
+      status: call.name === "write_file" ? "written" : "edited",
+    });
+  }
+
+  return entries;
+}
+
+/**
+ * Parses recorded chats (`chats/session-*.json`), which carry timestamps and
+ * tool call results on each Gemini message.
+ */
+function parseRecordedChat(
+  chat: Record<string, unknown>,
+  file: { path: string; modifiedAt: string },
+): ParsedSessionLog | null {
+  const messages = Array.isArray(chat.messages) ? chat.messages : [];
+  const entries: AdapterEventEnvelope[] = [];
+  let model: string | null = null;
+
+  for (const rawMessage of messages) {
+    const message = getRecord(rawMessage);
+    const timestamp = getString(message.timestamp) ?? file.modifiedAt;
+    const text =
+      typeof message.content === "string"
+        ? message.content
+        : stringifyOutput(message.content);
+
+    if (message.type === "user" && text.trim()) {
+      entries.push({
+        eventType: "message.user.submitted",
+        relatedMessageRole: "user",
+        content: text,
+        payload: { role: "user" },
+        startedAt: timestamp,
+        endedAt: timestamp,
+        status: "captured",
+      });
+      continue;
+    }
+    if (message.type !== "gemini") {
+      continue;
+    }
+
+    model ??= getString(message.model);
+    if (text.trim()) {
+      entries.push({
+        eventType: "message.assistant.completed",
+        relatedMessageRole: "assistant",
+        content: text,
+        payload: {
+          role: "assistant",
+          ...(message.tokens ? { usage: message.tokens } : {}),
+        },
+        startedAt: timestamp,
+        endedAt: timestamp,
+        status: "captured",
+      });
+    }
+
+    for (const rawCall of Array.isArray(message.toolCalls)
+      ? message.toolCalls
+      : []) {
+      const toolCall = getRecord(rawCall);
+      const call: ToolCall = {
+        id: getString(toolCall.id),
+        name: getString(toolCall.name) ?? "unknown",
+        args: getRecord(toolCall.args),
+      };
+      const callTimestamp = getString(toolCall.timestamp) ?? timestamp;
+      entries.push(...toolStartEntries(call, callTimestamp));
+      if (toolCall.result !== undefined || toolCall.status) {
+        entries.push(
+          ...toolResultEntries(
+            call,
+            {
+              output: stringifyOutput(toolCall.result ?? ""),
+              failed: toolCall.status === "error",
+            },
+            { startedAt: callTimestamp, endedAt: callTimestamp },
+          ),
+        );
+      }
+    }
+  }
+
+  const first = entries[0];
+  const last = entries.at(-1);
+  if (!first?.startedAt || !last?.endedAt) {
+    return null;
+  }
+
+  return {
+    hostSessionId: getString(chat.sessionId),
+    cwd: null,
+    title: null,
+    startedAt: getString(chat.startTime) ?? first.startedAt,
+    endedAt: getString(chat.lastUpdated) ?? last.endedAt,
+    metadata: { model, projectHash: getString(chat.projectHash) },
+    entries,
+  };
+}
+
+/**
+ * Parses `/chat save` checkpoints: a bare array of Gemini API `Content`
+ * turns without timestamps, so every entry uses the file modification time.
+ */
+function parseCheckpoint(
+  turns: unknown[],
+  file: { path: string; modifiedAt: string },
+): ParsedSessionLog | null {
+  const timestamp = file.modifiedAt;
+  const entries: AdapterEventEnvelope[] = [];
+  const pendingCalls: ToolCall[] = [];
+
+  for (const rawTurn of turns) {
+    const turn = getRecord(rawTurn);
+    const role = turn.role === "model" ? "assistant" : "user";
+    const texts: string[] = [];
+
+    for (const rawPart of Array.isArray(turn.parts) ? turn.parts : []) {
+      const part = getRecord(rawPart);
+      if (typeof part.text === "string" && part.thought !== true) {
+        texts.push(part.text);
+      }
+
+      const functionCall = getRecord(part.functionCall);
+      if (getString(functionCall.name)) {
+        const call: ToolCall = {
+          id: getString(functionCall.id),
+          name: functionCall.name as string,
+          args: getRecord(functionCall.args),
+        };
+        pendingCalls.push(call);
+        entries.push(...toolStartEntries(call, timestamp));
+      }
+
+      const functionResponse = getRecord(part.functionResponse);
+      if (getString(functionResponse.name)) {
+        const responseId = getString(functionResponse.id);
+        const index = pendingCalls.findIndex((call) =>
+          responseId
+            ? call.id === responseId
+            : call.name === functionResponse.name,
+        );
+        const [call] =
+          index >= 0
+            ? pendingCalls.splice(index, 1)
+            : [
+                {
+                  id: responseId,
+                  name: functionResponse.name as string,
+                  args: {},
+                },
+              ];
+        const response = getRecord(functionResponse.response);
+        entries.push(
+          ...toolResultEntries(
+            call,
+            {
+              output: stringifyOutput(response),
+              failed: getString(response.error) !== null,
+            },
+            { startedAt: timestamp, endedAt: timestamp },
+          ),
+        );
+      }
+    }
+
+    const text = texts.join("").trim();
+    if (text) {
+      entries.push({
+        eventType:
+          role === "user"
+            ? "message.user.submitted"
+            : "message.assistant.completed",
+        relatedMessageRole: role,
+        content: text,
+        payload: { role },
+        startedAt: timestamp,
+        endedAt: timestamp,
+        status: "captured",
+      });
+    }
+  }
+
+  if (!entries.some((entry) => entry.relatedMessageRole)) {
+    return null;
+  }
+
+  const tag = path
+    .basename(file.path, ".json")
+    .replace(/^checkpoint-?/, "")
+    .trim();
+  return {
+    hostSessionId: null,
+    cwd: null,
+    title: tag ? `Gemini checkpoint: ${tag}` : null,
+    startedAt: timestamp,
+    endedAt: timestamp,
+    metadata: { checkpointTag: tag || null },
+    entries,
+  };
+}
+
+/**
+ * Imports Gemini CLI history from `~/.gemini/tmp/<project hash>/`: saved
+ * `/chat` checkpoints and recorded `chats/session-*.json` files.
+ */
+export const geminiImporter: SessionLogImporter = {
+  host: "gemini",
+  defaultRoots(env, homeDir) {
+    return [
+      path.join(env.GEMINI_CLI_HOME || path.join(homeDir, ".gemini"), "tmp"),
+    ];
+  },
+  matches(filePath) {
+    const baseName = path.basename(filePath);
+    return (
+      /^checkpoint.*\.json$/.test(baseName) ||
+      (/^session-.*\.json$/.test(baseName) &&
+        path.basename(path.dirname(filePath)) === "chats")
+    );
+  },
+  parse(content, file): ParsedSessionLog | null {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(content);
+    } catch {
+      return null;
+    }
+
+    if (Array.isArray(parsed)) {
+      return parseCheckpoint(parsed, file);
+    }
+
+    const chat = getRecord(parsed);
+    return Array.isArray(chat.messages) ? parseRecordedChat(chat, file) : null;
+  },
+};
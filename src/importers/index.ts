@@ -0,0 +1,333 @@
+/* global process */
+
+import { createHash } from "node:crypto";
+import * as fs from "node:fs";
+import { homedir } from "node:os";
+import * as path from "node:path";
+import type { AdapterEventEnvelope } from "../adapters/index.js";
+import { reingestSessionHistory } from "../ingestion/index.js";
+import type { IngestionRulesConfig } from "../ingestion/rules.js";
+import { createRedactor, type Redactor } from "../lib/redaction.js";
+import { truncateSummary } from "../lib/session-history.js";
+import {
+  appendTimelineEvent,
+  findProjectRoot,
+  recordMessageAndEvent,
+  serializeJson,
+} from "../lib/session-recording.js";
+import type {
+  BuiltInSessionHost,
+  EvidenceDatabase,
+} from "../lib/storage/index.js";
+import { claudeImporter } from "./claude.js";
+import { codexImporter } from "./codex.js";
+import { geminiImporter } from "./gemini.js";
+import type {
+  ParsedSessionLog,
+  SessionImportFileResult,
+  SessionImportSummary,
+  SessionLogImporter,
+} from "./types.js";
+
+export type {
+  ParsedSessionLog,
+  SessionImportFileResult,
+  SessionImportStatus,
+  SessionImportSummary,
+  SessionLogImporter,
+} from "./types.js";
+export { claudeImporter, codexImporter, geminiImporter };
+
+const importers: Record<BuiltInSessionHost, SessionLogImporter> = {
+  claude: claudeImporter,
+  gemini: geminiImporter,
+  codex: codexImporter,
+};
+
+export function getSessionLogImporter(
+  host: BuiltInSessionHost,
+): SessionLogImporter {
+  return importers[host];
+}
+
+export interface ImportSessionLogsOptions {
+  host: BuiltInSessionHost;
+  /** Log files or directories to scan; defaults to the host's log roots */
+  paths?: string[];
+  env?: NodeJS.ProcessEnv;
+  homeDir?: string;
+  redactor?: Redactor;
+  /** Global ingestion rules applied when imported sessions are ingested */
+  rules?: IngestionRulesConfig;
+}
+
+function collectLogFiles(
+  importer: SessionLogImporter,
+  targetPath: string,
+  explicit: boolean,
+  files: string[],
+): void {
+  let stats: fs.Stats;
+  try {
+    stats = fs.statSync(targetPath);
+  } catch {
+    if (explicit) {
+      throw new Error(`Session log path not found: ${targetPath}`);
+    }
+    return;
+  }
+
+  if (stats.isFile()) {
+    if (explicit || importer.matches(targetPath)) {
+      files.push(targetPath);
+    }
+    return;
+  }
+  if (!stats.isDirectory()) {
+    return;
+  }
+
+  const entries = fs
+    .readdirSync(targetPath, { withFileTypes: true })
+    .sort((left, right) => left.name.localeCompare(right.name));
+  for (const entry of entries) {
+    if (entry.isDirectory() || entry.isFile()) {
+      collectLogFiles(
+        importer,
+        path.join(targetPath, entry.name),
+        false,
+        files,
+      );
+    }
+  }
+}
+
+function writeEntries(
+  db: EvidenceDatabase,
+  options: {
+    sessionId: string;
+    source: string;
+    entries: AdapterEventEnvelope[];
+    messageSeq: number;
+    eventSeq: number;
+    redactor: Redactor;
+  },
+): void {
+  let { messageSeq, eventSeq } = options;
+
+  for (const entry of options.entries) {
+    if (entry.relatedMessageRole && entry.content) {
+      const result = recordMessageAndEvent(db, {
+        sessionId: options.sessionId,
+        redactor: options.redactor,
+        messageSeq,
+        eventSeq,
+        role: entry.relatedMessageRole,
+        source: options.source,
+        content: entry.content,
+        eventType: entry.eventType,
+        eventStatus: entry.status,
+        payload: entry.payload ?? undefined,
+        capturedAt: entry.startedAt ?? undefined,
+      });
+      messageSeq = result.messageSeq;
+      eventSeq = result.eventSeq;
+      continue;
+    }
+
+    eventSeq = appendTimelineEvent(db, {
+      sessionId: options.sessionId,
+      redactor: options.redactor,
+      eventSeq,
+      eventType: entry.eventType,
+      eventSubType: entry.eventSubType,
+      source: options.source,
+      summary: entry.summary,
+      payload: entry.payload,
+      startedAt: entry.startedAt,
+      endedAt: entry.endedAt,
+      status: entry.status,
+    });
+  }
+}
+
+function deriveTitle(parsed: ParsedSessionLog): string | null {
+  if (parsed.title) {
+    return parsed.title;
+  }
+
+  const firstPrompt = parsed.entries.find(
+    (entry) => entry.relatedMessageRole === "user" && entry.content?.trim(),
+  );
+  return firstPrompt?.content
+    ? truncateSummary(firstPrompt.content.trim())
+    : null;
+}
+
+function importParsedLog(
+  db: EvidenceDatabase,
+  importer: SessionLogImporter,
+  parsed: ParsedSessionLog,
+  file: { sourcePath: string; fingerprint: string },
+  redactor: Redactor,
+  rules: IngestionRulesConfig | undefined,
+): SessionImportFileResult {
+  const sourceKey = `${importer.host}:${parsed.hostSessionId ?? file.sourcePath}`;
+  const source = `${importer.host}-import`;
+  const existing = db.findSessionImport(sourceKey);
+
+  if (existing?.fingerprint === file.fingerprint) {
+    return {
+      sourcePath: file.sourcePath,
+      status: "skipped",
+      sessionId: existing.sessionId,
+      entriesWritten: 0,
+      reason: "already imported",
+    };
+  }
+  if (existing && parsed.entries.length <= existing.entryCount) {
+    return {
+      sourcePath: file.sourcePath,
+      status: "skipped",
+      sessionId: existing.sessionId,
+      entriesWritten: 0,
+      reason: "log changed without new entries",
+    };
+  }
+
+  // Host logs are append-only, so a grown log only contributes its new tail.
+  const newEntries = parsed.entries.slice(existing?.entryCount ?? 0);
+  const sessionId = db.getDb().transaction(() => {
+    const sessionId =
+      existing?.sessionId ??
+      db.createSession({
+        host: importer.host,
+        projectRoot:
+          parsed.cwd && fs.existsSync(parsed.cwd)
+            ? findProjectRoot(parsed.cwd)
+            : (parsed.cwd ?? path.dirname(file.sourcePath)),
+        cwd: parsed.cwd ?? path.dirname(file.sourcePath),
+        title: null,
+        status: "running",
+        startedAt: parsed.startedAt,
+        endedAt: null,
+        metadata: serializeJson({
+          import: {
+            sourcePath: file.sourcePath,
+            hostSessionId: parsed.hostSessionId,
+            ...parsed.metadata,
+          },
+        }),
+      });
+
+    writeEntries(db, {
+      sessionId,
+      source,
+      entries: newEntries,
+      messageSeq: db.countSessionMessages(sessionId) + 1,
+      eventSeq: db.countSessionTimeline(sessionId) + 1,
+      redactor,
+    });
+    const title = existing ? null : deriveTitle(parsed);
+    if (title) {
+      db.updateSessionTitle(sessionId, title);
+    }
+    db.finalizeSession(sessionId, {
+      status: "completed",
+      endedAt: parsed.endedAt,
+    });
+    db.recordSessionImport({
+      sourceKey,
+      host: importer.host,
+      sourcePath: file.sourcePath,
+      fingerprint: file.fingerprint,
+      sessionId,
+      entryCount: parsed.entries.length,
+    });
+    reingestSessionHistory(db, sessionId, { redactor, rules });
+
+    return sessionId;
+  })();
+
+  return {
+    sourcePath: file.sourcePath,
+    status: existing ? "updated" : "imported",
+    sessionId,
+    entriesWritten: newEntries.length,
+    reason: null,
+  };
+}
+
+/**
+ * Imports host session logs into session history and runs deterministic and
+ * semantic ingestion on every session that was created or extended. Each file
+ * is written in its own transaction, so one unreadable log does not abort the
+ * rest of the import.
+ */
+export function importSessionLogs(
+  db: EvidenceDatabase,
+  options: ImportSessionLogsOptions,
+): SessionImportSummary {
+  const importer = getSessionLogImporter(options.host);
+  const redactor = options.redactor ?? createRedactor();
+  const explicit = Boolean(options.paths?.length);
+  const roots = explicit
+    ? (options.paths ?? []).map((targetPath) => path.resolve(targetPath))
+    : importer.defaultRoots(
+        options.env ?? process.env,
+        options.homeDir ?? homedir(),
+      );
+  const files: string[] = [];
+  for (const root of roots) {
+    collectLogFiles(importer, root, explicit, files);
+  }
+
+  const results = files.map((sourcePath): SessionImportFileResult => {
+    try {
+      const content = fs.readFileSync(sourcePath, "utf8");
+      const parsed = importer.parse(content, {
+        path: sourcePath,
+        modifiedAt: fs.statSync(sourcePath).mtime.toISOString(),
+      });
+      if (!parsed) {
+        return {
+          sourcePath,
+          status: "skipped",
+          sessionId: null,
+          entriesWritten: 0,
+          reason: `not a ${importer.host} session log`,
+        };
+      }
+
+      return importParsedLog(
+        db,
+        importer,
+        parsed,
+        {
+          sourcePath,
+          fingerprint: createHash("sha256").update(content).digest("hex"),
+        },
+        redactor,
+        options.rules,
+      );
+    } catch (error) {
+      return {
+        sourcePath,
+        status: "failed",
+        sessionId: null,
+        entriesWritten: 0,
+        reason: error instanceof Error ? error.message : String(error),
+      };
+    }
+  });
+
+  return {
+    host: options.host,
+    scanned: results.length,
+    imported: results.filter((result) => result.status === "imported").length,
+    updated: results.filter((result) => result.status === "updated").length,
+    skipped: results.filter((result) => result.status === "skipped").length,
+    failed: results.filter((result) => result.status === "failed").length,
+    files: results,
+  };
+}
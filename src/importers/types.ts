@@ -0,0 +1,53 @@
+import type { AdapterEventEnvelope } from "../adapters/index.js";
+import type { BuiltInSessionHost } from "../lib/storage/index.js";
+
+/**
+ * A host session log parsed into recorder-shaped entries. Entries use the
+ * adapter envelope shape: envelopes with `relatedMessageRole` and `content`
+ * become transcript messages, the rest become timeline events.
+ */
+export interface ParsedSessionLog {
+  hostSessionId: string | null;
+  cwd: string | null;
+  title: string | null;
+  startedAt: string;
+  endedAt: string;
+  metadata: Record<string, unknown>;
+  entries: AdapterEventEnvelope[];
+}
+
+export interface SessionLogImporter {
+  host: BuiltInSessionHost;
+  /** Directories scanned when no paths are given */
+  defaultRoots(env: NodeJS.ProcessEnv, homeDir: string): string[];
+  /** Whether a file found while scanning a directory is a session log */
+  matches(filePath: string): boolean;
+  /**
+   * Parse one log file. Returns null when the file is not a session log for
+   * this host or holds no conversation.
+   */
+  parse(
+    content: string,
+    file: { path: string; modifiedAt: string },
+  ): ParsedSessionLog | null;
+}
+
+export type SessionImportStatus = "imported" | "updated" | "skipped" | "failed";
+
+export interface SessionImportFileResult {
+  sourcePath: string;
+  status: SessionImportStatus;
+  sessionId: string | null;
+  entriesWritten: number;
+  reason: string | null;
+}
+
+export interface SessionImportSummary {
+  host: BuiltInSessionHost;
+  scanned: number;
+  imported: number;
+  updated: number;
+  skipped: number;
+  failed: number;
+  files: SessionImportFileResult[];
+}
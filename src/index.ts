@@ -12,12 +12,34 @@ import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js"
 import type { Transport } from "@modelcontextprotocol/sdk/shared/transport.js";
 import {
   EvidenceDatabase,
+  isRekeyInProgress,
   storeSalt,
   retrieveSalt,
 } from "./lib/storage/index.js";
 import { deriveKey, rederiveKey, type DerivedKey } from "./lib/crypto/index.js";
 import { registerUIResources } from "./ui/register.js";
+import { registerHistoryResources } from "./resources/history-resources.js";
+import {
+  registerResourceSubscriptions,
+  type ResourceSubscriptions,
+} from "./resources/subscriptions.js";
 import { getErrorMessage } from "./lib/tool-wrapper.js";
+import {
+  createRedactor,
+  loadRedactionConfig,
+  resolveRedactionConfigPath,
+  type Redactor,
+} from "./lib/redaction.js";
+import {
+  loadIngestionRulesConfig,
+  resolveIngestionRulesPath,
+  type IngestionRulesConfig,
+} from "./ingestion/rules.js";
+import {
+  loadTimestampConfig,
+  resolveTimestampConfigPath,
+  type TimestampConfig,
+} from "./lib/trusted-timestamp.js";
 import { decrypt } from "./lib/crypto/index.js";
 import type { ServerConfig } from "./types.js";
 import { registerSkillPrompts } from "./prompts/skill-prompt.js";
@@ -40,6 +62,9 @@ import {
   captureFootprintSchema,
   captureFootprintMetadata,
   createCaptureFootprintHandler,
+  captureSessionEvidenceSchema,
+  captureSessionEvidenceMetadata,
+  createCaptureSessionEvidenceHandler,
   listFootprintsSchema,
   listFootprintsMetadata,
   createListFootprintsHandler,
@@ -55,6 +80,15 @@ import {
   verifyFootprintSchema,
   verifyFootprintMetadata,
   createVerifyFootprintHandler,
+  verifyLedgerSchema,
+  verifyLedgerMetadata,
+  createVerifyLedgerHandler,
+  flushTimestampQueueSchema,
+  flushTimestampQueueMetadata,
+  createFlushTimestampQueueHandler,
+  importBundleSchema,
+  importBundleMetadata,
+  createImportBundleHandler,
   suggestCaptureSchema,
   suggestCaptureMetadata,
   createSuggestCaptureHandler,
@@ -130,6 +164,15 @@ import {
   reingestSessionSchema,
   reingestSessionMetadata,
   createReingestSessionHandler,
+  importSessionLogsSchema,
+  importSessionLogsMetadata,
+  createImportSessionLogsHandler,
+  recordDecisionSchema,
+  recordDecisionMetadata,
+  createRecordDecisionHandler,
+  appendSessionNoteSchema,
+  appendSessionNoteMetadata,
+  createAppendSessionNoteHandler,
 } from "./tools/index.js";
 
 /**
@@ -140,6 +183,10 @@ export class FootprintServer {
   private server: McpServer;
   private config: ServerConfig;
   private db: EvidenceDatabase;
+  private redactor: Redactor;
+  private ingestionRules: IngestionRulesConfig;
+  private timestampConfig: TimestampConfig;
+  private resourceSubscriptions: ResourceSubscriptions;
   private derivedKey: Uint8Array | null = null;
   private keyDerivationPromise: Promise<Uint8Array> | null = null;
   private shutdownPromise: Promise<void> | null = null;
@@ -155,6 +202,39 @@ export class FootprintServer {
       );
     }
 
+    try {
+      this.redactor = createRedactor(
+        loadRedactionConfig(resolveRedactionConfigPath(config.dbPath)),
+      );
+    } catch (error) {
+      this.db.close();
+      throw new Error(
+        `Failed to load redaction config: ${getErrorMessage(error)}`,
+      );
+    }
+
+    try {
+      this.ingestionRules = loadIngestionRulesConfig(
+        resolveIngestionRulesPath(config.dbPath),
+      );
+    } catch (error) {
+      this.db.close();
+      throw new Error(
+        `Failed to load ingestion rules: ${getErrorMessage(error)}`,
+      );
+    }
+
+    try {
+      this.timestampConfig = loadTimestampConfig(
+        resolveTimestampConfigPath(config.dbPath),
+      );
+    } catch (error) {
+      this.db.close();
+      throw new Error(
+        `Failed to load timestamp config: ${getErrorMessage(error)}`,
+      );
+    }
+
     this.server = new McpServer({
       name: config.name || "footprint",
       version: config.version || PKG_VERSION,
@@ -165,6 +245,10 @@ export class FootprintServer {
 
     this.registerTools();
     this.registerResources();
+    this.resourceSubscriptions = registerResourceSubscriptions(
+      this.server,
+      this.db,
+    );
     try {
       registerSkillPrompts(this.server);
     } catch (error) {
@@ -180,7 +264,7 @@ export class FootprintServer {
    * Handles concurrent calls by ensuring only one derivation happens at a time
    *
    * @returns 32-byte encryption key
-   * @throws Error if salt storage fails
+   * @throws Error if salt storage fails or a passphrase rotation is unfinished
    */
   private async getDerivedKey(): Promise<Uint8Array> {
     // Fast path: key already derived
@@ -196,6 +280,13 @@ export class FootprintServer {
     // Start derivation (only one caller proceeds here)
     this.keyDerivationPromise = (async () => {
       try {
+        // Evidence is split across two keys until the rotation finishes
+        if (isRekeyInProgress(this.db.getDb())) {
+          throw new Error(
+            'A passphrase rotation is unfinished. Re-run "footprint rekey" to complete it.',
+          );
+        }
+
         // Check if salt exists in database
         const existingSalt = retrieveSalt(this.db.getDb());
         let result: DerivedKey;
@@ -241,7 +332,26 @@ export class FootprintServer {
         inputSchema: captureFootprintSchema.inputSchema,
         outputSchema: captureFootprintSchema.outputSchema,
       },
-      createCaptureFootprintHandler(this.db, this.getDerivedKey.bind(this)),
+      createCaptureFootprintHandler(
+        this.db,
+        this.getDerivedKey.bind(this),
+        this.timestampConfig,
+      ),
+    );
+
+    // Capture session evidence tool
+    this.server.registerTool(
+      "capture-session-evidence",
+      {
+        ...captureSessionEvidenceMetadata,
+        inputSchema: captureSessionEvidenceSchema.inputSchema,
+        outputSchema: captureSessionEvidenceSchema.outputSchema,
+      },
+      createCaptureSessionEvidenceHandler(
+        this.db,
+        this.getDerivedKey.bind(this),
+        this.timestampConfig,
+      ),
     );
 
     // List footprints tool
@@ -263,7 +373,7 @@ export class FootprintServer {
         inputSchema: exportFootprintsSchema.inputSchema,
         outputSchema: exportFootprintsSchema.outputSchema,
       },
-      createExportFootprintsHandler(this.db),
+      createExportFootprintsHandler(this.db, this.getDerivedKey.bind(this)),
     );
 
     // Get footprint tool
@@ -296,7 +406,48 @@ export class FootprintServer {
         inputSchema: verifyFootprintSchema.inputSchema,
         outputSchema: verifyFootprintSchema.outputSchema,
       },
-      createVerifyFootprintHandler(this.db, this.getDerivedKey.bind(this)),
+      createVerifyFootprintHandler(
+        this.db,
+        this.getDerivedKey.bind(this),
+        this.timestampConfig,
+      ),
+    );
+
+    // Verify evidence ledger tool
+    this.server.registerTool(
+      "verify-ledger",
+      {
+        ...verifyLedgerMetadata,
+        inputSchema: verifyLedgerSchema.inputSchema,
+        outputSchema: verifyLedgerSchema.outputSchema,
+      },
+      createVerifyLedgerHandler(this.db),
+    );
+
+    // Flush timestamp queue tool
+    this.server.registerTool(
+      "flush-timestamp-queue",
+      {
+        ...flushTimestampQueueMetadata,
+        inputSchema: flushTimestampQueueSchema.inputSchema,
+        outputSchema: flushTimestampQueueSchema.outputSchema,
+      },
+      createFlushTimestampQueueHandler(this.db, this.timestampConfig),
+    );
+
+    // Import bundle tool
+    this.server.registerTool(
+      "import-bundle",
+      {
+        ...importBundleMetadata,
+        inputSchema: importBundleSchema.inputSchema,
+        outputSchema: importBundleSchema.outputSchema,
+      },
+      createImportBundleHandler(
+        this.db,
+        this.getDerivedKey.bind(this),
+        this.config.password,
+      ),
     );
 
     // Suggest capture tool
@@ -318,7 +469,7 @@ export class FootprintServer {
         inputSchema: deleteFootprintsSchema.inputSchema,
         outputSchema: deleteFootprintsSchema.outputSchema,
       },
-      createDeleteFootprintsHandler(this.db),
+      createDeleteFootprintsHandler(this.db, this.getDerivedKey.bind(this)),
     );
 
     // Unified tag management tool (replaces rename-tag, remove-tag, get-tag-stats)
@@ -549,7 +700,46 @@ export class FootprintServer {
         inputSchema: reingestSessionSchema.inputSchema,
         outputSchema: reingestSessionSchema.outputSchema,
       },
-      createReingestSessionHandler(this.db),
+      createReingestSessionHandler(
+        this.db,
+        this.redactor,
+        this.ingestionRules,
+        this.server.server,
+      ),
+    );
+
+    this.server.registerTool(
+      "import-session-logs",
+      {
+        ...importSessionLogsMetadata,
+        inputSchema: importSessionLogsSchema.inputSchema,
+        outputSchema: importSessionLogsSchema.outputSchema,
+      },
+      createImportSessionLogsHandler(
+        this.db,
+        this.redactor,
+        this.ingestionRules,
+      ),
+    );
+
+    this.server.registerTool(
+      "record-decision",
+      {
+        ...recordDecisionMetadata,
+        inputSchema: recordDecisionSchema.inputSchema,
+        outputSchema: recordDecisionSchema.outputSchema,
+      },
+      createRecordDecisionHandler(this.db, this.redactor),
+    );
+
+    this.server.registerTool(
+      "append-session-note",
+      {
+        ...appendSessionNoteMetadata,
+        inputSchema: appendSessionNoteSchema.inputSchema,
+        outputSchema: appendSessionNoteSchema.outputSchema,
+      },
+      createAppendSessionNoteHandler(this.db, this.redactor),
     );
   }
 
@@ -591,9 +781,32 @@ export class FootprintServer {
         }
       },
     );
+
+    registerHistoryResources(this.server, this.db);
+  }
+
+  /**
+   * Unlock encrypted session history before serving requests, enabling
+   * encryption first when the server is configured to opt in
+   */
+  private async prepareSessionHistory(): Promise<void> {
+    if (
+      !this.config.encryptSessionHistory &&
+      !this.db.isSessionHistoryEncrypted()
+    ) {
+      return;
+    }
+
+    const key = await this.getDerivedKey();
+    if (this.db.isSessionHistoryEncrypted()) {
+      this.db.unlockSessionHistory(key);
+    } else {
+      this.db.enableSessionHistoryEncryption(key);
+    }
   }
 
   async connect(transport: Transport): Promise<void> {
+    await this.prepareSessionHistory();
     await this.server.connect(transport);
   }
 
@@ -608,6 +821,7 @@ export class FootprintServer {
 
     this.shutdownPromise = (async () => {
       try {
+        this.resourceSubscriptions.close();
         await this.server.close();
       } finally {
         this.clearDerivedKey();
@@ -635,6 +849,7 @@ export async function main(): Promise<void> {
       : process.env.FOOTPRINT_DB_PATH || "./evidence.db",
     password:
       process.env.FOOTPRINT_PASSPHRASE || process.env.FOOTPRINT_PASSWORD || "",
+    encryptSessionHistory: process.env.FOOTPRINT_ENCRYPT_SESSIONS === "1",
   };
 
   if (!config.password) {
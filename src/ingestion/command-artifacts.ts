@@ -0,0 +1,262 @@
+import type {
+  BuildResultMetadata,
+  HttpRequestMetadata,
+  LintResultMetadata,
+  MigrationMetadata,
+} from "../lib/session-artifacts.js";
+import type { Diagnostic } from "./diagnostics.js";
+
+/**
+ * Typed metadata for the command artifacts that are more than a command run:
+ * lint runs, builds, dependency changes, HTTP requests, and migrations.
+ *
+ * Each extractor reads the command's arguments and captured output and
+ * returns only its type's fields; deterministic ingestion merges them into
+ * the shared command metadata. Anything an extractor cannot find is null or
+ * empty rather than guessed.
+ */
+
+const HTTP_CLIENTS = new Set(["curl", "wget", "http", "https", "xh"]);
+
+const HTTP_METHODS = new Set([
+  "GET",
+  "HEAD",
+  "POST",
+  "PUT",
+  "PATCH",
+  "DELETE",
+  "OPTIONS",
+]);
+
+function getCount(text: string, pattern: RegExp): number | null {
+  const matches = [...text.matchAll(pattern)];
+  const last = matches.at(-1);
+  return last ? Number(last[1]) : null;
+}
+
+function unique(values: Array<string | null>): string[] {
+  return [...new Set(values.filter((value): value is string => !!value))];
+}
+
+function firstMatchingTool(
+  text: string,
+  tools: Array<[RegExp, string]>,
+): string | null {
+  return tools.find(([pattern]) => pattern.test(text))?.[1] ?? null;
+}
+
+/**
+ * Whether a command is an HTTP client whose run is recorded as `http-request`
+ */
+export function isHttpClientCommand(command: string | null): boolean {
+  return command !== null && HTTP_CLIENTS.has(command.toLowerCase());
+}
+
+export function extractLintResult(
+  text: string,
+  diagnostics: Diagnostic[],
+): LintResultMetadata {
+  const findings = diagnostics.filter(
+    (diagnostic) => diagnostic.source === "eslint",
+  );
+  // Rules and files come from error findings; counts cover warnings too:
+  // "✖ 5 problems (3 errors, 2 warnings)", "Found 3 errors.", "1 warning"
+  return {
+    linter:
+      firstMatchingTool(text, [
+        [/\boxlint\b/i, "oxlint"],
+        [/\bbiome\b/i, "biome"],
+        [/\bruff\b/i, "ruff"],
+        [/\bflake8\b/i, "flake8"],
+        [/\bpylint\b/i, "pylint"],
+        [/\bgolangci-lint\b/i, "golangci-lint"],
+        [/\bclippy\b/i, "clippy"],
+        [/\bstylelint\b/i, "stylelint"],
+        [/\beslint\b/i, "eslint"],
+      ]) ?? (findings.length > 0 ? "eslint" : null),
+    errorCount: getCount(text, /\b(\d+) errors?\b/gi),
+    warningCount: getCount(text, /\b(\d+) warnings?\b/gi),
+    lintRuleIds: unique(findings.map((finding) => finding.errorCode)),
+    lintFiles: unique(findings.map((finding) => finding.file)),
+  };
+}
+
+export function extractBuildResult(
+  text: string,
+  diagnostics: Diagnostic[],
+  failed: boolean,
+): BuildResultMetadata {
+  // vite "built in 1.23s", webpack "compiled successfully in 812 ms",
+  // cargo "Finished `dev` profile [unoptimized] target(s) in 4.02s"
+  const duration = [
+    ...text.matchAll(
+      /\b(?:built|compiled(?: successfully)?|finished\b.*?) in (\d+(?:\.\d+)?)\s*(ms|s)\b/gi,
+    ),
+  ].at(-1);
+  const errorCount = getCount(text, /\b(\d+) errors?\b/gi);
+
+  return {
+    buildTool: firstMatchingTool(text, [
+      [/\bvite\b/i, "vite"],
+      [/\bnext build\b/i, "next"],
+      [/\bwebpack\b/i, "webpack"],
+      [/\brollup\b/i, "rollup"],
+      [/\btsup\b/i, "tsup"],
+      [/\besbuild\b/i, "esbuild"],
+      [/\bturbo\b/i, "turbo"],
+      [/\bcargo\b/i, "cargo"],
+      [/\bgo build\b/i, "go"],
+      [/\bgradle\b/i, "gradle"],
+      [/\bmvn\b/i, "maven"],
+      [/\btsc\b/i, "tsc"],
+      [/\bmake\b/i, "make"],
+    ]),
+    durationMs: duration
+      ? Math.round(Number(duration[1]) * (duration[2] === "s" ? 1000 : 1))
+      : null,
+    errorCount:
+      errorCount ??
+      (failed && diagnostics.length > 0 ? diagnostics.length : null),
+    warningCount: getCount(text, /\b(\d+) warnings?\b/gi),
+    outputFiles: unique(
+      [
+        ...text.matchAll(
+          /^\s*((?:dist|build|out|target|\.next)\/\S+)\s+[\d.,]+\s*(?:[kKmM]i?B|B|bytes)\b/gm,
+        ),
+      ].map((match) => match[1]!),
+    ),
+  };
+}
+
+/**
+ * Resolved `name@version` specs from package manager output, falling back to
+ * versions pinned on the command line
+ */
+export function extractDependencyVersions(
+  text: string,
+  dependencyNames: string[],
+): string[] {
+  // pnpm and bun list changes as "+ zod 4.1.0" / "- zod 3.22.4"
+  const reported = [
+    ...text.matchAll(/^\s*[+-] (@?[\w./-]+) (\d[\w.+-]*)\s*$/gm),
+  ].map((match) => `${match[1]}@${match[2]}`);
+  if (reported.length > 0) {
+    return unique(reported);
+  }
+
+  return dependencyNames.filter((name) => /^@?[^@]+@\S+$/.test(name));
+}
+
+export function extractHttpRequest(
+  command: string | null,
+  args: string[],
+  output: string,
+): HttpRequestMetadata {
+  const client = command;
+  let method: string | null = null;
+  let sendsBody = false;
+  let rawUrl: string | null = null;
+
+  for (let index = 0; index < args.length; index += 1) {
+    const arg = args[index]!;
+    if (arg === "-X" || arg === "--request") {
+      method = args[index + 1]?.toUpperCase() ?? null;
+      index += 1;
+    } else if (arg.startsWith("--method=") || arg.startsWith("--request=")) {
+      method = arg.slice(arg.indexOf("=") + 1).toUpperCase();
+    } else if (arg === "-I" || arg === "--head") {
+      method = "HEAD";
+    } else if (
+      /^(?:-d|-F|--data(?:-\w+)?|--form|--json|--post-data|--post-file)(?:=|$)/.test(
+        arg,
+      )
+    ) {
+      sendsBody = true;
+    } else if (
+      HTTP_METHODS.has(arg.toUpperCase()) &&
+      arg === arg.toUpperCase()
+    ) {
+      // httpie and xh take the method as a bare positional
+      method = arg;
+    } else if (!rawUrl && /^https?:\/\//i.test(arg)) {
+      rawUrl = arg;
+    }
+  }
+
+  let url: string | null = null;
+  let host: string | null = null;
+  if (rawUrl) {
+    try {
+      const parsed = new URL(rawUrl);
+      url = `${parsed.origin}${parsed.pathname}`;
+      host = parsed.host;
+    } catch {
+      url = rawUrl.replace(/[?#].*$/, "");
+    }
+  }
+
+  // The last status line wins so redirects report the final response
+  const statusCode =
+    getCount(output, /^(?:< )?HTTP\/[\d.]+ (\d{3})\b/gm) ??
+    getCount(output, /awaiting response\.\.\. (\d{3})\b/g) ??
+    getCount(output, /\bstatus(?: code)?:? (\d{3})\b/gi);
+
+  return {
+    httpClient: client,
+    httpMethod: method ?? (sendsBody ? "POST" : "GET"),
+    url,
+    host,
+    statusCode,
+  };
+}
+
+export function extractMigration(
+  args: string[],
+  text: string,
+): MigrationMetadata {
+  const action = args
+    .map((arg) => arg.toLowerCase().replace(/^migrate:/, ""))
+    .map((arg) =>
+      /^(?:deploy|dev|up|upgrade|latest|apply|migrate|run)$/.test(arg)
+        ? "apply"
+        : /^(?:down|downgrade|rollback|reset|undo)$/.test(arg)
+          ? "rollback"
+          : /^(?:generate|revision|make|makemigrations|create|new)$/.test(arg)
+            ? "create"
+            : /^(?:status|history|current|show)$/.test(arg)
+              ? "status"
+              : arg === "push"
+                ? "push"
+                : null,
+    )
+    .find(Boolean);
+
+  return {
+    migrationTool: firstMatchingTool(text, [
+      [/\bprisma\b/i, "prisma"],
+      [/\bdrizzle-kit\b/i, "drizzle"],
+      [/\balembic\b/i, "alembic"],
+      [/\bflyway\b/i, "flyway"],
+      [/\bsequelize\b/i, "sequelize"],
+      [/\bknex\b/i, "knex"],
+      [/\bmanage\.py\b/i, "django"],
+      [/\brails\b|\brake\b/i, "rails"],
+      [/\bgoose\b/i, "goose"],
+      [/\bdiesel\b/i, "diesel"],
+      [/\bsqlx\b/i, "sqlx"],
+    ]),
+    migrationAction: action ?? null,
+    migrationNames: unique([
+      // prisma: Applying migration `20240301120000_add_users`
+      ...[...text.matchAll(/Applying migration `([^`]+)`/g)].map((m) => m[1]!),
+      // alembic: Running upgrade 1a2b -> 3c4d, add users
+      ...[...text.matchAll(/Running (?:upgrade|downgrade) \S* ?-> (\w+)/g)].map(
+        (m) => m[1]!,
+      ),
+      // django: Applying users.0002_add_email... OK
+      ...[...text.matchAll(/^\s+Applying ([\w.]+)\.\.\./gm)].map((m) => m[1]!),
+      // sequelize: == 20240301-create-user: migrating =======
+      ...[...text.matchAll(/^== ([\w.-]+): migrat/gm)].map((m) => m[1]!),
+    ]),
+  };
+}
@@ -5,6 +5,33 @@ import type {
   SessionMessageRecord,
   TimelineEventRecord,
 } from "../lib/storage/index.js";
+import {
+  createRedactor,
+  describeRedactions,
+  mergeRedactionSummaries,
+  type RedactionSummary,
+  type Redactor,
+} from "../lib/redaction.js";
+import {
+  extractBuildResult,
+  extractDependencyVersions,
+  extractHttpRequest,
+  extractLintResult,
+  extractMigration,
+  isHttpClientCommand,
+} from "./command-artifacts.js";
+import {
+  DIAGNOSTIC_LANGUAGES,
+  parseDiagnostics,
+  type Diagnostic,
+} from "./diagnostics.js";
+import { resolveIngestionRules, type IngestionRules } from "./rules.js";
+import {
+  detectTestReportFormat,
+  parseTestReport,
+  type TestCaseResult,
+  type TestReportFormat,
+} from "./test-reports.js";
 import type { SourceRef } from "./types.js";
 
 interface ArtifactCandidate {
@@ -72,9 +99,13 @@ function getString(value: unknown): string | null {
   return typeof value === "string" && value.trim() ? value.trim() : null;
 }
 
-function getPrimaryCommand(text: string): string | null {
+function getPrimaryCommand(text: string, rules: IngestionRules): string | null {
   const normalized = text.trim().toLowerCase();
-  for (const prefix of COMMAND_PREFIXES) {
+  const prefixes = [
+    ...rules.commandFamilies.flatMap((family) => family.commands),
+    ...COMMAND_PREFIXES,
+  ];
+  for (const prefix of prefixes) {
     if (
       normalized === prefix ||
       normalized.startsWith(`${prefix} `) ||
@@ -99,10 +130,18 @@ function sanitizeIssueKey(value: string): string {
     .replace(/^-+|-+$/g, "");
 }
 
+function findRule<T extends { pattern: RegExp }>(
+  rules: T[],
+  text: string,
+): T | null {
+  return rules.find((rule) => rule.pattern.test(text)) ?? null;
+}
+
 function resolveCommandParts(
   commandInput: string | null,
   argInput: string[],
   fallbackText: string,
+  rules: IngestionRules,
 ): {
   command: string | null;
   args: string[];
@@ -122,7 +161,8 @@ function resolveCommandParts(
     [command, ...args].filter(Boolean).join(" "),
   );
   const invocation = joinedInvocation || fallbackInvocation;
-  const primaryCommand = getPrimaryCommand(invocation) ?? (command || null);
+  const primaryCommand =
+    getPrimaryCommand(invocation, rules) ?? (command || null);
 
   if (args.length === 0 && invocation) {
     const tokens = invocation.split(" ");
@@ -292,6 +332,7 @@ function extractTestIdentifiers(text: string): {
 function extractFailureSignature(
   text: string,
   category: string,
+  diagnostic: Diagnostic | null = null,
 ): {
   failureSignatureKey: string | null;
   failureSignatureLabel: string | null;
@@ -299,7 +340,9 @@ function extractFailureSignature(
   lintRuleId: string | null;
 } {
   const errorCode = extractErrorCode(text);
-  const lintRuleId = extractLintRuleId(text, category);
+  const lintRuleId =
+    extractLintRuleId(text, category) ??
+    (diagnostic?.source === "eslint" ? diagnostic.errorCode : null);
 
   if (lintRuleId) {
     return {
@@ -319,6 +362,21 @@ function extractFailureSignature(
     };
   }
 
+  // Language-specific codes cluster across commands; assertion failures stay
+  // with the generic assertion signature below whatever the language
+  if (
+    diagnostic?.errorCode &&
+    !/^Assertion(?:Error)?$/i.test(diagnostic.errorCode)
+  ) {
+    const language = DIAGNOSTIC_LANGUAGES[diagnostic.source];
+    return {
+      failureSignatureKey: `${language.key}:${sanitizeIssueKey(diagnostic.errorCode)}`,
+      failureSignatureLabel: `${language.label} ${diagnostic.errorCode}`,
+      errorCode: diagnostic.errorCode,
+      lintRuleId: null,
+    };
+  }
+
   const signatures: Array<{ pattern: RegExp; key: string; label: string }> = [
     {
       pattern: /\b(?:EACCES|EPERM|permission denied)\b/i,
@@ -379,6 +437,22 @@ function extractFailureSignature(
   };
 }
 
+function buildDiagnosticMetadata(diagnostic: Diagnostic | null): {
+  diagnosticSource: string | null;
+  diagnosticFile: string | null;
+  diagnosticLine: number | null;
+  diagnosticSymbol: string | null;
+  topFrame: string | null;
+} {
+  return {
+    diagnosticSource: diagnostic?.source ?? null,
+    diagnosticFile: diagnostic?.file ?? null,
+    diagnosticLine: diagnostic?.line ?? null,
+    diagnosticSymbol: diagnostic?.symbol ?? null,
+    topFrame: diagnostic?.topFrame ?? null,
+  };
+}
+
 function classifyCommandCategory(text: string): string {
   if (
     /\b(?:vitest|jest|pytest|cargo test|go test|pnpm test|npm test|yarn test|bun test)\b/i.test(
@@ -462,7 +536,18 @@ function classifyCommandCategory(text: string): string {
 function classifyCommandFamily(
   command: string | null,
   invocation: string,
+  rules: IngestionRules,
 ): string {
+  const normalized = normalizeWhitespace(invocation).toLowerCase();
+  const ruleFamily = rules.commandFamilies.find((family) =>
+    family.commands.some(
+      (prefix) => normalized === prefix || normalized.startsWith(`${prefix} `),
+    ),
+  );
+  if (ruleFamily) {
+    return ruleFamily.family;
+  }
+
   if (getPackageManager(command)) {
     return "package-manager";
   }
@@ -495,6 +580,53 @@ function humanizeKey(value: string): string {
   return value.replace(/-/g, " ");
 }
 
+/**
+ * Identity for failures whose command says nothing about the issue, such as
+ * `cargo run` or `go vet`: the diagnostic's language, code, and file. The
+ * family is the code alone, so the same error in different files clusters.
+ */
+function buildDiagnosticIssueIdentity(
+  diagnostic: Diagnostic | null | undefined,
+): {
+  issueKey: string | null;
+  issueLabel: string | null;
+  issueFamilyKey: string | null;
+  issueFamilyLabel: string | null;
+} {
+  const issueBase = [diagnostic?.errorCode, diagnostic?.file]
+    .filter(Boolean)
+    .join(" ");
+  if (!diagnostic || !sanitizeIssueKey(issueBase)) {
+    return {
+      issueKey: null,
+      issueLabel: null,
+      issueFamilyKey: null,
+      issueFamilyLabel: null,
+    };
+  }
+
+  const language = DIAGNOSTIC_LANGUAGES[diagnostic.source];
+  const familyBase = diagnostic.errorCode
+    ? sanitizeIssueKey(diagnostic.errorCode)
+    : "";
+  return {
+    issueKey: `${language.key}:${sanitizeIssueKey(issueBase)}`,
+    issueLabel: truncate(
+      [
+        `${language.label} ${diagnostic.errorCode ?? "error"}`,
+        diagnostic.file ? `in ${diagnostic.file}` : "",
+      ]
+        .filter(Boolean)
+        .join(" "),
+      96,
+    ),
+    issueFamilyKey: familyBase ? `${language.key}-family:${familyBase}` : null,
+    issueFamilyLabel: diagnostic.errorCode
+      ? truncate(`${language.label} ${diagnostic.errorCode}`, 96)
+      : null,
+  };
+}
+
 function buildIssueFamilyIdentity(options: {
   category: string;
   command: string | null;
@@ -502,9 +634,13 @@ function buildIssueFamilyIdentity(options: {
   packageManager: string | null;
   scriptName: string | null;
   framework?: string | null;
+  diagnostic?: Diagnostic | null;
 }): { issueFamilyKey: string | null; issueFamilyLabel: string | null } {
-  if (["command", "package-manager"].includes(options.category)) {
-    return { issueFamilyKey: null, issueFamilyLabel: null };
+  if (["command", "package-manager", "http"].includes(options.category)) {
+    const { issueFamilyKey, issueFamilyLabel } = buildDiagnosticIssueIdentity(
+      options.diagnostic,
+    );
+    return { issueFamilyKey, issueFamilyLabel };
   }
 
   let familyBase: string | null = null;
@@ -565,19 +701,17 @@ function buildIssueIdentity(options: {
   packageManager: string | null;
   scriptName: string | null;
   framework?: string | null;
+  diagnostic?: Diagnostic | null;
 }): {
   issueKey: string | null;
   issueLabel: string | null;
   issueFamilyKey: string | null;
   issueFamilyLabel: string | null;
 } {
-  if (["command", "package-manager"].includes(options.category)) {
-    return {
-      issueKey: null,
-      issueLabel: null,
-      issueFamilyKey: null,
-      issueFamilyLabel: null,
-    };
+  // Other categories keep the command identity even when a diagnostic was
+  // parsed, so failed and fixed runs of the same command stay one issue
+  if (["command", "package-manager", "http"].includes(options.category)) {
+    return buildDiagnosticIssueIdentity(options.diagnostic);
   }
 
   const issueBase =
@@ -632,7 +766,35 @@ function buildIssueIdentity(options: {
   };
 }
 
-function classifyTestFramework(text: string): string {
+/**
+ * Identity from the first user-defined issue-key extractor that matches the
+ * command's invocation or output; null leaves the built-in identity alone
+ */
+function buildRuleIssueIdentity(
+  text: string,
+  rules: IngestionRules,
+): { issueKey: string; issueLabel: string } | null {
+  for (const rule of rules.issueKeys) {
+    const match = text.match(rule.pattern);
+    const value = (match?.[1] ?? match?.[0])?.trim();
+    const sanitized = value ? sanitizeIssueKey(value) : "";
+    if (value && sanitized) {
+      return {
+        issueKey: `${rule.prefix}:${sanitized}`,
+        issueLabel: truncate(`${rule.prefix} ${value}`, 96),
+      };
+    }
+  }
+
+  return null;
+}
+
+function classifyTestFramework(text: string, rules: IngestionRules): string {
+  const rule = findRule(rules.testFrameworks, text);
+  if (rule) {
+    return rule.framework;
+  }
+
   if (/\bvitest\b/i.test(text)) {
     return "vitest";
   }
@@ -656,11 +818,19 @@ function classifyTestFramework(text: string): string {
   return "generic";
 }
 
-function classifyPathCategory(filePath: string | null): string | null {
+function classifyPathCategory(
+  filePath: string | null,
+  rules: IngestionRules,
+): string | null {
   if (!filePath) {
     return null;
   }
 
+  const rule = findRule(rules.pathCategories, filePath);
+  if (rule) {
+    return rule.category;
+  }
+
   if (/(^|\/)(README|CHANGELOG|LICENSE)\b|\.md$/i.test(filePath)) {
     return "docs";
   }
@@ -687,7 +857,10 @@ function classifyPathCategory(filePath: string | null): string | null {
   return "source";
 }
 
-function classifyChangeScope(filePath: string | null): string | null {
+function classifyChangeScope(
+  filePath: string | null,
+  rules: IngestionRules,
+): string | null {
   if (!filePath) {
     return null;
   }
@@ -715,7 +888,7 @@ function classifyChangeScope(filePath: string | null): string | null {
     return "migration";
   }
 
-  return classifyPathCategory(filePath);
+  return classifyPathCategory(filePath, rules);
 }
 
 function getManifestKind(filePath: string | null): string | null {
@@ -773,12 +946,16 @@ function buildCommandMetadata(
     content?: string;
     role?: string;
     source?: string;
+    projectRoot?: string | null;
+    rules: IngestionRules;
   },
 ): Record<string, unknown> {
+  const { rules } = options;
   const resolved = resolveCommandParts(
     getString(payload?.command),
     toStringArray(payload?.args),
     options.content ?? options.summary ?? "Command activity captured",
+    rules,
   );
   const payloadText = getPayloadText(payload);
   const textCorpus = [
@@ -789,28 +966,51 @@ function buildCommandMetadata(
     options.content ?? "",
     ...payloadText,
   ].join("\n");
-  const category = classifyCommandCategory(textCorpus);
+  const category =
+    findRule(rules.commandCategories, resolved.invocation)?.category ??
+    (isHttpClientCommand(resolved.command)
+      ? "http"
+      : classifyCommandCategory(textCorpus));
   const commandFamily = classifyCommandFamily(
     resolved.command,
     resolved.invocation,
+    rules,
   );
   const packageManager = getPackageManager(resolved.command);
   const scriptName = getScriptName(packageManager, resolved.args);
-  const outcome = inferOutcome(options.status ?? null, payload);
+  const httpRequest =
+    category === "http"
+      ? extractHttpRequest(
+          resolved.command,
+          resolved.args,
+          payloadText.join("\n"),
+        )
+      : null;
+  // curl and wget exit 0 on error responses unless told otherwise
+  const outcome =
+    httpRequest?.statusCode && httpRequest.statusCode >= 400
+      ? "failed"
+      : inferOutcome(options.status ?? null, payload);
   const dependencyMetadata = extractDependencyMetadata(
     category,
     packageManager,
     resolved.args,
   );
   const framework =
-    category === "test" ? classifyTestFramework(textCorpus) : null;
+    category === "test" ? classifyTestFramework(textCorpus, rules) : null;
   const testIdentifiers =
     category === "test"
       ? extractTestIdentifiers(textCorpus)
       : { testSuite: null, testCase: null };
+  // Lint and build runs report findings even when they pass
+  const diagnostics =
+    outcome === "failed" || category === "lint" || category === "build"
+      ? parseDiagnostics(textCorpus, { projectRoot: options.projectRoot })
+      : [];
+  const diagnostic = outcome === "failed" ? (diagnostics[0] ?? null) : null;
   const failureSignature =
     outcome === "failed"
-      ? extractFailureSignature(textCorpus, category)
+      ? extractFailureSignature(textCorpus, category, diagnostic)
       : {
           failureSignatureKey: null,
           failureSignatureLabel: null,
@@ -825,8 +1025,24 @@ function buildCommandMetadata(
     packageManager,
     scriptName,
     framework,
+    diagnostic,
   });
   const invocation = truncate(options.summary ?? resolved.invocation);
+  const typedMetadata =
+    category === "lint"
+      ? extractLintResult(textCorpus, diagnostics)
+      : category === "build"
+        ? extractBuildResult(textCorpus, diagnostics, outcome === "failed")
+        : category === "install"
+          ? {
+              dependencyVersions: extractDependencyVersions(
+                textCorpus,
+                dependencyMetadata.dependencyNames,
+              ),
+            }
+          : category === "migration"
+            ? extractMigration(resolved.args, textCorpus)
+            : httpRequest;
 
   return {
     sourceRefs,
@@ -844,7 +1060,10 @@ function buildCommandMetadata(
     ...dependencyMetadata,
     ...testIdentifiers,
     ...failureSignature,
+    ...buildDiagnosticMetadata(diagnostic),
+    ...typedMetadata,
     ...issueIdentity,
+    ...buildRuleIssueIdentity(textCorpus, rules),
     status: options.status ?? null,
     outcome,
     payload,
@@ -854,6 +1073,34 @@ function buildCommandMetadata(
   };
 }
 
+/**
+ * Lint runs, builds, dependency changes, migrations, and HTTP calls get their
+ * own artifact types; every other command stays `command-output`
+ */
+function getCommandArtifactType(
+  metadata: Record<string, unknown>,
+): ArtifactRecord["artifactType"] {
+  switch (metadata.category) {
+    case "lint":
+      return "lint-result";
+    case "build":
+      return "build-result";
+    case "migration":
+      return "migration";
+    case "http":
+      return "http-request";
+    case "install":
+      // A bare `pnpm install` only syncs what the manifest already says
+      return ["add", "remove", "update"].includes(
+        metadata.dependencyAction as string,
+      ) || toStringArray(metadata.dependencyNames).length > 0
+        ? "dependency-change"
+        : "command-output";
+    default:
+      return "command-output";
+  }
+}
+
 function buildTestMetadata(
   sourceRefs: SourceRef[],
   payload: Record<string, unknown> | null,
@@ -864,8 +1111,11 @@ function buildTestMetadata(
     content?: string;
     role?: string;
     source?: string;
+    projectRoot?: string | null;
+    rules: IngestionRules;
   },
 ): Record<string, unknown> {
+  const { rules } = options;
   const commandInput = getString(payload?.command);
   const payloadText = getPayloadText(payload);
   const resolved = resolveCommandParts(
@@ -874,6 +1124,7 @@ function buildTestMetadata(
     [options.summary ?? "", options.content ?? "", commandInput ?? ""].join(
       " ",
     ),
+    rules,
   );
   const summary = truncate(
     options.summary ?? options.content ?? "Test activity captured",
@@ -884,18 +1135,24 @@ function buildTestMetadata(
     resolved.invocation,
     ...payloadText,
   ].join("\n");
-  const framework = classifyTestFramework(haystack);
+  const framework = classifyTestFramework(haystack, rules);
   const packageManager = getPackageManager(resolved.command);
   const scriptName = getScriptName(packageManager, resolved.args);
   const commandFamily = classifyCommandFamily(
     resolved.command,
     resolved.invocation,
+    rules,
   );
   const outcome = inferOutcome(options.status ?? null, payload);
   const testIdentifiers = extractTestIdentifiers(haystack);
+  const diagnostic =
+    outcome === "failed"
+      ? (parseDiagnostics(haystack, { projectRoot: options.projectRoot })[0] ??
+        null)
+      : null;
   const failureSignature =
     outcome === "failed"
-      ? extractFailureSignature(haystack, "test")
+      ? extractFailureSignature(haystack, "test", diagnostic)
       : {
           failureSignatureKey: null,
           failureSignatureLabel: null,
@@ -926,7 +1183,9 @@ function buildTestMetadata(
     scriptName,
     ...testIdentifiers,
     ...failureSignature,
+    ...buildDiagnosticMetadata(diagnostic),
     ...issueIdentity,
+    ...buildRuleIssueIdentity(haystack, rules),
     status: options.status ?? null,
     outcome,
     passed:
@@ -945,6 +1204,78 @@ function buildTestMetadata(
   };
 }
 
+const TEST_REPORT_FRAMEWORKS: Record<TestReportFormat, string> = {
+  junit: "junit",
+  tap: "tap",
+  "jest-json": "jest",
+};
+
+function buildTestCaseMetadata(
+  sourceRefs: SourceRef[],
+  testCase: TestCaseResult,
+  options: {
+    eventType: string;
+    format: TestReportFormat;
+    reportPath: string | null;
+    command: string | null;
+    rules: IngestionRules;
+  },
+): Record<string, unknown> {
+  const detected = classifyTestFramework(
+    [options.reportPath ?? "", options.command ?? ""].join("\n"),
+    options.rules,
+  );
+  const framework =
+    detected === "generic" ? TEST_REPORT_FRAMEWORKS[options.format] : detected;
+  const failureSignature =
+    testCase.status === "failed"
+      ? extractFailureSignature(testCase.failureMessage ?? "", "test")
+      : {
+          failureSignatureKey: null,
+          failureSignatureLabel: null,
+          errorCode: null,
+          lintRuleId: null,
+        };
+  const sanitized = sanitizeIssueKey(testCase.testId);
+  const marker =
+    testCase.status === "failed"
+      ? "FAIL"
+      : testCase.status === "skipped"
+        ? "SKIP"
+        : "PASS";
+
+  return {
+    sourceRefs,
+    eventType: options.eventType,
+    summary: truncate(`${marker} ${testCase.testId}`),
+    category: "test",
+    intent: "test",
+    framework,
+    reportFormat: options.format,
+    reportPath: options.reportPath,
+    testId: testCase.testId,
+    testSuite: testCase.suite,
+    testCase: testCase.name,
+    testFile: testCase.file,
+    durationMs: testCase.durationMs,
+    failureMessage: testCase.failureMessage,
+    ...failureSignature,
+    issueKey: sanitized ? `test-case:${sanitized}` : null,
+    issueLabel: truncate(testCase.testId, 96),
+    ...buildIssueFamilyIdentity({
+      category: "test",
+      command: options.command,
+      commandFamily: null,
+      packageManager: null,
+      scriptName: null,
+      framework,
+    }),
+    status: testCase.status,
+    outcome: testCase.status,
+    passed: testCase.status === "passed",
+  };
+}
+
 function buildFileMetadata(
   sourceRefs: SourceRef[],
   filePath: string | null,
@@ -954,6 +1285,7 @@ function buildFileMetadata(
     summary?: string | null;
     status?: string | null;
     content?: string;
+    rules: IngestionRules;
   },
 ): Record<string, unknown> {
   return {
@@ -966,8 +1298,8 @@ function buildFileMetadata(
           : (options.content ?? "File change captured")),
     ),
     category: "file-change",
-    pathCategory: classifyPathCategory(filePath),
-    changeScope: classifyChangeScope(filePath),
+    pathCategory: classifyPathCategory(filePath, options.rules),
+    changeScope: classifyChangeScope(filePath, options.rules),
     manifestKind: getManifestKind(filePath),
     status: options.status ?? null,
     payload,
@@ -1018,25 +1350,160 @@ function makeSourceRefs(...refs: SourceRef[]): SourceRef[] {
   });
 }
 
+/**
+ * One `test-result` artifact per test case in a structured report: a
+ * `test.report` event carrying a report file, or a command whose captured
+ * stdout is a TAP stream or a jest/vitest JSON report
+ */
+function fromTestReports(
+  event: TimelineEventRecord,
+  projectRoot: string | null,
+  rules: IngestionRules,
+): ArtifactCandidate[] {
+  const payload = parseJson(event.payload);
+  if (!payload) {
+    return [];
+  }
+
+  // Content is kept untrimmed: TAP nesting depends on leading indentation
+  const getContent = (value: unknown): string | null =>
+    typeof value === "string" && value.trim() ? value : null;
+  const reports: Array<{ content: string; path: string | null }> = [];
+  if (event.eventType === "test.report") {
+    const content = getContent(payload.content);
+    if (content) {
+      reports.push({ content, path: getString(payload.path) });
+    }
+  } else if (event.eventType.startsWith("command.")) {
+    for (const key of ["stdout", "output"]) {
+      const content = getContent(payload[key]);
+      if (content) {
+        reports.push({ content, path: null });
+      }
+    }
+  } else {
+    return [];
+  }
+
+  const command = [
+    getString(payload.command) ?? "",
+    ...toStringArray(payload.args),
+  ]
+    .join(" ")
+    .trim();
+  return reports.flatMap((report) => {
+    const format = detectTestReportFormat(report.content);
+    if (!format) {
+      return [];
+    }
+
+    return parseTestReport(report.content, format, { projectRoot }).map(
+      (testCase) => ({
+        artifactType: "test-result" as const,
+        path: report.path ?? testCase.file,
+        eventId: event.id,
+        metadata: buildTestCaseMetadata(
+          makeSourceRefs({ type: "event", id: event.id }),
+          testCase,
+          {
+            eventType: event.eventType,
+            format,
+            reportPath: report.path,
+            command: command || null,
+            rules,
+          },
+        ),
+      }),
+    );
+  });
+}
+
+/** Host tools that fetch a URL, recorded as `http-request` artifacts */
+const FETCH_TOOLS = new Set(["WebFetch"]);
+
+/**
+ * `http-request` artifacts for fetches a host made through its own tools,
+ * such as Claude's `WebFetch`: the started event carries the URL and the
+ * matching completion carries the outcome
+ */
+function fromToolEvent(
+  event: TimelineEventRecord,
+  toolResults: Map<string, TimelineEventRecord>,
+): ArtifactCandidate | null {
+  if (
+    event.eventType !== "tool.started" ||
+    !event.eventSubType ||
+    !FETCH_TOOLS.has(event.eventSubType)
+  ) {
+    return null;
+  }
+
+  const payload = parseJson(event.payload);
+  const input =
+    payload?.input && typeof payload.input === "object"
+      ? (payload.input as Record<string, unknown>)
+      : {};
+  const url = getString(input.url);
+  if (!url) {
+    return null;
+  }
+
+  const toolUseId = getString(payload?.toolUseId);
+  const result = toolUseId ? (toolResults.get(toolUseId) ?? null) : null;
+  const request = extractHttpRequest(
+    event.eventSubType,
+    [url],
+    getString(parseJson(result?.payload ?? null)?.output) ?? "",
+  );
+  const status = result?.status ?? event.status;
+
+  return {
+    artifactType: "http-request",
+    path: null,
+    eventId: event.id,
+    metadata: {
+      sourceRefs: makeSourceRefs(
+        { type: "event", id: event.id },
+        ...(result ? [{ type: "event" as const, id: result.id }] : []),
+      ),
+      eventType: event.eventType,
+      eventSubType: event.eventSubType,
+      summary: truncate(`${request.httpMethod} ${request.url ?? url}`),
+      category: "http",
+      intent: "http",
+      ...request,
+      status,
+      outcome:
+        request.statusCode && request.statusCode >= 400
+          ? "failed"
+          : inferOutcome(status, null),
+    },
+  };
+}
+
 function fromTimelineEvent(
   event: TimelineEventRecord,
+  projectRoot: string | null,
+  rules: IngestionRules,
 ): ArtifactCandidate | null {
   if (event.eventType.startsWith("command.")) {
-    const payload = parseJson(event.payload);
+    const metadata = buildCommandMetadata(
+      makeSourceRefs({ type: "event", id: event.id }),
+      parseJson(event.payload),
+      {
+        eventType: event.eventType,
+        eventSubType: event.eventSubType,
+        summary: event.summary,
+        status: event.status,
+        projectRoot,
+        rules,
+      },
+    );
     return {
-      artifactType: "command-output",
+      artifactType: getCommandArtifactType(metadata),
       path: null,
       eventId: event.id,
-      metadata: buildCommandMetadata(
-        makeSourceRefs({ type: "event", id: event.id }),
-        payload,
-        {
-          eventType: event.eventType,
-          eventSubType: event.eventSubType,
-          summary: event.summary,
-          status: event.status,
-        },
-      ),
+      metadata,
     };
   }
 
@@ -1053,6 +1520,8 @@ function fromTimelineEvent(
           eventType: event.eventType,
           summary: event.summary,
           status: event.status,
+          projectRoot,
+          rules,
         },
       ),
     };
@@ -1073,6 +1542,7 @@ function fromTimelineEvent(
           eventType: event.eventType,
           summary: event.summary,
           status: event.status,
+          rules,
         },
       ),
     };
@@ -1102,6 +1572,7 @@ function fromTimelineEvent(
 function fromMessage(
   detail: SessionDetail,
   message: SessionMessageRecord,
+  rules: IngestionRules,
 ): ArtifactCandidate[] {
   const event = getEventForMessage(detail, message);
   const refs = makeSourceRefs(
@@ -1110,21 +1581,30 @@ function fromMessage(
   );
   const candidates: ArtifactCandidate[] = [];
 
-  if (COMMAND_PATTERN.test(message.content)) {
+  if (
+    COMMAND_PATTERN.test(message.content) ||
+    rules.commandPattern?.test(message.content)
+  ) {
+    const metadata = buildCommandMetadata(refs, null, {
+      summary: message.content,
+      content: message.content,
+      role: message.role,
+      source: message.source,
+      projectRoot: detail.session.projectRoot,
+      rules,
+    });
     candidates.push({
-      artifactType: "command-output",
+      artifactType: getCommandArtifactType(metadata),
       path: null,
       eventId: event?.id ?? null,
-      metadata: buildCommandMetadata(refs, null, {
-        summary: message.content,
-        content: message.content,
-        role: message.role,
-        source: message.source,
-      }),
+      metadata,
     });
   }
 
-  if (TEST_PATTERN.test(message.content)) {
+  if (
+    TEST_PATTERN.test(message.content) ||
+    findRule(rules.testFrameworks, message.content)
+  ) {
     candidates.push({
       artifactType: "test-result",
       path: null,
@@ -1134,6 +1614,8 @@ function fromMessage(
         content: message.content,
         role: message.role,
         source: message.source,
+        projectRoot: detail.session.projectRoot,
+        rules,
       }),
     });
   }
@@ -1147,6 +1629,7 @@ function fromMessage(
       metadata: buildFileMetadata(refs, filePath, null, {
         summary: `Referenced file: ${filePath}`,
         content: message.content,
+        rules,
       }),
     });
   }
@@ -1157,12 +1640,16 @@ function fromMessage(
 export function runDeterministicIngestion(
   db: EvidenceDatabase,
   sessionId: string,
+  options: { redactor?: Redactor; rules?: IngestionRules } = {},
 ): ArtifactRecord[] {
   const detail = db.getSessionDetail(sessionId);
   if (!detail) {
     throw new Error(`Session not found: ${sessionId}`);
   }
 
+  const rules =
+    options.rules ?? resolveIngestionRules({}, detail.session.projectRoot);
+
   const run = db.createIngestionRun({
     sessionId,
     stage: "deterministic",
@@ -1171,20 +1658,48 @@ export function runDeterministicIngestion(
 
   try {
     const artifactCandidates: ArtifactCandidate[] = [];
+    const toolResults = new Map<string, TimelineEventRecord>();
+    for (const event of detail.timeline) {
+      const toolUseId =
+        event.eventType === "tool.completed" ||
+        event.eventType === "tool.failed"
+          ? getString(parseJson(event.payload)?.toolUseId)
+          : null;
+      if (toolUseId) {
+        toolResults.set(toolUseId, event);
+      }
+    }
 
     for (const event of detail.timeline) {
-      const candidate = fromTimelineEvent(event);
+      const testCases = fromTestReports(
+        event,
+        detail.session.projectRoot,
+        rules,
+      );
+      artifactCandidates.push(...testCases);
+      if (event.eventType === "test.report" && testCases.length > 0) {
+        continue;
+      }
+
+      const candidate =
+        fromToolEvent(event, toolResults) ??
+        fromTimelineEvent(event, detail.session.projectRoot, rules);
       if (candidate) {
         artifactCandidates.push(candidate);
       }
     }
 
     for (const message of detail.messages) {
-      artifactCandidates.push(...fromMessage(detail, message));
+      artifactCandidates.push(...fromMessage(detail, message, rules));
     }
 
+    const redactor = options.redactor ?? createRedactor();
+    const redactions: RedactionSummary[] = [];
     const deduped = new Map<string, Omit<ArtifactRecord, "id" | "createdAt">>();
-    for (const artifact of artifactCandidates) {
+    for (const candidate of artifactCandidates) {
+      const metadata = redactor.redactValue(candidate.metadata);
+      redactions.push(metadata);
+      const artifact = { ...candidate, metadata: metadata.value };
       const key = [
         artifact.artifactType,
         artifact.eventId ?? "",
@@ -1207,6 +1722,28 @@ export function runDeterministicIngestion(
       sessionId,
       Array.from(deduped.values()),
     );
+    const redactionSummary = mergeRedactionSummaries(...redactions);
+    const timestamp = new Date().toISOString();
+    // Each run replaces the counts the previous run recorded
+    db.replaceIngestionTimelineEvent(
+      sessionId,
+      "redaction.applied",
+      redactionSummary.count > 0
+        ? {
+            eventSubType: "artifacts",
+            summary: describeRedactions(redactionSummary),
+            payload: JSON.stringify({
+              count: redactionSummary.count,
+              byType: redactionSummary.byType,
+              ingestionRunId: run.id,
+            }),
+            startedAt: timestamp,
+            endedAt: timestamp,
+            status: "redacted",
+            relatedMessageId: null,
+          }
+        : null,
+    );
     db.completeIngestionRun(run.id, "completed");
     return artifacts;
   } catch (error) {
@@ -0,0 +1,528 @@
+import * as path from "node:path";
+
+/**
+ * Language-aware diagnostics: compiler errors, lint findings, and stack
+ * traces parsed out of captured command output.
+ *
+ * Each parser recognizes one tool's output shape and reports where the
+ * failure happened (file, line, symbol), what kind of failure it was (error
+ * code or exception type), and for stack traces the innermost frame inside
+ * the project. Deterministic ingestion keys failure signatures and issue
+ * identities on these, so the same Rust `E0382` or Python `KeyError` clusters
+ * together whichever command surfaced it. Output no parser recognizes yields
+ * no diagnostics.
+ */
+
+export type DiagnosticSource =
+  "tsc" | "eslint" | "python" | "pytest" | "rustc" | "go" | "node";
+
+export interface Diagnostic {
+  source: DiagnosticSource;
+  file: string | null;
+  line: number | null;
+  column: number | null;
+  /** Function, test, or identifier the diagnostic points at */
+  symbol: string | null;
+  /** Compiler code, lint rule, exception type, or panic kind */
+  errorCode: string | null;
+  message: string;
+  /** Innermost stack frame inside the project, as `file:line` plus function */
+  topFrame: string | null;
+}
+
+/** Language each diagnostic source reports for, used in signature keys */
+export const DIAGNOSTIC_LANGUAGES: Record<
+  DiagnosticSource,
+  { key: string; label: string }
+> = {
+  tsc: { key: "typescript", label: "TypeScript" },
+  eslint: { key: "eslint", label: "ESLint" },
+  python: { key: "python", label: "Python" },
+  pytest: { key: "python", label: "Python" },
+  rustc: { key: "rust", label: "Rust" },
+  go: { key: "go", label: "Go" },
+  node: { key: "node", label: "Node" },
+};
+
+interface ParseContext {
+  lines: string[];
+  relativize: (file: string) => string;
+}
+
+// eslint-disable-next-line no-control-regex
+const ANSI_PATTERN = /\u001b\[[0-9;]*m/g;
+
+const PYTHON_EXCEPTION_PATTERN =
+  /^([A-Za-z_][\w.]*(?:Error|Exception|Exit|Interrupt|Warning))(?::\s?(.*))?$/;
+
+const GO_PANIC_KINDS: Array<{ pattern: RegExp; kind: string }> = [
+  { pattern: /nil pointer dereference/i, kind: "nil pointer dereference" },
+  { pattern: /index out of range/i, kind: "index out of range" },
+  { pattern: /slice bounds out of range/i, kind: "slice bounds out of range" },
+  { pattern: /assignment to entry in nil map/i, kind: "nil map" },
+  { pattern: /integer divide by zero/i, kind: "divide by zero" },
+  { pattern: /interface conversion/i, kind: "interface conversion" },
+  { pattern: /concurrent map/i, kind: "concurrent map access" },
+];
+
+function quotedSymbol(message: string): string | null {
+  const match = message.match(/[`'"‘]([\w$.:<>-]+)[`'"’]/);
+  return match?.[1] ?? null;
+}
+
+function formatFrame(
+  file: string,
+  line: number | null,
+  symbol: string | null,
+): string {
+  const location = line === null ? file : `${file}:${line}`;
+  return symbol ? `${location} in ${symbol}` : location;
+}
+
+function isVendoredPath(file: string): boolean {
+  return (
+    /(?:^|[/\\])(?:node_modules|site-packages|dist-packages|\.cargo|vendor)[/\\]/.test(
+      file,
+    ) ||
+    /^(?:node:|internal\/|<)/.test(file) ||
+    /[/\\]lib[/\\]python\d/.test(file) ||
+    /[/\\]go[/\\]src[/\\](?:runtime|testing)[/\\]/.test(file)
+  );
+}
+
+function parseTsc({ lines, relativize }: ParseContext): Diagnostic[] {
+  const diagnostics: Diagnostic[] = [];
+  for (const line of lines) {
+    const match =
+      line.match(/^(.+?)\((\d+),(\d+)\):\s+error\s+(TS\d+):\s*(.*)$/) ??
+      line.match(/^(.+?):(\d+):(\d+)\s+-\s+error\s+(TS\d+):\s*(.*)$/);
+    if (!match) {
+      continue;
+    }
+
+    diagnostics.push({
+      source: "tsc",
+      file: relativize(match[1]!.trim()),
+      line: Number(match[2]),
+      column: Number(match[3]),
+      symbol: quotedSymbol(match[5]!),
+      errorCode: match[4]!,
+      message: match[5]!.trim(),
+      topFrame: null,
+    });
+  }
+
+  return diagnostics;
+}
+
+function parseEslint({ lines, relativize }: ParseContext): Diagnostic[] {
+  const diagnostics: Diagnostic[] = [];
+  let currentFile: string | null = null;
+  for (const line of lines) {
+    // Unix formatter: file:line:col: message [Error/rule]
+    const unix = line.match(
+      /^(.+?):(\d+):(\d+):\s+(.+?)\s+\[Error\/((?:@[\w-]+\/)?[\w-]+(?:\/[\w-]+)?)\]$/,
+    );
+    if (unix) {
+      diagnostics.push({
+        source: "eslint",
+        file: relativize(unix[1]!),
+        line: Number(unix[2]),
+        column: Number(unix[3]),
+        symbol: quotedSymbol(unix[4]!),
+        errorCode: unix[5]!,
+        message: unix[4]!,
+        topFrame: null,
+      });
+      continue;
+    }
+
+    // Stylish formatter: a file header, then indented findings
+    if (
+      /^(?:[A-Za-z]:\\|\/|\.{1,2}\/)?[\w@.-]+(?:[/\\][\w@.-]+)*\.\w+$/.test(
+        line,
+      )
+    ) {
+      currentFile = line;
+      continue;
+    }
+
+    const finding = line.match(
+      /^\s+(\d+):(\d+)\s+error\s+(.+?)(?:\s{2,}|\t+)((?:@[\w-]+\/)?[a-z][\w-]*(?:\/[a-z][\w-]*)?)\s*$/,
+    );
+    if (finding && currentFile) {
+      diagnostics.push({
+        source: "eslint",
+        file: relativize(currentFile),
+        line: Number(finding[1]),
+        column: Number(finding[2]),
+        symbol: quotedSymbol(finding[3]!),
+        errorCode: finding[4]!,
+        message: finding[3]!,
+        topFrame: null,
+      });
+    }
+  }
+
+  return diagnostics;
+}
+
+function parsePythonTraceback({
+  lines,
+  relativize,
+}: ParseContext): Diagnostic[] {
+  const diagnostics: Diagnostic[] = [];
+  for (let index = 0; index < lines.length; index += 1) {
+    if (!/^\s*Traceback \(most recent call last\):\s*$/.test(lines[index]!)) {
+      continue;
+    }
+
+    const frames: Array<{ file: string; line: number; symbol: string }> = [];
+    let cursor = index + 1;
+    for (; cursor < lines.length; cursor += 1) {
+      const frame = lines[cursor]!.match(
+        /^\s+File "(.+?)", line (\d+)(?:, in (.+))?$/,
+      );
+      if (frame) {
+        frames.push({
+          file: relativize(frame[1]!),
+          line: Number(frame[2]),
+          symbol: frame[3]?.trim() ?? "<module>",
+        });
+        continue;
+      }
+      // Source lines and caret markers under each frame are indented
+      if (/^\s/.test(lines[cursor]!) || !lines[cursor]!.trim()) {
+        continue;
+      }
+      break;
+    }
+
+    const exception = lines[cursor]?.match(PYTHON_EXCEPTION_PATTERN);
+    if (!exception || frames.length === 0) {
+      continue;
+    }
+
+    const top =
+      [...frames].reverse().find((frame) => !isVendoredPath(frame.file)) ??
+      frames.at(-1)!;
+    diagnostics.push({
+      source: "python",
+      file: top.file,
+      line: top.line,
+      column: null,
+      symbol: top.symbol,
+      errorCode: exception[1]!,
+      message: (exception[2] ?? "").trim() || exception[1]!,
+      topFrame: formatFrame(top.file, top.line, top.symbol),
+    });
+    index = cursor;
+  }
+
+  // With chained exceptions the last traceback is the one that was raised
+  return diagnostics.reverse();
+}
+
+function parsePytest({ lines, relativize }: ParseContext): Diagnostic[] {
+  // Long tracebacks: a `____ test_name ____` header per failure, frames that
+  // end in `path.py:line: ExceptionType`
+  const sections = new Map<
+    string,
+    Array<{ file: string; line: number; exception: string | null }>
+  >();
+  let current: string | null = null;
+  for (const line of lines) {
+    const header = line.match(/^_{3,} (.+?) _{3,}$/);
+    if (header) {
+      current = header[1]!;
+      sections.set(current, []);
+      continue;
+    }
+    const location = line.match(
+      /^(\S+?\.py):(\d+):(?:\s+([A-Za-z_][\w.]*))?\s*$/,
+    );
+    if (location && current) {
+      sections.get(current)!.push({
+        file: relativize(location[1]!),
+        line: Number(location[2]),
+        exception: location[3] ?? null,
+      });
+    }
+  }
+
+  const diagnostics: Diagnostic[] = [];
+  for (const line of lines) {
+    const summary = line.match(
+      /^(?:FAILED|ERROR) (\S+?\.py)(?:::(\S+))?(?: - (.*))?$/,
+    );
+    if (!summary) {
+      continue;
+    }
+
+    const file = relativize(summary[1]!);
+    const testName = summary[2] ?? null;
+    const message = summary[3]?.trim() ?? "";
+    const frames =
+      (testName &&
+        (sections.get(testName.replace(/::/g, ".")) ??
+          sections.get(testName.split("::").at(-1)!))) ||
+      [];
+    const testFrame = frames.find((frame) => frame.file === file);
+    const top = frames.at(-1) ?? null;
+    const exception =
+      message.match(
+        /^([A-Za-z_][\w.]*(?:Error|Exception|Exit|Interrupt))\b/,
+      )?.[1] ??
+      (/^assert\b/.test(message) ? "AssertionError" : null) ??
+      top?.exception ??
+      null;
+
+    diagnostics.push({
+      source: "pytest",
+      file,
+      line: testFrame?.line ?? null,
+      column: null,
+      symbol: testName,
+      errorCode: exception,
+      message: message || exception || "Test failed",
+      topFrame: top ? formatFrame(top.file, top.line, null) : null,
+    });
+  }
+
+  return diagnostics;
+}
+
+function parseRustc({ lines, relativize }: ParseContext): Diagnostic[] {
+  const diagnostics: Diagnostic[] = [];
+  for (let index = 0; index < lines.length; index += 1) {
+    const line = lines[index]!;
+    const error = line.match(/^error(?:\[(E\d{4})\])?: (.+)$/);
+    if (error) {
+      // Summary lines like `error: could not compile` carry no location
+      for (let cursor = index + 1; cursor < lines.length; cursor += 1) {
+        if (/^(?:error|warning)\b/.test(lines[cursor]!)) {
+          break;
+        }
+        const location = lines[cursor]!.match(/^\s*--> (.+?):(\d+):(\d+)$/);
+        if (location) {
+          diagnostics.push({
+            source: "rustc",
+            file: relativize(location[1]!),
+            line: Number(location[2]),
+            column: Number(location[3]),
+            symbol: quotedSymbol(error[2]!),
+            errorCode: error[1] ?? null,
+            message: error[2]!.trim(),
+            topFrame: null,
+          });
+          break;
+        }
+      }
+      continue;
+    }
+
+    // `panicked at src/lib.rs:4:5:` (1.73+) or `panicked at 'msg', src/lib.rs:4:5`
+    const panic =
+      line.match(/^thread '(.+?)' panicked at (.+?):(\d+):(\d+):?\s*$/) ??
+      line.match(/^thread '(.+?)' panicked at '(?:.*)', (.+?):(\d+):(\d+)$/);
+    if (panic) {
+      const file = relativize(panic[2]!);
+      const inlineMessage = line.match(/panicked at '(.*)', /)?.[1];
+      const message = (inlineMessage ?? lines[index + 1] ?? "").trim();
+      diagnostics.push({
+        source: "rustc",
+        file,
+        line: Number(panic[3]),
+        column: Number(panic[4]),
+        symbol: panic[1] === "main" ? null : panic[1]!,
+        errorCode: "panic",
+        message: message || "panicked",
+        topFrame: formatFrame(file, Number(panic[3]), null),
+      });
+    }
+  }
+
+  return diagnostics;
+}
+
+function parseGo({ lines, relativize }: ParseContext): Diagnostic[] {
+  const diagnostics: Diagnostic[] = [];
+  for (let index = 0; index < lines.length; index += 1) {
+    const line = lines[index]!;
+    const panic = line.match(/^panic: (.+?)(?: \[recovered\])?$/);
+    if (panic) {
+      // Frames come in pairs: `pkg.Func(...)` then `\t/path/file.go:12 +0x1d`
+      let top: { file: string; line: number; symbol: string } | null = null;
+      for (let cursor = index + 1; cursor + 1 < lines.length; cursor += 1) {
+        const location = lines[cursor + 1]!.match(/^\t(.+?\.go):(\d+)/);
+        const fn = lines[cursor]!.match(/^(\S.*)\([^()]*\)$/);
+        if (!fn || !location) {
+          continue;
+        }
+        const symbol = fn[1]!;
+        if (
+          /^(?:runtime|testing|panic)\b/.test(symbol) ||
+          isVendoredPath(location[1]!)
+        ) {
+          continue;
+        }
+        top = {
+          file: relativize(location[1]!),
+          line: Number(location[2]),
+          symbol,
+        };
+        break;
+      }
+
+      const kind = GO_PANIC_KINDS.find((candidate) =>
+        candidate.pattern.test(panic[1]!),
+      )?.kind;
+      diagnostics.push({
+        source: "go",
+        file: top?.file ?? null,
+        line: top?.line ?? null,
+        column: null,
+        symbol: top?.symbol ?? null,
+        errorCode: kind ? `panic: ${kind}` : "panic",
+        message: panic[1]!.trim(),
+        topFrame: top ? formatFrame(top.file, top.line, top.symbol) : null,
+      });
+      continue;
+    }
+
+    // `go test`: the failing test, then `file_test.go:12: message` under it
+    const testFailure = line.match(/^\s*--- FAIL: (\S+)/);
+    if (testFailure) {
+      const detail = lines[index + 1]?.match(/^\s+(\S+?\.go):(\d+): (.+)$/);
+      diagnostics.push({
+        source: "go",
+        file: detail ? relativize(detail[1]!) : null,
+        line: detail ? Number(detail[2]) : null,
+        column: null,
+        symbol: testFailure[1]!,
+        errorCode: null,
+        message: detail?.[3]?.trim() ?? `${testFailure[1]} failed`,
+        topFrame: null,
+      });
+      continue;
+    }
+
+    // `go build` and `go vet`: ./main.go:12:3: message
+    const compile = line.match(/^(\.{0,2}\/?[\w./-]+\.go):(\d+):(\d+): (.+)$/);
+    if (compile) {
+      const message = compile[4]!.trim();
+      diagnostics.push({
+        source: "go",
+        file: relativize(compile[1]!),
+        line: Number(compile[2]),
+        column: Number(compile[3]),
+        symbol:
+          message.match(/^undefined: ([\w.]+)/)?.[1] ??
+          message.match(
+            /^"?([\w.]+)"? (?:declared|imported) and not used/,
+          )?.[1] ??
+          quotedSymbol(message),
+        errorCode: null,
+        message,
+        topFrame: null,
+      });
+    }
+  }
+
+  return diagnostics;
+}
+
+function parseNodeStack({ lines, relativize }: ParseContext): Diagnostic[] {
+  const diagnostics: Diagnostic[] = [];
+  for (let index = 0; index < lines.length; index += 1) {
+    const header = lines[index]!.match(
+      /^\s*(?:Uncaught\s+)?((?:[A-Z]\w*)?(?:Error|Exception))(?: \[[A-Z][A-Z0-9_]+\])?: (.+)$/,
+    );
+    if (!header) {
+      continue;
+    }
+
+    const frames: Array<{ file: string; line: number; symbol: string | null }> =
+      [];
+    let cursor = index + 1;
+    for (; cursor < lines.length; cursor += 1) {
+      const frame = lines[cursor]!.match(
+        /^\s+at (?:async )?(?:(.+?) \()?(?:file:\/\/)?(.+?):(\d+):(\d+)\)?$/,
+      );
+      if (frame) {
+        frames.push({
+          file: frame[2]!,
+          line: Number(frame[3]),
+          symbol: frame[1]?.replace(/^(?:Object|Module)\./, "") ?? null,
+        });
+        continue;
+      }
+      // Stacks can be separated from their header by a code excerpt
+      if (frames.length > 0 || cursor - index > 8) {
+        break;
+      }
+    }
+    if (frames.length === 0) {
+      continue;
+    }
+
+    const projectFrame =
+      frames.find((frame) => !isVendoredPath(frame.file)) ?? frames[0]!;
+    const file = relativize(projectFrame.file);
+    diagnostics.push({
+      source: "node",
+      file,
+      line: projectFrame.line,
+      column: null,
+      symbol: projectFrame.symbol,
+      // System codes such as ENOENT or ERR_REQUIRE_ESM are left to the generic
+      // signatures; plain `Error` says nothing about the failure
+      errorCode: header[1] === "Error" ? null : header[1]!,
+      message: header[2]!.trim(),
+      topFrame: formatFrame(file, projectFrame.line, projectFrame.symbol),
+    });
+    index = cursor - 1;
+  }
+
+  return diagnostics;
+}
+
+// More specific output shapes first: pytest prints Python locations, and
+// most toolchains end up with a Node stack somewhere when they crash
+const PARSERS: Array<(context: ParseContext) => Diagnostic[]> = [
+  parsePytest,
+  parsePythonTraceback,
+  parseRustc,
+  parseGo,
+  parseTsc,
+  parseEslint,
+  parseNodeStack,
+];
+
+/**
+ * Parse compiler, lint, and runtime diagnostics out of command output
+ *
+ * @param text - Captured output, possibly with ANSI colors
+ * @param options - Project root used to shorten absolute file paths
+ * @returns Diagnostics with the most specific ones first
+ */
+export function parseDiagnostics(
+  text: string,
+  options: { projectRoot?: string | null } = {},
+): Diagnostic[] {
+  const relativize = (file: string): string => {
+    if (!options.projectRoot || !path.isAbsolute(file)) {
+      return file.replace(/^\.\//, "");
+    }
+    const relative = path.relative(options.projectRoot, file);
+    return relative && !relative.startsWith("..")
+      ? relative.split(path.sep).join("/")
+      : file;
+  };
+  const context: ParseContext = {
+    lines: text.replace(ANSI_PATTERN, "").split(/\r?\n/),
+    relativize,
+  };
+
+  return PARSERS.flatMap((parser) => parser(context));
+}
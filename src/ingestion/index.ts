@@ -1,15 +1,26 @@
-import type { EvidenceDatabase } from "../lib/storage/index.js";
-import { traceSyncOperation } from "../lib/observability.js";
+import type { EvidenceDatabase, SessionRecord } from "../lib/storage/index.js";
+import {
+  traceAsyncOperation,
+  traceSyncOperation,
+} from "../lib/observability.js";
+import type { Redactor } from "../lib/redaction.js";
 import { runDeterministicIngestion } from "./deterministic.js";
-import { runSemanticIngestion } from "./semantic.js";
+import { resolveIngestionRules, type IngestionRulesConfig } from "./rules.js";
+import {
+  draftSemanticWithSampling,
+  type SamplingClient,
+  type SemanticSource,
+} from "./sampling.js";
+import { buildSemanticDrafts, runSemanticIngestion } from "./semantic.js";
 import type { IngestionSummary } from "./types.js";
 
 export type { SourceRef, IngestionSummary } from "./types.js";
+export type { SamplingClient, SemanticSource } from "./sampling.js";
 
 function assertSessionCanBeReingested(
   db: EvidenceDatabase,
   sessionId: string,
-): void {
+): SessionRecord {
   const session = db.findSessionById(sessionId);
   if (!session) {
     throw new Error(`Session not found: ${sessionId}`);
@@ -20,11 +31,19 @@ function assertSessionCanBeReingested(
       `Session is still running and cannot be reingested yet: ${sessionId}`,
     );
   }
+
+  return session;
 }
 
+/**
+ * Re-derive artifacts, narratives, and decisions for a finished session.
+ * `rules` is the global ingestion rules config; the session project's own
+ * rules file is applied after it.
+ */
 export function reingestSessionHistory(
   db: EvidenceDatabase,
   sessionId: string,
+  options: { redactor?: Redactor; rules?: IngestionRulesConfig } = {},
 ): IngestionSummary {
   return traceSyncOperation(
     "reingest-session-history",
@@ -32,14 +51,75 @@ export function reingestSessionHistory(
       sessionId,
     },
     () => {
-      assertSessionCanBeReingested(db, sessionId);
-      const artifacts = runDeterministicIngestion(db, sessionId);
-      const semantic = runSemanticIngestion(db, sessionId);
+      const session = assertSessionCanBeReingested(db, sessionId);
+      const rules = resolveIngestionRules(options.rules, session.projectRoot);
+      const artifacts = runDeterministicIngestion(db, sessionId, {
+        redactor: options.redactor,
+        rules,
+      });
+      const semantic = runSemanticIngestion(db, sessionId, { rules });
+
+      return {
+        artifactsCreated: artifacts.length,
+        narrativesCreated: semantic.narratives.length,
+        decisionsCreated: semantic.decisions.length,
+      };
+    },
+  );
+}
+
+/**
+ * Re-derive a finished session with narratives and decisions drafted by the
+ * MCP client's model. Anything the model cannot back with sources keeps the
+ * rule-based draft, so the result is never worse than `reingestSessionHistory`.
+ */
+export async function reingestSessionHistoryWithSampling(
+  db: EvidenceDatabase,
+  sessionId: string,
+  options: {
+    sampling: SamplingClient;
+    redactor?: Redactor;
+    rules?: IngestionRulesConfig;
+  },
+): Promise<
+  IngestionSummary & {
+    semanticSource: SemanticSource;
+    fallbackReason: string | null;
+  }
+> {
+  return traceAsyncOperation(
+    "reingest-session-history",
+    {
+      sessionId,
+      sampling: true,
+    },
+    async () => {
+      const session = assertSessionCanBeReingested(db, sessionId);
+      const rules = resolveIngestionRules(options.rules, session.projectRoot);
+      const artifacts = runDeterministicIngestion(db, sessionId, {
+        redactor: options.redactor,
+        rules,
+      });
+      const detail = db.getSessionDetail(sessionId);
+      if (!detail) {
+        throw new Error(`Session not found: ${sessionId}`);
+      }
+
+      const sampled = await draftSemanticWithSampling(
+        detail,
+        buildSemanticDrafts(detail, rules),
+        options.sampling,
+      );
+      const semantic = runSemanticIngestion(db, sessionId, {
+        drafts: sampled.drafts,
+      });
 
       return {
         artifactsCreated: artifacts.length,
         narrativesCreated: semantic.narratives.length,
         decisionsCreated: semantic.decisions.length,
+        semanticSource: sampled.source,
+        fallbackReason: sampled.fallbackReason,
       };
     },
   );
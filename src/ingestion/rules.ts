@@ -0,0 +1,265 @@
+/* global process */
+import * as fs from "node:fs";
+import * as path from "node:path";
+import * as z from "zod";
+
+/**
+ * User-defined ingestion rules from `ingestion-rules.json`.
+ *
+ * The built-in classifiers only know common toolchains. Rules add command
+ * families, category and test framework detectors, issue-key extractors,
+ * decision and open-question phrases, and path categories on top of them.
+ * A global file sits next to the database and a project file at
+ * `.footprint/ingestion-rules.json` under the session's project root; both
+ * apply, and rules are tried in order before the built-in classifiers.
+ * Patterns are regular expressions matched case-insensitively.
+ */
+
+export const INGESTION_RULES_FILE = "ingestion-rules.json";
+export const PROJECT_INGESTION_RULES_PATH = path.join(
+  ".footprint",
+  INGESTION_RULES_FILE,
+);
+
+const keySchema = z
+  .string()
+  .regex(
+    /^[a-z0-9][a-z0-9-]*$/,
+    "Keys must be lowercase letters, digits, and dashes",
+  );
+
+const matchSchema = z
+  .string()
+  .min(1)
+  .superRefine((match, context) => {
+    try {
+      new RegExp(match, "i");
+    } catch (error) {
+      context.addIssue({
+        code: "custom",
+        message: error instanceof Error ? error.message : String(error),
+      });
+    }
+  });
+
+const phrasesSchema = z.array(z.string().trim().min(1)).default([]);
+
+export const ingestionRulesConfigSchema = z.object({
+  /** Commands recognized in transcripts, grouped under a command family */
+  commandFamilies: z
+    .array(
+      z.object({
+        family: keySchema,
+        /** Leading words of the invocation, such as `just` or `uv run` */
+        commands: z.array(z.string().trim().min(1)).min(1),
+      }),
+    )
+    .default([]),
+  /** Categories (test, build, lint, ...) for invocations matching `match` */
+  commandCategories: z
+    .array(z.object({ category: keySchema, match: matchSchema }))
+    .default([]),
+  /** Test frameworks detected from a test run's command and output */
+  testFrameworks: z
+    .array(z.object({ framework: keySchema, match: matchSchema }))
+    .default([]),
+  /**
+   * Issue keys taken from a command's invocation and output: the first
+   * capture group (or the whole match) becomes `<prefix>:<value>`
+   */
+  issueKeys: z
+    .array(z.object({ prefix: keySchema, match: matchSchema }))
+    .default([]),
+  decisionPhrases: z
+    .object({
+      accepted: phrasesSchema,
+      proposed: phrasesSchema,
+    })
+    .prefault({}),
+  openQuestionPhrases: phrasesSchema,
+  /** Path categories for changed files, such as `infra` or `generated` */
+  pathCategories: z
+    .array(z.object({ category: keySchema, match: matchSchema }))
+    .default([]),
+});
+
+export type IngestionRulesConfig = z.output<typeof ingestionRulesConfigSchema>;
+export type IngestionRulesConfigInput = z.input<
+  typeof ingestionRulesConfigSchema
+>;
+
+/** Ingestion rules with their patterns compiled, ready for classification */
+export interface IngestionRules {
+  commandFamilies: Array<{ family: string; commands: string[] }>;
+  /** Any rule command mentioned as words, for transcript messages */
+  commandPattern: RegExp | null;
+  commandCategories: Array<{ category: string; pattern: RegExp }>;
+  testFrameworks: Array<{ framework: string; pattern: RegExp }>;
+  issueKeys: Array<{ prefix: string; pattern: RegExp }>;
+  acceptedDecisionPattern: RegExp | null;
+  proposedDecisionPattern: RegExp | null;
+  openQuestionPattern: RegExp | null;
+  pathCategories: Array<{ category: string; pattern: RegExp }>;
+}
+
+/**
+ * Parse an ingestion rules config, applying defaults for anything left out
+ *
+ * @param input - Raw config object (for example the parsed ingestion-rules.json)
+ * @returns Normalized ingestion rules config
+ * @throws Error if the config is malformed or a pattern does not compile
+ */
+export function parseIngestionRulesConfig(
+  input: unknown,
+): IngestionRulesConfig {
+  const result = ingestionRulesConfigSchema.safeParse(input ?? {});
+  if (!result.success) {
+    throw new Error(
+      `Invalid ingestion rules: ${result.error.issues
+        .map((issue) => `${issue.path.join(".") || "<root>"}: ${issue.message}`)
+        .join("; ")}`,
+    );
+  }
+
+  return result.data;
+}
+
+/**
+ * Resolve where the global ingestion rules live for a database.
+ * FOOTPRINT_INGESTION_RULES wins; otherwise ingestion-rules.json sits next to
+ * the database file.
+ */
+export function resolveIngestionRulesPath(
+  dbPath: string,
+  env: NodeJS.ProcessEnv = process.env,
+): string {
+  return (
+    env.FOOTPRINT_INGESTION_RULES ||
+    path.join(path.dirname(path.resolve(dbPath)), INGESTION_RULES_FILE)
+  );
+}
+
+/**
+ * Load an ingestion rules file. A missing file adds no rules.
+ *
+ * @param filePath - Path to a JSON ingestion rules file
+ * @returns Normalized ingestion rules config
+ * @throws Error if the file is not valid JSON or fails validation
+ */
+export function loadIngestionRulesConfig(
+  filePath: string,
+): IngestionRulesConfig {
+  let raw: string;
+  try {
+    raw = fs.readFileSync(filePath, "utf8");
+  } catch (error) {
+    const code = (error as NodeJS.ErrnoException).code;
+    if (code === "ENOENT" || code === "ENOTDIR") {
+      return parseIngestionRulesConfig({});
+    }
+    throw error;
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch (error) {
+    throw new Error(
+      `Invalid ingestion rules at ${filePath}: ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+
+  try {
+    return parseIngestionRulesConfig(parsed);
+  } catch (error) {
+    throw new Error(
+      `${error instanceof Error ? error.message : String(error)} (${filePath})`,
+    );
+  }
+}
+
+function compilePhrases(phrases: string[]): RegExp | null {
+  if (phrases.length === 0) {
+    return null;
+  }
+
+  const alternatives = phrases.map((phrase) =>
+    phrase.replace(/[.*+?^${}()|[\]\\]/g, "\\$&").replace(/\s+/g, "\\s+"),
+  );
+  return new RegExp(`(?:^|\\W)(?:${alternatives.join("|")})(?=\\W|$)`, "i");
+}
+
+/**
+ * Compile the rules that apply to one session: the global config followed by
+ * the project's own rules file, when the project has one
+ *
+ * @param config - Global ingestion rules; defaults to none
+ * @param projectRoot - Session project root to read project rules from
+ * @returns Compiled ingestion rules
+ * @throws Error if the project rules file is invalid
+ */
+export function resolveIngestionRules(
+  config: IngestionRulesConfigInput | IngestionRulesConfig = {},
+  projectRoot: string | null = null,
+): IngestionRules {
+  const configs = [
+    parseIngestionRulesConfig(config),
+    ...(projectRoot
+      ? [
+          loadIngestionRulesConfig(
+            path.join(projectRoot, PROJECT_INGESTION_RULES_PATH),
+          ),
+        ]
+      : []),
+  ];
+  const compile = (match: string) => new RegExp(match, "i");
+  const commandFamilies = configs.flatMap((entry) =>
+    entry.commandFamilies.map((family) => ({
+      family: family.family,
+      // Longer prefixes first, so `uv run` wins over `uv`
+      commands: family.commands
+        .map((command) => command.toLowerCase().replace(/\s+/g, " "))
+        .sort((left, right) => right.length - left.length),
+    })),
+  );
+
+  return {
+    commandFamilies,
+    commandPattern: compilePhrases(
+      commandFamilies.flatMap((family) => family.commands),
+    ),
+    commandCategories: configs.flatMap((entry) =>
+      entry.commandCategories.map((rule) => ({
+        category: rule.category,
+        pattern: compile(rule.match),
+      })),
+    ),
+    testFrameworks: configs.flatMap((entry) =>
+      entry.testFrameworks.map((rule) => ({
+        framework: rule.framework,
+        pattern: compile(rule.match),
+      })),
+    ),
+    issueKeys: configs.flatMap((entry) =>
+      entry.issueKeys.map((rule) => ({
+        prefix: rule.prefix,
+        pattern: compile(rule.match),
+      })),
+    ),
+    acceptedDecisionPattern: compilePhrases(
+      configs.flatMap((entry) => entry.decisionPhrases.accepted),
+    ),
+    proposedDecisionPattern: compilePhrases(
+      configs.flatMap((entry) => entry.decisionPhrases.proposed),
+    ),
+    openQuestionPattern: compilePhrases(
+      configs.flatMap((entry) => entry.openQuestionPhrases),
+    ),
+    pathCategories: configs.flatMap((entry) =>
+      entry.pathCategories.map((rule) => ({
+        category: rule.category,
+        pattern: compile(rule.match),
+      })),
+    ),
+  };
+}
@@ -0,0 +1,367 @@
+import * as z from "zod";
+import type {
+  CreateMessageRequestParamsBase,
+  CreateMessageResult,
+} from "@modelcontextprotocol/sdk/types.js";
+import { parseArtifactMetadata } from "../lib/session-artifacts.js";
+import { getSessionLabel, truncateSummary } from "../lib/session-history.js";
+import type { NarrativeKind, SessionDetail } from "../lib/storage/index.js";
+import {
+  buildSourceRefs,
+  type DecisionDraft,
+  type NarrativeDraft,
+  type SemanticDrafts,
+} from "./semantic.js";
+import type { SourceRef } from "./types.js";
+
+/**
+ * Model-drafted semantic stage through MCP sampling.
+ *
+ * The client's model receives the session's messages, timeline events, and
+ * deterministic artifacts under short handles (`m1`, `e1`, `a1`) together
+ * with the rule-based drafts, and answers with claims that cite those
+ * handles. Claims that cite no known source are dropped. Each remaining claim
+ * becomes one bullet whose source refs carry its bullet number, so a reader
+ * can tell which sources back which claim. Sampled decisions are merged with
+ * the ones an agent recorded explicitly. A narrative or decision list the
+ * model leaves out, or a failed or malformed response, keeps the rule-based
+ * draft.
+ */
+
+/** The part of an MCP server used to ask the client's model for drafts */
+export interface SamplingClient {
+  getClientCapabilities(): { sampling?: object } | undefined;
+  createMessage(
+    params: CreateMessageRequestParamsBase,
+  ): Promise<CreateMessageResult>;
+}
+
+export type SemanticSource = "sampling" | "deterministic";
+
+export interface SampledSemanticDrafts {
+  drafts: SemanticDrafts;
+  /** `sampling` when any narrative or the decision list came from the model */
+  source: SemanticSource;
+  /** Why some or all of the rule-based drafts were kept */
+  fallbackReason: string | null;
+}
+
+const MAX_SOURCES_PER_TYPE = 60;
+const SOURCE_TEXT_LIMIT = 240;
+const SAMPLING_MAX_TOKENS = 2000;
+
+const NARRATIVE_FIELDS: Record<
+  NarrativeKind,
+  "journal" | "projectSummary" | "handoff"
+> = {
+  journal: "journal",
+  "project-summary": "projectSummary",
+  handoff: "handoff",
+};
+
+const claimSchema = z.object({
+  text: z.string().trim().min(1),
+  refs: z.array(z.string()).default([]),
+});
+
+const samplingResponseSchema = z.object({
+  journal: z.array(claimSchema).optional(),
+  projectSummary: z.array(claimSchema).optional(),
+  handoff: z.array(claimSchema).optional(),
+  decisions: z
+    .array(
+      z.object({
+        title: z.string().trim().min(1),
+        summary: z.string().trim().min(1),
+        rationale: z.string().trim().min(1).nullish(),
+        status: z.enum(["accepted", "proposed"]),
+        refs: z.array(z.string()).default([]),
+      }),
+    )
+    .optional(),
+});
+
+const SYSTEM_PROMPT = [
+  "You summarize recorded coding-agent sessions.",
+  "Reply with a single JSON object and nothing else.",
+  "Every claim and decision must cite the handles of the sources that support it, such as m1, e2, or a3.",
+  "Claims without a cited source are discarded, so do not state anything the sources do not show.",
+].join(" ");
+
+/** Keep the first and most recent items of long sessions */
+function pickSources<T>(items: T[]): T[] {
+  if (items.length <= MAX_SOURCES_PER_TYPE) {
+    return items;
+  }
+
+  return [
+    ...items.slice(0, 10),
+    ...items.slice(items.length - (MAX_SOURCES_PER_TYPE - 10)),
+  ];
+}
+
+function oneLine(value: string): string {
+  return truncateSummary(value.replace(/\s+/g, " ").trim(), SOURCE_TEXT_LIMIT);
+}
+
+function buildSourceIndex(detail: SessionDetail): {
+  handles: Map<string, SourceRef>;
+  lines: string[];
+} {
+  const handles = new Map<string, SourceRef>();
+  const lines: string[] = [];
+  const add = (handle: string, ref: SourceRef, line: string) => {
+    handles.set(handle, ref);
+    lines.push(`[${handle}] ${oneLine(line)}`);
+  };
+
+  pickSources(detail.messages).forEach((message, index) => {
+    add(
+      `m${index + 1}`,
+      { type: "message", id: message.id },
+      `${message.role}: ${message.content}`,
+    );
+  });
+  pickSources(detail.timeline).forEach((event, index) => {
+    add(
+      `e${index + 1}`,
+      { type: "event", id: event.id },
+      `${event.eventType}${event.status ? ` (${event.status})` : ""}${event.summary ? `: ${event.summary}` : ""}`,
+    );
+  });
+  pickSources(detail.artifacts).forEach((artifact, index) => {
+    const metadata = parseArtifactMetadata(artifact.metadata);
+    const outcome =
+      typeof metadata.outcome === "string" ? ` (${metadata.outcome})` : "";
+    const summary =
+      typeof metadata.summary === "string"
+        ? metadata.summary
+        : (artifact.path ?? "");
+    add(
+      `a${index + 1}`,
+      { type: "artifact", id: artifact.id },
+      `${artifact.artifactType}${outcome}: ${summary}`,
+    );
+  });
+  detail.notes.forEach((note, index) => {
+    add(
+      `n${index + 1}`,
+      { type: "note", id: note.id },
+      `${note.kind}: ${note.content}`,
+    );
+  });
+
+  return { handles, lines };
+}
+
+function buildPrompt(
+  detail: SessionDetail,
+  fallback: SemanticDrafts,
+  sourceLines: string[],
+  recordedDecisions: string[],
+): string {
+  const { session } = detail;
+  const shape = {
+    journal: [{ text: "What happened, in order", refs: ["e1"] }],
+    projectSummary: [{ text: "Goal, changes, and outcome", refs: ["m1"] }],
+    handoff: [
+      {
+        text: "Open blockers and next steps for whoever continues",
+        refs: ["a1"],
+      },
+    ],
+    decisions: [
+      {
+        title: "Short decision title",
+        summary: "What was decided or proposed",
+        rationale: "Why, or null",
+        status: "accepted | proposed",
+        refs: ["m2"],
+      },
+    ],
+  };
+
+  return [
+    `Session: ${getSessionLabel(session)} (host ${session.host}, status ${session.status})`,
+    "",
+    "Sources:",
+    ...sourceLines,
+    "",
+    "Rule-based drafts to improve on:",
+    ...fallback.narratives.map((narrative) => narrative.content),
+    "",
+    ...(recordedDecisions.length > 0
+      ? [
+          "Decisions already recorded by the agent; list only other decisions:",
+          ...recordedDecisions.map((title) => `- ${title}`),
+          "",
+        ]
+      : []),
+    "Reply with JSON in this shape, one claim per entry:",
+    JSON.stringify(shape),
+  ].join("\n");
+}
+
+function resolveRefs(
+  refs: string[],
+  handles: Map<string, SourceRef>,
+): SourceRef[] {
+  return refs
+    .map((ref) => handles.get(ref.replace(/[[\]\s]/g, "").toLowerCase()))
+    .filter((ref): ref is SourceRef => Boolean(ref));
+}
+
+function parseSamplingResponse(
+  result: CreateMessageResult,
+): z.output<typeof samplingResponseSchema> {
+  if (result.content.type !== "text") {
+    throw new Error(
+      `Sampling returned ${result.content.type} content instead of text`,
+    );
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(
+      result.content.text.trim().replace(/^```(?:json)?\s*|\s*```$/g, ""),
+    );
+  } catch {
+    throw new Error("Sampling response was not valid JSON");
+  }
+
+  const response = samplingResponseSchema.safeParse(parsed);
+  if (!response.success) {
+    throw new Error(
+      `Sampling response did not match the expected shape: ${response.error.issues
+        .map((issue) => `${issue.path.join(".") || "<root>"}: ${issue.message}`)
+        .join("; ")}`,
+    );
+  }
+
+  return response.data;
+}
+
+/**
+ * Ask the client's model to draft the session's narratives and decisions,
+ * keeping the rule-based drafts for anything it cannot support with sources
+ *
+ * @param detail - Session detail after deterministic ingestion
+ * @param fallback - Rule-based drafts from `buildSemanticDrafts()`
+ * @param client - MCP server connected to a client that may support sampling
+ * @returns Drafts to write, where they came from, and why any were kept
+ */
+export async function draftSemanticWithSampling(
+  detail: SessionDetail,
+  fallback: SemanticDrafts,
+  client: SamplingClient,
+): Promise<SampledSemanticDrafts> {
+  const keepFallback = (reason: string): SampledSemanticDrafts => ({
+    drafts: fallback,
+    source: "deterministic",
+    fallbackReason: reason,
+  });
+
+  if (!client.getClientCapabilities()?.sampling) {
+    return keepFallback("Client does not support sampling");
+  }
+
+  // Explicit decisions are authoritative: they are never redrafted, and a
+  // sampled decision with the same title is left out
+  const recordedDecisions = detail.decisions
+    .filter((decision) => decision.origin === "explicit")
+    .map((decision) => decision.title);
+  const recordedTitles = new Set(
+    recordedDecisions.map((title) =>
+      truncateSummary(title.trim(), 72).toLowerCase(),
+    ),
+  );
+  const { handles, lines } = buildSourceIndex(detail);
+
+  let response: z.output<typeof samplingResponseSchema>;
+  try {
+    response = parseSamplingResponse(
+      await client.createMessage({
+        systemPrompt: SYSTEM_PROMPT,
+        messages: [
+          {
+            role: "user",
+            content: {
+              type: "text",
+              text: buildPrompt(detail, fallback, lines, recordedDecisions),
+            },
+          },
+        ],
+        maxTokens: SAMPLING_MAX_TOKENS,
+        includeContext: "none",
+      }),
+    );
+  } catch (error) {
+    return keepFallback(error instanceof Error ? error.message : String(error));
+  }
+
+  const kept: string[] = [];
+  const narratives = fallback.narratives.map((draft): NarrativeDraft => {
+    const claims = (response[NARRATIVE_FIELDS[draft.kind]] ?? [])
+      .map((claim) => ({
+        text: claim.text,
+        refs: resolveRefs(claim.refs, handles),
+      }))
+      .filter((claim) => claim.refs.length > 0);
+    if (claims.length === 0) {
+      kept.push(draft.kind);
+      return draft;
+    }
+
+    return {
+      sessionId: draft.sessionId,
+      kind: draft.kind,
+      content: [
+        draft.content.split("\n")[0]!,
+        ...claims.map((claim) => `- ${claim.text}`),
+      ].join("\n"),
+      sourceRefs: buildSourceRefs(
+        claims.flatMap((claim, index) =>
+          claim.refs.map((ref) => ({ ...ref, claim: index + 1 })),
+        ),
+      ),
+    };
+  });
+
+  let decisions: DecisionDraft[] = fallback.decisions;
+  const sampled = (response.decisions ?? []).flatMap((decision) => {
+    const refs = resolveRefs(decision.refs, handles);
+    return refs.length > 0
+      ? [
+          {
+            sessionId: detail.session.id,
+            title: truncateSummary(decision.title, 72),
+            summary: decision.summary,
+            rationale: decision.rationale ?? null,
+            status: decision.status,
+            sourceRefs: buildSourceRefs(refs),
+          },
+        ]
+      : [];
+  });
+  // An explicit empty list means the model found no decisions
+  if (
+    !response.decisions ||
+    (response.decisions.length > 0 && sampled.length === 0)
+  ) {
+    kept.push("decisions");
+  } else {
+    decisions = sampled.filter(
+      (decision) => !recordedTitles.has(decision.title.trim().toLowerCase()),
+    );
+  }
+
+  const sampledAny = kept.length < narratives.length + 1;
+  return {
+    drafts: { narratives, decisions },
+    source: sampledAny ? "sampling" : "deterministic",
+    fallbackReason:
+      kept.length > 0
+        ? `Kept rule-based ${kept.join(", ")}: sampling returned no sourced claims`
+        : null,
+  };
+}
@@ -1,11 +1,15 @@
 import { getSessionLabel, truncateSummary } from "../lib/session-history.js";
-import { parseArtifactMetadata } from "../lib/session-artifacts.js";
+import {
+  isCommandArtifactType,
+  parseArtifactMetadata,
+} from "../lib/session-artifacts.js";
 import type {
   DecisionRecord,
   EvidenceDatabase,
   NarrativeRecord,
   SessionDetail,
 } from "../lib/storage/index.js";
+import { resolveIngestionRules, type IngestionRules } from "./rules.js";
 import type { SourceRef } from "./types.js";
 
 const ACCEPTED_DECISION_PATTERN =
@@ -19,6 +23,22 @@ const FAILURE_STATUS_PATTERN =
 const SUCCESS_STATUS_PATTERN =
   /^(?:completed|passed|captured|success|succeeded)$/i;
 
+export type NarrativeDraft = Omit<
+  NarrativeRecord,
+  "id" | "createdAt" | "updatedAt"
+>;
+
+export type DecisionDraft = Omit<
+  DecisionRecord,
+  "id" | "createdAt" | "origin" | "supersedes"
+>;
+
+/** Narratives and decisions the semantic stage writes for one session */
+export interface SemanticDrafts {
+  narratives: NarrativeDraft[];
+  decisions: DecisionDraft[];
+}
+
 interface RetryGroup {
   attempts: number;
   label: string;
@@ -49,10 +69,10 @@ interface DependencyChange {
   order: number;
 }
 
-function buildSourceRefs(refs: SourceRef[]): string {
+export function buildSourceRefs(refs: SourceRef[]): string {
   const seen = new Set<string>();
   const unique = refs.filter((ref) => {
-    const key = `${ref.type}:${ref.id}`;
+    const key = `${ref.type}:${ref.id}:${ref.claim ?? ""}`;
     if (seen.has(key)) {
       return false;
     }
@@ -116,20 +136,43 @@ function summarizeEvent(
   return truncateSummary(summary || fallback, 140);
 }
 
-function isOpenItemMessage(content: string): boolean {
+function isOpenItemMessage(content: string, rules: IngestionRules): boolean {
   const trimmed = content.trim();
-  return trimmed.endsWith("?") || OPEN_QUESTION_PATTERN.test(trimmed);
+  return (
+    trimmed.endsWith("?") ||
+    OPEN_QUESTION_PATTERN.test(trimmed) ||
+    Boolean(rules.openQuestionPattern?.test(trimmed))
+  );
 }
 
-function collectOpenItems(detail: SessionDetail): Array<{
+function collectOpenItems(
+  detail: SessionDetail,
+  rules: IngestionRules,
+): Array<{
   summary: string;
   refs: SourceRef[];
 }> {
   const seen = new Set<string>();
   const items: Array<{ summary: string; refs: SourceRef[] }> = [];
 
+  // Questions the agent recorded explicitly come before inferred ones.
+  for (const note of detail.notes) {
+    if (note.kind !== "question") {
+      continue;
+    }
+
+    const summary = summarizeMessage(note.content);
+    const key = summary.toLowerCase();
+    if (seen.has(key)) {
+      continue;
+    }
+
+    seen.add(key);
+    items.push({ summary, refs: [{ type: "note", id: note.id }] });
+  }
+
   for (const message of detail.messages) {
-    if (!isOpenItemMessage(message.content)) {
+    if (!isOpenItemMessage(message.content, rules)) {
       continue;
     }
 
@@ -502,7 +545,7 @@ function collectIssueClusters(detail: SessionDetail): IssueCluster[] {
 
   for (const artifact of detail.artifacts) {
     if (
-      artifact.artifactType !== "command-output" &&
+      !isCommandArtifactType(artifact.artifactType) &&
       artifact.artifactType !== "test-result"
     ) {
       continue;
@@ -539,11 +582,11 @@ function collectIssueClusters(detail: SessionDetail): IssueCluster[] {
       const sortedRecords = records
         .slice()
         .sort((left, right) => left.order - right.order);
-      const preferredRecords = sortedRecords.some(
-        (record) => record.artifact.artifactType === "command-output",
+      const preferredRecords = sortedRecords.some((record) =>
+        isCommandArtifactType(record.artifact.artifactType),
       )
-        ? sortedRecords.filter(
-            (record) => record.artifact.artifactType === "command-output",
+        ? sortedRecords.filter((record) =>
+            isCommandArtifactType(record.artifact.artifactType),
           )
         : sortedRecords;
       const latestRecord =
@@ -647,7 +690,7 @@ function getDependencyChangeSummary(
   metadata: ReturnType<typeof parseArtifactMetadata>,
 ): string | null {
   if (
-    artifact.artifactType === "command-output" &&
+    isCommandArtifactType(artifact.artifactType) &&
     metadata.category === "install" &&
     metadata.dependencyNames.length > 0
   ) {
@@ -736,9 +779,7 @@ function collectFilePaths(detail: SessionDetail): string[] {
   ];
 }
 
-function buildJournal(
-  detail: SessionDetail,
-): Omit<NarrativeRecord, "id" | "createdAt" | "updatedAt"> {
+function buildJournal(detail: SessionDetail): NarrativeDraft {
   const lines = detail.timeline
     .slice(0, 12)
     .map(
@@ -758,14 +799,12 @@ function buildJournal(
   };
 }
 
-function buildProjectSummary(
-  detail: SessionDetail,
-): Omit<NarrativeRecord, "id" | "createdAt" | "updatedAt"> {
+function buildProjectSummary(detail: SessionDetail): NarrativeDraft {
   const firstUserMessage =
     detail.messages.find((message) => message.role === "user")?.content ??
     "No user prompt captured";
-  const commandCount = detail.artifacts.filter(
-    (artifact) => artifact.artifactType === "command-output",
+  const commandCount = detail.artifacts.filter((artifact) =>
+    isCommandArtifactType(artifact.artifactType),
   ).length;
   const testCount = detail.artifacts.filter(
     (artifact) => artifact.artifactType === "test-result",
@@ -811,8 +850,9 @@ function buildProjectSummary(
 
 function buildHandoff(
   detail: SessionDetail,
-): Omit<NarrativeRecord, "id" | "createdAt" | "updatedAt"> {
-  const openItems = collectOpenItems(detail);
+  rules: IngestionRules,
+): NarrativeDraft {
+  const openItems = collectOpenItems(detail, rules);
   const failures = collectFailureSignals(detail);
   const latestError = detail.timeline
     .filter((event) => isFailureEvent(event))
@@ -820,6 +860,7 @@ function buildHandoff(
   const retries = collectRetryGroups(detail);
   const issueClusters = collectIssueClusters(detail);
   const dependencyChanges = collectDependencyChanges(detail);
+  const notes = detail.notes.filter((note) => note.kind === "note");
   const blockingFailures =
     failures.length > 0
       ? failures
@@ -846,11 +887,18 @@ function buildHandoff(
       openItems.length > 0
         ? `Open items: ${openItems.map((item) => item.summary).join(" | ")}`
         : "Open items: none detected",
+      notes.length > 0
+        ? `Agent notes: ${notes.map((note) => summarizeMessage(note.content)).join(" | ")}`
+        : null,
     ]
       .filter(Boolean)
       .join("\n"),
     sourceRefs: buildSourceRefs([
       ...openItems.slice(0, 5).flatMap((item) => item.refs),
+      ...notes.slice(0, 5).map((note) => ({
+        type: "note" as const,
+        id: note.id,
+      })),
       ...failures.slice(-3).flatMap((failure) => failure.refs),
       ...dependencyChanges.slice(0, 4).flatMap((change) => change.refs),
       ...issueClusters.slice(0, 5).flatMap((cluster) => cluster.refs),
@@ -860,23 +908,36 @@ function buildHandoff(
   };
 }
 
+/**
+ * Infer decisions from transcript wording. Sessions where the agent recorded
+ * decisions explicitly skip inference, since the explicit record is
+ * authoritative and keyword matches would only add noise.
+ */
 function buildDecisions(
   detail: SessionDetail,
-): Array<Omit<DecisionRecord, "id" | "createdAt">> {
+  rules: IngestionRules,
+): DecisionDraft[] {
+  if (detail.decisions.some((decision) => decision.origin === "explicit")) {
+    return [];
+  }
+
+  const isAccepted = (content: string) =>
+    ACCEPTED_DECISION_PATTERN.test(content) ||
+    Boolean(rules.acceptedDecisionPattern?.test(content));
+  const isProposed = (content: string) =>
+    PROPOSED_DECISION_PATTERN.test(content) ||
+    Boolean(rules.proposedDecisionPattern?.test(content));
+
   return detail.messages
     .filter(
-      (message) =>
-        ACCEPTED_DECISION_PATTERN.test(message.content) ||
-        PROPOSED_DECISION_PATTERN.test(message.content),
+      (message) => isAccepted(message.content) || isProposed(message.content),
     )
     .map((message) => {
       const relatedEvent =
         detail.timeline.find(
           (event) => event.relatedMessageId === message.id,
         ) ?? null;
-      const status = ACCEPTED_DECISION_PATTERN.test(message.content)
-        ? "accepted"
-        : "proposed";
+      const status = isAccepted(message.content) ? "accepted" : "proposed";
 
       return {
         sessionId: detail.session.id,
@@ -896,9 +957,32 @@ function buildDecisions(
     });
 }
 
+/**
+ * Rule-based journal, project summary, handoff, and inferred decisions for a
+ * session. These are always available and back the model-drafted stage.
+ */
+export function buildSemanticDrafts(
+  detail: SessionDetail,
+  rules: IngestionRules,
+): SemanticDrafts {
+  return {
+    narratives: [
+      buildJournal(detail),
+      buildProjectSummary(detail),
+      buildHandoff(detail, rules),
+    ],
+    decisions: buildDecisions(detail, rules),
+  };
+}
+
+/**
+ * Replace a session's derived narratives and decisions. `drafts` overrides
+ * the rule-based output, for example with drafts from the client's model.
+ */
 export function runSemanticIngestion(
   db: EvidenceDatabase,
   sessionId: string,
+  options: { rules?: IngestionRules; drafts?: SemanticDrafts } = {},
 ): {
   narratives: NarrativeRecord[];
   decisions: DecisionRecord[];
@@ -915,14 +999,19 @@ export function runSemanticIngestion(
   });
 
   try {
-    const narratives = db.replaceNarrativesForSession(sessionId, [
-      buildJournal(detail),
-      buildProjectSummary(detail),
-      buildHandoff(detail),
-    ]);
+    const drafts =
+      options.drafts ??
+      buildSemanticDrafts(
+        detail,
+        options.rules ?? resolveIngestionRules({}, detail.session.projectRoot),
+      );
+    const narratives = db.replaceNarrativesForSession(
+      sessionId,
+      drafts.narratives,
+    );
     const decisions = db.replaceDecisionsForSession(
       sessionId,
-      buildDecisions(detail),
+      drafts.decisions,
     );
 
     db.completeIngestionRun(run.id, "completed");
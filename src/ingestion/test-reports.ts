@@ -0,0 +1,483 @@
+import * as path from "node:path";
+
+/**
+ * Structured test reports: JUnit XML, TAP streams, and the jest JSON report
+ * that `jest --json` and `vitest --reporter=json` both write.
+ *
+ * The recorder stores report files written during a session as `test.report`
+ * timeline events, and deterministic ingestion turns every test case in them
+ * into its own `test-result` artifact. Parsing is tolerant: anything that is
+ * not a recognizable report yields no cases, and ingestion falls back to the
+ * free-form heuristics.
+ */
+
+export type TestReportFormat = "junit" | "tap" | "jest-json";
+
+export type TestCaseStatus = "passed" | "failed" | "skipped";
+
+export interface TestCaseResult {
+  /** Exact test ID: file or class, describe blocks, and test name */
+  testId: string;
+  suite: string | null;
+  name: string;
+  file: string | null;
+  status: TestCaseStatus;
+  durationMs: number | null;
+  failureMessage: string | null;
+}
+
+/** Report files larger than this are not captured */
+export const TEST_REPORT_MAX_BYTES = 1024 * 1024;
+
+const TEST_REPORT_PATH_PATTERN =
+  /(?:^|[/\\])[^/\\]*(?:junit|xunit|surefire|test|report|result)[^/\\]*\.(?:xml|json|tap)$|\.tap$/i;
+
+const OUTPUT_FILE_FLAGS = [
+  "--outputFile",
+  "--output-file",
+  "--junitxml",
+  "--junit-xml",
+];
+
+/**
+ * Whether a written file looks like a test report worth reading
+ */
+export function isTestReportPath(filePath: string): boolean {
+  return TEST_REPORT_PATH_PATTERN.test(filePath);
+}
+
+/**
+ * Report paths named on the command line, such as `--outputFile=report.json`
+ * for jest and vitest or `--junitxml junit.xml` for pytest
+ */
+export function getTestReportOutputPaths(args: string[]): string[] {
+  const paths: string[] = [];
+  for (let index = 0; index < args.length; index += 1) {
+    const arg = args[index]!;
+    for (const flag of OUTPUT_FILE_FLAGS) {
+      if (arg === flag && args[index + 1]) {
+        paths.push(args[index + 1]!);
+      } else if (arg.startsWith(`${flag}=`)) {
+        paths.push(arg.slice(flag.length + 1));
+      } else if (arg.startsWith(`${flag}.`) && arg.includes("=")) {
+        // vitest per-reporter form: --outputFile.junit=junit.xml
+        paths.push(arg.slice(arg.indexOf("=") + 1));
+      }
+    }
+  }
+
+  return [...new Set(paths.filter(Boolean))];
+}
+
+/**
+ * Recognize a report from its content
+ *
+ * @param content - File content or captured output
+ * @returns The report format, or null when the content is not a report
+ */
+export function detectTestReportFormat(
+  content: string,
+): TestReportFormat | null {
+  const trimmed = content.trimStart();
+  if (
+    trimmed.startsWith("<") &&
+    /<(?:testsuites|testsuite)\b/.test(trimmed) &&
+    /<testcase\b/.test(trimmed)
+  ) {
+    return "junit";
+  }
+
+  if (trimmed.startsWith("{")) {
+    const report = parseJsonObject(trimmed);
+    if (
+      report &&
+      Array.isArray(report.testResults) &&
+      (typeof report.numTotalTests === "number" ||
+        report.testResults.some(
+          (result) =>
+            result &&
+            typeof result === "object" &&
+            Array.isArray((result as Record<string, unknown>).assertionResults),
+        ))
+    ) {
+      return "jest-json";
+    }
+    return null;
+  }
+
+  if (
+    /^TAP version \d+\s*$/m.test(content) ||
+    (/^\s*1\.\.\d+\s*$/m.test(content) && /^\s*(?:not )?ok\b/m.test(content))
+  ) {
+    return "tap";
+  }
+
+  return null;
+}
+
+/**
+ * Parse every test case in a report
+ *
+ * @param content - Report content
+ * @param format - Format from `detectTestReportFormat`
+ * @param options - Project root used to shorten absolute test file paths
+ * @returns Test cases in report order
+ */
+export function parseTestReport(
+  content: string,
+  format: TestReportFormat,
+  options: { projectRoot?: string | null } = {},
+): TestCaseResult[] {
+  const relativize = (file: string | null): string | null => {
+    if (!file || !options.projectRoot || !path.isAbsolute(file)) {
+      return file;
+    }
+    const relative = path.relative(options.projectRoot, file);
+    return relative && !relative.startsWith("..")
+      ? relative.split(path.sep).join("/")
+      : file;
+  };
+
+  switch (format) {
+    case "junit":
+      return parseJunit(content, relativize);
+    case "tap":
+      return parseTap(content);
+    case "jest-json":
+      return parseJestJson(content, relativize);
+  }
+}
+
+function parseJsonObject(value: string): Record<string, unknown> | null {
+  try {
+    const parsed = JSON.parse(value) as unknown;
+    return parsed && typeof parsed === "object" && !Array.isArray(parsed)
+      ? (parsed as Record<string, unknown>)
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+function joinTestId(...parts: Array<string | null | undefined>): string {
+  const seen: string[] = [];
+  for (const part of parts) {
+    const trimmed = part?.trim();
+    if (trimmed && seen.at(-1) !== trimmed) {
+      seen.push(trimmed);
+    }
+  }
+  return seen.join(" > ");
+}
+
+function firstLine(value: string | null | undefined): string | null {
+  const line = value
+    // eslint-disable-next-line no-control-regex
+    ?.replace(/\u001b\[[0-9;]*m/g, "")
+    .split(/\r?\n/)
+    .map((candidate) => candidate.trim())
+    .find(Boolean);
+  return line ? line.slice(0, 500) : null;
+}
+
+function decodeXml(value: string): string {
+  return value
+    .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, "$1")
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex: string) =>
+      String.fromCodePoint(Number.parseInt(hex, 16)),
+    )
+    .replace(/&#(\d+);/g, (_, decimal: string) =>
+      String.fromCodePoint(Number.parseInt(decimal, 10)),
+    )
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, "&");
+}
+
+function parseXmlAttributes(source: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const match of source.matchAll(
+    /([\w:.-]+)\s*=\s*("([^"]*)"|'([^']*)')/g,
+  )) {
+    attributes[match[1]!] = decodeXml(match[3] ?? match[4] ?? "");
+  }
+  return attributes;
+}
+
+function secondsToMs(value: string | undefined): number | null {
+  const seconds = value ? Number.parseFloat(value) : Number.NaN;
+  return Number.isFinite(seconds) ? Math.round(seconds * 1000) : null;
+}
+
+/** Prefix the failure type, as runners print it: "AssertionError: ..." */
+function junitFailureMessage(
+  type: string | null,
+  message: string | null,
+): string | null {
+  if (!type || message?.startsWith(type)) {
+    return message;
+  }
+  return message ? `${type}: ${message}` : type;
+}
+
+function parseJunit(
+  content: string,
+  relativize: (file: string | null) => string | null,
+): TestCaseResult[] {
+  const results: TestCaseResult[] = [];
+  const suites: Array<{ name: string | null; file: string | null }> = [];
+  const tagPattern =
+    /<(\/?)(testsuite|testcase)\b((?:[^>"']|"[^"]*"|'[^']*')*?)(\/?)>|<!--[\s\S]*?-->/g;
+
+  let match: RegExpExecArray | null;
+  while ((match = tagPattern.exec(content))) {
+    const [, closing, tag, attributeSource = "", selfClosing] = match;
+    if (!tag) {
+      continue;
+    }
+
+    if (tag === "testsuite") {
+      if (closing) {
+        suites.pop();
+      } else if (!selfClosing) {
+        const attributes = parseXmlAttributes(attributeSource);
+        suites.push({
+          name: attributes.name ?? null,
+          file: attributes.file ?? attributes.filepath ?? null,
+        });
+      }
+      continue;
+    }
+    if (closing) {
+      continue;
+    }
+
+    const attributes = parseXmlAttributes(attributeSource);
+    let body = "";
+    if (!selfClosing) {
+      const end = content.indexOf("</testcase>", tagPattern.lastIndex);
+      body = end === -1 ? "" : content.slice(tagPattern.lastIndex, end);
+      if (end !== -1) {
+        tagPattern.lastIndex = end + "</testcase>".length;
+      }
+    }
+
+    const suite = suites.at(-1) ?? null;
+    const failure = body.match(
+      /<(failure|error)\b((?:[^>"']|"[^"]*"|'[^']*')*?)(?:\/>|>([\s\S]*?)<\/\1>)/,
+    );
+    const skipped = /<skipped\b/.test(body);
+    const name = attributes.name ?? "(unnamed)";
+    const className = attributes.classname ?? null;
+    const file = relativize(attributes.file ?? suite?.file ?? null);
+    const failureAttributes = failure
+      ? parseXmlAttributes(failure[2] ?? "")
+      : {};
+
+    results.push({
+      testId: joinTestId(
+        file && file !== className ? file : null,
+        className ?? suite?.name,
+        name,
+      ),
+      suite: className ?? suite?.name ?? null,
+      name,
+      file,
+      status: failure ? "failed" : skipped ? "skipped" : "passed",
+      durationMs: secondsToMs(attributes.time),
+      failureMessage: failure
+        ? junitFailureMessage(
+            failureAttributes.type ?? null,
+            firstLine(failureAttributes.message) ??
+              firstLine(decodeXml(failure[3] ?? "")),
+          )
+        : null,
+    });
+  }
+
+  return results;
+}
+
+interface TapEntry {
+  indent: number;
+  path: string[];
+  status: TestCaseStatus;
+  durationMs: number | null;
+  failureMessage: string | null;
+}
+
+function unquoteYaml(value: string): string {
+  const trimmed = value.trim();
+  if (
+    (trimmed.startsWith("'") && trimmed.endsWith("'")) ||
+    (trimmed.startsWith('"') && trimmed.endsWith('"'))
+  ) {
+    return trimmed.slice(1, -1);
+  }
+  return trimmed;
+}
+
+/**
+ * Read `message`/`error` and `duration_ms` from a TAP YAML diagnostic block
+ */
+function parseTapDiagnostics(lines: string[]): {
+  durationMs: number | null;
+  failureMessage: string | null;
+} {
+  let durationMs: number | null = null;
+  let failureMessage: string | null = null;
+  for (let index = 0; index < lines.length; index += 1) {
+    const match = lines[index]!.match(
+      /^\s*(duration_ms|message|error):\s*(.*)$/,
+    );
+    if (!match) {
+      continue;
+    }
+    if (match[1] === "duration_ms") {
+      const value = Number.parseFloat(match[2]!);
+      durationMs = Number.isFinite(value) ? value : null;
+      continue;
+    }
+    if (failureMessage) {
+      continue;
+    }
+    const value = match[2]!.trim();
+    failureMessage = /^[|>][-+]?$/.test(value)
+      ? firstLine(lines[index + 1])
+      : firstLine(unquoteYaml(value));
+  }
+  return { durationMs, failureMessage };
+}
+
+function parseTap(content: string): TestCaseResult[] {
+  const lines = content.split(/\r?\n/);
+  const stack: TapEntry[] = [];
+  const resultPattern =
+    /^(\s*)(not )?ok\b(?:\s+\d+)?(?:\s*-)?\s*(.*?)(?:\s+#\s*(SKIP|TODO)\b.*)?$/i;
+
+  for (let index = 0; index < lines.length; index += 1) {
+    const match = lines[index]!.match(resultPattern);
+    if (!match) {
+      continue;
+    }
+
+    const indent = match[1]!.length;
+    const name = match[3]!.replace(/\s+#\s*$/, "").trim() || "(unnamed)";
+    const diagnostics: string[] = [];
+    if (lines[index + 1]?.trim() === "---") {
+      let end = index + 2;
+      while (end < lines.length && lines[end]!.trim() !== "...") {
+        diagnostics.push(lines[end]!);
+        end += 1;
+      }
+      index = end;
+    }
+    const { durationMs, failureMessage } = parseTapDiagnostics(diagnostics);
+
+    // Subtests are printed before their parent's result line, one level deeper
+    const children: TapEntry[] = [];
+    while (stack.length > 0 && stack.at(-1)!.indent > indent) {
+      children.unshift(stack.pop()!);
+    }
+    if (children.length > 0) {
+      for (const child of children) {
+        stack.push({ ...child, indent, path: [name, ...child.path] });
+      }
+      continue;
+    }
+
+    stack.push({
+      indent,
+      path: [name],
+      status: match[4] ? "skipped" : match[2] ? "failed" : "passed",
+      durationMs,
+      failureMessage: match[2] ? failureMessage : null,
+    });
+  }
+
+  return stack.map((entry) => ({
+    testId: joinTestId(...entry.path),
+    suite: entry.path.length > 1 ? entry.path.slice(0, -1).join(" > ") : null,
+    name: entry.path.at(-1)!,
+    file: null,
+    status: entry.status,
+    durationMs: entry.durationMs,
+    failureMessage: entry.failureMessage,
+  }));
+}
+
+function parseJestJson(
+  content: string,
+  relativize: (file: string | null) => string | null,
+): TestCaseResult[] {
+  const report = parseJsonObject(content.trim());
+  if (!report || !Array.isArray(report.testResults)) {
+    return [];
+  }
+
+  const results: TestCaseResult[] = [];
+  for (const fileResult of report.testResults as unknown[]) {
+    if (!fileResult || typeof fileResult !== "object") {
+      continue;
+    }
+    const fileRecord = fileResult as Record<string, unknown>;
+    const file = relativize(
+      typeof fileRecord.name === "string" ? fileRecord.name : null,
+    );
+    const assertions = Array.isArray(fileRecord.assertionResults)
+      ? (fileRecord.assertionResults as unknown[])
+      : [];
+
+    for (const assertion of assertions) {
+      if (!assertion || typeof assertion !== "object") {
+        continue;
+      }
+      const record = assertion as Record<string, unknown>;
+      const ancestors = Array.isArray(record.ancestorTitles)
+        ? record.ancestorTitles.filter(
+            (title): title is string => typeof title === "string",
+          )
+        : [];
+      const name =
+        typeof record.title === "string" && record.title.trim()
+          ? record.title
+          : typeof record.fullName === "string"
+            ? record.fullName
+            : "(unnamed)";
+      const messages = Array.isArray(record.failureMessages)
+        ? record.failureMessages.filter(
+            (message): message is string => typeof message === "string",
+          )
+        : [];
+      const status =
+        record.status === "passed"
+          ? "passed"
+          : record.status === "failed"
+            ? "failed"
+            : "skipped";
+
+      results.push({
+        testId: joinTestId(file, ...ancestors, name),
+        suite: ancestors.length > 0 ? ancestors.join(" > ") : file,
+        name,
+        file,
+        status,
+        durationMs:
+          typeof record.duration === "number"
+            ? Math.round(record.duration)
+            : null,
+        failureMessage:
+          status === "failed"
+            ? (firstLine(messages[0]) ??
+              (typeof fileRecord.message === "string"
+                ? firstLine(fileRecord.message)
+                : null))
+            : null,
+      });
+    }
+  }
+
+  return results;
+}
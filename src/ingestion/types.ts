@@ -1,6 +1,8 @@
 export interface SourceRef {
-  type: "message" | "event" | "artifact";
+  type: "message" | "event" | "artifact" | "note";
   id: string;
+  /** 1-based bullet of a model-drafted narrative that cites this source */
+  claim?: number;
 }
 
 export interface IngestionSummary {
@@ -113,6 +113,8 @@ export interface ContextDecisionItem extends Record<string, unknown> {
   summary: string;
   rationale: string | null;
   status: DecisionRecord["status"];
+  /** Decisions this one explicitly replaces */
+  supersedes: string[];
   createdAt: string;
 }
 
@@ -737,7 +739,29 @@ function buildDecisionLineage(decisions: ContextDecisionItem[]): {
   const supersededDecisions: SupersededContextDecisionItem[] = [];
   const changeLog: ContextChangeItem[] = [];
 
-  for (const topic of resolveDecisionTopics(decisions)) {
+  // Explicit supersede references win over topic matching.
+  const explicitlySupersededBy = new Map<string, ContextDecisionItem>();
+  for (const decision of sortDecisionChronologically(decisions)) {
+    for (const supersededId of decision.supersedes) {
+      explicitlySupersededBy.set(supersededId, decision);
+    }
+  }
+  for (const decision of decisions) {
+    const replacement = explicitlySupersededBy.get(decision.decisionId);
+    if (replacement) {
+      supersededDecisions.push({
+        ...decision,
+        supersededByDecisionId: replacement.decisionId,
+        supersededByTitle: replacement.title,
+      });
+    }
+  }
+
+  for (const topic of resolveDecisionTopics(
+    decisions.filter(
+      (decision) => !explicitlySupersededBy.has(decision.decisionId),
+    ),
+  )) {
     const current = resolveCurrentDecision(topic.decisions);
     if (!current) {
       continue;
@@ -920,6 +944,7 @@ function buildContextReportFromSessions(
       summary: decision.summary,
       rationale: decision.rationale,
       status: decision.status,
+      supersedes: decision.supersedes,
       createdAt: decision.createdAt,
     })),
   );
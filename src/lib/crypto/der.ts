@@ -0,0 +1,249 @@
+/* global Buffer */
+
+/**
+ * Minimal ASN.1 DER reader and writer, covering what RFC 3161 timestamp
+ * requests, responses, and CMS SignedData need. Not a general ASN.1 library:
+ * indefinite lengths and high tag numbers are rejected.
+ */
+
+export const DER_TAG = {
+  BOOLEAN: 0x01,
+  INTEGER: 0x02,
+  BIT_STRING: 0x03,
+  OCTET_STRING: 0x04,
+  NULL: 0x05,
+  OID: 0x06,
+  UTF8_STRING: 0x0c,
+  UTC_TIME: 0x17,
+  GENERALIZED_TIME: 0x18,
+  SEQUENCE: 0x30,
+  SET: 0x31,
+} as const;
+
+export interface DerNode {
+  tag: number;
+  /** Full encoding, header included */
+  bytes: Uint8Array;
+  /** Content octets */
+  content: Uint8Array;
+  /** Parsed children of constructed nodes; empty for primitives */
+  children: DerNode[];
+}
+
+function readNode(bytes: Uint8Array, offset: number): DerNode {
+  if (offset + 2 > bytes.length) {
+    throw new Error("DER data is truncated");
+  }
+  const tag = bytes[offset]!;
+  if ((tag & 0x1f) === 0x1f) {
+    throw new Error("DER high tag numbers are not supported");
+  }
+
+  let length = bytes[offset + 1]!;
+  let headerLength = 2;
+  if (length & 0x80) {
+    const lengthBytes = length & 0x7f;
+    if (lengthBytes === 0 || lengthBytes > 4) {
+      throw new Error("DER length is not supported");
+    }
+    length = 0;
+    for (let index = 0; index < lengthBytes; index += 1) {
+      length = length * 256 + bytes[offset + 2 + index]!;
+    }
+    headerLength += lengthBytes;
+  }
+
+  const end = offset + headerLength + length;
+  if (end > bytes.length) {
+    throw new Error("DER data is truncated");
+  }
+  const content = bytes.subarray(offset + headerLength, end);
+  const children: DerNode[] = [];
+  if (tag & 0x20) {
+    let childOffset = 0;
+    while (childOffset < content.length) {
+      const child = readNode(content, childOffset);
+      children.push(child);
+      childOffset += child.bytes.length;
+    }
+  }
+
+  return { tag, bytes: bytes.subarray(offset, end), content, children };
+}
+
+/**
+ * Decode one DER value and its children
+ *
+ * @throws Error if the data is malformed or has trailing bytes
+ */
+export function decodeDer(bytes: Uint8Array): DerNode {
+  const node = readNode(bytes, 0);
+  if (node.bytes.length !== bytes.length) {
+    throw new Error("DER data has trailing bytes");
+  }
+  return node;
+}
+
+function encodeLength(length: number): Uint8Array {
+  if (length < 0x80) {
+    return Uint8Array.of(length);
+  }
+  const octets: number[] = [];
+  for (let value = length; value > 0; value = Math.floor(value / 256)) {
+    octets.unshift(value % 256);
+  }
+  return Uint8Array.of(0x80 | octets.length, ...octets);
+}
+
+/**
+ * Encode a DER value from its tag and content octets
+ */
+export function encodeDer(
+  tag: number,
+  content: Uint8Array | Uint8Array[],
+): Uint8Array {
+  const body = Array.isArray(content) ? Buffer.concat(content) : content;
+  return new Uint8Array(
+    Buffer.concat([Uint8Array.of(tag), encodeLength(body.length), body]),
+  );
+}
+
+export function derSequence(...items: Uint8Array[]): Uint8Array {
+  return encodeDer(DER_TAG.SEQUENCE, items);
+}
+
+export function derSet(...items: Uint8Array[]): Uint8Array {
+  return encodeDer(DER_TAG.SET, items);
+}
+
+/** `[n] EXPLICIT` wrapper around a complete encoding */
+export function derExplicit(tagNumber: number, inner: Uint8Array): Uint8Array {
+  return encodeDer(0xa0 | tagNumber, inner);
+}
+
+export function derInteger(value: bigint | number): Uint8Array {
+  let big = BigInt(value);
+  if (big < 0n) {
+    throw new Error("Negative DER integers are not supported");
+  }
+  const octets: number[] = [];
+  do {
+    octets.unshift(Number(big & 0xffn));
+    big >>= 8n;
+  } while (big > 0n);
+  if (octets[0]! & 0x80) {
+    octets.unshift(0);
+  }
+  return encodeDer(DER_TAG.INTEGER, Uint8Array.from(octets));
+}
+
+export function derBoolean(value: boolean): Uint8Array {
+  return encodeDer(DER_TAG.BOOLEAN, Uint8Array.of(value ? 0xff : 0x00));
+}
+
+export function derNull(): Uint8Array {
+  return encodeDer(DER_TAG.NULL, new Uint8Array(0));
+}
+
+export function derOctetString(value: Uint8Array): Uint8Array {
+  return encodeDer(DER_TAG.OCTET_STRING, value);
+}
+
+export function derBitString(value: Uint8Array): Uint8Array {
+  return encodeDer(DER_TAG.BIT_STRING, [Uint8Array.of(0), value]);
+}
+
+export function derUtf8String(value: string): Uint8Array {
+  return encodeDer(DER_TAG.UTF8_STRING, Buffer.from(value, "utf8"));
+}
+
+function formatAsn1Time(date: Date, yearDigits: 2 | 4): string {
+  const pad = (value: number) => String(value).padStart(2, "0");
+  const year = String(date.getUTCFullYear()).slice(-yearDigits);
+  return `${year}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z`;
+}
+
+export function derGeneralizedTime(date: Date): Uint8Array {
+  return encodeDer(
+    DER_TAG.GENERALIZED_TIME,
+    Buffer.from(formatAsn1Time(date, 4), "ascii"),
+  );
+}
+
+export function derUtcTime(date: Date): Uint8Array {
+  return encodeDer(
+    DER_TAG.UTC_TIME,
+    Buffer.from(formatAsn1Time(date, 2), "ascii"),
+  );
+}
+
+export function derOid(oid: string): Uint8Array {
+  const arcs = oid.split(".").map((arc) => Number.parseInt(arc, 10));
+  if (arcs.length < 2 || arcs.some((arc) => !Number.isInteger(arc))) {
+    throw new Error(`Invalid OID: ${oid}`);
+  }
+  const octets: number[] = [];
+  for (const arc of [arcs[0]! * 40 + arcs[1]!, ...arcs.slice(2)]) {
+    const encoded = [arc & 0x7f];
+    for (let value = arc >>> 7; value > 0; value >>>= 7) {
+      encoded.unshift((value & 0x7f) | 0x80);
+    }
+    octets.push(...encoded);
+  }
+  return encodeDer(DER_TAG.OID, Uint8Array.from(octets));
+}
+
+function expectTag(node: DerNode, tag: number, name: string): void {
+  if (node.tag !== tag) {
+    throw new Error(`Expected ${name} in DER data`);
+  }
+}
+
+export function readDerOid(node: DerNode): string {
+  expectTag(node, DER_TAG.OID, "OBJECT IDENTIFIER");
+  const arcs: number[] = [];
+  let value = 0;
+  for (const octet of node.content) {
+    value = value * 128 + (octet & 0x7f);
+    if (!(octet & 0x80)) {
+      if (arcs.length === 0) {
+        const first = Math.min(Math.floor(value / 40), 2);
+        arcs.push(first, value - first * 40);
+      } else {
+        arcs.push(value);
+      }
+      value = 0;
+    }
+  }
+  return arcs.join(".");
+}
+
+export function readDerInteger(node: DerNode): bigint {
+  expectTag(node, DER_TAG.INTEGER, "INTEGER");
+  let value = 0n;
+  for (const octet of node.content) {
+    value = (value << 8n) | BigInt(octet);
+  }
+  if (node.content.length > 0 && node.content[0]! & 0x80) {
+    value -= 1n << BigInt(node.content.length * 8);
+  }
+  return value;
+}
+
+/**
+ * Read a GeneralizedTime (`YYYYMMDDHHMMSS[.fff]Z`) as an ISO 8601 string
+ */
+export function readDerGeneralizedTime(node: DerNode): string {
+  expectTag(node, DER_TAG.GENERALIZED_TIME, "GeneralizedTime");
+  const text = Buffer.from(node.content).toString("ascii");
+  const match = /^(\d{4})(\d{2})(\d{2})(\d{2})(\d{2})(\d{2})(\.\d+)?Z$/.exec(
+    text,
+  );
+  if (!match) {
+    throw new Error(`Unsupported GeneralizedTime: ${text}`);
+  }
+  const [, year, month, day, hour, minute, second, fraction] = match;
+  return new Date(
+    `${year}-${month}-${day}T${hour}:${minute}:${second}${fraction ?? ""}Z`,
+  ).toISOString();
+}
@@ -1,5 +1,29 @@
-export { deriveKey, rederiveKey, verifyKey } from './key-derivation.js';
+export {
+  deriveKey,
+  rederiveKey,
+  rederiveKeySync,
+  verifyKey,
+} from './key-derivation.js';
 export { encrypt } from './encrypt.js';
 export { decrypt } from './decrypt.js';
 export type { DerivedKey, KeyDerivationParams, EncryptedData } from './types.js';
 export { DEFAULT_KDF_PARAMS } from './types.js';
+export {
+  generateSigningKeyPair,
+  signDetached,
+  verifyDetached,
+  getSigningKeyId,
+  signingPublicKeyToPem,
+  signingPublicKeyFromPem,
+} from './signing.js';
+export type { SigningKeyPair } from './signing.js';
+export {
+  createTimestampRequest,
+  parseTimestampResponse,
+  verifyTimestampToken,
+} from './rfc3161.js';
+export type {
+  TimestampResponse,
+  TimestampTokenInfo,
+  VerifyTimestampOptions,
+} from './rfc3161.js';
@@ -60,6 +60,23 @@ export async function rederiveKey(
   salt: Uint8Array,
   params: Partial<KeyDerivationParams> = {},
 ): Promise<DerivedKey> {
+  return rederiveKeySync(password, salt, params);
+}
+
+/**
+ * Synchronous variant of {@link rederiveKey} for callers that cannot await,
+ * such as CLI commands that open the database synchronously
+ *
+ * @param password - User password
+ * @param salt - Existing salt (from database)
+ * @param params - Optional KDF parameters
+ * @returns Derived key with same salt
+ */
+export function rederiveKeySync(
+  password: string,
+  salt: Uint8Array,
+  params: Partial<KeyDerivationParams> = {},
+): DerivedKey {
   if (!password || password.length === 0) {
     throw new Error("Password cannot be empty");
   }
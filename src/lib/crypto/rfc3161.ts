@@ -0,0 +1,321 @@
+/* global Buffer */
+import { X509Certificate, createHash, verify } from "node:crypto";
+import {
+  DER_TAG,
+  type DerNode,
+  decodeDer,
+  derBoolean,
+  derInteger,
+  derNull,
+  derOctetString,
+  derOid,
+  derSequence,
+  readDerGeneralizedTime,
+  readDerInteger,
+  readDerOid,
+} from "./der.js";
+
+/**
+ * RFC 3161 timestamp requests, responses, and token validation.
+ *
+ * Footprint timestamps the evidence content hash itself: the message imprint
+ * is the 32 raw bytes of the SHA-256 contentHash, so a token proves the
+ * content existed no later than the TSA's genTime.
+ */
+
+export const OID_SHA256 = "2.16.840.1.101.3.4.2.1";
+export const OID_SIGNED_DATA = "1.2.840.113549.1.7.2";
+export const OID_TST_INFO = "1.2.840.113549.1.9.16.1.4";
+const OID_CONTENT_TYPE_ATTR = "1.2.840.113549.1.9.3";
+const OID_MESSAGE_DIGEST_ATTR = "1.2.840.113549.1.9.4";
+const OID_KP_TIME_STAMPING = "1.3.6.1.5.5.7.3.8";
+
+const DIGEST_ALGORITHMS: Record<string, string> = {
+  [OID_SHA256]: "sha256",
+  "2.16.840.1.101.3.4.2.2": "sha384",
+  "2.16.840.1.101.3.4.2.3": "sha512",
+};
+
+/** PKIStatus values that carry a token */
+const GRANTED_STATUSES = new Set([0, 1]);
+
+export interface TimestampResponse {
+  status: number;
+  /** DER ContentInfo, or null when the TSA refused the request */
+  token: Uint8Array | null;
+  statusText: string | null;
+}
+
+export interface TimestampTokenInfo {
+  /** ISO 8601 time asserted by the TSA */
+  genTime: string;
+  serialNumber: string;
+  policy: string;
+  nonce: bigint | null;
+  /** Subject of the signing certificate */
+  authority: string;
+  /**
+   * Whether the signer chains to a configured trust anchor; null when no
+   * anchors were supplied and only the token's own signature was checked
+   */
+  trusted: boolean | null;
+}
+
+export interface VerifyTimestampOptions {
+  /** Nonce sent in the request, checked when the token carries one */
+  nonce?: bigint;
+  /** PEM certificates the signer must chain to */
+  trustedCertificates?: string[];
+}
+
+function contentHashBytes(contentHash: string): Buffer {
+  if (!/^[0-9a-f]{64}$/i.test(contentHash)) {
+    throw new Error("Content hash must be a hex SHA-256 digest");
+  }
+  return Buffer.from(contentHash, "hex");
+}
+
+function child(node: DerNode, index: number, name: string): DerNode {
+  const found = node.children[index];
+  if (!found) {
+    throw new Error(`Timestamp token is missing ${name}`);
+  }
+  return found;
+}
+
+/**
+ * Build a DER TimeStampReq for an evidence content hash
+ *
+ * @param contentHash - Hex SHA-256 content hash
+ * @param nonce - Random nonce echoed back by the TSA
+ */
+export function createTimestampRequest(
+  contentHash: string,
+  nonce: bigint,
+): Uint8Array {
+  return derSequence(
+    derInteger(1),
+    derSequence(
+      derSequence(derOid(OID_SHA256), derNull()),
+      derOctetString(contentHashBytes(contentHash)),
+    ),
+    derInteger(nonce),
+    derBoolean(true),
+  );
+}
+
+/**
+ * Parse a DER TimeStampResp
+ *
+ * @throws Error if the response is not a TimeStampResp
+ */
+export function parseTimestampResponse(bytes: Uint8Array): TimestampResponse {
+  const response = decodeDer(bytes);
+  const statusInfo = child(response, 0, "status");
+  const status = Number(readDerInteger(child(statusInfo, 0, "status")));
+  const freeText = statusInfo.children[1];
+  const statusText =
+    freeText?.tag === DER_TAG.SEQUENCE
+      ? freeText.children
+          .map((text) => Buffer.from(text.content).toString("utf8"))
+          .join("; ")
+      : null;
+
+  const token = response.children[1];
+  return {
+    status,
+    token:
+      GRANTED_STATUSES.has(status) && token
+        ? new Uint8Array(token.bytes)
+        : null,
+    statusText,
+  };
+}
+
+function findAttribute(signedAttrs: DerNode, oid: string): DerNode {
+  const attribute = signedAttrs.children.find(
+    (entry) => readDerOid(child(entry, 0, "attribute type")) === oid,
+  );
+  const value = attribute?.children[1]?.children[0];
+  if (!value) {
+    throw new Error(`Timestamp token is missing signed attribute ${oid}`);
+  }
+  return value;
+}
+
+function isTrusted(
+  signer: X509Certificate,
+  pool: X509Certificate[],
+  anchors: X509Certificate[],
+): boolean {
+  let current = signer;
+  for (let depth = 0; depth < 8; depth += 1) {
+    if (
+      anchors.some((anchor) => anchor.fingerprint256 === current.fingerprint256)
+    ) {
+      return true;
+    }
+    const issuer = [...anchors, ...pool].find(
+      (candidate) =>
+        candidate.fingerprint256 !== current.fingerprint256 &&
+        current.checkIssued(candidate) &&
+        current.verify(candidate.publicKey),
+    );
+    if (!issuer) {
+      return false;
+    }
+    current = issuer;
+  }
+  return false;
+}
+
+/**
+ * Validate an RFC 3161 token against the content hash it should cover.
+ * Checks the message imprint, the signed-attribute digest, the CMS signature
+ * with the embedded signer certificate, that certificate's timeStamping usage
+ * and validity at genTime, and, when anchors are given, its chain.
+ *
+ * @param token - DER ContentInfo holding SignedData over a TSTInfo
+ * @param contentHash - Hex SHA-256 content hash the token should cover
+ * @returns Token details on success
+ * @throws Error describing the first check that failed
+ */
+export function verifyTimestampToken(
+  token: Uint8Array,
+  contentHash: string,
+  options: VerifyTimestampOptions = {},
+): TimestampTokenInfo {
+  const contentInfo = decodeDer(token);
+  if (readDerOid(child(contentInfo, 0, "content type")) !== OID_SIGNED_DATA) {
+    throw new Error("Timestamp token is not CMS SignedData");
+  }
+  const signedData = child(
+    child(contentInfo, 1, "SignedData"),
+    0,
+    "SignedData",
+  );
+
+  const encapContentInfo = child(signedData, 2, "encapsulated content");
+  if (readDerOid(child(encapContentInfo, 0, "eContentType")) !== OID_TST_INFO) {
+    throw new Error("Timestamp token does not hold a TSTInfo");
+  }
+  const eContent = child(
+    child(encapContentInfo, 1, "eContent"),
+    0,
+    "eContent",
+  ).content;
+  const tstInfo = decodeDer(eContent);
+
+  const imprint = child(tstInfo, 2, "message imprint");
+  const imprintAlgorithm = readDerOid(
+    child(child(imprint, 0, "imprint algorithm"), 0, "imprint algorithm"),
+  );
+  if (imprintAlgorithm !== OID_SHA256) {
+    throw new Error("Timestamp imprint is not SHA-256");
+  }
+  if (
+    !Buffer.from(child(imprint, 1, "hashed message").content).equals(
+      contentHashBytes(contentHash),
+    )
+  ) {
+    throw new Error("Timestamp imprint does not match the content hash");
+  }
+
+  const genTime = readDerGeneralizedTime(child(tstInfo, 4, "genTime"));
+  const nonceNode = tstInfo.children
+    .slice(5)
+    .find((entry) => entry.tag === DER_TAG.INTEGER);
+  const nonce = nonceNode ? readDerInteger(nonceNode) : null;
+  if (options.nonce !== undefined && nonce !== options.nonce) {
+    throw new Error("Timestamp nonce does not match the request");
+  }
+
+  const certificates = signedData.children
+    .filter((entry) => entry.tag === 0xa0)
+    .flatMap((entry) => entry.children)
+    .map((entry) => new X509Certificate(Buffer.from(entry.bytes)));
+  const signerInfos = signedData.children.at(-1);
+  if (signerInfos?.tag !== DER_TAG.SET || signerInfos.children.length !== 1) {
+    throw new Error("Timestamp token must have exactly one signer");
+  }
+  const signerInfo = signerInfos.children[0]!;
+  const digestAlgorithm =
+    DIGEST_ALGORITHMS[
+      readDerOid(child(child(signerInfo, 2, "digest algorithm"), 0, "digest"))
+    ];
+  if (!digestAlgorithm) {
+    throw new Error("Timestamp token uses an unsupported digest algorithm");
+  }
+
+  const signedAttrs = child(signerInfo, 3, "signed attributes");
+  if (signedAttrs.tag !== 0xa0) {
+    throw new Error("Timestamp token is missing signed attributes");
+  }
+  if (
+    readDerOid(findAttribute(signedAttrs, OID_CONTENT_TYPE_ATTR)) !==
+    OID_TST_INFO
+  ) {
+    throw new Error("Timestamp signed content type is not TSTInfo");
+  }
+  const messageDigest = findAttribute(signedAttrs, OID_MESSAGE_DIGEST_ATTR);
+  if (
+    !Buffer.from(messageDigest.content).equals(
+      createHash(digestAlgorithm).update(eContent).digest(),
+    )
+  ) {
+    throw new Error("Timestamp signed digest does not match the TSTInfo");
+  }
+
+  // Signed attributes are signed as an explicit SET OF, not the [0] tag
+  const signedBytes = Buffer.from(signedAttrs.bytes);
+  signedBytes[0] = DER_TAG.SET;
+  const signature = Buffer.from(child(signerInfo, 5, "signature").content);
+  const signer = certificates.find((certificate) => {
+    try {
+      return verify(
+        digestAlgorithm,
+        signedBytes,
+        certificate.publicKey,
+        signature,
+      );
+    } catch {
+      return false;
+    }
+  });
+  if (!signer) {
+    throw new Error("Timestamp signature does not verify");
+  }
+
+  if (!(signer.keyUsage ?? []).includes(OID_KP_TIME_STAMPING)) {
+    throw new Error("Timestamp signer is not authorized for time stamping");
+  }
+  const genTimeMs = Date.parse(genTime);
+  if (
+    genTimeMs < Date.parse(signer.validFrom) ||
+    genTimeMs > Date.parse(signer.validTo)
+  ) {
+    throw new Error("Timestamp genTime is outside the signer's validity");
+  }
+
+  let trusted: boolean | null = null;
+  if (options.trustedCertificates && options.trustedCertificates.length > 0) {
+    const anchors = options.trustedCertificates.map(
+      (pem) => new X509Certificate(pem),
+    );
+    trusted = isTrusted(signer, certificates, anchors);
+    if (!trusted) {
+      throw new Error("Timestamp signer does not chain to a trusted TSA");
+    }
+  }
+
+  return {
+    genTime,
+    serialNumber: readDerInteger(child(tstInfo, 3, "serial number")).toString(
+      16,
+    ),
+    policy: readDerOid(child(tstInfo, 1, "policy")),
+    nonce,
+    authority: signer.subject.replace(/\n/g, ", "),
+    trusted,
+  };
+}
@@ -0,0 +1,121 @@
+/* global Buffer */
+import {
+  createHash,
+  createPrivateKey,
+  createPublicKey,
+  generateKeyPairSync,
+  sign,
+  verify,
+} from "node:crypto";
+
+/**
+ * Ed25519 key pair. The public key is the raw 32-byte point; the private key
+ * is PKCS#8 DER so it can be sealed and reloaded without extra encoding.
+ */
+export interface SigningKeyPair {
+  publicKey: Uint8Array;
+  privateKey: Uint8Array;
+}
+
+/** Ed25519 SubjectPublicKeyInfo prefix preceding the raw 32-byte key */
+const ED25519_SPKI_PREFIX = Buffer.from("302a300506032b6570032100", "hex");
+
+function toPublicKeyObject(publicKey: Uint8Array) {
+  if (publicKey.length !== 32) {
+    throw new Error("Public key must be 32 bytes");
+  }
+  return createPublicKey({
+    key: Buffer.concat([ED25519_SPKI_PREFIX, publicKey]),
+    format: "der",
+    type: "spki",
+  });
+}
+
+/**
+ * Generate a new Ed25519 signing key pair
+ */
+export function generateSigningKeyPair(): SigningKeyPair {
+  const { publicKey, privateKey } = generateKeyPairSync("ed25519");
+  const spki = publicKey.export({ format: "der", type: "spki" });
+
+  return {
+    publicKey: new Uint8Array(spki.subarray(ED25519_SPKI_PREFIX.length)),
+    privateKey: new Uint8Array(
+      privateKey.export({ format: "der", type: "pkcs8" }),
+    ),
+  };
+}
+
+/**
+ * Sign data with an Ed25519 private key
+ *
+ * @param data - Bytes or UTF-8 text to sign
+ * @param privateKey - PKCS#8 DER private key
+ * @returns 64-byte detached signature
+ */
+export function signDetached(
+  data: Uint8Array | string,
+  privateKey: Uint8Array,
+): Uint8Array {
+  const key = createPrivateKey({
+    key: Buffer.from(privateKey),
+    format: "der",
+    type: "pkcs8",
+  });
+  return new Uint8Array(sign(null, Buffer.from(data), key));
+}
+
+/**
+ * Verify a detached Ed25519 signature
+ *
+ * @param data - Bytes or UTF-8 text that was signed
+ * @param signature - 64-byte signature
+ * @param publicKey - Raw 32-byte public key
+ * @returns true if the signature is valid, false otherwise
+ */
+export function verifyDetached(
+  data: Uint8Array | string,
+  signature: Uint8Array,
+  publicKey: Uint8Array,
+): boolean {
+  try {
+    return verify(
+      null,
+      Buffer.from(data),
+      toPublicKeyObject(publicKey),
+      Buffer.from(signature),
+    );
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Short stable identifier for a public key (first 16 hex chars of SHA-256)
+ */
+export function getSigningKeyId(publicKey: Uint8Array): string {
+  return createHash("sha256").update(publicKey).digest("hex").slice(0, 16);
+}
+
+/**
+ * Encode a raw Ed25519 public key as PEM for third-party verification
+ */
+export function signingPublicKeyToPem(publicKey: Uint8Array): string {
+  return toPublicKeyObject(publicKey)
+    .export({ format: "pem", type: "spki" })
+    .toString();
+}
+
+/**
+ * Decode a PEM Ed25519 public key back to its raw 32 bytes
+ *
+ * @throws Error if the PEM does not hold an Ed25519 public key
+ */
+export function signingPublicKeyFromPem(pem: string): Uint8Array {
+  const key = createPublicKey(pem);
+  if (key.asymmetricKeyType !== "ed25519") {
+    throw new Error("Public key is not an Ed25519 key");
+  }
+  const spki = key.export({ format: "der", type: "spki" });
+  return new Uint8Array(spki.subarray(ED25519_SPKI_PREFIX.length));
+}
@@ -88,6 +88,23 @@ function collectRecentFollowUps(
   const followUps: string[] = [];
   const seen = new Set<string>();
 
+  // Open questions recorded with append-session-note lead, newest first.
+  const questions = sessions
+    .flatMap((session) => db.getSessionNotes(session.id))
+    .filter((note) => note.kind === "question")
+    .sort((left, right) => right.createdAt.localeCompare(left.createdAt));
+  for (const question of questions) {
+    const content = question.content.trim();
+    if (!content || seen.has(content)) {
+      continue;
+    }
+    seen.add(content);
+    followUps.push(content);
+    if (followUps.length >= limit) {
+      return followUps;
+    }
+  }
+
   const sessionIds = sessions.map((session) => session.id);
   let offset = 0;
   const pageSize = Math.max(limit * 10, 25);
@@ -0,0 +1,229 @@
+/**
+ * Session history search query syntax, shared by the SQLite FTS5 index and
+ * the in-memory matcher used while session history is encrypted.
+ *
+ * Supported forms: bare terms (all must match), `"quoted phrases"`, `prefix*`,
+ * `a OR b`, and `NOT term` / `-term` exclusions.
+ */
+
+export const HISTORY_SNIPPET_OPEN = "**";
+export const HISTORY_SNIPPET_CLOSE = "**";
+export const HISTORY_SNIPPET_ELLIPSIS = "…";
+
+export interface HistoryQueryTerm {
+  tokens: string[];
+  prefix: boolean;
+}
+
+export interface ParsedHistoryQuery {
+  /** Every group must match; a group matches when any of its terms does */
+  required: HistoryQueryTerm[][];
+  /** No excluded term may match */
+  excluded: HistoryQueryTerm[];
+}
+
+const QUERY_PART_PATTERN = /(-?)"([^"]*)"(\*?)|(\S+)/g;
+const TOKEN_PATTERN = /[\p{L}\p{N}]+/gu;
+
+function normalizeToken(token: string): string {
+  return token.normalize("NFKD").replace(/\p{M}/gu, "").toLowerCase();
+}
+
+/**
+ * Splits text into normalized tokens the same way the FTS5 `unicode61`
+ * tokenizer with `remove_diacritics 2` does, closely enough for matching.
+ */
+export function tokenizeHistoryText(text: string): string[] {
+  return Array.from(text.matchAll(TOKEN_PATTERN), (match) =>
+    normalizeToken(match[0]),
+  );
+}
+
+/**
+ * @returns null when the query has no words to search for, such as `--`
+ * @throws Error if the query only has excluded terms
+ */
+export function parseHistoryQuery(query: string): ParsedHistoryQuery | null {
+  const required: HistoryQueryTerm[][] = [];
+  const excluded: HistoryQueryTerm[] = [];
+  let negateNext = false;
+  let joinWithPrevious = false;
+
+  for (const match of query.matchAll(QUERY_PART_PATTERN)) {
+    const [, quotedNegation, phrase, quotedPrefix, bare] = match;
+    let text: string;
+    let prefix: boolean;
+    let negated = negateNext;
+    negateNext = false;
+
+    if (phrase !== undefined) {
+      text = phrase;
+      prefix = quotedPrefix === "*";
+      negated ||= quotedNegation === "-";
+    } else {
+      if (bare === "OR") {
+        joinWithPrevious = required.length > 0;
+        continue;
+      }
+      if (bare === "AND") {
+        continue;
+      }
+      if (bare === "NOT") {
+        negateNext = true;
+        continue;
+      }
+
+      text = bare;
+      if (text.length > 1 && text.startsWith("-")) {
+        negated = true;
+        text = text.slice(1);
+      }
+      prefix = text.endsWith("*");
+    }
+
+    const tokens = tokenizeHistoryText(text);
+    if (tokens.length === 0) {
+      joinWithPrevious = false;
+      continue;
+    }
+
+    const term = { tokens, prefix };
+    if (negated) {
+      excluded.push(term);
+    } else if (joinWithPrevious) {
+      required[required.length - 1]?.push(term);
+    } else {
+      required.push([term]);
+    }
+    joinWithPrevious = false;
+  }
+
+  if (required.length === 0 && excluded.length === 0) {
+    return null;
+  }
+  if (required.length === 0) {
+    throw new Error("Search query must include at least one term to match");
+  }
+
+  return { required, excluded };
+}
+
+function toFtsTerm(term: HistoryQueryTerm): string {
+  return `"${term.tokens.join(" ")}"${term.prefix ? "*" : ""}`;
+}
+
+function toFtsGroup(terms: HistoryQueryTerm[]): string {
+  return terms.length === 1
+    ? toFtsTerm(terms[0])
+    : `(${terms.map(toFtsTerm).join(" OR ")})`;
+}
+
+/**
+ * Builds an FTS5 MATCH expression. Every term is re-quoted from its tokens,
+ * so user input can never inject FTS5 syntax or column filters.
+ */
+export function toFtsMatchExpression(query: ParsedHistoryQuery): string {
+  const required = query.required.map(toFtsGroup).join(" AND ");
+  if (query.excluded.length === 0) {
+    return required;
+  }
+
+  return `(${required}) NOT ${toFtsGroup(query.excluded)}`;
+}
+
+function findTerm(
+  tokens: string[],
+  term: HistoryQueryTerm,
+  from: number = 0,
+): number {
+  const lastIndex = term.tokens.length - 1;
+  for (let start = from; start + lastIndex < tokens.length; start += 1) {
+    const matched = term.tokens.every((token, offset) => {
+      const candidate = tokens[start + offset];
+      return offset === lastIndex && term.prefix
+        ? candidate.startsWith(token)
+        : candidate === token;
+    });
+    if (matched) {
+      return start;
+    }
+  }
+
+  return -1;
+}
+
+export function matchesHistoryQuery(
+  query: ParsedHistoryQuery,
+  text: string,
+): boolean {
+  const tokens = tokenizeHistoryText(text);
+  return (
+    query.required.every((group) =>
+      group.some((term) => findTerm(tokens, term) >= 0),
+    ) && query.excluded.every((term) => findTerm(tokens, term) < 0)
+  );
+}
+
+/**
+ * Builds an FTS5-style snippet: a window of tokens around the first match,
+ * with matched terms wrapped in highlight markers.
+ * @returns null when no required term occurs in the text
+ */
+export function buildHistorySnippet(
+  query: ParsedHistoryQuery,
+  text: string,
+  maxTokens: number = 16,
+): string | null {
+  const matches = Array.from(text.matchAll(TOKEN_PATTERN));
+  const tokens = matches.map((match) => normalizeToken(match[0]));
+  const terms = query.required.flat();
+  const firstMatch = terms.reduce((first, term) => {
+    const start = findTerm(tokens, term);
+    return start >= 0 && (first < 0 || start < first) ? start : first;
+  }, -1);
+
+  if (firstMatch < 0) {
+    return null;
+  }
+
+  const windowStart = Math.max(
+    0,
+    Math.min(firstMatch - Math.floor(maxTokens / 4), tokens.length - maxTokens),
+  );
+  const windowEnd = Math.min(tokens.length, windowStart + maxTokens) - 1;
+  const highlighted = new Set<number>();
+  for (const term of terms) {
+    let start = findTerm(
+      tokens,
+      term,
+      Math.max(0, windowStart - term.tokens.length + 1),
+    );
+    while (start >= 0 && start <= windowEnd) {
+      for (let offset = 0; offset < term.tokens.length; offset += 1) {
+        highlighted.add(start + offset);
+      }
+      start = findTerm(tokens, term, start + 1);
+    }
+  }
+
+  let snippet = windowStart > 0 ? HISTORY_SNIPPET_ELLIPSIS : "";
+  let cursor = matches[windowStart].index;
+
+  for (let index = windowStart; index <= windowEnd; index += 1) {
+    const match = matches[index];
+    const isMatch = highlighted.has(index);
+    snippet += text.slice(cursor, match.index);
+    if (isMatch && (index === windowStart || !highlighted.has(index - 1))) {
+      snippet += HISTORY_SNIPPET_OPEN;
+    }
+    snippet += match[0];
+    if (isMatch && (index === windowEnd || !highlighted.has(index + 1))) {
+      snippet += HISTORY_SNIPPET_CLOSE;
+    }
+    cursor = match.index + match[0].length;
+  }
+
+  return windowEnd < tokens.length - 1
+    ? `${snippet}${HISTORY_SNIPPET_ELLIPSIS}`
+    : `${snippet}${text.slice(cursor)}`;
+}
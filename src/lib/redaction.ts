@@ -0,0 +1,390 @@
+/* global process */
+import * as fs from "node:fs";
+import * as path from "node:path";
+import * as z from "zod";
+
+/**
+ * Secret and credential redaction for recorded session history.
+ *
+ * Detectors run on transcript text, timeline payloads, and artifact metadata
+ * before they are persisted. Every match is replaced with a typed placeholder
+ * such as `[REDACTED:github-token]` so the surrounding evidence stays readable.
+ */
+
+export const REDACTION_CONFIG_FILE = "redaction.json";
+
+const customPatternSchema = z.object({
+  name: z
+    .string()
+    .regex(
+      /^[a-z0-9][a-z0-9-]*$/,
+      "Pattern names must be lowercase letters, digits, and dashes",
+    ),
+  pattern: z.string().min(1),
+  flags: z
+    .string()
+    .regex(/^[imsu]*$/, "Only the i, m, s, and u flags are supported")
+    .optional(),
+});
+
+export const redactionConfigSchema = z.object({
+  enabled: z.boolean().default(true),
+  detectors: z
+    .object({
+      privateKeys: z.boolean().default(true),
+      tokenPrefixes: z.boolean().default(true),
+      secretAssignments: z.boolean().default(true),
+      highEntropy: z.boolean().default(true),
+    })
+    .prefault({}),
+  highEntropy: z
+    .object({
+      minLength: z.number().int().min(8).default(24),
+      minEntropy: z.number().min(0).max(8).default(4),
+    })
+    .prefault({}),
+  patterns: z.array(customPatternSchema).default([]),
+});
+
+export type RedactionConfig = z.output<typeof redactionConfigSchema>;
+export type RedactionConfigInput = z.input<typeof redactionConfigSchema>;
+
+export interface RedactionSummary {
+  count: number;
+  byType: Record<string, number>;
+}
+
+export interface RedactionResult<T> extends RedactionSummary {
+  value: T;
+}
+
+export interface Redactor {
+  redactText(text: string): RedactionResult<string>;
+  redactValue<T>(value: T): RedactionResult<T>;
+}
+
+interface TokenPrefixRule {
+  type: string;
+  pattern: RegExp;
+  /** Capture group holding the secret; defaults to the whole match */
+  group?: number;
+}
+
+const TOKEN_PREFIX_RULES: TokenPrefixRule[] = [
+  { type: "aws-access-key", pattern: /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/g },
+  { type: "github-token", pattern: /\bgh[opusr]_[A-Za-z0-9]{36,}\b/g },
+  { type: "github-token", pattern: /\bgithub_pat_[A-Za-z0-9_]{22,}\b/g },
+  { type: "gitlab-token", pattern: /\bglpat-[A-Za-z0-9_-]{20,}\b/g },
+  { type: "slack-token", pattern: /\bxox[aboprs]-[A-Za-z0-9-]{10,}\b/g },
+  {
+    type: "stripe-key",
+    pattern: /\b(?:sk|rk)_(?:live|test)_[0-9A-Za-z]{16,}\b/g,
+  },
+  { type: "anthropic-key", pattern: /\bsk-ant-[A-Za-z0-9_-]{20,}/g },
+  { type: "openai-key", pattern: /\bsk-(?:proj-)?[A-Za-z0-9_-]{20,}/g },
+  { type: "google-api-key", pattern: /\bAIza[0-9A-Za-z_-]{35}\b/g },
+  { type: "npm-token", pattern: /\bnpm_[A-Za-z0-9]{36}\b/g },
+  {
+    type: "jwt",
+    pattern: /\beyJ[A-Za-z0-9_-]{8,}\.eyJ[A-Za-z0-9_-]{8,}\.[A-Za-z0-9_-]{8,}/g,
+  },
+  {
+    type: "bearer-token",
+    pattern: /\b(Bearer\s+)([A-Za-z0-9._~+/-]{16,}=*)/g,
+    group: 2,
+  },
+];
+
+const PRIVATE_KEY_BLOCK_PATTERN =
+  /-----BEGIN ([A-Z0-9 ]*)PRIVATE KEY( BLOCK)?-----[\s\S]*?-----END \1PRIVATE KEY\2-----/g;
+const PRIVATE_KEY_BEGIN_PATTERN =
+  /-----BEGIN [A-Z0-9 ]*PRIVATE KEY(?: BLOCK)?-----[\s\S]*$/;
+const PRIVATE_KEY_END_PATTERN =
+  /^[\s\S]*?-----END [A-Z0-9 ]*PRIVATE KEY(?: BLOCK)?-----/;
+
+const SECRET_ASSIGNMENT_PATTERN =
+  /\b([A-Za-z0-9_.-]*?(?:secret|token|passw(?:or)?d|passphrase|api[_-]?key|access[_-]?key|private[_-]?key|credentials?))(["']?\s*[:=]\s*["']?)([^\s"'`,;})\]]+)/gi;
+const NON_SECRET_ASSIGNMENT_VALUE =
+  /^(?:\d+|true|false|null|undefined|none|bearer|basic|\$.*|\[REDACTED:.*|<.*>|\*+)$/i;
+
+const HIGH_ENTROPY_CANDIDATE_PATTERN = /[A-Za-z0-9+/=_-]+/g;
+const HEX_ONLY_PATTERN = /^[0-9a-f]+$/i;
+const INTEGRITY_HASH_PATTERN = /^sha(?:1|256|384|512)-/;
+const UUID_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+function placeholder(type: string): string {
+  return `[REDACTED:${type}]`;
+}
+
+function shannonEntropy(value: string): number {
+  const counts = new Map<string, number>();
+  for (const char of value) {
+    counts.set(char, (counts.get(char) ?? 0) + 1);
+  }
+
+  let entropy = 0;
+  for (const count of counts.values()) {
+    const probability = count / value.length;
+    entropy -= probability * Math.log2(probability);
+  }
+  return entropy;
+}
+
+function looksLikeHighEntropySecret(
+  candidate: string,
+  options: RedactionConfig["highEntropy"],
+): boolean {
+  if (candidate.length < options.minLength) {
+    return false;
+  }
+  if (
+    HEX_ONLY_PATTERN.test(candidate) ||
+    UUID_PATTERN.test(candidate) ||
+    INTEGRITY_HASH_PATTERN.test(candidate)
+  ) {
+    return false;
+  }
+  // Identifiers and slash-separated paths are long but rarely secrets; real
+  // keys mix letters with digits inside a single token.
+  if (!/[0-9]/.test(candidate) || !/[A-Za-z]/.test(candidate)) {
+    return false;
+  }
+  if (/\/[a-z]/.test(candidate) && !/[+=]/.test(candidate)) {
+    return false;
+  }
+
+  return shannonEntropy(candidate) >= options.minEntropy;
+}
+
+function compileCustomPatterns(
+  patterns: RedactionConfig["patterns"],
+): Array<{ type: string; pattern: RegExp }> {
+  return patterns.map((entry) => {
+    try {
+      return {
+        type: entry.name,
+        pattern: new RegExp(entry.pattern, `${entry.flags ?? ""}g`),
+      };
+    } catch (error) {
+      throw new Error(
+        `Invalid redaction pattern "${entry.name}": ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  });
+}
+
+/**
+ * Parse a redaction config, applying defaults for anything left out
+ *
+ * @param input - Raw config object (for example the parsed redaction.json)
+ * @returns Normalized redaction config
+ * @throws Error if the config is malformed or a custom pattern does not compile
+ */
+export function parseRedactionConfig(input: unknown): RedactionConfig {
+  const result = redactionConfigSchema.safeParse(input ?? {});
+  if (!result.success) {
+    throw new Error(
+      `Invalid redaction config: ${result.error.issues
+        .map((issue) => `${issue.path.join(".") || "<root>"}: ${issue.message}`)
+        .join("; ")}`,
+    );
+  }
+
+  compileCustomPatterns(result.data.patterns);
+  return result.data;
+}
+
+/**
+ * Resolve where the redaction config lives for a database.
+ * FOOTPRINT_REDACTION_CONFIG wins; otherwise redaction.json sits next to the
+ * database file.
+ */
+export function resolveRedactionConfigPath(
+  dbPath: string,
+  env: NodeJS.ProcessEnv = process.env,
+): string {
+  return (
+    env.FOOTPRINT_REDACTION_CONFIG ||
+    path.join(path.dirname(path.resolve(dbPath)), REDACTION_CONFIG_FILE)
+  );
+}
+
+/**
+ * Load a redaction config file. A missing file yields the default config.
+ *
+ * @param filePath - Path to a JSON redaction config
+ * @returns Normalized redaction config
+ * @throws Error if the file is not valid JSON or fails validation
+ */
+export function loadRedactionConfig(filePath: string): RedactionConfig {
+  let raw: string;
+  try {
+    raw = fs.readFileSync(filePath, "utf8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return parseRedactionConfig({});
+    }
+    throw error;
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch (error) {
+    throw new Error(
+      `Invalid redaction config at ${filePath}: ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+
+  try {
+    return parseRedactionConfig(parsed);
+  } catch (error) {
+    throw new Error(
+      `${error instanceof Error ? error.message : String(error)} (${filePath})`,
+    );
+  }
+}
+
+/**
+ * Create a redactor for one recording or ingestion pass.
+ *
+ * The redactor remembers when a private key block was opened but not closed,
+ * so line-oriented transcripts keep redacting until the END marker arrives.
+ *
+ * @param input - Redaction config; defaults to every built-in detector
+ * @returns Redactor instance
+ */
+export function createRedactor(
+  input: RedactionConfigInput | RedactionConfig = {},
+): Redactor {
+  const config = parseRedactionConfig(input);
+  const customPatterns = compileCustomPatterns(config.patterns);
+  let insidePrivateKeyBlock = false;
+
+  const redactText = (text: string): RedactionResult<string> => {
+    const byType: Record<string, number> = {};
+    const record = (type: string) => {
+      byType[type] = (byType[type] ?? 0) + 1;
+      return placeholder(type);
+    };
+
+    if (!config.enabled || text.length === 0) {
+      return { value: text, count: 0, byType };
+    }
+
+    let value = text;
+
+    if (config.detectors.privateKeys) {
+      if (insidePrivateKeyBlock) {
+        // Continuation of a block opened by an earlier chunk.
+        const blockEnd = value.match(PRIVATE_KEY_END_PATTERN);
+        insidePrivateKeyBlock = !blockEnd;
+        value = `${record("private-key")}${value.slice(blockEnd ? blockEnd[0].length : value.length)}`;
+      }
+
+      value = value.replace(PRIVATE_KEY_BLOCK_PATTERN, () =>
+        record("private-key"),
+      );
+      value = value.replace(PRIVATE_KEY_BEGIN_PATTERN, () => {
+        insidePrivateKeyBlock = true;
+        return record("private-key");
+      });
+    }
+
+    for (const custom of customPatterns) {
+      value = value.replace(custom.pattern, () => record(custom.type));
+    }
+
+    if (config.detectors.tokenPrefixes) {
+      for (const rule of TOKEN_PREFIX_RULES) {
+        value = value.replace(rule.pattern, (match, ...groups: unknown[]) => {
+          if (rule.group === undefined) {
+            return record(rule.type);
+          }
+          const prefix = typeof groups[0] === "string" ? groups[0] : "";
+          return `${prefix}${record(rule.type)}`;
+        });
+      }
+    }
+
+    if (config.detectors.secretAssignments) {
+      value = value.replace(
+        SECRET_ASSIGNMENT_PATTERN,
+        (match, name: string, separator: string, secret: string) => {
+          if (secret.length < 6 || NON_SECRET_ASSIGNMENT_VALUE.test(secret)) {
+            return match;
+          }
+          return `${name}${separator}${record("secret-assignment")}`;
+        },
+      );
+    }
+
+    if (config.detectors.highEntropy) {
+      value = value.replace(HIGH_ENTROPY_CANDIDATE_PATTERN, (candidate) =>
+        looksLikeHighEntropySecret(candidate, config.highEntropy)
+          ? record("high-entropy")
+          : candidate,
+      );
+    }
+
+    const count = Object.values(byType).reduce((sum, n) => sum + n, 0);
+    return { value, count, byType };
+  };
+
+  const redactValue = <T>(input: T): RedactionResult<T> => {
+    const byType: Record<string, number> = {};
+    let count = 0;
+
+    const visit = (value: unknown): unknown => {
+      if (typeof value === "string") {
+        const result = redactText(value);
+        count += result.count;
+        for (const [type, n] of Object.entries(result.byType)) {
+          byType[type] = (byType[type] ?? 0) + n;
+        }
+        return result.value;
+      }
+      if (Array.isArray(value)) {
+        return value.map(visit);
+      }
+      if (value && typeof value === "object") {
+        return Object.fromEntries(
+          Object.entries(value).map(([key, entry]) => [key, visit(entry)]),
+        );
+      }
+      return value;
+    };
+
+    return { value: visit(input) as T, count, byType };
+  };
+
+  return { redactText, redactValue };
+}
+
+/**
+ * Merge redaction counts from several results
+ */
+export function mergeRedactionSummaries(
+  ...summaries: RedactionSummary[]
+): RedactionSummary {
+  const byType: Record<string, number> = {};
+  let count = 0;
+  for (const summary of summaries) {
+    count += summary.count;
+    for (const [type, n] of Object.entries(summary.byType)) {
+      byType[type] = (byType[type] ?? 0) + n;
+    }
+  }
+  return { count, byType };
+}
+
+/**
+ * Describe redaction counts for a timeline summary line
+ */
+export function describeRedactions(summary: RedactionSummary): string {
+  const parts = Object.entries(summary.byType)
+    .sort(([left], [right]) => left.localeCompare(right))
+    .map(([type, n]) => `${type} x${n}`);
+  return `Redacted ${summary.count} secret${summary.count === 1 ? "" : "s"} (${parts.join(", ")})`;
+}
@@ -0,0 +1,237 @@
+/* global process */
+import * as fs from "node:fs";
+import * as path from "node:path";
+import * as z from "zod";
+import { getSessionLabel } from "./session-history.js";
+import type {
+  EvidenceDatabase,
+  SessionHost,
+  SessionRetentionCandidate,
+  SessionStatus,
+} from "./storage/index.js";
+
+/**
+ * Retention rules and garbage collection for recorded session history.
+ *
+ * Sessions expire once they are older than the max age configured for their
+ * status. Expired sessions are still kept when they are linked to a context,
+ * referenced by evidence, or among the newest sessions of their workspace.
+ */
+
+export const RETENTION_CONFIG_FILE = "retention.json";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const maxAgeDaysSchema = z.number().positive().nullable().default(null);
+
+export const retentionConfigSchema = z.object({
+  /** Days after a session ends (or starts, while running); null keeps forever */
+  maxAgeDays: z
+    .object({
+      running: maxAgeDaysSchema,
+      completed: maxAgeDaysSchema,
+      failed: maxAgeDaysSchema,
+      interrupted: maxAgeDaysSchema,
+    })
+    .prefault({}),
+  keepContextLinked: z.boolean().default(true),
+  keepEvidenceReferenced: z.boolean().default(true),
+  /** Newest sessions per workspace (project root) that are never pruned */
+  keepLastPerWorkspace: z.number().int().min(0).default(0),
+});
+
+export type RetentionConfig = z.output<typeof retentionConfigSchema>;
+export type RetentionConfigInput = z.input<typeof retentionConfigSchema>;
+
+export type RetentionKeepReason =
+  | "context-linked"
+  | "evidence-referenced"
+  | "recent-in-workspace";
+
+export interface PrunedSessionSummary {
+  sessionId: string;
+  host: SessionHost;
+  label: string;
+  status: SessionStatus;
+  projectRoot: string;
+  startedAt: string;
+  endedAt: string | null;
+}
+
+export interface SessionGcReport {
+  dryRun: boolean;
+  scanned: number;
+  expired: number;
+  pruned: number;
+  kept: Record<RetentionKeepReason, number>;
+  sessions: PrunedSessionSummary[];
+  /** Null when nothing was deleted or on a dry run */
+  vacuum: { bytesBefore: number; bytesAfter: number } | null;
+}
+
+/**
+ * Parse a retention config, applying defaults for anything left out
+ *
+ * @param input - Raw config object (for example the parsed retention.json)
+ * @returns Normalized retention config
+ * @throws Error if the config is malformed
+ */
+export function parseRetentionConfig(input: unknown): RetentionConfig {
+  const result = retentionConfigSchema.safeParse(input ?? {});
+  if (!result.success) {
+    throw new Error(
+      `Invalid retention config: ${result.error.issues
+        .map((issue) => `${issue.path.join(".") || "<root>"}: ${issue.message}`)
+        .join("; ")}`,
+    );
+  }
+
+  return result.data;
+}
+
+/**
+ * Resolve where the retention config lives for a database.
+ * FOOTPRINT_RETENTION_CONFIG wins; otherwise retention.json sits next to the
+ * database file.
+ */
+export function resolveRetentionConfigPath(
+  dbPath: string,
+  env: NodeJS.ProcessEnv = process.env,
+): string {
+  return (
+    env.FOOTPRINT_RETENTION_CONFIG ||
+    path.join(path.dirname(path.resolve(dbPath)), RETENTION_CONFIG_FILE)
+  );
+}
+
+/**
+ * Load a retention config file. A missing file yields the default config,
+ * which keeps every session.
+ *
+ * @param filePath - Path to a JSON retention config
+ * @returns Normalized retention config
+ * @throws Error if the file is not valid JSON or fails validation
+ */
+export function loadRetentionConfig(filePath: string): RetentionConfig {
+  let raw: string;
+  try {
+    raw = fs.readFileSync(filePath, "utf8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return parseRetentionConfig({});
+    }
+    throw error;
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch (error) {
+    throw new Error(
+      `Invalid retention config at ${filePath}: ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+
+  try {
+    return parseRetentionConfig(parsed);
+  } catch (error) {
+    throw new Error(
+      `${error instanceof Error ? error.message : String(error)} (${filePath})`,
+    );
+  }
+}
+
+/**
+ * Decide which sessions the retention rules prune.
+ *
+ * @param candidates - Sessions ordered newest first
+ * @param config - Normalized retention config
+ * @param now - Reference time for session age
+ * @returns Expired sessions to prune, plus counts of expired sessions kept
+ */
+export function planSessionRetention(
+  candidates: SessionRetentionCandidate[],
+  config: RetentionConfig,
+  now: Date = new Date(),
+): {
+  expired: number;
+  kept: Record<RetentionKeepReason, number>;
+  prune: SessionRetentionCandidate[];
+} {
+  const kept: Record<RetentionKeepReason, number> = {
+    "context-linked": 0,
+    "evidence-referenced": 0,
+    "recent-in-workspace": 0,
+  };
+  const prune: SessionRetentionCandidate[] = [];
+  const seenPerWorkspace = new Map<string, number>();
+  let expired = 0;
+
+  for (const candidate of candidates) {
+    const { session } = candidate;
+    const workspaceRank = (seenPerWorkspace.get(session.projectRoot) ?? 0) + 1;
+    seenPerWorkspace.set(session.projectRoot, workspaceRank);
+
+    const maxAgeDays = config.maxAgeDays[session.status];
+    const agedFrom = Date.parse(session.endedAt ?? session.startedAt);
+    if (
+      maxAgeDays === null ||
+      Number.isNaN(agedFrom) ||
+      now.getTime() - agedFrom < maxAgeDays * DAY_MS
+    ) {
+      continue;
+    }
+
+    expired += 1;
+    if (config.keepContextLinked && candidate.contextLinked) {
+      kept["context-linked"] += 1;
+    } else if (config.keepEvidenceReferenced && candidate.evidenceReferenced) {
+      kept["evidence-referenced"] += 1;
+    } else if (workspaceRank <= config.keepLastPerWorkspace) {
+      kept["recent-in-workspace"] += 1;
+    } else {
+      prune.push(candidate);
+    }
+  }
+
+  return { expired, kept, prune };
+}
+
+/**
+ * Prune expired session history and compact the database.
+ *
+ * @param db - Evidence database holding session history
+ * @param config - Normalized retention config
+ * @param options - `dryRun` reports what would be pruned without deleting
+ * @returns Garbage collection report
+ */
+export function collectSessionGarbage(
+  db: EvidenceDatabase,
+  config: RetentionConfig,
+  options: { dryRun?: boolean; now?: Date } = {},
+): SessionGcReport {
+  const candidates = db.listSessionRetentionCandidates();
+  const plan = planSessionRetention(candidates, config, options.now);
+  const dryRun = options.dryRun ?? false;
+  const pruned = dryRun
+    ? plan.prune.length
+    : db.deleteSessions(plan.prune.map(({ session }) => session.id));
+
+  return {
+    dryRun,
+    scanned: candidates.length,
+    expired: plan.expired,
+    pruned,
+    kept: plan.kept,
+    sessions: plan.prune.map(({ session }) => ({
+      sessionId: session.id,
+      host: session.host,
+      label: getSessionLabel(session),
+      status: session.status,
+      projectRoot: session.projectRoot,
+      startedAt: session.startedAt,
+      endedAt: session.endedAt,
+    })),
+    vacuum: !dryRun && pruned > 0 ? db.vacuum() : null,
+  };
+}
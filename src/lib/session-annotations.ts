@@ -0,0 +1,43 @@
+/* global process */
+import type { EvidenceDatabase, SessionRecord } from "./storage/index.js";
+
+/**
+ * Find the session an agent should write decisions and notes into. An
+ * explicit ID wins, then `FOOTPRINT_SESSION_ID` set by `footprint run`, then
+ * the newest running session for `FOOTPRINT_SESSION_HOST`.
+ *
+ * @throws Error if no session can be resolved
+ */
+export function resolveAnnotationSession(
+  db: EvidenceDatabase,
+  options?: { sessionId?: string; env?: NodeJS.ProcessEnv },
+): SessionRecord {
+  const env = options?.env ?? process.env;
+  const sessionId =
+    options?.sessionId?.trim() || env.FOOTPRINT_SESSION_ID?.trim();
+  if (sessionId) {
+    const session = db.findSessionById(sessionId);
+    if (!session) {
+      throw new Error(`Session not found: ${sessionId}`);
+    }
+    return session;
+  }
+
+  const host = env.FOOTPRINT_SESSION_HOST?.trim();
+  if (host) {
+    const session = db
+      .listSessions()
+      .find(
+        (candidate) =>
+          candidate.host === host && candidate.status === "running",
+      );
+    if (!session) {
+      throw new Error(`No running ${host} session to annotate`);
+    }
+    return session;
+  }
+
+  throw new Error(
+    "No active session: pass sessionId, or run the agent under footprint run",
+  );
+}
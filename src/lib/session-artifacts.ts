@@ -1,11 +1,79 @@
-import type { ArtifactRecord } from "./storage/index.js";
+import type { ArtifactRecord, ArtifactType } from "./storage/index.js";
 
 export interface ArtifactSourceRef {
   type: "message" | "event" | "artifact";
   id: string;
 }
 
-export interface ArtifactMetadataView {
+/** `lint-result`: one lint run, with counts and the rules and files it flagged */
+export interface LintResultMetadata {
+  linter: string | null;
+  errorCount: number | null;
+  warningCount: number | null;
+  lintRuleIds: string[];
+  lintFiles: string[];
+}
+
+/** `build-result`: one build, with its duration and the output files it reported */
+export interface BuildResultMetadata {
+  buildTool: string | null;
+  durationMs: number | null;
+  errorCount: number | null;
+  warningCount: number | null;
+  outputFiles: string[];
+}
+
+/** `dependency-change`: packages added, removed, or updated by a package manager */
+export interface DependencyChangeMetadata {
+  packageManager: string | null;
+  dependencyAction: string | null;
+  dependencyNames: string[];
+  /** Resolved `name@version` specs the package manager reported */
+  dependencyVersions: string[];
+}
+
+/** `http-request`: a network call made with curl, wget, httpie, or a host fetch tool */
+export interface HttpRequestMetadata {
+  httpClient: string | null;
+  httpMethod: string | null;
+  /** Origin and path only; query strings and fragments are dropped */
+  url: string | null;
+  host: string | null;
+  statusCode: number | null;
+}
+
+/** `migration`: a schema migration run and the migrations it applied */
+export interface MigrationMetadata {
+  migrationTool: string | null;
+  migrationAction: string | null;
+  migrationNames: string[];
+}
+
+/**
+ * Artifact types recorded from a command run. They share command metadata
+ * (command, category, outcome, failure signature, issue identity) and differ
+ * only in the typed fields above.
+ */
+export const COMMAND_ARTIFACT_TYPES: readonly ArtifactType[] = [
+  "command-output",
+  "lint-result",
+  "build-result",
+  "dependency-change",
+  "http-request",
+  "migration",
+];
+
+export function isCommandArtifactType(artifactType: string): boolean {
+  return (COMMAND_ARTIFACT_TYPES as readonly string[]).includes(artifactType);
+}
+
+export interface ArtifactMetadataView
+  extends
+    LintResultMetadata,
+    BuildResultMetadata,
+    DependencyChangeMetadata,
+    HttpRequestMetadata,
+    MigrationMetadata {
   sourceRefs: ArtifactSourceRef[];
   summary: string | null;
   category: string | null;
@@ -26,6 +94,14 @@ export interface ArtifactMetadataView {
   lintRuleId: string | null;
   testSuite: string | null;
   testCase: string | null;
+  testId: string | null;
+  durationMs: number | null;
+  failureMessage: string | null;
+  diagnosticSource: string | null;
+  diagnosticFile: string | null;
+  diagnosticLine: number | null;
+  diagnosticSymbol: string | null;
+  topFrame: string | null;
   issueKey: string | null;
   issueLabel: string | null;
   issueFamilyKey: string | null;
@@ -45,6 +121,11 @@ export interface ArtifactSummaryView {
     commandOutput: number;
     testResult: number;
     gitCommit: number;
+    lintResult: number;
+    buildResult: number;
+    dependencyChange: number;
+    httpRequest: number;
+    migration: number;
   };
 }
 
@@ -93,6 +174,10 @@ function getString(value: unknown): string | null {
   return typeof value === "string" && value.trim() ? value : null;
 }
 
+function getNumber(value: unknown): number | null {
+  return typeof value === "number" && Number.isFinite(value) ? value : null;
+}
+
 export function parseArtifactMetadata(
   metadata: string | null,
 ): ArtifactMetadataView {
@@ -113,12 +198,36 @@ export function parseArtifactMetadata(
     scriptName: getString(parsed.scriptName),
     dependencyAction: getString(parsed.dependencyAction),
     dependencyNames: toStringArray(parsed.dependencyNames),
+    dependencyVersions: toStringArray(parsed.dependencyVersions),
     failureSignatureKey: getString(parsed.failureSignatureKey),
     failureSignatureLabel: getString(parsed.failureSignatureLabel),
     errorCode: getString(parsed.errorCode),
     lintRuleId: getString(parsed.lintRuleId),
     testSuite: getString(parsed.testSuite),
     testCase: getString(parsed.testCase),
+    testId: getString(parsed.testId),
+    durationMs: getNumber(parsed.durationMs),
+    failureMessage: getString(parsed.failureMessage),
+    diagnosticSource: getString(parsed.diagnosticSource),
+    diagnosticFile: getString(parsed.diagnosticFile),
+    diagnosticLine: getNumber(parsed.diagnosticLine),
+    diagnosticSymbol: getString(parsed.diagnosticSymbol),
+    topFrame: getString(parsed.topFrame),
+    linter: getString(parsed.linter),
+    errorCount: getNumber(parsed.errorCount),
+    warningCount: getNumber(parsed.warningCount),
+    lintRuleIds: toStringArray(parsed.lintRuleIds),
+    lintFiles: toStringArray(parsed.lintFiles),
+    buildTool: getString(parsed.buildTool),
+    outputFiles: toStringArray(parsed.outputFiles),
+    httpClient: getString(parsed.httpClient),
+    httpMethod: getString(parsed.httpMethod),
+    url: getString(parsed.url),
+    host: getString(parsed.host),
+    statusCode: getNumber(parsed.statusCode),
+    migrationTool: getString(parsed.migrationTool),
+    migrationAction: getString(parsed.migrationAction),
+    migrationNames: toStringArray(parsed.migrationNames),
     issueKey: getString(parsed.issueKey),
     issueLabel: getString(parsed.issueLabel),
     issueFamilyKey: getString(parsed.issueFamilyKey),
@@ -154,6 +263,26 @@ export function getArtifactSummaryText(
     return "Test result captured";
   }
 
+  if (artifact.artifactType === "lint-result") {
+    return "Lint run captured";
+  }
+
+  if (artifact.artifactType === "build-result") {
+    return "Build captured";
+  }
+
+  if (artifact.artifactType === "dependency-change") {
+    return "Dependency change captured";
+  }
+
+  if (artifact.artifactType === "http-request") {
+    return "HTTP request captured";
+  }
+
+  if (artifact.artifactType === "migration") {
+    return "Migration captured";
+  }
+
   return "Command activity captured";
 }
 
@@ -175,6 +304,21 @@ export function buildArtifactSummary(
       gitCommit: artifacts.filter(
         (artifact) => artifact.artifactType === "git-commit",
       ).length,
+      lintResult: artifacts.filter(
+        (artifact) => artifact.artifactType === "lint-result",
+      ).length,
+      buildResult: artifacts.filter(
+        (artifact) => artifact.artifactType === "build-result",
+      ).length,
+      dependencyChange: artifacts.filter(
+        (artifact) => artifact.artifactType === "dependency-change",
+      ).length,
+      httpRequest: artifacts.filter(
+        (artifact) => artifact.artifactType === "http-request",
+      ).length,
+      migration: artifacts.filter(
+        (artifact) => artifact.artifactType === "migration",
+      ).length,
     },
   };
 }
@@ -205,6 +349,20 @@ export function getArtifactSearchableText(
     metadata.lintRuleId ?? "",
     metadata.testSuite ?? "",
     metadata.testCase ?? "",
+    metadata.testId ?? "",
+    metadata.failureMessage ?? "",
+    metadata.diagnosticFile ?? "",
+    metadata.diagnosticSymbol ?? "",
+    metadata.topFrame ?? "",
+    metadata.linter ?? "",
+    metadata.lintRuleIds.join(" "),
+    metadata.lintFiles.join(" "),
+    metadata.buildTool ?? "",
+    metadata.dependencyVersions.join(" "),
+    metadata.httpMethod ?? "",
+    metadata.url ?? "",
+    metadata.migrationTool ?? "",
+    metadata.migrationNames.join(" "),
     metadata.issueKey ?? "",
     metadata.issueLabel ?? "",
     metadata.issueFamilyKey ?? "",
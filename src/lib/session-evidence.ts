@@ -0,0 +1,223 @@
+import * as crypto from "node:crypto";
+import { encrypt } from "./crypto/index.js";
+import {
+  ensureSigningIdentity,
+  getCurrentCommit,
+  signContentHash,
+  type ArtifactRecord,
+  type EvidenceDatabase,
+  type SessionMessageRecord,
+  type TimelineEventRecord,
+} from "./storage/index.js";
+import {
+  stampEvidence,
+  type TimestampConfig,
+  type TimestampStatus,
+} from "./trusted-timestamp.js";
+
+/** Identifies the JSON document sealed into session evidence */
+export const SESSION_EVIDENCE_FORMAT = "footprint-session-evidence/v1";
+
+export interface SessionEvidenceCapture {
+  evidenceId: string;
+  sessionId: string;
+  timestamp: string;
+  fromSeq: number;
+  toSeq: number;
+  messageCount: number;
+  timelineCount: number;
+  artifactCount: number;
+  contentHash: string;
+  gitCommitHash: string | null;
+  timestampStatus: TimestampStatus;
+}
+
+function toTime(value: string): number {
+  const time = Date.parse(value);
+  return Number.isFinite(time) ? time : 0;
+}
+
+/**
+ * Pick the transcript slice and the timeline events and artifacts recorded
+ * alongside it. Events belong to the slice when they reference a selected
+ * message or fall between its first message and the first message after it;
+ * a slice that reaches either end of the transcript is open on that side.
+ *
+ * @returns Null when the range selects no messages, or the session is empty
+ */
+function selectSessionSlice(
+  messages: SessionMessageRecord[],
+  timeline: TimelineEventRecord[],
+  artifacts: ArtifactRecord[],
+  fromSeq: number,
+  toSeq: number,
+) {
+  const selected = messages.filter(
+    (message) => message.seq >= fromSeq && message.seq <= toSeq,
+  );
+  const first = messages[0];
+  const last = messages.at(-1);
+  if (first && selected.length === 0) {
+    return null;
+  }
+  const startsAtBeginning = !first || fromSeq <= first.seq;
+  const endsAtEnd = !last || toSeq >= last.seq;
+  if (startsAtBeginning && endsAtEnd) {
+    return timeline.length > 0 || messages.length > 0
+      ? { messages, timeline, artifacts }
+      : null;
+  }
+
+  const lowerBound = startsAtBeginning
+    ? Number.NEGATIVE_INFINITY
+    : toTime(selected[0]!.capturedAt);
+  const next = messages.find((message) => message.seq > toSeq);
+  const upperBound =
+    endsAtEnd || !next ? Number.POSITIVE_INFINITY : toTime(next.capturedAt);
+  const selectedIds = new Set(selected.map((message) => message.id));
+  const events = timeline.filter((event) => {
+    if (event.relatedMessageId) {
+      return selectedIds.has(event.relatedMessageId);
+    }
+    const startedAt = toTime(event.startedAt);
+    return startedAt >= lowerBound && startedAt < upperBound;
+  });
+  const eventIds = new Set(events.map((event) => event.id));
+
+  return {
+    messages: selected,
+    timeline: events,
+    artifacts: artifacts.filter(
+      (artifact) => artifact.eventId !== null && eventIds.has(artifact.eventId),
+    ),
+  };
+}
+
+/**
+ * Seal a recorded session, or a transcript seq range of it, into an evidence
+ * row. The transcript, timeline, and artifacts are stored as one encrypted
+ * JSON document, and the row keeps a link back to the session and range.
+ *
+ * @param options.fromSeq - First transcript seq to include (default: first)
+ * @param options.toSeq - Last transcript seq to include (default: last)
+ * @param options.tags - Comma-separated evidence tags
+ * @param options.timestampConfig - TSA to stamp the evidence with; stamping
+ *   failures queue the evidence instead of failing the capture
+ * @throws Error if the session is missing or the range selects nothing
+ */
+export async function captureSessionEvidence(
+  db: EvidenceDatabase,
+  key: Uint8Array,
+  sessionId: string,
+  options?: {
+    fromSeq?: number;
+    toSeq?: number;
+    tags?: string | null;
+    timestampConfig?: TimestampConfig;
+  },
+): Promise<SessionEvidenceCapture> {
+  const detail = db.getSessionDetail(sessionId);
+  if (!detail) {
+    throw new Error(`Session not found: ${sessionId}`);
+  }
+
+  const transcriptStart = detail.messages[0]?.seq ?? 0;
+  const transcriptEnd = detail.messages.at(-1)?.seq ?? 0;
+  const fromSeq = options?.fromSeq ?? transcriptStart;
+  const toSeq = options?.toSeq ?? transcriptEnd;
+  for (const [name, value] of [
+    ["fromSeq", fromSeq],
+    ["toSeq", toSeq],
+  ] as const) {
+    if (!Number.isInteger(value) || value < 0) {
+      throw new Error(`${name} must be a non-negative integer`);
+    }
+  }
+  if (fromSeq > toSeq) {
+    throw new Error("fromSeq must not be greater than toSeq");
+  }
+
+  const slice = selectSessionSlice(
+    detail.messages,
+    detail.timeline,
+    detail.artifacts,
+    fromSeq,
+    toSeq,
+  );
+  if (!slice) {
+    throw new Error(
+      `Nothing to capture in seq range ${fromSeq}-${toSeq} of session ${sessionId}`,
+    );
+  }
+
+  const { session } = detail;
+  const content = JSON.stringify(
+    {
+      format: SESSION_EVIDENCE_FORMAT,
+      session: {
+        id: session.id,
+        host: session.host,
+        title: session.title,
+        status: session.status,
+        projectRoot: session.projectRoot,
+        cwd: session.cwd,
+        startedAt: session.startedAt,
+        endedAt: session.endedAt,
+      },
+      range: { fromSeq, toSeq },
+      messages: slice.messages,
+      timeline: slice.timeline,
+      artifacts: slice.artifacts,
+    },
+    null,
+    2,
+  );
+
+  const encrypted = encrypt(content, key);
+  const gitInfo = await getCurrentCommit(session.projectRoot);
+  const contentHash = crypto.createHash("sha256").update(content).digest("hex");
+  const signer = ensureSigningIdentity(db.getDb(), key);
+  const timestamp = new Date().toISOString();
+  const evidenceId = db.create(
+    {
+      timestamp,
+      conversationId: session.id,
+      llmProvider: session.host,
+      encryptedContent: encrypted.ciphertext,
+      nonce: encrypted.nonce,
+      contentHash,
+      messageCount: slice.messages.length,
+      gitCommitHash: gitInfo?.commitHash ?? null,
+      gitTimestamp: gitInfo?.timestamp ?? null,
+      tags: options?.tags ?? null,
+      sessionId: session.id,
+      sessionFromSeq: fromSeq,
+      sessionToSeq: toSeq,
+      signature: signContentHash(signer, contentHash),
+      signingKeyId: signer.keyId,
+      timestampRequested: !!options?.timestampConfig?.url,
+    },
+    signer,
+  );
+  const timestampStatus = options?.timestampConfig
+    ? await stampEvidence(
+        db,
+        { id: evidenceId, contentHash },
+        options.timestampConfig,
+      )
+    : "disabled";
+
+  return {
+    evidenceId,
+    sessionId: session.id,
+    timestamp,
+    fromSeq,
+    toSeq,
+    messageCount: slice.messages.length,
+    timelineCount: slice.timeline.length,
+    artifactCount: slice.artifacts.length,
+    contentHash,
+    gitCommitHash: gitInfo?.commitHash ?? null,
+    timestampStatus,
+  };
+}
@@ -1,4 +1,3 @@
-import { getArtifactSearchableText } from "./session-artifacts.js";
 import type {
   EvidenceDatabase,
   SessionHost,
@@ -14,23 +13,6 @@ export interface SessionHistoryFilters {
   sessionIds?: string[];
 }
 
-export function collectSessionSearchableText(
-  db: EvidenceDatabase,
-  session: SessionRecord,
-): string[] {
-  const detail = db.getSessionDetail(session.id);
-  return [
-    session.title ?? "",
-    session.metadata ?? "",
-    ...(detail?.messages.map((message) => message.content) ?? []),
-    ...(detail?.artifacts.flatMap((artifact) =>
-      getArtifactSearchableText(artifact),
-    ) ?? []),
-    ...(detail?.narratives.map((narrative) => narrative.content) ?? []),
-    ...(detail?.decisions.map((decision) => decision.summary) ?? []),
-  ];
-}
-
 export function filterSessionsByHistory(
   db: EvidenceDatabase,
   filters: SessionHistoryFilters,
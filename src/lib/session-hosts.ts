@@ -0,0 +1,60 @@
+import * as path from "node:path";
+import type { BuiltInSessionHost, SessionHost } from "./storage/index.js";
+
+export const BUILT_IN_SESSION_HOSTS: readonly BuiltInSessionHost[] = [
+  "claude",
+  "gemini",
+  "codex",
+];
+
+/** Lowercase letters, digits, `.`, `_`, and `-`, starting with a letter or digit */
+export const SESSION_HOST_LABEL_PATTERN = /^[a-z0-9][a-z0-9._-]{0,39}$/;
+
+export function isBuiltInSessionHost(host: string): host is BuiltInSessionHost {
+  return (BUILT_IN_SESSION_HOSTS as readonly string[]).includes(host);
+}
+
+/**
+ * Validates a host filter value: a built-in host or a generic label.
+ * @throws Error if the value cannot name a session host
+ */
+export function parseSessionHost(value: string): SessionHost {
+  const host = value.trim();
+  if (!SESSION_HOST_LABEL_PATTERN.test(host)) {
+    throw new Error(
+      `Invalid session host "${value}". Use claude, gemini, codex, or a generic label of lowercase letters, digits, ".", "_", or "-".`,
+    );
+  }
+
+  return host;
+}
+
+/**
+ * Resolves the host label for a generic recorded command. Without an explicit
+ * label the command's base name is used, so `footprint run -- aider` records
+ * an `aider` session.
+ * @throws Error if the label is malformed or names a built-in host
+ */
+export function resolveGenericHostLabel(
+  command: string,
+  label?: string,
+): SessionHost {
+  const host = parseSessionHost(
+    label ??
+      // win32.basename splits on both "/" and "\\"
+      path.win32
+        .basename(command)
+        .toLowerCase()
+        .replace(/\.(?:exe|cmd|bat)$/, "")
+        .replace(/[^a-z0-9._-]+/g, "-")
+        .replace(/^[^a-z0-9]+/, "")
+        .slice(0, 40),
+  );
+  if (isBuiltInSessionHost(host)) {
+    throw new Error(
+      `"${host}" is a built-in host. Use "footprint run ${host} -- <args...>" to record it with its adapter, or pass --label <label>.`,
+    );
+  }
+
+  return host;
+}
@@ -0,0 +1,194 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+import {
+  describeRedactions,
+  mergeRedactionSummaries,
+  type RedactionSummary,
+  type Redactor,
+} from "./redaction.js";
+import { truncateSummary } from "./session-history.js";
+import type { EvidenceDatabase, SessionMessageRole } from "./storage/index.js";
+
+export function findProjectRoot(startDir: string): string {
+  let current = path.resolve(startDir);
+
+  while (true) {
+    if (fs.existsSync(path.join(current, ".git"))) {
+      return current;
+    }
+
+    const parent = path.dirname(current);
+    if (parent === current) {
+      return path.resolve(startDir);
+    }
+
+    current = parent;
+  }
+}
+
+export function serializeJson(value: unknown): string | null {
+  return value === undefined ? null : JSON.stringify(value);
+}
+
+export function recordMessageAndEvent(
+  db: EvidenceDatabase,
+  options: {
+    sessionId: string;
+    messageSeq: number;
+    eventSeq: number;
+    role: SessionMessageRole;
+    source: string;
+    content: string;
+    eventType: string;
+    eventStatus?: string | null;
+    payload?: Record<string, unknown>;
+    capturedAt?: string;
+    redactor?: Redactor;
+  },
+): {
+  messageSeq: number;
+  eventSeq: number;
+  messageId: string;
+  content: string;
+} {
+  const timestamp = options.capturedAt ?? new Date().toISOString();
+  const content = options.redactor
+    ? options.redactor.redactText(options.content)
+    : { value: options.content, count: 0, byType: {} };
+  const payload = options.redactor
+    ? options.redactor.redactValue(options.payload)
+    : { value: options.payload, count: 0, byType: {} };
+  const messageId = db.appendMessage({
+    sessionId: options.sessionId,
+    seq: options.messageSeq,
+    role: options.role,
+    source: options.source,
+    content: content.value,
+    capturedAt: timestamp,
+    metadata: serializeJson(payload.value),
+  });
+
+  db.appendTimelineEvent({
+    sessionId: options.sessionId,
+    seq: options.eventSeq,
+    eventType: options.eventType,
+    eventSubType: null,
+    source: options.source,
+    summary: truncateSummary(content.value),
+    payload: serializeJson(payload.value),
+    startedAt: timestamp,
+    endedAt: timestamp,
+    status: options.eventStatus ?? null,
+    relatedMessageId: messageId,
+  });
+
+  const eventSeq = appendRedactionEvent(db, {
+    sessionId: options.sessionId,
+    eventSeq: options.eventSeq + 1,
+    source: options.source,
+    target: { eventType: options.eventType, eventSeq: options.eventSeq },
+    relatedMessageId: messageId,
+    summary: mergeRedactionSummaries(content, payload),
+    timestamp,
+  });
+
+  return {
+    messageSeq: options.messageSeq + 1,
+    eventSeq,
+    messageId,
+    content: content.value,
+  };
+}
+
+export function appendTimelineEvent(
+  db: EvidenceDatabase,
+  options: {
+    sessionId: string;
+    eventSeq: number;
+    eventType: string;
+    eventSubType?: string | null;
+    source: string;
+    summary?: string | null;
+    payload?: unknown;
+    startedAt?: string | null;
+    endedAt?: string | null;
+    status?: string | null;
+    relatedMessageId?: string | null;
+    redactor?: Redactor;
+  },
+): number {
+  const now = new Date().toISOString();
+  const summary =
+    options.redactor && options.summary
+      ? options.redactor.redactText(options.summary)
+      : { value: options.summary ?? null, count: 0, byType: {} };
+  const payload = options.redactor
+    ? options.redactor.redactValue(options.payload)
+    : { value: options.payload, count: 0, byType: {} };
+
+  db.appendTimelineEvent({
+    sessionId: options.sessionId,
+    seq: options.eventSeq,
+    eventType: options.eventType,
+    eventSubType: options.eventSubType ?? null,
+    source: options.source,
+    summary: summary.value,
+    payload: serializeJson(payload.value),
+    startedAt: options.startedAt ?? now,
+    endedAt: options.endedAt ?? options.startedAt ?? now,
+    status: options.status ?? null,
+    relatedMessageId: options.relatedMessageId ?? null,
+  });
+
+  return appendRedactionEvent(db, {
+    sessionId: options.sessionId,
+    eventSeq: options.eventSeq + 1,
+    source: options.source,
+    target: { eventType: options.eventType, eventSeq: options.eventSeq },
+    relatedMessageId: options.relatedMessageId ?? null,
+    summary: mergeRedactionSummaries(summary, payload),
+    timestamp: options.startedAt ?? now,
+  });
+}
+
+/**
+ * Records how many values were redacted from the preceding row. Only counts
+ * and placeholder types are stored, never the redacted text.
+ */
+function appendRedactionEvent(
+  db: EvidenceDatabase,
+  options: {
+    sessionId: string;
+    eventSeq: number;
+    source: string;
+    target: { eventType: string; eventSeq: number };
+    relatedMessageId: string | null;
+    summary: RedactionSummary;
+    timestamp: string;
+  },
+): number {
+  if (options.summary.count === 0) {
+    return options.eventSeq;
+  }
+
+  db.appendTimelineEvent({
+    sessionId: options.sessionId,
+    seq: options.eventSeq,
+    eventType: "redaction.applied",
+    eventSubType: options.target.eventType,
+    source: options.source,
+    summary: describeRedactions(options.summary),
+    payload: serializeJson({
+      count: options.summary.count,
+      byType: options.summary.byType,
+      targetEventSeq: options.target.eventSeq,
+      targetEventType: options.target.eventType,
+    }),
+    startedAt: options.timestamp,
+    endedAt: options.timestamp,
+    status: "redacted",
+    relatedMessageId: options.relatedMessageId,
+  });
+
+  return options.eventSeq + 1;
+}
@@ -6,8 +6,35 @@ import {
   getArtifactSearchableText,
   parseArtifactMetadata,
 } from "../session-artifacts.js";
+import {
+  buildHistorySnippet,
+  HISTORY_SNIPPET_CLOSE,
+  HISTORY_SNIPPET_ELLIPSIS,
+  HISTORY_SNIPPET_OPEN,
+  matchesHistoryQuery,
+  parseHistoryQuery,
+  toFtsMatchExpression,
+  type ParsedHistoryQuery,
+} from "../history-query.js";
 import { traceSyncOperation } from "../observability.js";
-import { createSchema } from "./schema.js";
+import {
+  appendLedgerEntry,
+  tombstoneLedgerEntries,
+  verifyEvidenceLedger,
+  type LedgerVerification,
+} from "./ledger.js";
+import { isRekeyInProgress } from "./rekey.js";
+import {
+  retrieveSigningPublicKey,
+  type SigningIdentity,
+} from "./signing-key-storage.js";
+import { createSchema, migrateSessionHistoryEncryption } from "./schema.js";
+import {
+  canOpenSealedText,
+  isSealedText,
+  openSealedText,
+  sealText,
+} from "./session-encryption.js";
 import type {
   ArtifactRecord,
   ArtifactType,
@@ -17,23 +44,41 @@ import type {
   ContextSessionLinkRecord,
   ContextStatus,
   ContextWorkspacePreferenceRecord,
+  DecisionOrigin,
   DecisionRecord,
   DecisionStatus,
   Evidence,
+  EvidenceLedgerField,
+  EvidenceSessionLinkField,
+  EvidenceSignatureField,
+  EvidenceTimestampField,
   IngestionRunRecord,
   IngestionStage,
   IngestionStatus,
   NarrativeKind,
   NarrativeRecord,
   SessionDetail,
+  SessionHistoryChange,
+  SessionHistorySearchHit,
   SessionHost,
+  SessionImportRecord,
+  SessionRetentionCandidate,
   SessionMessageRecord,
   SessionMessageRole,
+  SessionNoteRecord,
   SessionRecord,
+  SessionRecording,
+  SessionRecordingFrame,
   SessionStatus,
   TimelineEventRecord,
+  TimestampQueueEntry,
 } from "./types.js";
 
+/** Orders strings by code unit, as SQLite's default collation does */
+function compareText(left: string, right: string): number {
+  return left < right ? -1 : left > right ? 1 : 0;
+}
+
 function escapeLikePattern(pattern: string): string {
   return pattern.replace(/[%_\\]/g, "\\$&");
 }
@@ -107,6 +152,18 @@ interface EvidenceRow {
   gitCommitHash: string | null;
   gitTimestamp: string | null;
   tags: string | null;
+  sessionId: string | null;
+  sessionFromSeq: number | null;
+  sessionToSeq: number | null;
+  chainSeq: number | null;
+  prevHash: string | null;
+  entryHash: string | null;
+  signature: string | null;
+  signingKeyId: string | null;
+  timestampToken: Buffer | null;
+  timestampGenTime: string | null;
+  timestampAuthority: string | null;
+  timestampRequested: number | null;
   createdAt: string;
   updatedAt: string;
 }
@@ -157,6 +214,28 @@ interface ContextWorkspacePreferenceRow {
   updatedAt: string;
 }
 
+interface SessionImportRow {
+  sourceKey: string;
+  host: string;
+  sourcePath: string;
+  fingerprint: string;
+  sessionId: string;
+  entryCount: number;
+  importedAt: string;
+  updatedAt: string;
+}
+
+interface SessionRecordingRow {
+  sessionId: string;
+  format: string;
+  startedAt: string;
+  durationMs: number;
+  columns: number | null;
+  rows: number | null;
+  frameCount: number;
+  frames: string;
+}
+
 interface MessageRow {
   id: string;
   sessionId: string;
@@ -201,6 +280,16 @@ interface DecisionRow {
   rationale: string | null;
   status: DecisionStatus;
   sourceRefs: string;
+  origin: DecisionRecord["origin"];
+  supersedes: string | null;
+  createdAt: string;
+}
+
+interface SessionNoteRow {
+  id: string;
+  sessionId: string;
+  kind: SessionNoteRecord["kind"];
+  content: string;
   createdAt: string;
 }
 
@@ -290,6 +379,34 @@ const SESSION_HISTORY_CACHE_VERSION_KEY = "session_history_cache_version";
 const SESSION_TREND_CACHE_VERSION_KEY = "session_trend_cache_version";
 const CURRENT_SESSION_HISTORY_CACHE_VERSION = 1;
 const CURRENT_SESSION_TREND_CACHE_VERSION = 1;
+const SESSION_HISTORY_FTS_VERSION_KEY = "session_history_fts_version";
+const CURRENT_SESSION_HISTORY_FTS_VERSION = 1;
+/** Indexed cache columns, in FTS5 column order after `sessionId` */
+const SESSION_HISTORY_FTS_COLUMNS = [
+  "titleText",
+  "metadataText",
+  "messagesText",
+  "artifactsText",
+  "narrativesText",
+  "decisionsText",
+] as const;
+/** BM25 column weights, including the unindexed `sessionId` column */
+const SESSION_HISTORY_FTS_WEIGHTS = [0, 8, 1, 2, 1, 3, 4];
+/** Columns tried for snippets, most readable first */
+const SESSION_HISTORY_SNIPPET_COLUMNS = [
+  "titleText",
+  "decisionsText",
+  "narrativesText",
+  "messagesText",
+  "artifactsText",
+  "metadataText",
+] as const;
+const MAX_HISTORY_SNIPPETS = 3;
+const HISTORY_SNIPPET_TOKENS = 16;
+const SESSION_HISTORY_ENCRYPTION_KEY = "session_history_encryption";
+const SESSION_HISTORY_KEY_CHECK_KEY = "session_history_key_check";
+const SESSION_HISTORY_ENCRYPTION_CIPHER = "xchacha20-poly1305";
+const SESSION_HISTORY_KEY_CHECK_TEXT = "footprint-session-history";
 
 /**
  * Evidence database with CRUD operations
@@ -299,6 +416,22 @@ export class EvidenceDatabase {
   private db: Database.Database;
   private sessionHistoryCacheBackfilled = false;
   private sessionTrendAttemptsBackfilled = false;
+  private sessionHistoryEncrypted = false;
+  private sessionHistoryKey: Uint8Array | null = null;
+  private decryptedHistoryCache = new Map<
+    string,
+    { updatedAt: string; parts: string[] }
+  >();
+  private sessionHistoryListeners = new Set<
+    (changes: SessionHistoryChange[]) => void
+  >();
+  /** Changes waiting for the writes behind them to commit */
+  private pendingHistoryChanges: Array<{
+    change: SessionHistoryChange;
+    marker: number | null;
+  }> = [];
+  private nextHistoryChangeMarker = 1;
+  private historyChangeFlushScheduled = false;
 
   /**
    * Creates or opens an evidence database
@@ -309,6 +442,14 @@ export class EvidenceDatabase {
     this.db = new Database(dbPath);
     try {
       createSchema(this.db);
+      // Markers roll back with the transaction that wrote them, which tells
+      // a flush whether a queued change was committed
+      this.db.exec(
+        "CREATE TEMP TABLE IF NOT EXISTS pending_history_changes (marker INTEGER PRIMARY KEY)",
+      );
+      this.sessionHistoryEncrypted =
+        this.getMetadataValue(SESSION_HISTORY_ENCRYPTION_KEY) ===
+        SESSION_HISTORY_ENCRYPTION_CIPHER;
       this.initializeMaterializedCaches();
     } catch (error) {
       // Clean up database connection on any initialization failure
@@ -364,6 +505,12 @@ export class EvidenceDatabase {
   }
 
   private initializeMaterializedCaches(): void {
+    // Encrypted history cannot be rebuilt until the key is supplied;
+    // unlockSessionHistory() re-runs this once it is.
+    if (this.sessionHistoryEncrypted && !this.sessionHistoryKey) {
+      return;
+    }
+
     if (
       this.getMetadataVersion(SESSION_HISTORY_CACHE_VERSION_KEY) <
       CURRENT_SESSION_HISTORY_CACHE_VERSION
@@ -379,6 +526,21 @@ export class EvidenceDatabase {
       this.ensureSessionHistoryCacheBackfilled();
     }
 
+    if (!this.sessionHistoryEncrypted) {
+      if (
+        this.getMetadataVersion(SESSION_HISTORY_FTS_VERSION_KEY) <
+        CURRENT_SESSION_HISTORY_FTS_VERSION
+      ) {
+        this.rebuildSessionHistoryIndex();
+        this.setMetadataValue(
+          SESSION_HISTORY_FTS_VERSION_KEY,
+          String(CURRENT_SESSION_HISTORY_FTS_VERSION),
+        );
+      } else {
+        this.ensureSessionHistoryIndexed();
+      }
+    }
+
     if (
       this.getMetadataVersion(SESSION_TREND_CACHE_VERSION_KEY) <
       CURRENT_SESSION_TREND_CACHE_VERSION
@@ -395,6 +557,152 @@ export class EvidenceDatabase {
     }
   }
 
+  private getSessionHistoryKeyOrThrow(): Uint8Array {
+    if (!this.sessionHistoryKey) {
+      throw new Error(
+        "Session history is encrypted; unlock it with the evidence passphrase",
+      );
+    }
+
+    return this.sessionHistoryKey;
+  }
+
+  private sealSessionText(value: string): string {
+    return this.sessionHistoryEncrypted
+      ? sealText(value, this.getSessionHistoryKeyOrThrow())
+      : value;
+  }
+
+  private sealNullableSessionText(value: string | null): string | null {
+    return value === null ? null : this.sealSessionText(value);
+  }
+
+  private openSessionText(value: string): string {
+    return this.sessionHistoryEncrypted && isSealedText(value)
+      ? openSealedText(value, this.getSessionHistoryKeyOrThrow())
+      : value;
+  }
+
+  private openNullableSessionText(value: string | null): string | null {
+    return value === null ? null : this.openSessionText(value);
+  }
+
+  private assertSessionHistoryKey(key: Uint8Array): void {
+    if (key.length !== 32) {
+      throw new Error("Key must be 32 bytes");
+    }
+
+    const keyCheck = this.getMetadataValue(SESSION_HISTORY_KEY_CHECK_KEY);
+    if (!keyCheck) {
+      return;
+    }
+
+    try {
+      openSealedText(keyCheck, key);
+    } catch {
+      throw new Error(
+        "Session history key does not match the key used to encrypt it",
+      );
+    }
+  }
+
+  private sealExistingSessionHistory(): number {
+    const key = this.getSessionHistoryKeyOrThrow();
+    // Mid-rekey, rows sealed with the new key would not open with this one
+    if (isRekeyInProgress(this.db)) {
+      return 0;
+    }
+
+    return migrateSessionHistoryEncryption(this.db, {
+      seal: (value) => sealText(value, key),
+      // Plaintext can start with the sealed marker; only the key proves it
+      isSealed: (value) => canOpenSealedText(value, key),
+    });
+  }
+
+  /**
+   * Run a write with secure_delete on, so the plaintext it replaces is zeroed
+   * instead of lingering in freed pages
+   */
+  private withSecureDelete<T>(fn: () => T): T {
+    const previous = this.db.pragma("secure_delete", { simple: true });
+    this.db.pragma("secure_delete = ON");
+    try {
+      return fn();
+    } finally {
+      this.db.pragma(`secure_delete = ${previous}`);
+    }
+  }
+
+  /**
+   * Reports whether session history is encrypted at rest
+   * @returns true once encryption has been enabled for this database
+   */
+  isSessionHistoryEncrypted(): boolean {
+    return this.sessionHistoryEncrypted;
+  }
+
+  /**
+   * Supplies the key used to read and write encrypted session history.
+   * Rows still left in plaintext (e.g. by an interrupted migration) are sealed.
+   * @param key - 32-byte key derived from the evidence passphrase
+   * @throws Error if the key does not match the one history was sealed with
+   */
+  unlockSessionHistory(key: Uint8Array): void {
+    this.dbOp("unlock session history", () => {
+      this.assertSessionHistoryKey(key);
+      this.sessionHistoryKey = key;
+      this.decryptedHistoryCache.clear();
+
+      if (this.sessionHistoryEncrypted) {
+        const sealedRows = this.withSecureDelete(() =>
+          this.sealExistingSessionHistory(),
+        );
+        this.initializeMaterializedCaches();
+        if (sealedRows > 0) {
+          this.vacuum();
+        }
+      }
+    });
+  }
+
+  /**
+   * Opts this database into encrypted session history and seals existing rows
+   * with the evidence key, then rebuilds the file so no plaintext copies remain
+   * in free pages. Encryption stays enabled for the lifetime of the file.
+   * @param key - 32-byte key derived from the evidence passphrase
+   * @returns Number of existing rows that were encrypted
+   */
+  enableSessionHistoryEncryption(key: Uint8Array): number {
+    return this.dbOp("enable session history encryption", () => {
+      this.assertSessionHistoryKey(key);
+      this.sessionHistoryKey = key;
+      this.decryptedHistoryCache.clear();
+
+      const enable = this.db.transaction(() => {
+        if (!this.getMetadataValue(SESSION_HISTORY_KEY_CHECK_KEY)) {
+          this.setMetadataValue(
+            SESSION_HISTORY_KEY_CHECK_KEY,
+            sealText(SESSION_HISTORY_KEY_CHECK_TEXT, key),
+          );
+        }
+        this.setMetadataValue(
+          SESSION_HISTORY_ENCRYPTION_KEY,
+          SESSION_HISTORY_ENCRYPTION_CIPHER,
+        );
+
+        return this.sealExistingSessionHistory();
+      });
+
+      const sealedRows = this.withSecureDelete(enable);
+      this.sessionHistoryEncrypted = true;
+      this.initializeMaterializedCaches();
+      // Rebuilding the file also drops plaintext left in the WAL
+      this.vacuum();
+      return sealedRows;
+    });
+  }
+
   private dbOp<T>(action: string, fn: () => T): T {
     try {
       return fn();
@@ -403,6 +711,101 @@ export class EvidenceDatabase {
     }
   }
 
+  /**
+   * Queue a change for the listeners. Changes are reported together once the
+   * current synchronous write finishes, so listeners never see a write inside
+   * an open transaction, and changes a rollback undid are dropped.
+   */
+  private emitSessionHistoryChange(change: SessionHistoryChange): void {
+    if (this.sessionHistoryListeners.size === 0) {
+      return;
+    }
+
+    let marker: number | null = null;
+    if (this.db.inTransaction) {
+      marker = this.nextHistoryChangeMarker++;
+      this.db
+        .prepare("INSERT INTO temp.pending_history_changes (marker) VALUES (?)")
+        .run(marker);
+    }
+    this.pendingHistoryChanges.push({ change, marker });
+
+    if (!this.historyChangeFlushScheduled) {
+      this.historyChangeFlushScheduled = true;
+      queueMicrotask(() => this.flushSessionHistoryChanges());
+    }
+  }
+
+  private flushSessionHistoryChanges(): void {
+    this.historyChangeFlushScheduled = false;
+    const pending = this.pendingHistoryChanges;
+    this.pendingHistoryChanges = [];
+    if (!this.db.open || this.sessionHistoryListeners.size === 0) {
+      return;
+    }
+    if (this.db.inTransaction) {
+      // A transaction opened with BEGIN is still running; wait for it
+      this.pendingHistoryChanges = pending;
+      this.historyChangeFlushScheduled = true;
+      setTimeout(() => this.flushSessionHistoryChanges(), 0);
+      return;
+    }
+
+    const committed = new Set(
+      (
+        this.db
+          .prepare("SELECT marker FROM temp.pending_history_changes")
+          .all() as Array<{ marker: number }>
+      ).map((row) => row.marker),
+    );
+    this.db.exec("DELETE FROM temp.pending_history_changes");
+
+    const changes = new Map<string, SessionHistoryChange>();
+    for (const { change, marker } of pending) {
+      if (marker === null || committed.has(marker)) {
+        changes.set(`${change.sessionId}:${change.kind}`, change);
+      }
+    }
+    if (changes.size === 0) {
+      return;
+    }
+
+    for (const listener of this.sessionHistoryListeners) {
+      try {
+        listener([...changes.values()]);
+      } catch {
+        // A failing listener must not undo a write that already succeeded.
+      }
+    }
+  }
+
+  /**
+   * Watch session history writes made through this connection. Writes from
+   * other processes are not reported; compare `getDataVersion()` for those.
+   * Each call reports the distinct changes one or more committed writes made.
+   *
+   * @returns Function that removes the listener
+   */
+  onSessionHistoryChange(
+    listener: (changes: SessionHistoryChange[]) => void,
+  ): () => void {
+    this.sessionHistoryListeners.add(listener);
+    return () => {
+      this.sessionHistoryListeners.delete(listener);
+    };
+  }
+
+  /**
+   * SQLite's data_version, which changes whenever another connection commits
+   * to the database file
+   */
+  getDataVersion(): number {
+    return this.dbOp(
+      "read data version",
+      () => this.db.pragma("data_version", { simple: true }) as number,
+    );
+  }
+
   private resolveActiveContextIdOrThrow(contextId: string): string {
     let currentId = contextId.trim();
     const visited = new Set<string>();
@@ -440,43 +843,117 @@ export class EvidenceDatabase {
   }
 
   /**
-   * Creates a new evidence record
-   * @param evidence - Evidence data without id, createdAt, updatedAt
+   * Creates a new evidence record and appends it to the evidence ledger
+   * @param evidence - Evidence data without createdAt, updatedAt; a new id is
+   *   generated unless one is given (as when importing a bundle). Set
+   *   timestampRequested when a TSA stamp is about to be requested, so a
+   *   missing token fails verification.
+   * @param ledgerSigner - Signs the new ledger head
    * @returns UUID of created evidence
    */
-  create(evidence: Omit<Evidence, "id" | "createdAt" | "updatedAt">): string {
-    const id = crypto.randomUUID();
+  create(
+    evidence: Omit<
+      Evidence,
+      | "id"
+      | "createdAt"
+      | "updatedAt"
+      | EvidenceSessionLinkField
+      | EvidenceLedgerField
+      | EvidenceSignatureField
+      | EvidenceTimestampField
+      | "timestampRequested"
+    > &
+      Partial<
+        Pick<
+          Evidence,
+          | "id"
+          | EvidenceSessionLinkField
+          | EvidenceSignatureField
+          | "timestampRequested"
+        >
+      >,
+    ledgerSigner: SigningIdentity | null = null,
+  ): string {
+    const id = evidence.id ?? crypto.randomUUID();
     const now = new Date().toISOString();
+    const sessionLink = {
+      sessionId: evidence.sessionId ?? null,
+      sessionFromSeq: evidence.sessionFromSeq ?? null,
+      sessionToSeq: evidence.sessionToSeq ?? null,
+    };
+    const timestampRequested = evidence.timestampRequested ?? false;
 
     return this.dbOp("create evidence", () => {
       const stmt = this.db.prepare(`
         INSERT INTO evidences (
           id, timestamp, conversationId, llmProvider,
           encryptedContent, nonce, contentHash, messageCount,
-          gitCommitHash, gitTimestamp, tags, createdAt, updatedAt
-        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+          gitCommitHash, gitTimestamp, tags, sessionId, sessionFromSeq,
+          sessionToSeq, chainSeq, prevHash, entryHash, signature,
+          signingKeyId, timestampRequested, createdAt, updatedAt
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
       `);
 
-      stmt.run(
-        id,
-        evidence.timestamp,
-        evidence.conversationId,
-        evidence.llmProvider,
-        Buffer.from(evidence.encryptedContent),
-        Buffer.from(evidence.nonce),
-        evidence.contentHash,
-        evidence.messageCount,
-        evidence.gitCommitHash,
-        evidence.gitTimestamp,
-        evidence.tags,
-        now,
-        now,
-      );
+      // IMMEDIATE takes the write lock before reading the ledger head, so a
+      // second process cannot link to the same head.
+      this.db
+        .transaction(() => {
+          const link = appendLedgerEntry(
+            this.db,
+            {
+              id,
+              timestamp: evidence.timestamp,
+              conversationId: evidence.conversationId,
+              llmProvider: evidence.llmProvider,
+              contentHash: evidence.contentHash,
+              messageCount: evidence.messageCount,
+              ...sessionLink,
+              timestampRequested,
+            },
+            ledgerSigner,
+          );
+          stmt.run(
+            id,
+            evidence.timestamp,
+            evidence.conversationId,
+            evidence.llmProvider,
+            Buffer.from(evidence.encryptedContent),
+            Buffer.from(evidence.nonce),
+            evidence.contentHash,
+            evidence.messageCount,
+            evidence.gitCommitHash,
+            evidence.gitTimestamp,
+            evidence.tags,
+            sessionLink.sessionId,
+            sessionLink.sessionFromSeq,
+            sessionLink.sessionToSeq,
+            link.chainSeq,
+            link.prevHash,
+            link.entryHash,
+            evidence.signature ?? null,
+            evidence.signingKeyId ?? null,
+            timestampRequested ? 1 : 0,
+            now,
+            now,
+          );
+        })
+        .immediate();
 
       return id;
     });
   }
 
+  /**
+   * Walks the evidence ledger and reports gaps, reordering, edits, and
+   * tombstones or a head without the signing identity's signature
+   * @returns Verification report for the whole chain
+   */
+  verifyLedger(): LedgerVerification {
+    return this.dbOp("verify evidence ledger", () =>
+      verifyEvidenceLedger(this.db, retrieveSigningPublicKey(this.db)),
+    );
+  }
+
   /**
    * Finds evidence by ID
    * @param id - Evidence UUID
@@ -515,6 +992,26 @@ export class EvidenceDatabase {
     });
   }
 
+  /**
+   * Finds evidence promoted from a recorded session
+   * @param sessionId - Session UUID
+   * @returns Evidences in capture order (empty if none found)
+   */
+  findEvidenceBySessionId(sessionId: string): Evidence[] {
+    return this.dbOp("find evidences by sessionId", () => {
+      const rows = this.db
+        .prepare(
+          `
+            SELECT * FROM evidences
+            WHERE sessionId = ?
+            ORDER BY timestamp ASC
+          `,
+        )
+        .all(sessionId) as EvidenceRow[];
+      return rows.map((row) => this.rowToEvidence(row));
+    });
+  }
+
   /**
    * Lists evidences with pagination
    * @param options - Pagination options (limit, offset)
@@ -636,6 +1133,27 @@ export class EvidenceDatabase {
       .run(new Date().toISOString(), sessionId);
   }
 
+  private sealSessionHistoryCacheUpdates(
+    updates: Partial<Omit<SessionHistoryCacheRow, "sessionId" | "updatedAt">>,
+  ): Partial<Omit<SessionHistoryCacheRow, "sessionId" | "updatedAt">> {
+    const sealed = { ...updates };
+    for (const column of [
+      "titleText",
+      "metadataText",
+      "messagesText",
+      "artifactsText",
+      "narrativesText",
+      "decisionsText",
+    ] as const) {
+      const value = sealed[column];
+      if (value !== undefined) {
+        sealed[column] = this.sealSessionText(value);
+      }
+    }
+
+    return sealed;
+  }
+
   private updateSessionHistoryCache(
     sessionId: string,
     updates: Partial<Omit<SessionHistoryCacheRow, "sessionId" | "updatedAt">>,
@@ -657,10 +1175,11 @@ export class EvidenceDatabase {
 
     const next: SessionHistoryCacheRow = {
       ...current,
-      ...updates,
+      ...this.sealSessionHistoryCacheUpdates(updates),
       sessionId,
       updatedAt: new Date().toISOString(),
     };
+    this.decryptedHistoryCache.delete(sessionId);
 
     this.db
       .prepare(
@@ -686,6 +1205,85 @@ export class EvidenceDatabase {
         next.updatedAt,
         sessionId,
       );
+    this.indexSessionHistory(next);
+  }
+
+  /**
+   * Replaces the full-text index row for one session. Encrypted history is
+   * never indexed; searches fall back to the decrypted in-memory matcher.
+   */
+  private indexSessionHistory(row: SessionHistoryCacheRow): void {
+    if (this.sessionHistoryEncrypted) {
+      return;
+    }
+
+    const existing = this.db
+      .prepare(
+        `SELECT ftsRowid FROM session_history_fts_rows WHERE sessionId = ?`,
+      )
+      .get(row.sessionId) as { ftsRowid: number } | undefined;
+    if (existing) {
+      this.db
+        .prepare(`DELETE FROM session_history_fts WHERE rowid = ?`)
+        .run(existing.ftsRowid);
+    }
+
+    const inserted = this.db
+      .prepare(
+        `
+          INSERT INTO session_history_fts (
+            sessionId, ${SESSION_HISTORY_FTS_COLUMNS.join(", ")}
+          ) VALUES (?, ?, ?, ?, ?, ?, ?)
+        `,
+      )
+      .run(
+        row.sessionId,
+        ...SESSION_HISTORY_FTS_COLUMNS.map((column) => row[column]),
+      );
+    this.db
+      .prepare(
+        `
+          INSERT INTO session_history_fts_rows (sessionId, ftsRowid, indexedAt)
+          VALUES (?, ?, ?)
+          ON CONFLICT(sessionId) DO UPDATE SET
+            ftsRowid = excluded.ftsRowid,
+            indexedAt = excluded.indexedAt
+        `,
+      )
+      .run(row.sessionId, inserted.lastInsertRowid, row.updatedAt);
+  }
+
+  /**
+   * Indexes cache rows that are missing from the full-text index or changed
+   * since they were indexed, e.g. by an older Footprint version.
+   */
+  private ensureSessionHistoryIndexed(): void {
+    const staleRows = this.db
+      .prepare(
+        `
+          SELECT cache.*
+          FROM session_history_cache cache
+          LEFT JOIN session_history_fts_rows fts_rows
+            ON fts_rows.sessionId = cache.sessionId
+          WHERE fts_rows.sessionId IS NULL
+            OR fts_rows.indexedAt <> cache.updatedAt
+        `,
+      )
+      .all() as SessionHistoryCacheRow[];
+
+    this.db.transaction(() => {
+      for (const row of staleRows) {
+        this.indexSessionHistory(row);
+      }
+    })();
+  }
+
+  private rebuildSessionHistoryIndex(): void {
+    this.db.transaction(() => {
+      this.db.exec(`DELETE FROM session_history_fts`);
+      this.db.exec(`DELETE FROM session_history_fts_rows`);
+      this.ensureSessionHistoryIndexed();
+    })();
   }
 
   private replaceSessionIssueKeys(
@@ -695,6 +1293,9 @@ export class EvidenceDatabase {
     this.db
       .prepare(`DELETE FROM session_issue_keys WHERE sessionId = ?`)
       .run(sessionId);
+    if (this.sessionHistoryEncrypted) {
+      return;
+    }
 
     const insertIssueKey = this.db.prepare(
       `
@@ -868,7 +1469,9 @@ export class EvidenceDatabase {
       .prepare(`DELETE FROM session_trend_attempts WHERE sessionId = ?`)
       .run(sessionId);
 
-    const attempts = this.buildSessionTrendAttempts(sessionId, artifacts);
+    const attempts = this.sessionHistoryEncrypted
+      ? []
+      : this.buildSessionTrendAttempts(sessionId, artifacts);
     if (attempts.length === 0) {
       this.markSessionTrendAttemptsFresh(sessionId);
       return;
@@ -907,7 +1510,9 @@ export class EvidenceDatabase {
     sessionId: string,
     artifacts: ArtifactRecord[],
   ): void {
-    const attempts = this.buildSessionTrendAttempts(sessionId, artifacts);
+    const attempts = this.sessionHistoryEncrypted
+      ? []
+      : this.buildSessionTrendAttempts(sessionId, artifacts);
     if (attempts.length === 0) {
       this.markSessionTrendAttemptsFresh(sessionId);
       return;
@@ -995,6 +1600,103 @@ export class EvidenceDatabase {
     }
   }
 
+  /**
+   * Encrypted history keeps no issue key or trend rows, since both hold
+   * command text; they are rebuilt from the decrypted artifacts instead.
+   */
+  private buildDecryptedTrendAttempts(
+    sessions: SessionRecord[],
+  ): SessionTrendAttemptQueryRow[] {
+    return sessions
+      .flatMap((session) =>
+        this.buildSessionTrendAttempts(
+          session.id,
+          this.getSessionArtifacts(session.id),
+        ).map((attempt) => ({
+          ...attempt,
+          host: session.host,
+          status: session.status,
+          cwd: session.cwd,
+          startedAt: session.startedAt,
+          endedAt: session.endedAt,
+          title: session.title,
+        })),
+      )
+      .sort(
+        (left, right) =>
+          compareText(right.seenAt, left.seenAt) ||
+          compareText(right.artifactId, left.artifactId),
+      );
+  }
+
+  private findDecryptedIssueKeySessionIds(issueKey: string): string[] {
+    return this.getAllSessionIds().filter((sessionId) =>
+      this.buildArtifactHistoryCache(
+        this.getSessionArtifacts(sessionId),
+      ).issueKeys.includes(issueKey),
+    );
+  }
+
+  /**
+   * Builds the non-text session filters shared by history queries and search.
+   * @returns null when a session ID or issue key filter cannot match anything
+   */
+  private buildSessionHistoryFilter(options: SessionHistoryQueryOptions): {
+    conditions: string[];
+    params: Array<string | number>;
+  } | null {
+    const conditions: string[] = [];
+    const params: Array<string | number> = [];
+
+    if (options.host) {
+      conditions.push(`s.host = ?`);
+      params.push(options.host);
+    }
+
+    if (options.status) {
+      conditions.push(`s.status = ?`);
+      params.push(options.status);
+    }
+
+    if (
+      options.issueKey &&
+      options.issueKey.trim() &&
+      this.sessionHistoryEncrypted
+    ) {
+      const sessionIds = this.findDecryptedIssueKeySessionIds(
+        options.issueKey.trim(),
+      );
+      if (sessionIds.length === 0) {
+        return null;
+      }
+      conditions.push(`s.id IN (${sessionIds.map(() => "?").join(", ")})`);
+      params.push(...sessionIds);
+    } else if (options.issueKey && options.issueKey.trim()) {
+      conditions.push(`
+        EXISTS (
+          SELECT 1
+          FROM session_issue_keys issue_keys
+          WHERE issue_keys.sessionId = s.id
+            AND issue_keys.issueKey = ?
+        )
+      `);
+      params.push(options.issueKey.trim());
+    }
+
+    if (options.sessionIds && options.sessionIds.length > 0) {
+      const normalizedIds = options.sessionIds
+        .map((sessionId) => sessionId.trim())
+        .filter(Boolean);
+      if (normalizedIds.length === 0) {
+        return null;
+      }
+      conditions.push(`s.id IN (${normalizedIds.map(() => "?").join(", ")})`);
+      params.push(...normalizedIds);
+    }
+
+    return { conditions, params };
+  }
+
   querySessionsByHistory(options: SessionHistoryQueryOptions): {
     sessions: SessionRecord[];
     total: number;
@@ -1014,60 +1716,36 @@ export class EvidenceDatabase {
         this.dbOp("query sessions by history", () => {
           this.ensureSessionHistoryCacheBackfilled();
 
-          const conditions: string[] = [];
-          const params: Array<string | number> = [];
-
-          if (options.host) {
-            conditions.push(`s.host = ?`);
-            params.push(options.host);
-          }
-
-          if (options.status) {
-            conditions.push(`s.status = ?`);
-            params.push(options.status);
+          const filter = this.buildSessionHistoryFilter(options);
+          if (!filter) {
+            return {
+              sessions: [],
+              total: 0,
+            };
           }
 
-          if (options.query && options.query.trim()) {
-            const pattern = `%${escapeLikePattern(options.query.trim())}%`;
-            conditions.push(`
-              (
-                cache.titleText LIKE ? ESCAPE '\\'
-                OR cache.metadataText LIKE ? ESCAPE '\\'
-                OR cache.messagesText LIKE ? ESCAPE '\\'
-                OR cache.artifactsText LIKE ? ESCAPE '\\'
-                OR cache.narrativesText LIKE ? ESCAPE '\\'
-                OR cache.decisionsText LIKE ? ESCAPE '\\'
-              )
-            `);
-            params.push(pattern, pattern, pattern, pattern, pattern, pattern);
+          const { conditions, params } = filter;
+          const historyQuery = options.query?.trim()
+            ? parseHistoryQuery(options.query)
+            : null;
+          if (options.query?.trim() && !historyQuery) {
+            return {
+              sessions: [],
+              total: 0,
+            };
           }
+          const filterInMemory =
+            historyQuery !== null && this.sessionHistoryEncrypted;
 
-          if (options.issueKey && options.issueKey.trim()) {
+          if (historyQuery && !filterInMemory) {
             conditions.push(`
-              EXISTS (
-                SELECT 1
-                FROM session_issue_keys issue_keys
-                WHERE issue_keys.sessionId = s.id
-                  AND issue_keys.issueKey = ?
+              s.id IN (
+                SELECT sessionId
+                FROM session_history_fts
+                WHERE session_history_fts MATCH ?
               )
             `);
-            params.push(options.issueKey.trim());
-          }
-
-          if (options.sessionIds && options.sessionIds.length > 0) {
-            const normalizedIds = options.sessionIds
-              .map((sessionId) => sessionId.trim())
-              .filter(Boolean);
-            if (normalizedIds.length === 0) {
-              return {
-                sessions: [],
-                total: 0,
-              };
-            }
-            conditions.push(
-              `s.id IN (${normalizedIds.map(() => "?").join(", ")})`,
-            );
-            params.push(...normalizedIds);
+            params.push(toFtsMatchExpression(historyQuery));
           }
 
           const whereSql = conditions.length
@@ -1079,6 +1757,20 @@ export class EvidenceDatabase {
             ${whereSql}
           `;
 
+          if (historyQuery && filterInMemory) {
+            const matches = this.matchDecryptedSessionHistory(
+              fromSql,
+              params,
+              historyQuery,
+            );
+            return {
+              sessions: this.paginate(matches, options).map((match) =>
+                this.rowToSession(match.row),
+              ),
+              total: matches.length,
+            };
+          }
+
           const total =
             (
               this.db
@@ -1110,6 +1802,216 @@ export class EvidenceDatabase {
     );
   }
 
+  /**
+   * Ranked full-text search over session history. Supports phrases, `prefix*`,
+   * `OR`, and `NOT`/`-term`; results are ordered by BM25 relevance and carry
+   * highlighted snippets. A query with no words, such as `--`, matches nothing.
+   * @throws Error if the query only has excluded terms
+   */
+  searchSessionHistory(
+    options: SessionHistoryQueryOptions & { query: string },
+  ): { results: SessionHistorySearchHit[]; total: number } {
+    return traceSyncOperation(
+      "db.search-session-history",
+      {
+        host: options.host,
+        status: options.status,
+        issueKey: options.issueKey?.trim() || undefined,
+        sessionIds: options.sessionIds?.length ?? 0,
+        limit: options.limit,
+        offset: options.offset,
+      },
+      () =>
+        this.dbOp("search session history", () => {
+          this.ensureSessionHistoryCacheBackfilled();
+
+          const historyQuery = parseHistoryQuery(options.query);
+          const filter = this.buildSessionHistoryFilter(options);
+          if (!historyQuery || !filter) {
+            return {
+              results: [],
+              total: 0,
+            };
+          }
+
+          if (this.sessionHistoryEncrypted) {
+            return this.searchDecryptedSessionHistory(
+              filter,
+              historyQuery,
+              options,
+            );
+          }
+
+          const conditions = [
+            `session_history_fts MATCH ?`,
+            ...filter.conditions,
+          ];
+          const params = [toFtsMatchExpression(historyQuery), ...filter.params];
+          const fromSql = `
+            FROM session_history_fts
+            JOIN sessions s ON s.id = session_history_fts.sessionId
+            WHERE ${conditions.join(" AND ")}
+          `;
+          const total =
+            (
+              this.db
+                .prepare(`SELECT COUNT(*) as total ${fromSql}`)
+                .get(...params) as { total: number } | undefined
+            )?.total ?? 0;
+
+          const snippetSelects = SESSION_HISTORY_SNIPPET_COLUMNS.map(
+            (column) =>
+              `snippet(session_history_fts, ${
+                SESSION_HISTORY_FTS_COLUMNS.indexOf(column) + 1
+              }, '${HISTORY_SNIPPET_OPEN}', '${HISTORY_SNIPPET_CLOSE}', '${HISTORY_SNIPPET_ELLIPSIS}', ${HISTORY_SNIPPET_TOKENS}) as ${column}Snippet`,
+          );
+          const pageParams = [...params];
+          const query = appendPaginationClause(
+            `
+              SELECT
+                s.*,
+                bm25(session_history_fts, ${SESSION_HISTORY_FTS_WEIGHTS.join(", ")}) as rank,
+                ${snippetSelects.join(",\n")}
+              ${fromSql}
+              ORDER BY rank ASC, s.startedAt DESC, s.id DESC
+            `,
+            pageParams,
+            options.limit,
+            options.offset,
+          );
+          const rows = this.db.prepare(query).all(...pageParams) as Array<
+            SessionRow & { rank: number } & Record<string, unknown>
+          >;
+
+          return {
+            results: rows.map((row) => ({
+              session: this.rowToSession(row),
+              score: -row.rank,
+              snippets: SESSION_HISTORY_SNIPPET_COLUMNS.map(
+                (column) => row[`${column}Snippet`],
+              )
+                .filter(
+                  (snippet): snippet is string =>
+                    typeof snippet === "string" &&
+                    snippet.includes(HISTORY_SNIPPET_OPEN),
+                )
+                .slice(0, MAX_HISTORY_SNIPPETS),
+            })),
+            total,
+          };
+        }),
+    );
+  }
+
+  private paginate<T>(
+    items: T[],
+    options: { limit?: number; offset?: number },
+  ): T[] {
+    const offset = options.offset ?? 0;
+    return options.limit !== undefined
+      ? items.slice(offset, offset + options.limit)
+      : items.slice(offset);
+  }
+
+  private getDecryptedHistoryParts(row: SessionHistoryCacheRow): string[] {
+    const cached = this.decryptedHistoryCache.get(row.sessionId);
+    if (cached && cached.updatedAt === row.updatedAt) {
+      return cached.parts;
+    }
+
+    const parts = [
+      this.openSessionText(row.titleText),
+      this.openSessionText(row.decisionsText),
+      this.openSessionText(row.narrativesText),
+      this.openSessionText(row.messagesText),
+      this.openSessionText(row.artifactsText),
+      this.openSessionText(row.metadataText),
+    ];
+    this.decryptedHistoryCache.set(row.sessionId, {
+      updatedAt: row.updatedAt,
+      parts,
+    });
+    return parts;
+  }
+
+  /**
+   * Text search over encrypted history cannot run in SQL, so candidate rows
+   * are matched against a decrypted in-memory copy of the cache that is
+   * invalidated whenever a cache row changes.
+   */
+  private matchDecryptedSessionHistory(
+    fromSql: string,
+    params: Array<string | number>,
+    query: ParsedHistoryQuery,
+  ): Array<{ row: SessionRow; parts: string[] }> {
+    const rows = this.db
+      .prepare(
+        `
+          SELECT
+            s.*,
+            COALESCE(cache.titleText, '') as titleText,
+            COALESCE(cache.metadataText, '') as metadataText,
+            COALESCE(cache.messagesText, '') as messagesText,
+            COALESCE(cache.artifactsText, '') as artifactsText,
+            COALESCE(cache.narrativesText, '') as narrativesText,
+            COALESCE(cache.decisionsText, '') as decisionsText,
+            COALESCE(cache.updatedAt, '') as cacheUpdatedAt
+          ${fromSql}
+          ORDER BY s.startedAt DESC, s.id DESC
+        `,
+      )
+      .all(...params) as Array<
+      SessionRow &
+        Omit<SessionHistoryCacheRow, "sessionId" | "updatedAt"> & {
+          cacheUpdatedAt: string;
+        }
+    >;
+
+    return rows
+      .map((row) => ({
+        row,
+        parts: this.getDecryptedHistoryParts({
+          ...row,
+          sessionId: row.id,
+          updatedAt: row.cacheUpdatedAt,
+        }),
+      }))
+      .filter((match) => matchesHistoryQuery(query, match.parts.join("\n")));
+  }
+
+  private searchDecryptedSessionHistory(
+    filter: { conditions: string[]; params: Array<string | number> },
+    query: ParsedHistoryQuery,
+    options: { limit?: number; offset?: number },
+  ): { results: SessionHistorySearchHit[]; total: number } {
+    const whereSql = filter.conditions.length
+      ? `WHERE ${filter.conditions.join(" AND ")}`
+      : "";
+    const matches = this.matchDecryptedSessionHistory(
+      `
+        FROM sessions s
+        LEFT JOIN session_history_cache cache ON cache.sessionId = s.id
+        ${whereSql}
+      `,
+      filter.params,
+      query,
+    );
+
+    return {
+      results: this.paginate(matches, options).map((match) => ({
+        session: this.rowToSession(match.row),
+        score: null,
+        snippets: match.parts
+          .map((part) =>
+            buildHistorySnippet(query, part, HISTORY_SNIPPET_TOKENS),
+          )
+          .filter((snippet): snippet is string => snippet !== null)
+          .slice(0, MAX_HISTORY_SNIPPETS),
+      })),
+      total: matches.length,
+    };
+  }
+
   querySessionTrendAttempts(
     options?: TrendAttemptQueryOptions,
   ): SessionTrendAttemptQueryRow[] {
@@ -1145,7 +2047,7 @@ export class EvidenceDatabase {
               return [];
             }
             conditions.push(
-              `ta.sessionId IN (${normalizedIds.map(() => "?").join(", ")})`,
+              `s.id IN (${normalizedIds.map(() => "?").join(", ")})`,
             );
             params.push(...normalizedIds);
           }
@@ -1154,6 +2056,15 @@ export class EvidenceDatabase {
             ? `WHERE ${conditions.join(" AND ")}`
             : "";
 
+          if (this.sessionHistoryEncrypted) {
+            const rows = this.db
+              .prepare(`SELECT s.* FROM sessions s ${whereSql}`)
+              .all(...params) as SessionRow[];
+            return this.buildDecryptedTrendAttempts(
+              rows.map((row) => this.rowToSession(row)),
+            );
+          }
+
           return this.db
             .prepare(
               `
@@ -1187,6 +2098,18 @@ export class EvidenceDatabase {
 
       this.ensureSessionTrendAttemptsBackfilled();
 
+      if (this.sessionHistoryEncrypted) {
+        const attempts = this.buildDecryptedTrendAttempts(this.listSessions());
+        const targetIssueKeys = new Set(
+          attempts
+            .filter((attempt) => attempt.sessionId === normalizedSessionId)
+            .map((attempt) => attempt.issueKey),
+        );
+        return attempts
+          .filter((attempt) => targetIssueKeys.has(attempt.issueKey))
+          .sort((left, right) => compareText(left.issueKey, right.issueKey));
+      }
+
       return this.db
         .prepare(
           `
@@ -1233,6 +2156,10 @@ export class EvidenceDatabase {
             return [];
           }
 
+          if (this.sessionHistoryEncrypted) {
+            return this.getDecryptedFollowUpMessages(normalizedIds, options);
+          }
+
           const params: Array<string | number> = [...normalizedIds];
           let query = `
             SELECT id, sessionId, content, capturedAt, seq
@@ -1264,10 +2191,43 @@ export class EvidenceDatabase {
     );
   }
 
+  private getDecryptedFollowUpMessages(
+    sessionIds: string[],
+    options?: { limit?: number; offset?: number },
+  ): Array<{ sessionId: string; content: string; capturedAt: string }> {
+    const rows = this.db
+      .prepare(
+        `
+          SELECT id, sessionId, content, capturedAt, seq
+          FROM messages
+          WHERE sessionId IN (${sessionIds.map(() => "?").join(", ")})
+          ORDER BY capturedAt DESC, sessionId DESC, seq DESC, id DESC
+        `,
+      )
+      .all(...sessionIds) as FollowUpMessageRow[];
+    const matches = rows
+      .map((row) => ({
+        sessionId: row.sessionId,
+        content: this.openSessionText(row.content),
+        capturedAt: row.capturedAt,
+      }))
+      .filter(
+        (message) =>
+          message.content.includes("?") ||
+          message.content.toLowerCase().startsWith("next:"),
+      );
+    const offset = options?.offset ?? 0;
+
+    return options?.limit !== undefined
+      ? matches.slice(offset, offset + options.limit)
+      : matches.slice(offset);
+  }
+
   createSession(
-    session: Omit<SessionRecord, "id" | "createdAt" | "updatedAt">,
+    session: Omit<SessionRecord, "id" | "createdAt" | "updatedAt"> &
+      Partial<Pick<SessionRecord, "id">>,
   ): string {
-    const id = crypto.randomUUID();
+    const id = session.id ?? crypto.randomUUID();
     const now = new Date().toISOString();
 
     return this.dbOp("create session", () => {
@@ -1283,11 +2243,11 @@ export class EvidenceDatabase {
         session.host,
         session.projectRoot,
         session.cwd,
-        session.title,
+        this.sealNullableSessionText(session.title),
         session.status,
         session.startedAt,
         session.endedAt,
-        session.metadata,
+        this.sealNullableSessionText(session.metadata),
         now,
         now,
       );
@@ -1301,7 +2261,22 @@ export class EvidenceDatabase {
             ) VALUES (?, ?, ?, '', '', '', '', ?)
           `,
         )
-        .run(id, session.title ?? "", session.metadata ?? "", now);
+        .run(
+          id,
+          this.sealSessionText(session.title ?? ""),
+          this.sealSessionText(session.metadata ?? ""),
+          now,
+        );
+      this.indexSessionHistory({
+        sessionId: id,
+        titleText: session.title ?? "",
+        metadataText: session.metadata ?? "",
+        messagesText: "",
+        artifactsText: "",
+        narrativesText: "",
+        decisionsText: "",
+        updatedAt: now,
+      });
       this.markSessionTrendAttemptsFresh(id);
 
       return id;
@@ -1311,7 +2286,7 @@ export class EvidenceDatabase {
   appendMessage(message: Omit<SessionMessageRecord, "id">): string {
     const id = crypto.randomUUID();
 
-    return this.dbOp("append message", () => {
+    this.dbOp("append message", () => {
       const stmt = this.db.prepare(`
         INSERT INTO messages (
           id, sessionId, seq, role, source, content, capturedAt, metadata
@@ -1324,7 +2299,7 @@ export class EvidenceDatabase {
         message.seq,
         message.role,
         message.source,
-        message.content,
+        this.sealSessionText(message.content),
         message.capturedAt,
         message.metadata,
       );
@@ -1341,19 +2316,23 @@ export class EvidenceDatabase {
         | undefined;
       this.updateSessionHistoryCache(message.sessionId, {
         messagesText: EvidenceDatabase.appendSearchPart(
-          currentCache?.messagesText ?? "",
+          this.openSessionText(currentCache?.messagesText ?? ""),
           message.content,
         ),
       });
-
-      return id;
     });
+    this.emitSessionHistoryChange({
+      sessionId: message.sessionId,
+      kind: "message",
+    });
+
+    return id;
   }
 
   appendTimelineEvent(event: Omit<TimelineEventRecord, "id">): string {
     const id = crypto.randomUUID();
 
-    return this.dbOp("append timeline event", () => {
+    this.dbOp("append timeline event", () => {
       const stmt = this.db.prepare(`
         INSERT INTO timeline_events (
           id, sessionId, seq, eventType, eventSubType, source,
@@ -1368,16 +2347,85 @@ export class EvidenceDatabase {
         event.eventType,
         event.eventSubType,
         event.source,
-        event.summary,
-        event.payload,
+        this.sealNullableSessionText(event.summary),
+        this.sealNullableSessionText(event.payload),
         event.startedAt,
         event.endedAt,
         event.status,
         event.relatedMessageId,
       );
+    });
+    this.emitSessionHistoryChange({
+      sessionId: event.sessionId,
+      kind: "timeline",
+    });
+
+    return id;
+  }
+
+  /**
+   * Replace the event of one type that ingestion appended to a session's
+   * timeline, so reingesting keeps at most one copy at the end of it
+   *
+   * @param event - Event to append after the remaining timeline, or null to
+   *   only delete the previous one
+   * @returns ID of the appended event, or null when nothing was appended
+   */
+  replaceIngestionTimelineEvent(
+    sessionId: string,
+    eventType: string,
+    event: Omit<
+      TimelineEventRecord,
+      "id" | "sessionId" | "seq" | "eventType" | "source"
+    > | null,
+  ): string | null {
+    const id = event ? crypto.randomUUID() : null;
+
+    const deleted = this.dbOp("replace ingestion timeline event", () =>
+      this.db.transaction(() => {
+        const { changes } = this.db
+          .prepare(
+            `DELETE FROM timeline_events
+             WHERE sessionId = ? AND eventType = ? AND source = 'ingestion'`,
+          )
+          .run(sessionId, eventType);
+        if (!event || !id) {
+          return changes;
+        }
 
-      return id;
-    });
+        const { maxSeq } = this.db
+          .prepare(
+            "SELECT COALESCE(MAX(seq), 0) AS maxSeq FROM timeline_events WHERE sessionId = ?",
+          )
+          .get(sessionId) as { maxSeq: number };
+        this.db
+          .prepare(
+            `INSERT INTO timeline_events (
+              id, sessionId, seq, eventType, eventSubType, source,
+              summary, payload, startedAt, endedAt, status, relatedMessageId
+            ) VALUES (?, ?, ?, ?, ?, 'ingestion', ?, ?, ?, ?, ?, ?)`,
+          )
+          .run(
+            id,
+            sessionId,
+            maxSeq + 1,
+            eventType,
+            event.eventSubType,
+            this.sealNullableSessionText(event.summary),
+            this.sealNullableSessionText(event.payload),
+            event.startedAt,
+            event.endedAt,
+            event.status,
+            event.relatedMessageId,
+          );
+        return changes;
+      })(),
+    );
+    if (id || deleted > 0) {
+      this.emitSessionHistoryChange({ sessionId, kind: "timeline" });
+    }
+
+    return id;
   }
 
   updateSessionTitle(id: string, title: string): void {
@@ -1389,7 +2437,11 @@ export class EvidenceDatabase {
         WHERE id = ?
       `);
 
-      const result = stmt.run(title, new Date().toISOString(), id);
+      const result = stmt.run(
+        this.sealSessionText(title),
+        new Date().toISOString(),
+        id,
+      );
       if (result.changes === 0) {
         throw new Error(`Session with id ${id} not found`);
       }
@@ -1398,6 +2450,7 @@ export class EvidenceDatabase {
         titleText: title,
       });
     });
+    this.emitSessionHistoryChange({ sessionId: id, kind: "session" });
   }
 
   finalizeSession(
@@ -1417,7 +2470,7 @@ export class EvidenceDatabase {
       const result = stmt.run(
         updates.status,
         updates.endedAt,
-        updates.title,
+        this.sealNullableSessionText(updates.title ?? null),
         new Date().toISOString(),
         id,
       );
@@ -1426,6 +2479,232 @@ export class EvidenceDatabase {
         throw new Error(`Session with id ${id} not found`);
       }
     });
+    this.emitSessionHistoryChange({ sessionId: id, kind: "session" });
+  }
+
+  findSessionImport(sourceKey: string): SessionImportRecord | null {
+    return this.dbOp("find session import", () => {
+      const row = this.db
+        .prepare(
+          `
+            SELECT *
+            FROM session_imports
+            WHERE sourceKey = ?
+          `,
+        )
+        .get(sourceKey) as SessionImportRow | undefined;
+
+      return row ? { ...row, host: row.host as SessionRecord["host"] } : null;
+    });
+  }
+
+  recordSessionImport(
+    record: Omit<SessionImportRecord, "importedAt" | "updatedAt">,
+  ): SessionImportRecord {
+    const now = new Date().toISOString();
+
+    return this.dbOp("record session import", () => {
+      this.db
+        .prepare(
+          `
+            INSERT INTO session_imports (
+              sourceKey, host, sourcePath, fingerprint, sessionId, entryCount,
+              importedAt, updatedAt
+            ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+            ON CONFLICT(sourceKey) DO UPDATE SET
+              sourcePath = excluded.sourcePath,
+              fingerprint = excluded.fingerprint,
+              sessionId = excluded.sessionId,
+              entryCount = excluded.entryCount,
+              updatedAt = excluded.updatedAt
+          `,
+        )
+        .run(
+          record.sourceKey,
+          record.host,
+          record.sourcePath,
+          record.fingerprint,
+          record.sessionId,
+          record.entryCount,
+          now,
+          now,
+        );
+
+      const row = this.db
+        .prepare(`SELECT * FROM session_imports WHERE sourceKey = ?`)
+        .get(record.sourceKey) as SessionImportRow;
+      return { ...row, host: row.host as SessionRecord["host"] };
+    });
+  }
+
+  /**
+   * Stores the timed PTY transcript for a session, replacing any earlier one.
+   * Frames are kept as compact `[offsetMs, direction, data]` tuples and sealed
+   * like the rest of the session history.
+   */
+  saveSessionRecording(recording: SessionRecording): void {
+    const frames = JSON.stringify(
+      recording.frames.map((frame) => [
+        frame.offsetMs,
+        frame.direction,
+        frame.data,
+      ]),
+    );
+
+    this.dbOp("save session recording", () => {
+      this.db
+        .prepare(
+          `
+            INSERT INTO session_recordings (
+              sessionId, format, startedAt, durationMs, columns, rows,
+              frameCount, frames, createdAt
+            ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+            ON CONFLICT(sessionId) DO UPDATE SET
+              format = excluded.format,
+              startedAt = excluded.startedAt,
+              durationMs = excluded.durationMs,
+              columns = excluded.columns,
+              rows = excluded.rows,
+              frameCount = excluded.frameCount,
+              frames = excluded.frames
+          `,
+        )
+        .run(
+          recording.sessionId,
+          recording.format,
+          recording.startedAt,
+          recording.durationMs,
+          recording.columns,
+          recording.rows,
+          recording.frames.length,
+          this.sealSessionText(frames),
+          new Date().toISOString(),
+        );
+    });
+  }
+
+  getSessionRecording(sessionId: string): SessionRecording | null {
+    return this.dbOp("get session recording", () => {
+      const row = this.db
+        .prepare(`SELECT * FROM session_recordings WHERE sessionId = ?`)
+        .get(sessionId) as SessionRecordingRow | undefined;
+      if (!row) {
+        return null;
+      }
+
+      const frames = JSON.parse(this.openSessionText(row.frames)) as Array<
+        [number, SessionRecordingFrame["direction"], string]
+      >;
+      return {
+        sessionId: row.sessionId,
+        format: row.format as SessionRecording["format"],
+        startedAt: row.startedAt,
+        durationMs: row.durationMs,
+        columns: row.columns,
+        rows: row.rows,
+        frames: frames.map(([offsetMs, direction, data]) => ({
+          offsetMs,
+          direction,
+          data,
+        })),
+      };
+    });
+  }
+
+  /**
+   * Lists every session, newest first, with the context and evidence links
+   * that retention rules protect.
+   */
+  listSessionRetentionCandidates(): SessionRetentionCandidate[] {
+    return this.dbOp("list session retention candidates", () => {
+      const rows = this.db
+        .prepare(
+          `
+            SELECT
+              s.*,
+              EXISTS (
+                SELECT 1 FROM context_session_links link
+                WHERE link.sessionId = s.id
+              ) AS contextLinked,
+              EXISTS (
+                SELECT 1 FROM evidences e
+                WHERE e.sessionId = s.id
+                  OR e.conversationId = s.id
+                  OR instr(COALESCE(e.tags, ''), s.id) > 0
+              ) AS evidenceReferenced
+            FROM sessions s
+            ORDER BY s.startedAt DESC, s.createdAt DESC, s.id DESC
+          `,
+        )
+        .all() as Array<
+        SessionRow & { contextLinked: number; evidenceReferenced: number }
+      >;
+
+      return rows.map((row) => ({
+        session: this.rowToSession(row),
+        contextLinked: row.contextLinked === 1,
+        evidenceReferenced: row.evidenceReferenced === 1,
+      }));
+    });
+  }
+
+  /**
+   * Deletes sessions with their transcript, timeline, derived rows, caches,
+   * and full-text index entries.
+   * @returns Number of sessions deleted
+   */
+  deleteSessions(ids: string[]): number {
+    if (ids.length === 0) return 0;
+
+    return this.dbOp("delete sessions", () =>
+      this.db.transaction(() => {
+        // Batch deletions to stay under SQLite's 999 parameter limit
+        const BATCH_SIZE = 999;
+        let totalDeleted = 0;
+
+        for (let i = 0; i < ids.length; i += BATCH_SIZE) {
+          const batch = ids.slice(i, i + BATCH_SIZE);
+          const placeholders = batch.map(() => "?").join(",");
+          // FTS5 rows cannot cascade, so drop them before the mapping goes.
+          this.db
+            .prepare(
+              `
+                DELETE FROM session_history_fts
+                WHERE rowid IN (
+                  SELECT ftsRowid FROM session_history_fts_rows
+                  WHERE sessionId IN (${placeholders})
+                )
+              `,
+            )
+            .run(...batch);
+          const result = this.db
+            .prepare(`DELETE FROM sessions WHERE id IN (${placeholders})`)
+            .run(...batch);
+          totalDeleted += result.changes;
+          for (const id of batch) {
+            this.decryptedHistoryCache.delete(id);
+          }
+        }
+
+        return totalDeleted;
+      })(),
+    );
+  }
+
+  /**
+   * Rebuilds the database file to return space freed by deletions.
+   * @returns Database size in bytes before and after compaction
+   */
+  vacuum(): { bytesBefore: number; bytesAfter: number } {
+    return this.dbOp("vacuum database", () => {
+      const size = () =>
+        (this.db.pragma("page_count", { simple: true }) as number) *
+        (this.db.pragma("page_size", { simple: true }) as number);
+      const bytesBefore = size();
+      this.db.exec("VACUUM");
+      this.db.pragma("wal_checkpoint(TRUNCATE)");
+      return { bytesBefore, bytesAfter: size() };
+    });
   }
 
   findSessionById(id: string): SessionRecord | null {
@@ -1995,7 +3274,9 @@ export class EvidenceDatabase {
         },
         firstCapturedAt: summaryRow?.firstCapturedAt ?? null,
         lastCapturedAt: summaryRow?.lastCapturedAt ?? null,
-        previewContent: previewRow?.content ?? null,
+        previewContent: this.openNullableSessionText(
+          previewRow?.content ?? null,
+        ),
       };
     });
   }
@@ -2132,7 +3413,7 @@ export class EvidenceDatabase {
           artifact.eventId,
           artifact.artifactType,
           artifact.path,
-          artifact.metadata,
+          this.sealNullableSessionText(artifact.metadata),
           createdAt,
         );
 
@@ -2159,21 +3440,23 @@ export class EvidenceDatabase {
 
       this.updateSessionHistoryCache(artifact.sessionId, {
         artifactsText: EvidenceDatabase.appendSearchPart(
-          currentCache?.artifactsText ?? "",
+          this.openSessionText(currentCache?.artifactsText ?? ""),
           artifactCache.text,
         ),
       });
 
-      for (const issueKey of artifactCache.issueKeys) {
-        this.db
-          .prepare(
-            `
-              INSERT INTO session_issue_keys (sessionId, issueKey)
-              VALUES (?, ?)
-              ON CONFLICT(sessionId, issueKey) DO NOTHING
-            `,
-          )
-          .run(artifact.sessionId, issueKey);
+      if (!this.sessionHistoryEncrypted) {
+        for (const issueKey of artifactCache.issueKeys) {
+          this.db
+            .prepare(
+              `
+                INSERT INTO session_issue_keys (sessionId, issueKey)
+                VALUES (?, ?)
+                ON CONFLICT(sessionId, issueKey) DO NOTHING
+              `,
+            )
+            .run(artifact.sessionId, issueKey);
+        }
       }
 
       this.insertSessionTrendAttempts(artifact.sessionId, [artifactRecord]);
@@ -2208,7 +3491,7 @@ export class EvidenceDatabase {
             artifact.eventId,
             artifact.artifactType,
             artifact.path,
-            artifact.metadata,
+            this.sealNullableSessionText(artifact.metadata),
             createdAt,
           );
 
@@ -2267,6 +3550,11 @@ export class EvidenceDatabase {
       commandOutput: number;
       testResult: number;
       gitCommit: number;
+      lintResult: number;
+      buildResult: number;
+      dependencyChange: number;
+      httpRequest: number;
+      migration: number;
     };
   } {
     return this.dbOp("summarize session artifacts", () => {
@@ -2278,7 +3566,12 @@ export class EvidenceDatabase {
               COALESCE(SUM(CASE WHEN artifactType = 'file-change' THEN 1 ELSE 0 END), 0) as fileChange,
               COALESCE(SUM(CASE WHEN artifactType = 'command-output' THEN 1 ELSE 0 END), 0) as commandOutput,
               COALESCE(SUM(CASE WHEN artifactType = 'test-result' THEN 1 ELSE 0 END), 0) as testResult,
-              COALESCE(SUM(CASE WHEN artifactType = 'git-commit' THEN 1 ELSE 0 END), 0) as gitCommit
+              COALESCE(SUM(CASE WHEN artifactType = 'git-commit' THEN 1 ELSE 0 END), 0) as gitCommit,
+              COALESCE(SUM(CASE WHEN artifactType = 'lint-result' THEN 1 ELSE 0 END), 0) as lintResult,
+              COALESCE(SUM(CASE WHEN artifactType = 'build-result' THEN 1 ELSE 0 END), 0) as buildResult,
+              COALESCE(SUM(CASE WHEN artifactType = 'dependency-change' THEN 1 ELSE 0 END), 0) as dependencyChange,
+              COALESCE(SUM(CASE WHEN artifactType = 'http-request' THEN 1 ELSE 0 END), 0) as httpRequest,
+              COALESCE(SUM(CASE WHEN artifactType = 'migration' THEN 1 ELSE 0 END), 0) as migration
             FROM artifacts
             WHERE sessionId = ?
           `,
@@ -2290,6 +3583,11 @@ export class EvidenceDatabase {
             commandOutput: number;
             testResult: number;
             gitCommit: number;
+            lintResult: number;
+            buildResult: number;
+            dependencyChange: number;
+            httpRequest: number;
+            migration: number;
           }
         | undefined;
 
@@ -2300,6 +3598,11 @@ export class EvidenceDatabase {
           commandOutput: row?.commandOutput ?? 0,
           testResult: row?.testResult ?? 0,
           gitCommit: row?.gitCommit ?? 0,
+          lintResult: row?.lintResult ?? 0,
+          buildResult: row?.buildResult ?? 0,
+          dependencyChange: row?.dependencyChange ?? 0,
+          httpRequest: row?.httpRequest ?? 0,
+          migration: row?.migration ?? 0,
         },
       };
     });
@@ -2334,14 +3637,24 @@ export class EvidenceDatabase {
     });
   }
 
+  /**
+   * Replace a session's derived decisions. Explicit decisions recorded with
+   * `recordDecision` are kept.
+   *
+   * @returns The derived decisions that were written
+   */
   replaceDecisionsForSession(
     sessionId: string,
-    decisions: Array<Omit<DecisionRecord, "id" | "createdAt">>,
+    decisions: Array<
+      Omit<DecisionRecord, "id" | "createdAt" | "origin" | "supersedes">
+    >,
   ): DecisionRecord[] {
     return this.dbOp("replace decisions", () => {
       const transaction = this.db.transaction(() => {
         this.db
-          .prepare(`DELETE FROM decisions WHERE sessionId = ?`)
+          .prepare(
+            `DELETE FROM decisions WHERE sessionId = ? AND origin = 'derived'`,
+          )
           .run(sessionId);
 
         const createdDecisions = decisions.map((decision) => {
@@ -2358,9 +3671,9 @@ export class EvidenceDatabase {
             .run(
               id,
               sessionId,
-              decision.title,
-              decision.summary,
-              decision.rationale,
+              this.sealSessionText(decision.title),
+              this.sealSessionText(decision.summary),
+              this.sealNullableSessionText(decision.rationale),
               decision.status,
               decision.sourceRefs,
               createdAt,
@@ -2374,12 +3687,16 @@ export class EvidenceDatabase {
             rationale: decision.rationale,
             status: decision.status,
             sourceRefs: decision.sourceRefs,
+            origin: "derived" as const,
+            supersedes: [],
             createdAt,
           };
         });
 
         this.updateSessionHistoryCache(sessionId, {
-          decisionsText: this.buildDecisionHistoryCache(createdDecisions),
+          decisionsText: this.buildDecisionHistoryCache(
+            this.getSessionDecisions(sessionId),
+          ),
         });
 
         return createdDecisions;
@@ -2389,6 +3706,89 @@ export class EvidenceDatabase {
     });
   }
 
+  /**
+   * Record a decision an agent made explicitly. Unlike derived decisions it is
+   * never replaced by reingest.
+   *
+   * Only explicit decisions from the same session can be superseded: derived
+   * decisions are recreated with new IDs (or dropped) on every reingest.
+   *
+   * @throws Error if the session or a superseded decision does not exist, or
+   *   the superseded decision is not an explicit decision of the session
+   */
+  recordDecision(
+    decision: Omit<DecisionRecord, "id" | "createdAt" | "origin"> & {
+      /** Defaults to now; bundle imports keep the original time */
+      createdAt?: string;
+    },
+  ): DecisionRecord {
+    const id = crypto.randomUUID();
+    const createdAt = decision.createdAt ?? new Date().toISOString();
+
+    this.dbOp("record decision", () => {
+      const transaction = this.db.transaction(() => {
+        if (!this.findSessionById(decision.sessionId)) {
+          throw new Error(`Session not found: ${decision.sessionId}`);
+        }
+        for (const supersededId of decision.supersedes) {
+          const row = this.db
+            .prepare(`SELECT sessionId, origin FROM decisions WHERE id = ?`)
+            .get(supersededId) as
+            | { sessionId: string; origin: DecisionOrigin }
+            | undefined;
+          if (!row) {
+            throw new Error(`Decision not found: ${supersededId}`);
+          }
+          if (
+            row.sessionId !== decision.sessionId ||
+            row.origin !== "explicit"
+          ) {
+            throw new Error(
+              `Only explicit decisions recorded in this session can be superseded: ${supersededId}`,
+            );
+          }
+        }
+
+        this.db
+          .prepare(
+            `
+              INSERT INTO decisions (
+                id, sessionId, title, summary, rationale, status, sourceRefs,
+                origin, supersedes, createdAt
+              ) VALUES (?, ?, ?, ?, ?, ?, ?, 'explicit', ?, ?)
+            `,
+          )
+          .run(
+            id,
+            decision.sessionId,
+            this.sealSessionText(decision.title),
+            this.sealSessionText(decision.summary),
+            this.sealNullableSessionText(decision.rationale),
+            decision.status,
+            decision.sourceRefs,
+            decision.supersedes.length > 0
+              ? JSON.stringify(decision.supersedes)
+              : null,
+            createdAt,
+          );
+
+        this.updateSessionHistoryCache(decision.sessionId, {
+          decisionsText: this.buildDecisionHistoryCache(
+            this.getSessionDecisions(decision.sessionId),
+          ),
+        });
+      });
+
+      transaction();
+    });
+    this.emitSessionHistoryChange({
+      sessionId: decision.sessionId,
+      kind: "decision",
+    });
+
+    return { ...decision, id, origin: "explicit", createdAt };
+  }
+
   countSessionDecisions(sessionId: string): number {
     return this.dbOp("count session decisions", () => {
       const row = this.db
@@ -2421,6 +3821,64 @@ export class EvidenceDatabase {
     });
   }
 
+  /**
+   * Attach a note or open question to a session
+   *
+   * @throws Error if the session does not exist
+   */
+  appendSessionNote(
+    note: Omit<SessionNoteRecord, "id" | "createdAt"> & {
+      /** Defaults to now; bundle imports keep the original time */
+      createdAt?: string;
+    },
+  ): SessionNoteRecord {
+    const id = crypto.randomUUID();
+    const createdAt = note.createdAt ?? new Date().toISOString();
+
+    this.dbOp("append session note", () => {
+      if (!this.findSessionById(note.sessionId)) {
+        throw new Error(`Session not found: ${note.sessionId}`);
+      }
+
+      this.db
+        .prepare(
+          `
+            INSERT INTO session_notes (id, sessionId, kind, content, createdAt)
+            VALUES (?, ?, ?, ?, ?)
+          `,
+        )
+        .run(
+          id,
+          note.sessionId,
+          note.kind,
+          this.sealSessionText(note.content),
+          createdAt,
+        );
+    });
+    this.emitSessionHistoryChange({ sessionId: note.sessionId, kind: "note" });
+
+    return { ...note, id, createdAt };
+  }
+
+  getSessionNotes(sessionId: string): SessionNoteRecord[] {
+    return this.dbOp("get session notes", () => {
+      const rows = this.db
+        .prepare(
+          `
+            SELECT * FROM session_notes
+            WHERE sessionId = ?
+            ORDER BY createdAt ASC, id ASC
+          `,
+        )
+        .all(sessionId) as SessionNoteRow[];
+
+      return rows.map((row) => ({
+        ...row,
+        content: this.openSessionText(row.content),
+      }));
+    });
+  }
+
   replaceNarrativesForSession(
     sessionId: string,
     narratives: Array<Omit<NarrativeRecord, "id" | "createdAt" | "updatedAt">>,
@@ -2447,7 +3905,7 @@ export class EvidenceDatabase {
               id,
               sessionId,
               narrative.kind,
-              narrative.content,
+              this.sealSessionText(narrative.content),
               narrative.sourceRefs,
               now,
               now,
@@ -2640,6 +4098,7 @@ export class EvidenceDatabase {
       const artifacts = this.getSessionArtifacts(sessionId);
       const narratives = this.getSessionNarratives(sessionId);
       const decisions = this.getSessionDecisions(sessionId);
+      const notes = this.getSessionNotes(sessionId);
       const ingestionRuns = this.getSessionIngestionRuns(sessionId);
 
       return {
@@ -2649,6 +4108,7 @@ export class EvidenceDatabase {
         artifacts,
         narratives,
         decisions,
+        notes,
         ingestionRuns,
         hasNarratives: narratives.length > 0,
       } satisfies SessionDetail;
@@ -2686,6 +4146,121 @@ export class EvidenceDatabase {
     });
   }
 
+  /**
+   * Stores an RFC 3161 token for an evidence and clears it from the queue
+   * @param id - Evidence UUID
+   * @param token - DER timestamp token
+   * @param genTime - Time asserted by the TSA (ISO 8601)
+   * @param authority - Subject of the TSA signing certificate
+   */
+  setTimestampToken(
+    id: string,
+    token: Uint8Array,
+    genTime: string,
+    authority: string,
+  ): void {
+    this.dbOp("store timestamp token", () => {
+      this.db.transaction(() => {
+        const result = this.db
+          .prepare(
+            `
+              UPDATE evidences
+              SET timestampToken = ?,
+                  timestampGenTime = ?,
+                  timestampAuthority = ?,
+                  updatedAt = ?
+              WHERE id = ?
+            `,
+          )
+          .run(
+            Buffer.from(token),
+            genTime,
+            authority,
+            new Date().toISOString(),
+            id,
+          );
+
+        if (result.changes === 0) {
+          throw new Error(`Evidence with id ${id} not found`);
+        }
+
+        this.db
+          .prepare(`DELETE FROM timestamp_queue WHERE evidenceId = ?`)
+          .run(id);
+      })();
+    });
+  }
+
+  /**
+   * Queues an evidence for timestamping, or records another failed attempt
+   * @param id - Evidence UUID
+   * @param error - Why the timestamp authority could not stamp it
+   * @param attempted - Whether a request was actually sent
+   */
+  queueTimestamp(id: string, error: string, attempted = true): void {
+    this.dbOp("queue evidence timestamp", () => {
+      const now = new Date().toISOString();
+      this.db
+        .prepare(
+          `
+            INSERT INTO timestamp_queue (
+              evidenceId, attempts, lastError, queuedAt, lastAttemptAt
+            ) VALUES (?, ?, ?, ?, ?)
+            ON CONFLICT(evidenceId) DO UPDATE SET
+              attempts = attempts + excluded.attempts,
+              lastError = excluded.lastError,
+              lastAttemptAt = COALESCE(excluded.lastAttemptAt, lastAttemptAt)
+          `,
+        )
+        .run(id, attempted ? 1 : 0, error, now, attempted ? now : null);
+    });
+  }
+
+  /**
+   * Lists evidence waiting for a timestamp, oldest first
+   * @param limit - Maximum entries to return
+   * @returns Queue entries with the content hash to stamp
+   */
+  listTimestampQueue(limit?: number): TimestampQueueEntry[] {
+    return this.dbOp("list timestamp queue", () => {
+      const params: (string | number)[] = [];
+      const query = appendPaginationClause(
+        `
+          SELECT q.evidenceId, e.contentHash, q.attempts, q.lastError,
+                 q.queuedAt, q.lastAttemptAt
+          FROM timestamp_queue q
+          JOIN evidences e ON e.id = q.evidenceId
+          ORDER BY q.queuedAt ASC, q.rowid ASC
+        `,
+        params,
+        limit,
+      );
+      return this.db.prepare(query).all(...params) as TimestampQueueEntry[];
+    });
+  }
+
+  /**
+   * Finds the queue entry for an evidence still waiting for a timestamp
+   * @param id - Evidence UUID
+   * @returns Queue entry or null if the evidence is not queued
+   */
+  findTimestampQueueEntry(id: string): TimestampQueueEntry | null {
+    return this.dbOp("find timestamp queue entry", () => {
+      const row = this.db
+        .prepare(
+          `
+            SELECT q.evidenceId, e.contentHash, q.attempts, q.lastError,
+                   q.queuedAt, q.lastAttemptAt
+            FROM timestamp_queue q
+            JOIN evidences e ON e.id = q.evidenceId
+            WHERE q.evidenceId = ?
+          `,
+        )
+        .get(id) as TimestampQueueEntry | undefined;
+      return row ?? null;
+    });
+  }
+
   /**
    * Adds tags to an evidence (appends to existing tags)
    * @param id - Evidence UUID
@@ -2886,38 +4461,49 @@ export class EvidenceDatabase {
   /**
    * Deletes evidence by ID
    * @param id - Evidence UUID
+   * @param ledgerSigner - Signs the ledger tombstone
    * @returns true if deleted, false if not found
    */
-  delete(id: string): boolean {
-    return this.dbOp("delete evidence", () => {
-      const stmt = this.db.prepare(`DELETE FROM evidences WHERE id = ?`);
-      const result = stmt.run(id);
-      return result.changes > 0;
-    });
+  delete(id: string, ledgerSigner: SigningIdentity | null = null): boolean {
+    return this.dbOp("delete evidence", () =>
+      this.db.transaction(() => {
+        tombstoneLedgerEntries(this.db, [id], ledgerSigner);
+        const stmt = this.db.prepare(`DELETE FROM evidences WHERE id = ?`);
+        const result = stmt.run(id);
+        return result.changes > 0;
+      })(),
+    );
   }
 
   /**
    * Deletes multiple evidences by IDs
    * @param ids - Array of evidence UUIDs
+   * @param ledgerSigner - Signs the ledger tombstones
    * @returns Number of evidences deleted
    */
-  deleteMany(ids: string[]): number {
+  deleteMany(
+    ids: string[],
+    ledgerSigner: SigningIdentity | null = null,
+  ): number {
     if (ids.length === 0) return 0;
 
     return this.dbOp("delete evidences", () => {
       // Batch deletions to stay under SQLite's 999 parameter limit
-      const BATCH_SIZE = 999;
+      const BATCH_SIZE = 998;
       let totalDeleted = 0;
 
-      for (let i = 0; i < ids.length; i += BATCH_SIZE) {
-        const batch = ids.slice(i, i + BATCH_SIZE);
-        const placeholders = batch.map(() => "?").join(",");
-        const stmt = this.db.prepare(
-          `DELETE FROM evidences WHERE id IN (${placeholders})`,
-        );
-        const result = stmt.run(...batch);
-        totalDeleted += result.changes;
-      }
+      this.db.transaction(() => {
+        for (let i = 0; i < ids.length; i += BATCH_SIZE) {
+          const batch = ids.slice(i, i + BATCH_SIZE);
+          const placeholders = batch.map(() => "?").join(",");
+          tombstoneLedgerEntries(this.db, batch, ledgerSigner);
+          const stmt = this.db.prepare(
+            `DELETE FROM evidences WHERE id IN (${placeholders})`,
+          );
+          const result = stmt.run(...batch);
+          totalDeleted += result.changes;
+        }
+      })();
 
       return totalDeleted;
     });
@@ -3078,6 +4664,10 @@ export class EvidenceDatabase {
    * Should be called when done with the database
    */
   close(): void {
+    this.sessionHistoryListeners.clear();
+    this.pendingHistoryChanges = [];
+    this.decryptedHistoryCache.clear();
+    this.sessionHistoryKey = null;
     this.db.close();
   }
 
@@ -3100,6 +4690,20 @@ export class EvidenceDatabase {
       gitCommitHash: row.gitCommitHash,
       gitTimestamp: row.gitTimestamp,
       tags: row.tags,
+      sessionId: row.sessionId,
+      sessionFromSeq: row.sessionFromSeq,
+      sessionToSeq: row.sessionToSeq,
+      chainSeq: row.chainSeq,
+      prevHash: row.prevHash,
+      entryHash: row.entryHash,
+      signature: row.signature,
+      signingKeyId: row.signingKeyId,
+      timestampToken: row.timestampToken
+        ? new Uint8Array(row.timestampToken)
+        : null,
+      timestampGenTime: row.timestampGenTime,
+      timestampAuthority: row.timestampAuthority,
+      timestampRequested: row.timestampRequested === 1,
       createdAt: row.createdAt,
       updatedAt: row.updatedAt,
     };
@@ -3111,11 +4715,11 @@ export class EvidenceDatabase {
       host: row.host,
       projectRoot: row.projectRoot,
       cwd: row.cwd,
-      title: row.title,
+      title: this.openNullableSessionText(row.title),
       status: row.status,
       startedAt: row.startedAt,
       endedAt: row.endedAt,
-      metadata: row.metadata,
+      metadata: this.openNullableSessionText(row.metadata),
       createdAt: row.createdAt,
       updatedAt: row.updatedAt,
     };
@@ -3174,7 +4778,7 @@ export class EvidenceDatabase {
       seq: row.seq,
       role: row.role,
       source: row.source,
-      content: row.content,
+      content: this.openSessionText(row.content),
       capturedAt: row.capturedAt,
       metadata: row.metadata,
     };
@@ -3188,8 +4792,8 @@ export class EvidenceDatabase {
       eventType: row.eventType,
       eventSubType: row.eventSubType,
       source: row.source,
-      summary: row.summary,
-      payload: row.payload,
+      summary: this.openNullableSessionText(row.summary),
+      payload: this.openNullableSessionText(row.payload),
       startedAt: row.startedAt,
       endedAt: row.endedAt,
       status: row.status,
@@ -3204,7 +4808,7 @@ export class EvidenceDatabase {
       eventId: row.eventId,
       artifactType: row.artifactType,
       path: row.path,
-      metadata: row.metadata,
+      metadata: this.openNullableSessionText(row.metadata),
       createdAt: row.createdAt,
     };
   }
@@ -3213,11 +4817,15 @@ export class EvidenceDatabase {
     return {
       id: row.id,
       sessionId: row.sessionId,
-      title: row.title,
-      summary: row.summary,
-      rationale: row.rationale,
+      title: this.openSessionText(row.title),
+      summary: this.openSessionText(row.summary),
+      rationale: this.openNullableSessionText(row.rationale),
       status: row.status,
       sourceRefs: row.sourceRefs,
+      origin: row.origin,
+      supersedes: row.supersedes
+        ? (JSON.parse(row.supersedes) as string[])
+        : [],
       createdAt: row.createdAt,
     };
   }
@@ -3227,7 +4835,7 @@ export class EvidenceDatabase {
       id: row.id,
       sessionId: row.sessionId,
       kind: row.kind,
-      content: row.content,
+      content: this.openSessionText(row.content),
       sourceRefs: row.sourceRefs,
       createdAt: row.createdAt,
       updatedAt: row.updatedAt,
@@ -18,6 +18,10 @@ import {
   type HistoryTrendReport,
 } from "../session-trends.js";
 import { buildHistoryHandoffReport } from "../history-handoff.js";
+import {
+  buildAsciinemaCast,
+  buildRecordingMarkers,
+} from "../terminal-recording.js";
 import {
   filterSessionsByHistory,
   type SessionHistoryFilters,
@@ -61,6 +65,16 @@ export interface SessionExportResult {
   }>;
 }
 
+export interface SessionCastExportResult {
+  filename: string;
+  castData: string;
+  checksum: string;
+  sessionId: string;
+  frameCount: number;
+  markerCount: number;
+  durationMs: number;
+}
+
 interface SessionExportManifest {
   version: string;
   exportDate: string;
@@ -74,7 +88,7 @@ interface SessionExportManifest {
   };
 }
 
-const SESSION_EXPORT_FORMAT_VERSION = "1.3.0";
+const SESSION_EXPORT_FORMAT_VERSION = "1.5.0";
 const MAX_SESSION_EXPORT_SIZE_MB = 100;
 const ESTIMATED_SESSION_OVERHEAD_BYTES = 4096;
 
@@ -140,6 +154,30 @@ function normalizeArtifacts(artifacts: ArtifactRecord[]) {
       lintRuleId: metadata.lintRuleId,
       testSuite: metadata.testSuite,
       testCase: metadata.testCase,
+      testId: metadata.testId,
+      durationMs: metadata.durationMs,
+      failureMessage: metadata.failureMessage,
+      diagnosticSource: metadata.diagnosticSource,
+      diagnosticFile: metadata.diagnosticFile,
+      diagnosticLine: metadata.diagnosticLine,
+      diagnosticSymbol: metadata.diagnosticSymbol,
+      topFrame: metadata.topFrame,
+      linter: metadata.linter,
+      errorCount: metadata.errorCount,
+      warningCount: metadata.warningCount,
+      lintRuleIds: metadata.lintRuleIds,
+      lintFiles: metadata.lintFiles,
+      buildTool: metadata.buildTool,
+      outputFiles: metadata.outputFiles,
+      dependencyVersions: metadata.dependencyVersions,
+      httpClient: metadata.httpClient,
+      httpMethod: metadata.httpMethod,
+      url: metadata.url,
+      host: metadata.host,
+      statusCode: metadata.statusCode,
+      migrationTool: metadata.migrationTool,
+      migrationAction: metadata.migrationAction,
+      migrationNames: metadata.migrationNames,
       issueKey: metadata.issueKey,
       issueLabel: metadata.issueLabel,
       issueFamilyKey: metadata.issueFamilyKey,
@@ -151,6 +189,8 @@ function normalizeArtifacts(artifacts: ArtifactRecord[]) {
       currentHead: metadata.currentHead,
       sourceRefs: metadata.sourceRefs,
       details: metadata.details,
+      // Raw metadata JSON, so an imported bundle keeps every field
+      metadata: artifact.metadata,
     };
   });
 }
@@ -176,6 +216,8 @@ function normalizeDecisions(decisions: DecisionRecord[]) {
     rationale: decision.rationale,
     status: decision.status,
     sourceRefs: parseRefs(decision.sourceRefs),
+    origin: decision.origin,
+    supersedes: decision.supersedes,
     createdAt: decision.createdAt,
   }));
 }
@@ -255,7 +297,8 @@ function estimateSessionDetailSize(detail: SessionDetail): number {
   return total;
 }
 
-function buildSessionSummary(detail: SessionDetail) {
+/** Session metadata plus transcript, timeline, and artifact rollups */
+export function buildSessionSummary(detail: SessionDetail) {
   return {
     session: {
       id: detail.session.id,
@@ -285,7 +328,7 @@ function buildSessionSummary(detail: SessionDetail) {
   };
 }
 
-function buildTranscriptMarkdown(detail: SessionDetail): string {
+export function buildTranscriptMarkdown(detail: SessionDetail): string {
   const lines = [
     `# Transcript: ${getSessionLabel(detail.session)}`,
     "",
@@ -658,9 +701,11 @@ export async function exportSessions(
             "sessions/{id}/artifacts.json",
             "sessions/{id}/narratives.json",
             "sessions/{id}/decisions.json",
+            "sessions/{id}/notes.json",
             "sessions/{id}/ingestion-runs.json",
             "sessions/{id}/handoff.md",
             "sessions/{id}/transcript.md",
+            "sessions/{id}/cast/session.cast",
           ],
         };
 
@@ -724,6 +769,12 @@ export async function exportSessions(
             `${baseDir}/decisions.json`,
             normalizeDecisions(detail.decisions),
           );
+          addJsonFile(
+            zip,
+            checksumEntries,
+            `${baseDir}/notes.json`,
+            detail.notes,
+          );
           addJsonFile(
             zip,
             checksumEntries,
@@ -742,6 +793,18 @@ export async function exportSessions(
             `${baseDir}/transcript.md`,
             buildTranscriptMarkdown(detail),
           );
+
+          const recording = db.getSessionRecording(detail.session.id);
+          if (recording) {
+            addTextFile(
+              zip,
+              checksumEntries,
+              `${baseDir}/cast/session.cast`,
+              buildAsciinemaCast(recording, detail.timeline, {
+                title: getSessionLabel(detail.session),
+              }),
+            );
+          }
         }
 
         addTextFile(
@@ -788,3 +851,40 @@ export async function exportSessions(
     },
   );
 }
+
+/**
+ * Export one session's terminal recording as an asciinema v2 cast
+ *
+ * @throws Error if the session does not exist or has no terminal recording
+ */
+export function exportSessionCast(
+  db: EvidenceDatabase,
+  sessionId: string,
+): SessionCastExportResult {
+  const session = db.findSessionById(sessionId);
+  if (!session) {
+    throw new Error(`Session not found: ${sessionId}`);
+  }
+
+  const recording = db.getSessionRecording(sessionId);
+  if (!recording) {
+    throw new Error(
+      `Session has no terminal recording: ${sessionId}. Only sessions recorded through a PTY can be exported as a cast.`,
+    );
+  }
+
+  const timeline = db.getSessionTimeline(sessionId);
+  const castData = buildAsciinemaCast(recording, timeline, {
+    title: getSessionLabel(session),
+  });
+
+  return {
+    filename: `session-${sessionId.slice(0, 8)}-${new Date().toISOString().split("T")[0]}.cast`,
+    castData,
+    checksum: createHash("sha256").update(castData).digest("hex"),
+    sessionId,
+    frameCount: recording.frames.length,
+    markerCount: buildRecordingMarkers(recording, timeline).length,
+    durationMs: recording.durationMs,
+  };
+}
@@ -1,10 +1,19 @@
+/* global Buffer */
 import JSZip from "jszip";
 import { createHash, randomUUID } from "node:crypto";
+import {
+  DEFAULT_KDF_PARAMS,
+  signDetached,
+  signingPublicKeyToPem,
+} from "../crypto/index.js";
 import type { EvidenceDatabase } from "./database.js";
+import { retrieveSalt } from "./salt-storage.js";
+import type { SigningIdentity } from "./signing-key-storage.js";
 
 export interface ExportOptions {
   evidenceIds?: string[]; // Specific IDs to export (or all)
   includeGitInfo?: boolean; // Include git-info.json
+  signingIdentity?: SigningIdentity | null; // Sign manifest.json when set
 }
 
 export interface ExportResult {
@@ -12,6 +21,20 @@ export interface ExportResult {
   zipData: Uint8Array; // ZIP file data
   checksum: string; // SHA-256 of zip file
   evidenceCount: number; // Number of evidences exported
+  signingKeyId: string | null; // Key that signed manifest.json, if any
+}
+
+/**
+ * Argon2id inputs that turn the passphrase into the evidence key. The salt is
+ * not secret; shipping it lets a passphrase holder decrypt the bundle offline.
+ */
+export interface ExportKeyDerivation {
+  algorithm: "argon2id";
+  salt: string; // base64
+  memory: number;
+  iterations: number;
+  parallelism: number;
+  keyLength: number;
 }
 
 interface ManifestData {
@@ -19,10 +42,18 @@ interface ManifestData {
   exportDate: string;
   evidenceCount: number;
   includeGitInfo: boolean;
+  checksumSha256: string;
+  signingKeyId: string | null;
+  keyDerivation: ExportKeyDerivation | null;
 }
 
 // Export format version constant
-const EXPORT_FORMAT_VERSION = "1.0.0";
+const EXPORT_FORMAT_VERSION = "1.2.0";
+
+/** Detached base64 Ed25519 signature over the exact manifest.json bytes */
+export const EXPORT_MANIFEST_SIGNATURE_PATH = "signatures/manifest.sig";
+/** PEM public key that verifies the manifest and evidence signatures */
+export const EXPORT_PUBLIC_KEY_PATH = "signatures/public-key.pem";
 
 // Maximum export size in MB (configurable limit to prevent OOM)
 const MAX_EXPORT_SIZE_MB = 100;
@@ -44,7 +75,11 @@ export async function exportEvidences(
   options: ExportOptions = {},
 ): Promise<ExportResult> {
   try {
-    const { evidenceIds, includeGitInfo = false } = options;
+    const {
+      evidenceIds,
+      includeGitInfo = false,
+      signingIdentity = null,
+    } = options;
 
     // Get evidences to export - validate IDs if specified
     let evidences;
@@ -91,15 +126,6 @@ export async function exportEvidences(
     // Create ZIP archive
     const zip = new JSZip();
 
-    // Add manifest.json
-    const manifest: ManifestData = {
-      version: EXPORT_FORMAT_VERSION,
-      exportDate: new Date().toISOString(),
-      evidenceCount: evidences.length,
-      includeGitInfo,
-    };
-    zip.file("manifest.json", JSON.stringify(manifest, null, 2));
-
     // Add each evidence
     const checksumEntries: string[] = [];
 
@@ -124,6 +150,24 @@ export async function exportEvidences(
         contentHash: evidence.contentHash,
         messageCount: evidence.messageCount,
         tags: evidence.tags,
+        ...(evidence.signature && {
+          signature: evidence.signature,
+          signingKeyId: evidence.signingKeyId,
+        }),
+        ...(evidence.timestampToken && {
+          trustedTimestamp: {
+            token: Buffer.from(evidence.timestampToken).toString("base64"),
+            genTime: evidence.timestampGenTime,
+            authority: evidence.timestampAuthority,
+          },
+        }),
+        ...(evidence.sessionId && {
+          session: {
+            id: evidence.sessionId,
+            fromSeq: evidence.sessionFromSeq,
+            toSeq: evidence.sessionToSeq,
+          },
+        }),
         nonce: Array.from(evidence.nonce), // Convert Uint8Array to array for JSON
       };
       const metadataJson = JSON.stringify(metadata, null, 2);
@@ -161,6 +205,41 @@ export async function exportEvidences(
     ].join("\n");
     zip.file("checksum.txt", checksumContent);
 
+    // manifest.json pins checksum.txt, so its signature covers every file
+    const salt = retrieveSalt(db.getDb());
+    const manifest: ManifestData = {
+      version: EXPORT_FORMAT_VERSION,
+      exportDate: new Date().toISOString(),
+      evidenceCount: evidences.length,
+      includeGitInfo,
+      checksumSha256: createHash("sha256")
+        .update(checksumContent)
+        .digest("hex"),
+      signingKeyId: signingIdentity?.keyId ?? null,
+      keyDerivation: salt
+        ? {
+            algorithm: "argon2id",
+            salt: Buffer.from(salt).toString("base64"),
+            ...DEFAULT_KDF_PARAMS,
+          }
+        : null,
+    };
+    const manifestJson = JSON.stringify(manifest, null, 2);
+    zip.file("manifest.json", manifestJson);
+
+    if (signingIdentity) {
+      zip.file(
+        EXPORT_MANIFEST_SIGNATURE_PATH,
+        Buffer.from(
+          signDetached(manifestJson, signingIdentity.privateKey),
+        ).toString("base64"),
+      );
+      zip.file(
+        EXPORT_PUBLIC_KEY_PATH,
+        signingPublicKeyToPem(signingIdentity.publicKey),
+      );
+    }
+
     // Generate ZIP data
     const zipData = await zip.generateAsync({
       type: "uint8array",
@@ -181,6 +260,7 @@ export async function exportEvidences(
       zipData,
       checksum: zipChecksum,
       evidenceCount: evidences.length,
+      signingKeyId: signingIdentity?.keyId ?? null,
     };
   } catch (error) {
     throw new Error(
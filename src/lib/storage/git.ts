@@ -77,3 +77,30 @@ export async function getCurrentCommit(
     return null;
   }
 }
+
+/**
+ * Look up the committer timestamp of a specific commit
+ * @param dir - Directory inside the repository
+ * @param commitHash - Full commit SHA
+ * @returns ISO 8601 committer timestamp, or null if the commit is not found
+ */
+export async function getCommitTimestamp(
+  dir: string,
+  commitHash: string,
+): Promise<string | null> {
+  const gitRoot = await findGitRoot(dir);
+  if (!gitRoot) {
+    return null;
+  }
+
+  try {
+    const { commit } = await git.readCommit({
+      fs,
+      dir: gitRoot,
+      oid: commitHash,
+    });
+    return new Date(commit.committer.timestamp * 1000).toISOString();
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,739 @@
+/* global Buffer */
+import JSZip from "jszip";
+import { createHash, randomUUID } from "node:crypto";
+import * as z from "zod";
+import { decrypt, encrypt } from "../crypto/index.js";
+import { SESSION_HOST_LABEL_PATTERN } from "../session-hosts.js";
+import type { EvidenceDatabase } from "./database.js";
+import {
+  ensureSigningIdentity,
+  signContentHash,
+} from "./signing-key-storage.js";
+import {
+  checkBundleFiles,
+  deriveBundleKey,
+  parseChecksumList,
+  verifyEvidenceBundle,
+} from "./verify-bundle.js";
+/**
+ * Restores `export-footprints` and `export-sessions` bundles into a database.
+ *
+ * Evidence is verified first (checksums, manifest, signatures) and every
+ * record is decrypted with the bundle's key, re-hashed against contentHash,
+ * and re-encrypted with the receiving database's key. The exporting identity's
+ * signature and ledger position cannot be carried over: records are re-signed
+ * by the local identity, appended to the local ledger, and the import report
+ * says what was lost. Sessions come back with
+ * their transcript, timeline, artifacts, narratives, decisions, and notes;
+ * child rows get fresh IDs and every reference between them is remapped.
+ */
+
+export type BundleConflictMode = "skip" | "replace" | "re-id";
+
+export const BUNDLE_CONFLICT_MODES: readonly BundleConflictMode[] = [
+  "skip",
+  "replace",
+  "re-id",
+];
+
+export interface BundleImportOptions {
+  /** What to do when a session or evidence ID already exists (default skip) */
+  conflict?: BundleConflictMode;
+  /** Evidence key of the receiving database; required for evidence bundles */
+  key?: Uint8Array;
+  /** Passphrase the bundle's evidence was encrypted with */
+  bundlePassphrase?: string;
+}
+
+export interface BundleEvidenceProvenance {
+  /** What the bundle record carried that the imported copy does not keep */
+  lost: Array<"signature" | "ledger-position">;
+  /** Key that signed the record in the bundle; null if it was unsigned */
+  originalSigningKeyId: string | null;
+  /** Local key that re-signed the imported record */
+  signingKeyId: string;
+}
+
+export interface BundleImportEntry {
+  sourceId: string;
+  /** ID in the receiving database; null when skipped */
+  id: string | null;
+  status: "imported" | "replaced" | "reassigned" | "skipped";
+  /** Imported evidence only */
+  provenance?: BundleEvidenceProvenance;
+}
+
+export interface BundleImportResult {
+  kind: "evidence" | "sessions";
+  formatVersion: string;
+  conflict: BundleConflictMode;
+  imported: number;
+  replaced: number;
+  reassigned: number;
+  skipped: number;
+  entries: BundleImportEntry[];
+}
+
+const refSchema = z.object({
+  type: z.string(),
+  id: z.string(),
+  claim: z.number().int().positive().optional(),
+});
+
+const sessionFileSchema = z.object({
+  session: z.object({
+    id: z.string(),
+    // Built-in hosts and generic labels share one pattern
+    host: z
+      .string()
+      .regex(
+        SESSION_HOST_LABEL_PATTERN,
+        "Host must be claude, gemini, codex, or a generic host label",
+      ),
+    title: z.string().nullable(),
+    status: z.enum(["running", "completed", "failed", "interrupted"]),
+    projectRoot: z.string(),
+    cwd: z.string(),
+    startedAt: z.string(),
+    endedAt: z.string().nullable(),
+    metadata: z.string().nullable(),
+  }),
+});
+
+const messagesSchema = z.array(
+  z.object({
+    id: z.string(),
+    seq: z.number().int(),
+    role: z.enum(["user", "assistant", "system"]),
+    source: z.string(),
+    content: z.string(),
+    capturedAt: z.string(),
+    metadata: z.string().nullable(),
+  }),
+);
+
+const timelineSchema = z.array(
+  z.object({
+    id: z.string(),
+    seq: z.number().int(),
+    eventType: z.string(),
+    eventSubType: z.string().nullable(),
+    source: z.string(),
+    summary: z.string().nullable(),
+    payload: z.string().nullable(),
+    startedAt: z.string(),
+    endedAt: z.string().nullable(),
+    status: z.string().nullable(),
+    relatedMessageId: z.string().nullable(),
+  }),
+);
+
+const artifactsSchema = z.array(
+  z
+    .object({
+      id: z.string(),
+      eventId: z.string().nullable(),
+      artifactType: z.enum([
+        "file-change",
+        "command-output",
+        "test-result",
+        "git-commit",
+        "lint-result",
+        "build-result",
+        "dependency-change",
+        "http-request",
+        "migration",
+      ]),
+      path: z.string().nullable(),
+      metadata: z.string().nullable().optional(),
+    })
+    .loose(),
+);
+
+const narrativesSchema = z.array(
+  z.object({
+    kind: z.enum(["journal", "project-summary", "handoff"]),
+    content: z.string(),
+    sourceRefs: z.array(refSchema),
+  }),
+);
+
+const decisionsSchema = z.array(
+  z.object({
+    id: z.string(),
+    title: z.string(),
+    summary: z.string(),
+    rationale: z.string().nullable(),
+    status: z.enum(["proposed", "accepted", "rejected", "open"]),
+    sourceRefs: z.array(refSchema),
+    origin: z.enum(["derived", "explicit"]).default("derived"),
+    supersedes: z.array(z.string()).default([]),
+    createdAt: z.string(),
+  }),
+);
+
+const notesSchema = z.array(
+  z.object({
+    kind: z.enum(["note", "question"]),
+    content: z.string(),
+    createdAt: z.string().optional(),
+  }),
+);
+
+const evidenceMetadataSchema = z.object({
+  id: z.string(),
+  timestamp: z.string(),
+  conversationId: z.string(),
+  llmProvider: z.string(),
+  contentHash: z.string(),
+  messageCount: z.number().int(),
+  tags: z.string().nullable(),
+  signature: z.string().optional(),
+  signingKeyId: z.string().nullable().optional(),
+  trustedTimestamp: z
+    .object({
+      token: z.string(),
+      genTime: z.string().nullable(),
+      authority: z.string().nullable(),
+    })
+    .optional(),
+  session: z
+    .object({
+      id: z.string(),
+      fromSeq: z.number().int().nullable(),
+      toSeq: z.number().int().nullable(),
+    })
+    .optional(),
+  nonce: z.array(z.number().int().min(0).max(255)),
+});
+
+const gitInfoSchema = z.object({
+  gitCommitHash: z.string(),
+  gitTimestamp: z.string(),
+});
+
+interface SessionBundle {
+  summary: z.infer<typeof sessionFileSchema>["session"];
+  messages: z.infer<typeof messagesSchema>;
+  timeline: z.infer<typeof timelineSchema>;
+  artifacts: z.infer<typeof artifactsSchema>;
+  narratives: z.infer<typeof narrativesSchema>;
+  decisions: z.infer<typeof decisionsSchema>;
+  notes: z.infer<typeof notesSchema>;
+}
+
+/**
+ * Artifact metadata keys that older bundles flattened into artifacts.json.
+ * Used to rebuild the metadata JSON when the raw copy is missing.
+ */
+const ARTIFACT_RECORD_KEYS = new Set([
+  "id",
+  "sessionId",
+  "eventId",
+  "artifactType",
+  "path",
+  "createdAt",
+  "metadata",
+]);
+
+async function readJson<T>(
+  zip: JSZip,
+  name: string,
+  schema: z.ZodType<T>,
+): Promise<T | null> {
+  const file = zip.file(name);
+  if (!file) {
+    return null;
+  }
+  try {
+    return schema.parse(JSON.parse(await file.async("text")));
+  } catch (error) {
+    throw new Error(
+      `${name} is invalid: ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+}
+
+function remapRefs(
+  refs: Array<{ type: string; id: string }>,
+  ids: Map<string, string>,
+): string {
+  return JSON.stringify(
+    refs.map((ref) => ({ ...ref, id: ids.get(ref.id) ?? ref.id })),
+  );
+}
+
+function rebuildArtifactMetadata(
+  artifact: Record<string, unknown>,
+  ids: Map<string, string>,
+): string | null {
+  let metadata: Record<string, unknown>;
+  if (typeof artifact.metadata === "string") {
+    metadata = JSON.parse(artifact.metadata) as Record<string, unknown>;
+  } else if (artifact.metadata === null) {
+    return null;
+  } else {
+    metadata = Object.fromEntries(
+      Object.entries(artifact).filter(
+        ([key, value]) =>
+          !ARTIFACT_RECORD_KEYS.has(key) &&
+          value !== null &&
+          value !== undefined,
+      ),
+    );
+  }
+
+  if (Array.isArray(metadata.sourceRefs)) {
+    metadata.sourceRefs = (
+      metadata.sourceRefs as Array<{ type: string; id: string }>
+    ).map((ref) => ({ ...ref, id: ids.get(ref.id) ?? ref.id }));
+  }
+  return JSON.stringify(metadata);
+}
+
+function summarize(
+  kind: BundleImportResult["kind"],
+  formatVersion: string,
+  conflict: BundleConflictMode,
+  entries: BundleImportEntry[],
+): BundleImportResult {
+  const count = (status: BundleImportEntry["status"]) =>
+    entries.filter((entry) => entry.status === status).length;
+  return {
+    kind,
+    formatVersion,
+    conflict,
+    imported: count("imported"),
+    replaced: count("replaced"),
+    reassigned: count("reassigned"),
+    skipped: count("skipped"),
+    entries,
+  };
+}
+
+/**
+ * Order decisions so each one follows the decisions it supersedes, keeping
+ * the given order otherwise. A supersedes cycle is broken at its oldest
+ * remaining decision.
+ */
+function orderBySupersedes<T extends { id: string; supersedes: string[] }>(
+  decisions: T[],
+): T[] {
+  const pendingIds = new Set(decisions.map((decision) => decision.id));
+  const ordered: T[] = [];
+  let pending = decisions;
+  while (pending.length > 0) {
+    const ready = pending.filter((decision) =>
+      decision.supersedes.every((id) => !pendingIds.has(id)),
+    );
+    const batch = ready.length > 0 ? ready : pending.slice(0, 1);
+    for (const decision of batch) {
+      ordered.push(decision);
+      pendingIds.delete(decision.id);
+    }
+    pending = pending.filter((decision) => pendingIds.has(decision.id));
+  }
+  return ordered;
+}
+
+/**
+ * Decide the ID an incoming record lands on
+ *
+ * @returns Target ID and entry status, or null to skip the record
+ */
+function resolveTarget(
+  sourceId: string,
+  exists: boolean,
+  conflict: BundleConflictMode,
+): { id: string; status: BundleImportEntry["status"] } | null {
+  if (!exists) {
+    return { id: sourceId, status: "imported" };
+  }
+  switch (conflict) {
+    case "skip":
+      return null;
+    case "replace":
+      return { id: sourceId, status: "replaced" };
+    case "re-id":
+      return { id: randomUUID(), status: "reassigned" };
+  }
+}
+
+/**
+ * Import an evidence or session export bundle
+ *
+ * @param db - Receiving database (session history must be unlocked if encrypted)
+ * @param zipData - Bundle produced by `exportEvidences` or `exportSessions`
+ * @param options - Conflict handling and, for evidence, the keys
+ * @returns What was imported, replaced, re-assigned, or skipped
+ * @throws Error if the bundle is unreadable, fails verification, or is missing
+ *   the keys evidence import needs; nothing is written in that case
+ */
+export async function importBundle(
+  db: EvidenceDatabase,
+  zipData: Uint8Array,
+  options: BundleImportOptions = {},
+): Promise<BundleImportResult> {
+  try {
+    const zip = await JSZip.loadAsync(zipData);
+    const manifest = (await readJson(
+      zip,
+      "manifest.json",
+      z
+        .object({
+          version: z.string(),
+          evidenceCount: z.number().optional(),
+          sessionCount: z.number().optional(),
+        })
+        .loose(),
+    )) as (Record<string, unknown> & { version: string }) | null;
+    if (!manifest) {
+      throw new Error("manifest.json is missing");
+    }
+
+    const conflict = options.conflict ?? "skip";
+    if (typeof manifest.evidenceCount === "number") {
+      return await importEvidenceBundle(db, zip, zipData, manifest, {
+        ...options,
+        conflict,
+      });
+    }
+    if (typeof manifest.sessionCount === "number") {
+      return await importSessionBundle(db, zip, manifest.version, conflict);
+    }
+    throw new Error(
+      "manifest.json does not describe an evidence or session export",
+    );
+  } catch (error) {
+    throw new Error(
+      `Failed to import bundle: ${error instanceof Error ? error.message : "Unknown error"}`,
+    );
+  }
+}
+
+async function importEvidenceBundle(
+  db: EvidenceDatabase,
+  zip: JSZip,
+  zipData: Uint8Array,
+  manifest: Record<string, unknown> & { version: string },
+  options: BundleImportOptions & { conflict: BundleConflictMode },
+): Promise<BundleImportResult> {
+  const keyDerivation = manifest.keyDerivation as
+    Parameters<typeof deriveBundleKey>[0] | null | undefined;
+  if (!options.key || !options.bundlePassphrase) {
+    throw new Error(
+      "Importing evidence needs the bundle passphrase and the receiving database key",
+    );
+  }
+  if (!keyDerivation) {
+    throw new Error(
+      "Bundle carries no key derivation salt; re-export it with this version to import it",
+    );
+  }
+
+  const bundleKey = deriveBundleKey(keyDerivation, options.bundlePassphrase);
+  const report = await verifyEvidenceBundle(zipData, { key: bundleKey });
+  if (!report.verified) {
+    const problems = [
+      ...report.errors,
+      ...report.evidences.flatMap((evidence) =>
+        evidence.errors.map((error) => `${evidence.id}: ${error}`),
+      ),
+    ];
+    throw new Error(`Bundle failed verification: ${problems.join("; ")}`);
+  }
+
+  const records: Array<{
+    metadata: z.infer<typeof evidenceMetadataSchema>;
+    gitInfo: z.infer<typeof gitInfoSchema> | null;
+    content: string;
+  }> = [];
+  for (const { id } of report.evidences) {
+    const base = `evidences/${id}`;
+    const metadata = (await readJson(
+      zip,
+      `${base}/metadata.json`,
+      evidenceMetadataSchema,
+    ))!;
+    const gitInfo = await readJson(zip, `${base}/git-info.json`, gitInfoSchema);
+    const content = decrypt(
+      await zip.file(`${base}/encrypted-data`)!.async("uint8array"),
+      new Uint8Array(metadata.nonce),
+      bundleKey,
+    );
+    records.push({ metadata, gitInfo, content });
+  }
+
+  const key = options.key;
+  const signer = ensureSigningIdentity(db.getDb(), key);
+  const entries = db.getDb().transaction(() =>
+    records.map(({ metadata, gitInfo, content }): BundleImportEntry => {
+      const target = resolveTarget(
+        metadata.id,
+        db.findById(metadata.id) !== null,
+        options.conflict,
+      );
+      if (!target) {
+        return { sourceId: metadata.id, id: null, status: "skipped" };
+      }
+      if (target.status === "replaced") {
+        db.delete(target.id, signer);
+      }
+
+      // Re-hashed after decryption so a record only lands if it still matches
+      if (
+        createHash("sha256").update(content).digest("hex") !==
+        metadata.contentHash
+      ) {
+        throw new Error(`Content hash mismatch for evidence ${metadata.id}`);
+      }
+      const sealed = encrypt(content, key);
+      db.create(
+        {
+          id: target.id,
+          timestamp: metadata.timestamp,
+          conversationId: metadata.conversationId,
+          llmProvider: metadata.llmProvider,
+          encryptedContent: sealed.ciphertext,
+          nonce: sealed.nonce,
+          contentHash: metadata.contentHash,
+          messageCount: metadata.messageCount,
+          gitCommitHash: gitInfo?.gitCommitHash ?? null,
+          gitTimestamp: gitInfo?.gitTimestamp ?? null,
+          tags: metadata.tags,
+          sessionId: metadata.session?.id ?? null,
+          sessionFromSeq: metadata.session?.fromSeq ?? null,
+          sessionToSeq: metadata.session?.toSeq ?? null,
+          signature: signContentHash(signer, metadata.contentHash),
+          signingKeyId: signer.keyId,
+          timestampRequested: metadata.trustedTimestamp !== undefined,
+        },
+        signer,
+      );
+      if (metadata.trustedTimestamp) {
+        db.setTimestampToken(
+          target.id,
+          new Uint8Array(
+            Buffer.from(metadata.trustedTimestamp.token, "base64"),
+          ),
+          metadata.trustedTimestamp.genTime ?? "",
+          metadata.trustedTimestamp.authority ?? "",
+        );
+      }
+
+      return {
+        sourceId: metadata.id,
+        id: target.id,
+        status: target.status,
+        provenance: {
+          lost: metadata.signature
+            ? ["signature", "ledger-position"]
+            : ["ledger-position"],
+          originalSigningKeyId: metadata.signature
+            ? (metadata.signingKeyId ?? null)
+            : null,
+          signingKeyId: signer.keyId,
+        },
+      };
+    }),
+  )();
+
+  return summarize("evidence", manifest.version, options.conflict, entries);
+}
+
+async function importSessionBundle(
+  db: EvidenceDatabase,
+  zip: JSZip,
+  formatVersion: string,
+  conflict: BundleConflictMode,
+): Promise<BundleImportResult> {
+  const listed = parseChecksumList(
+    (await zip.file("checksum.txt")?.async("text")) ?? null,
+  );
+  if (listed.size === 0) {
+    throw new Error("checksum.txt is missing");
+  }
+  const files = await checkBundleFiles(zip, listed, "sessions/");
+  const problems = [
+    ...files.mismatched.map((name) => `checksum mismatch: ${name}`),
+    ...files.missing.map((name) => `missing: ${name}`),
+    ...files.unlisted.map((name) => `not in checksum.txt: ${name}`),
+  ];
+  if (problems.length > 0) {
+    throw new Error(`Bundle failed verification: ${problems.join("; ")}`);
+  }
+
+  const sessionIds = new Set<string>();
+  zip.forEach((name) => {
+    const match = /^sessions\/([^/]+)\/session\.json$/.exec(name);
+    if (match) {
+      sessionIds.add(match[1]!);
+    }
+  });
+
+  const bundles: SessionBundle[] = [];
+  for (const sourceId of [...sessionIds].sort()) {
+    const base = `sessions/${sourceId}`;
+    bundles.push({
+      summary: (await readJson(zip, `${base}/session.json`, sessionFileSchema))!
+        .session,
+      messages:
+        (await readJson(zip, `${base}/messages.json`, messagesSchema)) ?? [],
+      timeline:
+        (await readJson(zip, `${base}/timeline.json`, timelineSchema)) ?? [],
+      artifacts:
+        (await readJson(zip, `${base}/artifacts.json`, artifactsSchema)) ?? [],
+      narratives:
+        (await readJson(zip, `${base}/narratives.json`, narrativesSchema)) ??
+        [],
+      decisions:
+        (await readJson(zip, `${base}/decisions.json`, decisionsSchema)) ?? [],
+      notes: (await readJson(zip, `${base}/notes.json`, notesSchema)) ?? [],
+    });
+  }
+
+  const entries = db.getDb().transaction(() =>
+    bundles.map((bundle): BundleImportEntry => {
+      const { summary } = bundle;
+      const target = resolveTarget(
+        summary.id,
+        db.findSessionById(summary.id) !== null,
+        conflict,
+      );
+      if (!target) {
+        return { sourceId: summary.id, id: null, status: "skipped" };
+      }
+      if (target.status === "replaced") {
+        db.deleteSessions([target.id]);
+      }
+
+      const sessionId = db.createSession({
+        id: target.id,
+        host: summary.host,
+        projectRoot: summary.projectRoot,
+        cwd: summary.cwd,
+        title: summary.title,
+        status: summary.status,
+        startedAt: summary.startedAt,
+        endedAt: summary.endedAt,
+        metadata: summary.metadata,
+      });
+
+      // Bundle IDs of messages, events, artifacts, and decisions to new IDs
+      const ids = new Map<string, string>();
+      for (const message of [...bundle.messages].sort(
+        (a, b) => a.seq - b.seq,
+      )) {
+        ids.set(
+          message.id,
+          db.appendMessage({
+            sessionId,
+            seq: message.seq,
+            role: message.role,
+            source: message.source,
+            content: message.content,
+            capturedAt: message.capturedAt,
+            metadata: message.metadata,
+          }),
+        );
+      }
+      for (const event of [...bundle.timeline].sort((a, b) => a.seq - b.seq)) {
+        ids.set(
+          event.id,
+          db.appendTimelineEvent({
+            sessionId,
+            seq: event.seq,
+            eventType: event.eventType,
+            eventSubType: event.eventSubType,
+            source: event.source,
+            summary: event.summary,
+            payload: event.payload,
+            startedAt: event.startedAt,
+            endedAt: event.endedAt,
+            status: event.status,
+            relatedMessageId: event.relatedMessageId
+              ? (ids.get(event.relatedMessageId) ?? null)
+              : null,
+          }),
+        );
+      }
+
+      const artifacts = db.replaceArtifactsForSession(
+        sessionId,
+        bundle.artifacts.map((artifact) => ({
+          sessionId,
+          eventId: artifact.eventId
+            ? (ids.get(artifact.eventId) ?? null)
+            : null,
+          artifactType: artifact.artifactType,
+          path: artifact.path,
+          metadata: rebuildArtifactMetadata(artifact, ids),
+        })),
+      );
+      bundle.artifacts.forEach((artifact, index) => {
+        ids.set(artifact.id, artifacts[index]!.id);
+      });
+
+      db.replaceNarrativesForSession(
+        sessionId,
+        bundle.narratives.map((narrative) => ({
+          sessionId,
+          kind: narrative.kind,
+          content: narrative.content,
+          sourceRefs: remapRefs(narrative.sourceRefs, ids),
+        })),
+      );
+
+      const derived = bundle.decisions.filter(
+        (decision) => decision.origin === "derived",
+      );
+      db.replaceDecisionsForSession(
+        sessionId,
+        derived.map((decision) => ({
+          sessionId,
+          title: decision.title,
+          summary: decision.summary,
+          rationale: decision.rationale,
+          status: decision.status,
+          sourceRefs: remapRefs(decision.sourceRefs, ids),
+        })),
+      ).forEach((created, index) => {
+        ids.set(derived[index]!.id, created.id);
+      });
+      const explicit = bundle.decisions
+        .filter((decision) => decision.origin === "explicit")
+        .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+      const explicitIds = new Set(explicit.map((decision) => decision.id));
+      for (const decision of orderBySupersedes(explicit)) {
+        const created = db.recordDecision({
+          sessionId,
+          title: decision.title,
+          summary: decision.summary,
+          rationale: decision.rationale,
+          status: decision.status,
+          sourceRefs: remapRefs(decision.sourceRefs, ids),
+          // Only explicit decisions in the bundle can be superseded here
+          supersedes: decision.supersedes.flatMap((id) => {
+            const mapped = explicitIds.has(id) ? ids.get(id) : undefined;
+            return mapped ? [mapped] : [];
+          }),
+          createdAt: decision.createdAt,
+        });
+        ids.set(decision.id, created.id);
+      }
+
+      for (const note of bundle.notes) {
+        db.appendSessionNote({
+          sessionId,
+          kind: note.kind,
+          content: note.content,
+          createdAt: note.createdAt,
+        });
+      }
+
+      return { sourceId: summary.id, id: sessionId, status: target.status };
+    }),
+  )();
+
+  return summarize("sessions", formatVersion, conflict, entries);
+}
@@ -1,17 +1,41 @@
-export { createSchema, verifySchema } from "./schema.js";
+export {
+  createSchema,
+  migrateSessionHistoryEncryption,
+  verifySchema,
+  type SessionHistoryCipher,
+} from "./schema.js";
 export { EvidenceDatabase } from "./database.js";
+export {
+  computeLedgerEntryHash,
+  readLedgerHead,
+  verifyEvidenceLedger,
+  EVIDENCE_LEDGER_HEAD_KEY,
+  LEDGER_GENESIS_HASH,
+  type LedgerEntryFields,
+  type LedgerHead,
+  type LedgerIssue,
+  type LedgerIssueKind,
+  type LedgerLink,
+  type LedgerVerification,
+} from "./ledger.js";
 export type {
   ArtifactRecord,
   ArtifactType,
+  BuiltInSessionHost,
   ContextLinkRejectionRecord,
   ContextLinkSource,
   ContextRecord,
   ContextSessionLinkRecord,
   ContextStatus,
   ContextWorkspacePreferenceRecord,
+  DecisionOrigin,
   DecisionRecord,
   DecisionStatus,
   Evidence,
+  EvidenceLedgerField,
+  EvidenceSessionLinkField,
+  EvidenceSignatureField,
+  EvidenceTimestampField,
   IngestionRunRecord,
   IngestionStage,
   IngestionStatus,
@@ -19,22 +43,99 @@ export type {
   NarrativeKind,
   NarrativeRecord,
   SessionDetail,
+  SessionHistoryChange,
   SessionHost,
+  SessionHistorySearchHit,
+  SessionImportRecord,
   SessionMessageRecord,
   SessionMessageRole,
+  SessionNoteKind,
+  SessionNoteRecord,
   SessionRecord,
+  SessionRecording,
+  SessionRecordingFrame,
+  SessionRetentionCandidate,
   SessionStatus,
   TimelineEventRecord,
+  TimestampQueueEntry,
 } from "./types.js";
-export { getCurrentCommit, type GitInfo } from "./git.js";
+export { getCommitTimestamp, getCurrentCommit, type GitInfo } from "./git.js";
 export {
   exportEvidences,
+  EXPORT_MANIFEST_SIGNATURE_PATH,
+  EXPORT_PUBLIC_KEY_PATH,
+  type ExportKeyDerivation,
   type ExportOptions,
   type ExportResult,
 } from "./export.js";
 export {
+  verifyEvidenceBundle,
+  type BundleEvidenceReport,
+  type BundleSignatureStatus,
+  type BundleVerificationReport,
+  type BundleVerifyOptions,
+} from "./verify-bundle.js";
+export {
+  buildSessionSummary,
+  buildTranscriptMarkdown,
+  exportSessionCast,
   exportSessions,
+  type SessionCastExportResult,
   type SessionExportOptions,
   type SessionExportResult,
 } from "./export-sessions.js";
+export {
+  BUNDLE_CONFLICT_MODES,
+  importBundle,
+  type BundleConflictMode,
+  type BundleEvidenceProvenance,
+  type BundleImportEntry,
+  type BundleImportOptions,
+  type BundleImportResult,
+} from "./import-bundle.js";
 export { storeSalt, retrieveSalt, hasSalt } from "./salt-storage.js";
+export {
+  deleteContextRejectionRow,
+  getSyncCursor,
+  getSyncMachineId,
+  getSyncRecord,
+  listContextLinkRows,
+  listContextRejectionRows,
+  listContextRows,
+  listSessionRows,
+  listSyncRecords,
+  listUnloggedMessageRows,
+  listUnloggedTimelineEventRows,
+  listWorkspacePreferenceRows,
+  redirectContextReferences,
+  setSyncCursor,
+  setSyncRecord,
+  writeContextLinkRow,
+  writeContextRejectionRow,
+  writeContextRow,
+  writeWorkspacePreferenceRow,
+  type SyncRecordVersion,
+} from "./sync-state.js";
+export {
+  ensureSigningIdentity,
+  retrieveSigningCreatedAt,
+  retrieveSigningPublicKey,
+  signContentHash,
+  storeSigningKey,
+  type SigningIdentity,
+} from "./signing-key-storage.js";
+export {
+  EVIDENCE_KEY_CHECK_KEY,
+  isRekeyInProgress,
+  rekeyEvidenceStore,
+  type RekeyOptions,
+  type RekeyProgress,
+  type RekeyResult,
+} from "./rekey.js";
+export {
+  canOpenSealedText,
+  isSealedText,
+  openSealedText,
+  resolveStorageKeySync,
+  sealText,
+} from "./session-encryption.js";
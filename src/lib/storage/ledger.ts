@@ -0,0 +1,543 @@
+/* global Buffer */
+import { createHash } from "node:crypto";
+import type Database from "better-sqlite3";
+import { signDetached, verifyDetached } from "../crypto/index.js";
+import type { SigningIdentity } from "./signing-key-storage.js";
+import type { Evidence } from "./types.js";
+
+/**
+ * Metadata key holding the latest ledger entry as `{ seq, hash }` JSON, plus
+ * `signature` and `signingKeyId` once a signing identity exists
+ */
+export const EVIDENCE_LEDGER_HEAD_KEY = "evidence_ledger_head";
+
+/** `prevHash` of the first ledger entry */
+export const LEDGER_GENESIS_HASH = "0".repeat(64);
+
+export interface LedgerHead {
+  seq: number;
+  hash: string;
+}
+
+export interface LedgerLink {
+  chainSeq: number;
+  prevHash: string;
+  entryHash: string;
+}
+
+/**
+ * Evidence fields covered by the entry hash. Tags and the git anchor are left
+ * out because `manage-tags` and `updateGitInfo()` legitimately change them.
+ * The token itself arrives after the entry is chained, so only the request
+ * for a stamp is covered.
+ */
+export type LedgerEntryFields = Pick<
+  Evidence,
+  | "id"
+  | "timestamp"
+  | "conversationId"
+  | "llmProvider"
+  | "contentHash"
+  | "messageCount"
+  | "sessionId"
+  | "sessionFromSeq"
+  | "sessionToSeq"
+  | "timestampRequested"
+>;
+
+export type LedgerIssueKind =
+  "gap" | "reordered" | "edited" | "unchained" | "head-mismatch" | "unsigned";
+
+export interface LedgerIssue {
+  kind: LedgerIssueKind;
+  seq: number | null;
+  evidenceId: string | null;
+  message: string;
+}
+
+export interface LedgerVerification {
+  verified: boolean;
+  /** Evidence rows on the chain */
+  entries: number;
+  /** Entries removed through the app, kept as tombstones */
+  deleted: number;
+  head: LedgerHead | null;
+  issues: LedgerIssue[];
+}
+
+export function computeLedgerEntryHash(
+  fields: LedgerEntryFields,
+  prevHash: string,
+): string {
+  return createHash("sha256")
+    .update(
+      JSON.stringify([
+        prevHash,
+        fields.id,
+        fields.timestamp,
+        fields.conversationId,
+        fields.llmProvider,
+        fields.contentHash,
+        fields.messageCount,
+        fields.sessionId ?? null,
+        fields.sessionFromSeq ?? null,
+        fields.sessionToSeq ?? null,
+        // Only hashed when set, so entries chained before it keep their hash
+        ...(fields.timestampRequested ? [true] : []),
+      ]),
+    )
+    .digest("hex");
+}
+
+interface SignedLedgerHead extends LedgerHead {
+  signature: string | null;
+}
+
+interface TombstoneFields {
+  chainSeq: number;
+  evidenceId: string;
+  prevHash: string;
+  entryHash: string;
+}
+
+/**
+ * Tombstones and the head live in the same writable database as the chain,
+ * so they are signed: otherwise a row could be deleted and covered with a
+ * matching tombstone, or the head moved back, without verification noticing.
+ */
+function signLedgerPayload(signer: SigningIdentity, payload: string): string {
+  return Buffer.from(signDetached(payload, signer.privateKey)).toString(
+    "base64",
+  );
+}
+
+function headPayload(head: LedgerHead): string {
+  return JSON.stringify(["ledger-head", head.seq, head.hash]);
+}
+
+function tombstonePayload(tombstone: TombstoneFields): string {
+  return JSON.stringify([
+    "ledger-tombstone",
+    tombstone.chainSeq,
+    tombstone.evidenceId,
+    tombstone.prevHash,
+    tombstone.entryHash,
+  ]);
+}
+
+function hasValidSignature(
+  payload: string,
+  signature: string | null,
+  publicKey: Uint8Array,
+): boolean {
+  return (
+    signature !== null &&
+    verifyDetached(
+      payload,
+      new Uint8Array(Buffer.from(signature, "base64")),
+      publicKey,
+    )
+  );
+}
+
+function readSignedLedgerHead(db: Database.Database): SignedLedgerHead | null {
+  const row = db
+    .prepare(`SELECT value FROM metadata WHERE key = ?`)
+    .get(EVIDENCE_LEDGER_HEAD_KEY) as { value: string } | undefined;
+  if (!row) {
+    return null;
+  }
+
+  try {
+    const head = JSON.parse(row.value) as Partial<SignedLedgerHead>;
+    return typeof head.seq === "number" && typeof head.hash === "string"
+      ? {
+          seq: head.seq,
+          hash: head.hash,
+          signature: typeof head.signature === "string" ? head.signature : null,
+        }
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+function writeLedgerHead(
+  db: Database.Database,
+  head: LedgerHead,
+  signer: SigningIdentity | null,
+): void {
+  db.prepare(
+    `
+      INSERT INTO metadata (key, value)
+      VALUES (?, ?)
+      ON CONFLICT(key) DO UPDATE SET value = excluded.value
+    `,
+  ).run(
+    EVIDENCE_LEDGER_HEAD_KEY,
+    JSON.stringify(
+      signer
+        ? {
+            ...head,
+            signature: signLedgerPayload(signer, headPayload(head)),
+            signingKeyId: signer.keyId,
+          }
+        : head,
+    ),
+  );
+}
+
+export function readLedgerHead(db: Database.Database): LedgerHead | null {
+  const head = readSignedLedgerHead(db);
+  return head ? { seq: head.seq, hash: head.hash } : null;
+}
+
+/**
+ * Link a new evidence row to the current head and advance the head. Call
+ * inside the write transaction that inserts the row so concurrent writers
+ * cannot fork the chain.
+ *
+ * @param signer - Signs the new head; required once a signing identity exists
+ */
+export function appendLedgerEntry(
+  db: Database.Database,
+  fields: LedgerEntryFields,
+  signer: SigningIdentity | null = null,
+): LedgerLink {
+  const head = readLedgerHead(db);
+  const chainSeq = (head?.seq ?? 0) + 1;
+  const prevHash = head?.hash ?? LEDGER_GENESIS_HASH;
+  const entryHash = computeLedgerEntryHash(fields, prevHash);
+
+  writeLedgerHead(db, { seq: chainSeq, hash: entryHash }, signer);
+
+  return { chainSeq, prevHash, entryHash };
+}
+
+/**
+ * Chain evidence rows written before the ledger existed, oldest first.
+ * Only run during the schema upgrade: rows inserted behind the app's back
+ * later must stay unchained so verification reports them.
+ *
+ * @returns Number of rows added to the chain
+ */
+export function backfillEvidenceLedger(db: Database.Database): number {
+  const rows = db
+    .prepare(
+      `
+        SELECT id, timestamp, conversationId, llmProvider, contentHash,
+          messageCount, sessionId, sessionFromSeq, sessionToSeq,
+          timestampRequested
+        FROM evidences
+        WHERE chainSeq IS NULL
+        ORDER BY timestamp ASC, createdAt ASC, id ASC
+      `,
+    )
+    .all() as LedgerEntryFields[];
+  const update = db.prepare(
+    `UPDATE evidences SET chainSeq = ?, prevHash = ?, entryHash = ? WHERE id = ?`,
+  );
+
+  for (const row of rows) {
+    const link = appendLedgerEntry(db, row);
+    update.run(link.chainSeq, link.prevHash, link.entryHash, row.id);
+  }
+  return rows.length;
+}
+
+/**
+ * Keep the chain position of evidence deleted through the app so the next
+ * entry still links and verification does not report a gap
+ *
+ * @param signer - Signs each tombstone; required once a signing identity exists
+ */
+export function tombstoneLedgerEntries(
+  db: Database.Database,
+  ids: string[],
+  signer: SigningIdentity | null = null,
+): void {
+  if (ids.length === 0) return;
+
+  const rows = db
+    .prepare(
+      `
+        SELECT chainSeq, id as evidenceId, prevHash, entryHash
+        FROM evidences
+        WHERE chainSeq IS NOT NULL
+          AND id IN (${ids.map(() => "?").join(",")})
+      `,
+    )
+    .all(...ids) as TombstoneFields[];
+  const insert = db.prepare(
+    `
+      INSERT OR IGNORE INTO evidence_ledger_tombstones (
+        chainSeq, evidenceId, prevHash, entryHash, deletedAt, signature,
+        signingKeyId
+      ) VALUES (?, ?, ?, ?, ?, ?, ?)
+    `,
+  );
+  const deletedAt = new Date().toISOString();
+
+  for (const row of rows) {
+    insert.run(
+      row.chainSeq,
+      row.evidenceId,
+      row.prevHash,
+      row.entryHash,
+      deletedAt,
+      signer ? signLedgerPayload(signer, tombstonePayload(row)) : null,
+      signer?.keyId ?? null,
+    );
+  }
+}
+
+/**
+ * Sign the tombstones and head written before the signing identity existed.
+ * Only run when the identity is created: signing unsigned entries later
+ * would approve ones added outside Footprint.
+ *
+ * @returns Number of tombstones signed
+ */
+export function signEvidenceLedger(
+  db: Database.Database,
+  signer: SigningIdentity,
+): number {
+  const tombstones = db
+    .prepare(
+      `
+        SELECT chainSeq, evidenceId, prevHash, entryHash
+        FROM evidence_ledger_tombstones
+        WHERE signature IS NULL
+      `,
+    )
+    .all() as TombstoneFields[];
+  const update = db.prepare(
+    `
+      UPDATE evidence_ledger_tombstones
+      SET signature = ?, signingKeyId = ?
+      WHERE chainSeq = ?
+    `,
+  );
+  for (const tombstone of tombstones) {
+    update.run(
+      signLedgerPayload(signer, tombstonePayload(tombstone)),
+      signer.keyId,
+      tombstone.chainSeq,
+    );
+  }
+
+  const head = readSignedLedgerHead(db);
+  if (head && head.signature === null) {
+    writeLedgerHead(db, head, signer);
+  }
+  return tombstones.length;
+}
+
+interface ChainEntry {
+  seq: number;
+  evidenceId: string;
+  prevHash: string;
+  entryHash: string;
+  fields: LedgerEntryFields | null;
+}
+
+/**
+ * Walk the evidence chain from the first entry to the head. Reports missing
+ * positions and links to records that are gone as gaps, links to a different
+ * existing record as reordering, rows whose fields no longer match their
+ * entry hash as edits, rows without a chain position, and a head that does
+ * not match the last entry. With a signing public key, tombstones and the
+ * head must also carry its signature.
+ *
+ * @param publicKey - Signing identity public key, or null if none exists
+ */
+export function verifyEvidenceLedger(
+  db: Database.Database,
+  publicKey: Uint8Array | null = null,
+): LedgerVerification {
+  const rows = db
+    .prepare(
+      `
+        SELECT id, timestamp, conversationId, llmProvider, contentHash,
+          messageCount, sessionId, sessionFromSeq, sessionToSeq,
+          timestampRequested, chainSeq, prevHash, entryHash
+        FROM evidences
+        ORDER BY chainSeq ASC, id ASC
+      `,
+    )
+    .all() as Array<
+    LedgerEntryFields & {
+      chainSeq: number | null;
+      prevHash: string | null;
+      entryHash: string | null;
+    }
+  >;
+  const tombstones = db
+    .prepare(
+      `
+        SELECT chainSeq, evidenceId, prevHash, entryHash, signature
+        FROM evidence_ledger_tombstones
+        ORDER BY chainSeq ASC
+      `,
+    )
+    .all() as Array<TombstoneFields & { signature: string | null }>;
+  const signedHead = readSignedLedgerHead(db);
+  const head = signedHead
+    ? { seq: signedHead.seq, hash: signedHead.hash }
+    : null;
+  const issues: LedgerIssue[] = [];
+  const entries = new Map<number, ChainEntry>();
+
+  const addEntry = (entry: ChainEntry) => {
+    if (entries.has(entry.seq)) {
+      issues.push({
+        kind: "reordered",
+        seq: entry.seq,
+        evidenceId: entry.evidenceId,
+        message: `Evidence ${entry.evidenceId} claims ledger position ${entry.seq}, which is already taken`,
+      });
+      return;
+    }
+    entries.set(entry.seq, entry);
+  };
+
+  for (const row of rows) {
+    if (row.chainSeq === null || !row.prevHash || !row.entryHash) {
+      issues.push({
+        kind: "unchained",
+        seq: null,
+        evidenceId: row.id,
+        message: `Evidence ${row.id} is not on the ledger and was inserted outside Footprint`,
+      });
+      continue;
+    }
+    const { chainSeq, prevHash, entryHash, ...fields } = row;
+    addEntry({
+      seq: chainSeq,
+      evidenceId: row.id,
+      prevHash,
+      entryHash,
+      fields,
+    });
+  }
+  for (const tombstone of tombstones) {
+    if (
+      publicKey &&
+      !hasValidSignature(
+        tombstonePayload(tombstone),
+        tombstone.signature,
+        publicKey,
+      )
+    ) {
+      issues.push({
+        kind: "unsigned",
+        seq: tombstone.chainSeq,
+        evidenceId: tombstone.evidenceId,
+        message: `Tombstone for ledger entry ${tombstone.chainSeq} is not signed by the signing key and was added outside Footprint`,
+      });
+    }
+    addEntry({
+      seq: tombstone.chainSeq,
+      evidenceId: tombstone.evidenceId,
+      prevHash: tombstone.prevHash,
+      entryHash: tombstone.entryHash,
+      fields: null,
+    });
+  }
+
+  const knownHashes = new Map(
+    [...entries.values()].map((entry) => [entry.entryHash, entry]),
+  );
+  let lastSeq = head?.seq ?? 0;
+  for (const seq of entries.keys()) {
+    lastSeq = Math.max(lastSeq, seq);
+  }
+  let previousHash: string | null = LEDGER_GENESIS_HASH;
+
+  for (let seq = 1; seq <= lastSeq; seq += 1) {
+    const entry = entries.get(seq);
+    if (!entry) {
+      issues.push({
+        kind: "gap",
+        seq,
+        evidenceId: null,
+        message: `Ledger entry ${seq} is missing; its evidence was deleted outside Footprint`,
+      });
+      previousHash = null;
+      continue;
+    }
+
+    if (
+      entry.fields &&
+      computeLedgerEntryHash(entry.fields, entry.prevHash) !== entry.entryHash
+    ) {
+      issues.push({
+        kind: "edited",
+        seq,
+        evidenceId: entry.evidenceId,
+        message: `Evidence ${entry.evidenceId} no longer matches its ledger entry hash`,
+      });
+    }
+
+    if (previousHash !== null && entry.prevHash !== previousHash) {
+      const linkedSeq =
+        entry.prevHash === LEDGER_GENESIS_HASH
+          ? 0
+          : knownHashes.get(entry.prevHash)?.seq;
+      issues.push(
+        linkedSeq !== undefined
+          ? {
+              kind: "reordered",
+              seq,
+              evidenceId: entry.evidenceId,
+              message:
+                linkedSeq === 0
+                  ? `Ledger entry ${seq} claims to start the chain`
+                  : `Ledger entry ${seq} links to entry ${linkedSeq} instead of entry ${seq - 1}`,
+            }
+          : {
+              kind: "gap",
+              seq,
+              evidenceId: entry.evidenceId,
+              message: `Ledger entry ${seq} links to a record that no longer exists`,
+            },
+      );
+    }
+    previousHash = entry.entryHash;
+  }
+
+  const last = entries.get(lastSeq);
+  if (
+    lastSeq > 0 &&
+    (!head || head.seq !== lastSeq || head.hash !== last?.entryHash)
+  ) {
+    issues.push({
+      kind: "head-mismatch",
+      seq: head?.seq ?? null,
+      evidenceId: null,
+      message: head
+        ? `Ledger head (entry ${head.seq}) does not match the last entry on the chain`
+        : "Ledger head is missing",
+    });
+  }
+  if (
+    publicKey &&
+    signedHead &&
+    !hasValidSignature(headPayload(signedHead), signedHead.signature, publicKey)
+  ) {
+    issues.push({
+      kind: "unsigned",
+      seq: signedHead.seq,
+      evidenceId: null,
+      message: `Ledger head (entry ${signedHead.seq}) is not signed by the signing key and was moved outside Footprint`,
+    });
+  }
+
+  return {
+    verified: issues.length === 0,
+    entries: rows.filter((row) => row.chainSeq !== null).length,
+    deleted: tombstones.length,
+    head,
+    issues,
+  };
+}
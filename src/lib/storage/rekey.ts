@@ -0,0 +1,336 @@
+/* global Buffer */
+import type Database from "better-sqlite3";
+import { randomBytes } from "@noble/hashes/utils.js";
+import { decrypt, encrypt, rederiveKeySync } from "../crypto/index.js";
+import { retrieveSalt } from "./salt-storage.js";
+import { resealSessionHistory } from "./schema.js";
+import {
+  canOpenSealedText,
+  isSealedText,
+  openSealedText,
+  sealText,
+} from "./session-encryption.js";
+
+/**
+ * Passphrase rotation.
+ *
+ * A rekey derives a new key from a fresh salt and moves every encrypted value
+ * over to it: evidence content, sealed session history, the signing private
+ * key, and sealed metadata. Evidence is rewritten in small batches, each in its
+ * own transaction. The new salt is parked in metadata until the very end, so
+ * a crash leaves a database that the old passphrase still opens for untouched
+ * rows and that `rekey` can pick up where it stopped. Plaintext, and therefore
+ * contentHash, ledger hashes, signatures and timestamps, never change.
+ */
+
+/** Sealed with the evidence key so a passphrase can be checked up front */
+export const EVIDENCE_KEY_CHECK_KEY = "evidence_key_check";
+const EVIDENCE_KEY_CHECK_TEXT = "footprint-evidence-key";
+
+/** Present only while a rekey is unfinished */
+const REKEY_STATE_KEY = "rekey_state";
+
+const DEFAULT_REKEY_BATCH_SIZE = 100;
+
+interface RekeyState {
+  newSalt: string;
+  oldKeyCheck: string;
+  newKeyCheck: string;
+  startedAt: string;
+}
+
+export interface RekeyProgress {
+  processed: number;
+  total: number;
+}
+
+export interface RekeyOptions {
+  /** Evidence rows rewritten per transaction */
+  batchSize?: number;
+  /** Called after each committed batch */
+  onProgress?: (progress: RekeyProgress) => void;
+}
+
+export interface RekeyResult {
+  /** True when an interrupted rekey was picked up */
+  resumed: boolean;
+  /** Evidence rows re-encrypted by this run */
+  evidences: number;
+  /** Evidence rows already on the new key from an earlier run */
+  skipped: number;
+  /** Session history rows re-sealed */
+  sessionHistoryRows: number;
+  /** Whether a signing private key was re-sealed */
+  signingKey: boolean;
+  completedAt: string;
+}
+
+function getMetadataValue(db: Database.Database, key: string): string | null {
+  const row = db
+    .prepare("SELECT value FROM metadata WHERE key = ?")
+    .get(key) as { value: string } | undefined;
+  return row?.value ?? null;
+}
+
+function setMetadataValue(
+  db: Database.Database,
+  key: string,
+  value: string,
+): void {
+  db.prepare(
+    `
+      INSERT INTO metadata (key, value)
+      VALUES (?, ?)
+      ON CONFLICT(key) DO UPDATE SET value = excluded.value
+    `,
+  ).run(key, value);
+}
+
+function canDecrypt(
+  row: { encryptedContent: Buffer; nonce: Buffer },
+  key: Uint8Array,
+): boolean {
+  try {
+    decrypt(
+      new Uint8Array(row.encryptedContent),
+      new Uint8Array(row.nonce),
+      key,
+    );
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Check a key against the first encrypted value the database holds.
+ * A database with nothing encrypted yet accepts any key.
+ */
+function keyOpensStore(db: Database.Database, key: Uint8Array): boolean {
+  const evidenceCheck = getMetadataValue(db, EVIDENCE_KEY_CHECK_KEY);
+  if (evidenceCheck) {
+    return canOpenSealedText(evidenceCheck, key);
+  }
+
+  const sealedMetadata = db
+    .prepare("SELECT value FROM metadata WHERE value LIKE 'fpenc:v1:%' LIMIT 1")
+    .get() as { value: string } | undefined;
+  if (sealedMetadata) {
+    return canOpenSealedText(sealedMetadata.value, key);
+  }
+
+  const signing = db
+    .prepare("SELECT signingPrivateKey FROM crypto_keys WHERE id = 1")
+    .get() as { signingPrivateKey: string | null } | undefined;
+  if (signing?.signingPrivateKey) {
+    return canOpenSealedText(signing.signingPrivateKey, key);
+  }
+
+  const evidence = db
+    .prepare(
+      "SELECT encryptedContent, nonce FROM evidences ORDER BY rowid LIMIT 1",
+    )
+    .get() as { encryptedContent: Buffer; nonce: Buffer } | undefined;
+  return evidence ? canDecrypt(evidence, key) : true;
+}
+
+function readRekeyState(db: Database.Database): RekeyState | null {
+  const value = getMetadataValue(db, REKEY_STATE_KEY);
+  return value ? (JSON.parse(value) as RekeyState) : null;
+}
+
+/**
+ * Report whether a rekey was started and not finished
+ *
+ * @param db - SQLite database instance
+ * @returns true while evidence may be split across the old and new key
+ */
+export function isRekeyInProgress(db: Database.Database): boolean {
+  return getMetadataValue(db, REKEY_STATE_KEY) !== null;
+}
+
+/**
+ * Move every encrypted value from the old passphrase to a new one.
+ * Safe to re-run with the same passphrases after a crash; rows that already
+ * open with the new key are left alone.
+ *
+ * @param db - SQLite database instance
+ * @param oldPassphrase - Passphrase the database is encrypted with
+ * @param newPassphrase - Passphrase to rotate to
+ * @param options - Batch size and progress callback
+ * @returns Summary of what was re-encrypted
+ * @throws Error if no salt is stored, the old passphrase is wrong, or an
+ *   unfinished rekey was started with a different new passphrase
+ */
+export function rekeyEvidenceStore(
+  db: Database.Database,
+  oldPassphrase: string,
+  newPassphrase: string,
+  options: RekeyOptions = {},
+): RekeyResult {
+  const oldSalt = retrieveSalt(db);
+  if (!oldSalt) {
+    throw new Error("Database has no encryption salt; nothing to rekey");
+  }
+  if (oldPassphrase === newPassphrase) {
+    throw new Error("New passphrase must differ from the old passphrase");
+  }
+
+  const batchSize = options.batchSize ?? DEFAULT_REKEY_BATCH_SIZE;
+  const oldKey = rederiveKeySync(oldPassphrase, oldSalt).key;
+  let state = readRekeyState(db);
+  const resumed = state !== null;
+  let newKey: Uint8Array;
+
+  if (state) {
+    if (!canOpenSealedText(state.oldKeyCheck, oldKey)) {
+      throw new Error("Old passphrase is incorrect");
+    }
+    newKey = rederiveKeySync(
+      newPassphrase,
+      new Uint8Array(Buffer.from(state.newSalt, "base64")),
+    ).key;
+    if (!canOpenSealedText(state.newKeyCheck, newKey)) {
+      throw new Error(
+        "A rekey to a different passphrase is already in progress; re-run it with the same new passphrase",
+      );
+    }
+  } else {
+    if (!keyOpensStore(db, oldKey)) {
+      throw new Error("Old passphrase is incorrect");
+    }
+
+    const newSalt = randomBytes(16);
+    newKey = rederiveKeySync(newPassphrase, newSalt).key;
+    state = {
+      newSalt: Buffer.from(newSalt).toString("base64"),
+      oldKeyCheck: sealText(EVIDENCE_KEY_CHECK_TEXT, oldKey),
+      newKeyCheck: sealText(EVIDENCE_KEY_CHECK_TEXT, newKey),
+      startedAt: new Date().toISOString(),
+    };
+    setMetadataValue(db, REKEY_STATE_KEY, JSON.stringify(state));
+  }
+
+  const { total } = db
+    .prepare("SELECT COUNT(*) as total FROM evidences")
+    .get() as { total: number };
+  const selectBatch = db.prepare(
+    `
+      SELECT rowid, encryptedContent, nonce
+      FROM evidences
+      WHERE rowid > ?
+      ORDER BY rowid
+      LIMIT ?
+    `,
+  );
+  const updateEvidence = db.prepare(
+    "UPDATE evidences SET encryptedContent = ?, nonce = ? WHERE rowid = ?",
+  );
+
+  let evidences = 0;
+  let skipped = 0;
+  let processed = 0;
+  let lastRowId = 0;
+  const rekeyBatch = db.transaction(() => {
+    const rows = selectBatch.all(lastRowId, batchSize) as Array<{
+      rowid: number;
+      encryptedContent: Buffer;
+      nonce: Buffer;
+    }>;
+
+    for (const row of rows) {
+      lastRowId = row.rowid;
+      if (canDecrypt(row, newKey)) {
+        skipped += 1;
+        continue;
+      }
+
+      const plaintext = decrypt(
+        new Uint8Array(row.encryptedContent),
+        new Uint8Array(row.nonce),
+        oldKey,
+      );
+      const { ciphertext, nonce } = encrypt(plaintext, newKey);
+      updateEvidence.run(
+        Buffer.from(ciphertext),
+        Buffer.from(nonce),
+        row.rowid,
+      );
+      evidences += 1;
+    }
+
+    return rows.length;
+  });
+
+  for (;;) {
+    const count = rekeyBatch.immediate();
+    if (count === 0) {
+      break;
+    }
+    processed += count;
+    options.onProgress?.({ processed, total: Math.max(total, processed) });
+  }
+
+  const sessionHistoryRows = resealSessionHistory(db, (value) => {
+    if (!isSealedText(value) || canOpenSealedText(value, newKey)) {
+      return null;
+    }
+    return sealText(openSealedText(value, oldKey), newKey);
+  });
+
+  const signingKey = db
+    .transaction(() => {
+      const signing = db
+        .prepare("SELECT signingPrivateKey FROM crypto_keys WHERE id = 1")
+        .get() as { signingPrivateKey: string | null } | undefined;
+      const moveSigningKey =
+        signing?.signingPrivateKey != null &&
+        !canOpenSealedText(signing.signingPrivateKey, newKey);
+      if (moveSigningKey) {
+        db.prepare(
+          "UPDATE crypto_keys SET signingPrivateKey = ? WHERE id = 1",
+        ).run(
+          sealText(openSealedText(signing.signingPrivateKey!, oldKey), newKey),
+        );
+      }
+
+      const sealedMetadata = db
+        .prepare(
+          "SELECT key, value FROM metadata WHERE value LIKE 'fpenc:v1:%'",
+        )
+        .all() as Array<{ key: string; value: string }>;
+      for (const { key, value } of sealedMetadata) {
+        if (!canOpenSealedText(value, newKey)) {
+          setMetadataValue(
+            db,
+            key,
+            sealText(openSealedText(value, oldKey), newKey),
+          );
+        }
+      }
+
+      setMetadataValue(
+        db,
+        EVIDENCE_KEY_CHECK_KEY,
+        sealText(EVIDENCE_KEY_CHECK_TEXT, newKey),
+      );
+      db.prepare("UPDATE crypto_keys SET salt = ? WHERE id = 1").run(
+        Buffer.from(state.newSalt, "base64"),
+      );
+      db.prepare("DELETE FROM metadata WHERE key = ?").run(REKEY_STATE_KEY);
+      return moveSigningKey;
+    })
+    .immediate();
+
+  oldKey.fill(0);
+  newKey.fill(0);
+
+  return {
+    resumed,
+    evidences,
+    skipped,
+    sessionHistoryRows,
+    signingKey,
+    completedAt: new Date().toISOString(),
+  };
+}
@@ -1,9 +1,10 @@
 import type Database from "better-sqlite3";
+import { backfillEvidenceLedger } from "./ledger.js";
 
 /**
  * Current schema version
  */
-const SCHEMA_VERSION = "9";
+const SCHEMA_VERSION = "17";
 
 export interface SchemaInitResult {
   previousVersion: number;
@@ -25,6 +26,20 @@ function tableExists(db: Database.Database, tableName: string): boolean {
   return Boolean(row?.name);
 }
 
+function addColumnIfMissing(
+  db: Database.Database,
+  tableName: string,
+  columnName: string,
+  definition: string,
+): void {
+  const columns = db.pragma(`table_info(${tableName})`) as Array<{
+    name: string;
+  }>;
+  if (!columns.some((column) => column.name === columnName)) {
+    db.exec(`ALTER TABLE ${tableName} ADD COLUMN ${columnName} ${definition}`);
+  }
+}
+
 function readSchemaVersion(db: Database.Database): number {
   if (!tableExists(db, "metadata")) {
     return 0;
@@ -78,10 +93,73 @@ export function createSchema(db: Database.Database): SchemaInitResult {
         gitCommitHash TEXT,
         gitTimestamp TEXT,
         tags TEXT,
+        sessionId TEXT,
+        sessionFromSeq INTEGER,
+        sessionToSeq INTEGER,
+        chainSeq INTEGER,
+        prevHash TEXT,
+        entryHash TEXT,
+        signature TEXT,
+        signingKeyId TEXT,
+        timestampToken BLOB,
+        timestampGenTime TEXT,
+        timestampAuthority TEXT,
+        timestampRequested INTEGER,
         createdAt TEXT NOT NULL DEFAULT (datetime('now')),
         updatedAt TEXT NOT NULL DEFAULT (datetime('now'))
       );
     `);
+    // Evidence promoted from session history keeps a link to its session and
+    // transcript range. No foreign key: evidence outlives pruned sessions.
+    addColumnIfMissing(db, "evidences", "sessionId", "TEXT");
+    addColumnIfMissing(db, "evidences", "sessionFromSeq", "INTEGER");
+    addColumnIfMissing(db, "evidences", "sessionToSeq", "INTEGER");
+    // Hash-chained ledger position; see ledger.ts
+    addColumnIfMissing(db, "evidences", "chainSeq", "INTEGER");
+    addColumnIfMissing(db, "evidences", "prevHash", "TEXT");
+    addColumnIfMissing(db, "evidences", "entryHash", "TEXT");
+    // Detached Ed25519 signature over contentHash
+    addColumnIfMissing(db, "evidences", "signature", "TEXT");
+    addColumnIfMissing(db, "evidences", "signingKeyId", "TEXT");
+    // RFC 3161 token over contentHash; see trusted-timestamp.ts
+    addColumnIfMissing(db, "evidences", "timestampToken", "BLOB");
+    addColumnIfMissing(db, "evidences", "timestampGenTime", "TEXT");
+    addColumnIfMissing(db, "evidences", "timestampAuthority", "TEXT");
+    // Covered by the ledger entry hash so a stripped token cannot pass as
+    // never stamped
+    addColumnIfMissing(db, "evidences", "timestampRequested", "INTEGER");
+
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS evidence_ledger_tombstones (
+        chainSeq INTEGER PRIMARY KEY,
+        evidenceId TEXT NOT NULL,
+        prevHash TEXT NOT NULL,
+        entryHash TEXT NOT NULL,
+        deletedAt TEXT NOT NULL,
+        signature TEXT,
+        signingKeyId TEXT
+      );
+    `);
+    // Tombstones are signed like the head; see ledger.ts
+    addColumnIfMissing(db, "evidence_ledger_tombstones", "signature", "TEXT");
+    addColumnIfMissing(
+      db,
+      "evidence_ledger_tombstones",
+      "signingKeyId",
+      "TEXT",
+    );
+
+    // Evidence waiting for a reachable timestamp authority
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS timestamp_queue (
+        evidenceId TEXT PRIMARY KEY,
+        attempts INTEGER NOT NULL DEFAULT 0,
+        lastError TEXT,
+        queuedAt TEXT NOT NULL,
+        lastAttemptAt TEXT,
+        FOREIGN KEY (evidenceId) REFERENCES evidences(id) ON DELETE CASCADE
+      );
+    `);
 
     db.exec(`
       CREATE TABLE IF NOT EXISTS metadata (
@@ -94,9 +172,17 @@ export function createSchema(db: Database.Database): SchemaInitResult {
       CREATE TABLE IF NOT EXISTS crypto_keys (
         id INTEGER PRIMARY KEY CHECK (id = 1),
         salt BLOB NOT NULL,
+        signingPublicKey BLOB,
+        signingPrivateKey TEXT,
+        signingCreatedAt TEXT,
         createdAt TEXT NOT NULL DEFAULT (datetime('now'))
       );
     `);
+    // Signing identity lives next to the salt; the private key is sealed
+    // with the evidence key
+    addColumnIfMissing(db, "crypto_keys", "signingPublicKey", "BLOB");
+    addColumnIfMissing(db, "crypto_keys", "signingPrivateKey", "TEXT");
+    addColumnIfMissing(db, "crypto_keys", "signingCreatedAt", "TEXT");
 
     db.exec(`
       CREATE TABLE IF NOT EXISTS sessions (
@@ -174,10 +260,21 @@ export function createSchema(db: Database.Database): SchemaInitResult {
         rationale TEXT,
         status TEXT NOT NULL,
         sourceRefs TEXT NOT NULL,
+        origin TEXT NOT NULL DEFAULT 'derived',
+        supersedes TEXT,
         createdAt TEXT NOT NULL DEFAULT (datetime('now')),
         FOREIGN KEY (sessionId) REFERENCES sessions(id) ON DELETE CASCADE
       );
     `);
+    // Decisions recorded by agents survive reingest, which only replaces
+    // derived rows.
+    addColumnIfMissing(
+      db,
+      "decisions",
+      "origin",
+      "TEXT NOT NULL DEFAULT 'derived'",
+    );
+    addColumnIfMissing(db, "decisions", "supersedes", "TEXT");
 
     db.exec(`
       CREATE TABLE IF NOT EXISTS narratives (
@@ -219,6 +316,31 @@ export function createSchema(db: Database.Database): SchemaInitResult {
       );
     `);
 
+    // Full-text index over session_history_cache. Rows are written by
+    // EvidenceDatabase whenever a cache row changes and stay empty while
+    // session history is encrypted, so plaintext never lands in the index.
+    db.exec(`
+      CREATE VIRTUAL TABLE IF NOT EXISTS session_history_fts USING fts5(
+        sessionId UNINDEXED,
+        titleText,
+        metadataText,
+        messagesText,
+        artifactsText,
+        narrativesText,
+        decisionsText,
+        tokenize = 'unicode61 remove_diacritics 2'
+      );
+    `);
+
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS session_history_fts_rows (
+        sessionId TEXT PRIMARY KEY,
+        ftsRowid INTEGER NOT NULL,
+        indexedAt TEXT NOT NULL,
+        FOREIGN KEY (sessionId) REFERENCES sessions(id) ON DELETE CASCADE
+      );
+    `);
+
     db.exec(`
       CREATE TABLE IF NOT EXISTS session_issue_keys (
         sessionId TEXT NOT NULL,
@@ -301,6 +423,65 @@ export function createSchema(db: Database.Database): SchemaInitResult {
       );
     `);
 
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS session_imports (
+        sourceKey TEXT PRIMARY KEY,
+        host TEXT NOT NULL,
+        sourcePath TEXT NOT NULL,
+        fingerprint TEXT NOT NULL,
+        sessionId TEXT NOT NULL,
+        entryCount INTEGER NOT NULL DEFAULT 0,
+        importedAt TEXT NOT NULL,
+        updatedAt TEXT NOT NULL,
+        FOREIGN KEY (sessionId) REFERENCES sessions(id) ON DELETE CASCADE
+      );
+    `);
+
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS session_recordings (
+        sessionId TEXT PRIMARY KEY,
+        format TEXT NOT NULL,
+        startedAt TEXT NOT NULL,
+        durationMs INTEGER NOT NULL,
+        columns INTEGER,
+        rows INTEGER,
+        frameCount INTEGER NOT NULL,
+        frames TEXT NOT NULL,
+        createdAt TEXT NOT NULL DEFAULT (datetime('now')),
+        FOREIGN KEY (sessionId) REFERENCES sessions(id) ON DELETE CASCADE
+      );
+    `);
+
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS session_notes (
+        id TEXT PRIMARY KEY,
+        sessionId TEXT NOT NULL,
+        kind TEXT NOT NULL,
+        content TEXT NOT NULL,
+        createdAt TEXT NOT NULL DEFAULT (datetime('now')),
+        FOREIGN KEY (sessionId) REFERENCES sessions(id) ON DELETE CASCADE
+      );
+    `);
+
+    // Multi-machine sync: last version written or replayed per record, and
+    // read/write positions in the shared change logs
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS sync_records (
+        kind TEXT NOT NULL,
+        recordKey TEXT NOT NULL,
+        version TEXT NOT NULL,
+        digest TEXT NOT NULL,
+        PRIMARY KEY (kind, recordKey)
+      );
+    `);
+
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS sync_cursors (
+        scope TEXT PRIMARY KEY,
+        position INTEGER NOT NULL
+      );
+    `);
+
     db.exec(
       `CREATE INDEX IF NOT EXISTS idx_timestamp ON evidences(timestamp);`,
     );
@@ -313,6 +494,12 @@ export function createSchema(db: Database.Database): SchemaInitResult {
     db.exec(
       `CREATE INDEX IF NOT EXISTS idx_evidences_tags ON evidences(tags);`,
     );
+    db.exec(
+      `CREATE INDEX IF NOT EXISTS idx_evidences_session ON evidences(sessionId, timestamp);`,
+    );
+    db.exec(
+      `CREATE UNIQUE INDEX IF NOT EXISTS idx_evidences_chain_seq ON evidences(chainSeq);`,
+    );
     db.exec(
       `CREATE INDEX IF NOT EXISTS idx_sessions_started_at ON sessions(startedAt DESC);`,
     );
@@ -341,6 +528,9 @@ export function createSchema(db: Database.Database): SchemaInitResult {
     db.exec(
       `CREATE INDEX IF NOT EXISTS idx_narratives_session ON narratives(sessionId, kind);`,
     );
+    db.exec(
+      `CREATE INDEX IF NOT EXISTS idx_session_notes_session ON session_notes(sessionId, createdAt);`,
+    );
     db.exec(
       `CREATE INDEX IF NOT EXISTS idx_ingestion_runs_session ON ingestion_runs(sessionId, startedAt DESC);`,
     );
@@ -381,6 +571,10 @@ export function createSchema(db: Database.Database): SchemaInitResult {
       `CREATE INDEX IF NOT EXISTS idx_context_link_rejections_context_id ON context_link_rejections(contextId, sessionId);`,
     );
 
+    if (previousVersion < 15) {
+      backfillEvidenceLedger(db);
+    }
+
     db.prepare(
       `
         INSERT INTO metadata (key, value)
@@ -399,6 +593,163 @@ export function createSchema(db: Database.Database): SchemaInitResult {
   };
 }
 
+export interface SessionHistoryCipher {
+  seal(value: string): string;
+  isSealed(value: string): boolean;
+}
+
+/**
+ * Session history columns that hold transcript text, or text copied from it,
+ * and are sealed when session history encryption is enabled
+ */
+const ENCRYPTED_SESSION_HISTORY_COLUMNS: ReadonlyArray<{
+  table: string;
+  keyColumn: string;
+  columns: readonly string[];
+}> = [
+  { table: "sessions", keyColumn: "id", columns: ["title", "metadata"] },
+  { table: "messages", keyColumn: "id", columns: ["content"] },
+  {
+    table: "timeline_events",
+    keyColumn: "id",
+    columns: ["summary", "payload"],
+  },
+  { table: "artifacts", keyColumn: "id", columns: ["metadata"] },
+  {
+    table: "decisions",
+    keyColumn: "id",
+    columns: ["title", "summary", "rationale"],
+  },
+  { table: "narratives", keyColumn: "id", columns: ["content"] },
+  { table: "session_recordings", keyColumn: "sessionId", columns: ["frames"] },
+  { table: "session_notes", keyColumn: "id", columns: ["content"] },
+  {
+    table: "session_history_cache",
+    keyColumn: "sessionId",
+    columns: [
+      "titleText",
+      "metadataText",
+      "messagesText",
+      "artifactsText",
+      "narrativesText",
+      "decisionsText",
+    ],
+  },
+];
+
+/**
+ * Encrypts existing session history rows that are still stored in plaintext.
+ * Values that are already sealed are skipped, so the migration can be re-run
+ * safely after an interrupted upgrade. The full-text index, issue keys and
+ * trend attempts are cleared because they cannot hold sealed text.
+ *
+ * @param db - SQLite database instance
+ * @param cipher - Seals plaintext values with the evidence key
+ * @returns Number of rows rewritten
+ */
+export function migrateSessionHistoryEncryption(
+  db: Database.Database,
+  cipher: SessionHistoryCipher,
+): number {
+  const migrate = db.transaction(() => {
+    let rewritten = 0;
+
+    for (const target of ENCRYPTED_SESSION_HISTORY_COLUMNS) {
+      const { table, keyColumn, columns } = target;
+      const rows = db
+        .prepare(
+          `SELECT ${keyColumn} as rowKey, ${columns.join(", ")} FROM ${table}`,
+        )
+        .all() as Array<Record<string, string | null>>;
+      const update = db.prepare(
+        `UPDATE ${table} SET ${columns.map((column) => `${column} = ?`).join(", ")} WHERE ${keyColumn} = ?`,
+      );
+
+      for (const row of rows) {
+        let changed = false;
+        const values = columns.map((column) => {
+          const value = row[column] ?? null;
+          if (value === null || cipher.isSealed(value)) {
+            return value;
+          }
+
+          changed = true;
+          return cipher.seal(value);
+        });
+
+        if (changed) {
+          update.run(...values, row.rowKey);
+          rewritten += 1;
+        }
+      }
+    }
+
+    // The full-text index holds plaintext copies of the cache columns, and
+    // issue keys and trend attempts hold command text from artifacts.
+    db.exec(`DELETE FROM session_history_fts`);
+    db.exec(`DELETE FROM session_history_fts_rows`);
+    db.exec(`DELETE FROM session_issue_keys`);
+    db.exec(`DELETE FROM session_trend_attempts`);
+
+    return rewritten;
+  });
+
+  return migrate();
+}
+
+/**
+ * Rewrites sealed session history values in place, for example to move them
+ * to a new key. `reseal` returns null for values that need no change
+ * (plaintext, or already moved), so an interrupted run can be repeated.
+ *
+ * @param db - SQLite database instance
+ * @param reseal - Returns the replacement for a stored value, or null
+ * @returns Number of rows rewritten
+ */
+export function resealSessionHistory(
+  db: Database.Database,
+  reseal: (value: string) => string | null,
+): number {
+  const rewrite = db.transaction(() => {
+    let rewritten = 0;
+
+    for (const target of ENCRYPTED_SESSION_HISTORY_COLUMNS) {
+      const { table, keyColumn, columns } = target;
+      const rows = db
+        .prepare(
+          `SELECT ${keyColumn} as rowKey, ${columns.join(", ")} FROM ${table}`,
+        )
+        .all() as Array<Record<string, string | null>>;
+      const update = db.prepare(
+        `UPDATE ${table} SET ${columns.map((column) => `${column} = ?`).join(", ")} WHERE ${keyColumn} = ?`,
+      );
+
+      for (const row of rows) {
+        let changed = false;
+        const values = columns.map((column) => {
+          const value = row[column] ?? null;
+          const replacement = value === null ? null : reseal(value);
+          if (replacement === null) {
+            return value;
+          }
+
+          changed = true;
+          return replacement;
+        });
+
+        if (changed) {
+          update.run(...values, row.rowKey);
+          rewritten += 1;
+        }
+      }
+    }
+
+    return rewritten;
+  });
+
+  return rewrite();
+}
+
 /**
  * Verifies that the database schema is valid
  * Checks for existence of required tables
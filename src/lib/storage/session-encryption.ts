@@ -0,0 +1,101 @@
+/* global Buffer */
+import type Database from "better-sqlite3";
+import { randomBytes } from "@noble/hashes/utils.js";
+import { decrypt, encrypt, rederiveKeySync } from "../crypto/index.js";
+import { retrieveSalt, storeSalt } from "./salt-storage.js";
+
+/**
+ * Marker for session history values sealed with the evidence key.
+ * Sealed values stay in TEXT columns so plaintext rows written before
+ * encryption was enabled can be told apart and migrated in place.
+ */
+const SEALED_TEXT_PREFIX = "fpenc:v1:";
+
+/**
+ * Check whether a stored column value carries the sealed marker.
+ * Plaintext can carry it too, so only {@link canOpenSealedText} proves a
+ * value was sealed.
+ *
+ * @param value - Raw column value
+ * @returns true if the value looks sealed
+ */
+export function isSealedText(value: string): boolean {
+  return value.startsWith(SEALED_TEXT_PREFIX);
+}
+
+/**
+ * Seal a session history value with XChaCha20-Poly1305
+ *
+ * @param value - Plaintext column value
+ * @param key - 32-byte encryption key
+ * @returns Sealed value in the form `fpenc:v1:<nonce>:<ciphertext>` (base64)
+ */
+export function sealText(value: string, key: Uint8Array): string {
+  const { ciphertext, nonce } = encrypt(value, key);
+  return `${SEALED_TEXT_PREFIX}${Buffer.from(nonce).toString("base64")}:${Buffer.from(ciphertext).toString("base64")}`;
+}
+
+/**
+ * Open a value sealed by {@link sealText}
+ *
+ * @param value - Sealed column value
+ * @param key - 32-byte encryption key
+ * @returns Decrypted plaintext
+ * @throws Error if the value is malformed, the key is wrong, or data was tampered with
+ */
+export function openSealedText(value: string, key: Uint8Array): string {
+  if (!isSealedText(value)) {
+    throw new Error("Value is not sealed");
+  }
+
+  const [nonce, ciphertext] = value
+    .slice(SEALED_TEXT_PREFIX.length)
+    .split(":");
+  if (!nonce || ciphertext === undefined) {
+    throw new Error("Sealed value is malformed");
+  }
+
+  return decrypt(
+    new Uint8Array(Buffer.from(ciphertext, "base64")),
+    new Uint8Array(Buffer.from(nonce, "base64")),
+    key,
+  );
+}
+
+/**
+ * Check whether a value was sealed by {@link sealText} with the given key
+ *
+ * @param value - Raw column value
+ * @param key - 32-byte encryption key
+ * @returns true if the value authenticates and opens with the key
+ */
+export function canOpenSealedText(value: string, key: Uint8Array): boolean {
+  try {
+    openSealedText(value, key);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Derive the evidence key from a passphrase and the stored master salt,
+ * creating the salt on first use. Shares the salt with evidence capture so
+ * session history and evidence are protected by the same key.
+ *
+ * @param db - SQLite database instance
+ * @param passphrase - Evidence passphrase
+ * @returns 32-byte encryption key
+ */
+export function resolveStorageKeySync(
+  db: Database.Database,
+  passphrase: string,
+): Uint8Array {
+  let salt = retrieveSalt(db);
+  if (!salt) {
+    salt = randomBytes(16);
+    storeSalt(db, salt);
+  }
+
+  return rederiveKeySync(passphrase, salt).key;
+}
@@ -0,0 +1,181 @@
+/* global Buffer */
+import type Database from "better-sqlite3";
+import {
+  generateSigningKeyPair,
+  getSigningKeyId,
+  signDetached,
+} from "../crypto/index.js";
+import { signEvidenceLedger } from "./ledger.js";
+import { openSealedText, sealText } from "./session-encryption.js";
+
+/**
+ * Local signing identity, unlocked with the evidence key
+ */
+export interface SigningIdentity {
+  keyId: string;
+  publicKey: Uint8Array;
+  privateKey: Uint8Array;
+}
+
+/**
+ * Store the signing key pair next to the master salt (one-time operation).
+ * The private key is sealed with the evidence key; the public key stays in
+ * plaintext so signatures can be checked without the passphrase.
+ *
+ * @param db - SQLite database instance
+ * @param publicKey - Raw 32-byte Ed25519 public key
+ * @param sealedPrivateKey - Private key sealed with `sealText`
+ * @throws Error if no salt is stored, a signing key already exists, or storage fails
+ */
+export function storeSigningKey(
+  db: Database.Database,
+  publicKey: Uint8Array,
+  sealedPrivateKey: string,
+): void {
+  try {
+    const result = db
+      .prepare(
+        `
+          UPDATE crypto_keys
+          SET signingPublicKey = ?, signingPrivateKey = ?, signingCreatedAt = ?
+          WHERE id = 1 AND signingPublicKey IS NULL
+        `,
+      )
+      .run(Buffer.from(publicKey), sealedPrivateKey, new Date().toISOString());
+    if (result.changes === 0) {
+      const existing = db
+        .prepare("SELECT signingPublicKey FROM crypto_keys WHERE id = 1")
+        .get() as { signingPublicKey: Buffer | null } | undefined;
+      throw new Error(
+        existing
+          ? "Signing key already exists in database"
+          : "Salt must be stored before the signing key",
+      );
+    }
+  } catch (error) {
+    if (
+      error instanceof Error &&
+      (error.message === "Signing key already exists in database" ||
+        error.message === "Salt must be stored before the signing key")
+    ) {
+      throw error;
+    }
+    throw new Error(
+      `Failed to store signing key: ${error instanceof Error ? error.message : "Unknown error"}`,
+    );
+  }
+}
+
+/**
+ * Retrieve the signing public key from database
+ *
+ * @param db - SQLite database instance
+ * @returns Raw 32-byte public key, or null if no signing identity exists
+ */
+export function retrieveSigningPublicKey(
+  db: Database.Database,
+): Uint8Array | null {
+  try {
+    const row = db
+      .prepare("SELECT signingPublicKey FROM crypto_keys WHERE id = 1")
+      .get() as { signingPublicKey: Buffer | null } | undefined;
+    return row?.signingPublicKey ? new Uint8Array(row.signingPublicKey) : null;
+  } catch (error) {
+    throw new Error(
+      `Failed to retrieve signing key: ${error instanceof Error ? error.message : "Unknown error"}`,
+    );
+  }
+}
+
+/**
+ * Retrieve when the signing identity was created
+ *
+ * @param db - SQLite database instance
+ * @returns ISO timestamp, or null if no signing identity exists
+ */
+export function retrieveSigningCreatedAt(db: Database.Database): string | null {
+  try {
+    const row = db
+      .prepare(
+        "SELECT signingPublicKey, signingCreatedAt FROM crypto_keys WHERE id = 1",
+      )
+      .get() as
+      | { signingPublicKey: Buffer | null; signingCreatedAt: string | null }
+      | undefined;
+    return row?.signingPublicKey ? row.signingCreatedAt : null;
+  } catch (error) {
+    throw new Error(
+      `Failed to retrieve signing key: ${error instanceof Error ? error.message : "Unknown error"}`,
+    );
+  }
+}
+
+/**
+ * Unlock the local signing identity, generating it on first use. A new
+ * identity signs the ledger tombstones and head written before it existed.
+ *
+ * @param db - SQLite database instance (the master salt must already be stored)
+ * @param key - 32-byte evidence key
+ * @returns Signing identity with its decrypted private key
+ * @throws Error if the evidence key cannot open the stored private key
+ */
+export function ensureSigningIdentity(
+  db: Database.Database,
+  key: Uint8Array,
+): SigningIdentity {
+  const row = db
+    .prepare(
+      "SELECT signingPublicKey, signingPrivateKey FROM crypto_keys WHERE id = 1",
+    )
+    .get() as
+    | { signingPublicKey: Buffer | null; signingPrivateKey: string | null }
+    | undefined;
+
+  if (row?.signingPublicKey && row.signingPrivateKey) {
+    const publicKey = new Uint8Array(row.signingPublicKey);
+    return {
+      keyId: getSigningKeyId(publicKey),
+      publicKey,
+      privateKey: new Uint8Array(
+        Buffer.from(openSealedText(row.signingPrivateKey, key), "base64"),
+      ),
+    };
+  }
+
+  const pair = generateSigningKeyPair();
+  const identity = { keyId: getSigningKeyId(pair.publicKey), ...pair };
+  try {
+    db.transaction(() => {
+      storeSigningKey(
+        db,
+        pair.publicKey,
+        sealText(Buffer.from(pair.privateKey).toString("base64"), key),
+      );
+      signEvidenceLedger(db, identity);
+    }).immediate();
+  } catch (error) {
+    if (
+      error instanceof Error &&
+      error.message === "Signing key already exists in database"
+    ) {
+      // Another process generated the identity first
+      return ensureSigningIdentity(db, key);
+    }
+    throw error;
+  }
+  return identity;
+}
+
+/**
+ * Sign an evidence content hash
+ *
+ * @returns Base64 detached signature over the hex content hash
+ */
+export function signContentHash(
+  identity: SigningIdentity,
+  contentHash: string,
+): string {
+  return Buffer.from(signDetached(contentHash, identity.privateKey)).toString(
+    "base64",
+  );
+}
@@ -0,0 +1,334 @@
+import type Database from "better-sqlite3";
+import { randomUUID } from "node:crypto";
+import type {
+  ContextLinkRejectionRecord,
+  ContextRecord,
+  ContextSessionLinkRecord,
+  ContextWorkspacePreferenceRecord,
+  SessionMessageRecord,
+  SessionRecord,
+  TimelineEventRecord,
+} from "./types.js";
+
+/**
+ * Bookkeeping for multi-machine sync.
+ *
+ * `sync_records` keeps the newest version of every replicated record this
+ * database has written to or replayed from a change log, which is what
+ * last-writer-wins compares against. `sync_cursors` keeps positions: the last
+ * sequence number written to or replayed from each machine's log, and how far
+ * each session's messages and events have been logged. Context tables are
+ * read and written verbatim here so replayed rows keep their timestamps.
+ * Session history is read verbatim too, which is only plaintext while session
+ * encryption is off.
+ */
+
+const SYNC_MACHINE_ID_KEY = "sync_machine_id";
+
+export interface SyncRecordVersion {
+  version: string;
+  digest: string;
+}
+
+/**
+ * Return this database's sync machine ID, creating it on first use
+ *
+ * @param db - SQLite database instance
+ * @returns Stable machine ID that names this database's change log
+ */
+export function getSyncMachineId(db: Database.Database): string {
+  const row = db
+    .prepare("SELECT value FROM metadata WHERE key = ?")
+    .get(SYNC_MACHINE_ID_KEY) as { value: string } | undefined;
+  if (row) {
+    return row.value;
+  }
+
+  const machineId = randomUUID();
+  db.prepare("INSERT INTO metadata (key, value) VALUES (?, ?)").run(
+    SYNC_MACHINE_ID_KEY,
+    machineId,
+  );
+  return machineId;
+}
+
+export function getSyncCursor(db: Database.Database, scope: string): number {
+  const row = db
+    .prepare("SELECT position FROM sync_cursors WHERE scope = ?")
+    .get(scope) as { position: number } | undefined;
+  return row?.position ?? 0;
+}
+
+export function setSyncCursor(
+  db: Database.Database,
+  scope: string,
+  position: number,
+): void {
+  db.prepare(
+    `
+      INSERT INTO sync_cursors (scope, position)
+      VALUES (?, ?)
+      ON CONFLICT(scope) DO UPDATE SET position = excluded.position
+    `,
+  ).run(scope, position);
+}
+
+export function getSyncRecord(
+  db: Database.Database,
+  kind: string,
+  key: string,
+): SyncRecordVersion | null {
+  const row = db
+    .prepare(
+      "SELECT version, digest FROM sync_records WHERE kind = ? AND recordKey = ?",
+    )
+    .get(kind, key) as SyncRecordVersion | undefined;
+  return row ?? null;
+}
+
+export function setSyncRecord(
+  db: Database.Database,
+  kind: string,
+  key: string,
+  record: SyncRecordVersion,
+): void {
+  db.prepare(
+    `
+      INSERT INTO sync_records (kind, recordKey, version, digest)
+      VALUES (?, ?, ?, ?)
+      ON CONFLICT(kind, recordKey) DO UPDATE SET
+        version = excluded.version,
+        digest = excluded.digest
+    `,
+  ).run(kind, key, record.version, record.digest);
+}
+
+export function listSyncRecords(
+  db: Database.Database,
+  kind: string,
+  keyPrefix = "",
+): Array<SyncRecordVersion & { key: string }> {
+  return db
+    .prepare(
+      "SELECT recordKey as key, version, digest FROM sync_records WHERE kind = ? AND substr(recordKey, 1, length(?)) = ? ORDER BY recordKey",
+    )
+    .all(kind, keyPrefix, keyPrefix) as Array<
+    SyncRecordVersion & { key: string }
+  >;
+}
+
+export function listSessionRows(
+  db: Database.Database,
+  updatedSince = "",
+): SessionRecord[] {
+  return db
+    .prepare("SELECT * FROM sessions WHERE updatedAt >= ? ORDER BY id")
+    .all(updatedSince) as SessionRecord[];
+}
+
+/**
+ * List the messages past each session's `messages:<sessionId>` cursor
+ */
+export function listUnloggedMessageRows(
+  db: Database.Database,
+): SessionMessageRecord[] {
+  return db
+    .prepare(
+      `
+        SELECT m.*
+        FROM sessions s
+        LEFT JOIN sync_cursors c ON c.scope = 'messages:' || s.id
+        JOIN messages m
+          ON m.sessionId = s.id AND m.seq > COALESCE(c.position, 0)
+        ORDER BY m.sessionId, m.seq
+      `,
+    )
+    .all() as SessionMessageRecord[];
+}
+
+/**
+ * List the timeline events past each session's `events:<sessionId>` cursor,
+ * with the seq of the message each one relates to
+ */
+export function listUnloggedTimelineEventRows(
+  db: Database.Database,
+): Array<TimelineEventRecord & { relatedMessageSeq: number | null }> {
+  return db
+    .prepare(
+      `
+        SELECT e.*, m.seq AS relatedMessageSeq
+        FROM sessions s
+        LEFT JOIN sync_cursors c ON c.scope = 'events:' || s.id
+        JOIN timeline_events e
+          ON e.sessionId = s.id AND e.seq > COALESCE(c.position, 0)
+        LEFT JOIN messages m ON m.id = e.relatedMessageId
+        ORDER BY e.sessionId, e.seq
+      `,
+    )
+    .all() as Array<TimelineEventRecord & { relatedMessageSeq: number | null }>;
+}
+
+export function listContextRows(
+  db: Database.Database,
+  updatedSince = "",
+): ContextRecord[] {
+  return db
+    .prepare("SELECT * FROM contexts WHERE updatedAt >= ? ORDER BY id")
+    .all(updatedSince) as ContextRecord[];
+}
+
+export function listContextLinkRows(
+  db: Database.Database,
+  updatedSince = "",
+): ContextSessionLinkRecord[] {
+  return db
+    .prepare(
+      "SELECT * FROM context_session_links WHERE updatedAt >= ? ORDER BY sessionId",
+    )
+    .all(updatedSince) as ContextSessionLinkRecord[];
+}
+
+export function listContextRejectionRows(
+  db: Database.Database,
+  createdSince = "",
+): ContextLinkRejectionRecord[] {
+  return db
+    .prepare(
+      "SELECT * FROM context_link_rejections WHERE createdAt >= ? ORDER BY sessionId, contextId",
+    )
+    .all(createdSince) as ContextLinkRejectionRecord[];
+}
+
+export function listWorkspacePreferenceRows(
+  db: Database.Database,
+  updatedSince = "",
+): ContextWorkspacePreferenceRecord[] {
+  return db
+    .prepare(
+      "SELECT * FROM context_workspace_preferences WHERE updatedAt >= ? ORDER BY workspaceKey",
+    )
+    .all(updatedSince) as ContextWorkspacePreferenceRecord[];
+}
+
+export function writeContextRow(
+  db: Database.Database,
+  context: ContextRecord,
+): void {
+  db.prepare(
+    `
+      INSERT INTO contexts (
+        id, label, workspaceKey, status, mergedIntoContextId,
+        metadata, createdAt, updatedAt
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT(id) DO UPDATE SET
+        label = excluded.label,
+        workspaceKey = excluded.workspaceKey,
+        status = excluded.status,
+        mergedIntoContextId = excluded.mergedIntoContextId,
+        metadata = excluded.metadata,
+        updatedAt = excluded.updatedAt
+    `,
+  ).run(
+    context.id,
+    context.label,
+    context.workspaceKey,
+    context.status,
+    context.mergedIntoContextId,
+    context.metadata,
+    context.createdAt,
+    context.updatedAt,
+  );
+}
+
+export function writeContextLinkRow(
+  db: Database.Database,
+  link: ContextSessionLinkRecord,
+): void {
+  db.prepare(
+    `
+      INSERT INTO context_session_links (
+        sessionId, contextId, linkSource, createdAt, updatedAt
+      ) VALUES (?, ?, ?, ?, ?)
+      ON CONFLICT(sessionId) DO UPDATE SET
+        contextId = excluded.contextId,
+        linkSource = excluded.linkSource,
+        updatedAt = excluded.updatedAt
+    `,
+  ).run(
+    link.sessionId,
+    link.contextId,
+    link.linkSource,
+    link.createdAt,
+    link.updatedAt,
+  );
+}
+
+export function writeContextRejectionRow(
+  db: Database.Database,
+  rejection: ContextLinkRejectionRecord,
+): void {
+  db.prepare(
+    `
+      INSERT INTO context_link_rejections (sessionId, contextId, createdAt)
+      VALUES (?, ?, ?)
+      ON CONFLICT(sessionId, contextId) DO NOTHING
+    `,
+  ).run(rejection.sessionId, rejection.contextId, rejection.createdAt);
+}
+
+export function deleteContextRejectionRow(
+  db: Database.Database,
+  sessionId: string,
+  contextId: string,
+): void {
+  db.prepare(
+    "DELETE FROM context_link_rejections WHERE sessionId = ? AND contextId = ?",
+  ).run(sessionId, contextId);
+}
+
+export function writeWorkspacePreferenceRow(
+  db: Database.Database,
+  preference: ContextWorkspacePreferenceRecord,
+): void {
+  db.prepare(
+    `
+      INSERT INTO context_workspace_preferences (
+        workspaceKey, contextId, createdAt, updatedAt
+      ) VALUES (?, ?, ?, ?)
+      ON CONFLICT(workspaceKey) DO UPDATE SET
+        contextId = excluded.contextId,
+        updatedAt = excluded.updatedAt
+    `,
+  ).run(
+    preference.workspaceKey,
+    preference.contextId,
+    preference.createdAt,
+    preference.updatedAt,
+  );
+}
+
+/**
+ * Point links and workspace preferences at the context another one was
+ * merged into, as `mergeContexts` does locally
+ */
+export function redirectContextReferences(
+  db: Database.Database,
+  fromContextId: string,
+  toContextId: string,
+  updatedAt: string,
+): void {
+  db.prepare(
+    `
+      UPDATE context_session_links
+      SET contextId = ?, linkSource = 'merge', updatedAt = ?
+      WHERE contextId = ?
+    `,
+  ).run(toContextId, updatedAt, fromContextId);
+  db.prepare(
+    `
+      UPDATE context_workspace_preferences
+      SET contextId = ?, updatedAt = ?
+      WHERE contextId = ?
+    `,
+  ).run(toContextId, updatedAt, fromContextId);
+}
@@ -13,10 +13,52 @@ export interface Evidence {
   gitCommitHash: string | null;
   gitTimestamp: string | null; // ISO 8601 format
   tags: string | null; // JSON array stored as string
+  sessionId: string | null; // Session the evidence was promoted from
+  sessionFromSeq: number | null; // First captured transcript seq
+  sessionToSeq: number | null; // Last captured transcript seq
+  chainSeq: number | null; // Position on the evidence ledger
+  prevHash: string | null; // Entry hash of the previous ledger record
+  entryHash: string | null; // SHA-256 over this record and prevHash
+  signature: string | null; // Base64 Ed25519 signature over contentHash
+  signingKeyId: string | null; // ID of the signing key that produced it
+  timestampToken: Uint8Array | null; // DER RFC 3161 token over contentHash
+  timestampGenTime: string | null; // ISO 8601 time asserted by the TSA
+  timestampAuthority: string | null; // Subject of the TSA signing certificate
+  timestampRequested: boolean; // A TSA stamp was requested when it was stored
   createdAt: string; // ISO 8601 format
   updatedAt: string; // ISO 8601 format
 }
 
+/** Fields set only when evidence is promoted from a recorded session */
+export type EvidenceSessionLinkField =
+  | "sessionId"
+  | "sessionFromSeq"
+  | "sessionToSeq";
+
+/** Fields assigned by the evidence ledger when a row is created */
+export type EvidenceLedgerField = "chainSeq" | "prevHash" | "entryHash";
+
+/** Fields set when evidence is signed at capture time */
+export type EvidenceSignatureField = "signature" | "signingKeyId";
+
+/** Fields set once a timestamp authority has stamped the evidence */
+export type EvidenceTimestampField =
+  | "timestampToken"
+  | "timestampGenTime"
+  | "timestampAuthority";
+
+/**
+ * Evidence waiting for a reachable timestamp authority
+ */
+export interface TimestampQueueEntry {
+  evidenceId: string;
+  contentHash: string;
+  attempts: number;
+  lastError: string | null;
+  queuedAt: string;
+  lastAttemptAt: string | null;
+}
+
 /**
  * Metadata key-value pairs for schema versioning and other system data
  */
@@ -25,7 +67,14 @@ export interface Metadata {
   value: string;
 }
 
-export type SessionHost = "claude" | "gemini" | "codex";
+/** AI hosts with a dedicated launcher, adapter, and log importer */
+export type BuiltInSessionHost = "claude" | "gemini" | "codex";
+
+/**
+ * A built-in host, or the user-supplied label of a generic command recorded
+ * through `footprint run -- <command>` (for example `aider` or `shell`).
+ */
+export type SessionHost = BuiltInSessionHost | (string & {});
 
 export type SessionStatus = "running" | "completed" | "failed" | "interrupted";
 
@@ -75,7 +124,12 @@ export type ArtifactType =
   | "file-change"
   | "command-output"
   | "test-result"
-  | "git-commit";
+  | "git-commit"
+  | "lint-result"
+  | "build-result"
+  | "dependency-change"
+  | "http-request"
+  | "migration";
 
 export interface ArtifactRecord {
   id: string;
@@ -89,6 +143,12 @@ export interface ArtifactRecord {
 
 export type DecisionStatus = "proposed" | "accepted" | "rejected" | "open";
 
+/**
+ * `derived` decisions are rebuilt by ingestion; `explicit` ones were recorded
+ * by an agent and are kept across reingest
+ */
+export type DecisionOrigin = "derived" | "explicit";
+
 export interface DecisionRecord {
   id: string;
   sessionId: string;
@@ -97,6 +157,20 @@ export interface DecisionRecord {
   rationale: string | null;
   status: DecisionStatus;
   sourceRefs: string;
+  origin: DecisionOrigin;
+  /** IDs of earlier decisions this one replaces */
+  supersedes: string[];
+  createdAt: string;
+}
+
+export type SessionNoteKind = "note" | "question";
+
+/** Free-form note or open question an agent attached to its session */
+export interface SessionNoteRecord {
+  id: string;
+  sessionId: string;
+  kind: SessionNoteKind;
+  content: string;
   createdAt: string;
 }
 
@@ -133,6 +207,7 @@ export interface SessionDetail {
   artifacts: ArtifactRecord[];
   narratives: NarrativeRecord[];
   decisions: DecisionRecord[];
+  notes: SessionNoteRecord[];
   ingestionRuns: IngestionRunRecord[];
   hasNarratives: boolean;
 }
@@ -171,6 +246,67 @@ export interface ContextLinkRejectionRecord {
   createdAt: string;
 }
 
+export interface SessionHistorySearchHit {
+  session: SessionRecord;
+  /** BM25 relevance (higher is better); null when history is encrypted */
+  score: number | null;
+  /** Matching excerpts with matched terms wrapped in `**` */
+  snippets: string[];
+}
+
+export interface SessionImportRecord {
+  /** `<host>:<host session id>`, or `<host>:<absolute path>` for logs without one */
+  sourceKey: string;
+  host: SessionHost;
+  sourcePath: string;
+  /** SHA-256 of the log file contents at the last import */
+  fingerprint: string;
+  sessionId: string;
+  /** Number of parsed log entries already written to the session */
+  entryCount: number;
+  importedAt: string;
+  updatedAt: string;
+}
+
+/** One chunk of terminal I/O from a PTY recording */
+export interface SessionRecordingFrame {
+  /** Milliseconds since the recording started */
+  offsetMs: number;
+  /** `i` for keyboard input, `o` for terminal output */
+  direction: "i" | "o";
+  /** Raw terminal text, escape sequences included, after redaction */
+  data: string;
+}
+
+/** Timed PTY transcript kept for terminal replay */
+export interface SessionRecording {
+  sessionId: string;
+  format: "script-bsd" | "util-linux-advanced";
+  /** Wall-clock time of offset 0 */
+  startedAt: string;
+  durationMs: number;
+  /** Terminal size when recording began, if known */
+  columns: number | null;
+  rows: number | null;
+  frames: SessionRecordingFrame[];
+}
+
+/** A write to session history made through an EvidenceDatabase connection */
+export interface SessionHistoryChange {
+  sessionId: string;
+  /** `session` covers title and status updates on the session row */
+  kind: "message" | "timeline" | "session" | "decision" | "note";
+}
+
+/** A session plus the facts retention rules need to decide whether to keep it */
+export interface SessionRetentionCandidate {
+  session: SessionRecord;
+  /** Linked to a context thread through context_session_links */
+  contextLinked: boolean;
+  /** An evidence record names the session in its conversationId or tags */
+  evidenceReferenced: boolean;
+}
+
 export interface ContextWorkspacePreferenceRecord {
   workspaceKey: string;
   contextId: string;
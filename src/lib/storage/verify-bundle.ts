@@ -0,0 +1,554 @@
+/* global Buffer */
+import JSZip from "jszip";
+import { createHash } from "node:crypto";
+import * as z from "zod";
+import {
+  decrypt,
+  getSigningKeyId,
+  rederiveKeySync,
+  signingPublicKeyFromPem,
+  verifyDetached,
+  verifyTimestampToken,
+} from "../crypto/index.js";
+import {
+  EXPORT_MANIFEST_SIGNATURE_PATH,
+  EXPORT_PUBLIC_KEY_PATH,
+  type ExportKeyDerivation,
+} from "./export.js";
+import { getCommitTimestamp } from "./git.js";
+
+/**
+ * Offline verification of evidence bundles written by `exportEvidences`.
+ * Needs nothing but the ZIP: checksums, counts, and signatures are checked
+ * from the bundle itself, and a passphrase holder can decrypt every record
+ * with the key salt the manifest carries.
+ */
+
+const manifestSchema = z.object({
+  version: z.string(),
+  exportDate: z.string(),
+  evidenceCount: z.number().int().nonnegative(),
+  includeGitInfo: z.boolean(),
+  checksumSha256: z.string(),
+  signingKeyId: z.string().nullable().optional(),
+  keyDerivation: z
+    .object({
+      algorithm: z.literal("argon2id"),
+      salt: z.string(),
+      memory: z.number().int().positive(),
+      iterations: z.number().int().positive(),
+      parallelism: z.number().int().positive(),
+      keyLength: z.number().int().positive(),
+    })
+    .nullable()
+    .optional(),
+});
+
+const evidenceMetadataSchema = z.object({
+  id: z.string(),
+  contentHash: z.string(),
+  signature: z.string().optional(),
+  signingKeyId: z.string().nullable().optional(),
+  trustedTimestamp: z
+    .object({
+      token: z.string(),
+      genTime: z.string().nullable(),
+      authority: z.string().nullable(),
+    })
+    .optional(),
+  nonce: z.array(z.number().int().min(0).max(255)),
+});
+
+const gitInfoSchema = z.object({
+  gitCommitHash: z.string(),
+  gitTimestamp: z.string(),
+});
+
+const COMMIT_HASH_PATTERN = /^(?:[0-9a-f]{40}|[0-9a-f]{64})$/;
+
+export type BundleSignatureStatus = "valid" | "invalid" | "unsigned";
+
+export interface BundleVerifyOptions {
+  /** Decrypt and re-hash every record when set */
+  passphrase?: string;
+  /** Bundle key derived from the passphrase beforehand; skips derivation */
+  key?: Uint8Array;
+  /** SHA-256 of the ZIP as reported when it was exported */
+  expectedSha256?: string;
+  /** Repository to look git anchors up in */
+  gitRepo?: string;
+  /** PEM certificates timestamp tokens must chain to */
+  trustedCertificates?: string[];
+}
+
+export interface BundleEvidenceReport {
+  id: string;
+  verified: boolean;
+  contentHash: string | null;
+  signature: BundleSignatureStatus;
+  trustedTimestamp: {
+    present: boolean;
+    passed: boolean;
+    genTime: string | null;
+    authority: string | null;
+    /** Null when no trust anchors were supplied */
+    trusted: boolean | null;
+  };
+  gitAnchor: {
+    present: boolean;
+    passed: boolean;
+    commitHash: string | null;
+    timestamp: string | null;
+    /** Null unless a repository was supplied */
+    foundInRepository: boolean | null;
+  };
+  /** Null when no passphrase was supplied */
+  decrypted: boolean | null;
+  /** Null when the record was not decrypted */
+  contentHashMatches: boolean | null;
+  errors: string[];
+}
+
+export interface BundleVerificationReport {
+  verified: boolean;
+  verifiedAt: string;
+  bundle: {
+    sha256: string;
+    expectedSha256: string | null;
+    /** Null when no expected checksum was supplied */
+    checksumMatches: boolean | null;
+  };
+  manifest: {
+    present: boolean;
+    version: string | null;
+    exportDate: string | null;
+    evidenceCount: number | null;
+    actualEvidenceCount: number;
+    countMatches: boolean;
+    checksumMatches: boolean;
+    signingKeyId: string | null;
+    signature: BundleSignatureStatus;
+  };
+  files: {
+    checked: number;
+    mismatched: string[];
+    missing: string[];
+    unlisted: string[];
+  };
+  decryption: "performed" | "skipped" | "unavailable";
+  evidences: BundleEvidenceReport[];
+  errors: string[];
+}
+
+function sha256(data: Uint8Array | string): string {
+  return createHash("sha256").update(data).digest("hex");
+}
+
+function describeError(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+async function readText(zip: JSZip, name: string): Promise<string | null> {
+  const file = zip.file(name);
+  return file ? file.async("text") : null;
+}
+
+/**
+ * Read the `<sha256>  <path>` lines of a bundle's checksum.txt
+ *
+ * @param content - checksum.txt contents, or null if the file is missing
+ * @returns Expected SHA-256 by file path
+ */
+export function parseChecksumList(content: string | null): Map<string, string> {
+  const entries = new Map<string, string>();
+  for (const line of (content ?? "").split("\n")) {
+    const match = /^([0-9a-f]{64}) {2}(.+)$/.exec(line);
+    if (match) {
+      entries.set(match[2]!, match[1]!);
+    }
+  }
+  return entries;
+}
+
+/**
+ * Compare every file listed in checksum.txt with its contents, and flag files
+ * under `prefix` that the list leaves out
+ *
+ * @param zip - Loaded bundle
+ * @param listed - Parsed checksum.txt
+ * @param prefix - Folder whose files must all be listed
+ */
+export async function checkBundleFiles(
+  zip: JSZip,
+  listed: Map<string, string>,
+  prefix: string,
+): Promise<BundleVerificationReport["files"]> {
+  const files = {
+    checked: 0,
+    mismatched: [] as string[],
+    missing: [] as string[],
+    unlisted: [] as string[],
+  };
+  for (const [name, expected] of listed) {
+    const file = zip.file(name);
+    if (!file) {
+      files.missing.push(name);
+      continue;
+    }
+    files.checked += 1;
+    if (sha256(await file.async("uint8array")) !== expected) {
+      files.mismatched.push(name);
+    }
+  }
+  zip.forEach((name, entry) => {
+    if (!entry.dir && name.startsWith(prefix) && !listed.has(name)) {
+      files.unlisted.push(name);
+    }
+  });
+  return files;
+}
+
+/**
+ * Derive the key an evidence bundle was encrypted with
+ *
+ * @param keyDerivation - `keyDerivation` block from the bundle manifest
+ * @param passphrase - Passphrase of the exporting database
+ * @returns 32-byte evidence key
+ */
+export function deriveBundleKey(
+  keyDerivation: ExportKeyDerivation,
+  passphrase: string,
+): Uint8Array {
+  const { salt, memory, iterations, parallelism, keyLength } = keyDerivation;
+  return rederiveKeySync(
+    passphrase,
+    new Uint8Array(Buffer.from(salt, "base64")),
+    { memory, iterations, parallelism, keyLength },
+  ).key;
+}
+
+function checkSignature(
+  data: string,
+  signature: string | undefined,
+  publicKey: Uint8Array | null,
+): BundleSignatureStatus {
+  if (!signature) {
+    return "unsigned";
+  }
+  return publicKey &&
+    verifyDetached(
+      data,
+      new Uint8Array(Buffer.from(signature.trim(), "base64")),
+      publicKey,
+    )
+    ? "valid"
+    : "invalid";
+}
+
+/**
+ * Verify an evidence export bundle without access to the database
+ *
+ * @param zipData - Bundle produced by `exportEvidences`
+ * @param options - Optional passphrase, expected ZIP checksum, git repository,
+ *   and timestamp trust anchors
+ * @returns Machine-readable verification report
+ * @throws Error if the data is not a readable ZIP archive
+ */
+export async function verifyEvidenceBundle(
+  zipData: Uint8Array,
+  options: BundleVerifyOptions = {},
+): Promise<BundleVerificationReport> {
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(zipData);
+  } catch (error) {
+    throw new Error(`Failed to read evidence bundle: ${describeError(error)}`);
+  }
+
+  const errors: string[] = [];
+  const bundleSha256 = sha256(zipData);
+  const expectedSha256 = options.expectedSha256?.toLowerCase() ?? null;
+
+  // Manifest and its signature
+  const manifestJson = await readText(zip, "manifest.json");
+  let manifest: z.output<typeof manifestSchema> | null = null;
+  if (manifestJson === null) {
+    errors.push("manifest.json is missing");
+  } else {
+    try {
+      manifest = manifestSchema.parse(JSON.parse(manifestJson));
+    } catch (error) {
+      errors.push(`manifest.json is invalid: ${describeError(error)}`);
+    }
+  }
+
+  let publicKey: Uint8Array | null = null;
+  const publicKeyPem = await readText(zip, EXPORT_PUBLIC_KEY_PATH);
+  if (publicKeyPem !== null) {
+    try {
+      publicKey = signingPublicKeyFromPem(publicKeyPem);
+    } catch (error) {
+      errors.push(
+        `${EXPORT_PUBLIC_KEY_PATH} is invalid: ${describeError(error)}`,
+      );
+    }
+  }
+  const signingKeyId = publicKey ? getSigningKeyId(publicKey) : null;
+  if (manifest?.signingKeyId && manifest.signingKeyId !== signingKeyId) {
+    errors.push(
+      `Manifest names signing key ${manifest.signingKeyId} but the bundle ships ${signingKeyId ?? "no public key"}`,
+    );
+  }
+  const manifestSignature =
+    manifestJson === null
+      ? "unsigned"
+      : checkSignature(
+          manifestJson,
+          (await readText(zip, EXPORT_MANIFEST_SIGNATURE_PATH)) ?? undefined,
+          publicKey,
+        );
+  if (manifestSignature === "invalid") {
+    errors.push("Manifest signature does not verify");
+  }
+
+  // checksum.txt lists every evidence file; the manifest pins checksum.txt
+  const checksumContent = await readText(zip, "checksum.txt");
+  const listed = parseChecksumList(checksumContent);
+  if (checksumContent === null) {
+    errors.push("checksum.txt is missing");
+  }
+  const manifestChecksumMatches =
+    checksumContent !== null &&
+    manifest !== null &&
+    sha256(checksumContent) === manifest.checksumSha256;
+  if (checksumContent !== null && manifest && !manifestChecksumMatches) {
+    errors.push("checksum.txt does not match the manifest");
+  }
+
+  const files = await checkBundleFiles(zip, listed, "evidences/");
+  const evidenceFolders = new Set<string>();
+  zip.forEach((name, entry) => {
+    if (!entry.dir && name.startsWith("evidences/")) {
+      evidenceFolders.add(name.split("/")[1]!);
+    }
+  });
+  if (files.mismatched.length > 0) {
+    errors.push(`Checksum mismatch: ${files.mismatched.join(", ")}`);
+  }
+  if (files.missing.length > 0) {
+    errors.push(`Listed files missing: ${files.missing.join(", ")}`);
+  }
+  if (files.unlisted.length > 0) {
+    errors.push(
+      `Files not listed in checksum.txt: ${files.unlisted.join(", ")}`,
+    );
+  }
+
+  const countMatches =
+    manifest !== null && manifest.evidenceCount === evidenceFolders.size;
+  if (manifest && !countMatches) {
+    errors.push(
+      `Manifest lists ${manifest.evidenceCount} evidences but the bundle holds ${evidenceFolders.size}`,
+    );
+  }
+
+  // One key for the whole bundle, derived only when asked to decrypt
+  let key: Uint8Array | null = options.key ?? null;
+  let decryption: BundleVerificationReport["decryption"] = key
+    ? "performed"
+    : "skipped";
+  if (!key && options.passphrase) {
+    if (manifest?.keyDerivation) {
+      key = deriveBundleKey(manifest.keyDerivation, options.passphrase);
+      decryption = "performed";
+    } else {
+      decryption = "unavailable";
+      errors.push(
+        "Bundle carries no key derivation salt; re-export it to decrypt offline",
+      );
+    }
+  }
+
+  const evidences: BundleEvidenceReport[] = [];
+  for (const folder of [...evidenceFolders].sort()) {
+    evidences.push(
+      await verifyBundleEvidence(zip, folder, {
+        publicKey,
+        signingKeyId,
+        key,
+        gitRepo: options.gitRepo,
+        trustedCertificates: options.trustedCertificates,
+      }),
+    );
+  }
+
+  const checksumMatches =
+    expectedSha256 === null ? null : expectedSha256 === bundleSha256;
+  if (checksumMatches === false) {
+    errors.push("Bundle SHA-256 does not match the expected checksum");
+  }
+
+  return {
+    verified:
+      errors.length === 0 && evidences.every((evidence) => evidence.verified),
+    verifiedAt: new Date().toISOString(),
+    bundle: { sha256: bundleSha256, expectedSha256, checksumMatches },
+    manifest: {
+      present: manifest !== null,
+      version: manifest?.version ?? null,
+      exportDate: manifest?.exportDate ?? null,
+      evidenceCount: manifest?.evidenceCount ?? null,
+      actualEvidenceCount: evidenceFolders.size,
+      countMatches,
+      checksumMatches: manifestChecksumMatches,
+      signingKeyId,
+      signature: manifestSignature,
+    },
+    files,
+    decryption,
+    evidences,
+    errors,
+  };
+}
+
+async function verifyBundleEvidence(
+  zip: JSZip,
+  folder: string,
+  context: {
+    publicKey: Uint8Array | null;
+    signingKeyId: string | null;
+    key: Uint8Array | null;
+    gitRepo?: string;
+    trustedCertificates?: string[];
+  },
+): Promise<BundleEvidenceReport> {
+  const base = `evidences/${folder}`;
+  const errors: string[] = [];
+  const report: BundleEvidenceReport = {
+    id: folder,
+    verified: false,
+    contentHash: null,
+    signature: "unsigned",
+    trustedTimestamp: {
+      present: false,
+      passed: false,
+      genTime: null,
+      authority: null,
+      trusted: null,
+    },
+    gitAnchor: {
+      present: false,
+      passed: false,
+      commitHash: null,
+      timestamp: null,
+      foundInRepository: null,
+    },
+    decrypted: null,
+    contentHashMatches: null,
+    errors,
+  };
+
+  let metadata: z.output<typeof evidenceMetadataSchema>;
+  try {
+    metadata = evidenceMetadataSchema.parse(
+      JSON.parse((await readText(zip, `${base}/metadata.json`)) ?? "null"),
+    );
+  } catch (error) {
+    errors.push(`metadata.json is missing or invalid: ${describeError(error)}`);
+    return report;
+  }
+  report.contentHash = metadata.contentHash;
+  if (metadata.id !== folder) {
+    errors.push(`metadata.json names evidence ${metadata.id}`);
+  }
+
+  report.signature = checkSignature(
+    metadata.contentHash,
+    metadata.signature,
+    metadata.signingKeyId === context.signingKeyId ? context.publicKey : null,
+  );
+  if (report.signature === "invalid") {
+    errors.push("Signature over the content hash does not verify");
+  }
+
+  if (metadata.trustedTimestamp) {
+    report.trustedTimestamp.present = true;
+    try {
+      const info = verifyTimestampToken(
+        new Uint8Array(Buffer.from(metadata.trustedTimestamp.token, "base64")),
+        metadata.contentHash,
+        { trustedCertificates: context.trustedCertificates },
+      );
+      report.trustedTimestamp = {
+        present: true,
+        passed: true,
+        genTime: info.genTime,
+        authority: info.authority,
+        trusted: info.trusted,
+      };
+    } catch (error) {
+      errors.push(`Trusted timestamp: ${describeError(error)}`);
+    }
+  }
+
+  const gitInfoJson = await readText(zip, `${base}/git-info.json`);
+  if (gitInfoJson !== null) {
+    report.gitAnchor.present = true;
+    try {
+      const gitInfo = gitInfoSchema.parse(JSON.parse(gitInfoJson));
+      report.gitAnchor.commitHash = gitInfo.gitCommitHash;
+      report.gitAnchor.timestamp = gitInfo.gitTimestamp;
+      const wellFormed =
+        COMMIT_HASH_PATTERN.test(gitInfo.gitCommitHash) &&
+        !Number.isNaN(Date.parse(gitInfo.gitTimestamp));
+      if (!wellFormed) {
+        errors.push("Git anchor is malformed");
+      }
+      if (context.gitRepo) {
+        const committedAt = await getCommitTimestamp(
+          context.gitRepo,
+          gitInfo.gitCommitHash,
+        );
+        report.gitAnchor.foundInRepository =
+          committedAt !== null &&
+          Date.parse(committedAt) === Date.parse(gitInfo.gitTimestamp);
+        if (!report.gitAnchor.foundInRepository) {
+          errors.push(
+            committedAt === null
+              ? `Git commit ${gitInfo.gitCommitHash} is not in the repository`
+              : `Git commit ${gitInfo.gitCommitHash} was committed at ${committedAt}, not ${gitInfo.gitTimestamp}`,
+          );
+        }
+      }
+      report.gitAnchor.passed =
+        wellFormed && report.gitAnchor.foundInRepository !== false;
+    } catch (error) {
+      errors.push(`git-info.json is invalid: ${describeError(error)}`);
+    }
+  }
+
+  if (context.key) {
+    const encrypted = zip.file(`${base}/encrypted-data`);
+    try {
+      if (!encrypted) {
+        throw new Error("encrypted-data is missing");
+      }
+      const content = decrypt(
+        await encrypted.async("uint8array"),
+        new Uint8Array(metadata.nonce),
+        context.key,
+      );
+      report.decrypted = true;
+      report.contentHashMatches = sha256(content) === metadata.contentHash;
+      if (!report.contentHashMatches) {
+        errors.push("Decrypted content does not match the content hash");
+      }
+    } catch (error) {
+      report.decrypted = false;
+      errors.push(`Decryption failed: ${describeError(error)}`);
+    }
+  }
+
+  report.verified = errors.length === 0;
+  return report;
+}
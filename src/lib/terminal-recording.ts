@@ -0,0 +1,120 @@
+import type { SessionRecording, TimelineEventRecord } from "./storage/index.js";
+
+/** A timeline event placed on a terminal recording's clock */
+export interface RecordingMarker {
+  offsetMs: number;
+  seq: number;
+  eventType: string;
+  summary: string | null;
+  /** True for command events that failed */
+  failed: boolean;
+}
+
+function isFailedCommandEvent(event: TimelineEventRecord): boolean {
+  if (!event.eventType.startsWith("command.")) {
+    return false;
+  }
+
+  try {
+    const payload = event.payload
+      ? (JSON.parse(event.payload) as Record<string, unknown>)
+      : null;
+    if (typeof payload?.exitCode === "number") {
+      return payload.exitCode !== 0;
+    }
+  } catch {
+    // Fall back to the event status below.
+  }
+
+  return /^(?:failed|error)$/i.test(event.status ?? "");
+}
+
+/**
+ * Place timeline events on the recording's clock. Transcript message events
+ * are skipped because their text is already on screen. Events from before or
+ * after the recorded span are pinned to its start or end.
+ */
+export function buildRecordingMarkers(
+  recording: Pick<SessionRecording, "startedAt" | "durationMs">,
+  timeline: TimelineEventRecord[],
+): RecordingMarker[] {
+  const origin = Date.parse(recording.startedAt);
+  return timeline
+    .filter((event) => !event.eventType.startsWith("message."))
+    .map((event) => ({
+      offsetMs: Math.min(
+        recording.durationMs,
+        Math.max(0, Date.parse(event.startedAt) - origin || 0),
+      ),
+      seq: event.seq,
+      eventType: event.eventType,
+      summary: event.summary,
+      failed: isFailedCommandEvent(event),
+    }))
+    .sort(
+      (left, right) => left.offsetMs - right.offsetMs || left.seq - right.seq,
+    );
+}
+
+function toCastSeconds(offsetMs: number): number {
+  return Math.round(offsetMs) / 1000;
+}
+
+/**
+ * Render a recording as an asciinema v2 cast. Output and input frames become
+ * `o` and `i` events, and timeline events become `m` markers placed before
+ * the output recorded at the same instant.
+ *
+ * @param options.title - Cast title shown by players
+ * @returns Newline-delimited cast file contents
+ */
+export function buildAsciinemaCast(
+  recording: SessionRecording,
+  timeline: TimelineEventRecord[],
+  options?: { title?: string | null },
+): string {
+  const header = {
+    version: 2,
+    width: recording.columns ?? 80,
+    height: recording.rows ?? 24,
+    timestamp: Math.floor(Date.parse(recording.startedAt) / 1000),
+    duration: toCastSeconds(recording.durationMs),
+    ...(options?.title ? { title: options.title } : {}),
+  };
+  const markers = buildRecordingMarkers(recording, timeline);
+  const lines = [JSON.stringify(header)];
+  let markerIndex = 0;
+
+  const flushMarkers = (untilMs: number) => {
+    while (
+      markerIndex < markers.length &&
+      (markers[markerIndex]?.offsetMs ?? 0) <= untilMs
+    ) {
+      const marker = markers[markerIndex]!;
+      lines.push(
+        JSON.stringify([
+          toCastSeconds(marker.offsetMs),
+          "m",
+          marker.summary
+            ? `${marker.eventType}: ${marker.summary}`
+            : marker.eventType,
+        ]),
+      );
+      markerIndex += 1;
+    }
+  };
+
+  for (const frame of recording.frames) {
+    flushMarkers(frame.offsetMs);
+    lines.push(
+      JSON.stringify([
+        toCastSeconds(frame.offsetMs),
+        frame.direction,
+        frame.data,
+      ]),
+    );
+  }
+  flushMarkers(Number.POSITIVE_INFINITY);
+
+  return `${lines.join("\n")}\n`;
+}
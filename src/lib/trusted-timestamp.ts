@@ -0,0 +1,366 @@
+/* global process, fetch, AbortSignal */
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { randomBytes } from "node:crypto";
+import * as z from "zod";
+import {
+  createTimestampRequest,
+  parseTimestampResponse,
+  verifyTimestampToken,
+  type TimestampTokenInfo,
+} from "./crypto/index.js";
+import type { Evidence, EvidenceDatabase } from "./storage/index.js";
+
+/**
+ * RFC 3161 trusted timestamps for evidence.
+ *
+ * When a timestamp authority (TSA) is configured, every captured evidence
+ * has its contentHash stamped right after it is written. If the TSA cannot
+ * be reached the evidence is queued and stamped by a later flush, so capture
+ * never fails because the network is down.
+ */
+
+export const TIMESTAMP_CONFIG_FILE = "timestamp.json";
+
+const PEM_CERTIFICATE_PATTERN =
+  /-----BEGIN CERTIFICATE-----[\s\S]+?-----END CERTIFICATE-----/g;
+
+export const timestampConfigSchema = z.object({
+  /** TSA endpoint; null disables timestamping */
+  url: z.url().nullable().default(null),
+  timeoutMs: z.number().int().positive().default(10_000),
+  /**
+   * Certificates (PEM text, or paths to PEM files relative to the config
+   * file) the TSA signer must chain to. When empty, tokens are only checked
+   * for internal validity and reported as unverified.
+   */
+  trustedCertificates: z.array(z.string().min(1)).default([]),
+});
+
+export type TimestampConfig = z.output<typeof timestampConfigSchema>;
+export type TimestampConfigInput = z.input<typeof timestampConfigSchema>;
+
+export type TimestampStatus = "stamped" | "queued" | "disabled";
+
+export interface TimestampFlushEntry {
+  evidenceId: string;
+  status: "stamped" | "failed";
+  genTime: string | null;
+  error: string | null;
+}
+
+export interface TimestampFlushReport {
+  attempted: number;
+  stamped: number;
+  failed: number;
+  remaining: number;
+  entries: TimestampFlushEntry[];
+}
+
+export interface EvidenceTimestampCheck {
+  present: boolean;
+  /** True only for a valid token from a trusted TSA */
+  passed: boolean;
+  /** A stamp was requested when the evidence was stored */
+  requested: boolean;
+  genTime: string | null;
+  authority: string | null;
+  /** Null when no trust anchors are configured */
+  trusted: boolean | null;
+  queued: boolean;
+  error: string | null;
+}
+
+/**
+ * Parse a timestamp config, applying defaults for anything left out
+ *
+ * @param input - Raw config object (for example the parsed timestamp.json)
+ * @returns Normalized timestamp config
+ * @throws Error if the config is malformed
+ */
+export function parseTimestampConfig(input: unknown): TimestampConfig {
+  const result = timestampConfigSchema.safeParse(input ?? {});
+  if (!result.success) {
+    throw new Error(
+      `Invalid timestamp config: ${result.error.issues
+        .map((issue) => `${issue.path.join(".") || "<root>"}: ${issue.message}`)
+        .join("; ")}`,
+    );
+  }
+
+  return result.data;
+}
+
+/**
+ * Resolve where the timestamp config lives for a database.
+ * FOOTPRINT_TIMESTAMP_CONFIG wins; otherwise timestamp.json sits next to the
+ * database file.
+ */
+export function resolveTimestampConfigPath(
+  dbPath: string,
+  env: NodeJS.ProcessEnv = process.env,
+): string {
+  return (
+    env.FOOTPRINT_TIMESTAMP_CONFIG ||
+    path.join(path.dirname(path.resolve(dbPath)), TIMESTAMP_CONFIG_FILE)
+  );
+}
+
+/**
+ * Load a timestamp config file. A missing file yields the default config,
+ * which leaves timestamping off. Certificate paths are read into PEM text.
+ *
+ * @param filePath - Path to a JSON timestamp config
+ * @returns Normalized timestamp config
+ * @throws Error if the file is not valid JSON, fails validation, or names a
+ *   certificate file that cannot be read
+ */
+export function loadTimestampConfig(filePath: string): TimestampConfig {
+  let raw: string;
+  try {
+    raw = fs.readFileSync(filePath, "utf8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return parseTimestampConfig({});
+    }
+    throw error;
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch (error) {
+    throw new Error(
+      `Invalid timestamp config at ${filePath}: ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+
+  let config: TimestampConfig;
+  try {
+    config = parseTimestampConfig(parsed);
+  } catch (error) {
+    throw new Error(
+      `${error instanceof Error ? error.message : String(error)} (${filePath})`,
+    );
+  }
+
+  return {
+    ...config,
+    trustedCertificates: config.trustedCertificates.flatMap((entry) => {
+      const pem = entry.includes("-----BEGIN")
+        ? entry
+        : fs.readFileSync(path.resolve(path.dirname(filePath), entry), "utf8");
+      return pem.match(PEM_CERTIFICATE_PATTERN) ?? [];
+    }),
+  };
+}
+
+/**
+ * Ask the configured TSA to stamp a content hash
+ *
+ * @param contentHash - Hex SHA-256 evidence content hash
+ * @param config - Timestamp config with a TSA url
+ * @returns DER token and its validated details
+ * @throws Error if the TSA is unreachable, refuses, or returns an invalid token
+ */
+export async function requestTimestamp(
+  contentHash: string,
+  config: TimestampConfig,
+): Promise<{ token: Uint8Array; info: TimestampTokenInfo }> {
+  if (!config.url) {
+    throw new Error("No timestamp authority configured");
+  }
+
+  const nonce = BigInt(`0x${randomBytes(8).toString("hex")}`);
+  const response = await fetch(config.url, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/timestamp-query",
+      Accept: "application/timestamp-reply",
+    },
+    body: createTimestampRequest(contentHash, nonce),
+    signal: AbortSignal.timeout(config.timeoutMs),
+  });
+  if (!response.ok) {
+    throw new Error(
+      `Timestamp authority returned HTTP ${response.status} ${response.statusText}`.trim(),
+    );
+  }
+
+  const parsed = parseTimestampResponse(
+    new Uint8Array(await response.arrayBuffer()),
+  );
+  if (!parsed.token) {
+    throw new Error(
+      `Timestamp authority rejected the request (status ${parsed.status}${parsed.statusText ? `: ${parsed.statusText}` : ""})`,
+    );
+  }
+
+  return {
+    token: parsed.token,
+    info: verifyTimestampToken(parsed.token, contentHash, {
+      nonce,
+      trustedCertificates: config.trustedCertificates,
+    }),
+  };
+}
+
+function describeError(error: unknown): string {
+  if (error instanceof Error) {
+    const cause =
+      error.cause instanceof Error ? `: ${error.cause.message}` : "";
+    return `${error.message}${cause}`;
+  }
+  return String(error);
+}
+
+/**
+ * Stamp newly captured evidence, queueing it when the TSA cannot be reached
+ *
+ * @returns "disabled" without a TSA, "queued" when stamping failed
+ */
+export async function stampEvidence(
+  db: EvidenceDatabase,
+  evidence: Pick<Evidence, "id" | "contentHash">,
+  config: TimestampConfig,
+): Promise<TimestampStatus> {
+  if (!config.url) {
+    return "disabled";
+  }
+
+  try {
+    const { token, info } = await requestTimestamp(
+      evidence.contentHash,
+      config,
+    );
+    db.setTimestampToken(evidence.id, token, info.genTime, info.authority);
+    return "stamped";
+  } catch (error) {
+    db.queueTimestamp(evidence.id, describeError(error));
+    return "queued";
+  }
+}
+
+/**
+ * Retry queued evidence against the configured TSA, oldest first
+ *
+ * @param options.limit - Maximum queue entries to attempt
+ * @returns What was stamped and what is still queued
+ * @throws Error if no TSA is configured
+ */
+export async function flushTimestampQueue(
+  db: EvidenceDatabase,
+  config: TimestampConfig,
+  options: { limit?: number } = {},
+): Promise<TimestampFlushReport> {
+  if (!config.url) {
+    throw new Error(
+      `No timestamp authority configured. Set "url" in ${TIMESTAMP_CONFIG_FILE}`,
+    );
+  }
+
+  const entries: TimestampFlushEntry[] = [];
+  for (const queued of db.listTimestampQueue(options.limit)) {
+    try {
+      const { token, info } = await requestTimestamp(
+        queued.contentHash,
+        config,
+      );
+      db.setTimestampToken(
+        queued.evidenceId,
+        token,
+        info.genTime,
+        info.authority,
+      );
+      entries.push({
+        evidenceId: queued.evidenceId,
+        status: "stamped",
+        genTime: info.genTime,
+        error: null,
+      });
+    } catch (error) {
+      const message = describeError(error);
+      db.queueTimestamp(queued.evidenceId, message);
+      entries.push({
+        evidenceId: queued.evidenceId,
+        status: "failed",
+        genTime: null,
+        error: message,
+      });
+    }
+  }
+
+  const stamped = entries.filter((entry) => entry.status === "stamped").length;
+  return {
+    attempted: entries.length,
+    stamped,
+    failed: entries.length - stamped,
+    remaining: db.listTimestampQueue().length,
+    entries,
+  };
+}
+
+/**
+ * Validate the timestamp token stored with an evidence record. A missing
+ * token is an error when a stamp was requested and is no longer queued.
+ *
+ * @param evidence - Evidence with its stored token (if any)
+ * @param config - Timestamp config supplying trust anchors
+ * @param queued - Whether the evidence is still waiting for a token
+ */
+export function checkEvidenceTimestamp(
+  evidence: Pick<
+    Evidence,
+    "contentHash" | "timestampToken" | "timestampRequested"
+  >,
+  config: TimestampConfig,
+  queued = false,
+): EvidenceTimestampCheck {
+  const requested = evidence.timestampRequested;
+  if (!evidence.timestampToken) {
+    return {
+      present: false,
+      passed: false,
+      requested,
+      genTime: null,
+      authority: null,
+      trusted: null,
+      queued,
+      error:
+        requested && !queued
+          ? "Timestamp token is missing, but a stamp was requested when the evidence was stored"
+          : null,
+    };
+  }
+
+  try {
+    const info = verifyTimestampToken(
+      evidence.timestampToken,
+      evidence.contentHash,
+      { trustedCertificates: config.trustedCertificates },
+    );
+    // Without trust anchors any self-signed certificate with the
+    // timeStamping EKU verifies, so the token stays unverified
+    return {
+      present: true,
+      passed: info.trusted === true,
+      requested,
+      genTime: info.genTime,
+      authority: info.authority,
+      trusted: info.trusted,
+      queued: false,
+      error: null,
+    };
+  } catch (error) {
+    return {
+      present: true,
+      passed: false,
+      requested,
+      genTime: null,
+      authority: null,
+      trusted: null,
+      queued: false,
+      error: describeError(error),
+    };
+  }
+}
@@ -0,0 +1,309 @@
+import {
+  ResourceTemplate,
+  type McpServer,
+} from "@modelcontextprotocol/sdk/server/mcp.js";
+import {
+  UriTemplate,
+  type Variables,
+} from "@modelcontextprotocol/sdk/shared/uriTemplate.js";
+import * as z from "zod";
+import { getContextReport, listContexts } from "../lib/context-memory.js";
+import { buildHistoryHandoffReport } from "../lib/history-handoff.js";
+import { getSessionLabel } from "../lib/session-history.js";
+import {
+  buildSessionSummary,
+  buildTranscriptMarkdown,
+  type EvidenceDatabase,
+  type SessionDetail,
+  type SessionRecord,
+} from "../lib/storage/index.js";
+import { getErrorMessage } from "../lib/tool-wrapper.js";
+import { getHistoryHandoffSchema } from "../tools/get-history-handoff.js";
+
+/** Most recent sessions or contexts returned by each resources/list callback */
+export const RESOURCE_LIST_LIMIT = 50;
+
+const HANDOFF_PARAMS = [
+  "query",
+  "issueKey",
+  "host",
+  "status",
+  "groupBy",
+] as const;
+
+const handoffQuerySchema = z.object(getHistoryHandoffSchema.inputSchema);
+
+/** A read-only history resource a client can read or subscribe to */
+export type HistoryResourceTarget =
+  | { kind: "session"; sessionId: string }
+  | { kind: "transcript"; sessionId: string }
+  | { kind: "context-briefing"; contextId: string }
+  | { kind: "handoff" };
+
+/**
+ * `history://handoff` with every filter optional and in any order. The SDK's
+ * RFC 6570 matcher requires all query variables, in template order.
+ */
+class HandoffUriTemplate extends UriTemplate {
+  constructor() {
+    super(`history://handoff{?${HANDOFF_PARAMS.join(",")}}`);
+  }
+
+  override match(uri: string): Variables | null {
+    let url: URL;
+    try {
+      url = new URL(uri);
+    } catch {
+      return null;
+    }
+    if (
+      url.protocol !== "history:" ||
+      url.host !== "handoff" ||
+      (url.pathname !== "" && url.pathname !== "/")
+    ) {
+      return null;
+    }
+
+    const variables: Variables = {};
+    for (const name of HANDOFF_PARAMS) {
+      const value = url.searchParams.get(name);
+      if (value) {
+        variables[name] = value;
+      }
+    }
+    return variables;
+  }
+}
+
+const sessionTemplate = new UriTemplate("session://{id}");
+const transcriptTemplate = new UriTemplate("session://{id}/transcript");
+const contextBriefingTemplate = new UriTemplate("context://{id}/briefing");
+const handoffTemplate = new HandoffUriTemplate();
+
+function readVariable(variables: Variables, name: string): string {
+  const value = variables[name];
+  return (Array.isArray(value) ? value[0] : value)?.trim() ?? "";
+}
+
+/**
+ * Identify which history resource a URI points at
+ *
+ * @returns Null for URIs outside the session, context, and history schemes
+ */
+export function parseHistoryResourceUri(
+  uri: string,
+): HistoryResourceTarget | null {
+  const transcript = transcriptTemplate.match(uri);
+  if (transcript) {
+    return {
+      kind: "transcript",
+      sessionId: readVariable(transcript, "id"),
+    };
+  }
+
+  const session = sessionTemplate.match(uri);
+  if (session) {
+    return { kind: "session", sessionId: readVariable(session, "id") };
+  }
+
+  const briefing = contextBriefingTemplate.match(uri);
+  if (briefing) {
+    return {
+      kind: "context-briefing",
+      contextId: readVariable(briefing, "id"),
+    };
+  }
+
+  return handoffTemplate.match(uri) ? { kind: "handoff" } : null;
+}
+
+function requireSessionDetail(
+  db: EvidenceDatabase,
+  variables: Variables,
+): SessionDetail {
+  const id = readVariable(variables, "id");
+  const detail = id ? db.getSessionDetail(id) : null;
+  if (!detail) {
+    throw new Error(`Session not found: ${id}`);
+  }
+  return detail;
+}
+
+function listRecentSessions(
+  db: EvidenceDatabase,
+  toResource: (session: SessionRecord) => {
+    uri: string;
+    name: string;
+    description: string;
+  },
+) {
+  return {
+    resources: db.listSessions({ limit: RESOURCE_LIST_LIMIT }).map(toResource),
+  };
+}
+
+/**
+ * Register read-only resources for recorded sessions, context briefings, and
+ * history handoffs so agents can read them without calling tools
+ */
+export function registerHistoryResources(
+  server: McpServer,
+  db: EvidenceDatabase,
+): void {
+  server.registerResource(
+    "session",
+    new ResourceTemplate(sessionTemplate, {
+      list: () =>
+        listRecentSessions(db, (session) => ({
+          uri: `session://${session.id}`,
+          name: getSessionLabel(session),
+          description: `${session.host} session, ${session.status}, started ${session.startedAt}`,
+        })),
+    }),
+    {
+      title: "Session Summary",
+      description:
+        "Recorded session metadata with transcript, timeline, and artifact rollups",
+      mimeType: "application/json",
+    },
+    async (uri, variables) => {
+      try {
+        const detail = requireSessionDetail(db, variables);
+        return {
+          contents: [
+            {
+              uri: uri.href,
+              mimeType: "application/json",
+              text: JSON.stringify(buildSessionSummary(detail), null, 2),
+            },
+          ],
+        };
+      } catch (error) {
+        throw new Error(
+          `Failed to access session resource: ${getErrorMessage(error)}`,
+        );
+      }
+    },
+  );
+
+  server.registerResource(
+    "session-transcript",
+    new ResourceTemplate(transcriptTemplate, {
+      list: () =>
+        listRecentSessions(db, (session) => ({
+          uri: `session://${session.id}/transcript`,
+          name: `${getSessionLabel(session)} transcript`,
+          description: `Transcript of the ${session.host} session started ${session.startedAt}`,
+        })),
+    }),
+    {
+      title: "Session Transcript",
+      description: "Full captured transcript of a recorded session",
+      mimeType: "text/markdown",
+    },
+    async (uri, variables) => {
+      try {
+        const detail = requireSessionDetail(db, variables);
+        return {
+          contents: [
+            {
+              uri: uri.href,
+              mimeType: "text/markdown",
+              text: buildTranscriptMarkdown(detail),
+            },
+          ],
+        };
+      } catch (error) {
+        throw new Error(
+          `Failed to access session transcript resource: ${getErrorMessage(error)}`,
+        );
+      }
+    },
+  );
+
+  server.registerResource(
+    "context-briefing",
+    new ResourceTemplate(contextBriefingTemplate, {
+      list: () => ({
+        resources: listContexts(db)
+          .contexts.slice(0, RESOURCE_LIST_LIMIT)
+          .map((context) => ({
+            uri: `context://${context.id}/briefing`,
+            name: `${context.label} briefing`,
+            description: `${context.sessionCount} session(s), latest ${context.latestStartedAt}`,
+          })),
+      }),
+    }),
+    {
+      title: "Context Briefing",
+      description:
+        "Current truth, decisions, and open items for a confirmed context",
+      mimeType: "text/markdown",
+    },
+    async (uri, variables) => {
+      try {
+        const report = getContextReport(db, readVariable(variables, "id"));
+        return {
+          contents: [
+            { uri: uri.href, mimeType: "text/markdown", text: report.markdown },
+          ],
+        };
+      } catch (error) {
+        throw new Error(
+          `Failed to access context briefing resource: ${getErrorMessage(error)}`,
+        );
+      }
+    },
+  );
+
+  server.registerResource(
+    "history-handoff",
+    new ResourceTemplate(handoffTemplate, {
+      list: () => ({
+        resources: [
+          {
+            uri: "history://handoff",
+            name: "History handoff",
+            description: "Blockers, recoveries, and follow-ups across sessions",
+          },
+        ],
+      }),
+    }),
+    {
+      title: "History Handoff",
+      description:
+        "Cross-session handoff; filter with query, issueKey, host, status, and groupBy parameters",
+      mimeType: "text/markdown",
+    },
+    async (uri, variables) => {
+      try {
+        const parsed = handoffQuerySchema.safeParse(
+          Object.fromEntries(
+            Object.keys(variables).map((name) => [
+              name,
+              readVariable(variables, name),
+            ]),
+          ),
+        );
+        if (!parsed.success) {
+          throw new Error(
+            parsed.error.issues
+              .map((issue) => `${issue.path.join(".")}: ${issue.message}`)
+              .join("; "),
+          );
+        }
+
+        const report = buildHistoryHandoffReport(db, parsed.data);
+        return {
+          contents: [
+            { uri: uri.href, mimeType: "text/markdown", text: report.markdown },
+          ],
+        };
+      } catch (error) {
+        throw new Error(
+          `Failed to access history handoff resource: ${getErrorMessage(error)}`,
+        );
+      }
+    },
+  );
+}
@@ -0,0 +1,207 @@
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import {
+  ErrorCode,
+  McpError,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+} from "@modelcontextprotocol/sdk/types.js";
+import type {
+  EvidenceDatabase,
+  SessionHistoryChange,
+} from "../lib/storage/index.js";
+import {
+  parseHistoryResourceUri,
+  type HistoryResourceTarget,
+} from "./history-resources.js";
+
+/** How often subscriptions check for writes made by other processes */
+export const DEFAULT_SUBSCRIPTION_POLL_INTERVAL_MS = 1000;
+
+export interface ResourceSubscriptions {
+  /** URIs the connected client is subscribed to */
+  readonly uris: string[];
+  close(): void;
+}
+
+interface SessionActivity {
+  messages: number;
+  timeline: number;
+  state: string;
+}
+
+function affectsTarget(
+  target: HistoryResourceTarget,
+  change: SessionHistoryChange,
+): boolean {
+  switch (target.kind) {
+    case "session":
+      return target.sessionId === change.sessionId;
+    case "transcript":
+      return (
+        target.sessionId === change.sessionId &&
+        (change.kind === "message" || change.kind === "session")
+      );
+    default:
+      // Briefings and handoffs roll up many sessions.
+      return true;
+  }
+}
+
+/**
+ * Handle resources/subscribe for session, context, and history resources and
+ * send resources/updated when their rows change, once per resource for each
+ * batch of committed writes. Writes through `db` notify as soon as they
+ * commit; writes from other processes, such as a CLI recorder, are picked up
+ * by polling SQLite's data_version while anything is subscribed.
+ *
+ * Must be called before the server connects to a transport.
+ */
+export function registerResourceSubscriptions(
+  server: McpServer,
+  db: EvidenceDatabase,
+  options?: { pollIntervalMs?: number },
+): ResourceSubscriptions {
+  const pollIntervalMs =
+    options?.pollIntervalMs ?? DEFAULT_SUBSCRIPTION_POLL_INTERVAL_MS;
+  const subscriptions = new Map<string, HistoryResourceTarget>();
+  const sessionActivity = new Map<string, SessionActivity | null>();
+  let dataVersion: number | null = null;
+  let timer: ReturnType<typeof setInterval> | null = null;
+  let closed = false;
+
+  const notify = (uri: string) => {
+    if (!server.isConnected()) return;
+    void server.server.sendResourceUpdated({ uri }).catch(() => {
+      // The client may disconnect between the check and the send.
+    });
+  };
+
+  const readActivity = (sessionId: string): SessionActivity | null => {
+    const session = db.findSessionById(sessionId);
+    if (!session) return null;
+    return {
+      messages: db.countSessionMessages(sessionId),
+      timeline: db.countSessionTimeline(sessionId),
+      state: [session.status, session.endedAt, session.title].join("|"),
+    };
+  };
+
+  const watchedSessionIds = () =>
+    new Set(
+      [...subscriptions.values()].flatMap((target) =>
+        "sessionId" in target ? [target.sessionId] : [],
+      ),
+    );
+
+  const poll = () => {
+    const version = db.getDataVersion();
+    if (version === dataVersion) return;
+    dataVersion = version;
+
+    const changes: SessionHistoryChange[] = [];
+    for (const sessionId of watchedSessionIds()) {
+      const before = sessionActivity.get(sessionId) ?? null;
+      const after = readActivity(sessionId);
+      sessionActivity.set(sessionId, after);
+      if (!before || !after) continue;
+      if (after.messages !== before.messages) {
+        changes.push({ sessionId, kind: "message" });
+      } else if (after.state !== before.state) {
+        changes.push({ sessionId, kind: "session" });
+      } else if (after.timeline !== before.timeline) {
+        changes.push({ sessionId, kind: "timeline" });
+      }
+    }
+
+    for (const [uri, target] of subscriptions) {
+      if (
+        "sessionId" in target
+          ? changes.some((change) => affectsTarget(target, change))
+          : true
+      ) {
+        notify(uri);
+      }
+    }
+  };
+
+  const sync = () => {
+    const sessionIds = watchedSessionIds();
+    for (const sessionId of sessionActivity.keys()) {
+      if (!sessionIds.has(sessionId)) {
+        sessionActivity.delete(sessionId);
+      }
+    }
+    for (const sessionId of sessionIds) {
+      if (!sessionActivity.has(sessionId)) {
+        sessionActivity.set(sessionId, readActivity(sessionId));
+      }
+    }
+
+    if (subscriptions.size === 0) {
+      if (timer) clearInterval(timer);
+      timer = null;
+      dataVersion = null;
+      return;
+    }
+
+    dataVersion ??= db.getDataVersion();
+    if (!timer && !closed) {
+      timer = setInterval(() => {
+        try {
+          poll();
+        } catch {
+          // The database may be closing; the next tick retries.
+        }
+      }, pollIntervalMs);
+      timer.unref?.();
+    }
+  };
+
+  const stopListening = db.onSessionHistoryChange((changes) => {
+    for (const sessionId of new Set(
+      changes.map((change) => change.sessionId),
+    )) {
+      if (sessionActivity.has(sessionId)) {
+        sessionActivity.set(sessionId, readActivity(sessionId));
+      }
+    }
+    for (const [uri, target] of subscriptions) {
+      if (changes.some((change) => affectsTarget(target, change))) {
+        notify(uri);
+      }
+    }
+  });
+
+  server.server.registerCapabilities({ resources: { subscribe: true } });
+  server.server.setRequestHandler(SubscribeRequestSchema, (request) => {
+    const { uri } = request.params;
+    const target = parseHistoryResourceUri(uri);
+    if (!target) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Resource does not support subscriptions: ${uri}`,
+      );
+    }
+
+    subscriptions.set(uri, target);
+    sync();
+    return {};
+  });
+  server.server.setRequestHandler(UnsubscribeRequestSchema, (request) => {
+    subscriptions.delete(request.params.uri);
+    sync();
+    return {};
+  });
+
+  return {
+    get uris() {
+      return [...subscriptions.keys()];
+    },
+    close() {
+      closed = true;
+      subscriptions.clear();
+      sync();
+      stopListening();
+    },
+  };
+}
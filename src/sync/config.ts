@@ -0,0 +1,94 @@
+/* global process */
+import * as fs from "node:fs";
+import * as path from "node:path";
+import * as z from "zod";
+
+export const SYNC_CONFIG_FILE = "sync.json";
+
+export const syncConfigSchema = z.object({
+  /** Shared folder (synced drive, git checkout) holding the change logs */
+  directory: z.string().min(1).nullable().default(null),
+});
+
+export type SyncConfig = z.output<typeof syncConfigSchema>;
+
+/**
+ * Parse a sync config, applying defaults for anything left out
+ *
+ * @param input - Raw config object (for example the parsed sync.json)
+ * @returns Normalized sync config
+ * @throws Error if the config is malformed
+ */
+export function parseSyncConfig(input: unknown): SyncConfig {
+  const result = syncConfigSchema.safeParse(input ?? {});
+  if (!result.success) {
+    throw new Error(
+      `Invalid sync config: ${result.error.issues
+        .map((issue) => `${issue.path.join(".") || "<root>"}: ${issue.message}`)
+        .join("; ")}`,
+    );
+  }
+
+  return result.data;
+}
+
+/**
+ * Resolve where the sync config lives for a database.
+ * FOOTPRINT_SYNC_CONFIG wins; otherwise sync.json sits next to the database
+ * file.
+ */
+export function resolveSyncConfigPath(
+  dbPath: string,
+  env: NodeJS.ProcessEnv = process.env,
+): string {
+  return (
+    env.FOOTPRINT_SYNC_CONFIG ||
+    path.join(path.dirname(path.resolve(dbPath)), SYNC_CONFIG_FILE)
+  );
+}
+
+/**
+ * Load a sync config file. A missing file yields the default config, which
+ * has no sync directory. A relative directory is resolved against the
+ * config file's folder.
+ *
+ * @param filePath - Path to a JSON sync config
+ * @returns Normalized sync config
+ * @throws Error if the file is not valid JSON or fails validation
+ */
+export function loadSyncConfig(filePath: string): SyncConfig {
+  let raw: string;
+  try {
+    raw = fs.readFileSync(filePath, "utf8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return parseSyncConfig({});
+    }
+    throw error;
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch (error) {
+    throw new Error(
+      `Invalid sync config at ${filePath}: ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+
+  let config: SyncConfig;
+  try {
+    config = parseSyncConfig(parsed);
+  } catch (error) {
+    throw new Error(
+      `${error instanceof Error ? error.message : String(error)} (${filePath})`,
+    );
+  }
+
+  return {
+    ...config,
+    directory: config.directory
+      ? path.resolve(path.dirname(filePath), config.directory)
+      : null,
+  };
+}
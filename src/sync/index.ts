@@ -0,0 +1,932 @@
+import { createHash } from "node:crypto";
+import * as fs from "node:fs";
+import * as path from "node:path";
+import * as z from "zod";
+import { reingestSessionHistory } from "../ingestion/index.js";
+import type { IngestionRulesConfig } from "../ingestion/rules.js";
+import type { Redactor } from "../lib/redaction.js";
+import { SESSION_HOST_LABEL_PATTERN } from "../lib/session-hosts.js";
+import {
+  deleteContextRejectionRow,
+  getSyncCursor,
+  getSyncMachineId,
+  getSyncRecord,
+  listContextLinkRows,
+  listContextRejectionRows,
+  listContextRows,
+  listSessionRows,
+  listSyncRecords,
+  listUnloggedMessageRows,
+  listUnloggedTimelineEventRows,
+  listWorkspacePreferenceRows,
+  redirectContextReferences,
+  setSyncCursor,
+  setSyncRecord,
+  writeContextLinkRow,
+  writeContextRejectionRow,
+  writeContextRow,
+  writeWorkspacePreferenceRow,
+  type ContextRecord,
+  type EvidenceDatabase,
+  type SyncRecordVersion,
+} from "../lib/storage/index.js";
+
+export {
+  SYNC_CONFIG_FILE,
+  loadSyncConfig,
+  parseSyncConfig,
+  resolveSyncConfigPath,
+  syncConfigSchema,
+  type SyncConfig,
+} from "./config.js";
+
+/**
+ * Multi-machine sync of session history through a shared folder.
+ *
+ * Every database appends its changes to its own log,
+ * `<directory>/changes/<machineId>.jsonl`, and never edits another machine's
+ * log, so the folder can live on a synced drive or in a git repository without
+ * write conflicts. A sync pushes local changes first and then replays every
+ * other log from where it last stopped.
+ *
+ * Conflict rules are deterministic, so every machine converges whatever order
+ * the logs are read in:
+ * - messages and timeline events are append-only and keyed by session and seq
+ * - sessions, contexts, links, and preferences are last-writer-wins on
+ *   (version, digest), where version is the record's updatedAt
+ * - a context merge is sticky: a later edit can change the label but not
+ *   un-merge it, competing merges resolve to the newest, and a merge cycle is
+ *   broken by keeping the context with the smallest ID active
+ * - links and preferences replayed onto a merged context follow it to the
+ *   context it was merged into
+ */
+
+export const SYNC_LOG_DIRECTORY = "changes";
+
+export type SyncEntryKind =
+  | "session"
+  | "context"
+  | "message"
+  | "event"
+  | "link"
+  | "rejection"
+  | "preference";
+
+/** Replay order, so every record lands after the records it points at */
+const SYNC_KIND_ORDER: SyncEntryKind[] = [
+  "session",
+  "context",
+  "message",
+  "event",
+  "link",
+  "rejection",
+  "preference",
+];
+
+const syncLogEntrySchema = z.object({
+  seq: z.number().int().positive(),
+  machineId: z.string(),
+  kind: z.enum(SYNC_KIND_ORDER as [SyncEntryKind, ...SyncEntryKind[]]),
+  op: z.enum(["put", "delete"]),
+  key: z.string(),
+  version: z.string(),
+  digest: z.string(),
+  data: z.record(z.string(), z.unknown()).nullable(),
+});
+
+export type SyncLogEntry = z.output<typeof syncLogEntrySchema>;
+
+/** The data each kind of entry carries, checked before it is replayed */
+const syncEntryDataSchemas = {
+  session: z.object({
+    id: z.string(),
+    host: z.string().regex(SESSION_HOST_LABEL_PATTERN),
+    projectRoot: z.string(),
+    cwd: z.string(),
+    title: z.string().nullable(),
+    status: z.enum(["running", "completed", "failed", "interrupted"]),
+    startedAt: z.string(),
+    endedAt: z.string().nullable(),
+    metadata: z.string().nullable(),
+  }),
+  context: z.object({
+    id: z.string(),
+    label: z.string(),
+    workspaceKey: z.string(),
+    status: z.enum(["active", "merged"]),
+    mergedIntoContextId: z.string().nullable(),
+    metadata: z.string().nullable(),
+    createdAt: z.string(),
+  }),
+  message: z.object({
+    sessionId: z.string(),
+    seq: z.number().int(),
+    role: z.enum(["user", "assistant", "system"]),
+    source: z.string(),
+    content: z.string(),
+    capturedAt: z.string(),
+    metadata: z.string().nullable(),
+  }),
+  event: z.object({
+    sessionId: z.string(),
+    seq: z.number().int(),
+    eventType: z.string(),
+    eventSubType: z.string().nullable(),
+    source: z.string(),
+    summary: z.string().nullable(),
+    payload: z.string().nullable(),
+    startedAt: z.string(),
+    endedAt: z.string().nullable(),
+    status: z.string().nullable(),
+    relatedMessageSeq: z.number().int().nullable(),
+  }),
+  link: z.object({
+    sessionId: z.string(),
+    contextId: z.string(),
+    linkSource: z.enum(["confirmed", "moved", "split", "merge", "bootstrap"]),
+    createdAt: z.string(),
+  }),
+  rejection: z.object({
+    sessionId: z.string(),
+    contextId: z.string(),
+    createdAt: z.string(),
+  }),
+  preference: z.object({
+    workspaceKey: z.string(),
+    contextId: z.string(),
+    createdAt: z.string(),
+  }),
+} satisfies Record<SyncEntryKind, z.ZodType>;
+
+type SyncEntryData<K extends SyncEntryKind> = z.output<
+  (typeof syncEntryDataSchemas)[K]
+>;
+
+export interface SyncOptions {
+  /** Shared folder holding the change logs */
+  directory: string;
+  now?: Date;
+  /** Global ingestion rules applied when pulled sessions are re-derived */
+  rules?: IngestionRulesConfig;
+  /** Redacts secrets from the artifacts of re-derived sessions */
+  redactor?: Redactor;
+}
+
+export interface SyncReport {
+  machineId: string;
+  directory: string;
+  /** Entries appended to this machine's log */
+  pushed: number;
+  /** Other machines whose logs had new entries */
+  machines: number;
+  /** Replayed entries that changed this database */
+  applied: number;
+  /** Replayed entries already present or beaten by a newer version */
+  superseded: number;
+  /** Replayed entries whose session or context is missing here */
+  skipped: number;
+  /** Sessions re-ingested after new messages or events arrived */
+  reingestedSessions: number;
+  syncedAt: string;
+}
+
+const DELETED_DIGEST = "deleted";
+
+/**
+ * Rows stamped up to this long before the previous push are read again, in
+ * case a writer stamped them before that push but committed after it; the
+ * digest check drops the ones already logged
+ */
+const PUSH_RESCAN_MS = 60_000;
+
+type PendingEntry = Omit<SyncLogEntry, "seq" | "machineId">;
+
+function digestOf(data: Record<string, unknown>): string {
+  return createHash("sha256").update(JSON.stringify(data)).digest("hex");
+}
+
+function put(
+  kind: SyncEntryKind,
+  key: string,
+  version: string,
+  data: Record<string, unknown>,
+): PendingEntry {
+  return { kind, op: "put", key, version, digest: digestOf(data), data };
+}
+
+/** Positive when a is newer than b */
+/**
+ * Check an entry's data against the schema for its kind, so a malformed or
+ * hand-edited log fails the sync instead of writing bad rows
+ */
+function entryData<K extends SyncEntryKind>(
+  entry: PendingEntry,
+  kind: K,
+): SyncEntryData<K> {
+  const result = syncEntryDataSchemas[kind].safeParse(entry.data);
+  if (!result.success) {
+    throw new Error(
+      `Invalid ${kind} data in sync entry ${entry.key}: ${result.error.issues
+        .map((issue) => `${issue.path.join(".") || "<root>"}: ${issue.message}`)
+        .join("; ")}`,
+    );
+  }
+  return result.data as SyncEntryData<K>;
+}
+
+function compareVersions(a: SyncRecordVersion, b: SyncRecordVersion): number {
+  if (a.version !== b.version) {
+    return a.version < b.version ? -1 : 1;
+  }
+  if (a.digest === b.digest) {
+    return 0;
+  }
+  return a.digest < b.digest ? -1 : 1;
+}
+
+function isNewer(
+  entry: SyncRecordVersion,
+  current: SyncRecordVersion | null,
+): boolean {
+  return !current || compareVersions(entry, current) > 0;
+}
+
+function logPath(directory: string, machineId: string): string {
+  return path.join(directory, SYNC_LOG_DIRECTORY, `${machineId}.jsonl`);
+}
+
+/**
+ * Read the complete lines of a change log; a line still being written by a
+ * sync client is left for the next run
+ */
+function readLog(filePath: string): SyncLogEntry[] {
+  const content = fs.readFileSync(filePath, "utf8");
+  const lines = content.split("\n").slice(0, -1);
+  return lines
+    .filter((line) => line.trim())
+    .map((line, index) => {
+      try {
+        return syncLogEntrySchema.parse(JSON.parse(line));
+      } catch (error) {
+        throw new Error(
+          `Invalid sync log entry at ${filePath}:${index + 1}: ${error instanceof Error ? error.message : String(error)}`,
+        );
+      }
+    });
+}
+
+function contextData(context: ContextRecord): Record<string, unknown> {
+  return {
+    id: context.id,
+    label: context.label,
+    workspaceKey: context.workspaceKey,
+    status: context.status,
+    mergedIntoContextId: context.mergedIntoContextId,
+    metadata: context.metadata,
+    createdAt: context.createdAt,
+  };
+}
+
+/**
+ * Collect local changes that are not in this machine's log yet. Only rows
+ * updated since `since`, and messages and events past each session's cursor,
+ * are read.
+ */
+function collectLocalChanges(
+  db: EvidenceDatabase,
+  since: string,
+  now: string,
+): PendingEntry[] {
+  const raw = db.getDb();
+  const entries: PendingEntry[] = [];
+  const changed = (entry: PendingEntry): boolean => {
+    const current = getSyncRecord(raw, entry.kind, entry.key);
+    return current?.digest !== entry.digest;
+  };
+
+  for (const session of listSessionRows(raw, since)) {
+    const entry = put("session", session.id, session.updatedAt, {
+      id: session.id,
+      host: session.host,
+      projectRoot: session.projectRoot,
+      cwd: session.cwd,
+      title: session.title,
+      status: session.status,
+      startedAt: session.startedAt,
+      endedAt: session.endedAt,
+      metadata: session.metadata,
+    });
+    if (changed(entry)) {
+      entries.push(entry);
+    }
+  }
+
+  for (const context of listContextRows(raw, since)) {
+    const entry = put(
+      "context",
+      context.id,
+      context.updatedAt,
+      contextData(context),
+    );
+    if (changed(entry)) {
+      entries.push(entry);
+    }
+  }
+
+  for (const message of listUnloggedMessageRows(raw)) {
+    entries.push(
+      put(
+        "message",
+        `${message.sessionId}:${message.seq}`,
+        message.capturedAt,
+        {
+          sessionId: message.sessionId,
+          seq: message.seq,
+          role: message.role,
+          source: message.source,
+          content: message.content,
+          capturedAt: message.capturedAt,
+          metadata: message.metadata,
+        },
+      ),
+    );
+  }
+
+  for (const event of listUnloggedTimelineEventRows(raw)) {
+    entries.push(
+      put("event", `${event.sessionId}:${event.seq}`, event.startedAt, {
+        sessionId: event.sessionId,
+        seq: event.seq,
+        eventType: event.eventType,
+        eventSubType: event.eventSubType,
+        source: event.source,
+        summary: event.summary,
+        payload: event.payload,
+        startedAt: event.startedAt,
+        endedAt: event.endedAt,
+        status: event.status,
+        relatedMessageSeq: event.relatedMessageSeq,
+      }),
+    );
+  }
+
+  const linkedSessionIds: string[] = [];
+  for (const link of listContextLinkRows(raw, since)) {
+    linkedSessionIds.push(link.sessionId);
+    const entry = put("link", link.sessionId, link.updatedAt, {
+      sessionId: link.sessionId,
+      contextId: link.contextId,
+      linkSource: link.linkSource,
+      createdAt: link.createdAt,
+    });
+    if (changed(entry)) {
+      entries.push(entry);
+    }
+  }
+
+  for (const rejection of listContextRejectionRows(raw, since)) {
+    const entry = put(
+      "rejection",
+      `${rejection.sessionId}:${rejection.contextId}`,
+      rejection.createdAt,
+      {
+        sessionId: rejection.sessionId,
+        contextId: rejection.contextId,
+        createdAt: rejection.createdAt,
+      },
+    );
+    if (changed(entry)) {
+      entries.push(entry);
+    }
+  }
+  // Confirming a link clears its rejection and touches the link; pruned
+  // sessions have no link left, so their rejections are not synced
+  const rejectionKeys = new Set(
+    (linkedSessionIds.length > 0 ? listContextRejectionRows(raw) : []).map(
+      (rejection) => `${rejection.sessionId}:${rejection.contextId}`,
+    ),
+  );
+  for (const sessionId of linkedSessionIds) {
+    for (const record of listSyncRecords(raw, "rejection", `${sessionId}:`)) {
+      if (record.digest !== DELETED_DIGEST && !rejectionKeys.has(record.key)) {
+        entries.push({
+          kind: "rejection",
+          op: "delete",
+          key: record.key,
+          version: now,
+          digest: DELETED_DIGEST,
+          data: null,
+        });
+      }
+    }
+  }
+
+  for (const preference of listWorkspacePreferenceRows(raw, since)) {
+    const entry = put(
+      "preference",
+      preference.workspaceKey,
+      preference.updatedAt,
+      {
+        workspaceKey: preference.workspaceKey,
+        contextId: preference.contextId,
+        createdAt: preference.createdAt,
+      },
+    );
+    if (changed(entry)) {
+      entries.push(entry);
+    }
+  }
+
+  return entries;
+}
+
+/**
+ * Note that an entry is in the logs, so it is neither pushed again nor
+ * overwritten by an older replay
+ */
+function markLogged(db: EvidenceDatabase, entry: PendingEntry): void {
+  const raw = db.getDb();
+  if (entry.kind === "message" || entry.kind === "event") {
+    const { sessionId, seq } = entryData(entry, entry.kind);
+    const scope = `${entry.kind}s:${sessionId}`;
+    setSyncCursor(raw, scope, Math.max(getSyncCursor(raw, scope), seq));
+    return;
+  }
+
+  setSyncRecord(raw, entry.kind, entry.key, entry);
+  if (entry.kind === "context" && entry.data?.status === "merged") {
+    const current = getSyncRecord(raw, "context-merge", entry.key);
+    if (isNewer(entry, current)) {
+      setSyncRecord(raw, "context-merge", entry.key, entry);
+    }
+  }
+}
+
+function pushChanges(
+  db: EvidenceDatabase,
+  directory: string,
+  machineId: string,
+  now: string,
+): number {
+  const raw = db.getDb();
+  const filePath = logPath(directory, machineId);
+  const scope = `log:${machineId}`;
+  const scanScope = `scanned:${machineId}`;
+  const scanStartedAt = Date.now();
+
+  return raw.transaction(() => {
+    const written = getSyncCursor(raw, scope);
+    const onDisk = fs.existsSync(filePath) ? readLog(filePath) : [];
+    const lastOnDisk = onDisk.at(-1)?.seq ?? 0;
+    if (lastOnDisk > written) {
+      throw new Error(
+        `Sync log ${filePath} has entries this database did not write; another database is using machine ID ${machineId}`,
+      );
+    }
+
+    const lastScan = getSyncCursor(raw, scanScope);
+    const entries = collectLocalChanges(
+      db,
+      lastScan > 0 ? new Date(lastScan - PUSH_RESCAN_MS).toISOString() : "",
+      now,
+    );
+    setSyncCursor(raw, scanScope, scanStartedAt);
+    if (entries.length === 0) {
+      return 0;
+    }
+
+    const lines = entries.map((entry, index) => {
+      markLogged(db, entry);
+      return `${JSON.stringify({ seq: written + index + 1, machineId, ...entry })}\n`;
+    });
+    setSyncCursor(raw, scope, written + entries.length);
+    // Appended last: a failed write rolls the bookkeeping back with it
+    fs.appendFileSync(filePath, lines.join(""), "utf8");
+    return entries.length;
+  })();
+}
+
+/**
+ * Follow merges to the context that is active now, or null when the context
+ * is unknown here
+ */
+function resolveActiveContext(
+  db: EvidenceDatabase,
+  contextId: string,
+): string | null {
+  return db.resolveContextById(contextId)?.id ?? null;
+}
+
+/**
+ * Break a merge cycle through `contextId` by keeping the member with the
+ * smallest ID active. Every machine picks the same member.
+ */
+function breakMergeCycle(db: EvidenceDatabase, contextId: string): void {
+  const chain: ContextRecord[] = [];
+  let current = db.findContextById(contextId);
+  while (current?.mergedIntoContextId) {
+    if (chain.some((context) => context.id === current!.id)) {
+      const cycle = chain.slice(
+        chain.findIndex((context) => context.id === current!.id),
+      );
+      const root = cycle.reduce((smallest, context) =>
+        context.id < smallest.id ? context : smallest,
+      );
+      writeContextRow(db.getDb(), {
+        ...root,
+        status: "active",
+        mergedIntoContextId: null,
+      });
+      return;
+    }
+    chain.push(current);
+    current = db.findContextById(current.mergedIntoContextId);
+  }
+}
+
+interface ReplayCounts {
+  applied: number;
+  superseded: number;
+  skipped: number;
+}
+
+type ReplayOutcome = keyof ReplayCounts;
+
+/** Per-session lookups reused across one replay */
+interface ReplayState {
+  touchedSessions: Set<string>;
+  /** Message seq to ID */
+  messages: Map<string, Map<number, string>>;
+  eventSeqs: Map<string, Set<number>>;
+}
+
+function sessionMessages(
+  db: EvidenceDatabase,
+  state: ReplayState,
+  sessionId: string,
+): Map<number, string> {
+  let messages = state.messages.get(sessionId);
+  if (!messages) {
+    messages = new Map(
+      db
+        .getSessionMessages(sessionId)
+        .map((message) => [message.seq, message.id]),
+    );
+    state.messages.set(sessionId, messages);
+  }
+  return messages;
+}
+
+function sessionEventSeqs(
+  db: EvidenceDatabase,
+  state: ReplayState,
+  sessionId: string,
+): Set<number> {
+  let seqs = state.eventSeqs.get(sessionId);
+  if (!seqs) {
+    seqs = new Set(db.getSessionTimeline(sessionId).map((event) => event.seq));
+    state.eventSeqs.set(sessionId, seqs);
+  }
+  return seqs;
+}
+
+function applyContextFields(
+  db: EvidenceDatabase,
+  entry: SyncLogEntry,
+): ReplayOutcome {
+  const raw = db.getDb();
+  const data = entryData(entry, "context");
+  const local = db.findContextById(entry.key);
+  if (local && !isNewer(entry, getSyncRecord(raw, "context", entry.key))) {
+    return "superseded";
+  }
+
+  writeContextRow(raw, {
+    id: entry.key,
+    label: data.label,
+    workspaceKey: data.workspaceKey,
+    // Merges are applied in a second pass, once every target exists
+    status: local?.status ?? "active",
+    mergedIntoContextId: local?.mergedIntoContextId ?? null,
+    metadata: data.metadata,
+    createdAt: local?.createdAt ?? data.createdAt,
+    updatedAt:
+      local && local.updatedAt > entry.version
+        ? local.updatedAt
+        : entry.version,
+  });
+  setSyncRecord(raw, "context", entry.key, entry);
+  return "applied";
+}
+
+function applyContextMerge(
+  db: EvidenceDatabase,
+  entry: SyncLogEntry,
+): ReplayOutcome | null {
+  const raw = db.getDb();
+  const data = entryData(entry, "context");
+  if (data.status !== "merged" || !data.mergedIntoContextId) {
+    return null;
+  }
+  const local = db.findContextById(entry.key);
+  if (!local || !db.findContextById(data.mergedIntoContextId)) {
+    return "skipped";
+  }
+  if (!isNewer(entry, getSyncRecord(raw, "context-merge", entry.key))) {
+    return "superseded";
+  }
+
+  writeContextRow(raw, {
+    ...local,
+    status: "merged",
+    mergedIntoContextId: data.mergedIntoContextId,
+  });
+  setSyncRecord(raw, "context-merge", entry.key, entry);
+  breakMergeCycle(db, entry.key);
+
+  const target = resolveActiveContext(db, entry.key);
+  if (target && target !== entry.key) {
+    redirectContextReferences(raw, entry.key, target, entry.version);
+  }
+  return "applied";
+}
+
+function applyEntry(
+  db: EvidenceDatabase,
+  entry: SyncLogEntry,
+  state: ReplayState,
+): ReplayOutcome {
+  const raw = db.getDb();
+
+  switch (entry.kind) {
+    case "session": {
+      const data = entryData(entry, "session");
+      const local = db.findSessionById(entry.key);
+      if (!local) {
+        db.createSession({
+          id: entry.key,
+          host: data.host,
+          projectRoot: data.projectRoot,
+          cwd: data.cwd,
+          title: data.title,
+          status: data.status,
+          startedAt: data.startedAt,
+          endedAt: data.endedAt,
+          metadata: data.metadata,
+        });
+      } else if (isNewer(entry, getSyncRecord(raw, "session", entry.key))) {
+        if (data.endedAt) {
+          db.finalizeSession(entry.key, {
+            status: data.status,
+            endedAt: data.endedAt,
+            title: data.title,
+          });
+        } else if (data.title && data.title !== local.title) {
+          db.updateSessionTitle(entry.key, data.title);
+        }
+      } else {
+        return "superseded";
+      }
+      setSyncRecord(raw, "session", entry.key, entry);
+      return "applied";
+    }
+
+    case "context":
+      return applyContextFields(db, entry);
+
+    case "message": {
+      const data = entryData(entry, "message");
+      const sessionId = data.sessionId;
+      if (!db.findSessionById(sessionId)) {
+        return "skipped";
+      }
+      markLogged(db, entry);
+      const messages = sessionMessages(db, state, sessionId);
+      if (messages.has(data.seq)) {
+        return "superseded";
+      }
+      const messageId = db.appendMessage({
+        sessionId,
+        seq: data.seq,
+        role: data.role,
+        source: data.source,
+        content: data.content,
+        capturedAt: data.capturedAt,
+        metadata: data.metadata,
+      });
+      messages.set(data.seq, messageId);
+      state.touchedSessions.add(sessionId);
+      return "applied";
+    }
+
+    case "event": {
+      const data = entryData(entry, "event");
+      const sessionId = data.sessionId;
+      if (!db.findSessionById(sessionId)) {
+        return "skipped";
+      }
+      markLogged(db, entry);
+      const eventSeqs = sessionEventSeqs(db, state, sessionId);
+      if (eventSeqs.has(data.seq)) {
+        return "superseded";
+      }
+      db.appendTimelineEvent({
+        sessionId,
+        seq: data.seq,
+        eventType: data.eventType,
+        eventSubType: data.eventSubType,
+        source: data.source,
+        summary: data.summary,
+        payload: data.payload,
+        startedAt: data.startedAt,
+        endedAt: data.endedAt,
+        status: data.status,
+        relatedMessageId:
+          data.relatedMessageSeq === null
+            ? null
+            : (sessionMessages(db, state, sessionId).get(
+                data.relatedMessageSeq,
+              ) ?? null),
+      });
+      eventSeqs.add(data.seq);
+      state.touchedSessions.add(sessionId);
+      return "applied";
+    }
+
+    case "link": {
+      const data = entryData(entry, "link");
+      const contextId = resolveActiveContext(db, data.contextId);
+      if (!db.findSessionById(entry.key) || !contextId) {
+        return "skipped";
+      }
+      if (!isNewer(entry, getSyncRecord(raw, "link", entry.key))) {
+        return "superseded";
+      }
+      writeContextLinkRow(raw, {
+        sessionId: entry.key,
+        contextId,
+        linkSource: data.linkSource,
+        createdAt: data.createdAt,
+        updatedAt: entry.version,
+      });
+      setSyncRecord(raw, "link", entry.key, entry);
+      return "applied";
+    }
+
+    case "rejection": {
+      const separator = entry.key.lastIndexOf(":");
+      const sessionId = entry.key.slice(0, separator);
+      const contextId = entry.key.slice(separator + 1);
+      if (!isNewer(entry, getSyncRecord(raw, "rejection", entry.key))) {
+        return "superseded";
+      }
+      if (entry.op === "delete") {
+        deleteContextRejectionRow(raw, sessionId, contextId);
+      } else {
+        if (!db.findSessionById(sessionId) || !db.findContextById(contextId)) {
+          return "skipped";
+        }
+        writeContextRejectionRow(raw, {
+          sessionId,
+          contextId,
+          createdAt: entryData(entry, "rejection").createdAt,
+        });
+      }
+      setSyncRecord(raw, "rejection", entry.key, entry);
+      return "applied";
+    }
+
+    case "preference": {
+      const data = entryData(entry, "preference");
+      const contextId = resolveActiveContext(db, data.contextId);
+      if (!contextId) {
+        return "skipped";
+      }
+      if (!isNewer(entry, getSyncRecord(raw, "preference", entry.key))) {
+        return "superseded";
+      }
+      writeWorkspacePreferenceRow(raw, {
+        workspaceKey: entry.key,
+        contextId,
+        createdAt: data.createdAt,
+        updatedAt: entry.version,
+      });
+      setSyncRecord(raw, "preference", entry.key, entry);
+      return "applied";
+    }
+  }
+}
+
+function pullChanges(
+  db: EvidenceDatabase,
+  directory: string,
+  machineId: string,
+): ReplayCounts & { machines: number; touchedSessions: Set<string> } {
+  const raw = db.getDb();
+  const logDir = path.join(directory, SYNC_LOG_DIRECTORY);
+  const pending: SyncLogEntry[] = [];
+  const positions = new Map<string, number>();
+
+  for (const name of fs.readdirSync(logDir).sort()) {
+    const otherMachine = name.replace(/\.jsonl$/, "");
+    if (!name.endsWith(".jsonl") || otherMachine === machineId) {
+      continue;
+    }
+    const cursor = getSyncCursor(raw, `log:${otherMachine}`);
+    const entries = readLog(path.join(logDir, name)).filter(
+      (entry) => entry.seq > cursor,
+    );
+    if (entries.length > 0) {
+      pending.push(
+        ...entries.map((entry) => ({ ...entry, machineId: otherMachine })),
+      );
+      positions.set(otherMachine, entries.at(-1)!.seq);
+    }
+  }
+
+  pending.sort(
+    (a, b) =>
+      SYNC_KIND_ORDER.indexOf(a.kind) - SYNC_KIND_ORDER.indexOf(b.kind) ||
+      compareVersions(a, b) ||
+      a.machineId.localeCompare(b.machineId) ||
+      a.seq - b.seq,
+  );
+
+  const counts: ReplayCounts = { applied: 0, superseded: 0, skipped: 0 };
+  const state: ReplayState = {
+    touchedSessions: new Set(),
+    messages: new Map(),
+    eventSeqs: new Map(),
+  };
+  raw.transaction(() => {
+    for (const entry of pending) {
+      counts[applyEntry(db, entry, state)] += 1;
+    }
+    for (const entry of pending) {
+      if (entry.kind === "context") {
+        const outcome = applyContextMerge(db, entry);
+        if (outcome === "applied") {
+          counts.applied += 1;
+        }
+      }
+    }
+    for (const [otherMachine, position] of positions) {
+      setSyncCursor(raw, `log:${otherMachine}`, position);
+    }
+  })();
+
+  return {
+    ...counts,
+    machines: positions.size,
+    touchedSessions: state.touchedSessions,
+  };
+}
+
+/**
+ * Push local session history changes to the shared folder, then replay the
+ * other machines' logs into this database
+ *
+ * @param db - Database to sync
+ * @param options - Shared folder, the ingestion rules and redactor used to
+ *   re-derive pulled sessions, and a clock for tests
+ * @returns Counts of what was written and replayed
+ * @throws Error if session history is encrypted, a log is malformed, or
+ *   another database writes this machine's log
+ */
+export function syncSessionHistory(
+  db: EvidenceDatabase,
+  options: SyncOptions,
+): SyncReport {
+  // The logs are shared in plaintext and every database has its own key
+  if (db.isSessionHistoryEncrypted()) {
+    throw new Error(
+      "Sync is unavailable while session history is encrypted; the change logs would store it in plaintext",
+    );
+  }
+
+  const directory = path.resolve(options.directory);
+  const now = (options.now ?? new Date()).toISOString();
+  fs.mkdirSync(path.join(directory, SYNC_LOG_DIRECTORY), { recursive: true });
+
+  const machineId = getSyncMachineId(db.getDb());
+  const pushed = pushChanges(db, directory, machineId, now);
+  const pulled = pullChanges(db, directory, machineId);
+  for (const sessionId of pulled.touchedSessions) {
+    reingestSessionHistory(db, sessionId, {
+      redactor: options.redactor,
+      rules: options.rules,
+    });
+  }
+
+  return {
+    machineId,
+    directory,
+    pushed,
+    machines: pulled.machines,
+    applied: pulled.applied,
+    superseded: pulled.superseded,
+    skipped: pulled.skipped,
+    reingestedSessions: pulled.touchedSessions.size,
+    syncedAt: now,
+  };
+}
@@ -0,0 +1,85 @@
+import * as z from "zod";
+import type { Redactor } from "../lib/redaction.js";
+import { resolveAnnotationSession } from "../lib/session-annotations.js";
+import { formatSuccessResponse } from "../lib/tool-response.js";
+import { wrapToolHandler } from "../lib/tool-wrapper.js";
+import type {
+  EvidenceDatabase,
+  SessionNoteKind,
+} from "../lib/storage/index.js";
+
+const noteKindEnum = z.enum(["note", "question"]);
+
+export const appendSessionNoteSchema = {
+  inputSchema: {
+    content: z.string().min(1, "content is required"),
+    kind: noteKindEnum
+      .optional()
+      .describe(
+        "note for context worth keeping, question for an open question. Defaults to note.",
+      ),
+    sessionId: z
+      .string()
+      .optional()
+      .describe(
+        "Session to append to. Defaults to the session footprint run started for this agent.",
+      ),
+  },
+  outputSchema: {
+    sessionId: z.string(),
+    note: z.object({
+      id: z.string(),
+      sessionId: z.string(),
+      kind: noteKindEnum,
+      content: z.string(),
+      createdAt: z.string(),
+    }),
+  },
+};
+
+export const appendSessionNoteMetadata = {
+  title: "Append Session Note",
+  description:
+    "Attach a note or open question to your own recorded session. Open questions appear in session handoffs and context briefings.",
+};
+
+export function createAppendSessionNoteHandler(
+  db: EvidenceDatabase,
+  redactor?: Redactor,
+) {
+  return wrapToolHandler(
+    "append-session-note",
+    "Run the agent under footprint run or pass sessionId.",
+    async (params: {
+      content: string;
+      kind?: SessionNoteKind;
+      sessionId?: string;
+    }) => {
+      const session = resolveAnnotationSession(db, {
+        sessionId: params.sessionId,
+      });
+      const content = params.content.trim();
+      if (!content) {
+        throw new Error("content cannot be empty");
+      }
+
+      const note = db.appendSessionNote({
+        sessionId: session.id,
+        kind: params.kind ?? "note",
+        content: redactor ? redactor.redactText(content).value : content,
+      });
+
+      return formatSuccessResponse(
+        note.kind === "question" ? "Open question recorded" : "Note recorded",
+        {
+          Session: session.id,
+          Note: note.id,
+        },
+        {
+          sessionId: session.id,
+          note,
+        },
+      );
+    },
+  );
+}
@@ -4,9 +4,15 @@ import { wrapToolHandler } from "../lib/tool-wrapper.js";
 import { formatSuccessResponse } from "../lib/tool-response.js";
 import { encrypt } from "../lib/crypto/index.js";
 import {
+  ensureSigningIdentity,
   getCurrentCommit,
+  signContentHash,
   type EvidenceDatabase,
 } from "../lib/storage/index.js";
+import {
+  stampEvidence,
+  type TimestampConfig,
+} from "../lib/trusted-timestamp.js";
 import type { CaptureEvidenceParams } from "../types.js";
 
 export const captureFootprintSchema = {
@@ -48,6 +54,8 @@ export const captureFootprintSchema = {
     id: z.string(),
     timestamp: z.string(),
     gitCommitHash: z.string().nullable(),
+    signingKeyId: z.string(),
+    timestampStatus: z.enum(["stamped", "queued", "disabled"]),
     success: z.boolean(),
   },
 };
@@ -55,12 +63,13 @@ export const captureFootprintSchema = {
 export const captureFootprintMetadata = {
   title: "Capture Footprint",
   description:
-    "Capture and encrypt an LLM conversation as a tamper-evident footprint. Use when: user explicitly asks to save, or high-value content detected (IP, legal, business, research, compliance). Creates encrypted record with SHA-256 hash and Git timestamp anchor.",
+    "Capture and encrypt an LLM conversation as a tamper-evident footprint. Use when: user explicitly asks to save, or high-value content detected (IP, legal, business, research, compliance). Creates encrypted record with SHA-256 hash, Ed25519 signature, Git timestamp anchor, and an RFC 3161 trusted timestamp when a timestamp authority is configured.",
 };
 
 export function createCaptureFootprintHandler(
   db: EvidenceDatabase,
   getDerivedKey: () => Promise<Uint8Array>,
+  timestampConfig: TimestampConfig,
 ) {
   return wrapToolHandler(
     "capture-footprint",
@@ -149,20 +158,32 @@ export function createCaptureFootprintHandler(
         .createHash("sha256")
         .update(params.content)
         .digest("hex");
+      const signer = ensureSigningIdentity(db.getDb(), key);
       const timestamp = new Date().toISOString();
 
-      const id = db.create({
-        timestamp,
-        conversationId: params.conversationId,
-        llmProvider,
-        encryptedContent: encrypted.ciphertext,
-        nonce: encrypted.nonce,
-        contentHash,
-        messageCount,
-        gitCommitHash: gitInfo?.commitHash || null,
-        gitTimestamp: gitInfo?.timestamp || null,
-        tags: params.tags || null,
-      });
+      const id = db.create(
+        {
+          timestamp,
+          conversationId: params.conversationId,
+          llmProvider,
+          encryptedContent: encrypted.ciphertext,
+          nonce: encrypted.nonce,
+          contentHash,
+          messageCount,
+          gitCommitHash: gitInfo?.commitHash || null,
+          gitTimestamp: gitInfo?.timestamp || null,
+          tags: params.tags || null,
+          signature: signContentHash(signer, contentHash),
+          signingKeyId: signer.keyId,
+          timestampRequested: timestampConfig.url !== null,
+        },
+        signer,
+      );
+      const timestampStatus = await stampEvidence(
+        db,
+        { id, contentHash },
+        timestampConfig,
+      );
 
       return formatSuccessResponse(
         "Evidence captured successfully",
@@ -171,11 +192,15 @@ export function createCaptureFootprintHandler(
           Timestamp: timestamp,
           "Git Commit": gitInfo?.commitHash || "N/A",
           "Message Count": messageCount,
+          "Signing Key": signer.keyId,
+          "Trusted Timestamp": timestampStatus,
         },
         {
           id,
           timestamp,
           gitCommitHash: gitInfo?.commitHash || null,
+          signingKeyId: signer.keyId,
+          timestampStatus,
           success: true,
         },
       );
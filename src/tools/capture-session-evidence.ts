@@ -0,0 +1,116 @@
+import * as z from "zod";
+import { captureSessionEvidence } from "../lib/session-evidence.js";
+import { formatSuccessResponse } from "../lib/tool-response.js";
+import { wrapToolHandler } from "../lib/tool-wrapper.js";
+import type { EvidenceDatabase } from "../lib/storage/index.js";
+import type { TimestampConfig } from "../lib/trusted-timestamp.js";
+
+export const captureSessionEvidenceSchema = {
+  inputSchema: {
+    id: z.string().describe("Session ID to capture"),
+    fromSeq: z
+      .number()
+      .int()
+      .nonnegative()
+      .optional()
+      .describe(
+        "First transcript message seq to include. Defaults to the first.",
+      ),
+    toSeq: z
+      .number()
+      .int()
+      .nonnegative()
+      .optional()
+      .describe(
+        "Last transcript message seq to include. Defaults to the last.",
+      ),
+    tags: z
+      .string()
+      .optional()
+      .describe(
+        "Comma-separated tags for the evidence (e.g., 'decision,audit')",
+      ),
+  },
+  outputSchema: {
+    id: z.string(),
+    sessionId: z.string(),
+    timestamp: z.string(),
+    fromSeq: z.number(),
+    toSeq: z.number(),
+    messageCount: z.number(),
+    timelineCount: z.number(),
+    artifactCount: z.number(),
+    contentHash: z.string(),
+    gitCommitHash: z.string().nullable(),
+    timestampStatus: z.enum(["stamped", "queued", "disabled"]),
+    success: z.boolean(),
+  },
+};
+
+export const captureSessionEvidenceMetadata = {
+  title: "Capture Session Evidence",
+  description:
+    "Promote a recorded session, or a transcript seq range of it, into an encrypted tamper-evident footprint without pasting the conversation. Seals the selected transcript with its timeline events and artifacts, and links the footprint back to the session.",
+};
+
+export function createCaptureSessionEvidenceHandler(
+  db: EvidenceDatabase,
+  getDerivedKey: () => Promise<Uint8Array>,
+  timestampConfig: TimestampConfig,
+) {
+  return wrapToolHandler(
+    "capture-session-evidence",
+    "Verify the session ID exists and that fromSeq and toSeq cover recorded transcript messages.",
+    async (params: {
+      id: string;
+      fromSeq?: number;
+      toSeq?: number;
+      tags?: string;
+    }) => {
+      const tags = params.tags
+        ?.split(",")
+        .map((tag) => tag.trim())
+        .filter(Boolean)
+        .join(",");
+      const capture = await captureSessionEvidence(
+        db,
+        await getDerivedKey(),
+        params.id,
+        {
+          fromSeq: params.fromSeq,
+          toSeq: params.toSeq,
+          tags: tags || null,
+          timestampConfig,
+        },
+      );
+
+      return formatSuccessResponse(
+        "Session evidence captured successfully",
+        {
+          ID: capture.evidenceId,
+          Session: capture.sessionId,
+          "Message Range": `${capture.fromSeq}-${capture.toSeq}`,
+          Messages: capture.messageCount,
+          "Timeline Events": capture.timelineCount,
+          Artifacts: capture.artifactCount,
+          "Git Commit": capture.gitCommitHash || "N/A",
+          "Trusted Timestamp": capture.timestampStatus,
+        },
+        {
+          id: capture.evidenceId,
+          sessionId: capture.sessionId,
+          timestamp: capture.timestamp,
+          fromSeq: capture.fromSeq,
+          toSeq: capture.toSeq,
+          messageCount: capture.messageCount,
+          timelineCount: capture.timelineCount,
+          artifactCount: capture.artifactCount,
+          contentHash: capture.contentHash,
+          gitCommitHash: capture.gitCommitHash,
+          timestampStatus: capture.timestampStatus,
+          success: true,
+        },
+      );
+    },
+  );
+}
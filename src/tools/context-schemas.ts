@@ -1,6 +1,13 @@
 import * as z from "zod";
+import { SESSION_HOST_LABEL_PATTERN } from "../lib/session-hosts.js";
 
-export const sessionHostEnum = z.enum(["claude", "gemini", "codex"]);
+/** Built-in hosts plus labels recorded with `footprint run -- <command>` */
+export const sessionHostSchema = z
+  .string()
+  .regex(
+    SESSION_HOST_LABEL_PATTERN,
+    "Expected claude, gemini, codex, or a generic host label",
+  );
 export const sessionStatusEnum = z.enum([
   "running",
   "completed",
@@ -12,7 +19,7 @@ export const contextConfidenceEnum = z.enum(["high", "medium", "low"]);
 export const contextSessionSummarySchema = z.object({
   id: z.string(),
   label: z.string(),
-  host: sessionHostEnum,
+  host: sessionHostSchema,
   status: sessionStatusEnum,
   startedAt: z.string(),
   endedAt: z.string().nullable(),
@@ -27,7 +34,7 @@ export const contextListItemSchema = z.object({
   latestStartedAt: z.string(),
   latestEndedAt: z.string().nullable(),
   sessionCount: z.number(),
-  hosts: z.array(sessionHostEnum),
+  hosts: z.array(sessionHostSchema),
   statuses: z.array(sessionStatusEnum),
   confidence: contextConfidenceEnum,
   confidenceScore: z.number(),
@@ -43,6 +50,7 @@ export const contextDecisionSchema = z.object({
   summary: z.string(),
   rationale: z.string().nullable(),
   status: z.enum(["proposed", "accepted", "rejected", "open"]),
+  supersedes: z.array(z.string()),
   createdAt: z.string(),
 });
 
@@ -88,13 +96,13 @@ export const contextTrendSchema = z.object({
   failedAttempts: z.number(),
   succeededAttempts: z.number(),
   otherAttempts: z.number(),
-  hosts: z.array(sessionHostEnum),
+  hosts: z.array(sessionHostSchema),
   statuses: z.array(sessionStatusEnum),
   sessions: z.array(
     z.object({
       sessionId: z.string(),
       label: z.string(),
-      host: sessionHostEnum,
+      host: sessionHostSchema,
       status: sessionStatusEnum,
       startedAt: z.string(),
       lastAttemptAt: z.string(),
@@ -117,7 +125,7 @@ export const contextReportSchema = z.object({
       groupBy: z.enum(["issue", "family"]),
       headline: z.string(),
       matchingSessions: z.number(),
-      matchingHosts: z.array(sessionHostEnum),
+      matchingHosts: z.array(sessionHostSchema),
       statuses: z.array(sessionStatusEnum),
       totalTrends: z.number(),
       blockingTrends: z.number(),
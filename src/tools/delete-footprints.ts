@@ -1,7 +1,10 @@
 import * as z from "zod";
 import { wrapToolHandler } from "../lib/tool-wrapper.js";
 import { createToolResponse } from "../lib/tool-response.js";
-import type { EvidenceDatabase } from "../lib/storage/index.js";
+import {
+  ensureSigningIdentity,
+  type EvidenceDatabase,
+} from "../lib/storage/index.js";
 
 export const deleteFootprintsSchema = {
   inputSchema: {
@@ -42,7 +45,10 @@ export const deleteFootprintsMetadata = {
     "Permanently delete one or more footprint records. WARNING: Irreversible operation. Uses two-step confirmation: first call previews records, second call with confirmDelete: true performs deletion.",
 };
 
-export function createDeleteFootprintsHandler(db: EvidenceDatabase) {
+export function createDeleteFootprintsHandler(
+  db: EvidenceDatabase,
+  getDerivedKey: () => Promise<Uint8Array>,
+) {
   return wrapToolHandler(
     "delete-footprints",
     "Verify the footprint IDs exist.",
@@ -86,8 +92,9 @@ export function createDeleteFootprintsHandler(db: EvidenceDatabase) {
         (id) => !existingSet.has(id),
       );
 
-      // Actual deletion
-      const deletedCount = db.deleteMany(existingIds);
+      // Actual deletion; the ledger tombstones are signed
+      const signer = ensureSigningIdentity(db.getDb(), await getDerivedKey());
+      const deletedCount = db.deleteMany(existingIds, signer);
       const success = deletedCount > 0;
 
       let resultText = success
@@ -2,7 +2,11 @@
 import * as z from "zod";
 import { wrapToolHandler } from "../lib/tool-wrapper.js";
 import { formatSuccessResponse } from "../lib/tool-response.js";
-import type { EvidenceDatabase } from "../lib/storage/index.js";
+import {
+  ensureSigningIdentity,
+  retrieveSigningPublicKey,
+  type EvidenceDatabase,
+} from "../lib/storage/index.js";
 
 export const exportFootprintsSchema = {
   inputSchema: {
@@ -28,6 +32,7 @@ export const exportFootprintsSchema = {
     base64Data: z.string().optional(),
     checksum: z.string(),
     evidenceCount: z.number(),
+    signingKeyId: z.string().nullable(),
     success: z.boolean(),
   },
 };
@@ -35,7 +40,7 @@ export const exportFootprintsSchema = {
 export const exportFootprintsMetadata = {
   title: "Export Footprints",
   description:
-    "Export footprints to encrypted ZIP archive. Supports file output (write to disk), base64 output (for MCP clients like Claude Desktop), or both. Default is 'both' for backward compatibility.",
+    "Export footprints to encrypted ZIP archive. The manifest is signed with the local Ed25519 signing identity and the bundle carries its public key, so a third party can verify it without the passphrase. Supports file output (write to disk), base64 output (for MCP clients like Claude Desktop), or both. Default is 'both' for backward compatibility.",
   _meta: {
     ui: {
       resourceUri: "ui://footprint/export.html",
@@ -43,7 +48,10 @@ export const exportFootprintsMetadata = {
   },
 };
 
-export function createExportFootprintsHandler(db: EvidenceDatabase) {
+export function createExportFootprintsHandler(
+  db: EvidenceDatabase,
+  getDerivedKey: () => Promise<Uint8Array>,
+) {
   return wrapToolHandler(
     "export-footprints",
     "Check evidenceIds exist and filesystem has write permissions.",
@@ -57,9 +65,16 @@ export function createExportFootprintsHandler(db: EvidenceDatabase) {
 
       const outputMode = params.outputMode || "both";
 
+      // The identity is created at setup or first capture; a database that
+      // never had one exports unsigned instead of unlocking the key for it
+      const signingIdentity = retrieveSigningPublicKey(db.getDb())
+        ? ensureSigningIdentity(db.getDb(), await getDerivedKey())
+        : null;
+
       const result = await exportEvidences(db, {
         evidenceIds: params.evidenceIds,
         includeGitInfo: params.includeGitInfo ?? false,
+        signingIdentity,
       });
 
       // Enforce size limit for base64 mode (base64 adds ~33% overhead)
@@ -103,6 +118,7 @@ export function createExportFootprintsHandler(db: EvidenceDatabase) {
         Checksum: result.checksum,
         "Git Info": params.includeGitInfo ? "Included" : "Excluded",
         "Output Mode": outputMode,
+        "Signing Key": result.signingKeyId ?? "Unsigned",
       };
       if (filename) details.Filename = filename;
       if (base64Data)
@@ -113,6 +129,7 @@ export function createExportFootprintsHandler(db: EvidenceDatabase) {
         ...(base64Data && { base64Data }),
         checksum: result.checksum,
         evidenceCount: result.evidenceCount,
+        signingKeyId: result.signingKeyId,
         success: true,
       });
     },
@@ -2,11 +2,11 @@ import { Buffer } from "node:buffer";
 import * as z from "zod";
 import { formatSuccessResponse } from "../lib/tool-response.js";
 import { wrapToolHandler } from "../lib/tool-wrapper.js";
-import type { EvidenceDatabase } from "../lib/storage/index.js";
+import type { EvidenceDatabase, SessionHost } from "../lib/storage/index.js";
 import { sessionDetailUiMetadata } from "./session-ui-metadata.js";
+import { sessionHostSchema } from "./context-schemas.js";
 
 const outputModeEnum = z.enum(["file", "base64", "both"]);
-const sessionHostEnum = z.enum(["claude", "gemini", "codex"]);
 const sessionStatusEnum = z.enum([
   "running",
   "completed",
@@ -27,7 +27,7 @@ export const exportSessionsSchema = {
       .string()
       .optional()
       .describe(
-        "Optional text filter across metadata, transcript, and derived history. Cannot be combined with sessionIds.",
+        "Optional search-history query across metadata, transcript, and derived history; every word must match. Cannot be combined with sessionIds.",
       ),
     issueKey: z
       .string()
@@ -35,7 +35,7 @@ export const exportSessionsSchema = {
       .describe(
         "Optional exact issue key filter. Cannot be combined with sessionIds.",
       ),
-    host: sessionHostEnum
+    host: sessionHostSchema
       .optional()
       .describe("Optional host filter. Cannot be combined with sessionIds."),
     status: sessionStatusEnum
@@ -62,7 +62,7 @@ export const exportSessionsSchema = {
       .object({
         query: z.string().optional(),
         issueKey: z.string().optional(),
-        host: sessionHostEnum.optional(),
+        host: sessionHostSchema.optional(),
         status: sessionStatusEnum.optional(),
         groupBy: trendGroupByEnum.optional(),
       })
@@ -70,7 +70,7 @@ export const exportSessionsSchema = {
     sessions: z.array(
       z.object({
         id: z.string(),
-        host: sessionHostEnum,
+        host: sessionHostSchema,
         label: z.string(),
         status: sessionStatusEnum,
         startedAt: z.string(),
@@ -96,7 +96,7 @@ export function createExportSessionsHandler(db: EvidenceDatabase) {
       sessionIds?: string[];
       query?: string;
       issueKey?: string;
-      host?: "claude" | "gemini" | "codex";
+      host?: SessionHost;
       status?: "running" | "completed" | "failed" | "interrupted";
       groupBy?: "issue" | "family";
       outputMode?: "file" | "base64" | "both";
@@ -0,0 +1,66 @@
+import * as z from "zod";
+import { createToolResponse } from "../lib/tool-response.js";
+import { wrapToolHandler } from "../lib/tool-wrapper.js";
+import {
+  flushTimestampQueue,
+  type TimestampConfig,
+} from "../lib/trusted-timestamp.js";
+import type { EvidenceDatabase } from "../lib/storage/index.js";
+
+export const flushTimestampQueueSchema = {
+  inputSchema: {
+    limit: z
+      .number()
+      .int()
+      .positive()
+      .optional()
+      .describe("Maximum queued footprints to stamp (default: all)"),
+  },
+  outputSchema: {
+    attempted: z.number(),
+    stamped: z.number(),
+    failed: z.number(),
+    remaining: z.number(),
+    entries: z.array(
+      z.object({
+        evidenceId: z.string(),
+        status: z.enum(["stamped", "failed"]),
+        genTime: z.string().nullable(),
+        error: z.string().nullable(),
+      }),
+    ),
+  },
+};
+
+export const flushTimestampQueueMetadata = {
+  title: "Flush Timestamp Queue",
+  description:
+    "Retry RFC 3161 timestamping for footprints captured while the configured timestamp authority was unreachable. Stamped footprints leave the queue; failures stay queued with their last error.",
+};
+
+export function createFlushTimestampQueueHandler(
+  db: EvidenceDatabase,
+  timestampConfig: TimestampConfig,
+) {
+  return wrapToolHandler(
+    "flush-timestamp-queue",
+    "Configure a reachable timestamp authority url in timestamp.json next to the database.",
+    async (params: { limit?: number }) => {
+      const result = await flushTimestampQueue(db, timestampConfig, {
+        limit: params.limit,
+      });
+      const summary = `${result.stamped} stamped, ${result.failed} failed, ${result.remaining} still queued`;
+      const statusText =
+        result.failed === 0
+          ? `✅ Timestamp queue flushed (${summary})`
+          : [
+              `⚠️ Timestamp queue partially flushed (${summary})`,
+              ...result.entries
+                .filter((entry) => entry.status === "failed")
+                .map((entry) => `- ${entry.evidenceId}: ${entry.error}`),
+            ].join("\n");
+
+      return createToolResponse(statusText, { ...result });
+    },
+  );
+}
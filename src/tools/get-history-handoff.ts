@@ -8,8 +8,8 @@ import type {
   SessionStatus,
 } from "../lib/storage/index.js";
 import { sessionDashboardUiMetadata } from "./session-ui-metadata.js";
+import { sessionHostSchema } from "./context-schemas.js";
 
-const sessionHostEnum = z.enum(["claude", "gemini", "codex"]);
 const sessionStatusEnum = z.enum([
   "running",
   "completed",
@@ -24,10 +24,10 @@ export const getHistoryHandoffSchema = {
       .string()
       .optional()
       .describe(
-        "Optional text filter across metadata, transcript, and derived history",
+        "Optional search-history query across metadata, transcript, and derived history; every word must match",
       ),
     issueKey: z.string().optional().describe("Optional exact issue key filter"),
-    host: sessionHostEnum.optional().describe("Optional host filter"),
+    host: sessionHostSchema.optional().describe("Optional host filter"),
     status: sessionStatusEnum.optional().describe("Optional status filter"),
     groupBy: trendGroupByEnum
       .optional()
@@ -39,7 +39,7 @@ export const getHistoryHandoffSchema = {
     filters: z.object({
       query: z.string().optional(),
       issueKey: z.string().optional(),
-      host: sessionHostEnum.optional(),
+      host: sessionHostSchema.optional(),
       status: sessionStatusEnum.optional(),
       groupBy: trendGroupByEnum.optional(),
     }),
@@ -47,7 +47,7 @@ export const getHistoryHandoffSchema = {
       groupBy: trendGroupByEnum,
       headline: z.string(),
       matchingSessions: z.number(),
-      matchingHosts: z.array(sessionHostEnum),
+      matchingHosts: z.array(sessionHostSchema),
       statuses: z.array(sessionStatusEnum),
       totalTrends: z.number(),
       blockingTrends: z.number(),
@@ -65,7 +65,7 @@ export const getHistoryHandoffSchema = {
       z.object({
         id: z.string(),
         label: z.string(),
-        host: sessionHostEnum,
+        host: sessionHostSchema,
         status: sessionStatusEnum,
         startedAt: z.string(),
         endedAt: z.string().nullable(),
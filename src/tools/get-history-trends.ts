@@ -8,8 +8,8 @@ import type {
   SessionStatus,
 } from "../lib/storage/index.js";
 import { sessionDashboardUiMetadata } from "./session-ui-metadata.js";
+import { sessionHostSchema } from "./context-schemas.js";
 
-const sessionHostEnum = z.enum(["claude", "gemini", "codex"]);
 const sessionStatusEnum = z.enum([
   "running",
   "completed",
@@ -25,7 +25,7 @@ export const getHistoryTrendsSchema = {
       .optional()
       .describe("Optional text filter across issue key, label, and kind"),
     issueKey: z.string().optional().describe("Optional exact issue key filter"),
-    host: sessionHostEnum.optional().describe("Optional host filter"),
+    host: sessionHostSchema.optional().describe("Optional host filter"),
     status: sessionStatusEnum
       .optional()
       .describe("Optional session status filter"),
@@ -39,7 +39,7 @@ export const getHistoryTrendsSchema = {
     filters: z.object({
       query: z.string().optional(),
       issueKey: z.string().optional(),
-      host: sessionHostEnum.optional(),
+      host: sessionHostSchema.optional(),
       status: sessionStatusEnum.optional(),
       groupBy: trendGroupByEnum.optional(),
     }),
@@ -83,13 +83,13 @@ export const getHistoryTrendsSchema = {
         failedAttempts: z.number(),
         succeededAttempts: z.number(),
         otherAttempts: z.number(),
-        hosts: z.array(sessionHostEnum),
+        hosts: z.array(sessionHostSchema),
         statuses: z.array(sessionStatusEnum),
         sessions: z.array(
           z.object({
             sessionId: z.string(),
             label: z.string(),
-            host: sessionHostEnum,
+            host: sessionHostSchema,
             status: sessionStatusEnum,
             startedAt: z.string(),
             lastAttemptAt: z.string(),
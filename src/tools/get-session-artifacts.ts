@@ -15,6 +15,11 @@ const artifactTypeEnum = z.enum([
   "command-output",
   "test-result",
   "git-commit",
+  "lint-result",
+  "build-result",
+  "dependency-change",
+  "http-request",
+  "migration",
 ]);
 const pageInfoSchema = z.object({
   total: z.number(),
@@ -56,6 +61,11 @@ export const getSessionArtifactsSchema = {
         commandOutput: z.number(),
         testResult: z.number(),
         gitCommit: z.number(),
+        lintResult: z.number(),
+        buildResult: z.number(),
+        dependencyChange: z.number(),
+        httpRequest: z.number(),
+        migration: z.number(),
       }),
     }),
     page: pageInfoSchema,
@@ -86,6 +96,30 @@ export const getSessionArtifactsSchema = {
         lintRuleId: z.string().nullable(),
         testSuite: z.string().nullable(),
         testCase: z.string().nullable(),
+        testId: z.string().nullable(),
+        durationMs: z.number().nullable(),
+        failureMessage: z.string().nullable(),
+        diagnosticSource: z.string().nullable(),
+        diagnosticFile: z.string().nullable(),
+        diagnosticLine: z.number().nullable(),
+        diagnosticSymbol: z.string().nullable(),
+        topFrame: z.string().nullable(),
+        linter: z.string().nullable(),
+        errorCount: z.number().nullable(),
+        warningCount: z.number().nullable(),
+        lintRuleIds: z.array(z.string()),
+        lintFiles: z.array(z.string()),
+        buildTool: z.string().nullable(),
+        outputFiles: z.array(z.string()),
+        dependencyVersions: z.array(z.string()),
+        httpClient: z.string().nullable(),
+        httpMethod: z.string().nullable(),
+        url: z.string().nullable(),
+        host: z.string().nullable(),
+        statusCode: z.number().nullable(),
+        migrationTool: z.string().nullable(),
+        migrationAction: z.string().nullable(),
+        migrationNames: z.array(z.string()),
         issueKey: z.string().nullable(),
         issueLabel: z.string().nullable(),
         issueFamilyKey: z.string().nullable(),
@@ -110,7 +144,7 @@ export const getSessionArtifactsSchema = {
 export const getSessionArtifactsMetadata = {
   title: "Get Session Artifacts",
   description:
-    "Return paginated deterministic artifacts extracted from a session history, including commands, tests, file changes, and git commits.",
+    "Return paginated deterministic artifacts extracted from a session history, including commands, tests, lint runs, builds, dependency changes, HTTP requests, migrations, file changes, and git commits.",
   ...sessionDetailUiMetadata,
 };
 
@@ -180,6 +214,30 @@ export function createGetSessionArtifactsHandler(db: EvidenceDatabase) {
             lintRuleId: metadata.lintRuleId,
             testSuite: metadata.testSuite,
             testCase: metadata.testCase,
+            testId: metadata.testId,
+            durationMs: metadata.durationMs,
+            failureMessage: metadata.failureMessage,
+            diagnosticSource: metadata.diagnosticSource,
+            diagnosticFile: metadata.diagnosticFile,
+            diagnosticLine: metadata.diagnosticLine,
+            diagnosticSymbol: metadata.diagnosticSymbol,
+            topFrame: metadata.topFrame,
+            linter: metadata.linter,
+            errorCount: metadata.errorCount,
+            warningCount: metadata.warningCount,
+            lintRuleIds: metadata.lintRuleIds,
+            lintFiles: metadata.lintFiles,
+            buildTool: metadata.buildTool,
+            outputFiles: metadata.outputFiles,
+            dependencyVersions: metadata.dependencyVersions,
+            httpClient: metadata.httpClient,
+            httpMethod: metadata.httpMethod,
+            url: metadata.url,
+            host: metadata.host,
+            statusCode: metadata.statusCode,
+            migrationTool: metadata.migrationTool,
+            migrationAction: metadata.migrationAction,
+            migrationNames: metadata.migrationNames,
             issueKey: metadata.issueKey,
             issueLabel: metadata.issueLabel,
             issueFamilyKey: metadata.issueFamilyKey,
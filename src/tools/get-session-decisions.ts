@@ -57,6 +57,8 @@ export const getSessionDecisionsSchema = {
         rationale: z.string().nullable(),
         status: z.enum(["proposed", "accepted", "rejected", "open"]),
         sourceRefs: z.array(z.object({ type: z.string(), id: z.string() })),
+        origin: z.enum(["derived", "explicit"]),
+        supersedes: z.array(z.string()),
         createdAt: z.string(),
       }),
     ),
@@ -66,7 +68,7 @@ export const getSessionDecisionsSchema = {
 export const getSessionDecisionsMetadata = {
   title: "Get Session Decisions",
   description:
-    "Return paginated derived decisions extracted from a session history.",
+    "Return paginated decisions for a session: those derived from its history and those an agent recorded explicitly with record-decision.",
   ...sessionDetailUiMetadata,
 };
 
@@ -9,9 +9,15 @@ import { wrapToolHandler } from "../lib/tool-wrapper.js";
 import type { EvidenceDatabase, NarrativeKind } from "../lib/storage/index.js";
 import { sessionDetailUiMetadata } from "./session-ui-metadata.js";
 
-function parseRefs(value: string): Array<{ type: string; id: string }> {
+function parseRefs(
+  value: string,
+): Array<{ type: string; id: string; claim?: number }> {
   try {
-    return JSON.parse(value) as Array<{ type: string; id: string }>;
+    return JSON.parse(value) as Array<{
+      type: string;
+      id: string;
+      claim?: number;
+    }>;
   } catch {
     return [];
   }
@@ -58,7 +64,13 @@ export const getSessionNarrativeSchema = {
         sessionId: z.string(),
         kind: z.enum(["journal", "project-summary", "handoff"]),
         content: z.string(),
-        sourceRefs: z.array(z.object({ type: z.string(), id: z.string() })),
+        sourceRefs: z.array(
+          z.object({
+            type: z.string(),
+            id: z.string(),
+            claim: z.number().optional(),
+          }),
+        ),
         createdAt: z.string(),
         updatedAt: z.string(),
       }),
@@ -9,8 +9,8 @@ import { formatSuccessResponse } from "../lib/tool-response.js";
 import { wrapToolHandler } from "../lib/tool-wrapper.js";
 import type { EvidenceDatabase } from "../lib/storage/index.js";
 import { sessionDetailUiMetadata } from "./session-ui-metadata.js";
+import { sessionHostSchema } from "./context-schemas.js";
 
-const sessionHostEnum = z.enum(["claude", "gemini", "codex"]);
 const sessionStatusEnum = z.enum([
   "running",
   "completed",
@@ -83,14 +83,14 @@ export const getSessionTrendsSchema = {
         globalAttempts: z.number(),
         sessionLatestOutcome: z.string(),
         latestOutcome: z.string(),
-        hosts: z.array(sessionHostEnum),
+        hosts: z.array(sessionHostSchema),
         statuses: z.array(sessionStatusEnum),
         relatedSessionCount: z.number(),
         relatedSessions: z.array(
           z.object({
             sessionId: z.string(),
             label: z.string(),
-            host: sessionHostEnum,
+            host: sessionHostSchema,
             status: sessionStatusEnum,
             lastAttemptAt: z.string(),
             attempts: z.number(),
@@ -11,8 +11,8 @@ import { formatSuccessResponse } from "../lib/tool-response.js";
 import { wrapToolHandler } from "../lib/tool-wrapper.js";
 import type { EvidenceDatabase } from "../lib/storage/index.js";
 import { sessionDetailUiMetadata } from "./session-ui-metadata.js";
+import { sessionHostSchema } from "./context-schemas.js";
 
-const sessionHostEnum = z.enum(["claude", "gemini", "codex"]);
 const sessionStatusEnum = z.enum([
   "running",
   "completed",
@@ -79,7 +79,7 @@ export const getSessionSchema = {
   outputSchema: {
     session: z.object({
       id: z.string(),
-      host: sessionHostEnum,
+      host: sessionHostSchema,
       title: z.string().nullable(),
       label: z.string(),
       status: sessionStatusEnum,
@@ -116,6 +116,11 @@ export const getSessionSchema = {
         commandOutput: z.number(),
         testResult: z.number(),
         gitCommit: z.number(),
+        lintResult: z.number(),
+        buildResult: z.number(),
+        dependencyChange: z.number(),
+        httpRequest: z.number(),
+        migration: z.number(),
       }),
     }),
     trendContext: z.object({
@@ -155,14 +160,14 @@ export const getSessionSchema = {
           globalAttempts: z.number(),
           sessionLatestOutcome: z.string(),
           latestOutcome: z.string(),
-          hosts: z.array(sessionHostEnum),
+          hosts: z.array(sessionHostSchema),
           statuses: z.array(sessionStatusEnum),
           relatedSessionCount: z.number(),
           relatedSessions: z.array(
             z.object({
               sessionId: z.string(),
               label: z.string(),
-              host: sessionHostEnum,
+              host: sessionHostSchema,
               status: sessionStatusEnum,
               lastAttemptAt: z.string(),
               attempts: z.number(),
@@ -201,13 +206,23 @@ export const getSessionSchema = {
       }),
     ),
     hasNarratives: z.boolean(),
+    evidence: z.array(
+      z.object({
+        id: z.string(),
+        timestamp: z.string(),
+        fromSeq: z.number().nullable(),
+        toSeq: z.number().nullable(),
+        messageCount: z.number(),
+        contentHash: z.string(),
+      }),
+    ),
   },
 };
 
 export const getSessionMetadata = {
   title: "Get Session",
   description:
-    "Inspect a recorded CLI session, including session metadata plus paginated transcript and timeline slices.",
+    "Inspect a recorded CLI session, including session metadata, paginated transcript and timeline slices, and footprints captured from it.",
   ...sessionDetailUiMetadata,
 };
 
@@ -284,6 +299,14 @@ export function createGetSessionHandler(db: EvidenceDatabase) {
         offset: trendOffset,
       });
       const hasNarratives = db.hasNarrativesForSession(params.id);
+      const evidence = db.findEvidenceBySessionId(params.id).map((record) => ({
+        id: record.id,
+        timestamp: record.timestamp,
+        fromSeq: record.sessionFromSeq,
+        toSeq: record.sessionToSeq,
+        messageCount: record.messageCount,
+        contentHash: record.contentHash,
+      }));
       const session = {
         id: sessionRecord.id,
         host: sessionRecord.host,
@@ -332,6 +355,7 @@ export function createGetSessionHandler(db: EvidenceDatabase) {
           Artifacts: artifactSummary.total,
           RecurringTrends: trendContext.summary.totalTrends,
           Narratives: hasNarratives ? "available" : "not generated",
+          Evidence: evidence.length,
         },
         {
           session,
@@ -344,6 +368,7 @@ export function createGetSessionHandler(db: EvidenceDatabase) {
           messages,
           timeline,
           hasNarratives,
+          evidence,
         },
       );
     },
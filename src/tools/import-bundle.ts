@@ -0,0 +1,113 @@
+/* global Buffer */
+import * as z from "zod";
+import { wrapToolHandler } from "../lib/tool-wrapper.js";
+import { formatSuccessResponse } from "../lib/tool-response.js";
+import {
+  BUNDLE_CONFLICT_MODES,
+  importBundle,
+  type BundleConflictMode,
+  type EvidenceDatabase,
+} from "../lib/storage/index.js";
+
+const conflictEnum = z.enum(
+  BUNDLE_CONFLICT_MODES as [BundleConflictMode, ...BundleConflictMode[]],
+);
+
+export const importBundleSchema = {
+  inputSchema: {
+    filePath: z
+      .string()
+      .optional()
+      .describe(
+        "Path to a ZIP written by export-footprints or export-sessions",
+      ),
+    base64Data: z
+      .string()
+      .optional()
+      .describe("The bundle as a base64 string, instead of filePath"),
+    conflict: conflictEnum
+      .default("skip")
+      .describe(
+        "When an ID already exists: 'skip' keeps the local record, 'replace' overwrites it, 're-id' imports the bundle copy under a new ID",
+      ),
+    bundlePassphrase: z
+      .string()
+      .optional()
+      .describe(
+        "Passphrase the evidence bundle was exported with. Defaults to this server's passphrase.",
+      ),
+  },
+  outputSchema: {
+    kind: z.enum(["evidence", "sessions"]),
+    formatVersion: z.string(),
+    conflict: conflictEnum,
+    imported: z.number(),
+    replaced: z.number(),
+    reassigned: z.number(),
+    skipped: z.number(),
+    entries: z.array(
+      z.object({
+        sourceId: z.string(),
+        id: z.string().nullable(),
+        status: z.enum(["imported", "replaced", "reassigned", "skipped"]),
+        provenance: z
+          .object({
+            lost: z.array(z.enum(["signature", "ledger-position"])),
+            originalSigningKeyId: z.string().nullable(),
+            signingKeyId: z.string(),
+          })
+          .optional(),
+      }),
+    ),
+  },
+};
+
+export const importBundleMetadata = {
+  title: "Import Bundle",
+  description:
+    "Import an export-footprints or export-sessions ZIP back into this database. Evidence bundles are verified, decrypted with the bundle passphrase, re-hashed, and re-encrypted with this server's key; imported footprints keep their trusted timestamps, are re-signed by this server's signing identity, and get a new ledger position; each entry's provenance lists the original signing key and what was lost. Session bundles restore messages, timeline, artifacts, narratives, decisions, and notes.",
+};
+
+export function createImportBundleHandler(
+  db: EvidenceDatabase,
+  getDerivedKey: () => Promise<Uint8Array>,
+  passphrase: string,
+) {
+  return wrapToolHandler(
+    "import-bundle",
+    "Check that the bundle was produced by export-footprints or export-sessions and that bundlePassphrase matches the exporting database.",
+    async (params: {
+      filePath?: string;
+      base64Data?: string;
+      conflict?: BundleConflictMode;
+      bundlePassphrase?: string;
+    }) => {
+      if (!params.filePath === !params.base64Data) {
+        throw new Error("Provide exactly one of filePath or base64Data");
+      }
+
+      const zipData = params.filePath
+        ? new Uint8Array((await import("fs")).readFileSync(params.filePath))
+        : new Uint8Array(Buffer.from(params.base64Data!, "base64"));
+      const result = await importBundle(db, zipData, {
+        conflict: params.conflict ?? "skip",
+        key: await getDerivedKey(),
+        bundlePassphrase: params.bundlePassphrase ?? passphrase,
+      });
+
+      return formatSuccessResponse(
+        "Bundle imported",
+        {
+          Kind: result.kind,
+          "Format Version": result.formatVersion,
+          Conflict: result.conflict,
+          Imported: result.imported,
+          Replaced: result.replaced,
+          Reassigned: result.reassigned,
+          Skipped: result.skipped,
+        },
+        { ...result },
+      );
+    },
+  );
+}
@@ -0,0 +1,79 @@
+import * as z from "zod";
+import { importSessionLogs } from "../importers/index.js";
+import { formatSuccessResponse } from "../lib/tool-response.js";
+import { wrapToolHandler } from "../lib/tool-wrapper.js";
+import type {
+  BuiltInSessionHost,
+  EvidenceDatabase,
+} from "../lib/storage/index.js";
+import type { IngestionRulesConfig } from "../ingestion/rules.js";
+import type { Redactor } from "../lib/redaction.js";
+
+const sessionHostEnum = z.enum(["claude", "gemini", "codex"]);
+
+export const importSessionLogsSchema = {
+  inputSchema: {
+    host: sessionHostEnum.describe("Host whose on-disk session logs to import"),
+    paths: z
+      .array(z.string())
+      .optional()
+      .describe(
+        "Log files or directories to import. If omitted, scans the host's default log directory (~/.claude/projects, ~/.codex/sessions, or ~/.gemini/tmp).",
+      ),
+  },
+  outputSchema: {
+    host: sessionHostEnum,
+    scanned: z.number(),
+    imported: z.number(),
+    updated: z.number(),
+    skipped: z.number(),
+    failed: z.number(),
+    files: z.array(
+      z.object({
+        sourcePath: z.string(),
+        status: z.enum(["imported", "updated", "skipped", "failed"]),
+        sessionId: z.string().nullable(),
+        entriesWritten: z.number(),
+        reason: z.string().nullable(),
+      }),
+    ),
+  },
+};
+
+export const importSessionLogsMetadata = {
+  title: "Import Session Logs",
+  description:
+    "Import existing Claude Code, Codex, or Gemini CLI session logs into session history and ingest them. Logs that were already imported are skipped; logs that grew since the last import are appended.",
+};
+
+export function createImportSessionLogsHandler(
+  db: EvidenceDatabase,
+  redactor?: Redactor,
+  rules?: IngestionRulesConfig,
+) {
+  return wrapToolHandler(
+    "import-session-logs",
+    "Check that the paths exist and point at session logs written by the selected host.",
+    async (params: { host: BuiltInSessionHost; paths?: string[] }) => {
+      const summary = importSessionLogs(db, {
+        host: params.host,
+        paths: params.paths,
+        redactor,
+        rules,
+      });
+
+      return formatSuccessResponse(
+        "Session logs imported",
+        {
+          Host: summary.host,
+          Scanned: summary.scanned,
+          Imported: summary.imported,
+          Updated: summary.updated,
+          Skipped: summary.skipped,
+          Failed: summary.failed,
+        },
+        { ...summary },
+      );
+    },
+  );
+}
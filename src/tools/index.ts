@@ -9,6 +9,12 @@ export {
   createCaptureFootprintHandler,
 } from "./capture-footprint.js";
 
+export {
+  captureSessionEvidenceSchema,
+  captureSessionEvidenceMetadata,
+  createCaptureSessionEvidenceHandler,
+} from "./capture-session-evidence.js";
+
 export {
   listFootprintsSchema,
   listFootprintsMetadata,
@@ -39,6 +45,23 @@ export {
   createVerifyFootprintHandler,
 } from "./verify-footprint.js";
 
+export {
+  verifyLedgerSchema,
+  verifyLedgerMetadata,
+  createVerifyLedgerHandler,
+} from "./verify-ledger.js";
+export {
+  flushTimestampQueueSchema,
+  flushTimestampQueueMetadata,
+  createFlushTimestampQueueHandler,
+} from "./flush-timestamp-queue.js";
+
+export {
+  importBundleSchema,
+  importBundleMetadata,
+  createImportBundleHandler,
+} from "./import-bundle.js";
+
 export {
   suggestCaptureSchema,
   suggestCaptureMetadata,
@@ -188,3 +211,21 @@ export {
   reingestSessionMetadata,
   createReingestSessionHandler,
 } from "./reingest-session.js";
+
+export {
+  importSessionLogsSchema,
+  importSessionLogsMetadata,
+  createImportSessionLogsHandler,
+} from "./import-session-logs.js";
+
+export {
+  recordDecisionSchema,
+  recordDecisionMetadata,
+  createRecordDecisionHandler,
+} from "./record-decision.js";
+
+export {
+  appendSessionNoteSchema,
+  appendSessionNoteMetadata,
+  createAppendSessionNoteHandler,
+} from "./append-session-note.js";
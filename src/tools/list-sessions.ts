@@ -8,8 +8,8 @@ import type {
   SessionStatus,
 } from "../lib/storage/index.js";
 import { sessionDashboardUiMetadata } from "./session-ui-metadata.js";
+import { sessionHostSchema } from "./context-schemas.js";
 
-const sessionHostEnum = z.enum(["claude", "gemini", "codex"]);
 const sessionStatusEnum = z.enum([
   "running",
   "completed",
@@ -23,10 +23,10 @@ export const listSessionsSchema = {
       .string()
       .optional()
       .describe(
-        "Optional text filter across metadata, transcript, and derived history",
+        "Optional search-history query across metadata, transcript, and derived history; every word must match",
       ),
     issueKey: z.string().optional().describe("Optional exact issue key filter"),
-    host: sessionHostEnum.optional().describe("Optional host filter"),
+    host: sessionHostSchema.optional().describe("Optional host filter"),
     status: sessionStatusEnum.optional().describe("Optional status filter"),
     limit: z
       .number()
@@ -45,7 +45,7 @@ export const listSessionsSchema = {
     sessions: z.array(
       z.object({
         id: z.string(),
-        host: sessionHostEnum,
+        host: sessionHostSchema,
         title: z.string().nullable(),
         label: z.string(),
         status: sessionStatusEnum,
@@ -58,7 +58,7 @@ export const listSessionsSchema = {
     filters: z.object({
       query: z.string().optional(),
       issueKey: z.string().optional(),
-      host: sessionHostEnum.optional(),
+      host: sessionHostSchema.optional(),
       status: sessionStatusEnum.optional(),
     }),
     total: z.number(),
@@ -0,0 +1,108 @@
+import * as z from "zod";
+import type { Redactor } from "../lib/redaction.js";
+import { resolveAnnotationSession } from "../lib/session-annotations.js";
+import { truncateSummary } from "../lib/session-history.js";
+import { formatSuccessResponse } from "../lib/tool-response.js";
+import { wrapToolHandler } from "../lib/tool-wrapper.js";
+import type { DecisionStatus, EvidenceDatabase } from "../lib/storage/index.js";
+
+const decisionStatusEnum = z.enum(["proposed", "accepted", "rejected", "open"]);
+
+export const recordDecisionSchema = {
+  inputSchema: {
+    title: z.string().min(1, "title is required").describe("Short decision"),
+    summary: z
+      .string()
+      .optional()
+      .describe("What was decided, in full. Defaults to the title."),
+    rationale: z.string().optional().describe("Why this option was chosen"),
+    status: decisionStatusEnum
+      .optional()
+      .describe("Decision status. Defaults to accepted."),
+    supersedes: z
+      .array(z.string())
+      .optional()
+      .describe(
+        "IDs of earlier decisions recorded with record-decision in the same session that this one replaces",
+      ),
+    sessionId: z
+      .string()
+      .optional()
+      .describe(
+        "Session to record into. Defaults to the session footprint run started for this agent.",
+      ),
+  },
+  outputSchema: {
+    sessionId: z.string(),
+    decision: z.object({
+      id: z.string(),
+      sessionId: z.string(),
+      title: z.string(),
+      summary: z.string(),
+      rationale: z.string().nullable(),
+      status: decisionStatusEnum,
+      origin: z.enum(["derived", "explicit"]),
+      supersedes: z.array(z.string()),
+      createdAt: z.string(),
+    }),
+  },
+};
+
+export const recordDecisionMetadata = {
+  title: "Record Decision",
+  description:
+    "Record a decision you made, with rationale and any decisions it supersedes, into your own recorded session. Recorded decisions are kept when the session is reingested.",
+};
+
+export function createRecordDecisionHandler(
+  db: EvidenceDatabase,
+  redactor?: Redactor,
+) {
+  return wrapToolHandler(
+    "record-decision",
+    "Run the agent under footprint run or pass sessionId, and only supersede decision IDs that record-decision returned for the same session.",
+    async (params: {
+      title: string;
+      summary?: string;
+      rationale?: string;
+      status?: DecisionStatus;
+      supersedes?: string[];
+      sessionId?: string;
+    }) => {
+      const session = resolveAnnotationSession(db, {
+        sessionId: params.sessionId,
+      });
+      const redact = (value: string) =>
+        redactor ? redactor.redactText(value).value : value;
+      const title = redact(params.title.trim());
+      const rationale = params.rationale?.trim();
+
+      const decision = db.recordDecision({
+        sessionId: session.id,
+        title: truncateSummary(title, 72),
+        summary: params.summary?.trim() ? redact(params.summary.trim()) : title,
+        rationale: rationale ? redact(rationale) : null,
+        status: params.status ?? "accepted",
+        sourceRefs: "[]",
+        supersedes: [
+          ...new Set(params.supersedes?.map((id) => id.trim()) ?? []),
+        ].filter(Boolean),
+      });
+      const { sourceRefs: _sourceRefs, ...decisionOutput } = decision;
+
+      return formatSuccessResponse(
+        "Decision recorded",
+        {
+          Session: session.id,
+          Decision: decision.id,
+          Status: decision.status,
+          Supersedes: decision.supersedes.join(", ") || null,
+        },
+        {
+          sessionId: session.id,
+          decision: decisionOutput,
+        },
+      );
+    },
+  );
+}
@@ -1,19 +1,33 @@
 import * as z from "zod";
-import { reingestSessionHistory } from "../ingestion/index.js";
+import {
+  reingestSessionHistory,
+  reingestSessionHistoryWithSampling,
+  type SamplingClient,
+} from "../ingestion/index.js";
 import { formatSuccessResponse } from "../lib/tool-response.js";
 import { wrapToolHandler } from "../lib/tool-wrapper.js";
 import type { EvidenceDatabase } from "../lib/storage/index.js";
+import type { IngestionRulesConfig } from "../ingestion/rules.js";
+import type { Redactor } from "../lib/redaction.js";
 import { sessionDetailUiMetadata } from "./session-ui-metadata.js";
 
 export const reingestSessionSchema = {
   inputSchema: {
     id: z.string().describe("ID of the recorded session to reingest"),
+    useSampling: z
+      .boolean()
+      .optional()
+      .describe(
+        "Draft narratives and decisions with the client's model through MCP sampling. Claims the model cannot cite sources for keep the rule-based drafts. Defaults to false.",
+      ),
   },
   outputSchema: {
     sessionId: z.string(),
     artifactsCreated: z.number(),
     narrativesCreated: z.number(),
     decisionsCreated: z.number(),
+    semanticSource: z.enum(["sampling", "deterministic"]),
+    fallbackReason: z.string().nullable(),
   },
 };
 
@@ -24,11 +38,16 @@ export const reingestSessionMetadata = {
   ...sessionDetailUiMetadata,
 };
 
-export function createReingestSessionHandler(db: EvidenceDatabase) {
+export function createReingestSessionHandler(
+  db: EvidenceDatabase,
+  redactor?: Redactor,
+  rules?: IngestionRulesConfig,
+  sampling?: SamplingClient,
+) {
   return wrapToolHandler(
     "reingest-session",
     "Verify the session exists, is no longer running, and that raw session history is available.",
-    async (params: { id: string }) => {
+    async (params: { id: string; useSampling?: boolean }) => {
       const session = db.findSessionById(params.id);
       if (!session) {
         throw new Error(`Session not found: ${params.id}`);
@@ -40,7 +59,20 @@ export function createReingestSessionHandler(db: EvidenceDatabase) {
         );
       }
 
-      const summary = reingestSessionHistory(db, params.id);
+      const summary =
+        params.useSampling && sampling
+          ? await reingestSessionHistoryWithSampling(db, params.id, {
+              sampling,
+              redactor,
+              rules,
+            })
+          : {
+              ...reingestSessionHistory(db, params.id, { redactor, rules }),
+              semanticSource: "deterministic" as const,
+              fallbackReason: params.useSampling
+                ? "Sampling is not available on this server"
+                : null,
+            };
       return formatSuccessResponse(
         "Session reingested successfully",
         {
@@ -48,6 +80,7 @@ export function createReingestSessionHandler(db: EvidenceDatabase) {
           Artifacts: summary.artifactsCreated,
           Narratives: summary.narrativesCreated,
           Decisions: summary.decisionsCreated,
+          Semantic: summary.semanticSource,
         },
         {
           sessionId: params.id,
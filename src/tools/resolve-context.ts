@@ -3,14 +3,17 @@ import { resolveContext } from "../lib/context-memory.js";
 import { formatSuccessResponse } from "../lib/tool-response.js";
 import { wrapToolHandler } from "../lib/tool-wrapper.js";
 import type { EvidenceDatabase, SessionHost } from "../lib/storage/index.js";
-import { contextResolutionSchema, sessionHostEnum } from "./context-schemas.js";
+import {
+  contextResolutionSchema,
+  sessionHostSchema,
+} from "./context-schemas.js";
 
 export const resolveContextSchema = {
   inputSchema: {
     sessionId: z.string().optional(),
     cwd: z.string().optional(),
     title: z.string().optional(),
-    host: sessionHostEnum.optional(),
+    host: sessionHostSchema.optional(),
   },
   outputSchema: contextResolutionSchema.shape,
 };
@@ -1,5 +1,4 @@
 import * as z from "zod";
-import { collectSessionSearchableText } from "../lib/session-filters.js";
 import { getSessionLabel } from "../lib/session-history.js";
 import { formatSuccessResponse } from "../lib/tool-response.js";
 import { wrapToolHandler } from "../lib/tool-wrapper.js";
@@ -9,29 +8,16 @@ import type {
   SessionStatus,
 } from "../lib/storage/index.js";
 import { sessionDashboardUiMetadata } from "./session-ui-metadata.js";
-
-function collectSnippets(
-  textNeedle: string,
-  haystack: string[],
-  limit: number = 3,
-): string[] {
-  const loweredNeedle = textNeedle.toLowerCase();
-  return haystack
-    .filter((item) => item.toLowerCase().includes(loweredNeedle))
-    .slice(0, limit);
-}
+import { sessionHostSchema } from "./context-schemas.js";
 
 export const searchHistorySchema = {
   inputSchema: {
     query: z
       .string()
       .describe(
-        "Text to search across sessions, messages, narratives, and decisions",
+        'Full-text query across sessions, messages, artifacts, narratives, and decisions. Terms match whole words, not substrings, and all of them must match; supports "quoted phrases", prefix*, OR, and NOT term / -term. A query with no words, such as "--", matches nothing.',
       ),
-    host: z
-      .enum(["claude", "gemini", "codex"])
-      .optional()
-      .describe("Optional host filter"),
+    host: sessionHostSchema.optional().describe("Optional host filter"),
     status: z
       .enum(["running", "completed", "failed", "interrupted"])
       .optional()
@@ -42,7 +28,7 @@ export const searchHistorySchema = {
   outputSchema: {
     query: z.string(),
     filters: z.object({
-      host: z.enum(["claude", "gemini", "codex"]).optional(),
+      host: sessionHostSchema.optional(),
       status: z
         .enum(["running", "completed", "failed", "interrupted"])
         .optional(),
@@ -50,10 +36,11 @@ export const searchHistorySchema = {
     results: z.array(
       z.object({
         sessionId: z.string(),
-        host: z.enum(["claude", "gemini", "codex"]),
+        host: sessionHostSchema,
         label: z.string(),
         status: z.enum(["running", "completed", "failed", "interrupted"]),
         startedAt: z.string(),
+        score: z.number().nullable(),
         snippets: z.array(z.string()),
       }),
     ),
@@ -64,7 +51,7 @@ export const searchHistorySchema = {
 export const searchHistoryMetadata = {
   title: "Search History",
   description:
-    "Search recorded session history across session metadata, transcript, artifacts, narratives, and decisions.",
+    "Search recorded session history across session metadata, transcript, artifacts, narratives, and decisions. Results are ranked by relevance and include snippets with matched terms wrapped in **.",
   ...sessionDashboardUiMetadata,
 };
 
@@ -90,31 +77,24 @@ export function createSearchHistoryHandler(db: EvidenceDatabase) {
         throw new Error("Offset cannot be negative");
       }
 
-      const matchedSessions = db.querySessionsByHistory({
+      const matchedSessions = db.searchSessionHistory({
         host: params.host,
         status: params.status,
         query,
         limit: params.limit,
         offset: params.offset,
       });
-      const paginated = matchedSessions.sessions
-        .map((session) => {
-          const searchable = collectSessionSearchableText(db, session);
-          const snippets = collectSnippets(query, searchable);
-          return snippets.length > 0
-            ? {
-                sessionId: session.id,
-                host: session.host,
-                label: getSessionLabel(session),
-                status: session.status,
-                startedAt: session.startedAt,
-                snippets,
-              }
-            : null;
-        })
-        .filter((result): result is NonNullable<typeof result> =>
-          Boolean(result),
-        );
+      const paginated = matchedSessions.results.map(
+        ({ session, score, snippets }) => ({
+          sessionId: session.id,
+          host: session.host,
+          label: getSessionLabel(session),
+          status: session.status,
+          startedAt: session.startedAt,
+          score,
+          snippets,
+        }),
+      );
 
       return formatSuccessResponse(
         "Session history search completed successfully",
@@ -1,9 +1,22 @@
+/* global Buffer */
 import * as z from "zod";
 import * as crypto from "crypto";
 import { wrapToolHandler } from "../lib/tool-wrapper.js";
 import { createToolResponse } from "../lib/tool-response.js";
-import { decrypt } from "../lib/crypto/index.js";
-import type { EvidenceDatabase } from "../lib/storage/index.js";
+import {
+  decrypt,
+  getSigningKeyId,
+  verifyDetached,
+} from "../lib/crypto/index.js";
+import {
+  retrieveSigningCreatedAt,
+  retrieveSigningPublicKey,
+  type EvidenceDatabase,
+} from "../lib/storage/index.js";
+import {
+  checkEvidenceTimestamp,
+  type TimestampConfig,
+} from "../lib/trusted-timestamp.js";
 
 export const verifyFootprintSchema = {
   inputSchema: {
@@ -26,8 +39,33 @@ export const verifyFootprintSchema = {
         passed: z.boolean(),
         algorithm: z.string(),
       }),
+      signature: z.object({
+        passed: z.boolean(),
+        signed: z.boolean(),
+        required: z.boolean(),
+        keyId: z.string().nullable(),
+        algorithm: z.string(),
+      }),
+      trustedTimestamp: z.object({
+        passed: z.boolean(),
+        present: z.boolean(),
+        requested: z.boolean(),
+        queued: z.boolean(),
+        genTime: z.string().nullable(),
+        authority: z.string().nullable(),
+        trusted: z.boolean().nullable(),
+        error: z.string().nullable(),
+      }),
     }),
     integrityVerified: z.boolean(),
+    session: z
+      .object({
+        id: z.string(),
+        fromSeq: z.number().nullable(),
+        toSeq: z.number().nullable(),
+        exists: z.boolean(),
+      })
+      .nullable(),
     verifiedAt: z.string(),
   },
 };
@@ -35,12 +73,13 @@ export const verifyFootprintSchema = {
 export const verifyFootprintMetadata = {
   title: "Verify Footprint",
   description:
-    "Verify the cryptographic integrity and authenticity of a captured footprint. Checks SHA-256 content hash, XChaCha20-Poly1305 decryption, and Git timestamp anchor. Returns integrityVerified: true only when all crypto checks pass.",
+    "Verify the cryptographic integrity and authenticity of a captured footprint. Checks SHA-256 content hash, XChaCha20-Poly1305 decryption, the Ed25519 signature over the content hash, the RFC 3161 trusted timestamp token, and Git timestamp anchor, and reports the recorded session a footprint was captured from. Returns integrityVerified: true only when all crypto checks pass; footprints captured before the signing identity was created are reported as unsigned, footprints captured after it fail without a valid signature, and footprints never sent to a timestamp authority as unstamped, without failing. A timestamp token that was requested but is missing fails; a token is reported as unverified, not passed, unless trustedCertificates are configured.",
 };
 
 export function createVerifyFootprintHandler(
   db: EvidenceDatabase,
   getDerivedKey: () => Promise<Uint8Array>,
+  timestampConfig: TimestampConfig,
 ) {
   return wrapToolHandler(
     "verify-footprint",
@@ -66,6 +105,19 @@ export function createVerifyFootprintHandler(
           passed: false,
           algorithm: "XChaCha20-Poly1305",
         },
+        signature: {
+          passed: false,
+          signed: !!evidence.signature,
+          required: false,
+          keyId: evidence.signingKeyId,
+          algorithm: "Ed25519",
+        },
+        trustedTimestamp: checkEvidenceTimestamp(
+          evidence,
+          timestampConfig,
+          !evidence.timestampToken &&
+            db.findTimestampQueueEntry(evidence.id) !== null,
+        ),
       };
 
       // Single decryption for both content integrity and encryption status checks
@@ -94,6 +146,24 @@ export function createVerifyFootprintHandler(
         checks.encryptionStatus.passed = false;
       }
 
+      // Signature: checked against the stored public key, no passphrase needed
+      const publicKey = retrieveSigningPublicKey(db.getDb());
+      const signingCreatedAt = retrieveSigningCreatedAt(db.getDb());
+      // Anything stored once the identity existed was signed when it was
+      // written, so a missing signature means it was stripped
+      checks.signature.required =
+        signingCreatedAt !== null && evidence.createdAt >= signingCreatedAt;
+      checks.signature.passed = !!(
+        evidence.signature &&
+        publicKey &&
+        evidence.signingKeyId === getSigningKeyId(publicKey) &&
+        verifyDetached(
+          evidence.contentHash,
+          new Uint8Array(Buffer.from(evidence.signature, "base64")),
+          publicKey,
+        )
+      );
+
       // Git Timestamp: Check if gitCommitHash exists and gitTimestamp is valid
       checks.gitTimestamp.commitHash = evidence.gitCommitHash;
       checks.gitTimestamp.timestamp = evidence.gitTimestamp;
@@ -104,28 +174,68 @@ export function createVerifyFootprintHandler(
       // Verification based on crypto integrity only; git timestamp is supplementary
       const hashValid = checks.contentIntegrity.passed;
       const signatureValid = checks.encryptionStatus.passed;
-      const verified = hashValid && signatureValid;
+      // Legacy unsigned or unstamped footprints still verify; a bad or
+      // stripped signature or timestamp token never does. A token without
+      // trust anchors is unverified but does not fail.
+      const verified =
+        hashValid &&
+        signatureValid &&
+        (checks.signature.signed
+          ? checks.signature.passed
+          : !checks.signature.required) &&
+        checks.trustedTimestamp.error === null;
       const gitTimestampVerified = checks.gitTimestamp.passed;
       const integrityVerified = verified;
 
+      // Session link is informational; a pruned session does not fail verification
+      const session = evidence.sessionId
+        ? {
+            id: evidence.sessionId,
+            fromSeq: evidence.sessionFromSeq,
+            toSeq: evidence.sessionToSeq,
+            exists: db.findSessionById(evidence.sessionId) !== null,
+          }
+        : null;
+      const sessionLine = session
+        ? `\n- Session: ${session.exists ? "✓" : "✗"} ${session.id} (messages ${session.fromSeq ?? "?"}-${session.toSeq ?? "?"})${session.exists ? "" : " no longer recorded"}`
+        : "";
+
       const statusSymbols = {
         content: checks.contentIntegrity.passed ? "✓" : "✗",
         git: checks.gitTimestamp.passed ? "✓" : "✗",
         encryption: checks.encryptionStatus.passed ? "✓" : "✗",
+        signature: checks.signature.passed ? "✓" : "✗",
       };
+      const signatureLine = checks.signature.signed
+        ? `\n- Signature: ${statusSymbols.signature} Ed25519 (key ${checks.signature.keyId ?? "unknown"})`
+        : checks.signature.required
+          ? "\n- Signature: ✗ Missing; footprints captured after the signing identity was created must be signed"
+          : "\n- Signature: – Unsigned";
+      const { trustedTimestamp } = checks;
+      const trustedTimestampLine = trustedTimestamp.error
+        ? `\n- Trusted Timestamp: ✗ ${trustedTimestamp.error}`
+        : trustedTimestamp.present
+          ? trustedTimestamp.passed
+            ? `\n- Trusted Timestamp: ✓ RFC 3161 ${trustedTimestamp.genTime} (${trustedTimestamp.authority})`
+            : `\n- Trusted Timestamp: – Unverified RFC 3161 ${trustedTimestamp.genTime} (${trustedTimestamp.authority}); no trusted TSA certificates configured`
+          : `\n- Trusted Timestamp: – ${trustedTimestamp.queued ? "Queued for the timestamp authority" : "Not stamped"}`;
 
       const statusText = verified
         ? `✅ Evidence ${params.id} verified successfully\n- Content: ${statusSymbols.content} Integrity preserved\n- Git: ${statusSymbols.git} Timestamp verified\n- Encryption: ${statusSymbols.encryption} XChaCha20-Poly1305`
         : `❌ Evidence ${params.id} verification failed\n- Content: ${statusSymbols.content} Integrity check\n- Git: ${statusSymbols.git} Timestamp check\n- Encryption: ${statusSymbols.encryption} Decryption check`;
 
-      return createToolResponse(statusText, {
-        id: params.id,
-        verified,
-        gitTimestampVerified,
-        checks,
-        integrityVerified,
-        verifiedAt: new Date().toISOString(),
-      });
+      return createToolResponse(
+        statusText + signatureLine + trustedTimestampLine + sessionLine,
+        {
+          id: params.id,
+          verified,
+          gitTimestampVerified,
+          checks,
+          integrityVerified,
+          session,
+          verifiedAt: new Date().toISOString(),
+        },
+      );
     },
   );
 }
@@ -0,0 +1,60 @@
+import * as z from "zod";
+import { createToolResponse } from "../lib/tool-response.js";
+import { wrapToolHandler } from "../lib/tool-wrapper.js";
+import type { EvidenceDatabase } from "../lib/storage/index.js";
+
+export const verifyLedgerSchema = {
+  inputSchema: {},
+  outputSchema: {
+    verified: z.boolean(),
+    entries: z.number(),
+    deleted: z.number(),
+    head: z.object({ seq: z.number(), hash: z.string() }).nullable(),
+    issues: z.array(
+      z.object({
+        kind: z.enum([
+          "gap",
+          "reordered",
+          "edited",
+          "unchained",
+          "head-mismatch",
+          "unsigned",
+        ]),
+        seq: z.number().nullable(),
+        evidenceId: z.string().nullable(),
+        message: z.string(),
+      }),
+    ),
+    verifiedAt: z.string(),
+  },
+};
+
+export const verifyLedgerMetadata = {
+  title: "Verify Evidence Ledger",
+  description:
+    "Walk the hash-chained evidence ledger from the first record to the stored head. Reports records deleted, reordered, or edited outside Footprint, and rows inserted without a ledger entry. Deletions made through Footprint leave tombstones and still verify. Once a signing identity exists, tombstones and the head must carry its signature.",
+};
+
+export function createVerifyLedgerHandler(db: EvidenceDatabase) {
+  return wrapToolHandler(
+    "verify-ledger",
+    "Run against a Footprint database created or upgraded to the ledger schema.",
+    async () => {
+      const result = db.verifyLedger();
+      const summary = `${result.entries} entries, ${result.deleted} deleted through Footprint`;
+      const statusText = result.verified
+        ? `✅ Evidence ledger verified (${summary})`
+        : [
+            `❌ Evidence ledger verification failed (${summary})`,
+            ...result.issues.map(
+              (issue) => `- ${issue.kind}: ${issue.message}`,
+            ),
+          ].join("\n");
+
+      return createToolResponse(statusText, {
+        ...result,
+        verifiedAt: new Date().toISOString(),
+      });
+    },
+  );
+}
@@ -8,6 +8,9 @@ export interface ServerConfig {
   /** Password for encrypting/decrypting evidence */
   password: string;
 
+  /** Encrypt session history at rest with the evidence key (opt-in, sticky) */
+  encryptSessionHistory?: boolean;
+
   /** Optional override for the built MCP app UI directory */
   uiDistDir?: string;
 
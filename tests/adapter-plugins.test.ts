@@ -0,0 +1,357 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { tmpdir } from "node:os";
+import { fileURLToPath } from "node:url";
+import {
+  checkAdapterConformance,
+  createRuleAdapter,
+  findAdapterPlugin,
+  getHostAdapter,
+  loadAdapterSample,
+  parseAdapterConfig,
+  resolveAdapterConfigPath,
+  type HostAdapter,
+} from "../src/adapters/index.js";
+
+const pluginModulePath = fileURLToPath(
+  new URL("./fixtures/adapter-plugin.mjs", import.meta.url),
+);
+const context = { host: "acme", cwd: "/tmp/project", args: [] };
+
+function ruleAdapter(rules: unknown[]): HostAdapter {
+  const config = parseAdapterConfig({ adapters: [{ name: "acme", rules }] });
+  return createRuleAdapter({
+    host: "acme",
+    name: "acme-adapter",
+    rules: config.adapters[0]!.rules!,
+  });
+}
+
+describe("Declarative adapter rules", () => {
+  it("maps JSON event lines to envelopes with typed payload values", () => {
+    const adapter = ruleAdapter([
+      {
+        match: "^\\{.*\\}$",
+        json: true,
+        when: { "json.type": "tool" },
+        event: {
+          eventType: "tool.{json.phase}",
+          eventSubType: "{json.name}",
+          summary: "Ran {json.name} in {json.ms}ms",
+          status: "{json.status}",
+          payload: { input: "{json.input}", label: "tool {json.name}" },
+        },
+      },
+    ]);
+
+    expect(
+      adapter.parseLine(
+        JSON.stringify({
+          type: "tool",
+          phase: "completed",
+          name: "bash",
+          ms: 42,
+          input: { command: "pnpm test" },
+        }),
+        "stdout",
+        context,
+      ),
+    ).toEqual({
+      handled: true,
+      suppressTranscript: true,
+      events: [
+        {
+          eventType: "tool.completed",
+          eventSubType: "bash",
+          summary: "Ran bash in 42ms",
+          status: null,
+          content: null,
+          relatedMessageRole: null,
+          payload: {
+            input: { command: "pnpm test" },
+            label: "tool bash",
+            stream: "stdout",
+          },
+        },
+      ],
+    });
+    expect(
+      adapter.parseLine('{"type":"message"}', "stdout", context),
+    ).toBeNull();
+  });
+
+  it("uses named groups, stream filters, and the first matching rule", () => {
+    const adapter = ruleAdapter([
+      {
+        match: "^WARN (?<code>\\w+): (?<text>.*)$",
+        stream: "stderr",
+        suppressTranscript: false,
+        event: {
+          eventType: "error.observed",
+          eventSubType: "{code}",
+          summary: "{text}",
+        },
+      },
+      {
+        match: "^(?<role>assistant|user)> (?<text>.*)$",
+        event: {
+          eventType: "message.{role}.captured",
+          content: "{text}",
+          relatedMessageRole: "assistant",
+        },
+      },
+    ]);
+
+    expect(
+      adapter.parseLine("WARN E42: disk almost full", "stderr", context),
+    ).toMatchObject({
+      suppressTranscript: false,
+      events: [{ eventSubType: "E42", summary: "disk almost full" }],
+    });
+    expect(
+      adapter.parseLine("WARN E42: disk almost full", "stdout", context),
+    ).toBeNull();
+    expect(
+      adapter.parseLine("assistant> Done.", "stdout", context)?.events,
+    ).toEqual([
+      expect.objectContaining({
+        eventType: "message.assistant.captured",
+        content: "Done.",
+        relatedMessageRole: "assistant",
+      }),
+    ]);
+  });
+
+  it("records malformed JSON lines as parse errors", () => {
+    const adapter = ruleAdapter([
+      {
+        match: "^EVENT (?<json>.*)$",
+        json: true,
+        event: { eventType: "{json.eventType}" },
+      },
+    ]);
+
+    expect(adapter.parseLine("EVENT {oops", "stdout", context)).toMatchObject({
+      handled: true,
+      suppressTranscript: false,
+      events: [{ eventType: "error.observed", status: "parse-error" }],
+    });
+  });
+});
+
+describe("Adapter plugin config", () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(tmpdir(), "footprint-adapters-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it("rejects plugins that are ambiguous or shadow built-in hosts", () => {
+    expect(() =>
+      parseAdapterConfig({ adapters: [{ name: "claude", rules: [] }] }),
+    ).toThrow("adapters.0.name: Adapter names cannot shadow built-in hosts");
+    expect(() =>
+      parseAdapterConfig({
+        adapters: [{ name: "acme", module: "./a.mjs", rules: [] }],
+      }),
+    ).toThrow("Each adapter needs exactly one of module or rules");
+    expect(() =>
+      parseAdapterConfig({
+        adapters: [
+          { name: "acme", rules: [] },
+          { name: "acme", module: "./a.mjs" },
+        ],
+      }),
+    ).toThrow('Duplicate adapter name "acme"');
+    expect(() =>
+      parseAdapterConfig({
+        adapters: [
+          {
+            name: "acme",
+            rules: [{ match: "(", event: { eventType: "x" } }],
+          },
+        ],
+      }),
+    ).toThrow("adapters.0.rules.0.match");
+  });
+
+  it("loads module and rule plugins from adapters.json next to the database", async () => {
+    const configPath = resolveAdapterConfigPath(
+      path.join(tempDir, "footprint.db"),
+      {},
+    );
+    expect(configPath).toBe(path.join(tempDir, "adapters.json"));
+    fs.copyFileSync(pluginModulePath, path.join(tempDir, "acme-plugin.mjs"));
+    fs.writeFileSync(
+      configPath,
+      JSON.stringify({
+        adapters: [
+          {
+            name: "acme",
+            command: "acme-cli",
+            args: ["--events"],
+            module: "./acme-plugin.mjs",
+          },
+          {
+            name: "widget",
+            rules: [{ match: "^DONE$", event: { eventType: "session.done" } }],
+          },
+        ],
+      }),
+    );
+
+    const acme = await findAdapterPlugin(configPath, "acme");
+    expect(acme).toMatchObject({
+      name: "acme",
+      kind: "module",
+      command: "acme-cli",
+      args: ["--events"],
+    });
+    expect(acme?.adapter.host).toBe("acme");
+    expect(
+      acme?.adapter.parseLine("ACME test.completed 3 passed", "stdout", context)
+        ?.events,
+    ).toEqual([
+      {
+        eventType: "test.completed",
+        summary: "3 passed",
+        payload: { stream: "stdout" },
+      },
+    ]);
+
+    const widget = await findAdapterPlugin(configPath, "widget");
+    expect(widget).toMatchObject({ kind: "rules", command: "widget" });
+    expect(widget?.adapter.name).toBe("widget-adapter");
+    await expect(findAdapterPlugin(configPath, "missing")).resolves.toBeNull();
+  });
+
+  it("rejects module plugins that do not export an adapter", async () => {
+    const configPath = path.join(tempDir, "adapters.json");
+    fs.writeFileSync(path.join(tempDir, "empty.mjs"), "export const x = 1;\n");
+    fs.writeFileSync(
+      configPath,
+      JSON.stringify({ adapters: [{ name: "empty", module: "./empty.mjs" }] }),
+    );
+
+    await expect(findAdapterPlugin(configPath, "empty")).rejects.toThrow(
+      'Adapter plugin "empty"',
+    );
+  });
+});
+
+describe("Adapter conformance harness", () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(tmpdir(), "footprint-conformance-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it("passes built-in adapters against sample logs with expected events", () => {
+    const samplePath = path.join(tempDir, "gemini.log");
+    fs.writeFileSync(
+      samplePath,
+      [
+        "plain output",
+        'FOOTPRINT_GEMINI_EVENT {"eventType":"tool.started","summary":"shell"}',
+        "FOOTPRINT_GEMINI_EVENT {broken",
+        "",
+      ].join("\n"),
+    );
+    fs.writeFileSync(
+      `${samplePath}.expected.json`,
+      JSON.stringify([
+        {
+          eventType: "tool.started",
+          summary: "shell",
+          payload: { stream: "stdout" },
+        },
+        {
+          eventType: "error.observed",
+          summary: "gemini-adapter failed to parse host event",
+          payload: {
+            line: "FOOTPRINT_GEMINI_EVENT {broken",
+            stream: "stdout",
+          },
+          status: "parse-error",
+        },
+      ]),
+    );
+
+    const report = checkAdapterConformance(getHostAdapter("gemini"), [
+      loadAdapterSample(samplePath),
+    ]);
+
+    expect(report).toEqual({
+      adapter: "gemini-adapter",
+      host: "gemini",
+      passed: true,
+      samples: 1,
+      lines: 3,
+      handledLines: 2,
+      events: 2,
+      parseErrors: 1,
+      eventTypes: { "tool.started": 1, "error.observed": 1 },
+      issues: [],
+    });
+  });
+
+  it("reports adapters that throw, return bad envelopes, or drift from expectations", () => {
+    const adapter: HostAdapter = {
+      host: "acme",
+      name: "broken-adapter",
+      parseLine(line) {
+        if (line === "throw") throw new Error("boom");
+        if (line === "bad") {
+          return { handled: true, events: [{ summary: "no type" } as never] };
+        }
+        return {
+          handled: true,
+          events: [{ eventType: "log.line", summary: line }],
+        };
+      },
+      onSessionEnd: () => [{ eventType: "", summary: "end" }],
+    };
+
+    const report = checkAdapterConformance(adapter, [
+      {
+        name: "sample.log",
+        stream: "stdout",
+        lines: ["throw", "bad", "ok"],
+        expected: [{ eventType: "log.line", summary: "different" }],
+      },
+    ]);
+
+    expect(report.passed).toBe(false);
+    expect(report.issues).toEqual([
+      { sample: "sample.log", line: 1, message: "parseLine threw: boom" },
+      {
+        sample: "sample.log",
+        line: 2,
+        message: expect.stringContaining(
+          "Event 1 is not a valid envelope: eventType",
+        ),
+      },
+      {
+        sample: "sample.log",
+        line: null,
+        message: expect.stringContaining("Event 1 is not a valid envelope"),
+      },
+      {
+        sample: "sample.log",
+        line: null,
+        message: expect.stringContaining(
+          'Event 1 differs from the expected events: expected {"eventType":"log.line","summary":"different"}',
+        ),
+      },
+    ]);
+  });
+});
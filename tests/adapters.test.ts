@@ -1,5 +1,10 @@
 import { describe, expect, it } from "vitest";
 import { getHostAdapter } from "../src/adapters/index.js";
+import { createClaudeStreamAdapter } from "../src/adapters/claude.js";
+import {
+  parseSessionHost,
+  resolveGenericHostLabel,
+} from "../src/lib/session-hosts.js";
 
 const adapterContext = {
   host: "claude" as const,
@@ -62,4 +67,249 @@ describe("Host adapters", () => {
       summary: "gemini-adapter failed to parse host event",
     });
   });
+
+  it("falls back to a pass-through adapter for generic hosts", () => {
+    const adapter = getHostAdapter("pytest");
+    const context = { ...adapterContext, host: "pytest" };
+
+    expect(adapter.name).toBe("generic-adapter");
+    expect(
+      adapter.parseLine("collected 12 items", "stdout", context),
+    ).toBeNull();
+    expect(
+      adapter.parseLine(
+        'FOOTPRINT_EVENT {"eventType":"test.completed","summary":"12 passed"}',
+        "stdout",
+        context,
+      ),
+    ).toMatchObject({
+      suppressTranscript: true,
+      events: [{ eventType: "test.completed", summary: "12 passed" }],
+    });
+  });
+
+  it("parses Claude stream-json output into structured timeline events", () => {
+    const adapter = createClaudeStreamAdapter();
+    const context = { ...adapterContext, cwd: "/tmp/project" };
+    adapter.onSessionStart?.(context);
+    const lines = [
+      {
+        type: "system",
+        subtype: "init",
+        session_id: "host-session-1",
+        model: "claude-sonnet-4-5",
+        cwd: "/tmp/project",
+        tools: ["Bash", "Edit"],
+      },
+      {
+        type: "assistant",
+        message: {
+          id: "msg_1",
+          model: "claude-sonnet-4-5",
+          content: [
+            { type: "text", text: "Running the tests first." },
+            {
+              type: "tool_use",
+              id: "toolu_bash",
+              name: "Bash",
+              input: { command: "pnpm test", description: "Run tests" },
+            },
+            {
+              type: "tool_use",
+              id: "toolu_edit",
+              name: "Edit",
+              input: { file_path: "/tmp/project/src/app.ts" },
+            },
+          ],
+          usage: { input_tokens: 120, output_tokens: 40 },
+        },
+        parent_tool_use_id: null,
+      },
+      {
+        type: "user",
+        message: {
+          role: "user",
+          content: [
+            {
+              type: "tool_result",
+              tool_use_id: "toolu_bash",
+              content: "Exit code 1\nFAIL src/app.test.ts",
+              is_error: true,
+            },
+            {
+              type: "tool_result",
+              tool_use_id: "toolu_edit",
+              content: [{ type: "text", text: "File updated" }],
+            },
+          ],
+        },
+        parent_tool_use_id: null,
+      },
+      {
+        type: "result",
+        subtype: "success",
+        is_error: false,
+        num_turns: 3,
+        total_cost_usd: 0.0123,
+        duration_ms: 4200,
+        usage: { input_tokens: 500, output_tokens: 90 },
+      },
+    ].map((line) => adapter.parseLine(JSON.stringify(line), "stdout", context));
+
+    for (const result of lines) {
+      expect(result).toMatchObject({ handled: true, suppressTranscript: true });
+    }
+
+    expect(lines[0]?.events?.[0]).toMatchObject({
+      eventType: "session.host.initialized",
+      summary: "Claude session initialized (claude-sonnet-4-5)",
+      payload: { hostSessionId: "host-session-1" },
+    });
+    expect(
+      lines[1]?.events?.map((event) => [event.eventType, event.eventSubType]),
+    ).toEqual([
+      ["message.assistant.completed", undefined],
+      ["tool.started", "Bash"],
+      ["command.started", "claude"],
+      ["tool.started", "Edit"],
+    ]);
+    expect(lines[1]?.events?.[0]).toMatchObject({
+      relatedMessageRole: "assistant",
+      content: "Running the tests first.",
+      payload: { usage: { input_tokens: 120, output_tokens: 40 } },
+    });
+    expect(lines[1]?.events?.[1]?.payload).not.toHaveProperty("usage");
+
+    expect(lines[2]?.events).toEqual([
+      expect.objectContaining({
+        eventType: "tool.failed",
+        eventSubType: "Bash",
+        status: "failed",
+      }),
+      expect.objectContaining({
+        eventType: "command.completed",
+        summary: "pnpm test",
+        payload: expect.objectContaining({
+          command: "pnpm test",
+          exitCode: 1,
+          output: "Exit code 1\nFAIL src/app.test.ts",
+        }),
+        status: "failed",
+      }),
+      expect.objectContaining({
+        eventType: "tool.completed",
+        eventSubType: "Edit",
+        payload: expect.objectContaining({ output: "File updated" }),
+      }),
+      expect.objectContaining({
+        eventType: "file.changed",
+        payload: expect.objectContaining({ path: "src/app.ts", tool: "Edit" }),
+        status: "edited",
+      }),
+    ]);
+
+    expect(lines[3]?.events?.[0]).toMatchObject({
+      eventType: "session.host.result",
+      eventSubType: "success",
+      summary: "Claude finished (3 turns, $0.0123)",
+      payload: { totalCostUsd: 0.0123, numTurns: 3, durationMs: 4200 },
+      status: "completed",
+    });
+  });
+
+  it("pairs subagent tool uses with their results", () => {
+    const adapter = createClaudeStreamAdapter();
+    const started = adapter.parseLine(
+      JSON.stringify({
+        type: "assistant",
+        message: {
+          content: [
+            {
+              type: "tool_use",
+              id: "toolu_task",
+              name: "Task",
+              input: {
+                description: "Audit imports",
+                subagent_type: "code-reviewer",
+                prompt: "Check for unused imports",
+              },
+            },
+          ],
+        },
+      }),
+      "stdout",
+      adapterContext,
+    );
+    const nested = adapter.parseLine(
+      JSON.stringify({
+        type: "assistant",
+        message: { content: [{ type: "text", text: "Looking at imports" }] },
+        parent_tool_use_id: "toolu_task",
+      }),
+      "stdout",
+      adapterContext,
+    );
+    const completed = adapter.parseLine(
+      JSON.stringify({
+        type: "user",
+        message: {
+          content: [
+            {
+              type: "tool_result",
+              tool_use_id: "toolu_task",
+              content: "No unused imports",
+            },
+          ],
+        },
+      }),
+      "stdout",
+      adapterContext,
+    );
+
+    expect(started?.events?.[1]).toMatchObject({
+      eventType: "subagent.started",
+      eventSubType: "code-reviewer",
+      summary: "Subagent started: Audit imports",
+    });
+    expect(nested?.events?.[0]?.payload).toMatchObject({
+      parentToolUseId: "toolu_task",
+    });
+    expect(completed?.events?.[1]).toMatchObject({
+      eventType: "subagent.completed",
+      eventSubType: "code-reviewer",
+      payload: { output: "No unused imports" },
+      status: "completed",
+    });
+  });
+
+  it("leaves plain Claude output to the transcript", () => {
+    const adapter = getHostAdapter("claude");
+
+    expect(
+      adapter?.parseLine("Here is the plan:", "stdout", adapterContext),
+    ).toBeNull();
+    expect(
+      adapter?.parseLine('{"not": "stream-json"}', "stdout", adapterContext),
+    ).toBeNull();
+  });
+});
+
+describe("Generic host labels", () => {
+  it("derives the label from the command name unless one is given", () => {
+    expect(resolveGenericHostLabel("/usr/local/bin/pytest")).toBe("pytest");
+    expect(resolveGenericHostLabel("C:\\Tools\\Aider.EXE")).toBe("aider");
+    expect(resolveGenericHostLabel("pnpm", "unit-tests")).toBe("unit-tests");
+  });
+
+  it("rejects malformed labels and built-in host names", () => {
+    expect(() => parseSessionHost("Not A Label")).toThrow(
+      'Invalid session host "Not A Label"',
+    );
+    expect(() => resolveGenericHostLabel("/opt/bin/claude")).toThrow(
+      '"claude" is a built-in host',
+    );
+    expect(() => resolveGenericHostLabel("make", "codex")).toThrow(
+      "footprint run codex --",
+    );
+  });
 });
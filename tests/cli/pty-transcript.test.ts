@@ -1,10 +1,13 @@
 import { describe, expect, it } from "vitest";
 import {
+  buildTranscriptFrames,
   controlEchoTokens,
   decodeTranscriptInputText,
   decodeTranscriptOutputText,
   parseUtilLinuxTranscript,
   parseScriptTranscript,
+  timeScriptTranscriptRecords,
+  timeUtilLinuxTranscriptRecords,
 } from "../../src/cli/pty-transcript.js";
 
 function createRecord(
@@ -155,4 +158,66 @@ describe("PTY transcript parser", () => {
       "^C",
     ]);
   });
+
+  it("keeps record timing as offsets from the start of the transcript", () => {
+    const bsd = parseScriptTranscript(
+      Buffer.concat([
+        createRecord("s", Buffer.alloc(0), 100, 500_000),
+        createRecord("i", Buffer.from("ls\r", "utf8"), 100, 750_000),
+        createRecord("o", Buffer.from("a.txt\r\n", "utf8"), 102, 0),
+      ]),
+    ).records;
+    expect(
+      timeScriptTranscriptRecords(bsd).map((record) => [
+        record.offsetMs,
+        record.direction,
+      ]),
+    ).toEqual([
+      [250, "i"],
+      [1500, "o"],
+    ]);
+
+    const utilLinux = parseUtilLinuxTranscript({
+      timing: ["I 0.250000 3", "O 1.250000 7"].join("\n"),
+      input: Buffer.from("ls\r", "utf8"),
+      output: Buffer.from("a.txt\r\n", "utf8"),
+    }).records;
+    expect(
+      timeUtilLinuxTranscriptRecords(utilLinux).map(
+        (record) => record.offsetMs,
+      ),
+    ).toEqual([250, 1500]);
+  });
+
+  it("merges timed records into redacted replay frames", () => {
+    const euro = Buffer.from("€", "utf8");
+    const frames = buildTranscriptFrames(
+      [
+        { offsetMs: 0, direction: "o", payload: Buffer.from("$ ", "utf8") },
+        { offsetMs: 20, direction: "i", payload: Buffer.from("e", "utf8") },
+        { offsetMs: 30, direction: "o", payload: Buffer.from("e", "utf8") },
+        {
+          offsetMs: 40,
+          direction: "o",
+          payload: Buffer.from("cho TOKEN=hunter22\r\n", "utf8"),
+        },
+        { offsetMs: 500, direction: "o", payload: euro.subarray(0, 1) },
+        { offsetMs: 510, direction: "o", payload: euro.subarray(1) },
+        { offsetMs: 900, direction: "o", payload: Buffer.from("\r\n") },
+      ],
+      (text) => text.replace("hunter22", "[REDACTED]"),
+    );
+
+    expect(frames).toEqual([
+      { offsetMs: 0, direction: "o", data: "$ " },
+      { offsetMs: 20, direction: "i", data: "e" },
+      {
+        offsetMs: 30,
+        direction: "o",
+        data: "echo TOKEN=[REDACTED]\r\n",
+      },
+      { offsetMs: 510, direction: "o", data: "€" },
+      { offsetMs: 900, direction: "o", data: "\r\n" },
+    ]);
+  });
 });
@@ -1,11 +1,25 @@
 import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import Database from "better-sqlite3";
 import { execFileSync, spawn } from "node:child_process";
+import { createHash, randomBytes } from "node:crypto";
 import * as fs from "node:fs";
 import { createRequire } from "node:module";
 import * as path from "node:path";
 import { tmpdir } from "node:os";
 import { fileURLToPath } from "node:url";
-import { EvidenceDatabase } from "../../src/lib/storage/index.js";
+import { reingestSessionHistory } from "../../src/ingestion/index.js";
+import { decrypt, encrypt } from "../../src/lib/crypto/index.js";
+import { parseArtifactMetadata } from "../../src/lib/session-artifacts.js";
+import {
+  EvidenceDatabase,
+  ensureSigningIdentity,
+  exportEvidences,
+  exportSessions,
+  resolveStorageKeySync,
+  storeSalt,
+} from "../../src/lib/storage/index.js";
+import { syncSessionHistory } from "../../src/sync/index.js";
+import { startLocalTsa } from "../local-tsa.js";
 
 const require = createRequire(import.meta.url);
 const cliPath = fileURLToPath(
@@ -1145,6 +1159,116 @@ describe("CLI Session Recorder", () => {
     db.close();
   });
 
+  it("records arbitrary commands under a generic host label", async () => {
+    const runResult = await runCli(
+      ["run", "--", process.execPath, fixturePath, "--emit-adapter"],
+      {
+        input: "generic prompt\n",
+        env: { FOOTPRINT_DB_PATH: dbPath },
+      },
+    );
+    expect(runResult.code).toBe(0);
+
+    const labeledResult = await runCli(
+      ["run", "--label", "nightly-build", "--", process.execPath, fixturePath],
+      {
+        input: "labeled prompt\n",
+        env: { FOOTPRINT_DB_PATH: dbPath },
+      },
+    );
+    expect(labeledResult.code).toBe(0);
+
+    const db = new EvidenceDatabase(dbPath);
+    const sessions = db.listSessions();
+    expect(sessions.map((session) => session.host)).toEqual([
+      "nightly-build",
+      "node",
+    ]);
+    const detail = db.getSessionDetail(sessions[1]!.id);
+    expect(
+      detail?.timeline.find((event) => event.source === "generic-adapter"),
+    ).toMatchObject({
+      eventType: "tool.started",
+      summary: "node adapter event for generic prompt",
+    });
+    db.close();
+
+    const listResult = await runCli(
+      ["sessions", "list", "--host", "node", "--json"],
+      { env: { FOOTPRINT_DB_PATH: dbPath } },
+    );
+    expect(listResult.code).toBe(0);
+    expect(JSON.parse(listResult.stdout)).toEqual(
+      expect.objectContaining({
+        total: 1,
+        sessions: [expect.objectContaining({ host: "node" })],
+      }),
+    );
+
+    const missingCommand = await runCli(["run", "--label", "x"], {
+      env: { FOOTPRINT_DB_PATH: dbPath },
+    });
+    expect(missingCommand.code).not.toBe(0);
+    expect(missingCommand.stderr).toContain("footprint run [--label <label>]");
+  }, 20_000);
+
+  it("records sessions through adapter plugins declared in adapters.json", async () => {
+    fs.writeFileSync(
+      path.join(tempDir, "adapters.json"),
+      JSON.stringify({
+        adapters: [
+          {
+            name: "acme",
+            command: process.execPath,
+            args: [fixturePath],
+            rules: [
+              {
+                match: "^FOOTPRINT_EVENT (?<json>.*)$",
+                json: true,
+                event: {
+                  eventType: "{json.eventType}",
+                  summary: "{json.summary}",
+                  payload: { tool: "{json.payload.tool}" },
+                },
+              },
+            ],
+          },
+        ],
+      }),
+    );
+
+    const runResult = await runCli(["run", "acme", "--", "--emit-adapter"], {
+      input: "plugin prompt\n",
+      env: { FOOTPRINT_DB_PATH: dbPath },
+    });
+    expect(runResult.code).toBe(0);
+
+    const db = new EvidenceDatabase(dbPath);
+    const session = db.listSessions()[0];
+    const detail = db.getSessionDetail(session!.id);
+    expect(session?.host).toBe("acme");
+    expect(
+      detail?.timeline.find((event) => event.source === "acme-adapter"),
+    ).toMatchObject({
+      eventType: "tool.started",
+      summary: "acme adapter event for plugin prompt",
+    });
+    db.close();
+
+    const samplePath = path.join(tempDir, "acme.log");
+    fs.writeFileSync(
+      samplePath,
+      'FOOTPRINT_EVENT {"eventType":"tool.started","summary":"sample"}\n',
+    );
+    const checkResult = await runCli(
+      ["adapters", "check", "acme", samplePath],
+      { env: { FOOTPRINT_DB_PATH: dbPath } },
+    );
+    expect(checkResult.code).toBe(0);
+    expect(checkResult.stdout).toContain("PASS acme-adapter (acme)");
+    expect(checkResult.stdout).toContain("- tool.started: 1");
+  }, 20_000);
+
   it("stores Claude adapter events alongside wrapper events with source attribution", async () => {
     const runResult = await runCli(
       ["run", "claude", "--", fixturePath, "--emit-adapter"],
@@ -1176,6 +1300,48 @@ describe("CLI Session Recorder", () => {
     db.close();
   });
 
+  it("turns Claude stream-json output into structured timeline events", async () => {
+    const runResult = await runCli(
+      ["run", "claude", "--", fixturePath, "--emit-stream-json"],
+      {
+        input: "fix the failing test\n",
+        env: {
+          FOOTPRINT_DB_PATH: dbPath,
+          FOOTPRINT_CLAUDE_COMMAND: process.execPath,
+        },
+      },
+    );
+
+    expect(runResult.code).toBe(0);
+
+    const db = new EvidenceDatabase(dbPath);
+    const session = db.listSessions()[0];
+    const detail = db.getSessionDetail(session!.id);
+    const adapterEvents =
+      detail?.timeline.filter((event) => event.source === "claude-adapter") ??
+      [];
+
+    expect(adapterEvents.map((event) => event.eventType)).toEqual([
+      "message.assistant.completed",
+      "tool.started",
+      "command.started",
+      "tool.failed",
+      "command.completed",
+      "session.host.result",
+    ]);
+    expect(
+      JSON.parse(
+        adapterEvents.find((event) => event.eventType === "command.completed")
+          ?.payload ?? "{}",
+      ),
+    ).toMatchObject({ command: "pnpm test", exitCode: 1 });
+    expect(detail?.messages.map((message) => message.content)).toEqual([
+      "fix the failing test",
+      "working on fix the failing test",
+    ]);
+    db.close();
+  });
+
   it("stores Gemini and Codex adapter events with host-specific attribution", async () => {
     const geminiResult = await runCli(
       ["run", "gemini", "--", fixturePath, "--emit-adapter"],
@@ -1278,6 +1444,100 @@ describe("CLI Session Recorder", () => {
     db.close();
   });
 
+  it("captures test report files written during a run and ingests each test case", async () => {
+    const repoDir = fs.mkdtempSync(path.join(tempDir, "report-repo-"));
+    fs.writeFileSync(path.join(repoDir, ".gitignore"), "out/\n", "utf8");
+    const gitEnv = {
+      ...process.env,
+      GIT_AUTHOR_NAME: "Footprint Test",
+      GIT_AUTHOR_EMAIL: "footprint@example.com",
+      GIT_COMMITTER_NAME: "Footprint Test",
+      GIT_COMMITTER_EMAIL: "footprint@example.com",
+    };
+    const execSync = (command: string[]) =>
+      execFileSync("git", command, {
+        cwd: repoDir,
+        env: gitEnv,
+        stdio: "ignore",
+      });
+    execSync(["init"]);
+    execSync(["add", ".gitignore"]);
+    execSync(["commit", "-m", "initial"]);
+
+    const junit =
+      '<testsuites><testsuite name="math"><testcase classname="math" name="adds" time="0.001"/><testcase classname="math" name="divides"><failure message="division by zero"/></testcase></testsuite></testsuites>';
+    const json = JSON.stringify({
+      numTotalTests: 1,
+      testResults: [
+        {
+          name: path.join(repoDir, "tests", "api.test.ts"),
+          assertionResults: [
+            {
+              ancestorTitles: ["api"],
+              title: "lists users",
+              status: "passed",
+              duration: 2,
+            },
+          ],
+        },
+      ],
+    });
+    const script = [
+      'const fs = require("node:fs");',
+      'fs.mkdirSync("reports", { recursive: true });',
+      'fs.mkdirSync("out", { recursive: true });',
+      `fs.writeFileSync("reports/junit.xml", ${JSON.stringify(junit)});`,
+      `fs.writeFileSync("out/vitest.json", ${JSON.stringify(json)});`,
+    ].join("\n");
+
+    const runResult = await runCli(
+      [
+        "run",
+        "--",
+        process.execPath,
+        "-e",
+        script,
+        "--",
+        "--outputFile=out/vitest.json",
+      ],
+      { cwd: repoDir, env: { FOOTPRINT_DB_PATH: dbPath, ...gitEnv } },
+    );
+    expect(runResult.code).toBe(0);
+
+    const db = new EvidenceDatabase(dbPath);
+    try {
+      const sessionId = db.listSessions()[0]!.id;
+      expect(
+        db
+          .getSessionTimeline(sessionId)
+          .filter((event) => event.eventType === "test.report")
+          .map((event) => [event.eventSubType, event.summary])
+          .sort(),
+      ).toEqual([
+        ["jest-json", "jest-json report out/vitest.json"],
+        ["junit", "junit report reports/junit.xml"],
+      ]);
+
+      reingestSessionHistory(db, sessionId);
+      expect(
+        db
+          .getSessionArtifacts(sessionId)
+          .filter((artifact) => artifact.artifactType === "test-result")
+          .map((artifact) => {
+            const metadata = JSON.parse(artifact.metadata!);
+            return [metadata.testId, metadata.outcome];
+          })
+          .sort(),
+      ).toEqual([
+        ["math > adds", "passed"],
+        ["math > divides", "failed"],
+        ["tests/api.test.ts > api > lists users", "passed"],
+      ]);
+    } finally {
+      db.close();
+    }
+  }, 30_000);
+
   it("captures file changes even when the repository was already dirty", async () => {
     const repoDir = fs.mkdtempSync(path.join(tempDir, "dirty-repo-"));
     fs.writeFileSync(path.join(repoDir, "notes.txt"), "seed\n", "utf8");
@@ -1367,6 +1627,96 @@ describe("CLI Session Recorder", () => {
     );
   });
 
+  it("reingests every finished session with the ingestion rules file", async () => {
+    const db = new EvidenceDatabase(dbPath);
+    const finishedId = db.createSession({
+      host: "claude",
+      projectRoot: tempDir,
+      cwd: tempDir,
+      title: "Run just test",
+      status: "completed",
+      startedAt: "2026-03-10T00:00:00.000Z",
+      endedAt: "2026-03-10T00:05:00.000Z",
+      metadata: null,
+    });
+    db.appendTimelineEvent({
+      sessionId: finishedId,
+      seq: 1,
+      eventType: "command.completed",
+      eventSubType: "just",
+      source: "wrapper",
+      summary: "just test",
+      payload: JSON.stringify({ command: "just", args: ["test"], exitCode: 0 }),
+      startedAt: "2026-03-10T00:01:00.000Z",
+      endedAt: "2026-03-10T00:01:05.000Z",
+      status: "completed",
+      relatedMessageId: null,
+    });
+    const runningId = db.createSession({
+      host: "claude",
+      projectRoot: tempDir,
+      cwd: tempDir,
+      title: "Still running",
+      status: "running",
+      startedAt: "2026-03-10T01:00:00.000Z",
+      endedAt: null,
+      metadata: null,
+    });
+    db.close();
+    fs.writeFileSync(
+      path.join(tempDir, "ingestion-rules.json"),
+      JSON.stringify({
+        commandFamilies: [{ family: "task-runner", commands: ["just"] }],
+        commandCategories: [{ category: "test", match: "^just test\\b" }],
+      }),
+    );
+
+    const ingestResult = await runCli(
+      ["session", "ingest", "--all", "--json"],
+      {
+        env: {
+          FOOTPRINT_DB_PATH: dbPath,
+        },
+      },
+    );
+
+    expect(ingestResult.code).toBe(0);
+    expect(JSON.parse(ingestResult.stdout)).toEqual({
+      scanned: 2,
+      reingested: 1,
+      skipped: 1,
+      failed: 0,
+      sessions: expect.arrayContaining([
+        expect.objectContaining({
+          sessionId: finishedId,
+          status: "reingested",
+          artifactsCreated: 1,
+        }),
+        expect.objectContaining({
+          sessionId: runningId,
+          status: "skipped",
+          reason: "still running",
+        }),
+      ]),
+    });
+
+    const verifyDb = new EvidenceDatabase(dbPath);
+    try {
+      expect(
+        parseArtifactMetadata(
+          verifyDb.getSessionArtifacts(finishedId)[0]!.metadata,
+        ),
+      ).toEqual(
+        expect.objectContaining({
+          category: "test",
+          commandFamily: "task-runner",
+        }),
+      );
+    } finally {
+      verifyDb.close();
+    }
+  });
+
   it("records platform-specific forced PTY behavior when stdin is not a tty", async () => {
     const runResult = await runCli(["run", "claude", "--", fixturePath], {
       input: "forced fallback\n",
@@ -1427,6 +1777,473 @@ describe("CLI Session Recorder", () => {
     db.close();
   });
 
+  it("keeps forced PTY transcripts for terminal replay and cast export", async () => {
+    const env = {
+      FOOTPRINT_DB_PATH: dbPath,
+      FOOTPRINT_CLAUDE_COMMAND: process.execPath,
+      FOOTPRINT_PTY_MODE: "force",
+    };
+    const runResult = await runCli(["run", "claude", "--", fixturePath], {
+      input: "replay slice a\n",
+      env,
+    });
+    expect(runResult.code).toBe(0);
+
+    const db = new EvidenceDatabase(dbPath);
+    const sessionId = db.listSessions()[0]!.id;
+    const recording = db.getSessionRecording(sessionId);
+    db.close();
+
+    const replayResult = await runCli(
+      ["session", "replay", sessionId, "--speed", "max"],
+      { env },
+    );
+
+    if (process.platform !== "linux") {
+      expect(recording).toBeNull();
+      expect(replayResult.code).toBe(1);
+      expect(replayResult.stderr).toContain(
+        "Session has no terminal recording",
+      );
+      return;
+    }
+
+    expect(recording?.format).toBe("util-linux-advanced");
+    expect(recording?.frames.length).toBeGreaterThan(0);
+    expect(replayResult.code).toBe(0);
+    expect(replayResult.stdout).toContain("done:replay slice a");
+
+    const castResult = await runCli(
+      ["session", "export", sessionId, "--format", "cast", "--json"],
+      { env: { ...env, FOOTPRINT_EXPORT_DIR: tempDir } },
+    );
+    expect(castResult.code).toBe(0);
+    const castExport = JSON.parse(castResult.stdout) as {
+      filename: string;
+      format: string;
+    };
+    expect(castExport.format).toBe("cast");
+    const castLines = fs
+      .readFileSync(castExport.filename, "utf8")
+      .trimEnd()
+      .split("\n");
+    expect(JSON.parse(castLines[0]!)).toEqual(
+      expect.objectContaining({ version: 2 }),
+    );
+    expect(castLines.join("\n")).toContain("done:replay slice a");
+
+    const failureResult = await runCli(
+      ["session", "replay", sessionId, "--next-failure"],
+      { env },
+    );
+    expect(failureResult.code).toBe(1);
+    expect(failureResult.stderr).toContain("Session has no failed commands");
+  }, 30_000);
+
+  it("captures a transcript slice of a session as linked evidence", async () => {
+    const db = new EvidenceDatabase(dbPath);
+    const sessionId = db.createSession({
+      host: "claude",
+      projectRoot: tempDir,
+      cwd: tempDir,
+      title: "Capture a slice",
+      status: "completed",
+      startedAt: "2026-03-12T00:00:00.000Z",
+      endedAt: "2026-03-12T00:03:00.000Z",
+      metadata: null,
+    });
+    ["Plan the rollout", "Decided to ship behind a flag", "Wrap up"].forEach(
+      (content, index) => {
+        db.appendMessage({
+          sessionId,
+          seq: index + 1,
+          role: "user",
+          source: "wrapper",
+          content,
+          capturedAt: `2026-03-12T00:0${index}:00.000Z`,
+          metadata: null,
+        });
+      },
+    );
+    db.close();
+
+    const missingKey = await runCli(["session", "capture", sessionId], {
+      env: {
+        FOOTPRINT_DB_PATH: dbPath,
+        FOOTPRINT_PASSPHRASE: "",
+        FOOTPRINT_PASSWORD: "",
+      },
+    });
+    expect(missingKey.code).toBe(1);
+    expect(missingKey.stderr).toContain("FOOTPRINT_PASSPHRASE is required");
+
+    const captureResult = await runCli(
+      [
+        "session",
+        "capture",
+        sessionId,
+        "--from-seq",
+        "2",
+        "--to-seq",
+        "2",
+        "--tags",
+        "rollout",
+        "--json",
+      ],
+      {
+        env: {
+          FOOTPRINT_DB_PATH: dbPath,
+          FOOTPRINT_PASSPHRASE: "capture-passphrase",
+        },
+      },
+    );
+    expect(captureResult.code).toBe(0);
+    const capture = JSON.parse(captureResult.stdout) as {
+      evidenceId: string;
+      sessionId: string;
+      fromSeq: number;
+      toSeq: number;
+      messageCount: number;
+    };
+    expect(capture).toEqual(
+      expect.objectContaining({
+        sessionId,
+        fromSeq: 2,
+        toSeq: 2,
+        messageCount: 1,
+      }),
+    );
+
+    const verifyDb = new EvidenceDatabase(dbPath);
+    expect(verifyDb.findEvidenceBySessionId(sessionId)).toEqual([
+      expect.objectContaining({
+        id: capture.evidenceId,
+        conversationId: sessionId,
+        tags: "rollout",
+        sessionFromSeq: 2,
+        sessionToSeq: 2,
+      }),
+    ]);
+    verifyDb.close();
+  }, 30_000);
+
+  it("verifies the evidence ledger and fails after out-of-band deletes", async () => {
+    const db = new EvidenceDatabase(dbPath);
+    const ids = ["first", "second"].map((conversationId) =>
+      db.create({
+        timestamp: new Date().toISOString(),
+        conversationId,
+        llmProvider: "claude",
+        encryptedContent: new Uint8Array([1]),
+        nonce: new Uint8Array([2]),
+        contentHash: `hash-${conversationId}`,
+        messageCount: 1,
+        gitCommitHash: null,
+        gitTimestamp: null,
+        tags: null,
+      }),
+    );
+    db.close();
+
+    const verified = await runCli(["ledger", "verify"], {
+      env: { FOOTPRINT_DB_PATH: dbPath },
+    });
+    expect(verified.code).toBe(0);
+    expect(verified.stdout).toContain("Evidence ledger verified");
+    expect(verified.stdout).toContain("Entries: 2");
+
+    const raw = new Database(dbPath);
+    raw.prepare(`DELETE FROM evidences WHERE id = ?`).run(ids[0]);
+    raw.close();
+
+    const tampered = await runCli(["ledger", "verify", "--json"], {
+      env: { FOOTPRINT_DB_PATH: dbPath },
+    });
+    expect(tampered.code).toBe(1);
+    expect(JSON.parse(tampered.stdout)).toEqual(
+      expect.objectContaining({
+        verified: false,
+        issues: [expect.objectContaining({ kind: "gap", seq: 1 })],
+      }),
+    );
+  }, 30_000);
+
+  it("exports the signing public key without the passphrase", async () => {
+    const missing = await runCli(["signing-key", "export"], {
+      env: { FOOTPRINT_DB_PATH: dbPath },
+    });
+    expect(missing.code).toBe(1);
+    expect(missing.stderr).toContain("No signing identity found");
+
+    const db = new EvidenceDatabase(dbPath);
+    storeSalt(db.getDb(), randomBytes(16));
+    const identity = ensureSigningIdentity(
+      db.getDb(),
+      new Uint8Array(randomBytes(32)),
+    );
+    db.close();
+
+    const exported = await runCli(["signing-key", "export", "--json"], {
+      env: { FOOTPRINT_DB_PATH: dbPath, FOOTPRINT_PASSPHRASE: "" },
+    });
+    expect(exported.code).toBe(0);
+    expect(JSON.parse(exported.stdout)).toEqual({
+      keyId: identity.keyId,
+      algorithm: "Ed25519",
+      publicKey: expect.stringContaining("BEGIN PUBLIC KEY"),
+    });
+  }, 30_000);
+
+  it("flushes queued trusted timestamps through the configured authority", async () => {
+    const contentHash = createHash("sha256").update("queued").digest("hex");
+    const db = new EvidenceDatabase(dbPath);
+    const id = db.create({
+      timestamp: new Date().toISOString(),
+      conversationId: "queued",
+      llmProvider: "claude",
+      encryptedContent: new Uint8Array([1]),
+      nonce: new Uint8Array([2]),
+      contentHash,
+      messageCount: 1,
+      gitCommitHash: null,
+      gitTimestamp: null,
+      tags: null,
+    });
+    db.queueTimestamp(id, "connect ECONNREFUSED");
+    db.close();
+
+    const unconfigured = await runCli(["timestamp", "flush"], {
+      env: { FOOTPRINT_DB_PATH: dbPath },
+    });
+    expect(unconfigured.code).toBe(1);
+    expect(unconfigured.stderr).toContain("No timestamp authority configured");
+
+    const tsa = await startLocalTsa();
+    const configPath = path.join(tempDir, "tsa.json");
+    fs.writeFileSync(configPath, JSON.stringify({ url: tsa.url }));
+    try {
+      const flushed = await runCli(["timestamp", "flush", "--json"], {
+        env: {
+          FOOTPRINT_DB_PATH: dbPath,
+          FOOTPRINT_TIMESTAMP_CONFIG: configPath,
+        },
+      });
+      expect(flushed.code).toBe(0);
+      expect(JSON.parse(flushed.stdout)).toEqual(
+        expect.objectContaining({ stamped: 1, failed: 0, remaining: 0 }),
+      );
+    } finally {
+      await tsa.close();
+    }
+
+    const verifyDb = new EvidenceDatabase(dbPath);
+    expect(verifyDb.findById(id)?.timestampAuthority).toBe(
+      "CN=Footprint Test TSA",
+    );
+    verifyDb.close();
+  }, 30_000);
+
+  it("rotates the evidence passphrase with footprint rekey", async () => {
+    const db = new EvidenceDatabase(dbPath);
+    const sealed = encrypt(
+      "User: rotate\nAssistant: Done.",
+      resolveStorageKeySync(db.getDb(), "old cli passphrase"),
+    );
+    const id = db.create({
+      timestamp: new Date().toISOString(),
+      conversationId: "rekey",
+      llmProvider: "claude",
+      encryptedContent: sealed.ciphertext,
+      nonce: sealed.nonce,
+      contentHash: createHash("sha256").update("rotate").digest("hex"),
+      messageCount: 1,
+      gitCommitHash: null,
+      gitTimestamp: null,
+      tags: null,
+    });
+    db.close();
+
+    const missing = await runCli(["rekey"], {
+      env: {
+        FOOTPRINT_DB_PATH: dbPath,
+        FOOTPRINT_PASSPHRASE: "old cli passphrase",
+      },
+    });
+    expect(missing.code).toBe(1);
+    expect(missing.stderr).toContain("FOOTPRINT_NEW_PASSPHRASE");
+
+    const rotated = await runCli(["rekey", "--json"], {
+      env: {
+        FOOTPRINT_DB_PATH: dbPath,
+        FOOTPRINT_PASSPHRASE: "old cli passphrase",
+        FOOTPRINT_NEW_PASSPHRASE: "fresh rotated cli passphrase",
+      },
+    });
+    expect(rotated.code).toBe(0);
+    expect(JSON.parse(rotated.stdout)).toEqual(
+      expect.objectContaining({ resumed: false, evidences: 1, skipped: 0 }),
+    );
+
+    const verifyDb = new EvidenceDatabase(dbPath);
+    const evidence = verifyDb.findById(id)!;
+    expect(
+      decrypt(
+        evidence.encryptedContent,
+        evidence.nonce,
+        resolveStorageKeySync(verifyDb.getDb(), "fresh rotated cli passphrase"),
+      ),
+    ).toBe("User: rotate\nAssistant: Done.");
+    verifyDb.close();
+  }, 60_000);
+
+  it("verifies exported evidence bundles offline with footprint verify-bundle", async () => {
+    const db = new EvidenceDatabase(dbPath);
+    db.create({
+      timestamp: new Date().toISOString(),
+      conversationId: "bundle",
+      llmProvider: "claude",
+      encryptedContent: new Uint8Array([1, 2, 3]),
+      nonce: new Uint8Array(24),
+      contentHash: createHash("sha256").update("bundle").digest("hex"),
+      messageCount: 1,
+      gitCommitHash: null,
+      gitTimestamp: null,
+      tags: null,
+    });
+    const exported = await exportEvidences(db);
+    db.close();
+    const zipPath = path.join(tempDir, exported.filename);
+    fs.writeFileSync(zipPath, exported.zipData);
+
+    const verified = await runCli(
+      ["verify-bundle", zipPath, "--checksum", exported.checksum, "--json"],
+      { env: { FOOTPRINT_DB_PATH: dbPath, FOOTPRINT_PASSPHRASE: "" } },
+    );
+    expect(verified.code).toBe(0);
+    expect(JSON.parse(verified.stdout)).toEqual(
+      expect.objectContaining({
+        verified: true,
+        decryption: "skipped",
+        bundle: expect.objectContaining({ checksumMatches: true }),
+      }),
+    );
+
+    const mismatch = await runCli(
+      ["verify-bundle", zipPath, "--checksum", "0".repeat(64)],
+      { env: { FOOTPRINT_DB_PATH: dbPath, FOOTPRINT_PASSPHRASE: "" } },
+    );
+    expect(mismatch.code).toBe(1);
+    expect(mismatch.stdout).toContain("Evidence bundle verification failed");
+    expect(mismatch.stdout).toContain(
+      "Bundle SHA-256 does not match the expected checksum",
+    );
+  }, 30_000);
+
+  it("imports exported session bundles with footprint import-bundle", async () => {
+    const source = new EvidenceDatabase(path.join(tempDir, "source.db"));
+    const sessionId = source.createSession({
+      host: "claude",
+      projectRoot: tempDir,
+      cwd: tempDir,
+      title: "Bundle import",
+      status: "completed",
+      startedAt: "2026-03-12T00:00:00.000Z",
+      endedAt: "2026-03-12T00:01:00.000Z",
+      metadata: null,
+    });
+    source.appendMessage({
+      sessionId,
+      seq: 1,
+      role: "user",
+      source: "wrapper",
+      content: "Carry this session to the other machine",
+      capturedAt: "2026-03-12T00:00:01.000Z",
+      metadata: null,
+    });
+    const exported = await exportSessions(source, { sessionIds: [sessionId] });
+    source.close();
+    const zipPath = path.join(tempDir, exported.filename);
+    fs.writeFileSync(zipPath, exported.zipData);
+    const env = { FOOTPRINT_DB_PATH: dbPath, FOOTPRINT_PASSPHRASE: "" };
+
+    const imported = await runCli(["import-bundle", zipPath, "--json"], {
+      env,
+    });
+    expect(imported.code).toBe(0);
+    expect(JSON.parse(imported.stdout)).toEqual(
+      expect.objectContaining({ kind: "sessions", imported: 1 }),
+    );
+
+    const reassigned = await runCli(
+      ["import-bundle", zipPath, "--conflict", "re-id"],
+      { env },
+    );
+    expect(reassigned.code).toBe(0);
+    expect(reassigned.stdout).toContain(
+      "Imported: 0 | Replaced: 0 | Re-assigned: 1 | Skipped: 0",
+    );
+
+    const invalid = await runCli(
+      ["import-bundle", zipPath, "--conflict", "merge"],
+      { env },
+    );
+    expect(invalid.code).toBe(1);
+    expect(invalid.stderr).toContain("Invalid value for --conflict: merge");
+
+    const db = new EvidenceDatabase(dbPath);
+    try {
+      expect(
+        db
+          .listSessions()
+          .map((session) => session.title)
+          .filter((title) => title === "Bundle import"),
+      ).toHaveLength(2);
+    } finally {
+      db.close();
+    }
+  }, 30_000);
+
+  it("syncs session history through a shared folder with footprint sync", async () => {
+    const env = { FOOTPRINT_DB_PATH: dbPath, FOOTPRINT_PASSPHRASE: "" };
+    const sharedDir = path.join(tempDir, "shared");
+    const missing = await runCli(["sync"], { env });
+    expect(missing.code).toBe(1);
+    expect(missing.stderr).toContain("No sync directory configured");
+
+    const other = new EvidenceDatabase(path.join(tempDir, "other.db"));
+    try {
+      other.createSession({
+        host: "codex",
+        projectRoot: tempDir,
+        cwd: tempDir,
+        title: "Started on the other machine",
+        status: "completed",
+        startedAt: "2026-03-12T00:00:00.000Z",
+        endedAt: "2026-03-12T00:01:00.000Z",
+        metadata: null,
+      });
+      syncSessionHistory(other, { directory: sharedDir });
+    } finally {
+      other.close();
+    }
+    fs.writeFileSync(
+      path.join(path.dirname(dbPath), "sync.json"),
+      JSON.stringify({ directory: sharedDir }),
+    );
+
+    const synced = await runCli(["sync", "--json"], { env });
+    expect(synced.code).toBe(0);
+    expect(JSON.parse(synced.stdout)).toEqual(
+      expect.objectContaining({ machines: 1, applied: 1, pushed: 0 }),
+    );
+
+    const again = await runCli(["sync", "--dir", sharedDir], { env });
+    expect(again.code).toBe(0);
+    expect(again.stdout).toContain(
+      "Replayed from 0 machine(s): 0 applied | 0 superseded | 0 skipped",
+    );
+  }, 30_000);
+
   it("supports context resolve, confirm, show, and activate commands", async () => {
     const db = new EvidenceDatabase(dbPath);
     const authSession = db.createSession({
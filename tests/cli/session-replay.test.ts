@@ -0,0 +1,139 @@
+import { describe, expect, it } from "vitest";
+import { createSessionReplay } from "../../src/cli/session-replay.js";
+import { buildRecordingMarkers } from "../../src/lib/terminal-recording.js";
+import type {
+  SessionRecording,
+  TimelineEventRecord,
+} from "../../src/lib/storage/index.js";
+
+const recording: SessionRecording = {
+  sessionId: "session-1",
+  format: "util-linux-advanced",
+  startedAt: "2026-03-09T10:00:00.000Z",
+  durationMs: 3000,
+  columns: 80,
+  rows: 24,
+  frames: [
+    { offsetMs: 0, direction: "o", data: "$ " },
+    { offsetMs: 100, direction: "i", data: "pnpm test\r" },
+    { offsetMs: 150, direction: "o", data: "pnpm test\r\n" },
+    { offsetMs: 1000, direction: "o", data: "1 failed\r\n" },
+    { offsetMs: 2000, direction: "o", data: "$ git status\r\n" },
+    { offsetMs: 3000, direction: "o", data: "clean\r\n" },
+  ],
+};
+
+function createEvent(
+  seq: number,
+  eventType: string,
+  startedAt: string,
+  overrides: Partial<TimelineEventRecord> = {},
+): TimelineEventRecord {
+  return {
+    id: `event-${seq}`,
+    sessionId: "session-1",
+    seq,
+    eventType,
+    eventSubType: null,
+    source: "wrapper",
+    summary: null,
+    payload: null,
+    startedAt,
+    endedAt: startedAt,
+    status: null,
+    relatedMessageId: null,
+    ...overrides,
+  };
+}
+
+const timeline = [
+  createEvent(1, "session.start", "2026-03-09T09:59:59.000Z"),
+  createEvent(2, "message.user.submitted", "2026-03-09T10:00:00.100Z"),
+  createEvent(3, "command.completed", "2026-03-09T10:00:01.000Z", {
+    payload: JSON.stringify({ command: "pnpm", exitCode: 1 }),
+  }),
+  createEvent(4, "command.completed", "2026-03-09T10:00:02.000Z", {
+    payload: JSON.stringify({ command: "git", exitCode: 0 }),
+  }),
+  createEvent(5, "command.completed", "2026-03-09T10:00:09.000Z", {
+    status: "failed",
+  }),
+];
+
+describe("session replay", () => {
+  it("places non-message timeline events on the recording clock", () => {
+    expect(
+      buildRecordingMarkers(recording, timeline).map((marker) => [
+        marker.seq,
+        marker.offsetMs,
+        marker.failed,
+      ]),
+    ).toEqual([
+      [1, 0, false],
+      [3, 1000, true],
+      [4, 2000, false],
+      [5, 3000, true],
+    ]);
+  });
+
+  it("plays output frames straight through at max speed", async () => {
+    const output: string[] = [];
+    const replay = createSessionReplay({
+      recording,
+      speed: "max",
+      write: (data) => output.push(data),
+    });
+
+    await replay.play();
+
+    expect(output.join("")).toBe(
+      "$ pnpm test\r\n1 failed\r\n$ git status\r\nclean\r\n",
+    );
+    expect(replay.positionMs).toBe(3000);
+  });
+
+  it("redraws the screen when seeking between events and failures", async () => {
+    const output: string[] = [];
+    const replay = createSessionReplay({
+      recording,
+      markers: buildRecordingMarkers(recording, timeline),
+      speed: "max",
+      write: (data) => output.push(data),
+    });
+
+    expect(replay.nextFailure()?.seq).toBe(3);
+    expect(output.at(-1)).toBe(
+      "\u001b[0m\u001b[H\u001b[2J$ pnpm test\r\n1 failed\r\n",
+    );
+    expect(replay.nextEvent()?.seq).toBe(4);
+    expect(replay.previousEvent()?.seq).toBe(3);
+    expect(replay.nextFailure()?.seq).toBe(5);
+    expect(replay.nextFailure()).toBeNull();
+
+    replay.seek(1500);
+    output.length = 0;
+    await replay.play();
+    expect(output.join("")).toBe("$ git status\r\nclean\r\n");
+  });
+
+  it("holds playback while paused and stops on request", async () => {
+    const output: string[] = [];
+    const replay = createSessionReplay({
+      recording,
+      write: (data) => output.push(data),
+    });
+
+    expect(replay.togglePause()).toBe(true);
+    const playing = replay.play();
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    expect(output).toEqual([]);
+
+    expect(replay.togglePause()).toBe(false);
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    expect(output).toEqual(["$ "]);
+
+    replay.stop();
+    await playing;
+    expect(output).toEqual(["$ "]);
+  });
+});
@@ -0,0 +1,335 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { tmpdir } from "node:os";
+import {
+  extractBuildResult,
+  extractDependencyVersions,
+  extractHttpRequest,
+  extractLintResult,
+  extractMigration,
+} from "../src/ingestion/command-artifacts.js";
+import { parseDiagnostics } from "../src/ingestion/diagnostics.js";
+import { reingestSessionHistory } from "../src/ingestion/index.js";
+import { parseArtifactMetadata } from "../src/lib/session-artifacts.js";
+import { EvidenceDatabase } from "../src/lib/storage/index.js";
+import { createGetSessionArtifactsHandler } from "../src/tools/get-session-artifacts.js";
+
+const ESLINT_OUTPUT = `
+/work/app/src/store.ts
+  4:7   error    'unused' is assigned a value but never used  no-unused-vars
+  9:1   warning  Unexpected console statement                 no-console
+
+/work/app/src/users.ts
+  2:10  error    'fs' is defined but never used               no-unused-vars
+
+✖ 3 problems (2 errors, 1 warning)
+`;
+
+const VITE_OUTPUT = `vite v5.4.2 building for production...
+✓ 42 modules transformed.
+dist/index.html                  0.46 kB │ gzip:  0.30 kB
+dist/assets/index-4f8a1c.js    143.21 kB │ gzip: 46.10 kB
+✓ built in 1.84s
+`;
+
+const PRISMA_OUTPUT = `Prisma schema loaded from prisma/schema.prisma
+Datasource "db": PostgreSQL database "app"
+
+2 migrations found in prisma/migrations
+
+Applying migration \`20260301120000_add_users\`
+Applying migration \`20260302090000_add_email\`
+
+All migrations have been successfully applied.
+`;
+
+describe("Command Artifact Extractors", () => {
+  it("reads linter, build, dependency, HTTP, and migration details from output", () => {
+    expect(
+      extractLintResult(
+        `> eslint .\n${ESLINT_OUTPUT}`,
+        parseDiagnostics(ESLINT_OUTPUT, { projectRoot: "/work/app" }),
+      ),
+    ).toEqual({
+      linter: "eslint",
+      errorCount: 2,
+      warningCount: 1,
+      lintRuleIds: ["no-unused-vars"],
+      lintFiles: ["src/store.ts", "src/users.ts"],
+    });
+
+    expect(extractBuildResult(VITE_OUTPUT, [], false)).toEqual({
+      buildTool: "vite",
+      durationMs: 1840,
+      errorCount: null,
+      warningCount: null,
+      outputFiles: ["dist/index.html", "dist/assets/index-4f8a1c.js"],
+    });
+
+    expect(
+      extractDependencyVersions(
+        "Packages: +2\n++\ndependencies:\n+ zod 4.1.0\n+ @types/node 22.5.1\n\nDone in 1.2s",
+        ["zod", "@types/node"],
+      ),
+    ).toEqual(["zod@4.1.0", "@types/node@22.5.1"]);
+    expect(extractDependencyVersions("", ["zod@^4.1.0", "vitest"])).toEqual([
+      "zod@^4.1.0",
+    ]);
+
+    expect(
+      extractHttpRequest(
+        "curl",
+        [
+          "-sS",
+          "-i",
+          "-H",
+          "Authorization: Bearer secret",
+          "--data",
+          '{"name":"alice"}',
+          "https://api.example.com/v1/users?token=abc",
+        ],
+        'HTTP/1.1 100 Continue\n\nHTTP/2 422\ncontent-type: application/json\n\n{"error":"invalid"}',
+      ),
+    ).toEqual({
+      httpClient: "curl",
+      httpMethod: "POST",
+      url: "https://api.example.com/v1/users",
+      host: "api.example.com",
+      statusCode: 422,
+    });
+    expect(
+      extractHttpRequest(
+        "http",
+        ["DELETE", "https://api.example.com/v1/x"],
+        "",
+      ),
+    ).toEqual(
+      expect.objectContaining({ httpMethod: "DELETE", statusCode: null }),
+    );
+
+    expect(
+      extractMigration(["prisma", "migrate", "deploy"], PRISMA_OUTPUT),
+    ).toEqual({
+      migrationTool: "prisma",
+      migrationAction: "apply",
+      migrationNames: ["20260301120000_add_users", "20260302090000_add_email"],
+    });
+    expect(
+      extractMigration(
+        ["downgrade", "-1"],
+        "alembic downgrade -1\nINFO  [alembic.runtime.migration] Running downgrade 3c4d -> 1a2b, add users",
+      ),
+    ).toEqual({
+      migrationTool: "alembic",
+      migrationAction: "rollback",
+      migrationNames: ["1a2b"],
+    });
+  });
+});
+
+describe("Command Artifact Ingestion", () => {
+  let tempDir: string;
+  let db: EvidenceDatabase;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(tmpdir(), "footprint-command-types-"));
+    db = new EvidenceDatabase(path.join(tempDir, "footprint.db"));
+  });
+
+  afterEach(() => {
+    db.close();
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it("records typed artifacts for lint, build, dependency, HTTP, and migration runs", async () => {
+    const sessionId = db.createSession({
+      host: "claude",
+      projectRoot: "/work/app",
+      cwd: "/work/app",
+      title: "Ship the users endpoint",
+      status: "completed",
+      startedAt: "2026-03-10T08:00:00.000Z",
+      endedAt: "2026-03-10T08:10:00.000Z",
+      metadata: null,
+    });
+    let seq = 0;
+    const append = (
+      eventType: string,
+      eventSubType: string | null,
+      payload: Record<string, unknown>,
+      status: string,
+    ) => {
+      seq += 1;
+      db.appendTimelineEvent({
+        sessionId,
+        seq,
+        eventType,
+        eventSubType,
+        source: "wrapper",
+        summary: null,
+        payload: JSON.stringify(payload),
+        startedAt: `2026-03-10T08:0${seq}:00.000Z`,
+        endedAt: `2026-03-10T08:0${seq}:05.000Z`,
+        status,
+      });
+    };
+
+    append(
+      "command.completed",
+      "pnpm",
+      { command: "pnpm", args: ["lint"], exitCode: 1, stdout: ESLINT_OUTPUT },
+      "failed",
+    );
+    append(
+      "command.completed",
+      "pnpm",
+      { command: "pnpm", args: ["build"], exitCode: 0, stdout: VITE_OUTPUT },
+      "completed",
+    );
+    append(
+      "command.completed",
+      "pnpm",
+      {
+        command: "pnpm",
+        args: ["add", "zod"],
+        exitCode: 0,
+        stdout: "dependencies:\n+ zod 4.1.0\n",
+      },
+      "completed",
+    );
+    append(
+      "command.completed",
+      "npx",
+      {
+        command: "npx",
+        args: ["prisma", "migrate", "deploy"],
+        exitCode: 0,
+        stdout: PRISMA_OUTPUT,
+      },
+      "completed",
+    );
+    append(
+      "command.completed",
+      "curl",
+      {
+        command: "curl",
+        args: ["-i", "https://api.example.com/v1/users?page=2"],
+        exitCode: 0,
+        stdout: "HTTP/2 503\n\nupstream unavailable",
+      },
+      "completed",
+    );
+    append(
+      "tool.started",
+      "WebFetch",
+      {
+        toolUseId: "toolu_fetch",
+        name: "WebFetch",
+        input: { url: "https://docs.example.com/guide#setup", prompt: "Read" },
+      },
+      "running",
+    );
+    append(
+      "tool.completed",
+      "WebFetch",
+      { toolUseId: "toolu_fetch", name: "WebFetch", output: "# Guide" },
+      "completed",
+    );
+
+    reingestSessionHistory(db, sessionId);
+
+    const byType = new Map(
+      db
+        .getSessionArtifacts(sessionId)
+        .map((artifact) => [
+          `${artifact.artifactType}:${parseArtifactMetadata(artifact.metadata).httpClient ?? ""}`,
+          parseArtifactMetadata(artifact.metadata),
+        ]),
+    );
+    expect([...byType.keys()].sort()).toEqual([
+      "build-result:",
+      "dependency-change:",
+      "http-request:WebFetch",
+      "http-request:curl",
+      "lint-result:",
+      "migration:",
+    ]);
+    expect(byType.get("lint-result:")).toEqual(
+      expect.objectContaining({
+        linter: "eslint",
+        errorCount: 2,
+        lintRuleIds: ["no-unused-vars"],
+        outcome: "failed",
+      }),
+    );
+    expect(byType.get("build-result:")).toEqual(
+      expect.objectContaining({ buildTool: "vite", durationMs: 1840 }),
+    );
+    expect(byType.get("dependency-change:")).toEqual(
+      expect.objectContaining({
+        dependencyAction: "add",
+        dependencyVersions: ["zod@4.1.0"],
+      }),
+    );
+    expect(byType.get("migration:")).toEqual(
+      expect.objectContaining({
+        migrationTool: "prisma",
+        migrationAction: "apply",
+      }),
+    );
+    // A 5xx response fails the request even though curl itself exited 0
+    expect(byType.get("http-request:curl")).toEqual(
+      expect.objectContaining({
+        httpMethod: "GET",
+        url: "https://api.example.com/v1/users",
+        statusCode: 503,
+        outcome: "failed",
+      }),
+    );
+    expect(byType.get("http-request:WebFetch")).toEqual(
+      expect.objectContaining({
+        url: "https://docs.example.com/guide",
+        host: "docs.example.com",
+        outcome: "succeeded",
+      }),
+    );
+
+    expect(db.getSessionArtifactSummary(sessionId).byType).toEqual({
+      fileChange: 0,
+      commandOutput: 0,
+      testResult: 0,
+      gitCommit: 0,
+      lintResult: 1,
+      buildResult: 1,
+      dependencyChange: 1,
+      httpRequest: 2,
+      migration: 1,
+    });
+
+    const result = await createGetSessionArtifactsHandler(db)({
+      id: sessionId,
+      artifactType: "http-request",
+    });
+    const artifacts = result.structuredContent.artifacts as Array<{
+      artifactType: string;
+      httpMethod: string | null;
+      statusCode: number | null;
+    }>;
+    expect(result.structuredContent.page).toEqual(
+      expect.objectContaining({ total: 2 }),
+    );
+    expect(
+      artifacts
+        .map((artifact) => [
+          artifact.artifactType,
+          artifact.httpMethod,
+          artifact.statusCode,
+        ])
+        .sort(),
+    ).toEqual([
+      ["http-request", "GET", null],
+      ["http-request", "GET", 503],
+    ]);
+  });
+});
@@ -0,0 +1,326 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { tmpdir } from "node:os";
+import { parseDiagnostics } from "../src/ingestion/diagnostics.js";
+import { reingestSessionHistory } from "../src/ingestion/index.js";
+import { parseArtifactMetadata } from "../src/lib/session-artifacts.js";
+import { EvidenceDatabase } from "../src/lib/storage/index.js";
+
+const PROJECT_ROOT = "/work/app";
+
+const PYTHON_TRACEBACK = `Traceback (most recent call last):
+  File "/work/app/app/main.py", line 42, in <module>
+    run()
+  File "/work/app/app/users.py", line 17, in load_user
+    return USERS[user_id]
+           ~~~~~^^^^^^^^^
+  File "/usr/lib/python3.12/collections/__init__.py", line 1121, in __getitem__
+    raise KeyError(key)
+KeyError: 'alice'
+`;
+
+const PYTEST_OUTPUT = `============================= FAILURES =============================
+_____________________ TestUsers.test_load_user _____________________
+
+    def test_load_user(self):
+>       assert load_user("bob") == {"name": "bob"}
+
+tests/test_users.py:9:
+_ _ _ _ _ _ _ _ _ _ _ _ _ _ _ _ _ _ _ _ _ _ _ _ _ _ _ _ _ _ _ _ _ _
+
+    def load_user(user_id):
+>       return USERS[user_id]
+E       KeyError: 'bob'
+
+app/users.py:17: KeyError
+===================== short test summary info ======================
+FAILED tests/test_users.py::TestUsers::test_load_user - KeyError: 'bob'
+======================== 1 failed in 0.03s =========================
+`;
+
+const RUSTC_OUTPUT = `   Compiling app v0.1.0 (/work/app)
+error[E0382]: borrow of moved value: \`names\`
+ --> src/main.rs:5:20
+  |
+3 |     let names = vec![1];
+  |         ----- move occurs because \`names\` has type \`Vec<i32>\`
+4 |     consume(names);
+  |             ----- value moved here
+5 |     println!("{:?}", names);
+  |                    ^^^^^ value borrowed here after move
+
+error: could not compile \`app\` (bin "app") due to 1 previous error
+`;
+
+const RUST_PANIC = `thread 'store::tests::keeps_rows' panicked at src/store.rs:88:9:
+assertion failed: rows.is_empty()
+note: run with \`RUST_BACKTRACE=1\` environment variable to display a backtrace
+`;
+
+const GO_PANIC = `panic: runtime error: invalid memory address or nil pointer dereference
+[signal SIGSEGV: segmentation violation code=0x1 addr=0x0 pc=0x47d2a5]
+
+goroutine 1 [running]:
+main.(*Server).handle(0x0, {0x4b8f2e, 0x5})
+	/work/app/server.go:27 +0x25
+main.main()
+	/work/app/main.go:12 +0x3c
+exit status 2
+`;
+
+const NODE_STACK = `/work/app/src/users.js:10
+  return user.profile.id;
+                      ^
+
+TypeError: Cannot read properties of undefined (reading 'id')
+    at getUserId (/work/app/src/users.js:10:23)
+    at Object.<anonymous> (/work/app/src/index.js:4:1)
+    at Module._compile (node:internal/modules/cjs/loader:1369:14)
+
+Node.js v20.12.0
+`;
+
+describe("Diagnostics Parsing", () => {
+  it("extracts file, line, symbol, code, and top frame per toolchain", () => {
+    expect(
+      parseDiagnostics(PYTHON_TRACEBACK, { projectRoot: PROJECT_ROOT }),
+    ).toEqual([
+      {
+        source: "python",
+        file: "app/users.py",
+        line: 17,
+        column: null,
+        symbol: "load_user",
+        errorCode: "KeyError",
+        message: "'alice'",
+        topFrame: "app/users.py:17 in load_user",
+      },
+    ]);
+
+    expect(parseDiagnostics(PYTEST_OUTPUT)).toEqual([
+      {
+        source: "pytest",
+        file: "tests/test_users.py",
+        line: 9,
+        column: null,
+        symbol: "TestUsers::test_load_user",
+        errorCode: "KeyError",
+        message: "KeyError: 'bob'",
+        topFrame: "app/users.py:17",
+      },
+    ]);
+
+    expect(parseDiagnostics(RUSTC_OUTPUT)).toEqual([
+      expect.objectContaining({
+        source: "rustc",
+        file: "src/main.rs",
+        line: 5,
+        column: 20,
+        symbol: "names",
+        errorCode: "E0382",
+      }),
+    ]);
+    expect(parseDiagnostics(RUST_PANIC)[0]).toEqual(
+      expect.objectContaining({
+        symbol: "store::tests::keeps_rows",
+        errorCode: "panic",
+        message: "assertion failed: rows.is_empty()",
+        topFrame: "src/store.rs:88",
+      }),
+    );
+
+    expect(parseDiagnostics(GO_PANIC, { projectRoot: PROJECT_ROOT })).toEqual([
+      expect.objectContaining({
+        source: "go",
+        file: "server.go",
+        line: 27,
+        symbol: "main.(*Server).handle",
+        errorCode: "panic: nil pointer dereference",
+        topFrame: "server.go:27 in main.(*Server).handle",
+      }),
+    ]);
+    expect(
+      parseDiagnostics(
+        "--- FAIL: TestStore (0.00s)\n    store_test.go:14: got 1 rows, want 2\nFAIL",
+      )[0],
+    ).toEqual(
+      expect.objectContaining({
+        file: "store_test.go",
+        line: 14,
+        symbol: "TestStore",
+        message: "got 1 rows, want 2",
+      }),
+    );
+    expect(parseDiagnostics("./main.go:8:2: undefined: loadUsers")[0]).toEqual(
+      expect.objectContaining({ file: "main.go", symbol: "loadUsers" }),
+    );
+
+    expect(
+      parseDiagnostics(NODE_STACK, { projectRoot: PROJECT_ROOT })[0],
+    ).toEqual({
+      source: "node",
+      file: "src/users.js",
+      line: 10,
+      column: null,
+      symbol: "getUserId",
+      errorCode: "TypeError",
+      message: "Cannot read properties of undefined (reading 'id')",
+      topFrame: "src/users.js:10 in getUserId",
+    });
+
+    expect(
+      parseDiagnostics(
+        "src/store.ts(12,5): error TS2339: Property 'rows' does not exist on type 'Store'.",
+      )[0],
+    ).toEqual(
+      expect.objectContaining({
+        source: "tsc",
+        file: "src/store.ts",
+        line: 12,
+        column: 5,
+        symbol: "rows",
+        errorCode: "TS2339",
+      }),
+    );
+    expect(
+      parseDiagnostics(
+        "/work/app/src/store.ts\n  4:7  error  'unused' is assigned a value but never used  no-unused-vars\n\n✖ 1 problem",
+        { projectRoot: PROJECT_ROOT },
+      )[0],
+    ).toEqual(
+      expect.objectContaining({
+        source: "eslint",
+        file: "src/store.ts",
+        line: 4,
+        symbol: "unused",
+        errorCode: "no-unused-vars",
+      }),
+    );
+
+    expect(parseDiagnostics("Done in 1.2s\nAll good")).toEqual([]);
+  });
+});
+
+describe("Diagnostic Failure Clustering", () => {
+  let tempDir: string;
+  let db: EvidenceDatabase;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(tmpdir(), "footprint-diagnostics-"));
+    db = new EvidenceDatabase(path.join(tempDir, "footprint.db"));
+  });
+
+  afterEach(() => {
+    db.close();
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  function recordFailures(
+    commands: Array<{ command: string; args: string[]; stderr: string }>,
+  ) {
+    const sessionId = db.createSession({
+      host: "claude",
+      projectRoot: PROJECT_ROOT,
+      cwd: PROJECT_ROOT,
+      title: "Fix the crashes",
+      status: "completed",
+      startedAt: "2026-03-10T08:00:00.000Z",
+      endedAt: "2026-03-10T08:05:00.000Z",
+      metadata: null,
+    });
+    commands.forEach((entry, index) => {
+      db.appendTimelineEvent({
+        sessionId,
+        seq: index + 1,
+        eventType: "command.completed",
+        eventSubType: entry.command,
+        source: "wrapper",
+        summary: [entry.command, ...entry.args].join(" "),
+        payload: JSON.stringify({ ...entry, exitCode: 1 }),
+        startedAt: "2026-03-10T08:01:00.000Z",
+        endedAt: "2026-03-10T08:01:05.000Z",
+        status: "failed",
+      });
+    });
+    reingestSessionHistory(db, sessionId);
+    return db
+      .getSessionArtifacts(sessionId)
+      .filter((artifact) => artifact.artifactType === "command-output")
+      .map((artifact) => parseArtifactMetadata(artifact.metadata));
+  }
+
+  it("keys failure signatures and command-less issues on parsed diagnostics", () => {
+    const artifacts = recordFailures([
+      { command: "cargo", args: ["run"], stderr: RUSTC_OUTPUT },
+      { command: "go", args: ["run", "."], stderr: GO_PANIC },
+      { command: "python", args: ["app/main.py"], stderr: PYTHON_TRACEBACK },
+    ]);
+    const byCommand = new Map(
+      artifacts.map((metadata) => [metadata.command, metadata]),
+    );
+
+    expect(byCommand.get("cargo")).toEqual(
+      expect.objectContaining({
+        failureSignatureKey: "rust:e0382",
+        failureSignatureLabel: "Rust E0382",
+        errorCode: "E0382",
+        diagnosticSource: "rustc",
+        diagnosticFile: "src/main.rs",
+        diagnosticLine: 5,
+        diagnosticSymbol: "names",
+        issueKey: "rust:e0382-src-main-rs",
+        issueLabel: "Rust E0382 in src/main.rs",
+        issueFamilyKey: "rust-family:e0382",
+      }),
+    );
+    expect(byCommand.get("go")).toEqual(
+      expect.objectContaining({
+        failureSignatureKey: "go:panic-nil-pointer-dereference",
+        failureSignatureLabel: "Go panic: nil pointer dereference",
+        topFrame: "server.go:27 in main.(*Server).handle",
+        issueFamilyKey: "go-family:panic-nil-pointer-dereference",
+      }),
+    );
+
+    // Runtime commands keep their own issue so a later clean run resolves it
+    expect(byCommand.get("python")).toEqual(
+      expect.objectContaining({
+        failureSignatureKey: "python:keyerror",
+        failureSignatureLabel: "Python KeyError",
+        diagnosticFile: "app/users.py",
+        topFrame: "app/users.py:17 in load_user",
+        issueKey: "runtime:python-app-main-py",
+      }),
+    );
+  });
+
+  it("leaves assertion and system-error signatures to the generic patterns", () => {
+    const artifacts = recordFailures([
+      {
+        command: "node",
+        args: ["scripts/seed.js"],
+        stderr:
+          "Error: ENOENT: no such file or directory, open 'seed.json'\n    at Object.openSync (node:fs:573:18)\n    at seed (/work/app/scripts/seed.js:3:6)",
+      },
+      {
+        command: "node",
+        args: ["--test"],
+        stderr:
+          "AssertionError [ERR_ASSERTION]: Expected values to be strictly equal\n    at TestContext.<anonymous> (/work/app/test/store.test.js:8:10)",
+      },
+    ]);
+
+    expect(
+      artifacts
+        .map((metadata) => [
+          metadata.failureSignatureKey,
+          metadata.diagnosticFile,
+        ])
+        .sort(),
+    ).toEqual([
+      ["runtime:assertion", "test/store.test.js"],
+      ["runtime:enoent", "scripts/seed.js"],
+    ]);
+  });
+});
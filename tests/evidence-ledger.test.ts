@@ -0,0 +1,224 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import Database from "better-sqlite3";
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { tmpdir } from "node:os";
+import { randomBytes } from "node:crypto";
+import { FootprintServer } from "../src/index.js";
+import {
+  EVIDENCE_LEDGER_HEAD_KEY,
+  EvidenceDatabase,
+  LEDGER_GENESIS_HASH,
+  ensureSigningIdentity,
+  storeSalt,
+  type SigningIdentity,
+} from "../src/lib/storage/index.js";
+import { FootprintTestHelpers } from "./test-helpers.js";
+import type { ServerConfig } from "../src/types.js";
+
+describe("Evidence Ledger", () => {
+  let tempDir: string;
+  let dbPath: string;
+  let db: EvidenceDatabase;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(tmpdir(), "footprint-ledger-"));
+    dbPath = path.join(tempDir, "footprint.db");
+    db = new EvidenceDatabase(dbPath);
+  });
+
+  afterEach(() => {
+    db.close();
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  function rawDb(): Database.Database {
+    return (db as unknown as { db: Database.Database }).db;
+  }
+
+  function createEvidence(conversationId: string): string {
+    return createSignedEvidence(conversationId, null);
+  }
+
+  function createSignedEvidence(
+    conversationId: string,
+    signer: SigningIdentity | null,
+  ): string {
+    return db.create(
+      {
+        timestamp: new Date().toISOString(),
+        conversationId,
+        llmProvider: "claude",
+        encryptedContent: new Uint8Array([1, 2, 3]),
+        nonce: new Uint8Array([4, 5, 6]),
+        contentHash: `hash-${conversationId}`,
+        messageCount: 1,
+        gitCommitHash: null,
+        gitTimestamp: null,
+        tags: null,
+      },
+      signer,
+    );
+  }
+
+  it("links each new record to the previous one and advances the head", () => {
+    const ids = ["first", "second", "third"].map(createEvidence);
+    const records = ids.map((id) => db.findById(id)!);
+
+    expect(records.map((record) => record.chainSeq)).toEqual([1, 2, 3]);
+    expect(records[0]!.prevHash).toBe(LEDGER_GENESIS_HASH);
+    expect(records[1]!.prevHash).toBe(records[0]!.entryHash);
+    expect(records[2]!.prevHash).toBe(records[1]!.entryHash);
+
+    const report = db.verifyLedger();
+    expect(report).toEqual({
+      verified: true,
+      entries: 3,
+      deleted: 0,
+      head: { seq: 3, hash: records[2]!.entryHash },
+      issues: [],
+    });
+  });
+
+  it("keeps tombstones for app deletions and ignores tag and git updates", () => {
+    const [first, second, third] = ["first", "second", "third"].map(
+      createEvidence,
+    );
+    db.delete(second!);
+    db.deleteMany([third!]);
+    db.updateTags(first!, "audit");
+    db.updateGitInfo(first!, "abc123", "2026-03-09T12:00:00.000Z");
+    createEvidence("fourth");
+
+    expect(db.verifyLedger()).toEqual(
+      expect.objectContaining({
+        verified: true,
+        entries: 2,
+        deleted: 2,
+        head: expect.objectContaining({ seq: 4 }),
+      }),
+    );
+  });
+
+  it("reports records deleted or edited outside Footprint", () => {
+    const [first, second] = ["first", "second", "third"].map(createEvidence);
+    rawDb().prepare(`DELETE FROM evidences WHERE id = ?`).run(second);
+    rawDb()
+      .prepare(`UPDATE evidences SET messageCount = 9 WHERE id = ?`)
+      .run(first);
+
+    const report = db.verifyLedger();
+    expect(report.verified).toBe(false);
+    expect(report.issues).toEqual([
+      expect.objectContaining({ kind: "edited", seq: 1, evidenceId: first }),
+      expect.objectContaining({ kind: "gap", seq: 2, evidenceId: null }),
+    ]);
+  });
+
+  it("reports reordered entries, unchained rows, and a stale head", () => {
+    const [first, second, third] = ["first", "second", "third"].map(
+      createEvidence,
+    );
+    const swap = rawDb().prepare(
+      `UPDATE evidences SET chainSeq = ? WHERE id = ?`,
+    );
+    swap.run(-1, first);
+    swap.run(1, second);
+    swap.run(2, first);
+    rawDb().prepare(`DELETE FROM evidences WHERE id = ?`).run(third);
+    rawDb()
+      .prepare(
+        `
+          INSERT INTO evidences (
+            id, timestamp, conversationId, llmProvider, encryptedContent,
+            nonce, contentHash, messageCount
+          ) VALUES ('forged', ?, 'forged', 'claude', x'00', x'00', 'hash', 1)
+        `,
+      )
+      .run(new Date().toISOString());
+
+    const kinds = db.verifyLedger().issues.map((issue) => issue.kind);
+    expect(kinds).toEqual([
+      "unchained",
+      "reordered",
+      "reordered",
+      "gap",
+      "head-mismatch",
+    ]);
+  });
+
+  it("requires signed tombstones and head once a signing identity exists", () => {
+    const [first, second] = ["first", "second"].map(createEvidence);
+    db.delete(first!);
+
+    storeSalt(rawDb(), randomBytes(16));
+    const signer = ensureSigningIdentity(
+      rawDb(),
+      new Uint8Array(randomBytes(32)),
+    );
+    // The tombstone and head written before the identity were signed with it
+    expect(db.verifyLedger().verified).toBe(true);
+
+    const third = createSignedEvidence("third", signer);
+    const fourth = createSignedEvidence("fourth", signer);
+    db.delete(second!, signer);
+    expect(db.verifyLedger()).toEqual(
+      expect.objectContaining({ verified: true, entries: 2, deleted: 2 }),
+    );
+
+    // Cover a row deleted by hand with a tombstone that matches it
+    rawDb()
+      .prepare(
+        `
+          INSERT INTO evidence_ledger_tombstones (
+            chainSeq, evidenceId, prevHash, entryHash, deletedAt
+          )
+          SELECT chainSeq, id, prevHash, entryHash, ?
+          FROM evidences WHERE id = ?
+        `,
+      )
+      .run(new Date().toISOString(), third);
+    rawDb().prepare(`DELETE FROM evidences WHERE id = ?`).run(third);
+    expect(db.verifyLedger().issues).toEqual([
+      expect.objectContaining({ kind: "unsigned", seq: 3, evidenceId: third }),
+    ]);
+
+    // Drop the last entry and move the head back to the one before it
+    const previous = db.findById(fourth)!;
+    rawDb().prepare(`DELETE FROM evidences WHERE id = ?`).run(fourth);
+    rawDb()
+      .prepare(`UPDATE metadata SET value = ? WHERE key = ?`)
+      .run(
+        JSON.stringify({ seq: 3, hash: previous.prevHash }),
+        EVIDENCE_LEDGER_HEAD_KEY,
+      );
+    expect(db.verifyLedger().issues.map((issue) => issue.kind)).toEqual([
+      "unsigned",
+      "unsigned",
+    ]);
+  });
+
+  it("serves verify-ledger as an MCP tool", async () => {
+    createEvidence("first");
+    const server = new FootprintServer({
+      dbPath,
+      password: "evidence-ledger",
+    } satisfies ServerConfig);
+    const helpers = new FootprintTestHelpers(server);
+
+    try {
+      const tools = await helpers.getTools();
+      expect(tools).toContainEqual(
+        expect.objectContaining({ name: "verify-ledger" }),
+      );
+
+      const result = await helpers.callTool("verify-ledger", {});
+      expect(result.structuredContent).toEqual(
+        expect.objectContaining({ verified: true, entries: 1, issues: [] }),
+      );
+      expect(result.textContent).toContain("Evidence ledger verified");
+    } finally {
+      server.close();
+    }
+  });
+});
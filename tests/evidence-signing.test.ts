@@ -0,0 +1,196 @@
+/* global Buffer */
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import Database from "better-sqlite3";
+import JSZip from "jszip";
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { tmpdir } from "node:os";
+import { createHash, randomBytes } from "node:crypto";
+import { FootprintServer } from "../src/index.js";
+import {
+  signingPublicKeyFromPem,
+  verifyDetached,
+} from "../src/lib/crypto/index.js";
+import {
+  EvidenceDatabase,
+  ensureSigningIdentity,
+  retrieveSigningPublicKey,
+  storeSalt,
+} from "../src/lib/storage/index.js";
+import { FootprintTestHelpers } from "./test-helpers.js";
+import type { ServerConfig } from "../src/types.js";
+
+describe("Evidence Signing", () => {
+  let tempDir: string;
+  let dbPath: string;
+  let server: FootprintServer;
+  let helpers: FootprintTestHelpers;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(tmpdir(), "footprint-signing-"));
+    dbPath = path.join(tempDir, "footprint.db");
+    server = new FootprintServer({
+      dbPath,
+      password: "evidence-signing",
+    } satisfies ServerConfig);
+    helpers = new FootprintTestHelpers(server);
+  });
+
+  afterEach(() => {
+    server.close();
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  function rawDb(): Database.Database {
+    return (server as unknown as { db: EvidenceDatabase }).db.getDb();
+  }
+
+  async function capture(conversationId: string): Promise<string> {
+    const result = await helpers.callTool("capture-footprint", {
+      conversationId,
+      llmProvider: "claude",
+      content: `User: ${conversationId}\nAssistant: Noted.`,
+    });
+    return result.structuredContent.id as string;
+  }
+
+  it("signs captured footprints and rejects a forged signature", async () => {
+    const id = await capture("signed-decision");
+    const publicKey = retrieveSigningPublicKey(rawDb());
+    expect(publicKey).not.toBeNull();
+
+    const verification = await helpers.callTool("verify-footprint", { id });
+    expect(verification.structuredContent.verified).toBe(true);
+    expect(
+      (verification.structuredContent.checks as Record<string, unknown>)
+        .signature,
+    ).toEqual(
+      expect.objectContaining({
+        passed: true,
+        signed: true,
+        algorithm: "Ed25519",
+      }),
+    );
+    expect(verification.textContent).toContain("Signature: ✓ Ed25519");
+
+    rawDb()
+      .prepare(`UPDATE evidences SET signature = ? WHERE id = ?`)
+      .run(Buffer.alloc(64).toString("base64"), id);
+    const forged = await helpers.callTool("verify-footprint", { id });
+    expect(forged.structuredContent.verified).toBe(false);
+    expect(forged.structuredContent.integrityVerified).toBe(false);
+  }, 30_000);
+
+  it("fails a footprint whose signature was stripped after signing existed", async () => {
+    const id = await capture("stripped-decision");
+    rawDb()
+      .prepare(
+        `UPDATE evidences SET signature = NULL, signingKeyId = NULL WHERE id = ?`,
+      )
+      .run(id);
+
+    const stripped = await helpers.callTool("verify-footprint", { id });
+    expect(stripped.structuredContent.verified).toBe(false);
+    expect(
+      (stripped.structuredContent.checks as Record<string, unknown>).signature,
+    ).toEqual(
+      expect.objectContaining({ passed: false, signed: false, required: true }),
+    );
+    expect(stripped.textContent).toContain("Signature: ✗ Missing");
+  }, 30_000);
+
+  it("exports bundles a third party can verify from the bundled public key", async () => {
+    const id = await capture("exported-decision");
+    const exported = await helpers.callTool("export-footprints", {
+      outputMode: "base64",
+    });
+    const zip = await JSZip.loadAsync(
+      Buffer.from(exported.structuredContent.base64Data as string, "base64"),
+    );
+
+    const publicKey = signingPublicKeyFromPem(
+      await zip.file("signatures/public-key.pem")!.async("text"),
+    );
+    const manifestJson = await zip.file("manifest.json")!.async("text");
+    const manifestSignature = await zip
+      .file("signatures/manifest.sig")!
+      .async("text");
+    expect(
+      verifyDetached(
+        manifestJson,
+        new Uint8Array(Buffer.from(manifestSignature, "base64")),
+        publicKey,
+      ),
+    ).toBe(true);
+    expect(
+      verifyDetached(
+        manifestJson.replace('"evidenceCount": 1', '"evidenceCount": 2'),
+        new Uint8Array(Buffer.from(manifestSignature, "base64")),
+        publicKey,
+      ),
+    ).toBe(false);
+
+    const manifest = JSON.parse(manifestJson) as {
+      checksumSha256: string;
+      signingKeyId: string;
+    };
+    expect(manifest.signingKeyId).toBe(exported.structuredContent.signingKeyId);
+    expect(manifest.checksumSha256).toBe(
+      createHash("sha256")
+        .update(await zip.file("checksum.txt")!.async("text"))
+        .digest("hex"),
+    );
+
+    const metadata = JSON.parse(
+      await zip.file(`evidences/${id}/metadata.json`)!.async("text"),
+    ) as { contentHash: string; signature: string };
+    expect(
+      verifyDetached(
+        metadata.contentHash,
+        new Uint8Array(Buffer.from(metadata.signature, "base64")),
+        publicKey,
+      ),
+    ).toBe(true);
+  }, 30_000);
+
+  it("leaves legacy footprints and identity-less exports unsigned", async () => {
+    const db = (server as unknown as { db: EvidenceDatabase }).db;
+    db.create({
+      timestamp: new Date().toISOString(),
+      conversationId: "legacy",
+      llmProvider: "claude",
+      encryptedContent: new Uint8Array([1]),
+      nonce: new Uint8Array([2]),
+      contentHash: "hash",
+      messageCount: 1,
+      gitCommitHash: null,
+      gitTimestamp: null,
+      tags: null,
+    });
+
+    const exported = await helpers.callTool("export-footprints", {
+      outputMode: "base64",
+    });
+    expect(exported.structuredContent.signingKeyId).toBeNull();
+    const zip = await JSZip.loadAsync(
+      Buffer.from(exported.structuredContent.base64Data as string, "base64"),
+    );
+    expect(zip.file("signatures/manifest.sig")).toBeNull();
+  });
+
+  it("reuses the stored identity and refuses to unlock it with another key", () => {
+    const db = (server as unknown as { db: EvidenceDatabase }).db;
+    storeSalt(db.getDb(), randomBytes(16));
+    const key = new Uint8Array(randomBytes(32));
+
+    const first = ensureSigningIdentity(db.getDb(), key);
+    const second = ensureSigningIdentity(db.getDb(), key);
+    expect(second.keyId).toBe(first.keyId);
+    expect(Buffer.from(second.privateKey)).toEqual(
+      Buffer.from(first.privateKey),
+    );
+    expect(() =>
+      ensureSigningIdentity(db.getDb(), new Uint8Array(randomBytes(32))),
+    ).toThrow();
+  });
+});
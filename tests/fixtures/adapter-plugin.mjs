@@ -0,0 +1,21 @@
+// Module adapter plugin used by the adapter plugin tests.
+export default function createAcmeAdapter(host) {
+  return {
+    host,
+    name: "acme-module-adapter",
+    parseLine(line, stream) {
+      if (!line.startsWith("ACME ")) {
+        return null;
+      }
+
+      const [eventType, ...summary] = line.slice("ACME ".length).split(" ");
+      return {
+        handled: true,
+        suppressTranscript: true,
+        events: [
+          { eventType, summary: summary.join(" "), payload: { stream } },
+        ],
+      };
+    },
+  };
+}
@@ -13,12 +13,51 @@ const adapterPrefixByHost = {
 const host = process.env.FOOTPRINT_SESSION_HOST || "claude";
 const shouldEmitAdapter = process.argv.includes("--emit-adapter");
 const shouldEmitReady = process.argv.includes("--emit-ready");
+const shouldEmitStreamJson = process.argv.includes("--emit-stream-json");
 
 function emitAdapterEvent(event) {
-  const adapterPrefix = adapterPrefixByHost[host] || adapterPrefixByHost.claude;
+  const adapterPrefix = adapterPrefixByHost[host] || "FOOTPRINT_EVENT";
   process.stdout.write(`${adapterPrefix} ${JSON.stringify(event)}\n`);
 }
 
+function emitClaudeStreamJson(line) {
+  const toolUseId = `toolu_${line.length}`;
+  process.stdout.write(
+    `${JSON.stringify({
+      type: "assistant",
+      message: {
+        content: [
+          { type: "text", text: `working on ${line}` },
+          {
+            type: "tool_use",
+            id: toolUseId,
+            name: "Bash",
+            input: { command: "pnpm test" },
+          },
+        ],
+        usage: { input_tokens: 10, output_tokens: 5 },
+      },
+      parent_tool_use_id: null,
+    })}\n`,
+  );
+  process.stdout.write(
+    `${JSON.stringify({
+      type: "user",
+      message: {
+        content: [
+          {
+            type: "tool_result",
+            tool_use_id: toolUseId,
+            content: "Exit code 1\nFAIL src/app.test.ts",
+            is_error: true,
+          },
+        ],
+      },
+      parent_tool_use_id: null,
+    })}\n`,
+  );
+}
+
 if (shouldEmitReady) {
   emitAdapterEvent({
     eventType: "session.ready",
@@ -56,6 +95,19 @@ function finishSession() {
     process.exit(7);
   }
 
+  if (shouldEmitStreamJson) {
+    process.stdout.write(
+      `${JSON.stringify({
+        type: "result",
+        subtype: "success",
+        is_error: false,
+        num_turns: 1,
+        total_cost_usd: 0.0042,
+      })}\n`,
+    );
+    process.exit(0);
+  }
+
   process.stdout.write(`done:${captured.trim() || "no-input"}\n`);
   process.exit(0);
 }
@@ -64,6 +116,10 @@ process.stdin.on("data", (chunk) => {
   captured += chunk;
   const lines = chunk.split(/\r?\n/).filter(Boolean);
   for (const line of lines) {
+    if (shouldEmitStreamJson) {
+      emitClaudeStreamJson(line);
+      continue;
+    }
     if (shouldEmitAdapter) {
       emitAdapterEvent({
         eventType: "tool.started",
@@ -0,0 +1,280 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { tmpdir } from "node:os";
+import { randomBytes } from "node:crypto";
+import Database from "better-sqlite3";
+import {
+  buildHistorySnippet,
+  matchesHistoryQuery,
+  parseHistoryQuery,
+  toFtsMatchExpression,
+} from "../src/lib/history-query.js";
+import { EvidenceDatabase } from "../src/lib/storage/index.js";
+
+function seedSession(
+  db: EvidenceDatabase,
+  options: {
+    title: string;
+    startedAt: string;
+    messages: string[];
+    host?: "claude" | "gemini" | "codex";
+  },
+): string {
+  const sessionId = db.createSession({
+    host: options.host ?? "claude",
+    projectRoot: "/tmp/project",
+    cwd: "/tmp/project",
+    title: options.title,
+    status: "completed",
+    startedAt: options.startedAt,
+    endedAt: options.startedAt,
+    metadata: null,
+  });
+  options.messages.forEach((content, index) => {
+    db.appendMessage({
+      sessionId,
+      seq: index + 1,
+      role: index % 2 === 0 ? "user" : "assistant",
+      source: "wrapper",
+      content,
+      capturedAt: options.startedAt,
+      metadata: null,
+    });
+  });
+  return sessionId;
+}
+
+describe("History query syntax", () => {
+  it("parses phrases, prefixes, OR groups, and exclusions", () => {
+    const query = parseHistoryQuery(
+      '"flaky tests" migrat* redis OR postgres NOT docker -Windows',
+    );
+
+    expect(query).toEqual({
+      required: [
+        [{ tokens: ["flaky", "tests"], prefix: false }],
+        [{ tokens: ["migrat"], prefix: true }],
+        [
+          { tokens: ["redis"], prefix: false },
+          { tokens: ["postgres"], prefix: false },
+        ],
+      ],
+      excluded: [
+        { tokens: ["docker"], prefix: false },
+        { tokens: ["windows"], prefix: false },
+      ],
+    });
+    expect(toFtsMatchExpression(query)).toBe(
+      '("flaky tests" AND "migrat"* AND ("redis" OR "postgres")) NOT ("docker" OR "windows")',
+    );
+  });
+
+  it("re-quotes tokens so FTS5 syntax in user input stays literal", () => {
+    expect(
+      toFtsMatchExpression(parseHistoryQuery('titleText:secret NEAR("a"')),
+    ).toBe('"titletext secret" AND "near a"');
+  });
+
+  it("rejects exclusion-only queries and ignores queries without words", () => {
+    expect(() => parseHistoryQuery("NOT docker")).toThrow(
+      "Search query must include at least one term to match",
+    );
+    expect(parseHistoryQuery("***")).toBeNull();
+    expect(parseHistoryQuery("--")).toBeNull();
+    expect(parseHistoryQuery("::")).toBeNull();
+  });
+
+  it("matches and highlights text the same way the index does", () => {
+    const query = parseHistoryQuery('"café crème" migrat*');
+    const text =
+      "Earlier notes. The Café Crème service failed while running migrations for the billing schema today.";
+
+    expect(matchesHistoryQuery(query, text)).toBe(true);
+    expect(matchesHistoryQuery(parseHistoryQuery("cafe -billing"), text)).toBe(
+      false,
+    );
+    expect(buildHistorySnippet(query, text, 9)).toBe(
+      "…notes. The **Café Crème** service failed while running **migrations**…",
+    );
+    expect(buildHistorySnippet(parseHistoryQuery("missing"), text)).toBeNull();
+  });
+});
+
+describe("Session history full-text search", () => {
+  let tempDir: string;
+  let dbPath: string;
+  let db: EvidenceDatabase;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(tmpdir(), "footprint-history-fts-"));
+    dbPath = path.join(tempDir, "footprint.db");
+    db = new EvidenceDatabase(dbPath);
+  });
+
+  afterEach(() => {
+    db.close();
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it("ranks sessions by relevance and returns highlighted snippets", () => {
+    const passing = seedSession(db, {
+      title: "Refactor billing",
+      startedAt: "2026-03-09T12:00:00.000Z",
+      messages: ["Tidy up the billing module; the flaky test is unrelated."],
+    });
+    const focused = seedSession(db, {
+      title: "Fix flaky tests",
+      startedAt: "2026-03-09T10:00:00.000Z",
+      messages: [
+        "The flaky tests in the browser suite keep timing out.",
+        "Retried the flaky tests with a longer timeout and they pass.",
+      ],
+    });
+
+    const search = db.searchSessionHistory({ query: "flaky" });
+
+    expect(search.total).toBe(2);
+    expect(search.results.map((hit) => hit.session.id)).toEqual([
+      focused,
+      passing,
+    ]);
+    expect(search.results[0].score).toBeGreaterThan(
+      search.results[1].score ?? Infinity,
+    );
+    expect(search.results[0].snippets[0]).toBe("Fix **flaky** tests");
+    expect(search.results[0].snippets.join("\n")).toContain(
+      "The **flaky** tests in the browser suite",
+    );
+  });
+
+  it("supports phrase, prefix, OR, and NOT queries with pagination", () => {
+    const redis = seedSession(db, {
+      title: "Cache migration",
+      startedAt: "2026-03-09T10:00:00.000Z",
+      messages: ["Migrating the session cache to redis on docker."],
+    });
+    const postgres = seedSession(db, {
+      title: "Database upgrade",
+      startedAt: "2026-03-09T11:00:00.000Z",
+      messages: ["Upgrade postgres and run the migrations."],
+    });
+    seedSession(db, {
+      title: "Unrelated",
+      startedAt: "2026-03-09T12:00:00.000Z",
+      messages: ["Cache warmup notes for redis."],
+    });
+
+    const ids = (query: string) =>
+      db
+        .searchSessionHistory({ query })
+        .results.map((hit) => hit.session.id)
+        .sort();
+
+    expect(ids('"session cache"')).toEqual([redis]);
+    expect(ids("migrat*")).toEqual([redis, postgres].sort());
+    expect(ids("migrat* redis OR postgres")).toEqual([redis, postgres].sort());
+    expect(ids("migrat* -docker")).toEqual([postgres]);
+    expect(ids('"cache session"')).toEqual([]);
+    expect(ids("--")).toEqual([]);
+    expect(db.querySessionsByHistory({ query: "::" })).toEqual({
+      sessions: [],
+      total: 0,
+    });
+
+    const page = db.searchSessionHistory({
+      query: "migrat*",
+      limit: 1,
+      offset: 1,
+    });
+    expect(page.total).toBe(2);
+    expect(page.results).toHaveLength(1);
+    expect(
+      db.searchSessionHistory({ query: "migrat*", host: "gemini" }).total,
+    ).toBe(0);
+  });
+
+  it("keeps the index in sync as session history changes", () => {
+    const sessionId = seedSession(db, {
+      title: "Investigate outage",
+      startedAt: "2026-03-09T10:00:00.000Z",
+      messages: ["Looking at the load balancer logs."],
+    });
+    expect(db.searchSessionHistory({ query: "rollback" }).total).toBe(0);
+
+    db.replaceDecisionsForSession(sessionId, [
+      {
+        sessionId,
+        title: "Roll back",
+        summary: "Rollback the load balancer config.",
+        rationale: null,
+        status: "accepted",
+        sourceRefs: "[]",
+      },
+    ]);
+    db.updateSessionTitle(sessionId, "Load balancer rollback");
+
+    const search = db.searchSessionHistory({ query: "rollback" });
+    expect(search.total).toBe(1);
+    expect(search.results[0].snippets).toEqual([
+      "Load balancer **rollback**",
+      "**Rollback** the load balancer config.",
+    ]);
+    expect(db.searchSessionHistory({ query: "outage" }).total).toBe(0);
+  });
+
+  it("rebuilds the index for history written before it existed", () => {
+    const sessionId = seedSession(db, {
+      title: "Legacy session",
+      startedAt: "2026-03-09T10:00:00.000Z",
+      messages: ["Kubernetes upgrade notes."],
+    });
+    db.close();
+
+    const raw = new Database(dbPath);
+    raw.exec(`DELETE FROM session_history_fts`);
+    raw.exec(`DELETE FROM session_history_fts_rows`);
+    raw.close();
+
+    db = new EvidenceDatabase(dbPath);
+    expect(
+      db
+        .searchSessionHistory({ query: "kubernetes" })
+        .results.map((hit) => hit.session.id),
+    ).toEqual([sessionId]);
+  });
+
+  it("searches decrypted history in memory while the index stays empty", () => {
+    const sessionId = seedSession(db, {
+      title: "Customer import",
+      startedAt: "2026-03-09T10:00:00.000Z",
+      messages: ["Import acme-corp records and retry the failed batch."],
+    });
+    const key = new Uint8Array(randomBytes(32));
+    db.enableSessionHistoryEncryption(key);
+    db.close();
+
+    const raw = new Database(dbPath, { readonly: true });
+    const indexed = raw
+      .prepare(`SELECT COUNT(*) AS count FROM session_history_fts`)
+      .get() as { count: number };
+    raw.close();
+    expect(indexed.count).toBe(0);
+
+    db = new EvidenceDatabase(dbPath);
+    db.unlockSessionHistory(key);
+    const search = db.searchSessionHistory({ query: '"acme corp" retr*' });
+
+    expect(search.total).toBe(1);
+    expect(search.results[0]).toEqual({
+      session: expect.objectContaining({ id: sessionId }),
+      score: null,
+      snippets: [
+        "Import **acme-corp** records and **retry** the failed batch.",
+      ],
+    });
+    expect(
+      db.searchSessionHistory({ query: "acme -batch" }).results,
+    ).toHaveLength(0);
+  });
+});
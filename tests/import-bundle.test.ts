@@ -0,0 +1,373 @@
+/* global Buffer */
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import JSZip from "jszip";
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { tmpdir } from "node:os";
+import { createHash } from "node:crypto";
+import { FootprintServer } from "../src/index.js";
+import { reingestSessionHistory } from "../src/ingestion/index.js";
+import {
+  EvidenceDatabase,
+  exportSessions,
+  importBundle,
+} from "../src/lib/storage/index.js";
+import { FootprintTestHelpers } from "./test-helpers.js";
+import type { ServerConfig } from "../src/types.js";
+
+describe("Bundle Import", () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(tmpdir(), "footprint-import-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  function seedSession(db: EvidenceDatabase): string {
+    const sessionId = db.createSession({
+      host: "claude",
+      projectRoot: tempDir,
+      cwd: tempDir,
+      title: "Imported release handoff",
+      status: "completed",
+      startedAt: "2026-03-10T08:00:00.000Z",
+      endedAt: "2026-03-10T08:05:00.000Z",
+      metadata: JSON.stringify({ transport: "pty" }),
+    });
+    const messageId = db.appendMessage({
+      sessionId,
+      seq: 1,
+      role: "user",
+      source: "wrapper",
+      content: "We decided to keep the SQLite store for the release.",
+      capturedAt: "2026-03-10T08:00:05.000Z",
+      metadata: null,
+    });
+    db.appendTimelineEvent({
+      sessionId,
+      seq: 1,
+      eventType: "message.user.submitted",
+      eventSubType: null,
+      source: "wrapper",
+      summary: "Keep the SQLite store",
+      payload: null,
+      startedAt: "2026-03-10T08:00:05.000Z",
+      endedAt: "2026-03-10T08:00:05.000Z",
+      status: "captured",
+      relatedMessageId: messageId,
+    });
+    db.appendTimelineEvent({
+      sessionId,
+      seq: 2,
+      eventType: "command.completed",
+      eventSubType: "pnpm",
+      source: "wrapper",
+      summary: "pnpm test",
+      payload: JSON.stringify({
+        command: "pnpm",
+        args: ["test"],
+        exitCode: 1,
+        stdout: "FAIL tests/store.test.ts > keeps rows\nAssertionError: nope",
+      }),
+      startedAt: "2026-03-10T08:00:10.000Z",
+      endedAt: "2026-03-10T08:00:12.000Z",
+      status: "failed",
+      relatedMessageId: null,
+    });
+    reingestSessionHistory(db, sessionId);
+
+    const keepSqlite = db.recordDecision({
+      sessionId,
+      title: "Keep SQLite for the release",
+      summary: "Stay on SQLite until the release ships.",
+      rationale: null,
+      status: "accepted",
+      sourceRefs: JSON.stringify([{ type: "message", id: messageId }]),
+      supersedes: [],
+    });
+    db.recordDecision({
+      sessionId,
+      title: "Move to Postgres after the release",
+      summary: "Revisit storage once the release ships.",
+      rationale: null,
+      status: "accepted",
+      sourceRefs: JSON.stringify([{ type: "message", id: messageId }]),
+      supersedes: [keepSqlite.id],
+    });
+    db.appendSessionNote({
+      sessionId,
+      kind: "question",
+      content: "Who writes the migration plan?",
+    });
+    return sessionId;
+  }
+
+  function snapshot(db: EvidenceDatabase, sessionId: string) {
+    const events = db.getSessionTimeline(sessionId);
+    const decisions = db.getSessionDecisions(sessionId);
+    const known = new Set([
+      ...db.getSessionMessages(sessionId).map((message) => message.id),
+      ...events.map((event) => event.id),
+      ...db.getSessionArtifacts(sessionId).map((artifact) => artifact.id),
+    ]);
+    // Every reference must point inside this session after an import
+    for (const decision of decisions) {
+      for (const ref of JSON.parse(decision.sourceRefs) as Array<{
+        id: string;
+      }>) {
+        expect(known.has(ref.id)).toBe(true);
+      }
+      for (const id of decision.supersedes) {
+        expect(decisions.some((candidate) => candidate.id === id)).toBe(true);
+      }
+    }
+    return {
+      session: db.findSessionById(sessionId)?.title,
+      messages: db
+        .getSessionMessages(sessionId)
+        .map((message) => message.content),
+      timeline: events.map((event) => [
+        event.eventType,
+        event.relatedMessageId ? "linked" : null,
+      ]),
+      artifacts: db
+        .getSessionArtifacts(sessionId)
+        .map((artifact) => [artifact.artifactType, artifact.path]),
+      narratives: db
+        .getSessionNarratives(sessionId)
+        .map((narrative) => narrative.kind),
+      decisions: decisions
+        .map((decision) => [
+          decision.title,
+          decision.status,
+          decision.origin,
+          decision.supersedes.length,
+          // Derived decisions are recreated on import; explicit ones keep time
+          decision.origin === "explicit" ? decision.createdAt : null,
+        ])
+        .sort(),
+      notes: db
+        .getSessionNotes(sessionId)
+        .map((note) => [note.content, note.createdAt]),
+    };
+  }
+
+  it("restores sessions with every derived record and honours conflict modes", async () => {
+    const source = new EvidenceDatabase(path.join(tempDir, "source.db"));
+    const target = new EvidenceDatabase(path.join(tempDir, "target.db"));
+    try {
+      const sessionId = seedSession(source);
+      const expected = snapshot(source, sessionId);
+      expect(expected.artifacts.length).toBeGreaterThan(0);
+      expect(expected.narratives.length).toBeGreaterThan(0);
+      expect(expected.decisions).toContainEqual([
+        "Move to Postgres after the release",
+        "accepted",
+        "explicit",
+        1,
+        expect.any(String),
+      ]);
+      const { zipData } = await exportSessions(source, {
+        sessionIds: [sessionId],
+      });
+
+      expect(await importBundle(target, zipData)).toEqual(
+        expect.objectContaining({
+          kind: "sessions",
+          formatVersion: "1.5.0",
+          imported: 1,
+          entries: [{ sourceId: sessionId, id: sessionId, status: "imported" }],
+        }),
+      );
+      expect(snapshot(target, sessionId)).toEqual(expected);
+      const sourceArtifact = source.getSessionArtifacts(sessionId)[0]!;
+      const importedArtifact = target.getSessionArtifacts(sessionId)[0]!;
+      expect(importedArtifact.id).not.toBe(sourceArtifact.id);
+      expect(JSON.parse(importedArtifact.metadata!).summary).toBe(
+        JSON.parse(sourceArtifact.metadata!).summary,
+      );
+
+      expect(await importBundle(target, zipData)).toEqual(
+        expect.objectContaining({ skipped: 1, imported: 0 }),
+      );
+
+      target.appendSessionNote({
+        sessionId,
+        kind: "note",
+        content: "Local-only note",
+      });
+      expect(
+        await importBundle(target, zipData, { conflict: "replace" }),
+      ).toEqual(expect.objectContaining({ replaced: 1 }));
+      expect(snapshot(target, sessionId)).toEqual(expected);
+
+      const reassigned = await importBundle(target, zipData, {
+        conflict: "re-id",
+      });
+      const newId = reassigned.entries[0]!.id!;
+      expect(reassigned.reassigned).toBe(1);
+      expect(newId).not.toBe(sessionId);
+      expect(snapshot(target, newId)).toEqual(expected);
+      expect(snapshot(target, sessionId)).toEqual(expected);
+    } finally {
+      source.close();
+      target.close();
+    }
+  });
+
+  it("rejects sessions with an unknown host, status, or record kind", async () => {
+    const source = new EvidenceDatabase(path.join(tempDir, "source.db"));
+    const target = new EvidenceDatabase(path.join(tempDir, "target.db"));
+    try {
+      const sessionId = seedSession(source);
+      const { zipData } = await exportSessions(source, {
+        sessionIds: [sessionId],
+      });
+      const tamperFile = async <T>(
+        file: string,
+        update: (content: T) => unknown,
+      ) => {
+        const zip = await JSZip.loadAsync(zipData);
+        const name = `sessions/${sessionId}/${file}`;
+        const updated = JSON.stringify(
+          update(JSON.parse(await zip.file(name)!.async("text"))),
+        );
+        const checksums = (await zip.file("checksum.txt")!.async("text"))
+          .split("\n")
+          .map((line) =>
+            line.endsWith(`  ${name}`)
+              ? `${createHash("sha256").update(updated).digest("hex")}  ${name}`
+              : line,
+          )
+          .join("\n");
+        zip.file(name, updated);
+        zip.file("checksum.txt", checksums);
+        return zip.generateAsync({ type: "uint8array" });
+      };
+      const tamper = (session: Record<string, unknown>) =>
+        tamperFile<{ session: object }>("session.json", (content) => ({
+          ...content,
+          session: { ...content.session, ...session },
+        }));
+
+      await expect(
+        importBundle(target, await tamper({ host: "Claude Desktop" })),
+      ).rejects.toThrow(
+        "Host must be claude, gemini, codex, or a generic host label",
+      );
+      await expect(
+        importBundle(target, await tamper({ status: "archived" })),
+      ).rejects.toThrow(`sessions/${sessionId}/session.json is invalid`);
+      for (const [file, field, value] of [
+        ["messages.json", "role", "robot"],
+        ["decisions.json", "status", "maybe"],
+        ["notes.json", "kind", "todo"],
+      ] as const) {
+        await expect(
+          importBundle(
+            target,
+            await tamperFile<object[]>(file, (records) =>
+              records.map((record) => ({ ...record, [field]: value })),
+            ),
+          ),
+        ).rejects.toThrow(`sessions/${sessionId}/${file} is invalid`);
+      }
+      expect(target.findSessionById(sessionId)).toBeNull();
+
+      await importBundle(target, await tamper({ host: "aider" }));
+      expect(target.findSessionById(sessionId)?.host).toBe("aider");
+    } finally {
+      source.close();
+      target.close();
+    }
+  });
+
+  it("re-encrypts evidence under the receiving passphrase after re-verifying hashes", async () => {
+    const sourceServer = new FootprintServer({
+      dbPath: path.join(tempDir, "source.db"),
+      password: "source bundle passphrase",
+    } satisfies ServerConfig);
+    const sourceHelpers = new FootprintTestHelpers(sourceServer);
+    let id: string;
+    let base64Data: string;
+    let sourceKeyId: string;
+    try {
+      const captured = await sourceHelpers.callTool("capture-footprint", {
+        conversationId: "import-evidence",
+        llmProvider: "claude",
+        content: "User: Import me\nAssistant: Done.",
+      });
+      id = captured.structuredContent.id as string;
+      const exported = await sourceHelpers.callTool("export-footprints", {
+        outputMode: "base64",
+      });
+      base64Data = exported.structuredContent.base64Data as string;
+      sourceKeyId = exported.structuredContent.signingKeyId as string;
+    } finally {
+      sourceServer.close();
+    }
+
+    const server = new FootprintServer({
+      dbPath: path.join(tempDir, "target.db"),
+      password: "target database passphrase",
+    } satisfies ServerConfig);
+    const helpers = new FootprintTestHelpers(server);
+    try {
+      await expect(
+        helpers.callTool("import-bundle", { base64Data }),
+      ).rejects.toThrow("failed verification");
+
+      const imported = await helpers.callTool("import-bundle", {
+        base64Data,
+        bundlePassphrase: "source bundle passphrase",
+      });
+      expect(imported.structuredContent).toEqual(
+        expect.objectContaining({
+          kind: "evidence",
+          imported: 1,
+          entries: [
+            {
+              sourceId: id,
+              id,
+              status: "imported",
+              provenance: {
+                lost: ["signature", "ledger-position"],
+                originalSigningKeyId: sourceKeyId,
+                signingKeyId: expect.any(String),
+              },
+            },
+          ],
+        }),
+      );
+      const [importedEntry] = imported.structuredContent.entries as Array<{
+        provenance: { signingKeyId: string };
+      }>;
+      expect(importedEntry!.provenance.signingKeyId).not.toBe(sourceKeyId);
+
+      const footprint = await helpers.callTool("get-footprint", { id });
+      expect(footprint.structuredContent.content).toBe(
+        "User: Import me\nAssistant: Done.",
+      );
+      const verification = await helpers.callTool("verify-footprint", { id });
+      expect(verification.structuredContent.verified).toBe(true);
+
+      const reassigned = await helpers.callTool("import-bundle", {
+        base64Data,
+        bundlePassphrase: "source bundle passphrase",
+        conflict: "re-id",
+      });
+      const entry = (
+        reassigned.structuredContent.entries as Array<{ id: string }>
+      )[0]!;
+      expect(reassigned.structuredContent.reassigned).toBe(1);
+      expect(entry.id).not.toBe(id);
+      const ledger = await helpers.callTool("verify-ledger", {});
+      expect(ledger.structuredContent.verified).toBe(true);
+    } finally {
+      server.close();
+    }
+  }, 120_000);
+});
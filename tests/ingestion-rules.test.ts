@@ -0,0 +1,252 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { tmpdir } from "node:os";
+import { reingestSessionHistory } from "../src/ingestion/index.js";
+import {
+  loadIngestionRulesConfig,
+  parseIngestionRulesConfig,
+  resolveIngestionRulesPath,
+  type IngestionRulesConfigInput,
+} from "../src/ingestion/rules.js";
+import { parseArtifactMetadata } from "../src/lib/session-artifacts.js";
+import { EvidenceDatabase } from "../src/lib/storage/index.js";
+
+const RULES: IngestionRulesConfigInput = {
+  commandFamilies: [
+    { family: "task-runner", commands: ["just"] },
+    { family: "monorepo", commands: ["nx", "bazel"] },
+    { family: "python-env", commands: ["uv", "uv run"] },
+  ],
+  commandCategories: [
+    { category: "test", match: "^just test\\b|^bazel test\\b" },
+    { category: "build", match: "^nx (?:run-many -t )?build\\b" },
+  ],
+  testFrameworks: [{ framework: "bazel-test", match: "\\bbazel test\\b" }],
+  issueKeys: [{ prefix: "bazel", match: "(//[\\w/.-]+:[\\w.-]+)" }],
+  decisionPhrases: { accepted: ["ship it"], proposed: ["how about"] },
+  openQuestionPhrases: ["needs follow-up"],
+  pathCategories: [{ category: "infra", match: "^infra/" }],
+};
+
+describe("Ingestion Rules Config", () => {
+  it("applies defaults and rejects malformed rules", () => {
+    expect(parseIngestionRulesConfig({})).toEqual({
+      commandFamilies: [],
+      commandCategories: [],
+      testFrameworks: [],
+      issueKeys: [],
+      decisionPhrases: { accepted: [], proposed: [] },
+      openQuestionPhrases: [],
+      pathCategories: [],
+    });
+
+    expect(() =>
+      parseIngestionRulesConfig({
+        pathCategories: [{ category: "infra", match: "(unclosed" }],
+      }),
+    ).toThrow(/^Invalid ingestion rules: pathCategories\.0\.match: /);
+    expect(() =>
+      parseIngestionRulesConfig({
+        commandFamilies: [{ family: "Task Runner", commands: ["just"] }],
+      }),
+    ).toThrow(
+      "Invalid ingestion rules: commandFamilies.0.family: Keys must be lowercase letters, digits, and dashes",
+    );
+  });
+
+  it("resolves and loads the global rules file next to the database", () => {
+    const tempDir = fs.mkdtempSync(path.join(tmpdir(), "footprint-rules-"));
+    try {
+      const dbPath = path.join(tempDir, "footprint.db");
+      const rulesPath = resolveIngestionRulesPath(dbPath, {});
+      expect(rulesPath).toBe(path.join(tempDir, "ingestion-rules.json"));
+      expect(
+        resolveIngestionRulesPath(dbPath, {
+          FOOTPRINT_INGESTION_RULES: "/etc/footprint/rules.json",
+        }),
+      ).toBe("/etc/footprint/rules.json");
+
+      expect(loadIngestionRulesConfig(rulesPath).commandFamilies).toEqual([]);
+
+      fs.writeFileSync(rulesPath, JSON.stringify(RULES));
+      expect(loadIngestionRulesConfig(rulesPath).commandFamilies).toHaveLength(
+        3,
+      );
+
+      fs.writeFileSync(rulesPath, "{ not json");
+      expect(() => loadIngestionRulesConfig(rulesPath)).toThrow(
+        `Invalid ingestion rules at ${rulesPath}`,
+      );
+    } finally {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe("Rule-Driven Ingestion", () => {
+  let tempDir: string;
+  let db: EvidenceDatabase;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(tmpdir(), "footprint-rules-ingest-"));
+    db = new EvidenceDatabase(path.join(tempDir, "footprint.db"));
+  });
+
+  afterEach(() => {
+    db.close();
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  function recordSession(): string {
+    const sessionId = db.createSession({
+      host: "claude",
+      projectRoot: tempDir,
+      cwd: tempDir,
+      title: "Move CI to bazel",
+      status: "completed",
+      startedAt: "2026-03-10T08:00:00.000Z",
+      endedAt: "2026-03-10T08:10:00.000Z",
+      metadata: null,
+    });
+    [
+      "How about we split the api tests first",
+      "Ship it. The cache config needs follow-up",
+    ].forEach((content, index) => {
+      db.appendMessage({
+        sessionId,
+        seq: index + 1,
+        role: index === 0 ? "assistant" : "user",
+        source: "wrapper",
+        content,
+        capturedAt: `2026-03-10T08:0${index}:30.000Z`,
+        metadata: null,
+      });
+    });
+    [
+      { command: "just", args: ["test"], exitCode: 0 },
+      {
+        command: "bazel",
+        args: ["test", "//services/api:unit"],
+        exitCode: 3,
+        stdout: "//services/api:unit FAILED in 2.1s",
+      },
+      { command: "nx", args: ["build", "web"], exitCode: 0 },
+    ].forEach((payload, index) => {
+      db.appendTimelineEvent({
+        sessionId,
+        seq: index + 3,
+        eventType: "command.completed",
+        eventSubType: payload.command,
+        source: "wrapper",
+        summary: [payload.command, ...payload.args].join(" "),
+        payload: JSON.stringify(payload),
+        startedAt: `2026-03-10T08:0${index + 2}:00.000Z`,
+        endedAt: `2026-03-10T08:0${index + 2}:05.000Z`,
+        status: payload.exitCode === 0 ? "completed" : "failed",
+      });
+    });
+    db.appendTimelineEvent({
+      sessionId,
+      seq: 6,
+      eventType: "file.changed",
+      eventSubType: "edit",
+      source: "wrapper",
+      summary: "Edited infra/ci.yml",
+      payload: JSON.stringify({ path: "infra/ci.yml" }),
+      startedAt: "2026-03-10T08:06:00.000Z",
+      endedAt: "2026-03-10T08:06:00.000Z",
+      status: "completed",
+    });
+    return sessionId;
+  }
+
+  function getCommandMetadata(sessionId: string) {
+    return new Map(
+      db
+        .getSessionArtifacts(sessionId)
+        .filter((artifact) => artifact.artifactType !== "file-change")
+        .map((artifact) => {
+          const metadata = parseArtifactMetadata(artifact.metadata);
+          return [
+            metadata.command,
+            { artifactType: artifact.artifactType, ...metadata },
+          ];
+        }),
+    );
+  }
+
+  it("classifies commands, issues, paths, and decisions with global rules", () => {
+    const sessionId = recordSession();
+
+    reingestSessionHistory(db, sessionId, {
+      rules: parseIngestionRulesConfig(RULES),
+    });
+
+    const byCommand = getCommandMetadata(sessionId);
+    expect(byCommand.get("just")).toEqual(
+      expect.objectContaining({
+        artifactType: "command-output",
+        category: "test",
+        commandFamily: "task-runner",
+        framework: "generic",
+      }),
+    );
+    expect(byCommand.get("bazel")).toEqual(
+      expect.objectContaining({
+        category: "test",
+        commandFamily: "monorepo",
+        framework: "bazel-test",
+        issueKey: "bazel:services-api-unit",
+        issueLabel: "bazel //services/api:unit",
+        outcome: "failed",
+      }),
+    );
+    expect(byCommand.get("nx")).toEqual(
+      expect.objectContaining({
+        artifactType: "build-result",
+        category: "build",
+        commandFamily: "monorepo",
+      }),
+    );
+
+    const fileChange = db
+      .getSessionArtifacts(sessionId)
+      .find((artifact) => artifact.artifactType === "file-change");
+    expect(parseArtifactMetadata(fileChange?.metadata ?? null)).toEqual(
+      expect.objectContaining({ pathCategory: "infra", changeScope: "infra" }),
+    );
+
+    expect(
+      db
+        .getSessionDecisions(sessionId)
+        .map((decision) => decision.status)
+        .sort(),
+    ).toEqual(["accepted", "proposed"]);
+    const handoff = db
+      .getSessionNarratives(sessionId)
+      .find((narrative) => narrative.kind === "handoff");
+    expect(handoff?.content).toContain("needs follow-up");
+  });
+
+  it("reads project rules from the session's project root", () => {
+    const sessionId = recordSession();
+
+    reingestSessionHistory(db, sessionId);
+    expect(getCommandMetadata(sessionId).get("just")).toEqual(
+      expect.objectContaining({ commandFamily: "command" }),
+    );
+
+    fs.mkdirSync(path.join(tempDir, ".footprint"));
+    fs.writeFileSync(
+      path.join(tempDir, ".footprint", "ingestion-rules.json"),
+      JSON.stringify({
+        commandFamilies: [{ family: "task-runner", commands: ["just"] }],
+      }),
+    );
+    reingestSessionHistory(db, sessionId);
+    expect(getCommandMetadata(sessionId).get("just")).toEqual(
+      expect.objectContaining({ commandFamily: "task-runner" }),
+    );
+  });
+});
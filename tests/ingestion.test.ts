@@ -3,6 +3,7 @@ import * as fs from "node:fs";
 import * as path from "node:path";
 import { tmpdir } from "node:os";
 import { reingestSessionHistory } from "../src/ingestion/index.js";
+import { isCommandArtifactType } from "../src/lib/session-artifacts.js";
 import { EvidenceDatabase } from "../src/lib/storage/index.js";
 
 describe("Session Ingestion", () => {
@@ -497,8 +498,21 @@ describe("Session Ingestion", () => {
 
     reingestSessionHistory(db, sessionId);
     const detail = db.getSessionDetail(sessionId);
+    expect(
+      detail?.artifacts
+        .filter((artifact) => isCommandArtifactType(artifact.artifactType))
+        .map((artifact) => artifact.artifactType)
+        .sort(),
+    ).toEqual([
+      "command-output",
+      "command-output",
+      "command-output",
+      "dependency-change",
+      "lint-result",
+      "migration",
+    ]);
     const commandArtifacts = detail?.artifacts
-      .filter((artifact) => artifact.artifactType === "command-output")
+      .filter((artifact) => isCommandArtifactType(artifact.artifactType))
       .map(
         (artifact) =>
           JSON.parse(artifact.metadata ?? "{}") as {
@@ -736,7 +750,7 @@ describe("Session Ingestion", () => {
 
     const installArtifact = artifacts?.find(
       (artifact) =>
-        artifact.artifactType === "command-output" &&
+        artifact.artifactType === "dependency-change" &&
         artifact.metadata.category === "install",
     );
     expect(installArtifact?.metadata).toEqual(
@@ -748,7 +762,7 @@ describe("Session Ingestion", () => {
 
     const lintArtifact = artifacts?.find(
       (artifact) =>
-        artifact.artifactType === "command-output" &&
+        artifact.artifactType === "lint-result" &&
         artifact.metadata.category === "lint",
     );
     expect(lintArtifact?.metadata).toEqual(
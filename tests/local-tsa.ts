@@ -0,0 +1,212 @@
+/* global Buffer */
+/**
+ * Local stand-in RFC 3161 timestamp authority for tests.
+ * Serves signed TimeStampResp tokens over HTTP on 127.0.0.1 with a
+ * self-signed ECDSA P-256 certificate restricted to time stamping.
+ */
+
+import * as http from "node:http";
+import type { AddressInfo } from "node:net";
+import {
+  createHash,
+  generateKeyPairSync,
+  sign,
+  type KeyObject,
+} from "node:crypto";
+import {
+  DER_TAG,
+  decodeDer,
+  derBoolean,
+  derExplicit,
+  derGeneralizedTime,
+  derInteger,
+  derOctetString,
+  derOid,
+  derSequence,
+  derSet,
+  derUtcTime,
+  derUtf8String,
+  encodeDer,
+} from "../src/lib/crypto/der.js";
+
+const OID_ECDSA_WITH_SHA256 = "1.2.840.10045.4.3.2";
+const OID_SHA256 = "2.16.840.1.101.3.4.2.1";
+const OID_SIGNED_DATA = "1.2.840.113549.1.7.2";
+const OID_TST_INFO = "1.2.840.113549.1.9.16.1.4";
+const OID_CONTENT_TYPE = "1.2.840.113549.1.9.3";
+const OID_MESSAGE_DIGEST = "1.2.840.113549.1.9.4";
+const OID_COMMON_NAME = "2.5.4.3";
+const OID_EXT_KEY_USAGE = "2.5.29.37";
+const OID_KP_TIME_STAMPING = "1.3.6.1.5.5.7.3.8";
+const TEST_POLICY = "1.3.6.1.4.1.99999.1";
+
+export interface LocalTsa {
+  url: string;
+  port: number;
+  certificatePem: string;
+  /** Requests answered so far */
+  requests: number;
+  close(): Promise<void>;
+}
+
+function buildName(commonName: string): Uint8Array {
+  return derSequence(
+    derSet(derSequence(derOid(OID_COMMON_NAME), derUtf8String(commonName))),
+  );
+}
+
+function buildCertificate(
+  commonName: string,
+  publicKey: KeyObject,
+  privateKey: KeyObject,
+): Uint8Array {
+  const now = Date.now();
+  const tbs = derSequence(
+    derExplicit(0, derInteger(2)),
+    derInteger(now),
+    derSequence(derOid(OID_ECDSA_WITH_SHA256)),
+    buildName(commonName),
+    derSequence(
+      derUtcTime(new Date(now - 60 * 60 * 1000)),
+      derUtcTime(new Date(now + 24 * 60 * 60 * 1000)),
+    ),
+    buildName(commonName),
+    new Uint8Array(publicKey.export({ format: "der", type: "spki" })),
+    derExplicit(
+      3,
+      derSequence(
+        derSequence(
+          derOid(OID_EXT_KEY_USAGE),
+          derBoolean(true),
+          derOctetString(derSequence(derOid(OID_KP_TIME_STAMPING))),
+        ),
+      ),
+    ),
+  );
+
+  return derSequence(
+    tbs,
+    derSequence(derOid(OID_ECDSA_WITH_SHA256)),
+    encodeDer(DER_TAG.BIT_STRING, [
+      Uint8Array.of(0),
+      sign("sha256", tbs, privateKey),
+    ]),
+  );
+}
+
+function buildResponse(
+  request: Uint8Array,
+  certificate: Uint8Array,
+  commonName: string,
+  privateKey: KeyObject,
+  serial: number,
+): Uint8Array {
+  const parsed = decodeDer(request);
+  const imprint = parsed.children[1]!;
+  const nonce = parsed.children
+    .slice(2)
+    .find((entry) => entry.tag === DER_TAG.INTEGER);
+
+  const tstInfo = derSequence(
+    derInteger(1),
+    derOid(TEST_POLICY),
+    imprint.bytes,
+    derInteger(serial),
+    derGeneralizedTime(new Date()),
+    ...(nonce ? [nonce.bytes] : []),
+  );
+  const attributes = [
+    derSequence(derOid(OID_CONTENT_TYPE), derSet(derOid(OID_TST_INFO))),
+    derSequence(
+      derOid(OID_MESSAGE_DIGEST),
+      derSet(derOctetString(createHash("sha256").update(tstInfo).digest())),
+    ),
+  ];
+  const signature = sign(
+    "sha256",
+    encodeDer(DER_TAG.SET, attributes),
+    privateKey,
+  );
+
+  const signerInfo = derSequence(
+    derInteger(1),
+    derSequence(buildName(commonName), derInteger(1)),
+    derSequence(derOid(OID_SHA256)),
+    encodeDer(0xa0, attributes),
+    derSequence(derOid(OID_ECDSA_WITH_SHA256)),
+    derOctetString(signature),
+  );
+  const signedData = derSequence(
+    derInteger(3),
+    derSet(derSequence(derOid(OID_SHA256))),
+    derSequence(derOid(OID_TST_INFO), derExplicit(0, derOctetString(tstInfo))),
+    encodeDer(0xa0, certificate),
+    derSet(signerInfo),
+  );
+
+  return derSequence(
+    derSequence(derInteger(0)),
+    derSequence(derOid(OID_SIGNED_DATA), derExplicit(0, signedData)),
+  );
+}
+
+/**
+ * Start a local TSA
+ *
+ * @param options.port - Port to listen on (default: any free port)
+ * @param options.commonName - Subject CN of the signing certificate
+ */
+export async function startLocalTsa(
+  options: { port?: number; commonName?: string } = {},
+): Promise<LocalTsa> {
+  const commonName = options.commonName ?? "Footprint Test TSA";
+  const { publicKey, privateKey } = generateKeyPairSync("ec", {
+    namedCurve: "P-256",
+  });
+  const certificate = buildCertificate(commonName, publicKey, privateKey);
+
+  const server = http.createServer((request, response) => {
+    const chunks: Buffer[] = [];
+    request.on("data", (chunk: Buffer) => chunks.push(chunk));
+    request.on("end", () => {
+      tsa.requests += 1;
+      try {
+        const body = buildResponse(
+          new Uint8Array(Buffer.concat(chunks)),
+          certificate,
+          commonName,
+          privateKey,
+          tsa.requests,
+        );
+        response.writeHead(200, {
+          "Content-Type": "application/timestamp-reply",
+        });
+        response.end(Buffer.from(body));
+      } catch {
+        response.writeHead(400);
+        response.end();
+      }
+    });
+  });
+
+  await new Promise<void>((resolve) =>
+    server.listen(options.port ?? 0, "127.0.0.1", resolve),
+  );
+  const { port } = server.address() as AddressInfo;
+
+  const tsa: LocalTsa = {
+    url: `http://127.0.0.1:${port}/tsa`,
+    port,
+    certificatePem: `-----BEGIN CERTIFICATE-----\n${Buffer.from(certificate)
+      .toString("base64")
+      .match(/.{1,64}/g)!
+      .join("\n")}\n-----END CERTIFICATE-----\n`,
+    requests: 0,
+    close: () =>
+      new Promise<void>((resolve, reject) => {
+        server.closeAllConnections();
+        server.close((error) => (error ? reject(error) : resolve()));
+      }),
+  };
+  return tsa;
+}
@@ -3,6 +3,8 @@ import * as fs from "node:fs";
 import * as os from "node:os";
 import * as path from "node:path";
 import { FootprintServer } from "../src/index.js";
+import { reingestSessionHistory } from "../src/ingestion/index.js";
+import { EvidenceDatabase } from "../src/lib/storage/index.js";
 import {
   FootprintMcpTestClient,
   FootprintTestHelpers,
@@ -42,6 +44,33 @@ describe("MCP Client Resource Harness", () => {
     helpers = new FootprintTestHelpers(server);
   });
 
+  function getServerDb(): EvidenceDatabase {
+    return (server as unknown as { db: EvidenceDatabase }).db;
+  }
+
+  function seedSession(db: EvidenceDatabase): string {
+    const sessionId = db.createSession({
+      host: "claude",
+      projectRoot: tempDir,
+      cwd: tempDir,
+      title: "Fix auth timeout",
+      status: "running",
+      startedAt: "2026-03-09T09:00:00.000Z",
+      endedAt: null,
+      metadata: null,
+    });
+    db.appendMessage({
+      sessionId,
+      seq: 1,
+      role: "user",
+      source: "wrapper",
+      content: "Investigate the auth timeout",
+      capturedAt: "2026-03-09T09:00:05.000Z",
+      metadata: null,
+    });
+    return sessionId;
+  }
+
   afterEach(async () => {
     if (client) {
       await client.close();
@@ -143,8 +172,7 @@ describe("MCP Client Resource Harness", () => {
       tags: "sdk-resource",
     });
     const evidenceId = captureResult.structuredContent?.id as
-      | string
-      | undefined;
+      string | undefined;
 
     expect(evidenceId).toBeDefined();
 
@@ -162,4 +190,207 @@ describe("MCP Client Resource Harness", () => {
     expect(parsedContent.url).toBe("https://api.example.com/ship");
     expect(parsedContent.body?.slice).toBe("a");
   });
+
+  it("reads session, transcript, context briefing, and handoff resources", async () => {
+    const db = getServerDb();
+    const sessionId = seedSession(db);
+    const context = db.createContext({
+      label: "Auth timeout workstream",
+      workspaceKey: tempDir,
+      metadata: null,
+    });
+    db.assignSessionToContext({
+      sessionId,
+      contextId: context.id,
+      linkSource: "bootstrap",
+    });
+    client = await helpers.connectMcpClient();
+
+    const templatesResult = await client.listResourceTemplates();
+    expect(
+      templatesResult.resourceTemplates.map((template) => template.uriTemplate),
+    ).toEqual(
+      expect.arrayContaining([
+        "session://{id}",
+        "session://{id}/transcript",
+        "context://{id}/briefing",
+        "history://handoff{?query,issueKey,host,status,groupBy}",
+      ]),
+    );
+
+    const resourcesResult = await client.listResources();
+    expect(resourcesResult.resources).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({
+          uri: `session://${sessionId}`,
+          name: "Fix auth timeout",
+          mimeType: "application/json",
+        }),
+        expect.objectContaining({
+          uri: `session://${sessionId}/transcript`,
+          mimeType: "text/markdown",
+        }),
+        expect.objectContaining({
+          uri: `context://${context.id}/briefing`,
+          name: "Auth timeout workstream briefing",
+        }),
+        expect.objectContaining({ uri: "history://handoff" }),
+      ]),
+    );
+
+    const sessionContent = await client.readResource(`session://${sessionId}`);
+    const summary = JSON.parse(sessionContent.contents[0]?.text ?? "{}") as {
+      session?: { id?: string; status?: string };
+      messageSummary?: { total?: number };
+    };
+    expect(summary.session).toEqual(
+      expect.objectContaining({ id: sessionId, status: "running" }),
+    );
+    expect(summary.messageSummary?.total).toBe(1);
+
+    const transcript = await client.readResource(
+      `session://${sessionId}/transcript`,
+    );
+    expect(transcript.contents[0]?.text).toContain(
+      "Investigate the auth timeout",
+    );
+
+    const briefing = await client.readResource(
+      `context://${context.id}/briefing`,
+    );
+    expect(briefing.contents[0]?.mimeType).toBe("text/markdown");
+    expect(briefing.contents[0]?.text).toContain("Auth timeout workstream");
+
+    const handoff = await client.readResource(
+      "history://handoff?status=running&groupBy=family",
+    );
+    expect(handoff.contents[0]?.text).toContain("Fix auth timeout");
+
+    await expect(
+      client.readResource("history://handoff?status=paused"),
+    ).rejects.toThrow("Failed to access history handoff resource");
+    await expect(client.readResource("session://missing")).rejects.toThrow(
+      "Session not found: missing",
+    );
+  });
+
+  it("notifies subscribers as session history is appended", async () => {
+    const db = getServerDb();
+    const sessionId = seedSession(db);
+    const otherSessionId = seedSession(db);
+    client = await helpers.connectMcpClient();
+
+    await client.subscribeResource(`session://${sessionId}/transcript`);
+    await client.subscribeResource(`session://${otherSessionId}`);
+    await expect(
+      client.subscribeResource("evidence://anything"),
+    ).rejects.toThrow("Resource does not support subscriptions");
+
+    db.appendTimelineEvent({
+      sessionId,
+      seq: 1,
+      eventType: "command.started",
+      eventSubType: null,
+      source: "wrapper",
+      summary: "pnpm test",
+      payload: null,
+      startedAt: "2026-03-09T09:00:06.000Z",
+      endedAt: null,
+      status: "running",
+      relatedMessageId: null,
+    });
+    db.appendMessage({
+      sessionId,
+      seq: 2,
+      role: "assistant",
+      source: "wrapper",
+      content: "Raising the timeout",
+      capturedAt: "2026-03-09T09:00:07.000Z",
+      metadata: null,
+    });
+
+    await client.waitForResourceUpdate(`session://${sessionId}/transcript`);
+    expect(client.resourceUpdates).toEqual([
+      `session://${sessionId}/transcript`,
+    ]);
+
+    await client.unsubscribeResource(`session://${sessionId}/transcript`);
+    db.finalizeSession(sessionId, {
+      status: "completed",
+      endedAt: "2026-03-09T09:01:00.000Z",
+    });
+    db.finalizeSession(otherSessionId, {
+      status: "completed",
+      endedAt: "2026-03-09T09:01:00.000Z",
+    });
+    await client.waitForResourceUpdate(`session://${otherSessionId}`);
+    expect(client.resourceUpdates).toHaveLength(2);
+  });
+
+  it("notifies once per resource after writes commit and never for rollbacks", async () => {
+    const db = getServerDb();
+    const sessionId = seedSession(db);
+    client = await helpers.connectMcpClient();
+    await client.subscribeResource(`session://${sessionId}`);
+    await client.subscribeResource("history://handoff");
+
+    const appendReply = () =>
+      db.appendMessage({
+        sessionId,
+        seq: 2,
+        role: "assistant",
+        source: "wrapper",
+        content: "Raising the timeout",
+        capturedAt: "2026-03-09T09:00:07.000Z",
+        metadata: null,
+      });
+    expect(() =>
+      db.getDb().transaction(() => {
+        appendReply();
+        throw new Error("Recorder crashed");
+      })(),
+    ).toThrow("Recorder crashed");
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    expect(client.resourceUpdates).toEqual([]);
+
+    db.getDb().transaction(() => {
+      appendReply();
+      db.finalizeSession(sessionId, {
+        status: "completed",
+        endedAt: "2026-03-09T09:01:00.000Z",
+      });
+    })();
+    reingestSessionHistory(db, sessionId);
+
+    await client.waitForResourceUpdate("history://handoff");
+    await client.waitForResourceUpdate(`session://${sessionId}`);
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    expect([...client.resourceUpdates].sort()).toEqual([
+      "history://handoff",
+      `session://${sessionId}`,
+    ]);
+  });
+
+  it("notifies subscribers about writes from other processes", async () => {
+    const sessionId = seedSession(getServerDb());
+    client = await helpers.connectMcpClient();
+    await client.subscribeResource(`session://${sessionId}`);
+
+    const recorderDb = new EvidenceDatabase(dbPath);
+    try {
+      recorderDb.appendMessage({
+        sessionId,
+        seq: 2,
+        role: "assistant",
+        source: "wrapper",
+        content: "Written by the CLI recorder",
+        capturedAt: "2026-03-09T09:00:07.000Z",
+        metadata: null,
+      });
+    } finally {
+      recorderDb.close();
+    }
+
+    await client.waitForResourceUpdate(`session://${sessionId}`);
+  });
 });
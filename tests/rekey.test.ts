@@ -0,0 +1,203 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { tmpdir } from "node:os";
+import { FootprintServer } from "../src/index.js";
+import {
+  EvidenceDatabase,
+  isRekeyInProgress,
+  rekeyEvidenceStore,
+  resolveStorageKeySync,
+} from "../src/lib/storage/index.js";
+import { FootprintTestHelpers } from "./test-helpers.js";
+import type { ServerConfig } from "../src/types.js";
+
+const OLD_PASSPHRASE = "old rotation passphrase";
+const NEW_PASSPHRASE = "new rotation passphrase";
+
+describe("Passphrase Rotation", () => {
+  let tempDir: string;
+  let dbPath: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(tmpdir(), "footprint-rekey-"));
+    dbPath = path.join(tempDir, "footprint.db");
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  function startServer(password: string): {
+    server: FootprintServer;
+    helpers: FootprintTestHelpers;
+  } {
+    const server = new FootprintServer({
+      dbPath,
+      password,
+    } satisfies ServerConfig);
+    return { server, helpers: new FootprintTestHelpers(server) };
+  }
+
+  async function captureFootprints(count: number): Promise<string[]> {
+    const { server, helpers } = startServer(OLD_PASSPHRASE);
+    try {
+      const ids: string[] = [];
+      for (let index = 0; index < count; index += 1) {
+        const result = await helpers.callTool("capture-footprint", {
+          conversationId: `rotation-${index}`,
+          llmProvider: "claude",
+          content: `User: Decision ${index}\nAssistant: Recorded.`,
+        });
+        ids.push(result.structuredContent.id as string);
+      }
+      return ids;
+    } finally {
+      server.close();
+    }
+  }
+
+  async function expectReadableWith(
+    password: string,
+    ids: string[],
+  ): Promise<void> {
+    const { server, helpers } = startServer(password);
+    try {
+      for (const [index, id] of ids.entries()) {
+        const footprint = await helpers.callTool("get-footprint", { id });
+        expect(footprint.structuredContent.content).toBe(
+          `User: Decision ${index}\nAssistant: Recorded.`,
+        );
+        const verification = await helpers.callTool("verify-footprint", {
+          id,
+        });
+        expect(verification.structuredContent.verified).toBe(true);
+      }
+    } finally {
+      server.close();
+    }
+  }
+
+  it("moves evidence, session history, and the signing key to the new passphrase", async () => {
+    const ids = await captureFootprints(2);
+    const before = new EvidenceDatabase(dbPath);
+    const hashes = ids.map((id) => before.findById(id)!.contentHash);
+    before.enableSessionHistoryEncryption(
+      resolveStorageKeySync(before.getDb(), OLD_PASSPHRASE),
+    );
+    const sessionId = before.createSession({
+      host: "claude",
+      projectRoot: "/tmp/project",
+      cwd: "/tmp/project",
+      title: "Rotation",
+      status: "completed",
+      startedAt: "2026-03-09T10:00:00.000Z",
+      endedAt: "2026-03-09T10:05:00.000Z",
+      metadata: null,
+    });
+    before.appendMessage({
+      sessionId,
+      seq: 1,
+      role: "user",
+      source: "wrapper",
+      content: "Rotate the leaked passphrase",
+      capturedAt: "2026-03-09T10:00:01.000Z",
+      metadata: null,
+    });
+    before.close();
+
+    const db = new EvidenceDatabase(dbPath);
+    try {
+      const result = rekeyEvidenceStore(
+        db.getDb(),
+        OLD_PASSPHRASE,
+        NEW_PASSPHRASE,
+      );
+      expect(result).toEqual(
+        expect.objectContaining({
+          resumed: false,
+          evidences: 2,
+          skipped: 0,
+          signingKey: true,
+        }),
+      );
+      expect(result.sessionHistoryRows).toBeGreaterThan(0);
+      expect(ids.map((id) => db.findById(id)!.contentHash)).toEqual(hashes);
+      expect(isRekeyInProgress(db.getDb())).toBe(false);
+    } finally {
+      db.close();
+    }
+
+    await expectReadableWith(NEW_PASSPHRASE, ids);
+
+    const after = new EvidenceDatabase(dbPath);
+    try {
+      after.unlockSessionHistory(
+        resolveStorageKeySync(after.getDb(), NEW_PASSPHRASE),
+      );
+      expect(after.getSessionMessages(sessionId)[0]?.content).toBe(
+        "Rotate the leaked passphrase",
+      );
+      expect(() =>
+        after.unlockSessionHistory(
+          resolveStorageKeySync(after.getDb(), OLD_PASSPHRASE),
+        ),
+      ).toThrow("Session history key does not match");
+    } finally {
+      after.close();
+    }
+  }, 120_000);
+
+  it("resumes an interrupted rotation and rejects mismatched passphrases", async () => {
+    const ids = await captureFootprints(3);
+
+    const db = new EvidenceDatabase(dbPath);
+    try {
+      expect(() =>
+        rekeyEvidenceStore(db.getDb(), "wrong old passphrase", NEW_PASSPHRASE),
+      ).toThrow("Old passphrase is incorrect");
+
+      expect(() =>
+        rekeyEvidenceStore(db.getDb(), OLD_PASSPHRASE, NEW_PASSPHRASE, {
+          batchSize: 1,
+          onProgress: () => {
+            throw new Error("simulated crash");
+          },
+        }),
+      ).toThrow("simulated crash");
+      expect(isRekeyInProgress(db.getDb())).toBe(true);
+    } finally {
+      db.close();
+    }
+
+    const { server, helpers } = startServer(OLD_PASSPHRASE);
+    try {
+      await expect(
+        helpers.callTool("get-footprint", { id: ids[2] }),
+      ).rejects.toThrow("passphrase rotation is unfinished");
+    } finally {
+      server.close();
+    }
+
+    const resumed = new EvidenceDatabase(dbPath);
+    try {
+      expect(() =>
+        rekeyEvidenceStore(
+          resumed.getDb(),
+          OLD_PASSPHRASE,
+          "another rotation passphrase",
+        ),
+      ).toThrow("already in progress");
+
+      expect(
+        rekeyEvidenceStore(resumed.getDb(), OLD_PASSPHRASE, NEW_PASSPHRASE),
+      ).toEqual(
+        expect.objectContaining({ resumed: true, evidences: 2, skipped: 1 }),
+      );
+    } finally {
+      resumed.close();
+    }
+
+    await expectReadableWith(NEW_PASSPHRASE, ids);
+  }, 120_000);
+});
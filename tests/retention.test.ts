@@ -0,0 +1,332 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { tmpdir } from "node:os";
+import {
+  collectSessionGarbage,
+  loadRetentionConfig,
+  parseRetentionConfig,
+  resolveRetentionConfigPath,
+} from "../src/lib/retention.js";
+import { EvidenceDatabase } from "../src/lib/storage/index.js";
+
+const NOW = new Date("2026-06-01T00:00:00.000Z");
+
+function seedSession(
+  db: EvidenceDatabase,
+  options: {
+    title: string;
+    status?: "running" | "completed" | "failed" | "interrupted";
+    startedAt: string;
+    projectRoot?: string;
+  },
+): string {
+  const status = options.status ?? "completed";
+  const sessionId = db.createSession({
+    host: "claude",
+    projectRoot: options.projectRoot ?? "/tmp/project",
+    cwd: options.projectRoot ?? "/tmp/project",
+    title: options.title,
+    status,
+    startedAt: options.startedAt,
+    endedAt: status === "running" ? null : options.startedAt,
+    metadata: null,
+  });
+  const messageId = db.appendMessage({
+    sessionId,
+    seq: 1,
+    role: "user",
+    source: "wrapper",
+    content: `${options.title} transcript`,
+    capturedAt: options.startedAt,
+    metadata: null,
+  });
+  const eventId = db.appendTimelineEvent({
+    sessionId,
+    seq: 1,
+    eventType: "command.completed",
+    eventSubType: "pnpm",
+    source: "wrapper",
+    summary: "pnpm test",
+    payload: JSON.stringify({ command: "pnpm", args: ["test"], exitCode: 1 }),
+    startedAt: options.startedAt,
+    endedAt: options.startedAt,
+    status: "failed",
+    relatedMessageId: messageId,
+  });
+  db.replaceArtifactsForSession(sessionId, [
+    {
+      sessionId,
+      eventId,
+      artifactType: "command-output",
+      path: null,
+      metadata: JSON.stringify({
+        summary: "pnpm test",
+        issueKey: "test:pnpm-test",
+        outcome: "failed",
+        eventType: "command.completed",
+      }),
+    },
+  ]);
+  db.replaceNarrativesForSession(sessionId, [
+    {
+      sessionId,
+      kind: "handoff",
+      content: `${options.title} handoff`,
+      sourceRefs: "[]",
+    },
+  ]);
+  db.replaceDecisionsForSession(sessionId, [
+    {
+      sessionId,
+      title: "Retry",
+      summary: `${options.title} decision`,
+      rationale: null,
+      status: "accepted",
+      sourceRefs: "[]",
+    },
+  ]);
+  return sessionId;
+}
+
+function countRows(db: EvidenceDatabase, table: string): number {
+  return (
+    db.getDb().prepare(`SELECT COUNT(*) AS count FROM ${table}`).get() as {
+      count: number;
+    }
+  ).count;
+}
+
+describe("Retention config", () => {
+  it("keeps every session by default", () => {
+    expect(parseRetentionConfig({})).toEqual({
+      maxAgeDays: {
+        running: null,
+        completed: null,
+        failed: null,
+        interrupted: null,
+      },
+      keepContextLinked: true,
+      keepEvidenceReferenced: true,
+      keepLastPerWorkspace: 0,
+    });
+  });
+
+  it("rejects malformed rules with the offending path", () => {
+    expect(() =>
+      parseRetentionConfig({ maxAgeDays: { completed: -1 } }),
+    ).toThrow(/Invalid retention config: maxAgeDays\.completed/);
+    expect(() => parseRetentionConfig({ keepLastPerWorkspace: 1.5 })).toThrow(
+      /keepLastPerWorkspace/,
+    );
+  });
+
+  it("loads retention.json next to the database unless overridden", () => {
+    const tempDir = fs.mkdtempSync(path.join(tmpdir(), "footprint-retention-"));
+    try {
+      const dbPath = path.join(tempDir, "footprint.db");
+      const configPath = resolveRetentionConfigPath(dbPath, {});
+      expect(configPath).toBe(path.join(tempDir, "retention.json"));
+      expect(
+        resolveRetentionConfigPath(dbPath, {
+          FOOTPRINT_RETENTION_CONFIG: "/etc/footprint/retention.json",
+        }),
+      ).toBe("/etc/footprint/retention.json");
+
+      expect(loadRetentionConfig(configPath).maxAgeDays.completed).toBeNull();
+      fs.writeFileSync(
+        configPath,
+        JSON.stringify({ maxAgeDays: { completed: 30 } }),
+      );
+      expect(loadRetentionConfig(configPath).maxAgeDays.completed).toBe(30);
+
+      fs.writeFileSync(configPath, "{");
+      expect(() => loadRetentionConfig(configPath)).toThrow(
+        `Invalid retention config at ${configPath}`,
+      );
+    } finally {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe("Session garbage collection", () => {
+  let tempDir: string;
+  let db: EvidenceDatabase;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(tmpdir(), "footprint-gc-"));
+    db = new EvidenceDatabase(path.join(tempDir, "footprint.db"));
+  });
+
+  afterEach(() => {
+    db.close();
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it("prunes expired sessions per status while honoring keep rules", () => {
+    const expired = seedSession(db, {
+      title: "Old completed",
+      startedAt: "2026-01-01T00:00:00.000Z",
+    });
+    const linked = seedSession(db, {
+      title: "Old linked",
+      startedAt: "2026-01-02T00:00:00.000Z",
+    });
+    const referenced = seedSession(db, {
+      title: "Old referenced",
+      startedAt: "2026-01-03T00:00:00.000Z",
+    });
+    const newestElsewhere = seedSession(db, {
+      title: "Only session in other workspace",
+      startedAt: "2026-01-04T00:00:00.000Z",
+      projectRoot: "/tmp/other",
+    });
+    const failed = seedSession(db, {
+      title: "Old failure",
+      status: "failed",
+      startedAt: "2026-01-05T00:00:00.000Z",
+    });
+    const recent = seedSession(db, {
+      title: "Recent completed",
+      startedAt: "2026-05-20T00:00:00.000Z",
+    });
+
+    const context = db.createContext({
+      label: "Keep me",
+      workspaceKey: "/tmp/project",
+    });
+    db.assignSessionToContext({
+      sessionId: linked,
+      contextId: context.id,
+      linkSource: "confirmed",
+    });
+    db.create({
+      timestamp: "2026-01-03T00:00:00.000Z",
+      conversationId: "release-notes",
+      llmProvider: "claude",
+      encryptedContent: new Uint8Array([1]),
+      nonce: new Uint8Array([2]),
+      contentHash: "hash",
+      messageCount: 1,
+      gitCommitHash: null,
+      gitTimestamp: null,
+      tags: `release,session:${referenced}`,
+    });
+
+    const config = parseRetentionConfig({
+      maxAgeDays: { completed: 90, failed: 365 },
+      keepLastPerWorkspace: 1,
+    });
+    const preview = collectSessionGarbage(db, config, {
+      dryRun: true,
+      now: NOW,
+    });
+
+    expect(preview).toEqual({
+      dryRun: true,
+      scanned: 6,
+      expired: 4,
+      pruned: 1,
+      kept: {
+        "context-linked": 1,
+        "evidence-referenced": 1,
+        "recent-in-workspace": 1,
+      },
+      sessions: [
+        expect.objectContaining({
+          sessionId: expired,
+          label: "Old completed",
+          status: "completed",
+        }),
+      ],
+      vacuum: null,
+    });
+    expect(db.findSessionById(expired)).not.toBeNull();
+
+    const report = collectSessionGarbage(db, config, { now: NOW });
+    expect(report.pruned).toBe(1);
+    expect(report.vacuum).toEqual({
+      bytesBefore: expect.any(Number),
+      bytesAfter: expect.any(Number),
+    });
+    expect(db.findSessionById(expired)).toBeNull();
+    for (const sessionId of [linked, referenced, newestElsewhere, failed]) {
+      expect(db.findSessionById(sessionId)).not.toBeNull();
+    }
+    expect(db.findSessionById(recent)).not.toBeNull();
+  });
+
+  it("cascades pruning through derived rows, caches, and the search index", () => {
+    const kept = seedSession(db, {
+      title: "Kept session",
+      startedAt: "2026-05-30T00:00:00.000Z",
+    });
+    seedSession(db, {
+      title: "Pruned session",
+      startedAt: "2026-01-01T00:00:00.000Z",
+    });
+    expect(db.searchSessionHistory({ query: "pruned" }).total).toBe(1);
+
+    const tables = [
+      "sessions",
+      "messages",
+      "timeline_events",
+      "artifacts",
+      "narratives",
+      "decisions",
+      "session_trend_attempts",
+      "session_issue_keys",
+      "session_history_cache",
+      "session_history_fts",
+      "session_history_fts_rows",
+    ];
+    for (const table of tables) {
+      expect(countRows(db, table), table).toBe(2);
+    }
+
+    const report = collectSessionGarbage(
+      db,
+      parseRetentionConfig({ maxAgeDays: { completed: 30 } }),
+      { now: NOW },
+    );
+
+    expect(report.pruned).toBe(1);
+    for (const table of tables) {
+      expect(countRows(db, table), table).toBe(1);
+    }
+    expect(db.searchSessionHistory({ query: "pruned" }).total).toBe(0);
+    expect(
+      db
+        .searchSessionHistory({ query: "session" })
+        .results.map((hit) => hit.session.id),
+    ).toEqual([kept]);
+  });
+
+  it("ages running sessions from their start and skips vacuum when nothing is pruned", () => {
+    const running = seedSession(db, {
+      title: "Stuck recorder",
+      status: "running",
+      startedAt: "2026-05-25T00:00:00.000Z",
+    });
+
+    const untouched = collectSessionGarbage(
+      db,
+      parseRetentionConfig({ maxAgeDays: { running: 30 } }),
+      { now: NOW },
+    );
+    expect(untouched).toEqual(
+      expect.objectContaining({ expired: 0, pruned: 0, vacuum: null }),
+    );
+
+    const report = collectSessionGarbage(
+      db,
+      parseRetentionConfig({ maxAgeDays: { running: 5 } }),
+      { now: NOW },
+    );
+    expect(report.sessions.map((session) => session.sessionId)).toEqual([
+      running,
+    ]);
+    expect(db.findSessionById(running)).toBeNull();
+  });
+});
@@ -282,7 +282,7 @@ describe("Schema Migrations", () => {
       rawDb
         .prepare(`SELECT value FROM metadata WHERE key = 'schema_version'`)
         .get(),
-    ).toEqual({ value: "9" });
+    ).toEqual({ value: "17" });
     expect(
       rawDb
         .prepare(
@@ -512,7 +512,7 @@ describe("Schema Migrations", () => {
       rawDb
         .prepare(`SELECT value FROM metadata WHERE key = 'schema_version'`)
         .get(),
-    ).toEqual({ value: "9" });
+    ).toEqual({ value: "17" });
     expect(
       rawDb
         .prepare(`SELECT COUNT(*) as count FROM session_trend_attempts`)
@@ -548,4 +548,63 @@ describe("Schema Migrations", () => {
 
     migrated.close();
   });
+
+  it("upgrades v14 databases by chaining existing evidence oldest first", () => {
+    const legacy = new Database(dbPath);
+    createLegacyCoreSchema(legacy);
+    legacy.exec(`
+      CREATE TABLE evidences (
+        id TEXT PRIMARY KEY,
+        timestamp TEXT NOT NULL,
+        conversationId TEXT NOT NULL,
+        llmProvider TEXT NOT NULL,
+        encryptedContent BLOB NOT NULL,
+        nonce BLOB NOT NULL,
+        contentHash TEXT NOT NULL,
+        messageCount INTEGER NOT NULL DEFAULT 0,
+        gitCommitHash TEXT,
+        gitTimestamp TEXT,
+        tags TEXT,
+        sessionId TEXT,
+        sessionFromSeq INTEGER,
+        sessionToSeq INTEGER,
+        createdAt TEXT NOT NULL DEFAULT (datetime('now')),
+        updatedAt TEXT NOT NULL DEFAULT (datetime('now'))
+      );
+      INSERT INTO metadata (key, value) VALUES ('schema_version', '14');
+    `);
+    const insert = legacy.prepare(
+      `
+        INSERT INTO evidences (
+          id, timestamp, conversationId, llmProvider, encryptedContent, nonce,
+          contentHash, messageCount
+        ) VALUES (?, ?, ?, 'claude', x'01', x'02', ?, 1)
+      `,
+    );
+    insert.run("legacy-newer", "2026-03-11T11:00:00.000Z", "newer", "hash-2");
+    insert.run("legacy-older", "2026-03-11T10:00:00.000Z", "older", "hash-1");
+    legacy.close();
+
+    const migrated = new EvidenceDatabase(dbPath);
+    const rawDb = (migrated as unknown as { db: Database.Database }).db;
+
+    expect(
+      rawDb
+        .prepare(`SELECT value FROM metadata WHERE key = 'schema_version'`)
+        .get(),
+    ).toEqual({ value: "17" });
+    expect(
+      rawDb
+        .prepare(`SELECT id, chainSeq FROM evidences ORDER BY chainSeq ASC`)
+        .all(),
+    ).toEqual([
+      { id: "legacy-older", chainSeq: 1 },
+      { id: "legacy-newer", chainSeq: 2 },
+    ]);
+    expect(migrated.verifyLedger()).toEqual(
+      expect.objectContaining({ verified: true, entries: 2, issues: [] }),
+    );
+
+    migrated.close();
+  });
 });
@@ -0,0 +1,413 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { tmpdir } from "node:os";
+import type {
+  CreateMessageRequestParamsBase,
+  CreateMessageResult,
+} from "@modelcontextprotocol/sdk/types.js";
+import { FootprintServer } from "../src/index.js";
+import {
+  reingestSessionHistory,
+  reingestSessionHistoryWithSampling,
+  type SamplingClient,
+} from "../src/ingestion/index.js";
+import { EvidenceDatabase } from "../src/lib/storage/index.js";
+import { FootprintTestHelpers } from "./test-helpers.js";
+
+function textResult(text: string): CreateMessageResult {
+  return {
+    model: "stub-model",
+    role: "assistant",
+    content: { type: "text", text },
+  };
+}
+
+function createStubClient(
+  respond: (params: CreateMessageRequestParamsBase) => CreateMessageResult,
+  capabilities: { sampling?: object } = { sampling: {} },
+): SamplingClient & { createMessage: ReturnType<typeof vi.fn> } {
+  return {
+    getClientCapabilities: () => capabilities,
+    createMessage: vi.fn(async (params: CreateMessageRequestParamsBase) =>
+      respond(params),
+    ),
+  };
+}
+
+function getPromptText(params: CreateMessageRequestParamsBase): string {
+  const content = params.messages[0]!.content;
+  return "text" in content ? content.text : "";
+}
+
+const SAMPLED_RESPONSE = JSON.stringify({
+  projectSummary: [
+    {
+      text: "Added retries with exponential backoff to the upload client.",
+      refs: ["m1", "m2"],
+    },
+    { text: "The upload tests went green on the second run.", refs: ["e2"] },
+    { text: "Also rewrote the billing module.", refs: ["m99"] },
+  ],
+  handoff: [
+    {
+      text: "pnpm test failed once and passed after the retry change.",
+      refs: ["[e1]", "E2"],
+    },
+  ],
+  decisions: [
+    {
+      title: "Use exponential backoff for upload retries",
+      summary: "Upload retries back off exponentially.",
+      rationale: null,
+      status: "accepted",
+      refs: ["m2"],
+    },
+    {
+      title: "Unsupported decision",
+      summary: "Nothing in the session says this.",
+      status: "proposed",
+      refs: [],
+    },
+  ],
+});
+
+describe("Sampled Semantic Ingestion", () => {
+  let tempDir: string;
+  let db: EvidenceDatabase;
+  let sessionId: string;
+  let messageIds: string[];
+  let eventIds: string[];
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(tmpdir(), "footprint-sampling-"));
+    db = new EvidenceDatabase(path.join(tempDir, "footprint.db"));
+    sessionId = db.createSession({
+      host: "claude",
+      projectRoot: tempDir,
+      cwd: tempDir,
+      title: "Retry uploads",
+      status: "completed",
+      startedAt: "2026-03-10T08:00:00.000Z",
+      endedAt: "2026-03-10T08:10:00.000Z",
+      metadata: null,
+    });
+    messageIds = [
+      ["user", "Add retries to the upload client"],
+      ["assistant", "We decided to use exponential backoff for retries"],
+    ].map(([role, content], index) =>
+      db.appendMessage({
+        sessionId,
+        seq: index + 1,
+        role: role as "user" | "assistant",
+        source: "wrapper",
+        content: content!,
+        capturedAt: `2026-03-10T08:0${index}:00.000Z`,
+        metadata: null,
+      }),
+    );
+    eventIds = [1, 0].map((exitCode, index) =>
+      db.appendTimelineEvent({
+        sessionId,
+        seq: index + 3,
+        eventType: "command.completed",
+        eventSubType: "pnpm",
+        source: "wrapper",
+        summary: "pnpm test",
+        payload: JSON.stringify({ command: "pnpm", args: ["test"], exitCode }),
+        startedAt: `2026-03-10T08:0${index + 2}:00.000Z`,
+        endedAt: `2026-03-10T08:0${index + 2}:05.000Z`,
+        status: exitCode === 0 ? "completed" : "failed",
+      }),
+    );
+  });
+
+  afterEach(() => {
+    db.close();
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  function getNarrative(kind: string) {
+    const narrative = db
+      .getSessionNarratives(sessionId)
+      .find((candidate) => candidate.kind === kind)!;
+    return {
+      content: narrative.content,
+      sourceRefs: JSON.parse(narrative.sourceRefs) as unknown[],
+    };
+  }
+
+  it("writes model-drafted claims with source refs and keeps rule-based gaps", async () => {
+    reingestSessionHistory(db, sessionId);
+    const ruleBasedJournal = getNarrative("journal");
+    const client = createStubClient(() => textResult(SAMPLED_RESPONSE));
+
+    const summary = await reingestSessionHistoryWithSampling(db, sessionId, {
+      sampling: client,
+    });
+
+    expect(summary).toEqual({
+      artifactsCreated: expect.any(Number),
+      narrativesCreated: 3,
+      decisionsCreated: 1,
+      semanticSource: "sampling",
+      fallbackReason:
+        "Kept rule-based journal: sampling returned no sourced claims",
+    });
+    expect(client.createMessage).toHaveBeenCalledTimes(1);
+    const prompt = getPromptText(client.createMessage.mock.calls[0]![0]);
+    expect(prompt).toContain("[m1] user: Add retries to the upload client");
+    expect(prompt).toContain("[e1] command.completed (failed): pnpm test");
+    expect(prompt).toContain("Session journal for Retry uploads");
+
+    // Each claim is its own bullet, and its refs carry the bullet number
+    expect(getNarrative("project-summary")).toEqual({
+      content: [
+        "Project summary for Retry uploads",
+        "- Added retries with exponential backoff to the upload client.",
+        "- The upload tests went green on the second run.",
+      ].join("\n"),
+      sourceRefs: [
+        { type: "message", id: messageIds[0], claim: 1 },
+        { type: "message", id: messageIds[1], claim: 1 },
+        { type: "event", id: eventIds[1], claim: 2 },
+      ],
+    });
+    expect(getNarrative("handoff")).toEqual({
+      content: expect.stringMatching(
+        /\n- pnpm test failed once and passed after the retry change\.$/,
+      ),
+      sourceRefs: [
+        { type: "event", id: eventIds[0], claim: 1 },
+        { type: "event", id: eventIds[1], claim: 1 },
+      ],
+    });
+    expect(getNarrative("journal")).toEqual(ruleBasedJournal);
+
+    expect(db.getSessionDecisions(sessionId)).toEqual([
+      expect.objectContaining({
+        title: "Use exponential backoff for upload retries",
+        summary: "Upload retries back off exponentially.",
+        rationale: null,
+        status: "accepted",
+        origin: "derived",
+        sourceRefs: JSON.stringify([{ type: "message", id: messageIds[1] }]),
+      }),
+    ]);
+  });
+
+  it("merges sampled decisions with explicitly recorded ones", async () => {
+    const recorded = db.recordDecision({
+      sessionId,
+      title: "Use exponential backoff for upload retries",
+      summary: "Recorded by the agent.",
+      rationale: null,
+      status: "accepted",
+      sourceRefs: JSON.stringify([{ type: "message", id: messageIds[1] }]),
+      supersedes: [],
+    });
+    const client = createStubClient(() =>
+      textResult(
+        JSON.stringify({
+          decisions: [
+            {
+              title: "use exponential backoff for upload retries",
+              summary: "Same decision, drafted again.",
+              status: "accepted",
+              refs: ["m2"],
+            },
+            {
+              title: "Keep pnpm test as the upload gate",
+              summary: "The retry change is gated on pnpm test.",
+              status: "proposed",
+              refs: ["e2"],
+            },
+          ],
+        }),
+      ),
+    );
+
+    const summary = await reingestSessionHistoryWithSampling(db, sessionId, {
+      sampling: client,
+    });
+
+    expect(summary).toEqual(
+      expect.objectContaining({
+        decisionsCreated: 1,
+        semanticSource: "sampling",
+      }),
+    );
+    const prompt = getPromptText(client.createMessage.mock.calls[0]![0]);
+    expect(prompt).toContain(
+      "Decisions already recorded by the agent; list only other decisions:\n- Use exponential backoff for upload retries",
+    );
+    expect(
+      db
+        .getSessionDecisions(sessionId)
+        .map((decision) => [
+          decision.id === recorded.id,
+          decision.title,
+          decision.origin,
+        ])
+        .sort(),
+    ).toEqual([
+      [false, "Keep pnpm test as the upload gate", "derived"],
+      [true, "Use exponential backoff for upload retries", "explicit"],
+    ]);
+  });
+
+  it("falls back to rule-based drafts when sampling is unavailable or unusable", async () => {
+    reingestSessionHistory(db, sessionId);
+    const ruleBased = {
+      narratives: db
+        .getSessionNarratives(sessionId)
+        .map((narrative) => [narrative.kind, narrative.content]),
+      decisions: db
+        .getSessionDecisions(sessionId)
+        .map((decision) => decision.title),
+    };
+    const current = () => ({
+      narratives: db
+        .getSessionNarratives(sessionId)
+        .map((narrative) => [narrative.kind, narrative.content]),
+      decisions: db
+        .getSessionDecisions(sessionId)
+        .map((decision) => decision.title),
+    });
+
+    const unsupported = createStubClient(() => textResult("{}"), {});
+    await expect(
+      reingestSessionHistoryWithSampling(db, sessionId, {
+        sampling: unsupported,
+      }),
+    ).resolves.toEqual(
+      expect.objectContaining({
+        semanticSource: "deterministic",
+        fallbackReason: "Client does not support sampling",
+      }),
+    );
+    expect(unsupported.createMessage).not.toHaveBeenCalled();
+    expect(current()).toEqual(ruleBased);
+
+    const rejecting = createStubClient(() => {
+      throw new Error("User rejected sampling request");
+    });
+    await expect(
+      reingestSessionHistoryWithSampling(db, sessionId, {
+        sampling: rejecting,
+      }),
+    ).resolves.toEqual(
+      expect.objectContaining({
+        semanticSource: "deterministic",
+        fallbackReason: "User rejected sampling request",
+      }),
+    );
+    expect(current()).toEqual(ruleBased);
+
+    const rambling = createStubClient(() =>
+      textResult("Here is a summary of the session: it went well."),
+    );
+    await expect(
+      reingestSessionHistoryWithSampling(db, sessionId, {
+        sampling: rambling,
+      }),
+    ).resolves.toEqual(
+      expect.objectContaining({
+        semanticSource: "deterministic",
+        fallbackReason: "Sampling response was not valid JSON",
+      }),
+    );
+    expect(current()).toEqual(ruleBased);
+  });
+});
+
+describe("Reingest Session Tool Sampling", () => {
+  let tempDir: string;
+  let server: FootprintServer;
+  let sessionId: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(tmpdir(), "footprint-sampling-tool-"));
+    const dbPath = path.join(tempDir, "footprint.db");
+    const seedDb = new EvidenceDatabase(dbPath);
+    sessionId = seedDb.createSession({
+      host: "claude",
+      projectRoot: tempDir,
+      cwd: tempDir,
+      title: "Retry uploads",
+      status: "completed",
+      startedAt: "2026-03-10T08:00:00.000Z",
+      endedAt: "2026-03-10T08:10:00.000Z",
+      metadata: null,
+    });
+    seedDb.appendMessage({
+      sessionId,
+      seq: 1,
+      role: "user",
+      source: "wrapper",
+      content: "Add retries to the upload client",
+      capturedAt: "2026-03-10T08:00:00.000Z",
+      metadata: null,
+    });
+    seedDb.close();
+    server = new FootprintServer({ dbPath, password: "sampling-password" });
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it("drafts narratives through the connected client's sampling handler", async () => {
+    const sampling = vi.fn(() =>
+      textResult(
+        JSON.stringify({
+          projectSummary: [
+            { text: "Retries were requested for uploads.", refs: ["m1"] },
+          ],
+          decisions: [],
+        }),
+      ),
+    );
+    const client = await new FootprintTestHelpers(server).connectMcpClient({
+      sampling,
+    });
+
+    try {
+      const deterministic = await client.callTool("reingest-session", {
+        id: sessionId,
+      });
+      expect(deterministic.structuredContent).toEqual(
+        expect.objectContaining({
+          semanticSource: "deterministic",
+          fallbackReason: null,
+        }),
+      );
+      expect(sampling).not.toHaveBeenCalled();
+
+      const sampled = await client.callTool("reingest-session", {
+        id: sessionId,
+        useSampling: true,
+      });
+      expect(sampled.structuredContent).toEqual(
+        expect.objectContaining({
+          sessionId,
+          decisionsCreated: 0,
+          semanticSource: "sampling",
+          fallbackReason:
+            "Kept rule-based journal, handoff: sampling returned no sourced claims",
+        }),
+      );
+      expect(sampling).toHaveBeenCalledTimes(1);
+
+      const narrative = await client.callTool("get-session-narrative", {
+        id: sessionId,
+        kind: "project-summary",
+      });
+      expect(JSON.stringify(narrative.structuredContent)).toContain(
+        "Retries were requested for uploads.",
+      );
+    } finally {
+      await client.close();
+    }
+  });
+});
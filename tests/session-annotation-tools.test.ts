@@ -0,0 +1,241 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { tmpdir } from "node:os";
+import { FootprintServer } from "../src/index.js";
+import { EvidenceDatabase } from "../src/lib/storage/index.js";
+import { FootprintTestHelpers } from "./test-helpers.js";
+import type { ServerConfig } from "../src/types.js";
+
+describe("Session Annotation Tools", () => {
+  let tempDir: string;
+  let dbPath: string;
+  let server: FootprintServer;
+  let helpers: FootprintTestHelpers;
+  let sessionId: string;
+
+  beforeEach(() => {
+    vi.stubEnv("FOOTPRINT_SESSION_ID", "");
+    vi.stubEnv("FOOTPRINT_SESSION_HOST", "");
+    tempDir = fs.mkdtempSync(
+      path.join(tmpdir(), "footprint-annotation-tools-"),
+    );
+    dbPath = path.join(tempDir, "footprint.db");
+
+    const seedDb = new EvidenceDatabase(dbPath);
+    seedDb.createSession({
+      host: "claude",
+      projectRoot: tempDir,
+      cwd: tempDir,
+      title: "Finished earlier",
+      status: "completed",
+      startedAt: "2026-03-09T11:00:00.000Z",
+      endedAt: "2026-03-09T11:05:00.000Z",
+      metadata: null,
+    });
+    sessionId = seedDb.createSession({
+      host: "claude",
+      projectRoot: tempDir,
+      cwd: tempDir,
+      title: "Annotated session",
+      status: "running",
+      startedAt: "2026-03-09T12:00:00.000Z",
+      endedAt: null,
+      metadata: null,
+    });
+    seedDb.appendMessage({
+      sessionId,
+      seq: 1,
+      role: "user",
+      source: "wrapper",
+      content: "We decided to keep Jest for the legacy package",
+      capturedAt: "2026-03-09T12:00:01.000Z",
+      metadata: null,
+    });
+    seedDb.close();
+
+    server = new FootprintServer({
+      dbPath,
+      password: "session-annotation-tools",
+    } satisfies ServerConfig);
+    helpers = new FootprintTestHelpers(server);
+  });
+
+  function finishSession() {
+    (server as unknown as { db: EvidenceDatabase }).db.finalizeSession(
+      sessionId,
+      { status: "completed", endedAt: "2026-03-09T12:10:00.000Z" },
+    );
+  }
+
+  afterEach(() => {
+    server.close();
+    vi.unstubAllEnvs();
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it("registers record-decision and append-session-note", async () => {
+    const tools = await helpers.getTools();
+
+    expect(tools).toContainEqual(
+      expect.objectContaining({ name: "record-decision" }),
+    );
+    expect(tools).toContainEqual(
+      expect.objectContaining({ name: "append-session-note" }),
+    );
+  });
+
+  it("records explicit decisions that supersede earlier ones and survive reingest", async () => {
+    vi.stubEnv("FOOTPRINT_SESSION_ID", sessionId);
+
+    const first = await helpers.callTool("record-decision", {
+      title: "Keep Jest for the legacy package",
+      rationale: "Migration cost is too high this sprint",
+    });
+    const firstDecision = first.structuredContent.decision as {
+      id: string;
+      origin: string;
+    };
+    expect(first.structuredContent.sessionId).toBe(sessionId);
+    expect(firstDecision.origin).toBe("explicit");
+
+    const second = await helpers.callTool("record-decision", {
+      title: "Move the legacy package to Vitest",
+      rationale: "Jest blocks the ESM upgrade",
+      supersedes: [firstDecision.id],
+    });
+    const secondDecision = second.structuredContent.decision as {
+      id: string;
+      supersedes: string[];
+    };
+    expect(secondDecision.supersedes).toEqual([firstDecision.id]);
+
+    finishSession();
+    await helpers.callTool("reingest-session", { id: sessionId });
+
+    const decisions = (
+      await helpers.callTool("get-session-decisions", { id: sessionId })
+    ).structuredContent.decisions as Array<{
+      id: string;
+      origin: string;
+      rationale: string | null;
+      supersedes: string[];
+    }>;
+    expect(decisions.map((decision) => decision.id)).toEqual([
+      firstDecision.id,
+      secondDecision.id,
+    ]);
+    expect(decisions.every((decision) => decision.origin === "explicit")).toBe(
+      true,
+    );
+    expect(decisions[1]).toEqual(
+      expect.objectContaining({
+        rationale: "Jest blocks the ESM upgrade",
+        supersedes: [firstDecision.id],
+      }),
+    );
+
+    await expect(
+      helpers.callTool("record-decision", {
+        title: "Replace a decision that does not exist",
+        supersedes: ["missing-decision"],
+      }),
+    ).rejects.toThrow("Decision not found: missing-decision");
+  });
+
+  it("only supersedes explicit decisions that survive reingest", async () => {
+    vi.stubEnv("FOOTPRINT_SESSION_ID", sessionId);
+    const db = (server as unknown as { db: EvidenceDatabase }).db;
+    const [derived] = db.replaceDecisionsForSession(sessionId, [
+      {
+        sessionId,
+        title: "Keep Jest for the legacy package",
+        summary: "We decided to keep Jest for the legacy package",
+        rationale: null,
+        status: "accepted",
+        sourceRefs: "[]",
+      },
+    ]);
+
+    // Reingest recreates derived decisions under new IDs, so they cannot anchor
+    await expect(
+      helpers.callTool("record-decision", {
+        title: "Move the legacy package to Vitest",
+        supersedes: [derived!.id],
+      }),
+    ).rejects.toThrow(
+      `Only explicit decisions recorded in this session can be superseded: ${derived!.id}`,
+    );
+
+    const first = await helpers.callTool("record-decision", {
+      title: "Keep Jest for the legacy package",
+    });
+    const firstId = (first.structuredContent.decision as { id: string }).id;
+    await helpers.callTool("record-decision", {
+      title: "Move the legacy package to Vitest",
+      supersedes: [firstId],
+    });
+
+    finishSession();
+    await helpers.callTool("reingest-session", { id: sessionId });
+    await helpers.callTool("reingest-session", { id: sessionId });
+
+    const decisions = db.getSessionDecisions(sessionId);
+    const ids = new Set(decisions.map((decision) => decision.id));
+    expect(decisions.flatMap((decision) => decision.supersedes)).toEqual([
+      firstId,
+    ]);
+    expect(
+      decisions.every((decision) =>
+        decision.supersedes.every((id) => ids.has(id)),
+      ),
+    ).toBe(true);
+  });
+
+  it("surfaces open questions in session and history handoffs", async () => {
+    vi.stubEnv("FOOTPRINT_SESSION_HOST", "claude");
+
+    const result = await helpers.callTool("append-session-note", {
+      content: "Should the legacy package drop Node 18 support?",
+      kind: "question",
+    });
+    expect(result.structuredContent.sessionId).toBe(sessionId);
+    expect(result.structuredContent.note).toEqual(
+      expect.objectContaining({ kind: "question" }),
+    );
+    await helpers.callTool("append-session-note", {
+      content: "Benchmarks live in bench/legacy.ts",
+    });
+
+    finishSession();
+    await helpers.callTool("reingest-session", { id: sessionId });
+    const narratives = (
+      await helpers.callTool("get-session-narrative", {
+        id: sessionId,
+        kind: "handoff",
+      })
+    ).structuredContent.narratives as Array<{ content: string }>;
+    expect(narratives[0]?.content).toContain(
+      "Open items: Should the legacy package drop Node 18 support?",
+    );
+    expect(narratives[0]?.content).toContain(
+      "Agent notes: Benchmarks live in bench/legacy.ts",
+    );
+
+    const handoff = await helpers.callTool("get-history-handoff", {});
+    expect(handoff.structuredContent.followUps).toEqual([
+      "Should the legacy package drop Node 18 support?",
+    ]);
+  });
+
+  it("requires an active session when none is configured", async () => {
+    await expect(
+      helpers.callTool("append-session-note", { content: "Orphan note" }),
+    ).rejects.toThrow("No active session");
+
+    vi.stubEnv("FOOTPRINT_SESSION_HOST", "gemini");
+    await expect(
+      helpers.callTool("record-decision", { title: "Orphan decision" }),
+    ).rejects.toThrow("No running gemini session to annotate");
+  });
+});
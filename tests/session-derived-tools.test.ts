@@ -517,7 +517,7 @@ describe("Derived Session Tools", () => {
     );
   });
 
-  it("hydrates search snippets only for the paginated result slice", async () => {
+  it("builds search snippets from the full-text index without hydrating session detail", async () => {
     await helpers.callTool("reingest-session", {
       id: sessionId,
     });
@@ -536,10 +536,14 @@ describe("Derived Session Tools", () => {
       });
 
       expect(result.structuredContent.total).toBe(2);
-      expect((result.structuredContent.results as Array<unknown>).length).toBe(
-        1,
-      );
-      expect(detailSpy).toHaveBeenCalledTimes(1);
+      const results = result.structuredContent.results as Array<{
+        score: number | null;
+        snippets: string[];
+      }>;
+      expect(results).toHaveLength(1);
+      expect(results[0].score).toBeGreaterThan(0);
+      expect(results[0].snippets.join("\n")).toContain("**pnpm**");
+      expect(detailSpy).not.toHaveBeenCalled();
     } finally {
       detailSpy.mockRestore();
     }
@@ -0,0 +1,383 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { tmpdir } from "node:os";
+import { randomBytes } from "node:crypto";
+import {
+  EvidenceDatabase,
+  isSealedText,
+  migrateSessionHistoryEncryption,
+  sealText,
+} from "../src/lib/storage/index.js";
+import { openEvidenceDatabase } from "../src/cli/session-execution.js";
+
+function seedSession(db: EvidenceDatabase): string {
+  const sessionId = db.createSession({
+    host: "claude",
+    projectRoot: "/tmp/project",
+    cwd: "/tmp/project",
+    title: "Customer import for acme-corp",
+    status: "completed",
+    startedAt: "2026-03-09T10:00:00.000Z",
+    endedAt: "2026-03-09T10:05:00.000Z",
+    metadata: JSON.stringify({ command: "claude", args: ["import acme-corp"] }),
+  });
+  const messageId = db.appendMessage({
+    sessionId,
+    seq: 1,
+    role: "user",
+    source: "wrapper",
+    content: "Import acme-corp records with token sk-live-123",
+    capturedAt: "2026-03-09T10:00:01.000Z",
+    metadata: null,
+  });
+  const eventId = db.appendTimelineEvent({
+    sessionId,
+    seq: 1,
+    eventType: "command.completed",
+    eventSubType: "pnpm",
+    source: "wrapper",
+    summary: "pnpm test acme-corp",
+    payload: JSON.stringify({ command: "pnpm", args: ["test"], exitCode: 1 }),
+    startedAt: "2026-03-09T10:00:10.000Z",
+    endedAt: "2026-03-09T10:00:20.000Z",
+    status: "failed",
+    relatedMessageId: messageId,
+  });
+  db.replaceArtifactsForSession(sessionId, [
+    {
+      sessionId,
+      eventId,
+      artifactType: "command-output",
+      path: null,
+      metadata: JSON.stringify({
+        summary: "pnpm test",
+        issueKey: "test:pnpm-test",
+        issueLabel: "pnpm test",
+        outcome: "failed",
+        eventType: "command.completed",
+      }),
+    },
+  ]);
+  db.replaceNarrativesForSession(sessionId, [
+    {
+      sessionId,
+      kind: "handoff",
+      content: "Handoff: acme-corp import still failing",
+      sourceRefs: "[]",
+    },
+  ]);
+  db.replaceDecisionsForSession(sessionId, [
+    {
+      sessionId,
+      title: "Retry the acme-corp import",
+      summary: "We will retry the acme-corp import tomorrow",
+      rationale: "Vendor API was down",
+      status: "accepted",
+      sourceRefs: "[]",
+    },
+  ]);
+  db.saveSessionRecording({
+    sessionId,
+    format: "util-linux-advanced",
+    startedAt: "2026-03-09T10:00:00.000Z",
+    durationMs: 1200,
+    columns: 80,
+    rows: 24,
+    frames: [
+      { offsetMs: 0, direction: "o", data: "$ import acme-corp\r\n" },
+      { offsetMs: 1200, direction: "o", data: "acme-corp import failed\r\n" },
+    ],
+  });
+
+  return sessionId;
+}
+
+function readRawColumns(dbPath: string): string[] {
+  const db = new EvidenceDatabase(dbPath);
+  try {
+    const raw = db.getDb();
+    return [
+      ...(
+        raw.prepare("SELECT title, metadata FROM sessions").all() as Array<{
+          title: string;
+          metadata: string;
+        }>
+      ).flatMap((row) => [row.title, row.metadata]),
+      ...(
+        raw.prepare("SELECT content FROM messages").all() as Array<{
+          content: string;
+        }>
+      ).map((row) => row.content),
+      ...(
+        raw
+          .prepare("SELECT summary, payload FROM timeline_events")
+          .all() as Array<{ summary: string; payload: string }>
+      ).flatMap((row) => [row.summary, row.payload]),
+      ...(
+        raw.prepare("SELECT metadata FROM artifacts").all() as Array<{
+          metadata: string;
+        }>
+      ).map((row) => row.metadata),
+      ...(
+        raw.prepare("SELECT content FROM narratives").all() as Array<{
+          content: string;
+        }>
+      ).map((row) => row.content),
+      ...(
+        raw
+          .prepare("SELECT title, summary, rationale FROM decisions")
+          .all() as Array<{ title: string; summary: string; rationale: string }>
+      ).flatMap((row) => [row.title, row.summary, row.rationale]),
+      ...(
+        raw
+          .prepare(
+            "SELECT titleText, metadataText, messagesText, artifactsText, narrativesText, decisionsText FROM session_history_cache",
+          )
+          .all() as Array<Record<string, string>>
+      ).flatMap((row) => Object.values(row)),
+      ...(
+        raw.prepare("SELECT frames FROM session_recordings").all() as Array<{
+          frames: string;
+        }>
+      ).map((row) => row.frames),
+      ...(
+        raw
+          .prepare(
+            "SELECT issueKey, issueLabel FROM session_trend_attempts UNION ALL SELECT issueKey, NULL FROM session_issue_keys",
+          )
+          .all() as Array<Record<string, string | null>>
+      ).flatMap((row) => Object.values(row)),
+    ];
+  } finally {
+    db.close();
+  }
+}
+
+describe("Session History Encryption", () => {
+  let tempDir: string;
+  let dbPath: string;
+  let key: Uint8Array;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(tmpdir(), "footprint-session-enc-"));
+    dbPath = path.join(tempDir, "footprint.db");
+    key = new Uint8Array(randomBytes(32));
+  });
+
+  afterEach(() => {
+    delete process.env.FOOTPRINT_ENCRYPT_SESSIONS;
+    delete process.env.FOOTPRINT_PASSPHRASE;
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it("encrypts existing rows and keeps search, trends, and follow-ups working", () => {
+    const db = new EvidenceDatabase(dbPath);
+    let sessionId: string;
+    try {
+      sessionId = seedSession(db);
+      expect(db.isSessionHistoryEncrypted()).toBe(false);
+      expect(db.enableSessionHistoryEncryption(key)).toBeGreaterThan(0);
+      expect(db.isSessionHistoryEncrypted()).toBe(true);
+
+      db.appendMessage({
+        sessionId,
+        seq: 2,
+        role: "assistant",
+        source: "wrapper",
+        content: "Next: confirm the acme-corp retry window?",
+        capturedAt: "2026-03-09T10:00:30.000Z",
+        metadata: null,
+      });
+    } finally {
+      db.close();
+    }
+
+    const rawValues = readRawColumns(dbPath);
+    expect(rawValues.length).toBeGreaterThan(0);
+    for (const value of rawValues) {
+      expect(isSealedText(value)).toBe(true);
+      expect(value).not.toContain("acme-corp");
+    }
+    // Nor in pages the migration freed
+    for (const file of [dbPath, `${dbPath}-wal`].filter(fs.existsSync)) {
+      expect(fs.readFileSync(file).includes("Import acme-corp records")).toBe(
+        false,
+      );
+    }
+
+    const reopened = new EvidenceDatabase(dbPath);
+    try {
+      reopened.unlockSessionHistory(key);
+
+      const detail = reopened.getSessionDetail(sessionId);
+      expect(detail?.session.title).toBe("Customer import for acme-corp");
+      expect(detail?.timeline[0]?.summary).toBe("pnpm test acme-corp");
+      expect(detail?.decisions[0]?.title).toBe("Retry the acme-corp import");
+      expect(detail?.messages.map((message) => message.content)).toEqual([
+        "Import acme-corp records with token sk-live-123",
+        "Next: confirm the acme-corp retry window?",
+      ]);
+      expect(JSON.parse(detail?.timeline[0]?.payload ?? "{}")).toEqual(
+        expect.objectContaining({ exitCode: 1 }),
+      );
+      expect(detail?.narratives[0]?.content).toBe(
+        "Handoff: acme-corp import still failing",
+      );
+      expect(detail?.decisions[0]?.rationale).toBe("Vendor API was down");
+      expect(reopened.getSessionRecording(sessionId)?.frames[1]).toEqual({
+        offsetMs: 1200,
+        direction: "o",
+        data: "acme-corp import failed\r\n",
+      });
+      expect(
+        reopened.getSessionMessageStats(sessionId).previewContent,
+      ).toContain("acme-corp");
+
+      expect(
+        reopened.querySessionsByHistory({ query: "ACME-CORP RETRY" }),
+      ).toEqual({
+        total: 1,
+        sessions: [expect.objectContaining({ id: sessionId })],
+      });
+      expect(
+        reopened.querySessionsByHistory({ query: "retry the acme-corp import" }),
+      ).toEqual({
+        total: 1,
+        sessions: [expect.objectContaining({ id: sessionId })],
+      });
+      expect(reopened.querySessionsByHistory({ query: "missing" })).toEqual({
+        total: 0,
+        sessions: [],
+      });
+      expect(reopened.querySessionTrendAttempts()).toEqual([
+        expect.objectContaining({
+          sessionId,
+          issueKey: "test:pnpm-test",
+          outcomeCategory: "failed",
+          title: "Customer import for acme-corp",
+        }),
+      ]);
+      expect(reopened.querySessionTrendContextAttempts(sessionId)).toEqual([
+        expect.objectContaining({ issueKey: "test:pnpm-test" }),
+      ]);
+      expect(
+        reopened.querySessionsByHistory({ issueKey: "test:pnpm-test" }).total,
+      ).toBe(1);
+      expect(reopened.getSessionFollowUpMessages([sessionId])).toEqual([
+        expect.objectContaining({
+          content: "Next: confirm the acme-corp retry window?",
+        }),
+      ]);
+    } finally {
+      reopened.close();
+    }
+  });
+
+  it("refuses to read encrypted history without the matching key", () => {
+    const db = new EvidenceDatabase(dbPath);
+    let sessionId: string;
+    try {
+      sessionId = seedSession(db);
+      db.enableSessionHistoryEncryption(key);
+    } finally {
+      db.close();
+    }
+
+    const reopened = new EvidenceDatabase(dbPath);
+    try {
+      expect(reopened.isSessionHistoryEncrypted()).toBe(true);
+      expect(() => reopened.getSessionMessages(sessionId)).toThrow(
+        /Session history is encrypted/,
+      );
+      expect(() =>
+        reopened.unlockSessionHistory(new Uint8Array(randomBytes(32))),
+      ).toThrow(/does not match/);
+
+      reopened.unlockSessionHistory(key);
+      expect(reopened.getSessionMessages(sessionId)).toHaveLength(1);
+    } finally {
+      reopened.close();
+    }
+  });
+
+  it("seals plaintext that only looks sealed", () => {
+    const forged = "fpenc:v1:AAAA:BBBB";
+    const db = new EvidenceDatabase(dbPath);
+    try {
+      const sessionId = seedSession(db);
+      db.updateSessionTitle(sessionId, forged);
+      expect(db.findSessionById(sessionId)?.title).toBe(forged);
+
+      db.enableSessionHistoryEncryption(key);
+      const rawTitle = (
+        db
+          .getDb()
+          .prepare("SELECT title FROM sessions WHERE id = ?")
+          .get(sessionId) as { title: string }
+      ).title;
+      expect(rawTitle).not.toBe(forged);
+      expect(db.findSessionById(sessionId)?.title).toBe(forged);
+    } finally {
+      db.close();
+    }
+  });
+
+  it("resumes the migration by sealing only rows left in plaintext", () => {
+    const db = new EvidenceDatabase(dbPath);
+    try {
+      const sessionId = seedSession(db);
+      db.enableSessionHistoryEncryption(key);
+
+      db.getDb()
+        .prepare("UPDATE messages SET content = ? WHERE sessionId = ?")
+        .run("Leftover plaintext row", sessionId);
+
+      const cipher = {
+        seal: (value: string) => sealText(value, key),
+        isSealed: isSealedText,
+      };
+      expect(migrateSessionHistoryEncryption(db.getDb(), cipher)).toBe(1);
+      expect(migrateSessionHistoryEncryption(db.getDb(), cipher)).toBe(0);
+      expect(db.getSessionMessages(sessionId)[0]?.content).toBe(
+        "Leftover plaintext row",
+      );
+    } finally {
+      db.close();
+    }
+  });
+
+  it("opts CLI databases in through FOOTPRINT_ENCRYPT_SESSIONS", () => {
+    const seeded = new EvidenceDatabase(dbPath);
+    let sessionId: string;
+    try {
+      sessionId = seedSession(seeded);
+    } finally {
+      seeded.close();
+    }
+
+    process.env.FOOTPRINT_ENCRYPT_SESSIONS = "1";
+    expect(() => openEvidenceDatabase(dbPath)).toThrow(/FOOTPRINT_PASSPHRASE/);
+
+    process.env.FOOTPRINT_PASSPHRASE = "session-history-passphrase";
+    const db = openEvidenceDatabase(dbPath);
+    try {
+      expect(db.isSessionHistoryEncrypted()).toBe(true);
+      expect(db.getSessionMessages(sessionId)[0]?.content).toContain(
+        "acme-corp",
+      );
+    } finally {
+      db.close();
+    }
+
+    delete process.env.FOOTPRINT_ENCRYPT_SESSIONS;
+    const reopened = openEvidenceDatabase(dbPath);
+    try {
+      expect(reopened.querySessionsByHistory({ query: "acme-corp" }).total).toBe(
+        1,
+      );
+    } finally {
+      reopened.close();
+    }
+  }, 30_000);
+});
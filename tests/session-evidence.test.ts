@@ -0,0 +1,212 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { tmpdir } from "node:os";
+import { FootprintServer } from "../src/index.js";
+import { EvidenceDatabase } from "../src/lib/storage/index.js";
+import { FootprintTestHelpers } from "./test-helpers.js";
+import type { ServerConfig } from "../src/types.js";
+
+describe("Session Evidence Capture", () => {
+  let tempDir: string;
+  let dbPath: string;
+  let server: FootprintServer;
+  let helpers: FootprintTestHelpers;
+  let sessionId: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(
+      path.join(tmpdir(), "footprint-session-evidence-"),
+    );
+    dbPath = path.join(tempDir, "footprint.db");
+
+    const seedDb = new EvidenceDatabase(dbPath);
+    sessionId = seedDb.createSession({
+      host: "claude",
+      projectRoot: tempDir,
+      cwd: tempDir,
+      title: "Evidence from history",
+      status: "completed",
+      startedAt: "2026-03-09T12:00:00.000Z",
+      endedAt: "2026-03-09T12:05:00.000Z",
+      metadata: null,
+    });
+    const contents = [
+      "Investigate the flaky login test",
+      "We decided to pin the auth mock clock",
+      "Next: open a follow-up for retries",
+    ];
+    const messageIds = contents.map((content, index) =>
+      seedDb.appendMessage({
+        sessionId,
+        seq: index + 1,
+        role: index === 1 ? "assistant" : "user",
+        source: "wrapper",
+        content,
+        capturedAt: `2026-03-09T12:0${index + 1}:00.000Z`,
+        metadata: null,
+      }),
+    );
+    seedDb.appendTimelineEvent({
+      sessionId,
+      seq: 1,
+      eventType: "message.user.submitted",
+      eventSubType: null,
+      source: "wrapper",
+      summary: "Investigate the flaky login test",
+      payload: null,
+      startedAt: "2026-03-09T12:01:00.000Z",
+      endedAt: "2026-03-09T12:01:00.000Z",
+      status: "captured",
+      relatedMessageId: messageIds[0]!,
+    });
+    const commandEventId = seedDb.appendTimelineEvent({
+      sessionId,
+      seq: 2,
+      eventType: "command.completed",
+      eventSubType: "pnpm",
+      source: "wrapper",
+      summary: "pnpm test",
+      payload: JSON.stringify({ command: "pnpm", exitCode: 0 }),
+      startedAt: "2026-03-09T12:02:30.000Z",
+      endedAt: "2026-03-09T12:02:40.000Z",
+      status: "completed",
+      relatedMessageId: null,
+    });
+    seedDb.createArtifact({
+      sessionId,
+      eventId: commandEventId,
+      artifactType: "command-output",
+      path: null,
+      metadata: JSON.stringify({ command: "pnpm" }),
+    });
+    seedDb.appendTimelineEvent({
+      sessionId,
+      seq: 3,
+      eventType: "command.completed",
+      eventSubType: "git",
+      source: "wrapper",
+      summary: "git status",
+      payload: JSON.stringify({ command: "git", exitCode: 0 }),
+      startedAt: "2026-03-09T12:03:30.000Z",
+      endedAt: "2026-03-09T12:03:31.000Z",
+      status: "completed",
+      relatedMessageId: null,
+    });
+    seedDb.close();
+
+    server = new FootprintServer({
+      dbPath,
+      password: "session-evidence",
+    } satisfies ServerConfig);
+    helpers = new FootprintTestHelpers(server);
+  });
+
+  afterEach(() => {
+    server.close();
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it("seals a transcript slice with the timeline and artifacts recorded alongside it", async () => {
+    const capture = await helpers.callTool("capture-session-evidence", {
+      id: sessionId,
+      fromSeq: 2,
+      toSeq: 2,
+      tags: "auth, decision",
+    });
+    expect(capture.structuredContent).toEqual(
+      expect.objectContaining({
+        sessionId,
+        fromSeq: 2,
+        toSeq: 2,
+        messageCount: 1,
+        timelineCount: 1,
+        artifactCount: 1,
+        success: true,
+      }),
+    );
+    const evidenceId = capture.structuredContent.id as string;
+
+    const footprint = await helpers.callTool("get-footprint", {
+      id: evidenceId,
+    });
+    expect(footprint.structuredContent.conversationId).toBe(sessionId);
+    expect(footprint.structuredContent.tags).toBe("auth,decision");
+    const document = JSON.parse(
+      footprint.structuredContent.content as string,
+    ) as {
+      format: string;
+      range: { fromSeq: number; toSeq: number };
+      messages: Array<{ seq: number; content: string }>;
+      timeline: Array<{ summary: string }>;
+    };
+    expect(document.format).toBe("footprint-session-evidence/v1");
+    expect(document.range).toEqual({ fromSeq: 2, toSeq: 2 });
+    expect(document.messages.map((message) => message.content)).toEqual([
+      "We decided to pin the auth mock clock",
+    ]);
+    expect(document.timeline.map((event) => event.summary)).toEqual([
+      "pnpm test",
+    ]);
+  }, 30_000);
+
+  it("links captured evidence from get-session and verify-footprint", async () => {
+    const capture = await helpers.callTool("capture-session-evidence", {
+      id: sessionId,
+    });
+    expect(capture.structuredContent).toEqual(
+      expect.objectContaining({
+        fromSeq: 1,
+        toSeq: 3,
+        messageCount: 3,
+        timelineCount: 3,
+        artifactCount: 1,
+      }),
+    );
+    const evidenceId = capture.structuredContent.id as string;
+
+    const session = await helpers.callTool("get-session", { id: sessionId });
+    expect(session.structuredContent.evidence).toEqual([
+      expect.objectContaining({
+        id: evidenceId,
+        fromSeq: 1,
+        toSeq: 3,
+        messageCount: 3,
+      }),
+    ]);
+
+    const verification = await helpers.callTool("verify-footprint", {
+      id: evidenceId,
+    });
+    expect(verification.structuredContent.integrityVerified).toBe(true);
+    expect(verification.structuredContent.session).toEqual({
+      id: sessionId,
+      fromSeq: 1,
+      toSeq: 3,
+      exists: true,
+    });
+    expect(verification.textContent).toContain(
+      `Session: ✓ ${sessionId} (messages 1-3)`,
+    );
+  }, 30_000);
+
+  it("rejects ranges that select no transcript messages", async () => {
+    await expect(
+      helpers.callTool("capture-session-evidence", {
+        id: sessionId,
+        fromSeq: 7,
+        toSeq: 9,
+      }),
+    ).rejects.toThrow("Nothing to capture in seq range 7-9");
+    await expect(
+      helpers.callTool("capture-session-evidence", {
+        id: sessionId,
+        fromSeq: 3,
+        toSeq: 1,
+      }),
+    ).rejects.toThrow("fromSeq must not be greater than toSeq");
+    await expect(
+      helpers.callTool("capture-session-evidence", { id: "missing" }),
+    ).rejects.toThrow("Session not found: missing");
+  }, 30_000);
+});
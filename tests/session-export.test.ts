@@ -5,7 +5,10 @@ import * as path from "node:path";
 import { tmpdir } from "node:os";
 import { FootprintServer } from "../src/index.js";
 import { reingestSessionHistory } from "../src/ingestion/index.js";
-import { EvidenceDatabase } from "../src/lib/storage/index.js";
+import {
+  EvidenceDatabase,
+  exportSessionCast,
+} from "../src/lib/storage/index.js";
 import { FootprintTestHelpers } from "./test-helpers.js";
 import type { ServerConfig } from "../src/types.js";
 
@@ -448,6 +451,74 @@ describe("Session Export", () => {
     );
   });
 
+  it("exports terminal recordings as asciinema casts with timeline markers", async () => {
+    const db = new EvidenceDatabase(dbPath);
+    db.saveSessionRecording({
+      sessionId,
+      format: "util-linux-advanced",
+      startedAt: "2026-03-10T08:00:00.000Z",
+      durationMs: 15000,
+      columns: 100,
+      rows: 30,
+      frames: [
+        { offsetMs: 0, direction: "o", data: "$ pnpm test:browser\r\n" },
+        { offsetMs: 10000, direction: "o", data: "1 failed\r\n" },
+        { offsetMs: 13000, direction: "o", data: "all passed\r\n" },
+      ],
+    });
+
+    const cast = exportSessionCast(db, sessionId);
+    expect(() => exportSessionCast(db, secondSessionId)).toThrow(
+      "Session has no terminal recording",
+    );
+    db.close();
+
+    const [header, ...events] = cast.castData
+      .trimEnd()
+      .split("\n")
+      .map((line) => JSON.parse(line) as unknown);
+    expect(header).toEqual({
+      version: 2,
+      width: 100,
+      height: 30,
+      timestamp: Date.parse("2026-03-10T08:00:00.000Z") / 1000,
+      duration: 15,
+      title: "Exported release handoff",
+    });
+    expect(events).toEqual([
+      [0, "o", "$ pnpm test:browser\r\n"],
+      [10, "m", "command.started: pnpm test:browser"],
+      [10, "m", "command.completed: pnpm test:browser"],
+      [10, "o", "1 failed\r\n"],
+      [13, "m", "command.started: pnpm test:browser"],
+      [13, "m", "command.completed: pnpm test:browser"],
+      [13, "o", "all passed\r\n"],
+      [15, "m", "file.changed: README.md changed"],
+    ]);
+    expect(cast.markerCount).toBe(5);
+    expect(cast.filename).toMatch(/\.cast$/);
+
+    const result = await helpers.callTool("export-sessions", {
+      sessionIds: [sessionId, secondSessionId],
+      outputMode: "base64",
+    });
+    const zip = await JSZip.loadAsync(
+      Buffer.from(result.structuredContent.base64Data as string, "base64"),
+    );
+    const manifest = JSON.parse(
+      await zip.file("manifest.json")!.async("text"),
+    ) as { includedSections: string[] };
+    expect(manifest.includedSections).toContain(
+      "sessions/{id}/cast/session.cast",
+    );
+    expect(
+      await zip.file(`sessions/${sessionId}/cast/session.cast`)!.async("text"),
+    ).toBe(cast.castData);
+    expect(
+      zip.file(`sessions/${secondSessionId}/cast/session.cast`),
+    ).toBeNull();
+  });
+
   it("exports filtered sessions and records export scope in the manifest", async () => {
     const result = await helpers.callTool("export-sessions", {
       issueKey: "test:pnpm-test-browser",
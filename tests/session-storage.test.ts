@@ -111,6 +111,47 @@ describe("Session Storage", () => {
     expect(detail?.hasNarratives).toBe(false);
   });
 
+  it("stores timed terminal recordings and drops them with the session", () => {
+    const sessionId = db.createSession({
+      host: "claude",
+      projectRoot: "/tmp/project",
+      cwd: "/tmp/project",
+      title: null,
+      status: "completed",
+      startedAt: "2026-03-09T10:00:00.000Z",
+      endedAt: "2026-03-09T10:00:05.000Z",
+      metadata: null,
+    });
+    const recording = {
+      sessionId,
+      format: "script-bsd" as const,
+      startedAt: "2026-03-09T10:00:00.000Z",
+      durationMs: 2500,
+      columns: 120,
+      rows: 40,
+      frames: [
+        { offsetMs: 0, direction: "i" as const, data: "ship it\r" },
+        {
+          offsetMs: 40,
+          direction: "o" as const,
+          data: "\u001b[32mok\u001b[0m\r\n",
+        },
+      ],
+    };
+
+    expect(db.getSessionRecording(sessionId)).toBeNull();
+    db.saveSessionRecording(recording);
+    expect(db.getSessionRecording(sessionId)).toEqual(recording);
+
+    db.saveSessionRecording({ ...recording, durationMs: 3000, frames: [] });
+    expect(db.getSessionRecording(sessionId)).toEqual(
+      expect.objectContaining({ durationMs: 3000, frames: [] }),
+    );
+
+    expect(db.deleteSessions([sessionId])).toBe(1);
+    expect(db.getSessionRecording(sessionId)).toBeNull();
+  });
+
   it("keeps sessions in reverse chronological order and rejects duplicate sequence numbers", () => {
     const olderSession = db.createSession({
       host: "claude",
@@ -248,6 +289,11 @@ describe("Session Storage", () => {
         commandOutput: 1,
         testResult: 0,
         gitCommit: 1,
+        lintResult: 0,
+        buildResult: 0,
+        dependencyChange: 0,
+        httpRequest: 0,
+        migration: 0,
       },
     });
     expect(
@@ -278,6 +278,28 @@ describe("Session Tools", () => {
     ]);
   });
 
+  it("lists sessions recorded under generic host labels", async () => {
+    const seedDb = new EvidenceDatabase(dbPath);
+    const genericSession = seedDb.createSession({
+      host: "pytest",
+      projectRoot: tempDir,
+      cwd: tempDir,
+      title: null,
+      status: "completed",
+      startedAt: "2026-03-10T09:00:00.000Z",
+      endedAt: "2026-03-10T09:01:00.000Z",
+      metadata: JSON.stringify({ command: "pytest", args: ["-x"] }),
+    });
+    seedDb.close();
+
+    const result = await helpers.callTool("list-sessions", { host: "pytest" });
+
+    expect(result.structuredContent?.total).toBe(1);
+    expect(result.structuredContent?.sessions).toEqual([
+      expect.objectContaining({ id: genericSession, host: "pytest" }),
+    ]);
+  });
+
   it("filters list-sessions by query and issue key", async () => {
     const result = await helpers.callTool("list-sessions", {
       query: "running tests",
@@ -409,6 +431,11 @@ describe("Session Tools", () => {
       commandOutput: 1,
       testResult: 0,
       gitCommit: 0,
+      lintResult: 0,
+      buildResult: 0,
+      dependencyChange: 0,
+      httpRequest: 0,
+      migration: 0,
     });
     expect(result.structuredContent.hasNarratives).toBe(false);
   });
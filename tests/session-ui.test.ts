@@ -373,6 +373,26 @@ describe("Session UI helpers", () => {
     expect(familyTrendHtml).toContain("test:pnpm-test, test:pnpm-test-browser");
   });
 
+  it("renders search highlights as marks without unescaping snippet content", () => {
+    const html = buildHistorySearchResultsHtml(
+      [
+        {
+          sessionId: "session-1",
+          host: "claude",
+          label: "Search",
+          status: "completed",
+          startedAt: "2026-03-10T12:00:00.000Z",
+          snippets: ["…fixed the **flaky** <b>browser</b> **tests**…"],
+        },
+      ],
+      (value) => value,
+    );
+
+    expect(html).toContain(
+      "…fixed the <mark>flaky</mark> &lt;b&gt;browser&lt;/b&gt; <mark>tests</mark>…",
+    );
+  });
+
   it("allows reingest only after the session stops running", () => {
     expect(canReingestSession("running")).toBe(false);
     expect(canReingestSession("completed")).toBe(true);
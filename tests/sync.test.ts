@@ -0,0 +1,364 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { tmpdir } from "node:os";
+import { randomBytes } from "node:crypto";
+import { reingestSessionHistory } from "../src/ingestion/index.js";
+import { createRedactor, parseRedactionConfig } from "../src/lib/redaction.js";
+import { EvidenceDatabase } from "../src/lib/storage/index.js";
+import {
+  loadSyncConfig,
+  resolveSyncConfigPath,
+  syncSessionHistory,
+} from "../src/sync/index.js";
+
+function pause(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+describe("Session History Sync", () => {
+  let tempDir: string;
+  let shared: string;
+  let laptop: EvidenceDatabase;
+  let desktop: EvidenceDatabase;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(tmpdir(), "footprint-sync-"));
+    shared = path.join(tempDir, "shared");
+    laptop = new EvidenceDatabase(path.join(tempDir, "laptop.db"));
+    desktop = new EvidenceDatabase(path.join(tempDir, "desktop.db"));
+  });
+
+  afterEach(() => {
+    laptop.close();
+    desktop.close();
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  function sync(db: EvidenceDatabase) {
+    return syncSessionHistory(db, { directory: shared });
+  }
+
+  function seedSession(db: EvidenceDatabase): string {
+    const sessionId = db.createSession({
+      host: "claude",
+      projectRoot: tempDir,
+      cwd: tempDir,
+      title: "Synced release work",
+      status: "completed",
+      startedAt: "2026-03-10T08:00:00.000Z",
+      endedAt: "2026-03-10T08:05:00.000Z",
+      metadata: null,
+    });
+    const messageId = db.appendMessage({
+      sessionId,
+      seq: 1,
+      role: "user",
+      source: "wrapper",
+      content: "Run the store tests before the release.",
+      capturedAt: "2026-03-10T08:00:05.000Z",
+      metadata: null,
+    });
+    db.appendTimelineEvent({
+      sessionId,
+      seq: 1,
+      eventType: "message.user.submitted",
+      eventSubType: null,
+      source: "wrapper",
+      summary: "Run the store tests",
+      payload: null,
+      startedAt: "2026-03-10T08:00:05.000Z",
+      endedAt: "2026-03-10T08:00:05.000Z",
+      status: "captured",
+      relatedMessageId: messageId,
+    });
+    db.appendTimelineEvent({
+      sessionId,
+      seq: 2,
+      eventType: "command.completed",
+      eventSubType: "pnpm",
+      source: "wrapper",
+      summary: "pnpm test",
+      payload: JSON.stringify({
+        command: "pnpm",
+        args: ["test"],
+        exitCode: 1,
+        stdout: "FAIL tests/store.test.ts > keeps rows\nAssertionError: nope",
+      }),
+      startedAt: "2026-03-10T08:00:10.000Z",
+      endedAt: "2026-03-10T08:00:12.000Z",
+      status: "failed",
+      relatedMessageId: null,
+    });
+    reingestSessionHistory(db, sessionId);
+    return sessionId;
+  }
+
+  it("replays sessions, timelines, and context links onto other machines", () => {
+    const sessionId = seedSession(laptop);
+    const context = laptop.createContext({
+      label: "Release",
+      workspaceKey: tempDir,
+    });
+    laptop.assignSessionToContext({
+      sessionId,
+      contextId: context.id,
+      linkSource: "confirmed",
+    });
+
+    const pushed = sync(laptop);
+    expect(pushed.pushed).toBeGreaterThan(0);
+    expect(pushed.machines).toBe(0);
+
+    const pulled = sync(desktop);
+    expect(pulled).toEqual(
+      expect.objectContaining({
+        pushed: 0,
+        machines: 1,
+        skipped: 0,
+        reingestedSessions: 1,
+      }),
+    );
+    expect(desktop.findSessionById(sessionId)?.title).toBe(
+      "Synced release work",
+    );
+    expect(
+      desktop.getSessionMessages(sessionId).map((message) => message.content),
+    ).toEqual(["Run the store tests before the release."]);
+    const timeline = desktop.getSessionTimeline(sessionId);
+    expect(timeline.map((event) => event.eventType)).toEqual([
+      "message.user.submitted",
+      "command.completed",
+    ]);
+    expect(timeline[0]!.relatedMessageId).toBe(
+      desktop.getSessionMessages(sessionId)[0]!.id,
+    );
+    expect(
+      desktop.getSessionArtifacts(sessionId).map((artifact) => artifact.path),
+    ).toEqual(
+      laptop.getSessionArtifacts(sessionId).map((artifact) => artifact.path),
+    );
+    expect(desktop.findContextLinkForSession(sessionId)).toEqual(
+      expect.objectContaining({
+        contextId: context.id,
+        linkSource: "confirmed",
+      }),
+    );
+
+    // Replayed records are not echoed back, and nothing is replayed twice
+    expect(sync(desktop).pushed).toBe(0);
+    expect(sync(laptop)).toEqual(
+      expect.objectContaining({ pushed: 0, machines: 0 }),
+    );
+
+    laptop.appendMessage({
+      sessionId,
+      seq: 2,
+      role: "assistant",
+      source: "wrapper",
+      content: "Fixed the failing store test.",
+      capturedAt: "2026-03-10T08:04:00.000Z",
+      metadata: null,
+    });
+    expect(sync(laptop).pushed).toBe(1);
+    expect(sync(desktop).applied).toBe(1);
+    expect(desktop.getSessionMessages(sessionId)).toHaveLength(2);
+  });
+
+  it("converges on conflicting context merges, preferences, and rejections", async () => {
+    const sessionId = seedSession(laptop);
+    const first = laptop.createContext({
+      label: "Store",
+      workspaceKey: tempDir,
+    });
+    const second = laptop.createContext({
+      label: "Release",
+      workspaceKey: tempDir,
+    });
+    laptop.rejectContextForSession(sessionId, second.id);
+    laptop.setWorkspacePreferredContext(tempDir, first.id);
+    sync(laptop);
+    sync(desktop);
+    expect(desktop.listContextRejectionsForSession(sessionId)).toHaveLength(1);
+
+    // The newest preference wins wherever it was set
+    await pause(5);
+    desktop.setWorkspacePreferredContext(tempDir, second.id);
+    // Confirming a link clears the rejection on the other machine too
+    desktop.assignSessionToContext({
+      sessionId,
+      contextId: second.id,
+      linkSource: "confirmed",
+    });
+    sync(desktop);
+    sync(laptop);
+    expect(laptop.getWorkspacePreferredContext(tempDir)?.contextId).toBe(
+      second.id,
+    );
+    expect(laptop.listContextRejectionsForSession(sessionId)).toEqual([]);
+    expect(laptop.findContextLinkForSession(sessionId)?.contextId).toBe(
+      second.id,
+    );
+
+    // Each machine merges the contexts in the opposite direction
+    laptop.mergeContexts(first.id, second.id);
+    await pause(5);
+    desktop.mergeContexts(second.id, first.id);
+    sync(laptop);
+    sync(desktop);
+    sync(laptop);
+
+    const state = (db: EvidenceDatabase) => ({
+      contexts: db
+        .listContexts({ includeMerged: true })
+        .map((context) => [
+          context.id,
+          context.status,
+          context.mergedIntoContextId,
+        ])
+        .sort(),
+      link: db.findContextLinkForSession(sessionId)?.contextId,
+      preference: db.getWorkspacePreferredContext(tempDir)?.contextId,
+    });
+    expect(state(laptop)).toEqual(state(desktop));
+    const active = laptop
+      .listContexts({ includeMerged: true })
+      .filter((context) => context.status === "active");
+    // Opposite merges form a cycle; the smallest ID stays active everywhere
+    const survivor = [first.id, second.id].sort()[0];
+    expect(active.map((context) => context.id)).toEqual([survivor]);
+    expect(state(laptop).link).toBe(survivor);
+    expect(state(laptop).preference).toBe(survivor);
+  });
+
+  it("only reads rows changed since the previous push", () => {
+    const sessionId = seedSession(laptop);
+    expect(sync(laptop).pushed).toBeGreaterThan(0);
+    expect(sync(laptop).pushed).toBe(0);
+
+    // A row stamped well before the last push is not read again
+    laptop
+      .getDb()
+      .prepare("UPDATE sessions SET title = ?, updatedAt = ? WHERE id = ?")
+      .run("Edited in place", "2026-03-10T08:05:00.000Z", sessionId);
+    expect(sync(laptop).pushed).toBe(0);
+
+    laptop.appendMessage({
+      sessionId,
+      seq: 2,
+      role: "assistant",
+      source: "wrapper",
+      content: "Fixed the failing store test.",
+      capturedAt: "2026-03-10T08:04:00.000Z",
+      metadata: null,
+    });
+    laptop.updateSessionTitle(sessionId, "Store fix");
+    expect(sync(laptop).pushed).toBe(2);
+
+    sync(desktop);
+    expect(desktop.findSessionById(sessionId)?.title).toBe("Store fix");
+    expect(desktop.getSessionMessages(sessionId)).toHaveLength(2);
+  });
+
+  it("refuses to sync encrypted session history", () => {
+    seedSession(laptop);
+    laptop.enableSessionHistoryEncryption(new Uint8Array(randomBytes(32)));
+
+    expect(() => sync(laptop)).toThrow(
+      "Sync is unavailable while session history is encrypted",
+    );
+    expect(fs.existsSync(path.join(shared, "changes"))).toBe(false);
+  });
+
+  it("rejects a log entry whose data does not match its kind", () => {
+    seedSession(laptop);
+    sync(laptop);
+    const logFile = fs
+      .readdirSync(path.join(shared, "changes"))
+      .map((name) => path.join(shared, "changes", name))[0]!;
+    const lines = fs.readFileSync(logFile, "utf8").trimEnd().split("\n");
+    const entries = lines.map(
+      (line) => JSON.parse(line) as { kind: string; data: { host?: string } },
+    );
+    entries.find((entry) => entry.kind === "session")!.data.host = "Bad Host";
+    fs.writeFileSync(
+      logFile,
+      entries.map((entry) => `${JSON.stringify(entry)}\n`).join(""),
+    );
+
+    expect(() => sync(desktop)).toThrow(/Invalid session data .*: host:/);
+    expect(desktop.listSessions()).toEqual([]);
+  });
+
+  it("applies the configured redactor to sessions re-ingested after a pull", () => {
+    const sessionId = seedSession(laptop);
+    laptop.appendTimelineEvent({
+      sessionId,
+      seq: 3,
+      eventType: "command.completed",
+      eventSubType: "curl",
+      source: "wrapper",
+      summary: "curl exited",
+      payload: JSON.stringify({
+        command: "curl",
+        args: ["https://api.example.com/orders?customer=CUST-004211"],
+        exitCode: 0,
+      }),
+      startedAt: "2026-03-10T08:00:20.000Z",
+      endedAt: "2026-03-10T08:00:21.000Z",
+      status: "completed",
+      relatedMessageId: null,
+    });
+    sync(laptop);
+
+    syncSessionHistory(desktop, {
+      directory: shared,
+      redactor: createRedactor(
+        parseRedactionConfig({
+          patterns: [{ name: "customer-id", pattern: "CUST-[0-9]{6}" }],
+        }),
+      ),
+    });
+    const artifacts = desktop.getSessionArtifacts(sessionId);
+    expect(artifacts.length).toBeGreaterThan(0);
+    for (const artifact of artifacts) {
+      expect(artifact.metadata ?? "").not.toContain("CUST-004211");
+    }
+  });
+
+  it("refuses to write a log another database has written under the same machine ID", () => {
+    seedSession(laptop);
+    sync(laptop);
+    laptop.close();
+    fs.copyFileSync(
+      path.join(tempDir, "laptop.db"),
+      path.join(tempDir, "clone.db"),
+    );
+    laptop = new EvidenceDatabase(path.join(tempDir, "laptop.db"));
+    seedSession(laptop);
+    sync(laptop);
+
+    const clone = new EvidenceDatabase(path.join(tempDir, "clone.db"));
+    try {
+      seedSession(clone);
+      expect(() => sync(clone)).toThrow("another database is using machine ID");
+    } finally {
+      clone.close();
+    }
+  });
+
+  it("loads the shared folder from sync.json next to the database", () => {
+    const dbPath = path.join(tempDir, "laptop.db");
+    const configPath = resolveSyncConfigPath(dbPath, {});
+    expect(configPath).toBe(path.join(tempDir, "sync.json"));
+    expect(loadSyncConfig(configPath).directory).toBeNull();
+
+    fs.writeFileSync(configPath, JSON.stringify({ directory: "shared" }));
+    expect(loadSyncConfig(configPath).directory).toBe(shared);
+
+    fs.writeFileSync(configPath, JSON.stringify({ directory: 42 }));
+    expect(() => loadSyncConfig(configPath)).toThrow(
+      "Invalid sync config: directory:",
+    );
+  });
+});
@@ -4,6 +4,12 @@
 
 import { Client } from "@modelcontextprotocol/sdk/client/index.js";
 import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import {
+  CreateMessageRequestSchema,
+  ResourceUpdatedNotificationSchema,
+  type CreateMessageRequest,
+  type CreateMessageResult,
+} from "@modelcontextprotocol/sdk/types.js";
 import type { FootprintServer } from "../src/index.js";
 
 export interface ToolInfo {
@@ -26,10 +32,20 @@ export interface AppResourceInfo {
 }
 
 export class FootprintMcpTestClient {
+  /** URIs from resources/updated notifications, in arrival order */
+  readonly resourceUpdates: string[] = [];
+
   constructor(
     private client: Client,
     private server: FootprintServer,
-  ) {}
+  ) {
+    client.setNotificationHandler(
+      ResourceUpdatedNotificationSchema,
+      (notification) => {
+        this.resourceUpdates.push(notification.params.uri);
+      },
+    );
+  }
 
   async listTools(): Promise<{
     tools: Array<Record<string, unknown>>;
@@ -63,6 +79,24 @@ export class FootprintMcpTestClient {
     };
   }
 
+  async subscribeResource(uri: string): Promise<void> {
+    await this.client.subscribeResource({ uri });
+  }
+
+  async unsubscribeResource(uri: string): Promise<void> {
+    await this.client.unsubscribeResource({ uri });
+  }
+
+  async waitForResourceUpdate(uri: string, timeoutMs = 5000): Promise<void> {
+    const deadline = Date.now() + timeoutMs;
+    while (!this.resourceUpdates.includes(uri)) {
+      if (Date.now() > deadline) {
+        throw new Error(`Timed out waiting for resources/updated: ${uri}`);
+      }
+      await new Promise((resolve) => setTimeout(resolve, 20));
+    }
+  }
+
   async callTool(
     name: string,
     args: Record<string, unknown>,
@@ -141,7 +175,15 @@ export class FootprintTestHelpers {
     return this.server as unknown as { server: Record<string, unknown> };
   }
 
-  async connectMcpClient(): Promise<FootprintMcpTestClient> {
+  /**
+   * Connect an in-memory MCP client. With `sampling`, the client advertises
+   * sampling and answers `sampling/createMessage` requests with it.
+   */
+  async connectMcpClient(options?: {
+    sampling?: (
+      params: CreateMessageRequest["params"],
+    ) => CreateMessageResult | Promise<CreateMessageResult>;
+  }): Promise<FootprintMcpTestClient> {
     const [clientTransport, serverTransport] =
       InMemoryTransport.createLinkedPair();
     await this.server.connect(serverTransport);
@@ -152,9 +194,15 @@ export class FootprintTestHelpers {
         version: "1.0.0",
       },
       {
-        capabilities: {},
+        capabilities: options?.sampling ? { sampling: {} } : {},
       },
     );
+    const sampling = options?.sampling;
+    if (sampling) {
+      client.setRequestHandler(CreateMessageRequestSchema, (request) =>
+        sampling(request.params),
+      );
+    }
     await client.connect(clientTransport);
 
     return new FootprintMcpTestClient(client, this.server);
@@ -0,0 +1,298 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { tmpdir } from "node:os";
+import { reingestSessionHistory } from "../src/ingestion/index.js";
+import {
+  detectTestReportFormat,
+  getTestReportOutputPaths,
+  parseTestReport,
+} from "../src/ingestion/test-reports.js";
+import { parseArtifactMetadata } from "../src/lib/session-artifacts.js";
+import { EvidenceDatabase } from "../src/lib/storage/index.js";
+
+const JUNIT_REPORT = `<?xml version="1.0" encoding="UTF-8"?>
+<testsuites name="vitest tests" tests="3" failures="1">
+  <testsuite name="tests/store.test.ts" tests="3" failures="1" skipped="1" time="0.012">
+    <testcase classname="tests/store.test.ts" name="store &gt; keeps rows" time="0.004">
+      <failure message="expected 1 to be 2 // Object.is equality" type="AssertionError">
+AssertionError: expected 1 to be 2 // Object.is equality
+ ❯ tests/store.test.ts:12:17
+      </failure>
+    </testcase>
+    <testcase classname="tests/store.test.ts" name="store &gt; drops rows" time="0.002"/>
+    <testcase classname="tests/store.test.ts" name="store &gt; migrates" time="0">
+      <skipped/>
+    </testcase>
+  </testsuite>
+</testsuites>
+`;
+
+const TAP_REPORT = `TAP version 13
+# Subtest: store
+    # Subtest: keeps rows
+    not ok 1 - keeps rows
+      ---
+      duration_ms: 3.5
+      failureType: 'testCodeFailure'
+      error: 'Expected values to be strictly equal'
+      ...
+    ok 2 - drops rows
+      ---
+      duration_ms: 1.25
+      ...
+    1..2
+not ok 1 - store
+  ---
+  duration_ms: 6
+  ...
+ok 2 - cli smoke # SKIP no binary
+1..2
+`;
+
+describe("Structured Test Reports", () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(tmpdir(), "footprint-test-reports-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  function jestReport(projectRoot: string): string {
+    return JSON.stringify({
+      numTotalTests: 2,
+      numFailedTests: 1,
+      testResults: [
+        {
+          name: path.join(projectRoot, "tests", "api.test.ts"),
+          status: "failed",
+          message: "",
+          assertionResults: [
+            {
+              ancestorTitles: ["api", "auth"],
+              fullName: "api auth rejects expired tokens",
+              title: "rejects expired tokens",
+              status: "failed",
+              duration: 12.4,
+              failureMessages: [
+                "\u001b[31mError: expect(received).toBe(expected)\u001b[39m\n    at tests/api.test.ts:40:5",
+              ],
+            },
+            {
+              ancestorTitles: ["api"],
+              fullName: "api lists users",
+              title: "lists users",
+              status: "passed",
+              duration: 3,
+              failureMessages: [],
+            },
+          ],
+        },
+      ],
+    });
+  }
+
+  it("parses JUnit XML, TAP, and jest/vitest JSON into exact test cases", () => {
+    expect(detectTestReportFormat(JUNIT_REPORT)).toBe("junit");
+    expect(parseTestReport(JUNIT_REPORT, "junit")).toEqual([
+      {
+        testId: "tests/store.test.ts > store > keeps rows",
+        suite: "tests/store.test.ts",
+        name: "store > keeps rows",
+        file: null,
+        status: "failed",
+        durationMs: 4,
+        failureMessage:
+          "AssertionError: expected 1 to be 2 // Object.is equality",
+      },
+      expect.objectContaining({
+        testId: "tests/store.test.ts > store > drops rows",
+        status: "passed",
+        durationMs: 2,
+        failureMessage: null,
+      }),
+      expect.objectContaining({ status: "skipped" }),
+    ]);
+
+    expect(detectTestReportFormat(TAP_REPORT)).toBe("tap");
+    expect(parseTestReport(TAP_REPORT, "tap")).toEqual([
+      {
+        testId: "store > keeps rows",
+        suite: "store",
+        name: "keeps rows",
+        file: null,
+        status: "failed",
+        durationMs: 3.5,
+        failureMessage: "Expected values to be strictly equal",
+      },
+      expect.objectContaining({
+        testId: "store > drops rows",
+        status: "passed",
+      }),
+      expect.objectContaining({ testId: "cli smoke", status: "skipped" }),
+    ]);
+
+    const json = jestReport(tempDir);
+    expect(detectTestReportFormat(json)).toBe("jest-json");
+    expect(
+      parseTestReport(json, "jest-json", { projectRoot: tempDir }),
+    ).toEqual([
+      {
+        testId: "tests/api.test.ts > api > auth > rejects expired tokens",
+        suite: "api > auth",
+        name: "rejects expired tokens",
+        file: "tests/api.test.ts",
+        status: "failed",
+        durationMs: 12,
+        failureMessage: "Error: expect(received).toBe(expected)",
+      },
+      expect.objectContaining({
+        testId: "tests/api.test.ts > api > lists users",
+        status: "passed",
+      }),
+    ]);
+
+    expect(detectTestReportFormat('{"compilerOptions":{}}')).toBeNull();
+    expect(detectTestReportFormat("ok, deploying now")).toBeNull();
+    expect(
+      getTestReportOutputPaths([
+        "vitest",
+        "--reporter=json",
+        "--outputFile=out/vitest.json",
+        "--outputFile.junit",
+        "ignored",
+        "--junitxml",
+        "junit.xml",
+      ]),
+    ).toEqual(["out/vitest.json", "junit.xml"]);
+  });
+
+  it("ingests report events and command output as per-test artifacts keyed on test IDs", () => {
+    const db = new EvidenceDatabase(path.join(tempDir, "footprint.db"));
+    try {
+      const sessionId = db.createSession({
+        host: "codex",
+        projectRoot: tempDir,
+        cwd: tempDir,
+        title: "Fix the store tests",
+        status: "completed",
+        startedAt: "2026-03-10T08:00:00.000Z",
+        endedAt: "2026-03-10T08:05:00.000Z",
+        metadata: null,
+      });
+      db.appendTimelineEvent({
+        sessionId,
+        seq: 1,
+        eventType: "test.report",
+        eventSubType: "junit",
+        source: "wrapper",
+        summary: "junit report reports/junit.xml",
+        payload: JSON.stringify({
+          path: "reports/junit.xml",
+          format: "junit",
+          content: JUNIT_REPORT,
+          command: "pnpm",
+          args: ["vitest", "run"],
+        }),
+        startedAt: "2026-03-10T08:01:00.000Z",
+        endedAt: "2026-03-10T08:01:00.000Z",
+        status: "captured",
+      });
+      db.appendTimelineEvent({
+        sessionId,
+        seq: 2,
+        eventType: "command.completed",
+        eventSubType: "node",
+        source: "wrapper",
+        summary: "node --test",
+        payload: JSON.stringify({
+          command: "node",
+          args: ["--test", "--test-reporter=tap"],
+          exitCode: 1,
+          stdout: TAP_REPORT,
+        }),
+        startedAt: "2026-03-10T08:02:00.000Z",
+        endedAt: "2026-03-10T08:02:05.000Z",
+        status: "failed",
+      });
+      db.appendTimelineEvent({
+        sessionId,
+        seq: 3,
+        eventType: "test.report",
+        eventSubType: "jest-json",
+        source: "wrapper",
+        summary: "jest-json report out/vitest.json",
+        payload: JSON.stringify({
+          path: "out/vitest.json",
+          format: "jest-json",
+          content: jestReport(tempDir),
+          command: "npx",
+          args: ["vitest", "--reporter=json"],
+        }),
+        startedAt: "2026-03-10T08:03:00.000Z",
+        endedAt: "2026-03-10T08:03:00.000Z",
+        status: "captured",
+      });
+
+      reingestSessionHistory(db, sessionId);
+
+      const testResults = db
+        .getSessionArtifacts(sessionId)
+        .filter((artifact) => artifact.artifactType === "test-result")
+        .map((artifact) => parseArtifactMetadata(artifact.metadata));
+      expect(testResults.map((metadata) => metadata.testId).sort()).toEqual([
+        "cli smoke",
+        "store > drops rows",
+        "store > keeps rows",
+        "tests/api.test.ts > api > auth > rejects expired tokens",
+        "tests/api.test.ts > api > lists users",
+        "tests/store.test.ts > store > drops rows",
+        "tests/store.test.ts > store > keeps rows",
+        "tests/store.test.ts > store > migrates",
+      ]);
+      const byTestId = new Map(
+        testResults.map((metadata) => [metadata.testId, metadata]),
+      );
+      expect(byTestId.get("tests/store.test.ts > store > keeps rows")).toEqual(
+        expect.objectContaining({
+          framework: "vitest",
+          testSuite: "tests/store.test.ts",
+          testCase: "store > keeps rows",
+          durationMs: 4,
+          failureMessage:
+            "AssertionError: expected 1 to be 2 // Object.is equality",
+          failureSignatureKey: "test:assertion",
+          outcome: "failed",
+          issueKey: "test-case:tests-store-test-ts-store-keeps-rows",
+          issueFamilyKey: "test-family:vitest",
+        }),
+      );
+      expect(byTestId.get("store > keeps rows")!.framework).toBe("tap");
+
+      // Skipped tests are not attempts
+      const attempts = db
+        .querySessionTrendAttempts({ sessionIds: [sessionId] })
+        .filter((attempt) => attempt.issueKey.startsWith("test-case:"));
+      expect(
+        attempts
+          .map((attempt) => [attempt.issueKey, attempt.outcomeCategory])
+          .sort(),
+      ).toEqual([
+        ["test-case:store-drops-rows", "succeeded"],
+        ["test-case:store-keeps-rows", "failed"],
+        [
+          "test-case:tests-api-test-ts-api-auth-rejects-expired-tokens",
+          "failed",
+        ],
+        ["test-case:tests-api-test-ts-api-lists-users", "succeeded"],
+        ["test-case:tests-store-test-ts-store-drops-rows", "succeeded"],
+        ["test-case:tests-store-test-ts-store-keeps-rows", "failed"],
+      ]);
+    } finally {
+      db.close();
+    }
+  });
+});
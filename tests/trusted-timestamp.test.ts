@@ -0,0 +1,269 @@
+/* global Buffer */
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import JSZip from "jszip";
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { tmpdir } from "node:os";
+import { createHash } from "node:crypto";
+import { FootprintServer } from "../src/index.js";
+import { verifyTimestampToken } from "../src/lib/crypto/index.js";
+import type { EvidenceDatabase } from "../src/lib/storage/index.js";
+import {
+  loadTimestampConfig,
+  parseTimestampConfig,
+  requestTimestamp,
+} from "../src/lib/trusted-timestamp.js";
+import { FootprintTestHelpers } from "./test-helpers.js";
+import { startLocalTsa, type LocalTsa } from "./local-tsa.js";
+import type { ServerConfig } from "../src/types.js";
+
+describe("Trusted Timestamps", () => {
+  let tempDir: string;
+  let dbPath: string;
+  const running: LocalTsa[] = [];
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(tmpdir(), "footprint-timestamp-"));
+    dbPath = path.join(tempDir, "footprint.db");
+  });
+
+  afterEach(async () => {
+    await Promise.all(running.splice(0).map((tsa) => tsa.close()));
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  async function startTsa(port?: number): Promise<LocalTsa> {
+    const tsa = await startLocalTsa({ port });
+    running.push(tsa);
+    return tsa;
+  }
+
+  function writeConfig(config: Record<string, unknown>): void {
+    fs.writeFileSync(
+      path.join(tempDir, "timestamp.json"),
+      JSON.stringify(config),
+    );
+  }
+
+  function startServer(): {
+    server: FootprintServer;
+    helpers: FootprintTestHelpers;
+  } {
+    const server = new FootprintServer({
+      dbPath,
+      password: "trusted-timestamp",
+    } satisfies ServerConfig);
+    return { server, helpers: new FootprintTestHelpers(server) };
+  }
+
+  it("stamps captured footprints and verifies and exports the token", async () => {
+    const tsa = await startTsa();
+    writeConfig({ url: tsa.url, trustedCertificates: [tsa.certificatePem] });
+    const { server, helpers } = startServer();
+
+    try {
+      const captured = await helpers.callTool("capture-footprint", {
+        conversationId: "stamped-decision",
+        llmProvider: "claude",
+        content: "User: Stamp this\nAssistant: Done.",
+      });
+      expect(captured.structuredContent.timestampStatus).toBe("stamped");
+      const id = captured.structuredContent.id as string;
+
+      const verification = await helpers.callTool("verify-footprint", { id });
+      expect(verification.structuredContent.verified).toBe(true);
+      expect(
+        (verification.structuredContent.checks as Record<string, unknown>)
+          .trustedTimestamp,
+      ).toEqual(
+        expect.objectContaining({
+          present: true,
+          passed: true,
+          trusted: true,
+          authority: "CN=Footprint Test TSA",
+        }),
+      );
+      expect(verification.textContent).toContain(
+        "Trusted Timestamp: ✓ RFC 3161",
+      );
+
+      const exported = await helpers.callTool("export-footprints", {
+        outputMode: "base64",
+      });
+      const zip = await JSZip.loadAsync(
+        Buffer.from(exported.structuredContent.base64Data as string, "base64"),
+      );
+      const metadata = JSON.parse(
+        await zip.file(`evidences/${id}/metadata.json`)!.async("text"),
+      ) as {
+        contentHash: string;
+        trustedTimestamp: { token: string; genTime: string };
+      };
+      expect(
+        verifyTimestampToken(
+          new Uint8Array(
+            Buffer.from(metadata.trustedTimestamp.token, "base64"),
+          ),
+          metadata.contentHash,
+        ).genTime,
+      ).toBe(metadata.trustedTimestamp.genTime);
+
+      (server as unknown as { db: EvidenceDatabase }).db
+        .getDb()
+        .prepare(
+          `
+            UPDATE evidences
+            SET timestampToken = NULL, timestampGenTime = NULL,
+                timestampAuthority = NULL
+            WHERE id = ?
+          `,
+        )
+        .run(id);
+      const stripped = await helpers.callTool("verify-footprint", { id });
+      expect(stripped.structuredContent.verified).toBe(false);
+      expect(
+        (stripped.structuredContent.checks as Record<string, unknown>)
+          .trustedTimestamp,
+      ).toEqual(
+        expect.objectContaining({
+          present: false,
+          passed: false,
+          requested: true,
+        }),
+      );
+      expect(stripped.textContent).toContain(
+        "Trusted Timestamp: ✗ Timestamp token is missing",
+      );
+
+      // Clearing the request as well breaks the ledger entry hash
+      (server as unknown as { db: EvidenceDatabase }).db
+        .getDb()
+        .prepare(`UPDATE evidences SET timestampRequested = 0 WHERE id = ?`)
+        .run(id);
+      const ledger = await helpers.callTool("verify-ledger", {});
+      expect(ledger.structuredContent.verified).toBe(false);
+      expect(ledger.structuredContent.issues).toEqual([
+        expect.objectContaining({ kind: "edited", evidenceId: id }),
+      ]);
+    } finally {
+      server.close();
+    }
+  }, 30_000);
+
+  it("queues footprints while the TSA is unreachable and stamps them on flush", async () => {
+    const offline = await startTsa();
+    const { port, url } = offline;
+    await running.pop()!.close();
+    writeConfig({ url, timeoutMs: 2_000 });
+    const { server, helpers } = startServer();
+
+    try {
+      const captured = await helpers.callTool("capture-footprint", {
+        conversationId: "offline-decision",
+        llmProvider: "claude",
+        content: "User: Stamp this later\nAssistant: Queued.",
+      });
+      expect(captured.structuredContent.timestampStatus).toBe("queued");
+      const id = captured.structuredContent.id as string;
+
+      const pending = await helpers.callTool("verify-footprint", { id });
+      expect(pending.structuredContent.verified).toBe(true);
+      expect(pending.textContent).toContain(
+        "Trusted Timestamp: – Queued for the timestamp authority",
+      );
+
+      const failed = await helpers.callTool("flush-timestamp-queue", {});
+      expect(failed.structuredContent).toEqual(
+        expect.objectContaining({ stamped: 0, failed: 1, remaining: 1 }),
+      );
+
+      const tsa = await startTsa(port);
+      const flushed = await helpers.callTool("flush-timestamp-queue", {});
+      expect(flushed.structuredContent).toEqual(
+        expect.objectContaining({ stamped: 1, failed: 0, remaining: 0 }),
+      );
+      expect(tsa.requests).toBe(1);
+
+      // No trustedCertificates configured, so the token is not vouched for
+      const stamped = await helpers.callTool("verify-footprint", { id });
+      expect(stamped.structuredContent.verified).toBe(true);
+      expect(
+        (stamped.structuredContent.checks as Record<string, unknown>)
+          .trustedTimestamp,
+      ).toEqual(
+        expect.objectContaining({
+          present: true,
+          passed: false,
+          trusted: null,
+        }),
+      );
+      expect(stamped.textContent).toContain(
+        "Trusted Timestamp: – Unverified RFC 3161",
+      );
+    } finally {
+      server.close();
+    }
+  }, 30_000);
+
+  it("rejects tokens for other content, tampered tokens, and untrusted signers", async () => {
+    const tsa = await startTsa();
+    const other = await startTsa();
+    const contentHash = createHash("sha256").update("evidence").digest("hex");
+    const { token, info } = await requestTimestamp(
+      contentHash,
+      parseTimestampConfig({ url: tsa.url }),
+    );
+    expect(info.trusted).toBeNull();
+    expect(
+      verifyTimestampToken(token, contentHash, {
+        trustedCertificates: [tsa.certificatePem],
+      }).trusted,
+    ).toBe(true);
+
+    expect(() =>
+      verifyTimestampToken(
+        token,
+        createHash("sha256").update("other").digest("hex"),
+      ),
+    ).toThrow("imprint does not match");
+
+    const tampered = new Uint8Array(token);
+    tampered[tampered.length - 5]! ^= 0xff;
+    expect(() => verifyTimestampToken(tampered, contentHash)).toThrow();
+
+    expect(() =>
+      verifyTimestampToken(token, contentHash, {
+        trustedCertificates: [other.certificatePem],
+      }),
+    ).toThrow("does not chain to a trusted TSA");
+    await expect(
+      requestTimestamp(
+        contentHash,
+        parseTimestampConfig({
+          url: tsa.url,
+          trustedCertificates: [other.certificatePem],
+        }),
+      ),
+    ).rejects.toThrow("does not chain to a trusted TSA");
+  });
+
+  it("loads timestamp configs with certificate files and rejects bad urls", async () => {
+    const tsa = await startTsa();
+    expect(loadTimestampConfig(path.join(tempDir, "missing.json"))).toEqual({
+      url: null,
+      timeoutMs: 10_000,
+      trustedCertificates: [],
+    });
+
+    fs.writeFileSync(path.join(tempDir, "tsa.pem"), tsa.certificatePem);
+    writeConfig({ url: tsa.url, trustedCertificates: ["tsa.pem"] });
+    expect(
+      loadTimestampConfig(path.join(tempDir, "timestamp.json"))
+        .trustedCertificates,
+    ).toEqual([tsa.certificatePem.trim()]);
+
+    expect(() => parseTimestampConfig({ url: "not a url" })).toThrow(
+      "Invalid timestamp config: url:",
+    );
+  });
+});
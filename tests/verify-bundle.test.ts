@@ -0,0 +1,178 @@
+/* global Buffer */
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import JSZip from "jszip";
+import { execFileSync } from "node:child_process";
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { tmpdir } from "node:os";
+import { FootprintServer } from "../src/index.js";
+import {
+  verifyEvidenceBundle,
+  type EvidenceDatabase,
+} from "../src/lib/storage/index.js";
+import { FootprintTestHelpers } from "./test-helpers.js";
+import type { ServerConfig } from "../src/types.js";
+
+describe("Evidence Bundle Verification", () => {
+  let tempDir: string;
+  let server: FootprintServer;
+  let helpers: FootprintTestHelpers;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(tmpdir(), "footprint-bundle-"));
+    server = new FootprintServer({
+      dbPath: path.join(tempDir, "footprint.db"),
+      password: "bundle-verification",
+    } satisfies ServerConfig);
+    helpers = new FootprintTestHelpers(server);
+  });
+
+  afterEach(() => {
+    server.close();
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  function createRepository(): { repoDir: string; commitHash: string } {
+    const repoDir = fs.mkdtempSync(path.join(tempDir, "repo-"));
+    fs.writeFileSync(path.join(repoDir, "notes.txt"), "seed\n", "utf8");
+    const git = (command: string[]) =>
+      execFileSync("git", command, {
+        cwd: repoDir,
+        env: {
+          ...process.env,
+          GIT_AUTHOR_NAME: "Footprint Test",
+          GIT_AUTHOR_EMAIL: "footprint@example.com",
+          GIT_COMMITTER_NAME: "Footprint Test",
+          GIT_COMMITTER_EMAIL: "footprint@example.com",
+          GIT_COMMITTER_DATE: "2026-03-09T10:00:00Z",
+        },
+        encoding: "utf8",
+      });
+    git(["init", "-q"]);
+    git(["add", "notes.txt"]);
+    git(["commit", "-q", "-m", "initial"]);
+    return { repoDir, commitHash: git(["rev-parse", "HEAD"]).trim() };
+  }
+
+  async function exportBundle(
+    ids: string[],
+  ): Promise<{ zipData: Uint8Array; checksum: string; repoDir: string }> {
+    const { repoDir, commitHash } = createRepository();
+    const db = (server as unknown as { db: EvidenceDatabase }).db;
+    for (const id of ids) {
+      db.updateGitInfo(id, commitHash, "2026-03-09T10:00:00.000Z");
+    }
+    const exported = await helpers.callTool("export-footprints", {
+      outputMode: "base64",
+      includeGitInfo: true,
+    });
+    return {
+      zipData: new Uint8Array(
+        Buffer.from(exported.structuredContent.base64Data as string, "base64"),
+      ),
+      checksum: exported.structuredContent.checksum as string,
+      repoDir,
+    };
+  }
+
+  async function capture(conversationId: string): Promise<string> {
+    const result = await helpers.callTool("capture-footprint", {
+      conversationId,
+      llmProvider: "claude",
+      content: `User: ${conversationId}\nAssistant: Noted.`,
+    });
+    return result.structuredContent.id as string;
+  }
+
+  it("verifies checksums, signatures, git anchors, and decrypted content offline", async () => {
+    const ids = [await capture("bundle-one"), await capture("bundle-two")];
+    const { zipData, checksum, repoDir } = await exportBundle(ids);
+
+    const report = await verifyEvidenceBundle(zipData, {
+      passphrase: "bundle-verification",
+      expectedSha256: checksum,
+      gitRepo: repoDir,
+    });
+    expect(report.errors).toEqual([]);
+    expect(report.verified).toBe(true);
+    expect(report.bundle.checksumMatches).toBe(true);
+    expect(report.manifest).toEqual(
+      expect.objectContaining({
+        version: "1.2.0",
+        evidenceCount: 2,
+        actualEvidenceCount: 2,
+        countMatches: true,
+        checksumMatches: true,
+        signature: "valid",
+      }),
+    );
+    expect(report.files).toEqual(
+      expect.objectContaining({ checked: 6, mismatched: [], unlisted: [] }),
+    );
+    expect(report.decryption).toBe("performed");
+    expect(report.evidences.map((evidence) => evidence.id).sort()).toEqual(
+      [...ids].sort(),
+    );
+    for (const evidence of report.evidences) {
+      expect(evidence).toEqual(
+        expect.objectContaining({
+          verified: true,
+          signature: "valid",
+          decrypted: true,
+          contentHashMatches: true,
+        }),
+      );
+      expect(evidence.gitAnchor).toEqual(
+        expect.objectContaining({ passed: true, foundInRepository: true }),
+      );
+    }
+
+    const structural = await verifyEvidenceBundle(zipData);
+    expect(structural.verified).toBe(true);
+    expect(structural.decryption).toBe("skipped");
+    expect(structural.evidences[0]?.decrypted).toBeNull();
+  }, 60_000);
+
+  it("reports tampered records, manifests, and wrong passphrases", async () => {
+    const id = await capture("bundle-tampered");
+    const { zipData, checksum } = await exportBundle([id]);
+
+    const wrongPassphrase = await verifyEvidenceBundle(zipData, {
+      passphrase: "not the bundle passphrase",
+    });
+    expect(wrongPassphrase.verified).toBe(false);
+    expect(wrongPassphrase.evidences[0]?.decrypted).toBe(false);
+
+    const zip = await JSZip.loadAsync(zipData);
+    const encrypted = await zip
+      .file(`evidences/${id}/encrypted-data`)!
+      .async("uint8array");
+    encrypted[0]! ^= 0xff;
+    zip.file(`evidences/${id}/encrypted-data`, encrypted);
+    const manifestJson = await zip.file("manifest.json")!.async("text");
+    zip.file(
+      "manifest.json",
+      manifestJson.replace('"evidenceCount": 1', '"evidenceCount": 2'),
+    );
+    zip.file(`evidences/extra/metadata.json`, "{}");
+    const tampered = await zip.generateAsync({ type: "uint8array" });
+
+    const report = await verifyEvidenceBundle(tampered, {
+      expectedSha256: checksum,
+    });
+    expect(report.verified).toBe(false);
+    expect(report.bundle.checksumMatches).toBe(false);
+    expect(report.manifest).toEqual(
+      expect.objectContaining({
+        evidenceCount: 2,
+        actualEvidenceCount: 2,
+        signature: "invalid",
+      }),
+    );
+    expect(report.files.mismatched).toEqual([`evidences/${id}/encrypted-data`]);
+    expect(report.files.unlisted).toEqual(["evidences/extra/metadata.json"]);
+    expect(
+      report.evidences.find((evidence) => evidence.id === "extra")?.errors[0],
+    ).toContain("metadata.json is missing or invalid");
+  }, 60_000);
+});
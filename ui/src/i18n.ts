@@ -237,6 +237,11 @@ const DICTIONARY: Record<UiLocale, Record<string, string>> = {
     "artifact.command-output": "Command Run",
     "artifact.test-result": "Test Result",
     "artifact.git-commit": "Saved Change",
+    "artifact.lint-result": "Lint Run",
+    "artifact.build-result": "Build",
+    "artifact.dependency-change": "Dependency Change",
+    "artifact.http-request": "Network Request",
+    "artifact.migration": "Migration",
     "narrative.project-summary": "Big-Picture Summary",
     "narrative.handoff": "What To Know Next",
     "decision.active": "Current",
@@ -935,6 +940,15 @@ Object.assign(DICTIONARY.en, {
   "session.artifact.dependencies": "Dependencies",
   "session.artifact.dependencyChange": "change",
   "session.artifact.scope": "Scope",
+  "session.artifact.lint": "Lint",
+  "session.artifact.lintRules": "Rules",
+  "session.artifact.errors": "errors",
+  "session.artifact.warnings": "warnings",
+  "session.artifact.build": "Build",
+  "session.artifact.outputs": "Outputs",
+  "session.artifact.versions": "Versions",
+  "session.artifact.request": "Request",
+  "session.artifact.migration": "Migration",
 
   "session.context.folder": "Folder",
   "session.context.workedIn": "Worked in",
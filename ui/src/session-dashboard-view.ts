@@ -7,6 +7,7 @@ import {
   buildSessionRowsHtml,
   buildSuccessHtml,
   canReingestSession,
+  formatHostLabel,
   formatWorkDisplayLabel,
 } from "./session-ui";
 import { getIntlLocale, t } from "./i18n";
@@ -285,6 +286,30 @@ function setInputValue(
   }
 }
 
+/**
+ * The host filter ships with the built-in hosts only; generic hosts recorded
+ * with `footprint run -- <command>` get an option once they are seen.
+ */
+function ensureHostFilterOptions(
+  rootDocument: Document,
+  hosts: string[],
+): void {
+  const select = rootDocument.getElementById(
+    "host-filter",
+  ) as HTMLSelectElement | null;
+  if (!select) return;
+
+  const known = new Set(Array.from(select.options, (option) => option.value));
+  for (const host of hosts) {
+    if (!host || known.has(host)) continue;
+    const option = rootDocument.createElement("option");
+    option.value = host;
+    option.textContent = formatHostLabel(host);
+    select.append(option);
+    known.add(host);
+  }
+}
+
 function readDashboardFilters(rootDocument: Document): DashboardFilters {
   return {
     query: getInputValue(rootDocument, "query-filter").trim(),
@@ -308,6 +333,7 @@ function applyDashboardFilters(
     setInputValue(rootDocument, "issue-key-filter", filters.issueKey);
   }
   if (filters.host !== undefined) {
+    ensureHostFilterOptions(rootDocument, [filters.host]);
     setInputValue(rootDocument, "host-filter", filters.host);
   }
   if (filters.status !== undefined) {
@@ -589,6 +615,10 @@ export function bootSessionDashboard(
             visible: sessions.length,
             total,
           });
+    ensureHostFilterOptions(
+      rootDocument,
+      sessions.map((session) => session.host),
+    );
     rows.innerHTML = buildSessionRowsHtml(sessions, formatDate);
     updateLoadMoreButton(rootDocument, {
       id: "load-more-sessions",
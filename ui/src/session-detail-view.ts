@@ -67,6 +67,11 @@ interface SessionDetailData {
       commandOutput: number;
       testResult: number;
       gitCommit: number;
+      lintResult: number;
+      buildResult: number;
+      dependencyChange: number;
+      httpRequest: number;
+      migration: number;
     };
   };
   trendContext: {
@@ -254,6 +259,20 @@ interface SessionArtifactsPageData {
     testCase?: string | null;
     changeScope?: string | null;
     manifestKind?: string | null;
+    linter?: string | null;
+    errorCount?: number | null;
+    warningCount?: number | null;
+    lintRuleIds?: string[];
+    buildTool?: string | null;
+    durationMs?: number | null;
+    outputFiles?: string[];
+    dependencyVersions?: string[];
+    httpMethod?: string | null;
+    url?: string | null;
+    statusCode?: number | null;
+    migrationTool?: string | null;
+    migrationAction?: string | null;
+    migrationNames?: string[];
   }>;
 }
 
@@ -100,6 +100,20 @@ export interface SessionArtifactView {
   testCase?: string | null;
   changeScope?: string | null;
   manifestKind?: string | null;
+  linter?: string | null;
+  errorCount?: number | null;
+  warningCount?: number | null;
+  lintRuleIds?: string[];
+  buildTool?: string | null;
+  durationMs?: number | null;
+  outputFiles?: string[];
+  dependencyVersions?: string[];
+  httpMethod?: string | null;
+  url?: string | null;
+  statusCode?: number | null;
+  migrationTool?: string | null;
+  migrationAction?: string | null;
+  migrationNames?: string[];
 }
 
 export interface SessionTrendContextView {
@@ -222,6 +236,11 @@ const ARTIFACT_LABEL_BY_TYPE: Record<string, string> = {
   "command-output": "Command Run",
   "test-result": "Test Result",
   "git-commit": "Saved Change",
+  "lint-result": "Lint Run",
+  "build-result": "Build",
+  "dependency-change": "Dependency Change",
+  "http-request": "Network Request",
+  migration: "Migration",
 };
 
 const NARRATIVE_LABEL_BY_KIND: Record<string, string> = {
@@ -273,6 +292,14 @@ function renderMultilineText(value: string): string {
   return escapeHtml(value).replace(/\r?\n/g, "<br>");
 }
 
+/** Renders `**term**` search highlights as `<mark>` after escaping. */
+function renderSearchSnippet(value: string): string {
+  return renderMultilineText(value).replace(
+    /\*\*([^*]+?)\*\*/g,
+    "<mark>$1</mark>",
+  );
+}
+
 function buildListHtml(items: string[], emptyMessage: string): string {
   if (items.length === 0) {
     return `<li class="muted">${escapeHtml(emptyMessage)}</li>`;
@@ -894,7 +921,7 @@ export function buildHistorySearchResultsHtml(
   return buildListHtml(
     results.map((result) => {
       const snippets = result.snippets
-        .map((snippet) => renderMultilineText(snippet))
+        .map((snippet) => renderSearchSnippet(snippet))
         .join("<br>");
       const escapedSessionId = escapeHtml(result.sessionId);
       const displayLabel = formatWorkDisplayLabel(result.label, result.host);
@@ -1350,6 +1377,23 @@ export function buildDecisionListHtml(
   );
 }
 
+function formatCheckCounts(
+  parts: Array<string | null>,
+  counts: { errorCount?: number | null; warningCount?: number | null },
+): string {
+  return [
+    ...parts,
+    counts.errorCount != null
+      ? `${counts.errorCount} ${t("session.artifact.errors")}`
+      : null,
+    counts.warningCount != null
+      ? `${counts.warningCount} ${t("session.artifact.warnings")}`
+      : null,
+  ]
+    .filter(Boolean)
+    .join(" · ");
+}
+
 export function buildArtifactListHtml(
   artifacts: SessionArtifactView[],
 ): string {
@@ -1373,12 +1417,47 @@ export function buildArtifactListHtml(
         artifact.lintRuleId
           ? `${t("session.artifact.lintRule")}: ${artifact.lintRuleId}`
           : null,
+        artifact.artifactType === "lint-result"
+          ? `${t("session.artifact.lint")}: ${formatCheckCounts([artifact.linter ?? null], artifact)}`
+          : null,
+        artifact.lintRuleIds && artifact.lintRuleIds.length > 0
+          ? `${t("session.artifact.lintRules")}: ${artifact.lintRuleIds.join(", ")}`
+          : null,
+        artifact.artifactType === "build-result"
+          ? `${t("session.artifact.build")}: ${formatCheckCounts(
+              [
+                artifact.buildTool ?? null,
+                artifact.durationMs != null
+                  ? `${(artifact.durationMs / 1000).toFixed(1)}s`
+                  : null,
+              ],
+              artifact,
+            )}`
+          : null,
+        artifact.outputFiles && artifact.outputFiles.length > 0
+          ? `${t("session.artifact.outputs")}: ${artifact.outputFiles.join(", ")}`
+          : null,
+        artifact.httpMethod && artifact.url
+          ? `${t("session.artifact.request")}: ${artifact.httpMethod} ${artifact.url}${artifact.statusCode != null ? ` → ${artifact.statusCode}` : ""}`
+          : null,
+        artifact.migrationTool || artifact.migrationAction
+          ? `${t("session.artifact.migration")}: ${[
+              artifact.migrationTool,
+              artifact.migrationAction,
+              artifact.migrationNames?.join(", "),
+            ]
+              .filter(Boolean)
+              .join(" · ")}`
+          : null,
         artifact.testSuite
           ? `${t("session.artifact.test")}: ${artifact.testSuite}${artifact.testCase ? ` > ${artifact.testCase}` : ""}`
           : null,
         artifact.dependencyNames && artifact.dependencyNames.length > 0
           ? `${t("session.artifact.dependencies")}: ${artifact.dependencyAction ?? t("session.artifact.dependencyChange")} ${artifact.dependencyNames.join(", ")}`
           : null,
+        artifact.dependencyVersions && artifact.dependencyVersions.length > 0
+          ? `${t("session.artifact.versions")}: ${artifact.dependencyVersions.join(", ")}`
+          : null,
         artifact.changeScope
           ? `${t("session.artifact.scope")}: ${artifact.changeScope}${artifact.manifestKind ? ` (${artifact.manifestKind})` : ""}`
           : null,